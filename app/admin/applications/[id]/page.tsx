@@ -1,7 +1,19 @@
 import { notFound } from "next/navigation";
+import Link from "next/link";
 import { prisma } from "@/lib/prisma";
 import ActionBar from "@/components/admin/applications/ApplicationApproveBar";
+import ApplicationReviewPanel from "@/components/admin/applications/ApplicationReviewPanel";
+import { getRelatedApplications, MATCH_SIGNAL_LABELS, type RelatedApplication } from "@/lib/application-duplicates";
 import type { Application } from "@prisma/client";
+import {
+    formatAnswer,
+    isQuestionVisible,
+    type FormAnswers,
+    type FormDefinition,
+    type FormQuestion,
+} from "@/lib/validation/application-form";
+
+type ApplicationWithForm = Application & { form: { version: number; definition: unknown } | null };
 
 export const runtime = "nodejs";
 
@@ -13,10 +25,16 @@ export default async function ApplicationDetailPage({
     
     const app = await prisma.application.findUnique({
         where: { id },
+        include: {
+            form: { select: { version: true, definition: true } },
+            provisionedUser: { select: { name: true, email: true, role: true, minecraftName: true } },
+        },
     });
 
     if (!app) return notFound();
 
+    const related = await getRelatedApplications(app.id);
+
     const fmt = new Intl.DateTimeFormat(undefined, {
         year: "numeric", month: "short", day: "2-digit",
         hour: "numeric", minute: "2-digit",
@@ -39,8 +57,30 @@ export default async function ApplicationDetailPage({
                 <Row label="Role" value={app.role} />
                 <Row label="Timezone" value={app.timezone} />
                 <Row label="Age Range" value={app.ageRange} />
+                <Row
+                    label="Status Page"
+                    value={app.statusToken ? linkOrDash(`/apply/status/${app.statusToken}`) : "Sent with the applicant's first email"}
+                />
+                <Row
+                    label="Staff Account"
+                    value={
+                        app.provisionedUser ? (
+                            <span>
+                                <Link className="underline" href="/admin/staff">{app.provisionedUser.name || app.provisionedUser.email}</Link>
+                                {" "}— {app.provisionedUser.role}
+                                {app.provisionedUser.minecraftName && `, ${app.provisionedUser.minecraftName}`}
+                                {app.provisionedAt && ` (set up ${fmt.format(app.provisionedAt)})`}
+                            </span>
+                        ) : app.status === "Approved" ? (
+                            "Not provisioned"
+                        ) : (
+                            "Set up when the application is approved"
+                        )
+                    }
+                />
             </section>
 
+            <RelatedApplicationsSection related={related} fmt={fmt} />
             <ExperienceSection app={app} />
             <RoleSpecificSection app={app} />
 
@@ -50,12 +90,52 @@ export default async function ApplicationDetailPage({
                 <PreWrap text={app.notes || "No notes yet."} />
             </section>
 
+            <ApplicationReviewPanel
+                applicationId={app.id}
+                decided={app.status === "Approved" || app.status === "Rejected"}
+            />
+
             {/* Sticky approve bar */}
             <ActionBar id={app.id} currentStatus={app.status} />
         </div>
     );
 }
 
+// Other applications that look like the same person, with their decisions
+function RelatedApplicationsSection({ related, fmt }: { related: RelatedApplication[]; fmt: Intl.DateTimeFormat }) {
+    if (related.length === 0) return null;
+    const rejected = related.filter((r) => r.status === "Rejected").length;
+    return (
+        <section className="mt-6 rounded-2xl border-2 border-amber-200 dark:border-amber-800 bg-amber-50/70 dark:bg-amber-950/30 p-4 sm:p-6 space-y-3">
+            <h2 className="text-lg font-semibold mb-2">
+                Related Applications{" "}
+                <span className="text-xs font-normal text-slate-500 dark:text-slate-400">
+                    {related.length} found{rejected > 0 && `, ${rejected} rejected`}
+                </span>
+            </h2>
+            <ul className="space-y-3">
+                {related.map((r) => (
+                    <li key={r.id} className="grid grid-cols-3 gap-3 text-sm">
+                        <div>
+                            <Link className="underline font-medium" href={`/admin/applications/${r.id}`}>{r.name}</Link>
+                            <div className="text-xs text-slate-500 dark:text-slate-400 break-all">{r.email}</div>
+                        </div>
+                        <div className="col-span-2">
+                            <div>
+                                {r.role} — <strong>{r.status}</strong>
+                                {r.decidedAt ? ` ${fmt.format(r.decidedAt)}` : `, applied ${fmt.format(r.createdAt)}`}
+                            </div>
+                            <div className="text-xs text-slate-500 dark:text-slate-400">
+                                Same {r.signals.map((signal) => MATCH_SIGNAL_LABELS[signal].toLowerCase()).join(", ")}
+                            </div>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </section>
+    );
+}
+
 function ExperienceSection({ app }: { app: Application }) {
     return (
         <section className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-800 bg-white/70 dark:bg-slate-900/70 p-4 sm:p-6 space-y-3">
@@ -70,7 +150,35 @@ function ExperienceSection({ app }: { app: Application }) {
     );
 }
 
-function RoleSpecificSection({ app }: { app: Application }) {
+function RoleSpecificSection({ app }: { app: ApplicationWithForm }) {
+    // Answered a configurable form: show that version's questions
+    if (app.form) {
+        const definition = app.form.definition as FormDefinition;
+        const answers = (app.answers ?? {}) as FormAnswers;
+        return (
+            <section className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-800 bg-white/70 dark:bg-slate-900/70 p-4 sm:p-6 space-y-3">
+                <h2 className="text-lg font-semibold mb-2">
+                    Role-Specific{" "}
+                    <span className="text-xs font-normal text-slate-500 dark:text-slate-400">form v{app.form.version}</span>
+                </h2>
+                {definition.sections.map((section) => {
+                    const questions = section.questions.filter((q) => isQuestionVisible(q, answers));
+                    if (questions.length === 0) return null;
+                    return (
+                        <div key={section.id} className="space-y-3">
+                            {definition.sections.length > 1 && (
+                                <h3 className="pt-2 text-sm font-semibold text-slate-700 dark:text-slate-200">{section.title}</h3>
+                            )}
+                            {questions.map((question) => (
+                                <Row key={question.id} label={question.label} value={answerValue(question, answers[question.id])} />
+                            ))}
+                        </div>
+                    );
+                })}
+            </section>
+        );
+    }
+
     return (
         <section className="mt-6 rounded-2xl border border-slate-200 dark:border-slate-800 bg-white/70 dark:bg-slate-900/70 p-4 sm:p-6 space-y-3">
             <h2 className="text-lg font-semibold mb-2">Role-Specific</h2>
@@ -102,6 +210,12 @@ function RoleSpecificSection({ app }: { app: Application }) {
     );
 }
 
+function answerValue(question: FormQuestion, value: unknown) {
+    if (question.type === "url") return linkOrDash(typeof value === "string" ? value : null);
+    if (question.type === "long_text") return <PreWrap text={formatAnswer(question, value)} />;
+    return formatAnswer(question, value);
+}
+
 function Row({ label, value }: { label: string; value: React.ReactNode }) {
     return (
         <div className="grid grid-cols-3 gap-3">
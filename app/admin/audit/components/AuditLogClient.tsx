@@ -0,0 +1,298 @@
+'use client';
+
+import { Fragment, useState, useEffect, useCallback, type FormEvent } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, Button, Badge, Input, Label, EmptyState, Skeleton } from '@/components/common';
+import { ScrollText, Download, Search, ChevronDown, ChevronRight } from 'lucide-react';
+import { clientLog } from '@/lib/client-logger';
+
+interface AuditLogEntry {
+  id: string;
+  action: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  actorRole: string | null;
+  targetId: string | null;
+  targetType: string | null;
+  targetName: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  details: Record<string, unknown> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  sessionId: string | null;
+  success: boolean;
+  error: string | null;
+  createdAt: string;
+}
+
+interface AuditFilters {
+  actor: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  search: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = {
+  actor: '',
+  action: '',
+  targetType: '',
+  targetId: '',
+  search: '',
+  from: '',
+  to: '',
+};
+
+function buildQuery(filters: AuditFilters, extra: Record<string, string> = {}): string {
+  const params = new URLSearchParams(extra);
+  for (const [key, value] of Object.entries(filters)) {
+    if (!value) continue;
+    // datetime-local values have no timezone; send them as ISO so the API compares correctly
+    params.set(key, key === 'from' || key === 'to' ? new Date(value).toISOString() : value.trim());
+  }
+  return params.toString();
+}
+
+function useAuditLogs(filters: AuditFilters) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const load = useCallback(async (cursor?: string) => {
+    const setBusy = cursor ? setLoadingMore : setLoading;
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/admin/audit?${buildQuery(filters, cursor ? { cursor } : {})}`);
+      if (!response.ok) {
+        clientLog.warn('Audit Log: Failed to load entries', { status: response.status });
+        return;
+      }
+      const data = await response.json();
+      setEntries(prev => (cursor ? [...prev, ...data.entries] : data.entries));
+      setNextCursor(data.nextCursor);
+    } catch (error) {
+      clientLog.error('Audit Log: Failed to load entries', { error });
+    } finally {
+      setBusy(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const loadMore = useCallback(() => {
+    if (nextCursor) load(nextCursor);
+  }, [load, nextCursor]);
+
+  return { entries, loading, loadingMore, hasMore: nextCursor !== null, loadMore };
+}
+
+function ChangeSummary({ entry }: { entry: AuditLogEntry }) {
+  const keys = Array.from(new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})]));
+
+  return (
+    <div className="space-y-3 text-xs">
+      {keys.length > 0 && (
+        <table className="w-full">
+          <thead>
+            <tr className="text-left text-slate-500 dark:text-slate-400">
+              <th className="py-1 pr-4 font-medium">Field</th>
+              <th className="py-1 pr-4 font-medium">Before</th>
+              <th className="py-1 font-medium">After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {keys.map(key => (
+              <tr key={key} className="align-top">
+                <td className="py-1 pr-4 font-mono text-slate-700 dark:text-slate-300">{key}</td>
+                <td className="py-1 pr-4 font-mono text-red-700 dark:text-red-300 break-all">
+                  {JSON.stringify(entry.before?.[key] ?? null)}
+                </td>
+                <td className="py-1 font-mono text-emerald-700 dark:text-emerald-300 break-all">
+                  {JSON.stringify(entry.after?.[key] ?? null)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {entry.details && (
+        <pre className="whitespace-pre-wrap break-all rounded bg-slate-100 dark:bg-slate-800 p-2 font-mono">
+          {JSON.stringify(entry.details, null, 2)}
+        </pre>
+      )}
+      {entry.error && <p className="text-red-600 dark:text-red-400">Error: {entry.error}</p>}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-slate-500 dark:text-slate-400">
+        <span>IP: {entry.ipAddress ?? '—'}</span>
+        <span>Session: <span className="font-mono">{entry.sessionId ?? '—'}</span></span>
+        <span className="truncate" title={entry.userAgent ?? undefined}>UA: {entry.userAgent ?? '—'}</span>
+      </div>
+    </div>
+  );
+}
+
+export function AuditLogClient() {
+  const [draft, setDraft] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const { entries, loading, loadingMore, hasMore, loadMore } = useAuditLogs(filters);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    setFilters(draft);
+  };
+
+  const handleReset = () => {
+    setDraft(EMPTY_FILTERS);
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const updateDraft = (key: keyof AuditFilters) => (event: { target: { value: string } }) =>
+    setDraft(prev => ({ ...prev, [key]: event.target.value }));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="pt-6">
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="audit-search">Search</Label>
+              <Input id="audit-search" placeholder="Email, target, IP…" value={draft.search} onChange={updateDraft('search')} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-actor">Actor ID</Label>
+              <Input id="audit-actor" value={draft.actor} onChange={updateDraft('actor')} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-action">Action</Label>
+              <Input id="audit-action" placeholder="e.g. role. or event.updated" value={draft.action} onChange={updateDraft('action')} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-target-type">Target type</Label>
+              <Input id="audit-target-type" placeholder="user, role, event…" value={draft.targetType} onChange={updateDraft('targetType')} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-target-id">Target ID</Label>
+              <Input id="audit-target-id" value={draft.targetId} onChange={updateDraft('targetId')} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-from">From</Label>
+              <Input id="audit-from" type="datetime-local" value={draft.from} onChange={updateDraft('from')} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-to">To</Label>
+              <Input id="audit-to" type="datetime-local" value={draft.to} onChange={updateDraft('to')} />
+            </div>
+            <div className="flex items-end gap-2">
+              <Button type="submit" variant="primary" size="sm">
+                <Search className="h-4 w-4 mr-1" />
+                Apply
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={handleReset}>
+                Reset
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <ScrollText className="h-5 w-5" />
+            Entries
+          </CardTitle>
+          <a href={`/api/admin/audit?${buildQuery(filters, { format: 'csv' })}`} download>
+            <Button type="button" variant="outline" size="sm">
+              <Download className="h-4 w-4 mr-1" />
+              Export CSV
+            </Button>
+          </a>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 6 }).map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : entries.length === 0 ? (
+            <EmptyState
+              icon={<ScrollText className="h-8 w-8" />}
+              title="No audit entries"
+              description="No recorded actions match the current filters."
+            />
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 dark:border-slate-700 text-left text-slate-500 dark:text-slate-400">
+                    <th className="py-2 pr-2 w-6" />
+                    <th className="py-2 pr-4 font-medium">Time</th>
+                    <th className="py-2 pr-4 font-medium">Action</th>
+                    <th className="py-2 pr-4 font-medium">Actor</th>
+                    <th className="py-2 pr-4 font-medium">Target</th>
+                    <th className="py-2 font-medium">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map(entry => {
+                    const isExpanded = expanded === entry.id;
+                    return (
+                      <Fragment key={entry.id}>
+                        <tr
+                          className="border-b border-slate-100 dark:border-slate-800 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800/50"
+                          onClick={() => setExpanded(isExpanded ? null : entry.id)}
+                        >
+                          <td className="py-2 pr-2 text-slate-400">
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </td>
+                          <td className="py-2 pr-4 whitespace-nowrap text-slate-600 dark:text-slate-400">
+                            {new Date(entry.createdAt).toLocaleString()}
+                          </td>
+                          <td className="py-2 pr-4 font-mono text-xs">{entry.action}</td>
+                          <td className="py-2 pr-4">
+                            <div className="text-slate-900 dark:text-white">{entry.actorEmail ?? entry.actorId ?? 'system'}</div>
+                            {entry.actorRole && <div className="text-xs text-slate-500">{entry.actorRole}</div>}
+                          </td>
+                          <td className="py-2 pr-4">
+                            {entry.targetType && <Badge size="sm" className="mr-2">{entry.targetType}</Badge>}
+                            <span className="text-slate-700 dark:text-slate-300">{entry.targetName ?? entry.targetId ?? '—'}</span>
+                          </td>
+                          <td className="py-2">
+                            <Badge variant={entry.success ? 'success' : 'danger'} size="sm">
+                              {entry.success ? 'Success' : 'Failed'}
+                            </Badge>
+                          </td>
+                        </tr>
+                        {isExpanded && (
+                          <tr className="bg-slate-50 dark:bg-slate-900/40">
+                            <td />
+                            <td colSpan={5} className="py-3 pr-4">
+                              <ChangeSummary entry={entry} />
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {hasMore && (
+                <div className="flex justify-center pt-4">
+                  <Button variant="outline" size="sm" onClick={loadMore} isLoading={loadingMore}>
+                    Load more
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
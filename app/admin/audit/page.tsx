@@ -0,0 +1,34 @@
+import { redirect } from "next/navigation";
+import { requirePermission } from "@/lib/session";
+import { AuditLogClient } from "./components/AuditLogClient";
+
+export const dynamic = "force-dynamic";
+
+export default async function AuditLogPage() {
+  const session = await requirePermission("system:logs");
+  if (!session) redirect("/login");
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <div className="flex items-center gap-3 mb-2">
+          <div className="w-12 h-12 rounded-lg bg-gradient-to-br from-slate-600 to-slate-800 flex items-center justify-center">
+            <span className="text-2xl">📜</span>
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight text-slate-900 dark:text-white">
+              Audit Log
+            </h1>
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              Who changed what, when, and from where
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Client Component */}
+      <AuditLogClient />
+    </div>
+  );
+}
@@ -1,31 +1,65 @@
 import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from "recharts";
-import { Badge } from "@/components/common";
+import { Badge, Skeleton, Tabs, TabsList, TabsTrigger } from "@/components/common";
+import type { StatusHistoryPoint, StatusHistoryRange } from "@/lib/server-status-history";
+
+const RANGES: StatusHistoryRange[] = ["24h", "7d", "30d"];
 
 interface PlayerActivityChartProps {
-    playerHistory: { timestamp: number; count: number }[];
+    playerHistory: StatusHistoryPoint[];
     online: boolean;
+    range: StatusHistoryRange;
+    /* eslint-disable-next-line no-unused-vars */
+    onRangeChange: (range: StatusHistoryRange) => void;
+    peakPlayers: number | null;
+    loading?: boolean;
+}
+
+function formatPointTime(timestamp: number, range: StatusHistoryRange): string {
+    const date = new Date(timestamp);
+    return range === "24h"
+        ? date.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })
+        : date.toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric" });
 }
 
-export function PlayerActivityChart({ playerHistory, online }: PlayerActivityChartProps) {
+export function PlayerActivityChart({
+    playerHistory,
+    online,
+    range,
+    onRangeChange,
+    peakPlayers,
+    loading = false,
+}: PlayerActivityChartProps) {
     return (
         <div className="lg:w-1/2">
-            <div className="flex items-center justify-between mb-3">
-                <p className="text-sm font-semibold text-slate-700 dark:text-slate-300">
-                    Player Activity
-                </p>
-                <Badge variant="info" className="text-xs">
-                    Last {playerHistory.length} checks
-                </Badge>
+            <div className="flex items-center justify-between gap-2 mb-3">
+                <div className="flex items-center gap-2">
+                    <p className="text-sm font-semibold text-slate-700 dark:text-slate-300">
+                        Player Activity
+                    </p>
+                    {peakPlayers !== null && (
+                        <Badge variant="info" className="text-xs">
+                            Peak {peakPlayers}
+                        </Badge>
+                    )}
+                </div>
+                <Tabs value={range} onValueChange={(value) => onRangeChange(value as StatusHistoryRange)}>
+                    <TabsList className="h-8">
+                        {RANGES.map((value) => (
+                            <TabsTrigger key={value} value={value} className="px-2 py-1 text-xs">
+                                {value}
+                            </TabsTrigger>
+                        ))}
+                    </TabsList>
+                </Tabs>
             </div>
-            
-            {playerHistory.length > 0 ? (
+
+            {loading ? (
+                <Skeleton className="h-32 w-full rounded-lg" />
+            ) : playerHistory.length > 0 ? (
                 <div className="h-32">
                     <ResponsiveContainer width="100%" height="100%">
-                        <AreaChart 
-                            data={playerHistory.map((point, idx) => ({
-                                index: idx,
-                                count: point.count,
-                            }))}
+                        <AreaChart
+                            data={playerHistory}
                             margin={{ top: 5, right: 5, left: 0, bottom: 5 }}
                         >
                             <defs>
@@ -34,32 +68,41 @@ export function PlayerActivityChart({ playerHistory, online }: PlayerActivityCha
                                     <stop offset="100%" stopColor={online ? "#10b981" : "#ef4444"} stopOpacity={0.1} />
                                 </linearGradient>
                             </defs>
-                            <CartesianGrid 
-                                strokeDasharray="3 3" 
-                                className="stroke-slate-200 dark:stroke-slate-700" 
+                            <CartesianGrid
+                                strokeDasharray="3 3"
+                                className="stroke-slate-200 dark:stroke-slate-700"
                                 vertical={false}
                             />
-                            <XAxis dataKey="index" hide />
-                            <YAxis 
-                                allowDecimals={false} 
+                            <XAxis dataKey="timestamp" hide />
+                            <YAxis
+                                allowDecimals={false}
                                 tick={{ fontSize: 11 }}
                                 width={30}
                             />
                             <Tooltip
-                                contentStyle={{ 
-                                    background: "var(--bg-light)", 
-                                    border: "1px solid rgba(148,163,184,.35)", 
+                                contentStyle={{
+                                    background: "var(--bg-light)",
+                                    border: "1px solid rgba(148,163,184,.35)",
                                     borderRadius: "8px",
                                     fontSize: "12px"
                                 }}
-                                labelFormatter={() => "Players"}
+                                labelFormatter={(timestamp) => formatPointTime(Number(timestamp), range)}
+                                formatter={(value, name) => [value, name === "peak" ? "Peak players" : "Avg players"]}
                             />
-                            <Area 
-                                type="monotone" 
-                                dataKey="count" 
+                            <Area
+                                type="monotone"
+                                dataKey="peak"
+                                stroke={online ? "#6ee7b7" : "#fca5a5"}
+                                strokeWidth={1}
+                                strokeDasharray="4 2"
+                                fill="none"
+                            />
+                            <Area
+                                type="monotone"
+                                dataKey="count"
                                 stroke={online ? "#10b981" : "#ef4444"}
-                                strokeWidth={2} 
-                                fill="url(#playerGradient)" 
+                                strokeWidth={2}
+                                fill="url(#playerGradient)"
                             />
                         </AreaChart>
                     </ResponsiveContainer>
@@ -74,4 +117,3 @@ export function PlayerActivityChart({ playerHistory, online }: PlayerActivityCha
         </div>
     );
 }
-
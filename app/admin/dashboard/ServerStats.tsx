@@ -1,52 +1,116 @@
 import { Users, Activity, Wifi } from "lucide-react";
+import { Badge } from "@/components/common";
+import type { NetworkServerStatus } from "@/lib/server-network";
 
 interface ServerStatsProps {
     online: boolean;
     players: { online: number; max: number };
     latency: number | undefined;
     uptimePercentage: number | null;
+    uptimeLabel?: string;
+    /** Per-server breakdown, shown when the network has more than one server */
+    servers?: NetworkServerStatus[];
 }
 
-export function ServerStats({ online, players, latency, uptimePercentage }: ServerStatsProps) {
+function ServerBreakdown({ servers }: { servers: NetworkServerStatus[] }) {
+    const onlineCount = servers.filter((server) => server.online).length;
+
     return (
-        <div className="grid grid-cols-3 gap-4">
-            <div className="space-y-1">
-                <div className="flex items-center gap-1.5">
-                    <Users className="h-4 w-4 text-blue-600 dark:text-blue-400" />
-                    <p className="text-xs font-medium text-slate-600 dark:text-slate-400">
-                        Players
+        <div className="space-y-2">
+            <p className="text-xs font-medium text-slate-600 dark:text-slate-400">
+                Servers ({onlineCount}/{servers.length} online)
+            </p>
+            <ul className="divide-y divide-slate-200 dark:divide-slate-800 rounded-lg border border-slate-200 dark:border-slate-800">
+                {servers.map((server) => (
+                    <li key={server.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                        <div className="flex items-center gap-2 min-w-0">
+                            <span
+                                className={`h-2 w-2 shrink-0 rounded-full ${server.online ? "bg-green-500" : "bg-red-500"}`}
+                                aria-hidden="true"
+                            />
+                            <span className="font-medium text-slate-800 dark:text-slate-200 truncate" title={server.address}>
+                                {server.name}
+                            </span>
+                            {server.role === "proxy" && (
+                                <Badge variant="info" size="sm">Proxy</Badge>
+                            )}
+                            {!server.public && (
+                                <Badge variant="default" size="sm">Private</Badge>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-3 shrink-0 text-xs text-slate-600 dark:text-slate-400">
+                            {server.online ? (
+                                <>
+                                    <span>{server.playersOnline}/{server.playersMax}</span>
+                                    <span>{server.latency !== null ? `${server.latency}ms` : "—"}</span>
+                                </>
+                            ) : (
+                                <span className="text-red-600 dark:text-red-400" title={server.error ?? undefined}>
+                                    Offline
+                                </span>
+                            )}
+                            <span title="Uptime (24h)">
+                                {server.uptime24h !== null ? `${server.uptime24h}%` : "—"}
+                            </span>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
+
+export function ServerStats({
+    online,
+    players,
+    latency,
+    uptimePercentage,
+    uptimeLabel = "Uptime",
+    servers = [],
+}: ServerStatsProps) {
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-1">
+                    <div className="flex items-center gap-1.5">
+                        <Users className="h-4 w-4 text-blue-600 dark:text-blue-400" />
+                        <p className="text-xs font-medium text-slate-600 dark:text-slate-400">
+                            Players
+                        </p>
+                    </div>
+                    <p className="text-2xl font-bold text-slate-900 dark:text-slate-100">
+                        {players.online}/{players.max}
                     </p>
                 </div>
-                <p className="text-2xl font-bold text-slate-900 dark:text-slate-100">
-                    {players.online}/{players.max}
-                </p>
-            </div>
 
-            <div className="space-y-1">
-                <div className="flex items-center gap-1.5">
-                    <Activity className="h-4 w-4 text-violet-600 dark:text-violet-400" />
-                    <p className="text-xs font-medium text-slate-600 dark:text-slate-400">
-                        Latency
+                <div className="space-y-1">
+                    <div className="flex items-center gap-1.5">
+                        <Activity className="h-4 w-4 text-violet-600 dark:text-violet-400" />
+                        <p className="text-xs font-medium text-slate-600 dark:text-slate-400">
+                            Latency
+                        </p>
+                    </div>
+                    <p className="text-2xl font-bold text-slate-900 dark:text-slate-100">
+                        {online ? (latency ? `${latency}ms` : "—") : "N/A"}
                     </p>
                 </div>
-                <p className="text-2xl font-bold text-slate-900 dark:text-slate-100">
-                    {online ? (latency ? `${latency}ms` : "—") : "N/A"}
-                </p>
-            </div>
 
-            <div className="space-y-1">
-                <div className="flex items-center gap-1.5">
-                    <Wifi className="h-4 w-4 text-green-600 dark:text-green-400" />
-                    <p className="text-xs font-medium text-slate-600 dark:text-slate-400">
-                        Uptime
+                <div className="space-y-1">
+                    <div className="flex items-center gap-1.5">
+                        <Wifi className="h-4 w-4 text-green-600 dark:text-green-400" />
+                        <p className="text-xs font-medium text-slate-600 dark:text-slate-400">
+                            {uptimeLabel}
+                        </p>
+                    </div>
+                    <p className="text-2xl font-bold text-slate-900 dark:text-slate-100">
+                        {uptimePercentage !== null && uptimePercentage !== undefined
+                            ? `${uptimePercentage}%`
+                            : "—"}
                     </p>
                 </div>
-                <p className="text-2xl font-bold text-slate-900 dark:text-slate-100">
-                    {uptimePercentage !== null && uptimePercentage !== undefined
-                        ? `${uptimePercentage}%`
-                        : "—"}
-                </p>
             </div>
+
+            {servers.length > 1 && <ServerBreakdown servers={servers} />}
         </div>
     );
 }
@@ -1,10 +1,23 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
 import { Server } from "lucide-react";
 import { Card, CardContent, Badge } from "@/components/common";
+import { useServerStatusHistory } from "@/hooks/useServerStatusHistory";
+import type { StatusHistoryRange } from "@/lib/server-status-history";
 import type { Kpi } from "./useDashboard";
 import { ServerStats } from "./ServerStats";
 import { PlayerActivityChart } from "./PlayerActivityChart";
 
 export function ServerStatusCard({ server }: { server: Kpi["server"] }) {
+    const [range, setRange] = useState<StatusHistoryRange>("24h");
+    const { history, loading } = useServerStatusHistory(range);
+
+    // The KPI payload already carries the last 24h, so it fills in until the history loads
+    const points = history?.points ?? (range === "24h" ? server?.playerHistory ?? [] : []);
+    const uptimePercentage = history ? history.uptimePercentage : range === "24h" ? server?.uptimePercentage ?? null : null;
+
     return (
         <Card 
             accent={server?.online ? "success" : "danger"}
@@ -26,11 +39,22 @@ export function ServerStatusCard({ server }: { server: Kpi["server"] }) {
                                     ? "bg-green-100 dark:bg-green-950/30" 
                                     : "bg-red-100 dark:bg-red-950/30"
                             }`}>
-                                <Server className={`h-6 w-6 ${
-                                    server?.online 
-                                        ? "text-green-600 dark:text-green-400" 
-                                        : "text-red-600 dark:text-red-400"
-                                }`} />
+                                {server?.favicon ? (
+                                    <Image
+                                        src={server.favicon}
+                                        alt=""
+                                        width={24}
+                                        height={24}
+                                        unoptimized
+                                        className="h-6 w-6 [image-rendering:pixelated]"
+                                    />
+                                ) : (
+                                    <Server className={`h-6 w-6 ${
+                                        server?.online 
+                                            ? "text-green-600 dark:text-green-400" 
+                                            : "text-red-600 dark:text-red-400"
+                                    }`} />
+                                )}
                             </div>
                             <div className="flex-1">
                                 <h3 className="text-lg font-bold text-slate-900 dark:text-slate-100">
@@ -49,6 +73,11 @@ export function ServerStatusCard({ server }: { server: Kpi["server"] }) {
                                         </span>
                                     )}
                                 </div>
+                                {server?.motd && (
+                                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1 line-clamp-1">
+                                        {server.motd}
+                                    </p>
+                                )}
                             </div>
                         </div>
 
@@ -57,14 +86,30 @@ export function ServerStatusCard({ server }: { server: Kpi["server"] }) {
                             online={server?.online ?? false}
                             players={server?.players ?? { online: 0, max: 0 }}
                             latency={server?.latency}
-                            uptimePercentage={server?.uptimePercentage ?? null}
+                            uptimePercentage={uptimePercentage}
+                            uptimeLabel={`Uptime (${range})`}
+                            servers={server?.servers ?? []}
                         />
+
+                        {server?.playerSample && server.playerSample.length > 0 && (
+                            <div className="flex flex-wrap gap-1.5">
+                                {server.playerSample.map((player) => (
+                                    <Badge key={player.id || player.name} variant="default" className="text-xs">
+                                        {player.name}
+                                    </Badge>
+                                ))}
+                            </div>
+                        )}
                     </div>
 
                     {/* Right: Player Count Graph */}
                     <PlayerActivityChart
-                        playerHistory={server?.playerHistory ?? []}
+                        playerHistory={points}
                         online={server?.online ?? false}
+                        range={range}
+                        onRangeChange={setRange}
+                        peakPlayers={history?.peakPlayers ?? null}
+                        loading={loading && points.length === 0}
                     />
                 </div>
             </CardContent>
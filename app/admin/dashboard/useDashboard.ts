@@ -1,5 +1,9 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { clientLog as log } from "@/lib/client-logger";
+import { useWebSocket } from "@/hooks/useWebSocket";
+import { CHANNELS, type WebSocketMessage } from "@/lib/websocket-events";
+import type { StatusHistoryPoint } from "@/lib/server-status-history";
+import type { NetworkServerStatus } from "@/lib/server-network";
 
 export type Kpi = { 
     totalPlayers: number; 
@@ -20,8 +24,12 @@ export type Kpi = {
             max: number;
         };
         latency?: number;
+        motd?: string;
+        favicon?: string; // PNG data URI
+        playerSample?: { name: string; id: string }[];
         uptimePercentage: number | null;
-        playerHistory: { timestamp: number; count: number }[];
+        playerHistory: StatusHistoryPoint[]; // Last 24h, see lib/server-status-history.ts
+        servers: NetworkServerStatus[]; // Every registry server, see lib/server-network.ts
         error?: string;
     };
 };
@@ -43,40 +51,50 @@ export function useDashboard() {
     const [loading, setLoading] = useState(true);
     const [err, setErr] = useState<string | null>(null);
 
-    useEffect(() => {
-        const loadDashboard = async () => {
-            try {
-                setLoading(true);
-                setErr(null);
-                
-                const [kRes, eRes, aRes, actRes] = await Promise.all([
-                    fetch("/api/admin/kpis", { credentials: "include" }),
-                    fetch("/api/admin/stats/events?range=30", { credentials: "include" }),
-                    fetch("/api/admin/stats/applications-by-status", { credentials: "include" }),
-                    fetch("/api/admin/activity", { credentials: "include" }),
-                ]);
+    const loadDashboard = useCallback(async () => {
+        try {
+            setLoading(true);
+            setErr(null);
+            
+            const [kRes, eRes, aRes, actRes] = await Promise.all([
+                fetch("/api/admin/kpis", { credentials: "include" }),
+                fetch("/api/admin/stats/events?range=30", { credentials: "include" }),
+                fetch("/api/admin/stats/applications-by-status", { credentials: "include" }),
+                fetch("/api/admin/activity", { credentials: "include" }),
+            ]);
 
-                const k = kRes.ok ? await kRes.json() : null;
-                const e = eRes.ok ? await eRes.json() : [];
-                const a = aRes.ok ? await aRes.json() : [];
-                const act = actRes.ok ? await actRes.json() : [];
-                
-                setKpis(k);
-                setEvents30d(Array.isArray(e) ? e : []);
-                setAppsByStatus(Array.isArray(a) ? a : []);
-                setActivity(Array.isArray(act) ? act : []);
-            } catch (error) {
-                log.error("Dashboard: Failed to load stats", { error });
-                setErr("Failed to load stats.");
-            } finally {
-                setLoading(false);
-            }
-        };
+            const k = kRes.ok ? await kRes.json() : null;
+            const e = eRes.ok ? await eRes.json() : [];
+            const a = aRes.ok ? await aRes.json() : [];
+            const act = actRes.ok ? await actRes.json() : [];
+            
+            setKpis(k);
+            setEvents30d(Array.isArray(e) ? e : []);
+            setAppsByStatus(Array.isArray(a) ? a : []);
+            setActivity(Array.isArray(act) ? act : []);
+        } catch (error) {
+            log.error("Dashboard: Failed to load stats", { error });
+            setErr("Failed to load stats.");
+        } finally {
+            setLoading(false);
+        }
+    }, []);
 
+    // Event changes are pushed to admin:events; reload instead of waiting for the next poll
+    const { isConnected } = useWebSocket({
+        enabled: Boolean(process.env['NEXT_PUBLIC_WEBSOCKET_URL']),
+        channels: [CHANNELS.ADMIN_EVENTS],
+        onMessage: (message: WebSocketMessage) => {
+            if (message.type === "data:event:update") loadDashboard();
+        },
+    });
+
+    useEffect(() => {
         loadDashboard();
-        const interval = setInterval(loadDashboard, 30000);
+        // Server status and player counts are not pushed, so keep a slower poll while live
+        const interval = setInterval(loadDashboard, isConnected ? 120000 : 30000);
         return () => clearInterval(interval);
-    }, []);
+    }, [loadDashboard, isConnected]);
 
     return {
         kpis,
@@ -1,30 +1,63 @@
+import { useState } from "react";
 import EventsCalendarView from "@/components/admin/events/EventsCalendarView";
+import OccurrenceOverrideDrawer from "@/components/admin/events/OccurrenceOverrideDrawer";
 import type { AdminEventRow } from "@/components/admin/EventsTable";
+import type { Occurrence } from "@/lib/recurrence";
 
 interface EventsCalendarTabProps {
     rows: AdminEventRow[];
     onEventClick: (id: string) => void; // eslint-disable-line no-unused-vars
+    onOverridesChanged: () => void;
 }
 
-export function EventsCalendarTab({ rows, onEventClick }: EventsCalendarTabProps) {
+export function EventsCalendarTab({ rows, onEventClick, onOverridesChanged }: EventsCalendarTabProps) {
+    const [selected, setSelected] = useState<Occurrence | null>(null);
+    const selectedEvent = selected ? rows.find((r) => r.id === selected.eventId) ?? null : null;
+
+    // Occurrences of a series open the override drawer; one-time events open the event editor
+    function handleOccurrenceClick(occurrence: Occurrence) {
+        const row = rows.find((r) => r.id === occurrence.eventId);
+        if (!row || !row.recurrenceFreq || row.recurrenceFreq === "NONE") {
+            onEventClick(occurrence.eventId);
+            return;
+        }
+        setSelected(occurrence);
+    }
+
     return (
-        <EventsCalendarView
-            events={rows.map(r => ({
-                id: r.id,
-                title: r.title,
-                startAt: r.startAt,
-                endAt: r.endAt,
-                category: r.category,
-                status: r.status as "Draft" | "Published" | "Cancelled" | "Scheduled",
-                visibility: r.visibility || "PUBLIC",
-                recurrenceFreq: r.recurrenceFreq || "NONE",
-                byWeekdayJson: r.byWeekday || [],
-                timesJson: r.times || [],
-                timezone: r.timezone || null,
-                recurrenceUntil: r.recurrenceUntil || null,
-            }))}
-            onEventClick={onEventClick}
-        />
+        <>
+            <EventsCalendarView
+                events={rows.map(r => ({
+                    id: r.id,
+                    title: r.title,
+                    startAt: r.startAt,
+                    endAt: r.endAt,
+                    category: r.category,
+                    status: r.status as "Draft" | "Published" | "Cancelled" | "Scheduled",
+                    visibility: r.visibility || "PUBLIC",
+                    recurrenceFreq: r.recurrenceFreq || "NONE",
+                    byWeekdayJson: r.byWeekday || [],
+                    timesJson: r.times || [],
+                    timezone: r.timezone || null,
+                    recurrenceUntil: r.recurrenceUntil || null,
+                    recurrenceInterval: r.recurrenceInterval ?? 1,
+                    recurrenceCount: r.recurrenceCount ?? null,
+                    byWeekdayPos: r.byWeekdayPos ?? null,
+                    byMonthDayJson: r.byMonthDay || [],
+                    exDatesJson: r.exDates || [],
+                    overrides: r.overrides || [],
+                }))}
+                onEventClick={onEventClick}
+                onOccurrenceClick={handleOccurrenceClick}
+            />
+
+            <OccurrenceOverrideDrawer
+                open={!!selected}
+                event={selectedEvent}
+                occurrence={selected}
+                onOpenChange={(open) => !open && setSelected(null)}
+                onSaved={onOverridesChanged}
+            />
+        </>
     );
 }
-
@@ -1,15 +1,16 @@
 import { Button } from "@/components/common";
 import { PageHeader } from "@/components/admin/PageHeader";
-import { Calendar, Plus, RefreshCw } from "lucide-react";
+import { Calendar, Plus, RefreshCw, Upload } from "lucide-react";
 
 interface EventsHeaderProps {
     eventCount: number;
     loading: boolean;
     onRefresh: () => void;
     onCreateClick: () => void;
+    onImportClick: () => void;
 }
 
-export function EventsHeader({ eventCount, loading, onRefresh, onCreateClick }: EventsHeaderProps) {
+export function EventsHeader({ eventCount, loading, onRefresh, onCreateClick, onImportClick }: EventsHeaderProps) {
     return (
         <PageHeader
             title="Events Management"
@@ -33,6 +34,15 @@ export function EventsHeader({ eventCount, loading, onRefresh, onCreateClick }:
                     >
                         Refresh
                     </Button>
+                    <Button
+                        variant="outline"
+                        size="md"
+                        onClick={onImportClick}
+                        leftIcon={<Upload />}
+                        ariaLabel="Import events from a calendar"
+                    >
+                        Import
+                    </Button>
                     <Button 
                         variant="primary" 
                         size="md"
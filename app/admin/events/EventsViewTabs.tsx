@@ -11,9 +11,10 @@ interface EventsViewTabsProps {
     loading: boolean;
     onEdit: ComponentProps<typeof EventsTableView>["onEdit"];
     onStatusChange: ComponentProps<typeof EventsTableView>["onStatusChange"];
+    onReload: () => void;
 }
 
-export function EventsViewTabs({ rows, loading, onEdit, onStatusChange }: EventsViewTabsProps) {
+export function EventsViewTabs({ rows, loading, onEdit, onStatusChange, onReload }: EventsViewTabsProps) {
     return (
         <Tabs defaultValue="table" className="w-full">
             <TabsList className="mb-4">
@@ -41,6 +42,7 @@ export function EventsViewTabs({ rows, loading, onEdit, onStatusChange }: Events
                 <EventsCalendarTab
                     rows={rows}
                     onEventClick={onEdit}
+                    onOverridesChanged={onReload}
                 />
             </TabsContent>
         </Tabs>
@@ -2,6 +2,7 @@
 
 import EditEventDrawer from "@/components/admin/events/EditEventDrawer";
 import CreateEventDrawer from "@/components/admin/events/CreateEventDrawer";
+import ImportEventsDrawer from "@/components/admin/events/ImportEventsDrawer";
 import { useEvents } from "./useEvents";
 import { EventsHeader } from "./EventsHeader";
 import { EventsViewTabs } from "./EventsViewTabs";
@@ -17,9 +18,12 @@ export default function AdminEventsPage() {
         editing,
         createOpen,
         setCreateOpen,
+        importOpen,
+        setImportOpen,
         openEditById,
         handleStatusChange,
         handleCreateSuccess,
+        handleImportSuccess,
         handleEditSuccess,
     } = useEvents();
 
@@ -30,6 +34,7 @@ export default function AdminEventsPage() {
                 loading={loading}
                 onRefresh={load}
                 onCreateClick={() => setCreateOpen(true)}
+                onImportClick={() => setImportOpen(true)}
             />
 
             {errorMsg && (
@@ -43,6 +48,7 @@ export default function AdminEventsPage() {
                 loading={loading}
                 onEdit={openEditById}
                 onStatusChange={handleStatusChange}
+                onReload={load}
             />
 
             <CreateEventDrawer
@@ -51,6 +57,12 @@ export default function AdminEventsPage() {
                 onCreated={handleCreateSuccess}
             />
 
+            <ImportEventsDrawer
+                open={importOpen}
+                onOpenChange={setImportOpen}
+                onImported={handleImportSuccess}
+            />
+
             <EditEventDrawer
                 open={editOpen}
                 event={editing}
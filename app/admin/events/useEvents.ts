@@ -24,6 +24,16 @@ function mapRowToEditableEvent(r: AdminEventRow): EditableEvent {
         byWeekday: (r.byWeekday || []) as EditableEvent["byWeekday"],
         times: r.times || [],
         recurrenceUntil: r.recurrenceUntil ? r.recurrenceUntil.slice(0, 10) : null,
+        recurrenceInterval: r.recurrenceInterval ?? 1,
+        recurrenceCount: r.recurrenceCount ?? null,
+        byMonthDay: r.byMonthDay || [],
+        byWeekdayPos: r.byWeekdayPos ?? null,
+        exDates: r.exDates || [],
+        hostId: r.hostId ?? null,
+        status: r.status,
+        publishAt: r.publishAt ? toLocalInputValue(r.publishAt) : null,
+        archiveAt: r.archiveAt ? toLocalInputValue(r.archiveAt) : null,
+        announceOnPublish: r.announceOnPublish ?? false,
     };
 }
 
@@ -35,6 +45,7 @@ export function useEvents() {
     const [editOpen, setEditOpen] = useState(false);
     const [editing, setEditing] = useState<EditableEvent | null>(null);
     const [createOpen, setCreateOpen] = useState(false);
+    const [importOpen, setImportOpen] = useState(false);
 
     async function load() {
         setLoading(true);
@@ -63,6 +74,16 @@ export function useEvents() {
                     byWeekday: Array.isArray(it['byWeekdayJson']) ? it['byWeekdayJson'] : [],
                     times: Array.isArray(it['timesJson']) ? it['timesJson'] : [],
                     recurrenceUntil: it['recurrenceUntil'] ?? null,
+                    recurrenceInterval: it['recurrenceInterval'] ?? 1,
+                    recurrenceCount: it['recurrenceCount'] ?? null,
+                    byMonthDay: Array.isArray(it['byMonthDayJson']) ? it['byMonthDayJson'] : [],
+                    byWeekdayPos: it['byWeekdayPos'] ?? null,
+                    exDates: Array.isArray(it['exDatesJson']) ? it['exDatesJson'] : [],
+                    overrides: Array.isArray(it['overrides']) ? it['overrides'] : [],
+                    hostId: it['hostId'] ?? null,
+                    publishAt: it['publishAt'] ?? null,
+                    archiveAt: it['archiveAt'] ?? null,
+                    announceOnPublish: it['announceOnPublish'] === true,
                     updatedAt: it['updatedAt'],
                     shortDescription: it['shortDescription'] as string | null,
                     details: it['details'] as string | null,
@@ -102,6 +123,11 @@ export function useEvents() {
         load();
     }
 
+    function handleImportSuccess() {
+        setImportOpen(false);
+        load();
+    }
+
     function handleEditSuccess() {
         setEditOpen(false);
         setEditing(null);
@@ -118,9 +144,12 @@ export function useEvents() {
         editing,
         createOpen,
         setCreateOpen,
+        importOpen,
+        setImportOpen,
         openEditById,
         handleStatusChange,
         handleCreateSuccess,
+        handleImportSuccess,
         handleEditSuccess,
     };
 }
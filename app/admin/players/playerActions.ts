@@ -6,6 +6,32 @@ const REQUEST_TIMEOUT = 10000; // 10 seconds
 // Security: Rate limiting for actions (per action type)
 const ACTION_COOLDOWN = 1000; // 1 second between actions
 
+// Result of a player action, including the Minecraft server's response when available
+export interface PlayerActionResult {
+    success: boolean;
+    message: string;
+    output?: string;
+}
+
+// Security: Limit server output shown in toasts
+const MAX_OUTPUT_LENGTH = 200;
+
+function truncateOutput(output: unknown): string | undefined {
+    if (typeof output !== 'string' || !output) return undefined;
+    return output.length > MAX_OUTPUT_LENGTH ? `${output.slice(0, MAX_OUTPUT_LENGTH)}…` : output;
+}
+
+// Error carrying the server's response so it can be shown alongside the message
+class PlayerActionError extends Error {
+    readonly output: string | undefined;
+
+    constructor(message: string, output?: string) {
+        super(message);
+        this.name = 'PlayerActionError';
+        this.output = output;
+    }
+}
+
 // Security: Sanitize player names to prevent injection
 function sanitizePlayerName(name: string): string {
     return name.trim().replace(/[^a-zA-Z0-9_-]/g, '');
@@ -55,7 +81,7 @@ export async function executePlayerAction(params: {
     setActionLoading: (arg: boolean) => void;
     loadPlayers: () => Promise<void>;
     shouldRefresh: boolean;
-}): Promise<{ success: boolean; message: string }> {
+}): Promise<PlayerActionResult> {
     const { endpoint, playerName, actionName, lastActionRef, setActionLoading, loadPlayers, shouldRefresh } = params;
     
     const sanitizedName = sanitizePlayerName(playerName);
@@ -90,10 +116,11 @@ export async function executePlayerAction(params: {
             REQUEST_TIMEOUT
         );
 
+        const data = await res.json().catch(() => null);
+
         if (!res.ok) {
-            const error = await res.json().catch(() => null);
-            if (error?.error && typeof error.error === 'string') {
-                throw new Error(error.error);
+            if (data?.error && typeof data.error === 'string') {
+                throw new PlayerActionError(data.error, truncateOutput(data.output));
             }
             throw new Error(`Action failed`);
         }
@@ -102,9 +129,11 @@ export async function executePlayerAction(params: {
             await loadPlayers();
         }
         
-        return { success: true, message: sanitizedName };
+        const output = truncateOutput(data?.output);
+        return { success: true, message: sanitizedName, ...(output && { output }) };
     } catch (error) {
-        return { success: false, message: handleApiError(error, actionName) };
+        const output = error instanceof PlayerActionError ? error.output : undefined;
+        return { success: false, message: handleApiError(error, actionName), ...(output && { output }) };
     } finally {
         setActionLoading(false);
     }
@@ -137,8 +166,13 @@ export function createPlayerActionHandler(
             shouldRefresh,
         });
         
+        // Show the Minecraft server's response (e.g. "Kicked Steve: Griefing") under the message
+        const options = result.output ? { description: result.output } : undefined;
+
         if (result.success) {
-            toast.success(successMessageTemplate.replace('{name}', result.message));
+            toast.success(successMessageTemplate.replace('{name}', result.message), options);
+        } else if (result.output && result.output !== result.message) {
+            toast.error(result.message, options);
         } else {
             toast.error(result.message);
         }
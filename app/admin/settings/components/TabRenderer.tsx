@@ -7,6 +7,7 @@ import { ApplicationsTab } from "../tabs/ApplicationsTab";
 import { SocialSeoTab } from "../tabs/SocialSeoTab";
 import { NotificationsTab } from "../tabs/NotificationsTab";
 import { SecurityTab } from "../tabs/SecurityTab";
+import { MinecraftTab } from "../tabs/MinecraftTab";
 import type { Settings } from "../hooks/useSettings";
 
 interface TabRendererProps {
@@ -119,6 +120,17 @@ export const TabRenderer = memo(function TabRenderer({
     );
   }
 
+  if (tab === "minecraft") {
+    return (
+      <MinecraftTab
+        settings={{ minecraft: settings.minecraft }}
+        onChange={(partial) => setSettings({ ...settings, ...partial })}
+        onSave={(data) => save(data)}
+        saving={saving}
+      />
+    );
+  }
+
   return null;
 });
 
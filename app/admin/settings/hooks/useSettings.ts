@@ -1,5 +1,12 @@
 import { useState, useEffect, useCallback } from "react";
 import { toast } from "sonner";
+import type { MinecraftServerEntry } from "@/lib/minecraft-status";
+import { DEFAULT_EMAIL_TEMPLATES, resolveEmailTemplates, type EmailTemplates } from "@/lib/validation/application-email";
+import {
+  DEFAULT_PROVISIONING_SETTINGS,
+  resolveProvisioningSettings,
+  type ProvisioningSettings,
+} from "@/lib/validation/application-provisioning";
 
 export type Settings = {
   siteName: string;
@@ -11,11 +18,19 @@ export type Settings = {
   branding: { logoUrl: string; bannerUrl: string; accentHex: string };
   events: {
     defaultCategory: "Fireworks" | "Seasonal" | "MeetAndGreet" | "Parade" | "Other";
-    recurrenceFreq: "NONE" | "DAILY" | "WEEKLY";
+    recurrenceFreq: "NONE" | "DAILY" | "WEEKLY" | "MONTHLY";
     byWeekday: ("SU" | "MO" | "TU" | "WE" | "TH" | "FR" | "SA")[];
     times: string[];
   };
-  applications: { turnstileSiteKey: string; allowApplications: boolean };
+  applications: {
+    turnstileSiteKey: string;
+    allowApplications: boolean;
+    approvalQuorum: number;
+    reviewRubric: string[];
+    emailTemplates: EmailTemplates;
+    provisioning: ProvisioningSettings;
+    reapplyCooldownDays: { Developer: number; GuestServices: number; Imaginear: number };
+  };
   social: { twitter?: string; instagram?: string; discord?: string; youtube?: string; facebook?: string; tiktok?: string };
   seo: { title?: string; description?: string; image?: string; twitterCard?: string };
   features: { showEventsOnHome: boolean; showApplicationsOnHome: boolean };
@@ -30,6 +45,13 @@ export type Settings = {
   };
   maintenance: { enabled: boolean; message: string; allowedIPs: string[] };
   security: { rateLimitEnabled: boolean; maxRequestsPerMinute: number; requireEmailVerification: boolean };
+  minecraft: {
+    statusProvider: "native" | "mcstatus";
+    edition: "java" | "bedrock";
+    timeoutMs: number;
+    servers: MinecraftServerEntry[];
+    publicStatusPage: boolean;
+  };
   updatedAt?: string;
 };
 
@@ -42,7 +64,15 @@ const DEFAULT_SETTINGS: Settings = {
   applicationsIntroMarkdown: "",
   branding: { logoUrl: "", bannerUrl: "", accentHex: "#3b82f6" },
   events: { defaultCategory: "Other", recurrenceFreq: "NONE", byWeekday: [], times: [] },
-  applications: { turnstileSiteKey: "", allowApplications: true },
+  applications: {
+    turnstileSiteKey: "",
+    allowApplications: true,
+    approvalQuorum: 0,
+    reviewRubric: ["Experience", "Communication", "Team fit"],
+    emailTemplates: DEFAULT_EMAIL_TEMPLATES,
+    provisioning: DEFAULT_PROVISIONING_SETTINGS,
+    reapplyCooldownDays: { Developer: 30, GuestServices: 30, Imaginear: 30 },
+  },
   social: {},
   seo: { twitterCard: "summary_large_image" },
   features: { showEventsOnHome: true, showApplicationsOnHome: true },
@@ -57,6 +87,7 @@ const DEFAULT_SETTINGS: Settings = {
   },
   maintenance: { enabled: false, message: "We'll be back soon!", allowedIPs: [] },
   security: { rateLimitEnabled: true, maxRequestsPerMinute: 60, requireEmailVerification: false },
+  minecraft: { statusProvider: "native", edition: "java", timeoutMs: 5000, servers: [], publicStatusPage: false },
 };
 
 export function useSettings() {
@@ -78,13 +109,23 @@ export function useSettings() {
         ...data,
         branding: { ...DEFAULT_SETTINGS.branding, ...data.branding },
         events: { ...DEFAULT_SETTINGS.events, ...data.events },
-        applications: { ...DEFAULT_SETTINGS.applications, ...data.applications },
+        applications: {
+          ...DEFAULT_SETTINGS.applications,
+          ...data.applications,
+          emailTemplates: resolveEmailTemplates(data.applications?.emailTemplates),
+          provisioning: resolveProvisioningSettings(data.applications?.provisioning),
+          reapplyCooldownDays: {
+            ...DEFAULT_SETTINGS.applications.reapplyCooldownDays,
+            ...data.applications?.reapplyCooldownDays,
+          },
+        },
         social: { ...DEFAULT_SETTINGS.social, ...data.social },
         seo: { ...DEFAULT_SETTINGS.seo, ...data.seo },
         features: { ...DEFAULT_SETTINGS.features, ...data.features },
         notifications: { ...DEFAULT_SETTINGS.notifications, ...data.notifications },
         maintenance: { ...DEFAULT_SETTINGS.maintenance, ...data.maintenance },
         security: { ...DEFAULT_SETTINGS.security, ...data.security },
+        minecraft: { ...DEFAULT_SETTINGS.minecraft, ...data.minecraft },
       });
     } catch (e: any) {
       toast.error(e.message || "Failed to load settings");
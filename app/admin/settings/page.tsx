@@ -13,6 +13,7 @@ import {
     Share2,
     Bell,
     Shield,
+    Server,
   ChevronRight,
 } from "lucide-react";
 import { useSettings } from "./hooks/useSettings";
@@ -27,6 +28,7 @@ const TAB_OPTIONS = [
     { id: "socialseo", label: "Social & SEO", icon: Share2 },
     { id: "notifications", label: "Notifications", icon: Bell },
     { id: "security", label: "Security", icon: Shield },
+    { id: "minecraft", label: "Minecraft Server", icon: Server },
 ];
 
 export default function SettingsPage() {
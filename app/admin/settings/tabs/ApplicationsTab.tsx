@@ -2,12 +2,24 @@ import { memo, useCallback } from "react";
 import { Card, CardHeader, SaveButton } from "../components/SettingsComponents";
 import { ApplicationFormSection } from "./sections/ApplicationFormSection";
 import { ApplicationNotificationsSection } from "./sections/ApplicationNotificationsSection";
+import { ApplicationReviewSection } from "./sections/ApplicationReviewSection";
+import { ApplicationCooldownSection } from "./sections/ApplicationCooldownSection";
+import { ApplicationFormBuilderSection } from "./sections/ApplicationFormBuilderSection";
+import { ApplicationEmailSection } from "./sections/ApplicationEmailSection";
+import { ApplicationProvisioningSection } from "./sections/ApplicationProvisioningSection";
+import type { EmailTemplates } from "@/lib/validation/application-email";
+import type { ProvisioningSettings } from "@/lib/validation/application-provisioning";
 
 interface ApplicationsTabProps {
   settings: {
     applications: {
       turnstileSiteKey: string;
       allowApplications: boolean;
+      approvalQuorum: number;
+      reviewRubric: string[];
+      emailTemplates: EmailTemplates;
+      provisioning: ProvisioningSettings;
+      reapplyCooldownDays: { Developer: number; GuestServices: number; Imaginear: number };
     };
     notifications: {
       discordApplicationsWebhookUrl: string;
@@ -36,24 +48,75 @@ export const ApplicationsTab = memo(function ApplicationsTab({
     onChange({ notifications: { ...settings.notifications, ...partial.notifications } });
   }, [settings.notifications, onChange]);
 
+  const handleReviewChange = useCallback((partial: Partial<typeof settings.applications>) => {
+    onChange({ applications: { ...settings.applications, ...partial } });
+  }, [settings.applications, onChange]);
+
+  const handleEmailTemplatesChange = useCallback((emailTemplates: EmailTemplates) => {
+    onChange({ applications: { ...settings.applications, emailTemplates } });
+  }, [settings.applications, onChange]);
+
+  const handleProvisioningChange = useCallback((provisioning: ProvisioningSettings) => {
+    onChange({ applications: { ...settings.applications, provisioning } });
+  }, [settings.applications, onChange]);
+
+  const handleSave = useCallback(() => {
+    onSave({
+      applications: {
+        ...settings.applications,
+        // Blank criteria are rows added but never filled in
+        reviewRubric: settings.applications.reviewRubric.map((c) => c.trim()).filter(Boolean),
+      },
+      notifications: settings.notifications,
+    });
+  }, [settings.applications, settings.notifications, onSave]);
+
   return (
-    <Card>
-      <CardHeader title="Applications" description="Configure application settings and spam protection" />
-      <div className="space-y-6">
-        <ApplicationFormSection settings={settings.applications} onChange={onChange} />
-        <ApplicationNotificationsSection 
-          settings={{
-            discordApplicationsWebhookUrl: settings.notifications.discordApplicationsWebhookUrl,
-            notifyOnNewApplication: settings.notifications.notifyOnNewApplication,
-          }}
-          onChange={handleNotificationsChange}
-        />
-        <SaveButton 
-          onClick={() => onSave({ applications: settings.applications, notifications: settings.notifications })} 
-          disabled={saving} 
-        />
-      </div>
-    </Card>
+    <div className="space-y-6">
+      <Card>
+        <CardHeader title="Applications" description="Configure application settings and spam protection" />
+        <div className="space-y-6">
+          <ApplicationFormSection settings={settings.applications} onChange={onChange} />
+          <ApplicationReviewSection
+            settings={{
+              approvalQuorum: settings.applications.approvalQuorum,
+              reviewRubric: settings.applications.reviewRubric,
+            }}
+            onChange={handleReviewChange}
+          />
+          <ApplicationCooldownSection
+            settings={{ reapplyCooldownDays: settings.applications.reapplyCooldownDays }}
+            onChange={handleReviewChange}
+          />
+          <ApplicationNotificationsSection 
+            settings={{
+              discordApplicationsWebhookUrl: settings.notifications.discordApplicationsWebhookUrl,
+              notifyOnNewApplication: settings.notifications.notifyOnNewApplication,
+            }}
+            onChange={handleNotificationsChange}
+          />
+          <SaveButton onClick={handleSave} disabled={saving} />
+        </div>
+      </Card>
+      <Card>
+        <CardHeader title="Applicant Emails" description="Emails sent to applicants when they apply and when their application's status changes" />
+        <div className="space-y-6">
+          <ApplicationEmailSection templates={settings.applications.emailTemplates} onChange={handleEmailTemplatesChange} />
+          <SaveButton onClick={handleSave} disabled={saving} />
+        </div>
+      </Card>
+      <Card>
+        <CardHeader title="Staff Provisioning" description="What an approved applicant gets: their web role and LuckPerms group for each role they can apply for" />
+        <div className="space-y-6">
+          <ApplicationProvisioningSection settings={settings.applications.provisioning} onChange={handleProvisioningChange} />
+          <SaveButton onClick={handleSave} disabled={saving} />
+        </div>
+      </Card>
+      <Card>
+        <CardHeader title="Application Questions" description="Role-specific questions applicants answer, saved separately from the settings above" />
+        <ApplicationFormBuilderSection />
+      </Card>
+    </div>
   );
 });
 
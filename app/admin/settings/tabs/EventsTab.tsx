@@ -10,7 +10,7 @@ interface EventsTabProps {
   settings: {
     events: {
       defaultCategory: "Fireworks" | "Seasonal" | "MeetAndGreet" | "Parade" | "Other";
-      recurrenceFreq: "NONE" | "DAILY" | "WEEKLY";
+      recurrenceFreq: "NONE" | "DAILY" | "WEEKLY" | "MONTHLY";
       byWeekday: ("SU" | "MO" | "TU" | "WE" | "TH" | "FR" | "SA")[];
       times: string[];
     };
@@ -64,6 +64,7 @@ export const EventsTab = memo(function EventsTab({ settings, onChange, onSave, s
               <option value="NONE">One-time</option>
               <option value="DAILY">Daily</option>
               <option value="WEEKLY">Weekly</option>
+              <option value="MONTHLY">Monthly</option>
             </select>
           </Field>
         </div>
@@ -0,0 +1,107 @@
+import { memo } from "react";
+import { Input, Separator, Switch } from "@/components/common";
+import type { MinecraftServerEntry } from "@/lib/minecraft-status";
+import { Card, CardHeader, Field, SaveButton, inputClass } from "../components/SettingsComponents";
+import { ServerRegistrySection } from "./sections/ServerRegistrySection";
+
+interface MinecraftTabProps {
+  settings: {
+    minecraft: {
+      statusProvider: "native" | "mcstatus";
+      edition: "java" | "bedrock";
+      timeoutMs: number;
+      servers: MinecraftServerEntry[];
+      publicStatusPage: boolean;
+    };
+  };
+  /* eslint-disable-next-line no-unused-vars */
+  onChange: (partial: Partial<MinecraftTabProps["settings"]>) => void;
+  /* eslint-disable-next-line no-unused-vars */
+  onSave: (data: Partial<MinecraftTabProps["settings"]>) => void;
+  saving: boolean;
+}
+
+export const MinecraftTab = memo(function MinecraftTab({ settings, onChange, onSave, saving }: MinecraftTabProps) {
+  const minecraft = settings.minecraft;
+
+  return (
+    <Card>
+      <CardHeader
+        title="Minecraft Server"
+        description="Which servers make up the network and how their status is queried"
+      />
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Field label="Status Provider">
+            <select
+              className={inputClass}
+              value={minecraft.statusProvider}
+              onChange={(e) =>
+                onChange({ minecraft: { ...minecraft, statusProvider: e.target.value as "native" | "mcstatus" } })
+              }
+            >
+              <option value="native">Built-in Server List Ping</option>
+              <option value="mcstatus">mcstatus.io API</option>
+            </select>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+              Built-in ping queries the server directly; mcstatus.io is a hosted fallback
+            </p>
+          </Field>
+          <Field label="Edition">
+            <select
+              className={inputClass}
+              value={minecraft.edition}
+              onChange={(e) =>
+                onChange({ minecraft: { ...minecraft, edition: e.target.value as "java" | "bedrock" } })
+              }
+            >
+              <option value="java">Java Edition (TCP, default port 25565)</option>
+              <option value="bedrock">Bedrock Edition (UDP, default port 19132)</option>
+            </select>
+          </Field>
+        </div>
+        <Field label="Timeout (ms)">
+          <Input
+            type="number"
+            min={1000}
+            max={15000}
+            step={500}
+            value={minecraft.timeoutMs}
+            onChange={(e) =>
+              onChange({ minecraft: { ...minecraft, timeoutMs: parseInt(e.target.value) || 5000 } })
+            }
+          />
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+            A server that does not answer within this time is reported offline
+          </p>
+        </Field>
+
+        <Separator />
+
+        <ServerRegistrySection
+          servers={minecraft.servers}
+          onChange={(servers) => onChange({ minecraft: { ...minecraft, servers } })}
+        />
+
+        <Separator />
+
+        <div className="flex items-center justify-between p-4 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50/50 dark:bg-slate-800/30">
+          <div>
+            <label className="text-sm font-medium text-slate-900 dark:text-white">
+              Public Status Page
+            </label>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+              Publish /status with the state, uptime and incident history of public servers
+            </p>
+          </div>
+          <Switch
+            checked={minecraft.publicStatusPage}
+            onCheckedChange={(checked) => onChange({ minecraft: { ...minecraft, publicStatusPage: checked } })}
+          />
+        </div>
+
+        <SaveButton onClick={() => onSave({ minecraft })} disabled={saving} />
+      </div>
+    </Card>
+  );
+});
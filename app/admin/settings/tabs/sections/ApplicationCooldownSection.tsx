@@ -0,0 +1,65 @@
+import { memo } from "react";
+import { Info } from "lucide-react";
+import { Input, Separator } from "@/components/common";
+import { Field } from "../../components/SettingsComponents";
+
+type CooldownDays = { Developer: number; GuestServices: number; Imaginear: number };
+
+interface ApplicationCooldownSectionProps {
+  settings: {
+    reapplyCooldownDays: CooldownDays;
+  };
+  /* eslint-disable-next-line no-unused-vars */
+  onChange: (partial: Partial<ApplicationCooldownSectionProps["settings"]>) => void;
+}
+
+const ROLES: { role: keyof CooldownDays; label: string }[] = [
+  { role: "Developer", label: "Developer" },
+  { role: "GuestServices", label: "Guest Services" },
+  { role: "Imaginear", label: "Imaginear" },
+];
+
+export const ApplicationCooldownSection = memo(function ApplicationCooldownSection({ settings, onChange }: ApplicationCooldownSectionProps) {
+  return (
+    <>
+      <div>
+        <h3 className="text-sm font-semibold text-slate-900 dark:text-white mb-4 flex items-center gap-2">
+          <div className="w-1 h-4 bg-blue-600 dark:bg-blue-500 rounded-full" />
+          Repeat Applicants
+        </h3>
+        <div className="space-y-4">
+          <Field label="Reapply Cooldown (days)">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {ROLES.map(({ role, label }) => (
+                <label key={role} className="text-xs text-slate-600 dark:text-slate-400 space-y-1">
+                  <span>{label}</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={365}
+                    value={settings.reapplyCooldownDays[role]}
+                    onChange={(e) =>
+                      onChange({
+                        reapplyCooldownDays: {
+                          ...settings.reapplyCooldownDays,
+                          [role]: Math.min(365, Math.max(0, Math.trunc(Number(e.target.value) || 0))),
+                        },
+                      })
+                    }
+                  />
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1 flex items-center gap-1">
+              <Info className="w-3.5 h-3.5" />
+              How long someone rejected for a role waits before applying for it again, matched by email, Minecraft account or
+              Discord user. They are only asked to try again later, without the decision or a date. 0 turns the wait off. Earlier applications from the same person or device are always shown on the
+              review page.
+            </p>
+          </Field>
+        </div>
+      </div>
+      <Separator />
+    </>
+  );
+});
@@ -0,0 +1,164 @@
+import { memo, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Info, RotateCcw, Send } from "lucide-react";
+import { Alert, Button, Input, Switch } from "@/components/common";
+import { cn } from "@/lib/utils";
+import { Field, inputClass } from "../../components/SettingsComponents";
+import {
+  APPLICATION_EMAIL_KINDS,
+  APPLICATION_EMAIL_LABELS,
+  DEFAULT_EMAIL_TEMPLATES,
+  EMAIL_PLACEHOLDERS,
+  type ApplicationEmailKind,
+  type EmailTemplate,
+  type EmailTemplates,
+} from "@/lib/validation/application-email";
+
+interface ApplicationEmailSectionProps {
+  templates: EmailTemplates;
+  /* eslint-disable-next-line no-unused-vars */
+  onChange: (templates: EmailTemplates) => void;
+}
+
+type SmtpStatus = { configured: boolean; host?: string; from?: string };
+
+export const ApplicationEmailSection = memo(function ApplicationEmailSection({ templates, onChange }: ApplicationEmailSectionProps) {
+  const [kind, setKind] = useState<ApplicationEmailKind>("received");
+  const [smtp, setSmtp] = useState<SmtpStatus | null>(null);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/admin/application-emails", { cache: "no-store", credentials: "include" })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: SmtpStatus | null) => setSmtp(data))
+      .catch(() => setSmtp(null));
+  }, []);
+
+  const template = templates[kind];
+  const update = (partial: Partial<EmailTemplate>) => onChange({ ...templates, [kind]: { ...template, ...partial } });
+
+  const sendTest = async () => {
+    setSending(true);
+    try {
+      const res = await fetch("/api/admin/application-emails/test", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ kind, template }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || `Failed to send (${res.status})`);
+      toast.success(`Test email sent to ${data.to}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to send test email");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {smtp && !smtp.configured && (
+        <Alert variant="warning">
+          SMTP is not configured, so no applicant emails are sent. Set SMTP_HOST (and SMTP_PORT, SMTP_FROM) in the
+          server environment - a local test mailbox such as Mailpit works for trying templates out.
+        </Alert>
+      )}
+      {smtp?.configured && (
+        <p className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1">
+          <Info className="w-3.5 h-3.5" />
+          Sending through {smtp.host} as {smtp.from}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2" role="tablist" aria-label="Email">
+        {APPLICATION_EMAIL_KINDS.map((k) => (
+          <button
+            key={k}
+            type="button"
+            role="tab"
+            aria-selected={kind === k}
+            onClick={() => setKind(k)}
+            className={cn(
+              "px-3 py-1.5 rounded-lg text-sm font-medium border-2 transition-colors",
+              kind === k
+                ? "border-blue-500 bg-blue-50 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200"
+                : "border-slate-200 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800",
+              !templates[k].enabled && "opacity-60"
+            )}
+          >
+            {APPLICATION_EMAIL_LABELS[k]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between p-4 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50/50 dark:bg-slate-800/30">
+        <div>
+          <label className="text-sm font-medium text-slate-900 dark:text-white">
+            Send &ldquo;{APPLICATION_EMAIL_LABELS[kind]}&rdquo; email
+          </label>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+            {kind === "received"
+              ? "Sent when an application is submitted"
+              : `Sent when an application's status changes to ${APPLICATION_EMAIL_LABELS[kind]}`}
+          </p>
+        </div>
+        <Switch checked={template.enabled} onCheckedChange={(checked) => update({ enabled: checked })} />
+      </div>
+
+      <Field label="Subject">
+        <Input value={template.subject} maxLength={200} onChange={(e) => update({ subject: e.target.value })} />
+      </Field>
+
+      <Field label="Body">
+        <textarea
+          className={cn(inputClass, "font-mono text-xs")}
+          rows={14}
+          maxLength={5000}
+          value={template.body}
+          onChange={(e) => update({ body: e.target.value })}
+        />
+        <div className="text-xs text-slate-500 dark:text-slate-400 mt-1 space-y-1">
+          <p className="flex items-center gap-1">
+            <Info className="w-3.5 h-3.5" />
+            Plain text; links become clickable. Placeholders:
+          </p>
+          <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 pl-5">
+            {Object.entries(EMAIL_PLACEHOLDERS).map(([key, label]) => (
+              <li key={key}>
+                <code>{`{{${key}}}`}</code> - {label}
+              </li>
+            ))}
+          </ul>
+          {kind === "rejected" && (
+            <p className="pl-5">
+              Text between <code>{"{{#reason}}"}</code> and <code>{"{{/reason}}"}</code> is only included when a reason was given.
+            </p>
+          )}
+        </div>
+      </Field>
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={sendTest}
+          isLoading={sending}
+          loadingText="Sending…"
+          disabled={!smtp?.configured || !template.subject.trim() || !template.body.trim()}
+          leftIcon={<Send className="w-4 h-4" />}
+        >
+          Send Test to Me
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => update(DEFAULT_EMAIL_TEMPLATES[kind])}
+          leftIcon={<RotateCcw className="w-4 h-4" />}
+        >
+          Reset to Default
+        </Button>
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,564 @@
+import { memo, useCallback, useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { ArrowDown, ArrowUp, Eye, Info, Plus, Save, Trash2 } from "lucide-react";
+import { Alert, Button, Input, Spinner, Switch } from "@/components/common";
+import DynamicApplicationForm from "@/components/admin/applications/DynamicApplicationForm";
+import { Roles, type Role } from "@/lib/validation/application";
+import {
+  FormDefinitionSchema,
+  formQuestions,
+  MAX_OPTIONS,
+  MAX_QUESTIONS,
+  MAX_SECTIONS,
+  QUESTION_TYPE_LABELS,
+  QuestionTypes,
+  type FormAnswers,
+  type FormDefinition,
+  type FormQuestion,
+  type FormSection,
+  type QuestionType,
+} from "@/lib/validation/application-form";
+import { Field, inputClass } from "../../components/SettingsComponents";
+
+type FormVersion = { id: string; role: Role; version: number; definition: FormDefinition; createdAt: string };
+
+type ValidationRules = NonNullable<FormQuestion["validation"]>;
+
+const ROLE_LABELS: Record<Role, string> = {
+  Developer: "Developer",
+  Imaginear: "Imaginear",
+  GuestServices: "Guest Relations",
+};
+
+// Rules each question type offers
+const TYPE_RULES: Record<QuestionType, { key: keyof ValidationRules; label: string }[]> = {
+  short_text: [{ key: "minLength", label: "Min length" }, { key: "maxLength", label: "Max length" }],
+  long_text: [{ key: "minLength", label: "Min length" }, { key: "maxLength", label: "Max length" }],
+  url: [],
+  number: [{ key: "min", label: "Minimum" }, { key: "max", label: "Maximum" }],
+  select: [],
+  multi_select: [{ key: "minSelected", label: "Min choices" }, { key: "maxSelected", label: "Max choices" }],
+  yes_no: [],
+};
+
+/**
+ * Id not used by any of `taken`, for a new section or question
+ */
+function nextId(prefix: string, taken: string[]): string {
+  const ids = new Set(taken);
+  let n = taken.length + 1;
+  while (ids.has(`${prefix}_${n}`)) n++;
+  return `${prefix}_${n}`;
+}
+
+/**
+ * The draft as saved: blank options dropped, rules and conditions that don't
+ * fit the question type removed
+ */
+function cleanDefinition(definition: FormDefinition): FormDefinition {
+  return {
+    sections: definition.sections.map((section) => ({
+      ...section,
+      questions: section.questions.map((question) => {
+        const { options, validation, ...rest } = question;
+        const next: FormQuestion = { ...rest };
+        if (question.type === "select" || question.type === "multi_select") {
+          next.options = (options ?? []).map((o) => o.trim()).filter(Boolean);
+        }
+        const rules = Object.fromEntries(
+          TYPE_RULES[question.type]
+            .map(({ key }) => [key, validation?.[key]] as const)
+            .filter(([, value]) => value !== undefined)
+        ) as ValidationRules;
+        if (Object.keys(rules).length > 0) next.validation = rules;
+        return next;
+      }),
+    })),
+  };
+}
+
+function QuestionEditor({
+  question,
+  earlier,
+  isFirst,
+  isLast,
+  onChange,
+  onMove,
+  onRemove,
+}: {
+  question: FormQuestion;
+  earlier: FormQuestion[];
+  isFirst: boolean;
+  isLast: boolean;
+  onChange: (question: FormQuestion) => void; // eslint-disable-line no-unused-vars
+  onMove: (offset: number) => void; // eslint-disable-line no-unused-vars
+  onRemove: () => void;
+}) {
+  const source = question.showIf ? earlier.find((q) => q.id === question.showIf?.questionId) : undefined;
+
+  const setOptional = <K extends "help" | "placeholder">(key: K, value: string) => {
+    const next = { ...question };
+    if (value) next[key] = value;
+    else delete next[key];
+    onChange(next);
+  };
+
+  const setRule = (key: keyof ValidationRules, raw: string) => {
+    const rules: ValidationRules = { ...question.validation };
+    if (raw === "") delete rules[key];
+    else rules[key] = Number(raw);
+    const next = { ...question };
+    if (Object.keys(rules).length > 0) next.validation = rules;
+    else delete next.validation;
+    onChange(next);
+  };
+
+  const setCondition = (questionId: string) => {
+    const next = { ...question };
+    const target = earlier.find((q) => q.id === questionId);
+    if (!target) {
+      delete next.showIf;
+    } else {
+      next.showIf = { questionId, equals: target.type === "yes_no" ? true : (target.options?.[0] ?? "") };
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-3">
+        <Input
+          aria-label="Question"
+          placeholder="Question"
+          value={question.label}
+          onChange={(e) => onChange({ ...question, label: e.target.value })}
+        />
+        <select
+          aria-label="Question type"
+          className={`${inputClass} w-auto`}
+          value={question.type}
+          onChange={(e) => {
+            const type = e.target.value as QuestionType;
+            const choice = type === "select" || type === "multi_select";
+            onChange({ ...question, type, ...(choice && !question.options && { options: ["Option 1"] }) });
+          }}
+        >
+          {QuestionTypes.map((type) => (
+            <option key={type} value={type}>
+              {QUESTION_TYPE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <Input
+          aria-label="Question id"
+          placeholder="id"
+          value={question.id}
+          onChange={(e) => onChange({ ...question, id: e.target.value.toLowerCase() })}
+        />
+        <Input
+          aria-label="Help text"
+          placeholder="Help text (optional)"
+          value={question.help ?? ""}
+          onChange={(e) => setOptional("help", e.target.value)}
+        />
+        {question.type === "short_text" || question.type === "long_text" || question.type === "url" || question.type === "number" ? (
+          <Input
+            aria-label="Placeholder"
+            placeholder="Placeholder (optional)"
+            value={question.placeholder ?? ""}
+            onChange={(e) => setOptional("placeholder", e.target.value)}
+          />
+        ) : (
+          <div />
+        )}
+      </div>
+
+      {(question.type === "select" || question.type === "multi_select") && (
+        <Field label={`Options (one per line, up to ${MAX_OPTIONS})`}>
+          <textarea
+            className={inputClass}
+            rows={Math.min(8, Math.max(3, question.options?.length ?? 0))}
+            value={(question.options ?? []).join("\n")}
+            onChange={(e) => onChange({ ...question, options: e.target.value.split("\n").slice(0, MAX_OPTIONS) })}
+          />
+        </Field>
+      )}
+
+      {TYPE_RULES[question.type].length > 0 && (
+        <div className="grid grid-cols-2 gap-3">
+          {TYPE_RULES[question.type].map(({ key, label }) => (
+            <Input
+              key={key}
+              type="number"
+              aria-label={label}
+              placeholder={label}
+              value={question.validation?.[key] ?? ""}
+              onChange={(e) => setRule(key, e.target.value)}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+          <Switch checked={question.required} onCheckedChange={(checked) => onChange({ ...question, required: checked })} />
+          Required
+        </label>
+
+        {earlier.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+            <span>Show</span>
+            <select
+              aria-label="Show this question"
+              className={`${inputClass} w-auto py-2`}
+              value={question.showIf?.questionId ?? ""}
+              onChange={(e) => setCondition(e.target.value)}
+            >
+              <option value="">always</option>
+              {earlier.map((q) => (
+                <option key={q.id} value={q.id}>
+                  when “{q.label || q.id}” is
+                </option>
+              ))}
+            </select>
+            {question.showIf && source?.type === "yes_no" && (
+              <select
+                aria-label="Answer"
+                className={`${inputClass} w-auto py-2`}
+                value={String(question.showIf.equals)}
+                onChange={(e) => onChange({ ...question, showIf: { ...question.showIf!, equals: e.target.value === "true" } })}
+              >
+                <option value="true">Yes</option>
+                <option value="false">No</option>
+              </select>
+            )}
+            {question.showIf && (source?.type === "select" || source?.type === "multi_select") && (
+              <select
+                aria-label="Answer"
+                className={`${inputClass} w-auto py-2`}
+                value={String(question.showIf.equals)}
+                onChange={(e) => onChange({ ...question, showIf: { ...question.showIf!, equals: e.target.value } })}
+              >
+                {source.options?.filter(Boolean).map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            )}
+            {question.showIf && source && source.type !== "yes_no" && source.type !== "select" && source.type !== "multi_select" && (
+              <Input
+                aria-label="Answer"
+                className="w-48"
+                value={String(question.showIf.equals)}
+                onChange={(e) => onChange({ ...question, showIf: { ...question.showIf!, equals: e.target.value } })}
+              />
+            )}
+          </div>
+        )}
+
+        <div className="ml-auto flex items-center gap-1">
+          <Button variant="ghost" size="sm" ariaLabel="Move question up" disabled={isFirst} onClick={() => onMove(-1)}>
+            <ArrowUp className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" ariaLabel="Move question down" disabled={isLast} onClick={() => onMove(1)}>
+            <ArrowDown className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            ariaLabel={`Remove ${question.label || question.id}`}
+            onClick={onRemove}
+            leftIcon={<Trash2 className="w-4 h-4" />}
+          >
+            Remove
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Editor for the role-specific questions of the application form. Each save
+ * is a new version of the role's form; applications keep the version they
+ * answered.
+ */
+export const ApplicationFormBuilderSection = memo(function ApplicationFormBuilderSection() {
+  const [versions, setVersions] = useState<Partial<Record<Role, FormVersion>>>({});
+  const [drafts, setDrafts] = useState<Partial<Record<Role, FormDefinition>>>({});
+  const [role, setRole] = useState<Role>("Developer");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [preview, setPreview] = useState(false);
+  const [previewAnswers, setPreviewAnswers] = useState<FormAnswers>({});
+
+  useEffect(() => {
+    fetch("/api/admin/application-forms", { cache: "no-store", credentials: "include" })
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`Failed to load forms (${res.status})`))))
+      .then((data: { items: FormVersion[] }) => {
+        setVersions(Object.fromEntries(data.items.map((form) => [form.role, form])));
+        setDrafts(Object.fromEntries(data.items.map((form) => [form.role, form.definition])));
+      })
+      .catch((e) => toast.error(e.message || "Failed to load application forms"))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const draft = drafts[role];
+  const current = versions[role];
+  const dirty = !!draft && !!current && JSON.stringify(cleanDefinition(draft)) !== JSON.stringify(current.definition);
+
+  const issues = useMemo(() => {
+    if (!draft) return [];
+    const parsed = FormDefinitionSchema.safeParse(cleanDefinition(draft));
+    return parsed.success ? [] : [...new Set(parsed.error.issues.map((issue) => issue.message))];
+  }, [draft]);
+
+  const setDraft = useCallback((definition: FormDefinition) => {
+    setDrafts((prev) => ({ ...prev, [role]: definition }));
+  }, [role]);
+
+  const updateSection = useCallback((index: number, section: FormSection) => {
+    if (!draft) return;
+    setDraft({ sections: draft.sections.map((s, i) => (i === index ? section : s)) });
+  }, [draft, setDraft]);
+
+  const addSection = useCallback(() => {
+    if (!draft) return;
+    const taken = formQuestions(draft).map((q) => q.id);
+    setDraft({
+      sections: [
+        ...draft.sections,
+        {
+          id: nextId("section", draft.sections.map((s) => s.id)),
+          title: "",
+          questions: [{ id: nextId("question", taken), type: "short_text", label: "", required: false }],
+        },
+      ],
+    });
+  }, [draft, setDraft]);
+
+  const addQuestion = useCallback((sectionIndex: number) => {
+    if (!draft) return;
+    const section = draft.sections[sectionIndex]!;
+    const id = nextId("question", formQuestions(draft).map((q) => q.id));
+    updateSection(sectionIndex, {
+      ...section,
+      questions: [...section.questions, { id, type: "short_text", label: "", required: false }],
+    });
+  }, [draft, updateSection]);
+
+  const moveQuestion = useCallback((sectionIndex: number, index: number, offset: number) => {
+    if (!draft) return;
+    const section = draft.sections[sectionIndex]!;
+    const questions = [...section.questions];
+    const [moved] = questions.splice(index, 1);
+    questions.splice(index + offset, 0, moved!);
+    updateSection(sectionIndex, { ...section, questions });
+  }, [draft, updateSection]);
+
+  const save = useCallback(async () => {
+    if (!draft || issues.length > 0) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/admin/application-forms/${role}`, {
+        method: "PUT",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(cleanDefinition(draft)),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || `Failed to save (${res.status})`);
+
+      const form = data.form as FormVersion;
+      setVersions((prev) => ({ ...prev, [role]: form }));
+      setDrafts((prev) => ({ ...prev, [role]: form.definition }));
+      toast.success(data.created ? `${ROLE_LABELS[role]} form saved as version ${form.version}` : "No changes to save");
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to save the form");
+    } finally {
+      setSaving(false);
+    }
+  }, [draft, issues, role]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Spinner size="sm" />
+      </div>
+    );
+  }
+  if (!draft || !current) {
+    return <Alert variant="error">The application forms could not be loaded.</Alert>;
+  }
+
+  const questionCount = formQuestions(draft).length;
+  let position = 0;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1">
+        <Info className="w-3.5 h-3.5" />
+        Shown in the &quot;Your Role&quot; step after the applicant fields. Saving adds a version; submitted applications keep theirs.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          aria-label="Role"
+          className={`${inputClass} w-auto`}
+          value={role}
+          onChange={(e) => {
+            setRole(e.target.value as Role);
+            setPreviewAnswers({});
+          }}
+        >
+          {Roles.map((r) => (
+            <option key={r} value={r}>
+              {ROLE_LABELS[r]}
+              {drafts[r] && versions[r] && JSON.stringify(cleanDefinition(drafts[r]!)) !== JSON.stringify(versions[r]!.definition) ? " •" : ""}
+            </option>
+          ))}
+        </select>
+        <span className="text-sm text-slate-500 dark:text-slate-400">
+          Version {current.version}
+          {dirty ? " · unsaved changes" : ""}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto"
+          onClick={() => setPreview((p) => !p)}
+          leftIcon={<Eye className="w-4 h-4" />}
+        >
+          {preview ? "Edit" : "Preview"}
+        </Button>
+      </div>
+
+      {preview ? (
+        <div className="p-4 rounded-xl border border-slate-200 dark:border-slate-700">
+          {issues.length > 0 ? (
+            <Alert variant="warning">Fix the problems below to preview the form.</Alert>
+          ) : (
+            <DynamicApplicationForm definition={cleanDefinition(draft)} value={previewAnswers} onChange={setPreviewAnswers} />
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {draft.sections.map((section, sectionIndex) => {
+            const before = position;
+            position += section.questions.length;
+            return (
+              <div
+                key={sectionIndex}
+                className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50/50 dark:bg-slate-800/30 space-y-3"
+              >
+                <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-3 items-center">
+                  <Input
+                    aria-label="Section title"
+                    placeholder="Section title"
+                    value={section.title}
+                    onChange={(e) => updateSection(sectionIndex, { ...section, title: e.target.value })}
+                  />
+                  <Input
+                    aria-label="Section description"
+                    placeholder="Description (optional)"
+                    value={section.description ?? ""}
+                    onChange={(e) => {
+                      const next = { ...section };
+                      if (e.target.value) next.description = e.target.value;
+                      else delete next.description;
+                      updateSection(sectionIndex, next);
+                    }}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    ariaLabel={`Remove section ${section.title || section.id}`}
+                    disabled={draft.sections.length === 1}
+                    onClick={() => setDraft({ sections: draft.sections.filter((_, i) => i !== sectionIndex) })}
+                    leftIcon={<Trash2 className="w-4 h-4" />}
+                  >
+                    Remove section
+                  </Button>
+                </div>
+
+                {section.questions.map((question, index) => (
+                  <QuestionEditor
+                    key={index}
+                    question={question}
+                    earlier={formQuestions(draft).slice(0, before + index)}
+                    isFirst={index === 0}
+                    isLast={index === section.questions.length - 1}
+                    onChange={(q) =>
+                      updateSection(sectionIndex, {
+                        ...section,
+                        questions: section.questions.map((existing, i) => (i === index ? q : existing)),
+                      })
+                    }
+                    onMove={(offset) => moveQuestion(sectionIndex, index, offset)}
+                    onRemove={() =>
+                      updateSection(sectionIndex, { ...section, questions: section.questions.filter((_, i) => i !== index) })
+                    }
+                  />
+                ))}
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => addQuestion(sectionIndex)}
+                  disabled={questionCount >= MAX_QUESTIONS}
+                  leftIcon={<Plus className="w-4 h-4" />}
+                >
+                  Add Question
+                </Button>
+              </div>
+            );
+          })}
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={addSection}
+            disabled={draft.sections.length >= MAX_SECTIONS || questionCount >= MAX_QUESTIONS}
+            leftIcon={<Plus className="w-4 h-4" />}
+          >
+            Add Section
+          </Button>
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <Alert variant="warning">
+          <ul className="list-disc pl-4 space-y-1 text-sm">
+            {issues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        </Alert>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="ghost"
+          disabled={!dirty || saving}
+          onClick={() => setDraft(current.definition)}
+        >
+          Discard changes
+        </Button>
+        <Button
+          variant="primary"
+          onClick={save}
+          disabled={!dirty || issues.length > 0}
+          isLoading={saving}
+          loadingText="Saving..."
+          leftIcon={<Save className="w-4 h-4" />}
+        >
+          Save as version {current.version + 1}
+        </Button>
+      </div>
+    </div>
+  );
+});
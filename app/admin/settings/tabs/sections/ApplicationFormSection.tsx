@@ -2,11 +2,18 @@ import { memo } from "react";
 import { Input, Switch, Separator } from "@/components/common";
 import { Field } from "../../components/SettingsComponents";
 import { Info, UserPlus } from "lucide-react";
+import type { EmailTemplates } from "@/lib/validation/application-email";
+import type { ProvisioningSettings } from "@/lib/validation/application-provisioning";
 
 interface ApplicationFormSectionProps {
   settings: {
     turnstileSiteKey: string;
     allowApplications: boolean;
+    approvalQuorum: number;
+    reviewRubric: string[];
+    emailTemplates: EmailTemplates;
+    provisioning: ProvisioningSettings;
+    reapplyCooldownDays: { Developer: number; GuestServices: number; Imaginear: number };
   };
   /* eslint-disable-next-line no-unused-vars */
   onChange: (partial: { applications: ApplicationFormSectionProps["settings"] }) => void;
@@ -0,0 +1,86 @@
+import { memo } from "react";
+import type { AppRole } from "@prisma/client";
+import { Info } from "lucide-react";
+import { Input, Switch } from "@/components/common";
+import { Field, inputClass } from "../../components/SettingsComponents";
+import {
+  PROVISIONING_WEB_ROLES,
+  type ProvisioningRole,
+  type ProvisioningSettings,
+  type ProvisioningWebRole,
+} from "@/lib/validation/application-provisioning";
+
+interface ApplicationProvisioningSectionProps {
+  settings: ProvisioningSettings;
+  /* eslint-disable-next-line no-unused-vars */
+  onChange: (settings: ProvisioningSettings) => void;
+}
+
+const APPLICATION_ROLES: { role: AppRole; label: string }[] = [
+  { role: "Developer", label: "Developer" },
+  { role: "GuestServices", label: "Guest Services" },
+  { role: "Imaginear", label: "Imaginear" },
+];
+
+export const ApplicationProvisioningSection = memo(function ApplicationProvisioningSection({
+  settings,
+  onChange,
+}: ApplicationProvisioningSectionProps) {
+  const updateRole = (role: AppRole, partial: Partial<ProvisioningRole>) =>
+    onChange({ ...settings, roles: { ...settings.roles, [role]: { ...settings.roles[role], ...partial } } });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between p-4 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50/50 dark:bg-slate-800/30">
+        <div>
+          <label className="text-sm font-medium text-slate-900 dark:text-white">Provision staff on approval</label>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+            Approving from the review page sets up the applicant&apos;s account, role, Minecraft name and LuckPerms group. A preview is shown first; approvals from the list never provision.
+          </p>
+        </div>
+        <Switch
+          checked={settings.enabled}
+          onCheckedChange={(checked) => onChange({ ...settings, enabled: checked })}
+          aria-label="Toggle staff provisioning on approval"
+        />
+      </div>
+
+      <div className="space-y-3">
+        {APPLICATION_ROLES.map(({ role, label }) => (
+          <div key={role} className="grid grid-cols-1 sm:grid-cols-[10rem_1fr_1fr] items-end gap-3">
+            <span className="text-sm font-medium text-slate-900 dark:text-white sm:pb-2.5">{label}</span>
+            <Field label="Web Role">
+              <select
+                aria-label={`Web role for ${label}`}
+                className={`${inputClass} py-2`}
+                disabled={!settings.enabled}
+                value={settings.roles[role].role}
+                onChange={(e) => updateRole(role, { role: e.target.value as ProvisioningWebRole })}
+              >
+                {PROVISIONING_WEB_ROLES.map((webRole) => (
+                  <option key={webRole} value={webRole}>
+                    {webRole}
+                  </option>
+                ))}
+              </select>
+            </Field>
+            <Field label="LuckPerms Group">
+              <Input
+                aria-label={`LuckPerms group for ${label}`}
+                disabled={!settings.enabled}
+                maxLength={36}
+                placeholder={settings.roles[role].role.toLowerCase()}
+                value={settings.roles[role].group}
+                onChange={(e) => updateRole(role, { group: e.target.value.trim() })}
+              />
+            </Field>
+          </div>
+        ))}
+        <p className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1">
+          <Info className="w-3.5 h-3.5" />
+          A blank group uses the web role&apos;s own group. Existing accounts are never moved to a lower role.
+        </p>
+      </div>
+    </div>
+  );
+});
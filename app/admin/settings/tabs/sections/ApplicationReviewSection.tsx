@@ -0,0 +1,87 @@
+import { memo, useCallback } from "react";
+import { Info, Plus, Trash2 } from "lucide-react";
+import { Button, Input, Separator } from "@/components/common";
+import { Field } from "../../components/SettingsComponents";
+
+interface ApplicationReviewSectionProps {
+  settings: {
+    approvalQuorum: number;
+    reviewRubric: string[];
+  };
+  /* eslint-disable-next-line no-unused-vars */
+  onChange: (partial: Partial<ApplicationReviewSectionProps["settings"]>) => void;
+}
+
+const MAX_CRITERIA = 10;
+
+export const ApplicationReviewSection = memo(function ApplicationReviewSection({ settings, onChange }: ApplicationReviewSectionProps) {
+  const setCriterion = useCallback((index: number, value: string) => {
+    onChange({ reviewRubric: settings.reviewRubric.map((c, i) => (i === index ? value : c)) });
+  }, [settings.reviewRubric, onChange]);
+
+  return (
+    <>
+      <div>
+        <h3 className="text-sm font-semibold text-slate-900 dark:text-white mb-4 flex items-center gap-2">
+          <div className="w-1 h-4 bg-blue-600 dark:bg-blue-500 rounded-full" />
+          Review Panel
+        </h3>
+        <div className="space-y-4">
+          <Field label="Approval Quorum">
+            <Input
+              type="number"
+              min={0}
+              max={10}
+              className="w-32"
+              value={settings.approvalQuorum}
+              onChange={(e) => onChange({ approvalQuorum: Math.min(10, Math.max(0, Math.trunc(Number(e.target.value) || 0))) })}
+            />
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1 flex items-center gap-1">
+              <Info className="w-3.5 h-3.5" />
+              Approve votes needed, and more than reject votes, before an application can be approved. 0 turns the quorum off.
+            </p>
+          </Field>
+
+          <Field label="Scoring Rubric">
+            <div className="space-y-2">
+              {settings.reviewRubric.map((criterion, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    aria-label={`Criterion ${index + 1}`}
+                    placeholder="e.g. Communication"
+                    maxLength={60}
+                    value={criterion}
+                    onChange={(e) => setCriterion(index, e.target.value)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    ariaLabel={`Remove ${criterion || "criterion"}`}
+                    onClick={() => onChange({ reviewRubric: settings.reviewRubric.filter((_, i) => i !== index) })}
+                    leftIcon={<Trash2 className="w-4 h-4" />}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onChange({ reviewRubric: [...settings.reviewRubric, ""] })}
+                disabled={settings.reviewRubric.length >= MAX_CRITERIA}
+                leftIcon={<Plus className="w-4 h-4" />}
+              >
+                Add Criterion
+              </Button>
+            </div>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1 flex items-center gap-1">
+              <Info className="w-3.5 h-3.5" />
+              Reviewers score each criterion from 1 to 5 with their vote.
+            </p>
+          </Field>
+        </div>
+      </div>
+      <Separator />
+    </>
+  );
+});
@@ -0,0 +1,155 @@
+import { memo, useCallback } from "react";
+import { Info, Plus, Trash2 } from "lucide-react";
+import { Button, Input, Switch } from "@/components/common";
+import type { MinecraftServerEntry } from "@/lib/minecraft-status";
+import { inputClass } from "../../components/SettingsComponents";
+
+interface ServerRegistrySectionProps {
+  servers: MinecraftServerEntry[];
+  /* eslint-disable-next-line no-unused-vars */
+  onChange: (servers: MinecraftServerEntry[]) => void;
+}
+
+const MAX_SERVERS = 20;
+
+/**
+ * Slug for a new server id, unique within the registry
+ */
+function nextServerId(servers: MinecraftServerEntry[]): string {
+  const ids = new Set(servers.map((server) => server.id));
+  let n = servers.length + 1;
+  while (ids.has(`server-${n}`)) n++;
+  return `server-${n}`;
+}
+
+export const ServerRegistrySection = memo(function ServerRegistrySection({ servers, onChange }: ServerRegistrySectionProps) {
+  const update = useCallback((index: number, partial: Partial<MinecraftServerEntry>) => {
+    onChange(servers.map((server, i) => {
+      if (i !== index) {
+        // Only one proxy: promoting a server demotes the previous one
+        return partial.role === "proxy" && server.role === "proxy" ? { ...server, role: "backend" } : server;
+      }
+      return { ...server, ...partial };
+    }));
+  }, [servers, onChange]);
+
+  const setEdition = useCallback((index: number, edition: MinecraftServerEntry["edition"] | "") => {
+    onChange(servers.map((server, i) => {
+      if (i !== index) return server;
+      const next = { ...server };
+      if (edition) next.edition = edition;
+      else delete next.edition; // Falls back to the network-wide edition
+      return next;
+    }));
+  }, [servers, onChange]);
+
+  const add = useCallback(() => {
+    onChange([
+      ...servers,
+      {
+        id: nextServerId(servers),
+        name: "",
+        address: "",
+        role: servers.some((server) => server.role === "proxy") ? "backend" : "proxy",
+        public: true,
+        enabled: true,
+      },
+    ]);
+  }, [servers, onChange]);
+
+  const remove = useCallback((index: number) => {
+    onChange(servers.filter((_, i) => i !== index));
+  }, [servers, onChange]);
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-slate-900 dark:text-white mb-2 flex items-center gap-2">
+        <div className="w-1 h-4 bg-blue-600 dark:bg-blue-500 rounded-full" />
+        Server Network
+      </h3>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-4 flex items-center gap-1">
+        <Info className="w-3.5 h-3.5" />
+        With no servers listed, MINECRAFT_SERVER_ADDRESS is used. The proxy&apos;s player count is the network total.
+      </p>
+
+      <div className="space-y-3">
+        {servers.map((server, index) => (
+          <div
+            key={index}
+            className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50/50 dark:bg-slate-800/30 space-y-3"
+          >
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <Input
+                aria-label="Server ID"
+                placeholder="id (e.g. hub)"
+                value={server.id}
+                onChange={(e) => update(index, { id: e.target.value.toLowerCase() })}
+              />
+              <Input
+                aria-label="Server name"
+                placeholder="Display name"
+                value={server.name}
+                onChange={(e) => update(index, { name: e.target.value })}
+              />
+              <Input
+                aria-label="Server address"
+                placeholder="host or host:port"
+                value={server.address}
+                onChange={(e) => update(index, { address: e.target.value })}
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-4">
+              <select
+                aria-label="Role"
+                className={`${inputClass} w-auto`}
+                value={server.role}
+                onChange={(e) => update(index, { role: e.target.value as MinecraftServerEntry["role"] })}
+              >
+                <option value="proxy">Proxy</option>
+                <option value="backend">Backend</option>
+              </select>
+              <select
+                aria-label="Edition"
+                className={`${inputClass} w-auto`}
+                value={server.edition ?? ""}
+                onChange={(e) => setEdition(index, e.target.value as MinecraftServerEntry["edition"] | "")}
+              >
+                <option value="">Default edition</option>
+                <option value="java">Java</option>
+                <option value="bedrock">Bedrock</option>
+              </select>
+              <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                <Switch checked={server.enabled} onCheckedChange={(checked) => update(index, { enabled: checked })} />
+                Enabled
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                <Switch checked={server.public} onCheckedChange={(checked) => update(index, { public: checked })} />
+                Public
+              </label>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-auto"
+                ariaLabel={`Remove ${server.name || server.id}`}
+                onClick={() => remove(index)}
+                leftIcon={<Trash2 className="w-4 h-4" />}
+              >
+                Remove
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={add}
+          disabled={servers.length >= MAX_SERVERS}
+          leftIcon={<Plus className="w-4 h-4" />}
+        >
+          Add Server
+        </Button>
+      </div>
+    </div>
+  );
+});
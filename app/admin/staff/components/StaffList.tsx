@@ -5,6 +5,7 @@ import { ResultMessage } from "./ResultMessage";
 import { StaffFilters } from "./StaffFilters";
 import { StaffTable } from "./StaffTable";
 import { StaffEditDialog } from "./StaffEditDialog";
+import { SuspendStaffDialog } from "./SuspendStaffDialog";
 import { useStaffActions } from "../hooks/useStaffActions";
 
 interface StaffMember {
@@ -15,6 +16,9 @@ interface StaffMember {
   role: string;
   image: string | null;
   emailVerified: boolean | null;
+  suspendedAt: Date | null;
+  suspendedUntil: Date | null;
+  suspensionReason: string | null;
   createdAt: Date;
   updatedAt: Date;
   _count: {
@@ -31,9 +35,20 @@ interface StaffListProps {
   updateAction: (formData: FormData) => Promise<{ success: boolean; message?: string }>;
   /* eslint-disable-next-line no-unused-vars */
   deleteAction: (formData: FormData) => Promise<{ success: boolean; message?: string }>;
+  /* eslint-disable-next-line no-unused-vars */
+  suspendAction: (formData: FormData) => Promise<{ success: boolean; message?: string }>;
+  /* eslint-disable-next-line no-unused-vars */
+  reactivateAction: (formData: FormData) => Promise<{ success: boolean; message?: string }>;
 }
 
-export const StaffList = memo(function StaffList({ staff, currentUserId, updateAction, deleteAction }: StaffListProps) {
+export const StaffList = memo(function StaffList({
+  staff,
+  currentUserId,
+  updateAction,
+  deleteAction,
+  suspendAction,
+  reactivateAction,
+}: StaffListProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [filterRole, setFilterRole] = useState<string>("ALL");
 
@@ -43,11 +58,15 @@ export const StaffList = memo(function StaffList({ staff, currentUserId, updateA
     selectedStaff,
     editingMinecraftName,
     setEditingMinecraftName,
+    suspendingStaff,
+    setSuspendingStaff,
     handleDelete,
+    handleSuspend,
+    handleReactivate,
     openEditDialog,
     closeEditDialog,
     handleSaveEdit,
-  } = useStaffActions({ updateAction, deleteAction });
+  } = useStaffActions({ updateAction, deleteAction, suspendAction, reactivateAction });
 
   const filteredStaff = useMemo(() => {
     return staff.filter(member => {
@@ -80,6 +99,8 @@ export const StaffList = memo(function StaffList({ staff, currentUserId, updateA
         filterRole={filterRole}
         onEdit={openEditDialog}
         onDelete={handleDelete}
+        onSuspend={setSuspendingStaff}
+        onReactivate={handleReactivate}
       />
 
       {selectedStaff && (
@@ -92,6 +113,15 @@ export const StaffList = memo(function StaffList({ staff, currentUserId, updateA
           isPending={isPending}
         />
       )}
+
+      {suspendingStaff && (
+        <SuspendStaffDialog
+          staff={suspendingStaff}
+          onClose={() => setSuspendingStaff(null)}
+          onConfirm={(reason, until) => handleSuspend(suspendingStaff.id, reason, until)}
+          isPending={isPending}
+        />
+      )}
     </div>
   );
 });
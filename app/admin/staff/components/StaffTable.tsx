@@ -9,6 +9,9 @@ interface StaffMember {
   role: string;
   image: string | null;
   emailVerified: boolean | null;
+  suspendedAt: Date | null;
+  suspendedUntil: Date | null;
+  suspensionReason: string | null;
   createdAt: Date;
   updatedAt: Date;
   _count: {
@@ -28,6 +31,10 @@ interface StaffTableProps {
   onEdit: (member: StaffMember) => void;
   /* eslint-disable-next-line no-unused-vars */
   onDelete: (id: string) => void;
+  /* eslint-disable-next-line no-unused-vars */
+  onSuspend: (member: StaffMember) => void;
+  /* eslint-disable-next-line no-unused-vars */
+  onReactivate: (id: string) => void;
 }
 
 export const StaffTable = memo(function StaffTable({
@@ -38,6 +45,8 @@ export const StaffTable = memo(function StaffTable({
   filterRole,
   onEdit,
   onDelete,
+  onSuspend,
+  onReactivate,
 }: StaffTableProps) {
   return (
     <div className="rounded-xl border-2 border-slate-300 dark:border-slate-700 overflow-hidden">
@@ -83,6 +92,8 @@ export const StaffTable = memo(function StaffTable({
                   isPending={isPending}
                   onEdit={onEdit}
                   onDelete={onDelete}
+                  onSuspend={onSuspend}
+                  onReactivate={onReactivate}
                 />
               ))
             )}
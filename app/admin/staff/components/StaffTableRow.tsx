@@ -1,6 +1,6 @@
 import { memo } from "react";
 import { Button, Badge } from "@/components/common";
-import { User, Mail, Shield, Activity, Calendar, Edit2, Trash2 } from "lucide-react";
+import { User, Mail, Shield, Activity, Calendar, Edit2, Trash2, Ban, UserCheck } from "lucide-react";
 import { format } from "date-fns";
 
 interface StaffMember {
@@ -11,6 +11,9 @@ interface StaffMember {
   role: string;
   image: string | null;
   emailVerified: boolean | null;
+  suspendedAt: Date | null;
+  suspendedUntil: Date | null;
+  suspensionReason: string | null;
   createdAt: Date;
   updatedAt: Date;
   _count: {
@@ -28,6 +31,10 @@ interface StaffTableRowProps {
   onEdit: (member: StaffMember) => void;
   /* eslint-disable-next-line no-unused-vars */
   onDelete: (id: string) => void;
+  /* eslint-disable-next-line no-unused-vars */
+  onSuspend: (member: StaffMember) => void;
+  /* eslint-disable-next-line no-unused-vars */
+  onReactivate: (id: string) => void;
 }
 
 const ROLE_COLORS = {
@@ -52,7 +59,11 @@ export const StaffTableRow = memo(function StaffTableRow({
   isPending,
   onEdit,
   onDelete,
+  onSuspend,
+  onReactivate,
 }: StaffTableRowProps) {
+  const isSuspended = member.suspendedAt !== null;
+
   return (
     <tr className="hover:bg-slate-50 dark:hover:bg-slate-900/50 transition-colors">
       <td className="px-4 py-4">
@@ -101,6 +112,16 @@ export const StaffTableRow = memo(function StaffTableRow({
 
       <td className="px-4 py-4">
         <div className="text-sm space-y-1">
+          {isSuspended && (
+            <div title={member.suspensionReason ?? undefined}>
+              <Badge variant="danger" size="sm">
+                <Ban className="w-3 h-3 mr-1" />
+                {member.suspendedUntil
+                  ? `Suspended until ${format(new Date(member.suspendedUntil), "MMM d, HH:mm")}`
+                  : "Suspended indefinitely"}
+              </Badge>
+            </div>
+          )}
           <div className="flex items-center gap-2 text-slate-600 dark:text-slate-400">
             <Activity className="w-3 h-3" />
             {member._count.sessions > 0 ? (
@@ -127,6 +148,29 @@ export const StaffTableRow = memo(function StaffTableRow({
           <Button variant="ghost" size="sm" onClick={() => onEdit(member)} disabled={isPending}>
             <Edit2 className="w-4 h-4" />
           </Button>
+          {isSuspended ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onReactivate(member.id)}
+              disabled={isPending}
+              title="Lift suspension"
+              className="text-green-600 hover:text-green-700 hover:bg-green-50 dark:hover:bg-green-900/20"
+            >
+              <UserCheck className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onSuspend(member)}
+              disabled={isPending || member.id === currentUserId}
+              title="Suspend"
+              className="text-amber-600 hover:text-amber-700 hover:bg-amber-50 dark:hover:bg-amber-900/20"
+            >
+              <Ban className="w-4 h-4" />
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="sm"
@@ -0,0 +1,88 @@
+import { memo, useState } from "react";
+import { Button, Input, Label } from "@/components/common";
+import { Loader2 } from "lucide-react";
+
+interface StaffMember {
+  id: string;
+  name: string | null;
+  email: string | null;
+}
+
+interface SuspendStaffDialogProps {
+  staff: StaffMember;
+  onClose: () => void;
+  /* eslint-disable-next-line no-unused-vars */
+  onConfirm: (reason: string, until: string) => void;
+  isPending: boolean;
+}
+
+export const SuspendStaffDialog = memo(function SuspendStaffDialog({
+  staff,
+  onClose,
+  onConfirm,
+  isPending,
+}: SuspendStaffDialogProps) {
+  const [reason, setReason] = useState("");
+  const [until, setUntil] = useState("");
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl max-w-md w-full p-6 border-2 border-slate-300 dark:border-slate-700">
+        <h3 className="text-xl font-bold mb-2 text-slate-900 dark:text-white">Suspend Staff Member</h3>
+        <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+          {staff.name || staff.email} will be signed out everywhere, blocked from signing in, and their API keys will be
+          disabled until the suspension is lifted.
+        </p>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="suspendReason">Reason</Label>
+            <textarea
+              id="suspendReason"
+              rows={3}
+              maxLength={500}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              disabled={isPending}
+              className="w-full rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 px-3 py-2 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-slate-500 dark:text-slate-400">Shown to the user when they try to sign in</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="suspendUntil">Suspended until</Label>
+            <Input
+              id="suspendUntil"
+              type="datetime-local"
+              value={until}
+              onChange={(e) => setUntil(e.target.value)}
+              disabled={isPending}
+            />
+            <p className="text-xs text-slate-500 dark:text-slate-400">Leave empty to suspend indefinitely</p>
+          </div>
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <Button variant="outline" onClick={onClose} disabled={isPending} className="flex-1">
+            Cancel
+          </Button>
+          <Button
+            variant="danger"
+            onClick={() => onConfirm(reason.trim(), until)}
+            disabled={isPending || reason.trim().length === 0}
+            className="flex-1"
+          >
+            {isPending ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Suspending...
+              </>
+            ) : (
+              "Suspend"
+            )}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+});
@@ -8,6 +8,9 @@ interface StaffMember {
   role: string;
   image: string | null;
   emailVerified: boolean | null;
+  suspendedAt: Date | null;
+  suspendedUntil: Date | null;
+  suspensionReason: string | null;
   createdAt: Date;
   updatedAt: Date;
   _count: {
@@ -22,13 +25,18 @@ interface UseStaffActionsProps {
   updateAction: (formData: FormData) => Promise<{ success: boolean; message?: string }>;
   /* eslint-disable-next-line no-unused-vars */
   deleteAction: (formData: FormData) => Promise<{ success: boolean; message?: string }>;
+  /* eslint-disable-next-line no-unused-vars */
+  suspendAction: (formData: FormData) => Promise<{ success: boolean; message?: string }>;
+  /* eslint-disable-next-line no-unused-vars */
+  reactivateAction: (formData: FormData) => Promise<{ success: boolean; message?: string }>;
 }
 
-export function useStaffActions({ updateAction, deleteAction }: UseStaffActionsProps) {
+export function useStaffActions({ updateAction, deleteAction, suspendAction, reactivateAction }: UseStaffActionsProps) {
   const [isPending, startTransition] = useTransition();
   const [result, setResult] = useState<{ success: boolean; message?: string } | null>(null);
   const [selectedStaff, setSelectedStaff] = useState<StaffMember | null>(null);
   const [editingMinecraftName, setEditingMinecraftName] = useState("");
+  const [suspendingStaff, setSuspendingStaff] = useState<StaffMember | null>(null);
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
@@ -88,6 +96,54 @@ export function useStaffActions({ updateAction, deleteAction }: UseStaffActionsP
     });
   }, [deleteAction, clearResultAfterDelay]);
 
+  const handleSuspend = useCallback((staffId: string, reason: string, until: string) => {
+    setResult(null);
+    const formData = new FormData();
+    formData.append("userId", staffId);
+    formData.append("reason", reason);
+    // datetime-local has no timezone; send an absolute timestamp
+    if (until) formData.append("until", new Date(until).toISOString());
+
+    startTransition(async () => {
+      try {
+        const res = await suspendAction(formData);
+        setResult(res);
+        if (res.success) {
+          setSuspendingStaff(null);
+          clearResultAfterDelay();
+        }
+      } catch (error) {
+        setResult({
+          success: false,
+          message: error instanceof Error ? error.message : "Failed to suspend staff member",
+        });
+      }
+    });
+  }, [suspendAction, clearResultAfterDelay]);
+
+  const handleReactivate = useCallback((staffId: string) => {
+    if (!confirm("Lift this suspension? The user will be able to sign in again and their API keys will be restored.")) {
+      return;
+    }
+
+    setResult(null);
+    const formData = new FormData();
+    formData.append("userId", staffId);
+
+    startTransition(async () => {
+      try {
+        const res = await reactivateAction(formData);
+        setResult(res);
+        if (res.success) clearResultAfterDelay();
+      } catch (error) {
+        setResult({
+          success: false,
+          message: error instanceof Error ? error.message : "Failed to reactivate staff member",
+        });
+      }
+    });
+  }, [reactivateAction, clearResultAfterDelay]);
+
   const openEditDialog = useCallback((member: StaffMember) => {
     setSelectedStaff(member);
     setEditingMinecraftName(member.minecraftName || "");
@@ -111,8 +167,12 @@ export function useStaffActions({ updateAction, deleteAction }: UseStaffActionsP
     selectedStaff,
     editingMinecraftName,
     setEditingMinecraftName,
+    suspendingStaff,
+    setSuspendingStaff,
     handleUpdate,
     handleDelete,
+    handleSuspend,
+    handleReactivate,
     openEditDialog,
     closeEditDialog,
     handleSaveEdit,
@@ -23,9 +23,11 @@ import {
 } from "@/lib/input-validation";
 import {
   canAssignRole,
+  canModifyUser,
   isValidSystemRole,
   validateRoleChange,
 } from "@/lib/role-security";
+import { suspendUser, liftSuspension, liftExpiredSuspensions } from "@/lib/user-suspension";
 import {
   logUserCreated,
   logOperationFailed,
@@ -404,6 +406,128 @@ export async function deleteStaffAction(formData: FormData) {
   }
 }
 
+// Server Action: Suspend staff member
+export async function suspendStaffAction(formData: FormData) {
+  "use server";
+  
+  const session = await requireAdmin();
+  if (!session?.user?.id || !session?.user?.email) {
+    throw new Error("Unauthorized");
+  }
+
+  const userId = formData.get("userId") as string;
+  const reason = sanitizeInput((formData.get("reason") as string) || "", 500);
+  const rawUntil = formData.get("until") as string;
+
+  if (!userId) {
+    return { success: false, message: "User ID is required" };
+  }
+
+  if (!reason) {
+    return { success: false, message: "A suspension reason is required" };
+  }
+
+  const until = rawUntil ? new Date(rawUntil) : null;
+  if (until && (Number.isNaN(until.getTime()) || until <= new Date())) {
+    return { success: false, message: "Suspension end must be a future date" };
+  }
+
+  try {
+    const targetUser = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, role: true },
+    });
+
+    if (!targetUser) {
+      return { success: false, message: "User not found" };
+    }
+
+    if (!canModifyUser(session.user.role, targetUser.role, targetUser.id === session.user.id)) {
+      logOperationFailed(
+        "user.suspended",
+        session.user.id,
+        session.user.email,
+        `Attempted to suspend ${targetUser.role} without permission`
+      );
+      return { success: false, message: "You don't have permission to suspend this user" };
+    }
+
+    const result = await suspendUser({
+      userId,
+      reason,
+      suspendedById: session.user.id,
+      until,
+    });
+
+    revalidatePath("/admin/staff");
+    return {
+      success: true,
+      message: `${targetUser.email} suspended. ${result.revokedSessions} session(s) revoked, ${result.deactivatedKeys} API key(s) deactivated.`,
+    };
+  } catch (error: any) {
+    console.error("[SuspendStaff] Error:", error);
+    logOperationFailed(
+      "user.suspended",
+      session.user.id,
+      session.user.email,
+      "Database error during user suspension"
+    );
+    return { success: false, message: "Failed to suspend staff member. Please try again." };
+  }
+}
+
+// Server Action: Lift a staff member's suspension
+export async function reactivateStaffAction(formData: FormData) {
+  "use server";
+  
+  const session = await requireAdmin();
+  if (!session?.user?.id || !session?.user?.email) {
+    throw new Error("Unauthorized");
+  }
+
+  const userId = formData.get("userId") as string;
+
+  if (!userId) {
+    return { success: false, message: "User ID is required" };
+  }
+
+  try {
+    const targetUser = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, role: true, suspendedAt: true },
+    });
+
+    if (!targetUser) {
+      return { success: false, message: "User not found" };
+    }
+
+    if (!targetUser.suspendedAt) {
+      return { success: false, message: "User is not suspended" };
+    }
+
+    if (!canModifyUser(session.user.role, targetUser.role, targetUser.id === session.user.id)) {
+      return { success: false, message: "You don't have permission to reactivate this user" };
+    }
+
+    const result = await liftSuspension(userId, session.user.id);
+
+    revalidatePath("/admin/staff");
+    return {
+      success: true,
+      message: `${targetUser.email} reactivated. ${result.restoredKeys} API key(s) restored.`,
+    };
+  } catch (error: any) {
+    console.error("[ReactivateStaff] Error:", error);
+    logOperationFailed(
+      "user.reactivated",
+      session.user.id,
+      session.user.email,
+      "Database error during user reactivation"
+    );
+    return { success: false, message: "Failed to reactivate staff member. Please try again." };
+  }
+}
+
 export default async function StaffManagementPage() {
   // Require admin authentication
   const session = await requireAdmin();
@@ -411,6 +535,9 @@ export default async function StaffManagementPage() {
     redirect("/login");
   }
 
+  // Timed suspensions that have ended should not show as suspended
+  await liftExpiredSuspensions();
+
   // Fetch all staff users (exclude regular guests)
   const staff = await prisma.user.findMany({
     where: {
@@ -426,6 +553,9 @@ export default async function StaffManagementPage() {
       role: true,
       image: true,
       emailVerified: true,
+      suspendedAt: true,
+      suspendedUntil: true,
+      suspensionReason: true,
       createdAt: true,
       updatedAt: true,
       _count: {
@@ -541,6 +671,8 @@ export default async function StaffManagementPage() {
             currentUserId={session.user?.id || ""}
             updateAction={updateStaffAction}
             deleteAction={deleteStaffAction}
+            suspendAction={suspendStaffAction}
+            reactivateAction={reactivateStaffAction}
           />
         </CardContent>
       </Card>
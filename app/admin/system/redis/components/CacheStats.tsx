@@ -0,0 +1,78 @@
+import { memo } from "react";
+import { Card, Badge } from "@/components/common";
+import { Layers } from "lucide-react";
+
+interface CacheStatsProps {
+  stats?: {
+    backend: "redis" | "memory";
+    hits: number;
+    misses: number;
+    hitRate: number;
+    sets: number;
+    invalidations: number;
+    coalesced: number;
+    errors: number;
+    keys: number | null;
+    since: string;
+  };
+}
+
+export const CacheStats = memo(function CacheStats({ stats }: CacheStatsProps) {
+  if (!stats) return null;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+          <Layers className="w-5 h-5" />
+          Application Cache
+        </h2>
+        <Badge variant={stats.backend === "redis" ? "success" : "warning"}>
+          {stats.backend === "redis" ? "Redis backend" : "In-memory backend"}
+        </Badge>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div>
+          <p className="text-sm text-slate-600 dark:text-slate-400">Hit Rate</p>
+          <p className="text-xl font-semibold text-slate-900 dark:text-white mt-1">
+            {stats.hitRate.toFixed(1)}%
+          </p>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+            {stats.hits.toLocaleString()} hits / {stats.misses.toLocaleString()} misses
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-slate-600 dark:text-slate-400">Writes</p>
+          <p className="text-xl font-semibold text-slate-900 dark:text-white mt-1">
+            {stats.sets.toLocaleString()}
+          </p>
+          {stats.keys !== null && (
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+              {stats.keys.toLocaleString()} live entries
+            </p>
+          )}
+        </div>
+        <div>
+          <p className="text-sm text-slate-600 dark:text-slate-400">Tag Invalidations</p>
+          <p className="text-xl font-semibold text-slate-900 dark:text-white mt-1">
+            {stats.invalidations.toLocaleString()}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-slate-600 dark:text-slate-400">Coalesced Loads</p>
+          <p className="text-xl font-semibold text-slate-900 dark:text-white mt-1">
+            {stats.coalesced.toLocaleString()}
+          </p>
+          {stats.errors > 0 && (
+            <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+              {stats.errors.toLocaleString()} backend errors
+            </p>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mt-4">
+        Counters cover this app instance since {new Date(stats.since).toLocaleString()}.
+      </p>
+    </Card>
+  );
+});
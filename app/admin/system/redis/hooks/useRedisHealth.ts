@@ -50,6 +50,20 @@ type RedisHealth = {
     };
     isPaused: boolean;
   }>;
+  cache: {
+    backend: "redis" | "memory";
+    hits: number;
+    misses: number;
+    total: number;
+    hitRate: number;
+    sets: number;
+    deletes: number;
+    invalidations: number;
+    coalesced: number;
+    errors: number;
+    keys: number | null;
+    since: string;
+  };
   warnings: string[];
   timestamp: string;
 };
@@ -10,6 +10,7 @@ import { OverviewCards } from "./components/OverviewCards";
 import { MemoryDetails } from "./components/MemoryDetails";
 import { QueueStatistics } from "./components/QueueStatistics";
 import { PerformanceStats } from "./components/PerformanceStats";
+import { CacheStats } from "./components/CacheStats";
 import { KeyspaceInfo } from "./components/KeyspaceInfo";
 
 export default function RedisMonitoringPage() {
@@ -88,6 +89,8 @@ export default function RedisMonitoringPage() {
 
       <PerformanceStats stats={health.stats} />
 
+      <CacheStats stats={health.cache} />
+
       <KeyspaceInfo keyspaces={health.keyspaces} />
     </div>
   );
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { createApiHandler } from "@/lib/api-middleware";
+import { getSmtpConfig } from "@/lib/integrations/email";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/admin/application-emails
+ * Whether applicant emails can be sent (SMTP_HOST is set), and where from
+ */
+export const GET = createApiHandler(
+  {
+    auth: "admin",
+    rateLimit: {
+      key: "admin:application-emails:status",
+      limit: 60,
+      window: 60,
+      strategy: "sliding-window",
+    },
+  },
+  async () => {
+    const config = getSmtpConfig();
+    return NextResponse.json(
+      {
+        configured: config !== null,
+        ...(config && { host: `${config.host}:${config.port}`, from: config.from }),
+      },
+      { headers: { "Cache-Control": "private, no-cache, no-store, must-revalidate" } }
+    );
+  }
+);
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { log } from "@/lib/logger";
+import { createApiHandler } from "@/lib/api-middleware";
+import { EmailError, sendEmail } from "@/lib/integrations/email";
+import { getEmailSettings, renderEmail, statusPageUrl } from "@/lib/application-emails";
+import { APPLICATION_EMAIL_KINDS, EmailTemplateSchema } from "@/lib/validation/application-email";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const testEmailSchema = z.object({
+  kind: z.enum(APPLICATION_EMAIL_KINDS),
+  // Unsaved edits to preview; the saved template otherwise
+  template: EmailTemplateSchema.optional(),
+});
+
+type TestEmailBody = z.infer<typeof testEmailSchema>;
+
+/**
+ * POST /api/admin/application-emails/test
+ * Send an applicant email with sample values to your own address
+ */
+export const POST = createApiHandler(
+  {
+    auth: "admin",
+    rateLimit: {
+      key: "admin:application-emails:test",
+      limit: 10,
+      window: 60,
+      strategy: "sliding-window",
+    },
+    validateBody: testEmailSchema,
+    maxBodySize: 16 * 1024,
+  },
+  async (_req, { userId, validatedBody }) => {
+    const body = validatedBody as TestEmailBody;
+
+    const user = await prisma.user.findUnique({ where: { id: userId! }, select: { name: true, email: true } });
+    if (!user?.email) {
+      return NextResponse.json({ error: "Your account has no email address" }, { status: 400 });
+    }
+
+    const settings = await getEmailSettings();
+    const template = body.template ?? settings.templates[body.kind];
+
+    try {
+      await sendEmail({
+        to: user.email,
+        ...renderEmail(template, {
+          name: user.name || "Alex",
+          role: "Imaginear",
+          siteName: settings.siteName,
+          statusUrl: statusPageUrl("0".repeat(64)),
+          reason: body.kind === "rejected" ? "This is where the reason given when rejecting appears." : "",
+        }),
+      });
+    } catch (error) {
+      if (error instanceof EmailError) {
+        log.warn("Test applicant email failed", { code: error.code, error: error.message, userId });
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: error.code === "NOT_CONFIGURED" ? 503 : 502 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json({ ok: true, to: user.email });
+  }
+);
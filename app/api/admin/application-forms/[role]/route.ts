@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { log } from "@/lib/logger";
+import { auditLog } from "@/lib/audit-logger";
+import { createApiHandler } from "@/lib/api-middleware";
+import { saveFormVersion } from "@/lib/application-forms";
+import { Roles } from "@/lib/validation/application";
+import { FormDefinitionSchema, formQuestions, type FormDefinition } from "@/lib/validation/application-form";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const roleSchema = z.enum(Roles);
+
+/**
+ * PUT /api/admin/application-forms/[role]
+ * Save a role's form as a new version. Applications already submitted keep
+ * the version they answered.
+ */
+export const PUT = createApiHandler(
+  {
+    auth: "admin",
+    rateLimit: {
+      key: "admin:application-forms:update",
+      limit: 20,
+      window: 60,
+      strategy: "sliding-window",
+    },
+    validateBody: FormDefinitionSchema,
+    maxBodySize: 256 * 1024,
+  },
+  async (_req, { userId, params, validatedBody }) => {
+    const role = roleSchema.safeParse(params!["role"]);
+    if (!role.success) {
+      return NextResponse.json({ error: "Unknown role" }, { status: 404 });
+    }
+
+    const definition = validatedBody as FormDefinition;
+    const { form, created } = await saveFormVersion(role.data, definition, userId!);
+
+    if (created) {
+      await auditLog({
+        action: "application_form.updated",
+        resourceType: "application_form",
+        resourceId: form.id,
+        userId: userId!,
+        details: {
+          role: form.role,
+          version: form.version,
+          sections: definition.sections.length,
+          questions: formQuestions(definition).length,
+        },
+      });
+
+      log.info("Application form saved", { role: form.role, version: form.version, userId });
+    }
+
+    return NextResponse.json({ form, created });
+  }
+);
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { createApiHandler } from "@/lib/api-middleware";
+import { listCurrentForms } from "@/lib/application-forms";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/admin/application-forms
+ * The current form version of every role
+ */
+export const GET = createApiHandler(
+  {
+    auth: "admin",
+    rateLimit: {
+      key: "admin:application-forms:list",
+      limit: 60,
+      window: 60,
+      strategy: "sliding-window",
+    },
+  },
+  async () => {
+    return NextResponse.json({ items: await listCurrentForms() }, {
+      headers: {
+        "Cache-Control": "private, no-cache, no-store, must-revalidate",
+      },
+    });
+  }
+);
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { createApiHandler } from "@/lib/api-middleware";
+import { deleteComment } from "@/lib/application-review";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * DELETE /api/admin/applications/[id]/comments/[commentId]
+ * Delete your own comment, with its replies
+ */
+export const DELETE = createApiHandler(
+  {
+    auth: "admin",
+    rateLimit: {
+      key: "admin:applications:comments:delete",
+      limit: 30,
+      window: 60,
+      strategy: "sliding-window",
+    },
+  },
+  async (_req, { userId, params }) => {
+    const result = await deleteComment(params!["id"]!, params!["commentId"]!, userId!);
+
+    if (result === "not_found") {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+    if (result === "forbidden") {
+      return NextResponse.json({ error: "Only the author can delete a comment" }, { status: 403 });
+    }
+    return NextResponse.json({ ok: true });
+  }
+);
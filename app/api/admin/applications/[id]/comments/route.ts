@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { createApiHandler } from "@/lib/api-middleware";
+import { sanitizeInput } from "@/lib/input-sanitization";
+import { addComment } from "@/lib/application-review";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_COMMENT_LENGTH = 4000;
+
+const commentSchema = z.object({
+  body: z.string().trim().min(1, "Write a comment first").max(MAX_COMMENT_LENGTH),
+  parentId: z.string().max(50).nullable().optional(),
+});
+
+type CommentBody = z.infer<typeof commentSchema>;
+
+/**
+ * POST /api/admin/applications/[id]/comments
+ * Add an internal comment, or a reply with parentId. Applicants never see
+ * comments.
+ */
+export const POST = createApiHandler(
+  {
+    auth: "admin",
+    rateLimit: {
+      key: "admin:applications:comments:add",
+      limit: 30,
+      window: 60,
+      strategy: "sliding-window",
+    },
+    validateBody: commentSchema,
+    maxBodySize: 16 * 1024,
+  },
+  async (_req, { userId, params, validatedBody }) => {
+    const id = params!["id"]!;
+    const body = validatedBody as CommentBody;
+
+    const application = await prisma.application.findUnique({ where: { id }, select: { id: true } });
+    if (!application) {
+      return NextResponse.json({ error: "Application not found" }, { status: 404 });
+    }
+
+    const comment = await addComment(id, userId!, sanitizeInput(body.body, MAX_COMMENT_LENGTH), body.parentId);
+    if (!comment) {
+      return NextResponse.json({ error: "The comment being replied to was not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ comment }, { status: 201 });
+  }
+);
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createApiHandler } from "@/lib/api-middleware";
+import { getProvisioningSettings, planProvisioning } from "@/lib/application-provisioning";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/admin/applications/[id]/provision
+ * Dry run of the staff provisioning that approving would do: each step and
+ * whether it is ready, skipped, a warning or blocked. Changes nothing.
+ */
+export const GET = createApiHandler(
+  {
+    auth: "admin",
+    rateLimit: {
+      key: "admin:applications:provision",
+      limit: 30,
+      window: 60,
+      strategy: "sliding-window",
+    },
+  },
+  async (_req, { userId, params }) => {
+    const id = params!["id"]!;
+
+    const actor = await prisma.user.findUnique({ where: { id: userId! }, select: { role: true } });
+    if (!actor) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const settings = await getProvisioningSettings();
+    const plan = await planProvisioning(id, actor.role, settings);
+    if (!plan) {
+      return NextResponse.json({ error: "Application not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { enabled: settings.enabled, ...plan },
+      { headers: { "Cache-Control": "private, no-cache, no-store, must-revalidate" } }
+    );
+  }
+);
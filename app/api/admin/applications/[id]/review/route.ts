@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createApiHandler } from "@/lib/api-middleware";
+import { getApplicationReview, listReviewCandidates } from "@/lib/application-review";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/admin/applications/[id]/review
+ * Review panel of an application: reviewers, votes and quorum, comments,
+ * status history, and the staff who can be added to the panel
+ */
+export const GET = createApiHandler(
+  {
+    auth: "admin",
+    rateLimit: {
+      key: "admin:applications:review",
+      limit: 60,
+      window: 60,
+      strategy: "sliding-window",
+    },
+  },
+  async (_req, { userId, params }) => {
+    const id = params!["id"]!;
+
+    const application = await prisma.application.findUnique({ where: { id }, select: { id: true } });
+    if (!application) {
+      return NextResponse.json({ error: "Application not found" }, { status: 404 });
+    }
+
+    const [review, candidates] = await Promise.all([getApplicationReview(id), listReviewCandidates()]);
+
+    return NextResponse.json(
+      {
+        ...review,
+        candidates: candidates.map((c) => ({ id: c.id, name: c.name ?? c.email ?? c.id, role: c.role })),
+        currentUserId: userId,
+      },
+      { headers: { "Cache-Control": "private, no-cache, no-store, must-revalidate" } }
+    );
+  }
+);
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { log } from "@/lib/logger";
+import { auditLog } from "@/lib/audit-logger";
+import { createApiHandler } from "@/lib/api-middleware";
+import { removeReviewer } from "@/lib/application-review";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * DELETE /api/admin/applications/[id]/reviewers/[userId]
+ * Take a reviewer off the panel. A vote they cast still counts.
+ */
+export const DELETE = createApiHandler(
+  {
+    auth: "admin",
+    rateLimit: {
+      key: "admin:applications:reviewers:remove",
+      limit: 30,
+      window: 60,
+      strategy: "sliding-window",
+    },
+  },
+  async (_req, { userId, params }) => {
+    const id = params!["id"]!;
+    const reviewerId = params!["userId"]!;
+
+    if (!(await removeReviewer(id, reviewerId))) {
+      return NextResponse.json({ error: "Not on the review panel" }, { status: 404 });
+    }
+
+    await auditLog({
+      action: "application.reviewer_removed",
+      resourceType: "application",
+      resourceId: id,
+      userId: userId!,
+      details: { reviewerId },
+    });
+
+    log.info("Application reviewer removed", { applicationId: id, reviewerId, userId });
+
+    return NextResponse.json({ ok: true });
+  }
+);
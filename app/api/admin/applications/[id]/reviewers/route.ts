@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { log } from "@/lib/logger";
+import { auditLog } from "@/lib/audit-logger";
+import { createApiHandler } from "@/lib/api-middleware";
+import { assignReviewer } from "@/lib/application-review";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const assignReviewerSchema = z.object({
+  userId: z.string().min(1).max(50),
+});
+
+type AssignReviewerBody = z.infer<typeof assignReviewerSchema>;
+
+const ASSIGN_ERRORS = {
+  application_not_found: { error: "Application not found", status: 404 },
+  not_staff: { error: "Only active staff can review applications", status: 400 },
+  duplicate: { error: "Already on the review panel", status: 409 },
+} as const;
+
+/**
+ * POST /api/admin/applications/[id]/reviewers
+ * Add a staff member to the review panel. They are notified, and a New
+ * application moves to InReview.
+ */
+export const POST = createApiHandler(
+  {
+    auth: "admin",
+    rateLimit: {
+      key: "admin:applications:reviewers:add",
+      limit: 30,
+      window: 60,
+      strategy: "sliding-window",
+    },
+    validateBody: assignReviewerSchema,
+    maxBodySize: 1024,
+  },
+  async (_req, { userId, params, validatedBody }) => {
+    const id = params!["id"]!;
+    const body = validatedBody as AssignReviewerBody;
+
+    const result = await assignReviewer(id, body.userId, userId!);
+    if (!result.ok) {
+      const { error, status } = ASSIGN_ERRORS[result.reason];
+      return NextResponse.json({ error }, { status });
+    }
+
+    await auditLog({
+      action: "application.reviewer_assigned",
+      resourceType: "application",
+      resourceId: id,
+      userId: userId!,
+      details: { reviewerId: body.userId },
+    });
+
+    log.info("Application reviewer assigned", { applicationId: id, reviewerId: body.userId, userId });
+
+    return NextResponse.json({ ok: true }, { status: 201 });
+  }
+);
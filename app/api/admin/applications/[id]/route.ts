@@ -2,9 +2,17 @@ import { NextResponse } from "next/server";
 import { AppRole, AppStatus } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { log } from "@/lib/logger";
-import { logAudit } from "@/lib/audit-logger";
+import { auditLog, logAudit } from "@/lib/audit-logger";
 import { createApiHandler } from "@/lib/api-middleware";
 import { getClientIp, getUserAgent } from "@/lib/middleware/shared";
+import { checkApprovalQuorum, statusChangeData } from "@/lib/application-review";
+import { notifyApplicantOfStatus } from "@/lib/application-emails";
+import {
+  getProvisioningSettings,
+  provisionApplication,
+  ProvisioningBlockedError,
+  type ProvisioningResult,
+} from "@/lib/application-provisioning";
 import {
   validateApplicationName,
   validateApplicationEmail,
@@ -95,6 +103,18 @@ function validateApplicationUpdate(body: Record<string, unknown>): ApplicationVa
 /**
  * PATCH /api/admin/applications/[id]
  * Update an application
+ *
+ * A status change is kept in the status history, with the optional `reason`,
+ * and emails the applicant (a rejection email includes the reason).
+ * Approving needs the review panel's approval quorum; `overrideQuorum: true`
+ * approves anyway and is recorded as such.
+ *
+ * Approving with `provision: true` (the review page's approve bar, after its
+ * preview) also provisions the applicant's staff account and LuckPerms group
+ * (lib/application-provisioning.ts) when it is turned on in settings; quick and
+ * bulk approvals from the list never do. A blocked plan is a 409 and a failed step a 502;
+ * either way nothing is changed. The response carries the provisioning steps
+ * and, for a new account, its one-time temporary password.
  * 
  * Security: Admin authentication and rate limiting handled by middleware
  */
@@ -119,10 +139,86 @@ export const PATCH = createApiHandler(
       return NextResponse.json({ error: validation.error }, { status: 400 });
     }
 
+    const nextStatus = validation.data["status"] as AppStatus | undefined;
+    const reason = typeof body["reason"] === "string" ? body["reason"].trim().slice(0, 500) || null : null;
+    const overrideQuorum = body["overrideQuorum"] === true;
+    let statusChange: { from: AppStatus; to: AppStatus; quorumOverridden: boolean } | null = null;
+    let provisioning: Extract<ProvisioningResult, { success: true }> | null = null;
+
+    if (nextStatus) {
+      const current = await prisma.application.findUnique({ where: { id }, select: { status: true } });
+      if (!current) {
+        return NextResponse.json({ error: "Application not found" }, { status: 404 });
+      }
+
+      if (current.status !== nextStatus) {
+        let quorumOverridden = false;
+        if (nextStatus === "Approved") {
+          const quorum = await checkApprovalQuorum(id);
+          if (!quorum.met && !overrideQuorum) {
+            return NextResponse.json(
+              { error: "The approval quorum has not been met", code: "QUORUM_NOT_MET", quorum },
+              { status: 409 }
+            );
+          }
+          quorumOverridden = !quorum.met;
+        }
+        statusChange = { from: current.status, to: nextStatus, quorumOverridden };
+      }
+    }
+
+    if (statusChange?.to === "Approved" && body["provision"] === true) {
+      const settings = await getProvisioningSettings();
+      if (settings.enabled) {
+        const actor = await prisma.user.findUnique({ where: { id: userId! }, select: { role: true } });
+        try {
+          const result = await provisionApplication(id, actor?.role ?? "USER", settings);
+          if (!result) {
+            return NextResponse.json({ error: "Application not found" }, { status: 404 });
+          }
+          if (!result.success) {
+            await auditLog({
+              action: "application.provisioning_failed",
+              resourceType: "application",
+              resourceId: id,
+              userId: userId!,
+              details: { error: result.error, steps: result.steps },
+              success: false,
+            });
+            return NextResponse.json(
+              { error: `Provisioning failed: ${result.error}`, code: "PROVISIONING_FAILED", steps: result.steps },
+              { status: 502 }
+            );
+          }
+          provisioning = result;
+        } catch (error) {
+          if (error instanceof ProvisioningBlockedError) {
+            return NextResponse.json(
+              { error: error.message, code: "PROVISIONING_BLOCKED", steps: error.plan.steps },
+              { status: 409 }
+            );
+          }
+          throw error;
+        }
+      }
+    }
+
     try {
       const updated = await prisma.application.update({
         where: { id },
-        data: validation.data,
+        data: {
+          ...validation.data,
+          updatedById: userId!,
+          ...(provisioning && { provisionedUserId: provisioning.userId, provisionedAt: new Date() }),
+          ...(statusChange && {
+            statusChanges: {
+              create: statusChangeData(statusChange.from, statusChange.to, userId!, {
+                reason,
+                quorumOverridden: statusChange.quorumOverridden,
+              }),
+            },
+          }),
+        },
         select: {
           id: true,
           name: true,
@@ -150,15 +246,52 @@ export const PATCH = createApiHandler(
         success: true,
       });
 
+      if (statusChange) {
+        await auditLog({
+          action: "application.status_changed",
+          resourceType: "application",
+          resourceId: id,
+          userId: userId!,
+          details: { ...statusChange, reason },
+        });
+        notifyApplicantOfStatus(id, statusChange.to, { reason });
+      }
+
+      if (provisioning) {
+        await auditLog({
+          action: "application.provisioned",
+          resourceType: "application",
+          resourceId: id,
+          userId: userId!,
+          details: { provisionedUserId: provisioning.userId, created: provisioning.created, steps: provisioning.steps },
+        });
+      }
+
       log.info("Application updated", { 
         userId, 
         applicationId: id, 
         fields: Object.keys(validation.data) 
       });
 
-      return NextResponse.json(updated);
+      return NextResponse.json({
+        ...updated,
+        ...(provisioning && {
+          provisioning: {
+            userId: provisioning.userId,
+            created: provisioning.created,
+            temporaryPassword: provisioning.temporaryPassword,
+            steps: provisioning.steps,
+          },
+        }),
+      });
     } catch (error) {
       log.error("Application update failed", { error, applicationId: id, userId });
+
+      // The approval was not saved, so neither is the staff account
+      if (provisioning) {
+        const undone = await provisioning.rollback();
+        log.warn("Application provisioning rolled back", { applicationId: id, steps: undone });
+      }
       
       // Handle Prisma errors
       const err = error as { code?: string };
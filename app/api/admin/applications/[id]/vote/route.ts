@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { log } from "@/lib/logger";
+import { auditLog } from "@/lib/audit-logger";
+import { createApiHandler } from "@/lib/api-middleware";
+import { castVote, REVIEW_VOTES } from "@/lib/application-review";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const voteSchema = z.object({
+  vote: z.enum(REVIEW_VOTES),
+  // Rubric criterion → score
+  scores: z.record(z.string().max(60), z.number().int().min(1).max(5)).optional(),
+  note: z.string().trim().max(500).nullable().optional(),
+});
+
+type VoteBody = z.infer<typeof voteSchema>;
+
+/**
+ * PUT /api/admin/applications/[id]/vote
+ * Cast or change your vote on an application. Voting adds you to the
+ * review panel.
+ */
+export const PUT = createApiHandler(
+  {
+    auth: "admin",
+    rateLimit: {
+      key: "admin:applications:vote",
+      limit: 30,
+      window: 60,
+      strategy: "sliding-window",
+    },
+    validateBody: voteSchema,
+    maxBodySize: 4096,
+  },
+  async (_req, { userId, params, validatedBody }) => {
+    const id = params!["id"]!;
+    const body = validatedBody as VoteBody;
+
+    const application = await prisma.application.findUnique({ where: { id }, select: { status: true } });
+    if (!application) {
+      return NextResponse.json({ error: "Application not found" }, { status: 404 });
+    }
+    if (application.status === "Approved" || application.status === "Rejected") {
+      return NextResponse.json({ error: "Voting is closed on decided applications" }, { status: 409 });
+    }
+
+    const vote = await castVote(id, userId!, {
+      vote: body.vote,
+      ...(body.scores && { scores: body.scores }),
+      note: body.note || null,
+    });
+
+    await auditLog({
+      action: "application.vote_cast",
+      resourceType: "application",
+      resourceId: id,
+      userId: userId!,
+      details: { vote: vote.vote, scores: vote.scores },
+    });
+
+    log.info("Application vote cast", { applicationId: id, vote: vote.vote, userId });
+
+    return NextResponse.json({ vote });
+  }
+);
@@ -0,0 +1,139 @@
+/**
+ * Audit Log API
+ * 
+ * GET /api/admin/audit
+ * Search persisted audit entries (actor, action, target, date range)
+ * 
+ * GET /api/admin/audit?format=csv
+ * Export matching entries as CSV (capped at 5000 rows)
+ * 
+ * Security: Requires system:logs permission, rate limited
+ */
+
+import { log } from "@/lib/logger";
+import * as Sentry from "@sentry/nextjs";
+import { prisma } from "@/lib/prisma";
+import { createApiHandler } from "@/lib/api-middleware";
+import { userHasPermissionAsync } from "@/lib/rbac-server";
+import { getAuditLogs, logDataExported } from "@/lib/audit-logger";
+import { formatDataForExport } from "@/lib/exports";
+import { generateExportResponse, type ExportColumn } from "../export/utils";
+import { jsonOk, jsonError } from "../sessions/response";
+import { auditQuerySchema, AUDIT_CONSTANTS, type AuditQuery } from "./schemas";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Audit log CSV export columns
+ */
+const AUDIT_COLUMNS: ExportColumn[] = [
+  { key: "createdAt", label: "Timestamp" },
+  { key: "action", label: "Action" },
+  { key: "actorEmail", label: "Actor" },
+  { key: "actorId", label: "Actor ID" },
+  { key: "targetType", label: "Target Type" },
+  { key: "targetId", label: "Target ID" },
+  { key: "targetName", label: "Target" },
+  { key: "before", label: "Before" },
+  { key: "after", label: "After" },
+  { key: "details", label: "Details" },
+  { key: "ipAddress", label: "IP Address" },
+  { key: "sessionId", label: "Session ID" },
+  { key: "success", label: "Success" },
+  { key: "error", label: "Error" },
+];
+
+/**
+ * GET /api/admin/audit
+ * 
+ * Returns newest entries first with cursor pagination, or a CSV export
+ * 
+ * Security: system:logs permission check, rate limited
+ */
+export const GET = createApiHandler(
+  {
+    auth: "user",
+    rateLimit: {
+      key: "admin:audit",
+      limit: 60,
+      window: 60,
+      strategy: "sliding-window",
+    },
+    validateQuery: auditQuerySchema,
+  },
+  async (req, { userId, validatedQuery }) => {
+    const startTime = Date.now();
+    const query = validatedQuery as AuditQuery;
+
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId! },
+        select: { role: true, email: true },
+      });
+
+      if (!user || !(await userHasPermissionAsync(user.role, "system:logs"))) {
+        log.warn("Audit log access denied", { userId, role: user?.role });
+        return jsonError(req, "Forbidden: Insufficient permissions", 403);
+      }
+
+      const filters = {
+        actorId: query.actor,
+        action: query.action,
+        targetId: query.targetId,
+        targetType: query.targetType,
+        search: query.search,
+        success: query.success,
+        from: query.from,
+        to: query.to,
+      };
+
+      if (query.format === "csv") {
+        const { entries } = await getAuditLogs({ ...filters, limit: AUDIT_CONSTANTS.MAX_EXPORT_RECORDS });
+        const filename = `audit-log-${new Date().toISOString().split("T")[0]}`;
+
+        const formattedData = formatDataForExport(
+          entries.map((entry) => ({
+            ...entry,
+            before: entry.before ? JSON.stringify(entry.before) : "",
+            after: entry.after ? JSON.stringify(entry.after) : "",
+            details: entry.details ? JSON.stringify(entry.details) : "",
+          }))
+        );
+
+        logDataExported("audit_log", userId!, user.email || "", {
+          format: "csv",
+          recordCount: entries.length,
+          filename,
+        });
+
+        return generateExportResponse({
+          format: "csv",
+          formattedData,
+          filename,
+          columns: AUDIT_COLUMNS,
+          userId: userId!,
+          exportType: "Audit Log",
+        });
+      }
+
+      const { entries, nextCursor } = await getAuditLogs({ ...filters, limit: query.limit, cursor: query.cursor });
+      const duration = Date.now() - startTime;
+
+      log.info("Audit log queried", { userId, count: entries.length, duration });
+
+      return jsonOk(req, { entries, nextCursor }, { headers: { 'X-Response-Time': `${duration}ms` } });
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      log.error("Failed to query audit log", {
+        userId,
+        duration,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      Sentry.captureException(error);
+
+      return jsonError(req, "Failed to fetch audit log", 500);
+    }
+  }
+);
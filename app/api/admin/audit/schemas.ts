@@ -0,0 +1,37 @@
+/**
+ * Validation Schemas for Audit Log API
+ *
+ * Zod schemas for filtering and exporting persisted audit entries
+ */
+
+import { z } from 'zod';
+
+export const AUDIT_CONSTANTS = {
+  DEFAULT_LIMIT: 50,
+  MAX_LIMIT: 200,
+  MAX_EXPORT_RECORDS: 5000,
+} as const;
+
+/**
+ * GET /api/admin/audit query parameters
+ */
+export const auditQuerySchema = z
+  .object({
+    actor: z.string().trim().min(1).max(191).optional(),
+    action: z.string().trim().min(1).max(100).optional(),
+    targetId: z.string().trim().min(1).max(191).optional(),
+    targetType: z.string().trim().min(1).max(50).optional(),
+    search: z.string().trim().min(1).max(255).optional(),
+    success: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    limit: z.coerce.number().int().min(1).max(AUDIT_CONSTANTS.MAX_LIMIT).default(AUDIT_CONSTANTS.DEFAULT_LIMIT),
+    cursor: z.string().trim().min(1).max(191).optional(),
+    format: z.enum(['json', 'csv']).default('json'),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: '"from" must be before "to"',
+    path: ['from'],
+  });
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
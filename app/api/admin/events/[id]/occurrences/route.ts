@@ -0,0 +1,254 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { log } from "@/lib/logger";
+import { auditLog } from "@/lib/audit-logger";
+import { createApiHandler } from "@/lib/api-middleware";
+import { broadcast, CHANNELS } from "@/lib/websocket-server";
+import { cache, cacheTags } from "@/lib/cache";
+import { sanitizeInput, sanitizeDescription } from "@/lib/input-sanitization";
+import { expandEventOccurrences, MAX_OVERRIDE_SHIFT_DAYS, OCCURRENCE_OVERRIDE_SELECT } from "@/lib/recurrence";
+import { notifyStaffOfEventChange } from "@/lib/event-staffing";
+import { EVENT_CONSTANTS } from "../../utils";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_SHIFT_MS = MAX_OVERRIDE_SHIFT_DAYS * 24 * 60 * 60 * 1000;
+
+const occurrenceStartSchema = z.coerce.date();
+
+// PUT replaces the whole override: omitted or null fields keep the series value
+const overrideBodySchema = z
+    .object({
+        occurrenceStart: occurrenceStartSchema,
+        cancelled: z.boolean().default(false),
+        startAt: z.coerce.date().nullable().optional(),
+        endAt: z.coerce.date().nullable().optional(),
+        world: z.string().trim().max(EVENT_CONSTANTS.MAX_WORLD_LENGTH).nullable().optional(),
+        title: z.string().trim().max(EVENT_CONSTANTS.MAX_TITLE_LENGTH).nullable().optional(),
+        shortDescription: z.string().max(300).nullable().optional(),
+        details: z.string().max(EVENT_CONSTANTS.MAX_DETAILS_LENGTH).nullable().optional(),
+    })
+    .refine((data) => !data.startAt || !data.endAt || data.startAt < data.endAt, {
+        message: "End must be after start",
+        path: ["endAt"],
+    })
+    .refine(
+        (data) =>
+            [data.startAt, data.endAt].every(
+                (moved) => !moved || Math.abs(moved.getTime() - data.occurrenceStart.getTime()) <= MAX_SHIFT_MS
+            ),
+        { message: `An occurrence can be moved by at most ${MAX_OVERRIDE_SHIFT_DAYS} days`, path: ["startAt"] }
+    );
+
+const deleteQuerySchema = z.object({
+    occurrenceStart: occurrenceStartSchema,
+});
+
+type OverrideBody = z.infer<typeof overrideBodySchema>;
+type DeleteQuery = z.infer<typeof deleteQuerySchema>;
+
+function isValidEventId(id: string | undefined): id is string {
+    return !!id && id.length <= 50;
+}
+
+/**
+ * Whether the series generates an occurrence at exactly `occurrenceStart`
+ * (overrides are ignored so an already moved occurrence still matches)
+ */
+async function findSeries(id: string, occurrenceStart: Date) {
+    const event = await prisma.event.findUnique({ where: { id } });
+    if (!event) return { event: null, exists: false };
+
+    // Earlier occurrences still running at that time are in the window too
+    const occurrences = expandEventOccurrences({ ...event, overrides: [] }, occurrenceStart, occurrenceStart, 1000);
+    const exists = occurrences.some((o) => o.occurrenceStart.getTime() === occurrenceStart.getTime());
+    return { event, exists };
+}
+
+function optionalText(value: string | null | undefined, max: number): string | null {
+    return value ? sanitizeInput(value, max) || null : null;
+}
+
+function optionalDescription(value: string | null | undefined, max: number): string | null {
+    return value ? sanitizeDescription(value, max) || null : null;
+}
+
+async function afterChange(eventId: string, occurrenceStart: Date, userId: string, action: string, details: Record<string, unknown>) {
+    // The calendar feed publishes overrides as part of the series
+    const { timezone } = await prisma.event.update({
+        where: { id: eventId },
+        data: { sequence: { increment: 1 } },
+        select: { timezone: true },
+    });
+    await cache.invalidateTags(cacheTags.events);
+
+    await auditLog({
+        action,
+        resourceType: "event",
+        resourceId: eventId,
+        userId,
+        details: { occurrenceStart: occurrenceStart.toISOString(), ...details },
+    });
+
+    broadcast("data:event:update", { eventId, changes: { overrides: true } }, {
+        channel: CHANNELS.ADMIN_EVENTS,
+    });
+
+    // Staff working this occurrence (or the whole series)
+    const when = occurrenceStart.toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short", timeZone: timezone });
+    let change = `the ${when} occurrence was changed`;
+    if (action === "event.occurrence_cancelled") change = `the ${when} occurrence was cancelled`;
+    if (action === "event.occurrence_restored") change = `the ${when} occurrence is back on the regular schedule`;
+    await notifyStaffOfEventChange(eventId, change, occurrenceStart);
+}
+
+/**
+ * GET /api/admin/events/[id]/occurrences
+ * List the occurrence overrides of a recurring event
+ */
+export const GET = createApiHandler(
+    {
+        auth: "admin",
+        rateLimit: {
+            key: "admin:events:occurrences:list",
+            limit: 60,
+            window: 60,
+            strategy: "sliding-window",
+        },
+    },
+    async (_req, { params }) => {
+        const id = params!["id"];
+        if (!isValidEventId(id)) {
+            return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
+        }
+
+        const overrides = await prisma.eventOccurrenceOverride.findMany({
+            where: { eventId: id },
+            orderBy: { occurrenceStart: "asc" },
+            select: { id: true, updatedAt: true, ...OCCURRENCE_OVERRIDE_SELECT },
+        });
+
+        return NextResponse.json({ items: overrides });
+    }
+);
+
+/**
+ * PUT /api/admin/events/[id]/occurrences
+ * Cancel, reschedule or edit one occurrence (creates or replaces its override)
+ */
+export const PUT = createApiHandler(
+    {
+        auth: "admin",
+        rateLimit: {
+            key: "admin:events:occurrences:update",
+            limit: 30,
+            window: 60,
+            strategy: "sliding-window",
+        },
+        validateBody: overrideBodySchema,
+        maxBodySize: 100_000, // 100KB max
+    },
+    async (_req, { userId, params, validatedBody }) => {
+        const id = params!["id"];
+        if (!isValidEventId(id)) {
+            return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
+        }
+
+        const body = validatedBody as OverrideBody;
+        const { event, exists } = await findSeries(id, body.occurrenceStart);
+
+        if (!event) {
+            return NextResponse.json({ error: "Event not found" }, { status: 404 });
+        }
+        if (event.recurrenceFreq === "NONE") {
+            return NextResponse.json({ error: "Only recurring events have occurrences" }, { status: 400 });
+        }
+        if (!exists) {
+            return NextResponse.json({ error: "The series has no occurrence at this time" }, { status: 400 });
+        }
+
+        const data = {
+            cancelled: body.cancelled,
+            startAt: body.startAt ?? null,
+            endAt: body.endAt ?? null,
+            world: optionalText(body.world, EVENT_CONSTANTS.MAX_WORLD_LENGTH),
+            title: optionalText(body.title, EVENT_CONSTANTS.MAX_TITLE_LENGTH),
+            shortDescription: optionalDescription(body.shortDescription, 300),
+            details: optionalDescription(body.details, EVENT_CONSTANTS.MAX_DETAILS_LENGTH),
+            updatedById: userId ?? null,
+        };
+
+        const override = await prisma.eventOccurrenceOverride.upsert({
+            where: { eventId_occurrenceStart: { eventId: id, occurrenceStart: body.occurrenceStart } },
+            create: { eventId: id, occurrenceStart: body.occurrenceStart, ...data },
+            update: data,
+            select: { id: true, updatedAt: true, ...OCCURRENCE_OVERRIDE_SELECT },
+        });
+
+        await afterChange(
+            id,
+            body.occurrenceStart,
+            userId!,
+            body.cancelled ? "event.occurrence_cancelled" : "event.occurrence_updated",
+            {
+                title: event.title,
+                changedFields: Object.entries(data)
+                    .filter(([key, value]) => key !== "updatedById" && value !== null && value !== false)
+                    .map(([key]) => key),
+            }
+        );
+
+        log.info("Event occurrence overridden", {
+            eventId: id,
+            occurrenceStart: body.occurrenceStart.toISOString(),
+            cancelled: body.cancelled,
+            userId,
+        });
+
+        return NextResponse.json(override);
+    }
+);
+
+/**
+ * DELETE /api/admin/events/[id]/occurrences?occurrenceStart=ISO
+ * Restore one occurrence to the series schedule and details
+ */
+export const DELETE = createApiHandler(
+    {
+        auth: "admin",
+        rateLimit: {
+            key: "admin:events:occurrences:update",
+            limit: 30,
+            window: 60,
+            strategy: "sliding-window",
+        },
+        validateQuery: deleteQuerySchema,
+    },
+    async (_req, { userId, params, validatedQuery }) => {
+        const id = params!["id"];
+        if (!isValidEventId(id)) {
+            return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
+        }
+
+        const { occurrenceStart } = validatedQuery as DeleteQuery;
+        const { count } = await prisma.eventOccurrenceOverride.deleteMany({
+            where: { eventId: id, occurrenceStart },
+        });
+
+        if (count === 0) {
+            return NextResponse.json({ error: "Override not found" }, { status: 404 });
+        }
+
+        await afterChange(id, occurrenceStart, userId!, "event.occurrence_restored", {});
+
+        log.info("Event occurrence restored", {
+            eventId: id,
+            occurrenceStart: occurrenceStart.toISOString(),
+            userId,
+        });
+
+        return NextResponse.json({ success: true });
+    }
+);
@@ -0,0 +1,157 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { log } from "@/lib/logger";
+import { auditLog } from "@/lib/audit-logger";
+import { createApiHandler } from "@/lib/api-middleware";
+import { broadcast, CHANNELS } from "@/lib/websocket-server";
+import { cache, cacheTags } from "@/lib/cache";
+import { CONFLICT_EVENT_SELECT, findEventConflicts, isEventHost } from "@/lib/event-conflicts";
+import { notifyStaffOfEventChange } from "@/lib/event-staffing";
+import { removeOrphanedOverrides } from "@/lib/event-occurrences";
+import {
+    diffSnapshots,
+    ensureBaselineRevision,
+    findEventRevision,
+    fromSnapshot,
+    getEventSnapshot,
+    NOT_RESTORED_FIELDS,
+    recordEventRevision,
+    toRestoreData,
+    type RevisionField,
+} from "@/lib/event-revisions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const restoreBodySchema = z.object({
+    // Restore even though the restored schedule conflicts with other events
+    overrideConflicts: z.boolean().optional(),
+});
+
+type RestoreBody = z.infer<typeof restoreBodySchema>;
+
+// A restore touching these changes the staff's shifts
+const SCHEDULE_FIELDS: ReadonlySet<RevisionField> = new Set([
+    "world",
+    "startAt",
+    "endAt",
+    "timezone",
+    "recurrenceFreq",
+    "byWeekdayJson",
+    "timesJson",
+    "byMonthDayJson",
+    "exDatesJson",
+    "recurrenceInterval",
+    "recurrenceCount",
+    "byWeekdayPos",
+    "recurrenceUntil",
+]);
+
+/**
+ * POST /api/admin/events/[id]/revisions/[revision]/restore
+ * Put an event back to a previous revision. Status and the publish/archive
+ * schedule stay as they are. The restore is a new revision itself, so it can
+ * be undone the same way.
+ *
+ * Conflicts: a restored schedule overlapping other events returns 409 with
+ * the conflicts; resend with overrideConflicts: true to restore anyway
+ */
+export const POST = createApiHandler(
+    {
+        auth: "admin",
+        rateLimit: {
+            key: "admin:events:revisions:restore",
+            limit: 20,
+            window: 60,
+            strategy: "sliding-window",
+        },
+        validateBody: restoreBodySchema,
+        maxBodySize: 1024,
+    },
+    async (_req, { userId, params, validatedBody }) => {
+        const id = params!["id"];
+        const revision = Number(params!["revision"]);
+        if (!id || id.length > 50 || !Number.isInteger(revision) || revision < 1) {
+            return NextResponse.json({ error: "Invalid event or revision" }, { status: 400 });
+        }
+
+        const body = (validatedBody ?? {}) as RestoreBody;
+
+        const [existing, current, target] = await Promise.all([
+            prisma.event.findUnique({ where: { id }, select: { ...CONFLICT_EVENT_SELECT, status: true } }),
+            getEventSnapshot(id),
+            findEventRevision(id, revision),
+        ]);
+        if (!existing || !current) {
+            return NextResponse.json({ error: "Event not found" }, { status: 404 });
+        }
+        if (!target) {
+            return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+        }
+
+        const changes = diffSnapshots(current, target.snapshot).filter((c) => !NOT_RESTORED_FIELDS.has(c.field));
+        if (changes.length === 0) {
+            return NextResponse.json({ error: "The event already matches this revision" }, { status: 409 });
+        }
+
+        // The host may have left staff since
+        const restored = fromSnapshot(target.snapshot);
+        const hostId = restored.hostId && (await isEventHost(restored.hostId)) ? restored.hostId : null;
+        const hostDropped = !!restored.hostId && !hostId;
+        const fields = { ...restored, hostId };
+
+        const conflicts = existing.status === "Archived"
+            ? []
+            : await findEventConflicts({ ...existing, ...fields }, { excludeEventId: id });
+
+        if (conflicts.length > 0 && !body.overrideConflicts) {
+            return NextResponse.json(
+                { error: "The restored schedule overlaps other events", code: "SCHEDULE_CONFLICT", conflicts },
+                { status: 409 }
+            );
+        }
+
+        await ensureBaselineRevision(id);
+        await prisma.event.update({ where: { id }, data: toRestoreData(fields) });
+        const removedOverrides = await removeOrphanedOverrides(id, userId!);
+        await cache.invalidateTags(cacheTags.events);
+
+        const newRevision = await recordEventRevision(id, userId!, "restored", { restoredFrom: revision });
+        const changedFields = changes.map((c) => c.field);
+
+        await auditLog({
+            action: "event.revision_restored",
+            resourceType: "event",
+            resourceId: id,
+            userId: userId!,
+            details: {
+                title: fields.title,
+                restoredFrom: revision,
+                revision: newRevision,
+                changedFields,
+                ...(hostDropped && { hostDropped: restored.hostId }),
+                ...(conflicts.length > 0 && { conflictsOverridden: conflicts.length }),
+            },
+        });
+
+        broadcast("data:event:update", { eventId: id, changes: { restoredFrom: revision } }, {
+            channel: CHANNELS.ADMIN_EVENTS,
+        });
+
+        if (changedFields.some((field) => SCHEDULE_FIELDS.has(field))) {
+            await notifyStaffOfEventChange(id, "its schedule was restored to an earlier version");
+        }
+
+        log.info("Event revision restored", { eventId: id, restoredFrom: revision, revision: newRevision, userId });
+
+        return NextResponse.json({
+            revision: newRevision,
+            restoredFrom: revision,
+            changedFields,
+            hostDropped,
+            conflicts,
+            removedOverrides: removedOverrides.length,
+        });
+    }
+);
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createApiHandler } from "@/lib/api-middleware";
+import { listEventRevisions } from "@/lib/event-revisions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/admin/events/[id]/revisions
+ * Revision history of an event, newest first, each revision with its
+ * snapshot and the changes since the previous one
+ */
+export const GET = createApiHandler(
+    {
+        auth: "admin",
+        rateLimit: {
+            key: "admin:events:revisions:list",
+            limit: 60,
+            window: 60,
+            strategy: "sliding-window",
+        },
+    },
+    async (_req, { params }) => {
+        const id = params!["id"];
+        if (!id || id.length > 50) {
+            return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
+        }
+
+        const event = await prisma.event.findUnique({ where: { id }, select: { id: true } });
+        if (!event) {
+            return NextResponse.json({ error: "Event not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ items: await listEventRevisions(id) });
+    }
+);
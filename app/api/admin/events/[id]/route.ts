@@ -3,6 +3,10 @@ import { prisma } from "@/lib/prisma";
 import { log } from "@/lib/logger";
 import { logEventUpdated } from "@/lib/audit-logger";
 import { createApiHandler } from "@/lib/api-middleware";
+import { broadcast, CHANNELS } from "@/lib/websocket-server";
+import { cache, cacheTags } from "@/lib/cache";
+import { ensureBaselineRevision, recordEventRevision } from "@/lib/event-revisions";
+import { removeOrphanedOverrides } from "@/lib/event-occurrences";
 import { validateEventUpdate } from "../utils";
 
 export const runtime = "nodejs";
@@ -49,6 +53,11 @@ export const GET = createApiHandler(
                 byWeekdayJson: true,
                 timesJson: true,
                 recurrenceUntil: true,
+                recurrenceInterval: true,
+                recurrenceCount: true,
+                byWeekdayPos: true,
+                byMonthDayJson: true,
+                exDatesJson: true,
                 visibility: true,
                 createdAt: true,
                 updatedAt: true,
@@ -114,11 +123,16 @@ export const PATCH = createApiHandler(
             return NextResponse.json({ error: "Event not found" }, { status: 404 });
         }
 
+        await ensureBaselineRevision(id);
         const updated = await prisma.event.update({
             where: { id },
-            data: validation.data,
+            data: { ...validation.data, sequence: { increment: 1 } },
         });
 
+        const removedOverrides = await removeOrphanedOverrides(id, userId!);
+        await cache.invalidateTags(cacheTags.events);
+        await recordEventRevision(id, userId!, "updated");
+
         // Audit log (note: userId is always string here due to middleware auth)
         logEventUpdated(
             id, 
@@ -126,6 +140,11 @@ export const PATCH = createApiHandler(
             '', // Email not available in middleware context
             Object.keys(validation.data)
         );
+
+        // Push to open admin dashboards
+        broadcast("data:event:update", { eventId: id, changes: validation.data }, {
+            channel: CHANNELS.ADMIN_EVENTS,
+        });
         
         log.info("Event updated successfully", { 
             eventId: id, 
@@ -133,6 +152,7 @@ export const PATCH = createApiHandler(
             fields: Object.keys(validation.data)
         });
 
-        return NextResponse.json(updated);
+        // Overrides of occurrences the new schedule no longer has are gone
+        return NextResponse.json({ ...updated, removedOverrides: removedOverrides.length });
     }
 );
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { log } from "@/lib/logger";
+import { auditLog } from "@/lib/audit-logger";
+import { createApiHandler } from "@/lib/api-middleware";
+import { removeStaffAssignment } from "@/lib/event-staffing";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * DELETE /api/admin/events/[id]/staff/[assignmentId]
+ * Remove an assignment from the roster
+ */
+export const DELETE = createApiHandler(
+    {
+        auth: "admin",
+        rateLimit: {
+            key: "admin:events:staff:remove",
+            limit: 60,
+            window: 60,
+            strategy: "sliding-window",
+        },
+    },
+    async (_req, { userId, params }) => {
+        const id = params!["id"];
+        const assignmentId = params!["assignmentId"];
+        if (!id || id.length > 50 || !assignmentId || assignmentId.length > 50) {
+            return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+        }
+
+        const removed = await removeStaffAssignment(id, assignmentId);
+        if (!removed) {
+            return NextResponse.json({ error: "Assignment not found" }, { status: 404 });
+        }
+
+        await auditLog({
+            action: "event.staff_removed",
+            resourceType: "event",
+            resourceId: id,
+            userId: userId!,
+            details: {
+                assigneeId: removed.userId,
+                role: removed.role,
+                occurrenceStart: removed.occurrenceStart?.toISOString() ?? null,
+            },
+        });
+
+        log.info("Event staff removed", { eventId: id, assignmentId, userId });
+
+        return NextResponse.json({ ok: true });
+    }
+);
@@ -0,0 +1,118 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { log } from "@/lib/logger";
+import { auditLog } from "@/lib/audit-logger";
+import { createApiHandler } from "@/lib/api-middleware";
+import { sanitizeInput } from "@/lib/input-sanitization";
+import { assignStaff, listAssignableOccurrences, listEventStaff } from "@/lib/event-staffing";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const assignBodySchema = z.object({
+    userId: z.string().min(1).max(50),
+    role: z.enum(["Host", "Character", "Security", "Tech"]),
+    // Omitted or null: every occurrence of the event
+    occurrenceStart: z.coerce.date().nullable().optional(),
+    note: z.string().trim().max(300).nullable().optional(),
+});
+
+type AssignBody = z.infer<typeof assignBodySchema>;
+
+const ASSIGN_ERRORS = {
+    event_not_found: { error: "Event not found", status: 404 },
+    not_staff: { error: "Only staff members can be assigned", status: 400 },
+    no_occurrence: { error: "The event has no occurrence at this time", status: 400 },
+    duplicate: { error: "This person already has this role for the occurrence", status: 409 },
+} as const;
+
+function isValidEventId(id: string | undefined): id is string {
+    return !!id && id.length <= 50;
+}
+
+/**
+ * GET /api/admin/events/[id]/staff
+ * Staffing roster of an event, with the upcoming occurrences that can be
+ * staffed individually
+ */
+export const GET = createApiHandler(
+    {
+        auth: "admin",
+        rateLimit: {
+            key: "admin:events:staff:list",
+            limit: 60,
+            window: 60,
+            strategy: "sliding-window",
+        },
+    },
+    async (_req, { params }) => {
+        const id = params!["id"];
+        if (!isValidEventId(id)) {
+            return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
+        }
+
+        const [items, schedule] = await Promise.all([listEventStaff(id), listAssignableOccurrences(id)]);
+        if (!schedule) {
+            return NextResponse.json({ error: "Event not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ items, ...schedule });
+    }
+);
+
+/**
+ * POST /api/admin/events/[id]/staff
+ * Assign a staff member to a role, for the series or one occurrence
+ * (occurrenceStart as generated by the recurrence rule). The assignee is
+ * notified and accepts or declines from their profile.
+ */
+export const POST = createApiHandler(
+    {
+        auth: "admin",
+        rateLimit: {
+            key: "admin:events:staff:assign",
+            limit: 60,
+            window: 60,
+            strategy: "sliding-window",
+        },
+        validateBody: assignBodySchema,
+        maxBodySize: 4096,
+    },
+    async (_req, { userId, params, validatedBody }) => {
+        const id = params!["id"];
+        if (!isValidEventId(id)) {
+            return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
+        }
+
+        const body = validatedBody as AssignBody;
+        const result = await assignStaff({
+            eventId: id,
+            userId: body.userId,
+            role: body.role,
+            occurrenceStart: body.occurrenceStart ?? null,
+            note: body.note ? sanitizeInput(body.note, 300) || null : null,
+            assignedById: userId!,
+        });
+
+        if (!result.ok) {
+            const { error, status } = ASSIGN_ERRORS[result.reason];
+            return NextResponse.json({ error }, { status });
+        }
+
+        await auditLog({
+            action: "event.staff_assigned",
+            resourceType: "event",
+            resourceId: id,
+            userId: userId!,
+            details: {
+                assigneeId: body.userId,
+                role: body.role,
+                occurrenceStart: body.occurrenceStart?.toISOString() ?? null,
+            },
+        });
+
+        log.info("Event staff assigned", { eventId: id, assigneeId: body.userId, role: body.role, userId });
+
+        return NextResponse.json(result.assignment, { status: 201 });
+    }
+);
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { createApiHandler } from "@/lib/api-middleware";
+import { listEventHosts } from "@/lib/event-conflicts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/admin/events/hosts
+ * Staff members that can be assigned as event host
+ *
+ * Security: Admin authentication and rate limiting handled by middleware
+ */
+export const GET = createApiHandler(
+    {
+        auth: "admin",
+        rateLimit: {
+            key: "admin:events:hosts",
+            limit: 60,
+            window: 60,
+            strategy: "sliding-window",
+        },
+    },
+    async () => {
+        const hosts = await listEventHosts();
+        return NextResponse.json({ hosts });
+    }
+);
@@ -0,0 +1,241 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { log } from "@/lib/logger";
+import { auditLog } from "@/lib/audit-logger";
+import { createApiHandler } from "@/lib/api-middleware";
+import { cache, cacheTags } from "@/lib/cache";
+import { getText } from "@/lib/http";
+import { sanitizeInput, sanitizeDescription } from "@/lib/input-sanitization";
+import { MAX_IMPORT_EVENTS, parseICS, toRecurringEvent, type IcsEventDraft } from "@/lib/ics-import";
+import { expandEventOccurrences } from "@/lib/recurrence";
+import { CONFLICT_EVENT_SELECT, firstWorldOverlap } from "@/lib/event-conflicts";
+import { recordEventRevision } from "@/lib/event-revisions";
+import { TimezoneSchema } from "../../../events/schemas";
+import { EVENT_CONSTANTS } from "../utils";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_ICS_BYTES = 1_000_000; // 1MB
+
+// Occurrences compared for conflicts, from now (or the event start) on
+const CONFLICT_WINDOW_DAYS = 90;
+const MAX_CONFLICTS_PER_EVENT = 5;
+
+const importBodySchema = z
+    .object({
+        ics: z.string().max(MAX_ICS_BYTES).optional(),
+        url: z
+            .string()
+            .trim()
+            .max(2000)
+            .regex(/^(https?|webcal):\/\//i, "Calendar URL must start with https://, http:// or webcal://")
+            .optional(),
+        defaultWorld: z.string().trim().min(2).max(EVENT_CONSTANTS.MAX_WORLD_LENGTH),
+        timezone: TimezoneSchema,
+        // Preview only; nothing is created
+        dryRun: z.boolean().default(true),
+        // UIDs to create (default: every event that is not a duplicate)
+        uids: z.array(z.string().max(255)).max(MAX_IMPORT_EVENTS).optional(),
+    })
+    .refine((data) => !!data.ics !== !!data.url, {
+        message: "Provide either an .ics file or a calendar URL",
+        path: ["ics"],
+    });
+
+type ImportBody = z.infer<typeof importBodySchema>;
+
+type Conflict = { eventId: string; title: string; start: Date; end: Date };
+
+async function loadCalendarText(body: ImportBody): Promise<string> {
+    if (body.ics) return body.ics;
+    const url = body.url!.replace(/^webcal:\/\//i, "https://");
+    return getText(url, { timeoutMs: 10_000, maxBytes: MAX_ICS_BYTES });
+}
+
+/**
+ * Existing events in the same world with an occurrence overlapping one of
+ * the draft's in the next CONFLICT_WINDOW_DAYS
+ */
+async function findConflicts(drafts: IcsEventDraft[]): Promise<Map<string, Conflict[]>> {
+    const conflicts = new Map<string, Conflict[]>();
+    const worlds = [...new Set(drafts.map((d) => d.world))];
+    if (worlds.length === 0) return conflicts;
+
+    const existing = await prisma.event.findMany({
+        where: { status: { not: "Archived" }, world: { in: worlds } },
+        select: CONFLICT_EVENT_SELECT,
+        take: 1000,
+    });
+
+    const now = Date.now();
+    for (const draft of drafts) {
+        const from = new Date(Math.max(now, draft.startAt.getTime()));
+        const until = new Date(from.getTime() + CONFLICT_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+        const occurrences = expandEventOccurrences(toRecurringEvent(draft), from, until, 100);
+        const found: Conflict[] = [];
+
+        for (const event of existing) {
+            if (event.world.toLowerCase() !== draft.world.toLowerCase()) continue;
+
+            const pair = firstWorldOverlap(occurrences, expandEventOccurrences(event, from, until, 200));
+            if (pair) {
+                found.push({ eventId: event.id, title: event.title, start: pair[1].start, end: pair[1].end });
+            }
+            if (found.length >= MAX_CONFLICTS_PER_EVENT) break;
+        }
+        if (found.length) conflicts.set(draft.uid, found);
+    }
+    return conflicts;
+}
+
+function toCreateData(draft: IcsEventDraft, userId: string) {
+    return {
+        icalUid: draft.uid,
+        title: sanitizeInput(draft.title, EVENT_CONSTANTS.MAX_TITLE_LENGTH),
+        world: sanitizeInput(draft.world, EVENT_CONSTANTS.MAX_WORLD_LENGTH),
+        shortDescription: draft.shortDescription ? sanitizeDescription(draft.shortDescription, 300) || null : null,
+        details: draft.details ? sanitizeDescription(draft.details, EVENT_CONSTANTS.MAX_DETAILS_LENGTH) || null : null,
+        category: draft.category,
+        status: "Draft" as const,
+        startAt: draft.startAt,
+        endAt: draft.endAt,
+        timezone: draft.timezone,
+        recurrenceFreq: draft.recurrenceFreq,
+        ...(draft.byWeekday && { byWeekdayJson: draft.byWeekday }),
+        ...(draft.times && { timesJson: draft.times }),
+        recurrenceUntil: draft.recurrenceUntil,
+        recurrenceInterval: draft.recurrenceInterval,
+        recurrenceCount: draft.recurrenceCount,
+        byWeekdayPos: draft.byWeekdayPos,
+        ...(draft.byMonthDay && { byMonthDayJson: draft.byMonthDay }),
+        ...(draft.exDates && { exDatesJson: draft.exDates }),
+        createdById: userId,
+        ...(draft.overrides.length > 0 && {
+            overrides: {
+                create: draft.overrides.map((o) => ({
+                    ...o,
+                    title: o.title && sanitizeInput(o.title, EVENT_CONSTANTS.MAX_TITLE_LENGTH),
+                    world: o.world && sanitizeInput(o.world, EVENT_CONSTANTS.MAX_WORLD_LENGTH),
+                    shortDescription: o.shortDescription && (sanitizeDescription(o.shortDescription, 300) || null),
+                    updatedById: userId,
+                })),
+            },
+        }),
+    };
+}
+
+/**
+ * POST /api/admin/events/import
+ * Preview (dryRun) or create draft events from an .ics file or calendar URL
+ *
+ * The preview flags duplicates (an event was already imported with the same
+ * UID) and schedule conflicts with existing events in the same world.
+ * Importing creates the selected events as drafts; duplicates are skipped.
+ */
+export const POST = createApiHandler(
+    {
+        auth: "admin",
+        rateLimit: {
+            key: "admin:events:import",
+            limit: 20,
+            window: 60,
+            strategy: "sliding-window",
+        },
+        validateBody: importBodySchema,
+        maxBodySize: MAX_ICS_BYTES + 100_000,
+    },
+    async (_req, { userId, validatedBody }) => {
+        const body = validatedBody as ImportBody;
+
+        let text: string;
+        try {
+            text = await loadCalendarText(body);
+        } catch (error) {
+            log.warn("Calendar import fetch failed", {
+                url: body.url,
+                userId,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return NextResponse.json({ error: "Could not download the calendar from this URL" }, { status: 502 });
+        }
+
+        const calendar = parseICS(text, { defaultTimezone: body.timezone, defaultWorld: body.defaultWorld });
+
+        const duplicates = await prisma.event.findMany({
+            where: { icalUid: { in: calendar.events.map((e) => e.uid) } },
+            select: { id: true, title: true, icalUid: true },
+        });
+        const duplicateByUid = new Map(duplicates.map((d) => [d.icalUid!, { id: d.id, title: d.title }]));
+
+        if (body.dryRun) {
+            const conflicts = await findConflicts(calendar.events);
+
+            return NextResponse.json({
+                calendarName: calendar.name,
+                warnings: calendar.warnings,
+                // Details and overrides stay out of the preview (only counted)
+                items: calendar.events.map((draft) => ({
+                    ...draft,
+                    details: undefined,
+                    overrides: undefined,
+                    overrideCount: draft.overrides.length,
+                    duplicateOf: duplicateByUid.get(draft.uid) ?? null,
+                    conflicts: conflicts.get(draft.uid) ?? [],
+                })),
+            });
+        }
+
+        const selected = body.uids ? new Set(body.uids) : null;
+        const created: { id: string; uid: string; title: string }[] = [];
+        const skipped: { uid: string; title: string; reason: string }[] = [];
+
+        for (const draft of calendar.events) {
+            if (selected && !selected.has(draft.uid)) continue;
+            if (duplicateByUid.has(draft.uid)) {
+                skipped.push({ uid: draft.uid, title: draft.title, reason: "Already imported" });
+                continue;
+            }
+
+            try {
+                const event = await prisma.event.create({
+                    data: toCreateData(draft, userId!),
+                    select: { id: true, title: true },
+                });
+                created.push({ id: event.id, uid: draft.uid, title: event.title });
+                await recordEventRevision(event.id, userId!, "imported");
+
+                await auditLog({
+                    action: "event.imported",
+                    resourceType: "event",
+                    resourceId: event.id,
+                    userId: userId!,
+                    details: { title: event.title, uid: draft.uid, source: body.url ? "url" : "file" },
+                });
+            } catch (error) {
+                const err = error as { code?: string; message?: string };
+                // Imported by someone else since the preview
+                if (err.code === "P2002") {
+                    skipped.push({ uid: draft.uid, title: draft.title, reason: "Already imported" });
+                    continue;
+                }
+                log.error("Event import failed", { error: err.message, uid: draft.uid, userId });
+                skipped.push({ uid: draft.uid, title: draft.title, reason: "Could not be saved" });
+            }
+        }
+
+        if (created.length > 0) {
+            await cache.invalidateTags(cacheTags.events);
+        }
+
+        log.info("Events imported from calendar", {
+            userId,
+            source: body.url ? "url" : "file",
+            created: created.length,
+            skipped: skipped.length,
+        });
+
+        return NextResponse.json({ created, skipped, warnings: calendar.warnings });
+    }
+);
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { log } from "@/lib/logger";
 import { createApiHandler } from "@/lib/api-middleware";
+import { OCCURRENCE_OVERRIDE_SELECT } from "@/lib/recurrence";
 import { z } from "zod";
 import { buildEventWhereClause } from "./utils";
 
@@ -69,6 +70,16 @@ export const GET = createApiHandler(
                     byWeekdayJson: true,
                     timesJson: true,
                     recurrenceUntil: true,
+                    recurrenceInterval: true,
+                    recurrenceCount: true,
+                    byWeekdayPos: true,
+                    byMonthDayJson: true,
+                    exDatesJson: true,
+                    overrides: { select: OCCURRENCE_OVERRIDE_SELECT },
+                    hostId: true,
+                    publishAt: true,
+                    archiveAt: true,
+                    announceOnPublish: true,
                     shortDescription: true,
                     details: true,
                     createdAt: true,
@@ -3,7 +3,8 @@
  */
 
 import { prisma } from "@/lib/prisma";
-import { getMinecraftServerStatus, getUptimePercentage, getPlayerCountHistory } from "@/lib/minecraft-status";
+import { getNetworkStatus } from "@/lib/server-network";
+import { getDefaultServerAddress, getStatusHistory } from "@/lib/server-status-history";
 import { log } from "@/lib/logger";
 
 // Performance: Timeout for slow database queries
@@ -45,21 +46,35 @@ export function getTrendDateRanges() {
  * Fetch Minecraft server status with error handling
  */
 export async function fetchServerStatus() {
-    const serverAddress = process.env["MINECRAFT_SERVER_ADDRESS"] || "iears.us";
+    let serverAddress = getDefaultServerAddress();
     try {
-        const status = await getMinecraftServerStatus(serverAddress);
+        // Network aggregate plus every server, including those hidden from the public
+        const network = await getNetworkStatus({ includePrivate: true });
+        const { primary } = network;
+        serverAddress = primary.address;
+
+        const history = await getStatusHistory(serverAddress, "24h").catch((error) => {
+            log.warn("Server status history unavailable", {
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return null;
+        });
         return {
             address: serverAddress,
-            online: status.online,
-            version: status.version,
+            online: network.online,
+            version: primary.version,
             players: {
-                online: status.playersOnline || 0,
-                max: status.playersMax || 0
+                online: network.playersOnline,
+                max: network.playersMax
             },
-            latency: status.latency,
-            uptimePercentage: getUptimePercentage(serverAddress),
-            playerHistory: getPlayerCountHistory(serverAddress),
-            error: status.error
+            latency: primary.latency,
+            motd: primary.motd,
+            favicon: primary.favicon,
+            playerSample: primary.playerSample ?? [],
+            uptimePercentage: history?.uptimePercentage ?? null,
+            playerHistory: history?.points ?? [],
+            servers: network.servers,
+            error: primary.error
         };
     } catch (error) {
         log.error("Minecraft server status check failed", { 
@@ -72,6 +87,7 @@ export async function fetchServerStatus() {
             players: { online: 0, max: 0 },
             uptimePercentage: null,
             playerHistory: [],
+            servers: [],
             error: "Unable to connect"
         };
     }
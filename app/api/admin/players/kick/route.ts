@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
 import { createApiHandler } from "@/lib/api-middleware";
-import { validatePlayerName, logPlayerAction, createSuccessResponse } from "../utils";
+import { validatePlayerName, logPlayerAction, createSuccessResponse, runPlayerCommand, PLAYER_COMMANDS } from "../utils";
 import { z } from "zod";
 
 export const runtime = "nodejs";
@@ -14,6 +14,8 @@ const kickSchema = z.object({
  * POST /api/admin/players/kick
  * Kick a player from the Minecraft server
  * 
+ * Sends `kick` over RCON and returns the server's response
+ * 
  * Security: Requires admin authentication, input validation, audit logging
  */
 export const POST = createApiHandler(
@@ -40,21 +42,13 @@ export const POST = createApiHandler(
             );
         }
 
-        // TODO: Implement actual Minecraft server integration
-        // Example using RCON:
-        // const rconClient = await connectRcon(MINECRAFT_SERVER);
-        // await rconClient.send(`kick ${playerName} ${reason || "Kicked by admin"}`);
-        // 
-        // Or using a plugin API:
-        // await fetch(`${MINECRAFT_API}/kick`, {
-        //     method: "POST",
-        //     body: JSON.stringify({ player: playerName, reason: reason || "Kicked by admin" }),
-        // });
+        const { result, error } = await runPlayerCommand("kick", userId!, validated, PLAYER_COMMANDS.kick(validated, reason));
+        if (error) return error;
 
-        logPlayerAction("kick", userId!, validated, { reason });
+        logPlayerAction("kick", userId!, validated, { reason, output: result.output });
 
         return NextResponse.json(
-            createSuccessResponse(`Player ${validated} has been kicked`, validated)
+            createSuccessResponse(`Player ${validated} has been kicked`, validated, result.output)
         );
     }
 );
@@ -1,13 +1,13 @@
 import { NextResponse } from "next/server";
 import { createApiHandler } from "@/lib/api-middleware";
-import { validatePlayerName, logPlayerAction, createSuccessResponse } from "../utils";
+import { validatePlayerName, logPlayerAction, createSuccessResponse, runPlayerCommand, PLAYER_COMMANDS } from "../utils";
 import { z } from "zod";
 
 export const runtime = "nodejs";
 
 const muteSchema = z.object({
   playerName: z.string().min(3).max(16).regex(/^[a-zA-Z0-9_]+$/),
-  duration: z.number().int().positive().optional(),
+  duration: z.number().int().positive().optional(), // Minutes; omit for a permanent mute
   reason: z.string().max(200).optional(),
 });
 
@@ -15,6 +15,8 @@ const muteSchema = z.object({
  * POST /api/admin/players/mute
  * Mute a player on the Minecraft server
  * 
+ * Runs the configured mute command (MINECRAFT_MUTE_COMMAND) over RCON
+ * 
  * Security: Requires admin authentication, input validation, audit logging
  */
 export const POST = createApiHandler(
@@ -41,25 +43,18 @@ export const POST = createApiHandler(
             );
         }
 
-        // TODO: Implement actual Minecraft server integration
-        // Example using RCON:
-        // const rconClient = await connectRcon(MINECRAFT_SERVER);
-        // await rconClient.send(`mute ${playerName} ${duration || 0} ${reason || "Muted by admin"}`);
-        // 
-        // Or using a plugin API:
-        // await fetch(`${MINECRAFT_API}/mute`, {
-        //     method: "POST",
-        //     body: JSON.stringify({ 
-        //         player: playerName,
-        //         duration,
-        //         reason: reason || "Muted by admin"
-        //     }),
-        // });
+        const { result, error } = await runPlayerCommand(
+            "mute",
+            userId!,
+            validated,
+            PLAYER_COMMANDS.mute(validated, duration, reason)
+        );
+        if (error) return error;
 
-        logPlayerAction("mute", userId!, validated, { duration, reason });
+        logPlayerAction("mute", userId!, validated, { duration, reason, output: result.output });
 
         return NextResponse.json(
-            createSuccessResponse(`Player ${validated} has been muted`, validated)
+            createSuccessResponse(`Player ${validated} has been muted`, validated, result.output)
         );
     }
 );
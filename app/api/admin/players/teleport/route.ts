@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { createApiHandler } from "@/lib/api-middleware";
-import { validatePlayerName, logPlayerAction, createSuccessResponse } from "../utils";
+import { prisma } from "@/lib/prisma";
+import { validatePlayerName, logPlayerAction, createSuccessResponse, runPlayerCommand, PLAYER_COMMANDS } from "../utils";
 import { z } from "zod";
 
 export const runtime = "nodejs";
@@ -13,6 +14,8 @@ const teleportSchema = z.object({
  * POST /api/admin/players/teleport
  * Teleport to a player on the Minecraft server
  * 
+ * Teleports the admin's linked Minecraft account (User.minecraftName) over RCON
+ * 
  * Security: Requires admin authentication, input validation, audit logging
  */
 export const POST = createApiHandler(
@@ -39,32 +42,31 @@ export const POST = createApiHandler(
             );
         }
 
-        // TODO: Implement actual Minecraft server integration
-        // Example using RCON:
-        // const adminUsername = session.user?.mcUsername; // You'd need to store this
-        // if (!adminUsername) {
-        //     return NextResponse.json(
-        //         { error: "No Minecraft username linked to your account" },
-        //         { status: 400 }
-        //     );
-        // }
-        // 
-        // const rconClient = await connectRcon(MINECRAFT_SERVER);
-        // await rconClient.send(`tp ${adminUsername} ${playerName}`);
-        // 
-        // Or using a plugin API:
-        // await fetch(`${MINECRAFT_API}/teleport`, {
-        //     method: "POST",
-        //     body: JSON.stringify({ 
-        //         admin: adminUsername, 
-        //         target: playerName 
-        //     }),
-        // });
+        // The admin must be online in-game under their linked Minecraft name
+        const admin = await prisma.user.findUnique({
+            where: { id: userId! },
+            select: { minecraftName: true },
+        });
+        const adminName = validatePlayerName(admin?.minecraftName);
+        if (!adminName) {
+            return NextResponse.json(
+                { error: "No Minecraft username linked to your account" },
+                { status: 400 }
+            );
+        }
+
+        const { result, error } = await runPlayerCommand(
+            "teleport",
+            userId!,
+            validated,
+            PLAYER_COMMANDS.teleport(adminName, validated)
+        );
+        if (error) return error;
 
-        logPlayerAction("teleport", userId!, validated);
+        logPlayerAction("teleport", userId!, validated, { adminName, output: result.output });
 
         return NextResponse.json(
-            createSuccessResponse(`Teleporting to ${validated}...`, validated)
+            createSuccessResponse(`Teleporting to ${validated}...`, validated, result.output)
         );
     }
 );
@@ -2,14 +2,19 @@
  * Shared utilities for player API endpoints
  */
 
+import { NextResponse } from "next/server";
 import { log } from "@/lib/logger";
 import type { Permission } from "@/lib/rbac";
+import { sendRconCommand, RconError, type RconCommandResult, type RconErrorCode } from "@/lib/rcon";
 
 // Constants for player operations
 export const MIN_PLAYER_NAME_LENGTH = 3;
 export const MAX_PLAYER_NAME_LENGTH = 16;
 export const PLAYER_NAME_REGEX = /^[a-zA-Z0-9_]+$/;
 
+// Mute is plugin-specific (Essentials, LiteBans, ...); override with MINECRAFT_MUTE_COMMAND
+const DEFAULT_MUTE_COMMAND = "mute {player} {duration} {reason}";
+
 /**
  * Validate Minecraft player name
  * @param name - Player name to validate
@@ -36,19 +41,19 @@ export function validatePlayerName(name: unknown): string | null {
 /**
  * Log player action for audit trail
  * @param action - Action being performed
- * @param adminName - Admin performing the action
+ * @param adminId - User id of the admin performing the action
  * @param playerName - Target player name
  * @param additionalContext - Additional context for logging
  */
 export function logPlayerAction(
   action: string,
-  adminName: string,
+  adminId: string,
   playerName: string,
   additionalContext?: Record<string, unknown>
 ): void {
   log.info("Player action performed", {
     action,
-    adminName,
+    adminId,
     playerName,
     ...additionalContext,
   });
@@ -58,13 +63,15 @@ export function logPlayerAction(
  * Create success response for player actions
  * @param message - Success message
  * @param playerName - Player name
+ * @param output - Server output for the command, shown in the admin UI
  * @returns Formatted success response
  */
-export function createSuccessResponse(message: string, playerName: string) {
+export function createSuccessResponse(message: string, playerName: string, output?: string) {
   return {
     success: true,
     message,
     playerName,
+    ...(output && { output }),
   };
 }
 
@@ -78,3 +85,93 @@ export const PLAYER_PERMISSIONS = {
   MUTE: "players:write" as Permission,
 } as const;
 
+
+/**
+ * Make free text safe to embed in a single-line server command
+ * Removes control characters and formatting codes, collapses whitespace
+ */
+export function sanitizeCommandArgument(value: string | undefined): string {
+  if (!value) return "";
+  // eslint-disable-next-line no-control-regex
+  return value.replace(/[\u0000-\u001f\u007f§]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Build server commands for player actions
+ */
+export const PLAYER_COMMANDS = {
+  kick: (playerName: string, reason?: string) =>
+    `kick ${playerName} ${sanitizeCommandArgument(reason) || "Kicked by admin"}`,
+
+  mute: (playerName: string, durationMinutes?: number, reason?: string) =>
+    (process.env['MINECRAFT_MUTE_COMMAND'] || DEFAULT_MUTE_COMMAND)
+      // Function replacers so "$&" or "$1" in a reason is inserted literally
+      .replace("{player}", () => playerName)
+      .replace("{duration}", () => (durationMinutes ? `${durationMinutes}m` : ""))
+      .replace("{reason}", () => sanitizeCommandArgument(reason) || "Muted by admin")
+      .replace(/\s+/g, " ")
+      .trim(),
+
+  teleport: (adminName: string, playerName: string) => `tp ${adminName} ${playerName}`,
+} as const;
+
+// HTTP status for each transport failure
+const RCON_ERROR_STATUS: Record<RconErrorCode, number> = {
+  NOT_CONFIGURED: 503,
+  CONNECTION_FAILED: 502,
+  AUTH_FAILED: 502,
+  TIMEOUT: 504,
+  PROTOCOL_ERROR: 502,
+  COMMAND_TOO_LONG: 400,
+};
+
+const RCON_ERROR_MESSAGES: Record<RconErrorCode, string> = {
+  NOT_CONFIGURED: "Minecraft server connection is not configured",
+  CONNECTION_FAILED: "Could not reach the Minecraft server",
+  AUTH_FAILED: "Minecraft server rejected the RCON credentials",
+  TIMEOUT: "Minecraft server did not respond in time",
+  PROTOCOL_ERROR: "Unexpected response from the Minecraft server",
+  COMMAND_TOO_LONG: "Command is too long",
+};
+
+/**
+ * Run a player command over RCON
+ * @returns The command result, or an error response ready to return from the route
+ */
+export async function runPlayerCommand(
+  action: string,
+  adminId: string,
+  playerName: string,
+  command: string
+): Promise<{ result: RconCommandResult; error?: never } | { result?: never; error: NextResponse }> {
+  try {
+    const result = await sendRconCommand(command);
+
+    if (!result.success) {
+      log.warn("Player command rejected by server", { action, adminId, playerName, output: result.output });
+      return {
+        error: NextResponse.json(
+          { error: result.output || `Failed to ${action} player`, output: result.output },
+          { status: 422 }
+        ),
+      };
+    }
+
+    return { result };
+  } catch (error) {
+    const code: RconErrorCode = error instanceof RconError ? error.code : "CONNECTION_FAILED";
+
+    log.error("Player command failed", {
+      action,
+      adminId,
+      playerName,
+      code,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return {
+      // eslint-disable-next-line security/detect-object-injection
+      error: NextResponse.json({ error: RCON_ERROR_MESSAGES[code], code }, { status: RCON_ERROR_STATUS[code] }),
+    };
+  }
+}
@@ -2,7 +2,7 @@
  * Redis Health Check API
  * 
  * GET /api/admin/redis/health
- * Get comprehensive Redis health status and metrics
+ * Get comprehensive Redis health status and metrics, plus application cache hit/miss stats
  * 
  * Security: Owner/Admin only, rate limited
  * Performance: Cached for 10 seconds
@@ -12,6 +12,7 @@ import { NextResponse } from "next/server";
 import { getRedisHealth } from "@/lib/redis-monitor";
 import { createApiHandler } from "@/lib/api-middleware";
 import { log } from "@/lib/logger";
+import { cache } from "@/lib/cache";
 import { checkRedisPermission } from "../utils";
 
 export const runtime = "nodejs";
@@ -66,7 +67,8 @@ export const GET = createApiHandler(
         connectedClients: health.connectedClients,
       });
 
-      return NextResponse.json(health, {
+      // Counters are per instance: they describe this process's reads, whichever backend serves them
+      return NextResponse.json({ ...health, cache: cache.getStats() }, {
         headers: {
           "Cache-Control": `private, s-maxage=${CACHE_SECONDS}, stale-while-revalidate=${CACHE_SECONDS * 2}`,
           "X-Response-Time": `${duration}ms`,
@@ -0,0 +1,244 @@
+/**
+ * Session Policy Override API
+ * 
+ * GET /api/admin/sessions/policies/[scope]/[target]
+ * Fetch the stored policy for a user or role (plus the effective policy for users)
+ * 
+ * PUT /api/admin/sessions/policies/[scope]/[target]
+ * Create or update the policy; null fields inherit from the role/default policy
+ * 
+ * DELETE /api/admin/sessions/policies/[scope]/[target]
+ * Remove the policy so the user/role falls back to inherited rules
+ * 
+ * Security: sessions:view_all to read, sessions:configure_policies to modify, rate limited
+ */
+
+import type { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { log } from "@/lib/logger";
+import * as Sentry from "@sentry/nextjs";
+import { createApiHandler } from "@/lib/api-middleware";
+import { isSystemRole } from "@/lib/rbac";
+import { logAudit, diffForAudit } from "@/lib/audit-logger";
+import {
+  getSessionPolicyRecord,
+  getUserSessionPolicy,
+  upsertSessionPolicy,
+  deleteSessionPolicy,
+  type SessionPolicyScope,
+} from "@/lib/session-policies";
+import { checkSessionsPermission, SESSIONS_PERMISSIONS } from "../../../utils";
+import { jsonOk, jsonError } from "../../../response";
+import { PolicyScopeSchema, sessionPolicyUpdateSchema, type SessionPolicyUpdate } from "../../schemas";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const CONFIGURE_PERMISSION = "sessions:configure_policies";
+
+/**
+ * Helper: Parse and verify the policy target from route params
+ * Returns null when the scope is invalid or the user/role does not exist
+ */
+async function resolveTarget(
+  params: Record<string, string> | undefined
+): Promise<{ scope: SessionPolicyScope; target: string } | null> {
+  const scope = PolicyScopeSchema.safeParse(params?.["scope"]);
+  const target = params?.["target"];
+  if (!scope.success || !target) return null;
+
+  if (scope.data === "user") {
+    const user = await prisma.user.findUnique({ where: { id: target }, select: { id: true } });
+    return user ? { scope: scope.data, target } : null;
+  }
+
+  if (isSystemRole(target)) {
+    return { scope: scope.data, target };
+  }
+
+  const customRole = await prisma.customRole.findUnique({ where: { slug: target }, select: { slug: true } });
+  return customRole ? { scope: scope.data, target } : null;
+}
+
+/**
+ * Helper: Shared error response for handler failures
+ */
+function handleFailure(req: NextRequest, userId: string | undefined, action: string, startTime: number, error: unknown) {
+  log.error(`Failed to ${action} session policy`, {
+    userId,
+    duration: Date.now() - startTime,
+    error: error instanceof Error ? error.message : String(error),
+  });
+  Sentry.captureException(error);
+
+  // Security: Generic error message
+  return jsonError(req, `Failed to ${action} policy`, 500);
+}
+
+/**
+ * GET /api/admin/sessions/policies/[scope]/[target]
+ * 
+ * Security: sessions:view_all permission check, rate limited
+ */
+export const GET = createApiHandler(
+  {
+    auth: "user",
+    rateLimit: {
+      key: "sessions:policies:view",
+      limit: 120,
+      window: 60,
+      strategy: "sliding-window",
+    },
+  },
+  async (req, { userId, params }) => {
+    const startTime = Date.now();
+
+    try {
+      if (!(await checkSessionsPermission(userId!, SESSIONS_PERMISSIONS.VIEW_ALL))) {
+        return jsonError(req, "Forbidden: Insufficient permissions", 403);
+      }
+
+      const resolved = await resolveTarget(params);
+      if (!resolved) {
+        return jsonError(req, "Policy target not found", 404);
+      }
+
+      const policy = await getSessionPolicyRecord(resolved.scope, resolved.target);
+      const effective = resolved.scope === "user" ? await getUserSessionPolicy(resolved.target) : null;
+
+      const duration = Date.now() - startTime;
+      return jsonOk(req, { ...resolved, policy, effective }, { headers: { 'X-Response-Time': `${duration}ms` } });
+    } catch (error) {
+      return handleFailure(req, userId, "fetch", startTime, error);
+    }
+  }
+);
+
+/**
+ * PUT /api/admin/sessions/policies/[scope]/[target]
+ * 
+ * Security: sessions:configure_policies permission check, rate limited, input validated
+ */
+export const PUT = createApiHandler(
+  {
+    auth: "user",
+    rateLimit: {
+      key: "sessions:policies:update",
+      limit: 30, // Max 30 policy updates per hour
+      window: 3600,
+      strategy: "sliding-window",
+    },
+    validateBody: sessionPolicyUpdateSchema,
+    maxBodySize: 20000, // Country and IP lists can be long
+  },
+  async (req, { userId, params, validatedBody }) => {
+    const startTime = Date.now();
+
+    try {
+      if (!(await checkSessionsPermission(userId!, CONFIGURE_PERMISSION))) {
+        return jsonError(req, "Forbidden: Insufficient permissions", 403);
+      }
+
+      const resolved = await resolveTarget(params);
+      if (!resolved) {
+        return jsonError(req, "Policy target not found", 404);
+      }
+
+      const updates = validatedBody as SessionPolicyUpdate;
+      const previous = await getSessionPolicyRecord(resolved.scope, resolved.target);
+      const policy = await upsertSessionPolicy(resolved.scope, resolved.target, updates, userId!);
+      const effective = resolved.scope === "user" ? await getUserSessionPolicy(resolved.target) : null;
+
+      const duration = Date.now() - startTime;
+
+      // Security: Audit log policy changes
+      log.info("Session policy override updated", {
+        userId,
+        scope: resolved.scope,
+        target: resolved.target,
+        fields: Object.keys(updates),
+        duration,
+      });
+
+      logAudit({
+        timestamp: new Date().toISOString(),
+        action: "session_policy.updated",
+        actor: { id: userId! },
+        target: { id: resolved.target, type: `session_policy:${resolved.scope}` },
+        changes: diffForAudit(
+          Object.fromEntries(Object.keys(updates).map((key) => [key, previous?.[key as keyof typeof previous] ?? null])),
+          updates as Record<string, unknown>
+        ),
+        success: true,
+      });
+
+      Sentry.addBreadcrumb({
+        category: "session.policies",
+        message: "Session policy override updated",
+        level: "info",
+        data: { userId, scope: resolved.scope, target: resolved.target },
+      });
+
+      return jsonOk(req, { ...resolved, policy, effective }, { headers: { 'X-Response-Time': `${duration}ms` } });
+    } catch (error) {
+      return handleFailure(req, userId, "update", startTime, error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/sessions/policies/[scope]/[target]
+ * 
+ * Security: sessions:configure_policies permission check, rate limited
+ */
+export const DELETE = createApiHandler(
+  {
+    auth: "user",
+    rateLimit: {
+      key: "sessions:policies:update",
+      limit: 30,
+      window: 3600,
+      strategy: "sliding-window",
+    },
+  },
+  async (req, { userId, params }) => {
+    const startTime = Date.now();
+
+    try {
+      if (!(await checkSessionsPermission(userId!, CONFIGURE_PERMISSION))) {
+        return jsonError(req, "Forbidden: Insufficient permissions", 403);
+      }
+
+      const resolved = await resolveTarget(params);
+      if (!resolved) {
+        return jsonError(req, "Policy target not found", 404);
+      }
+
+      const previous = await getSessionPolicyRecord(resolved.scope, resolved.target);
+      const deleted = await deleteSessionPolicy(resolved.scope, resolved.target);
+      if (!deleted) {
+        return jsonError(req, "Policy not found", 404);
+      }
+
+      logAudit({
+        timestamp: new Date().toISOString(),
+        action: "session_policy.deleted",
+        actor: { id: userId! },
+        target: { id: resolved.target, type: `session_policy:${resolved.scope}` },
+        ...(previous && { changes: { before: previous as unknown as Record<string, unknown> } }),
+        success: true,
+      });
+
+      log.info("Session policy override removed", {
+        userId,
+        scope: resolved.scope,
+        target: resolved.target,
+        duration: Date.now() - startTime,
+      });
+
+      return jsonOk(req, { success: true, ...resolved });
+    } catch (error) {
+      return handleFailure(req, userId, "delete", startTime, error);
+    }
+  }
+);
@@ -0,0 +1,70 @@
+/**
+ * Scoped Session Policies API
+ * 
+ * GET /api/admin/sessions/policies/[scope]
+ * List stored per-user or per-role session policies
+ * 
+ * Security: Requires sessions:view_all permission, rate limited
+ */
+
+import { log } from "@/lib/logger";
+import * as Sentry from "@sentry/nextjs";
+import { createApiHandler } from "@/lib/api-middleware";
+import { listSessionPolicies } from "@/lib/session-policies";
+import { checkSessionsPermission, SESSIONS_PERMISSIONS } from "../../utils";
+import { jsonOk, jsonError } from "../../response";
+import { PolicyScopeSchema } from "../schemas";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/admin/sessions/policies/[scope]
+ * 
+ * Returns all stored policies for the scope ("user" or "role")
+ * 
+ * Security: sessions:view_all permission check, rate limited
+ */
+export const GET = createApiHandler(
+  {
+    auth: "user",
+    rateLimit: {
+      key: "sessions:policies:list",
+      limit: 60,
+      window: 60,
+      strategy: "sliding-window",
+    },
+  },
+  async (req, { userId, params }) => {
+    const startTime = Date.now();
+
+    try {
+      if (!(await checkSessionsPermission(userId!, SESSIONS_PERMISSIONS.VIEW_ALL))) {
+        return jsonError(req, "Forbidden: Insufficient permissions", 403);
+      }
+
+      const scope = PolicyScopeSchema.safeParse(params?.["scope"]);
+      if (!scope.success) {
+        return jsonError(req, "Invalid policy scope", 400);
+      }
+
+      const policies = await listSessionPolicies(scope.data);
+      const duration = Date.now() - startTime;
+
+      log.info("Scoped session policies listed", { userId, scope: scope.data, count: policies.length, duration });
+
+      return jsonOk(req, { scope: scope.data, policies }, { headers: { 'X-Response-Time': `${duration}ms` } });
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      log.error("Failed to list scoped session policies", {
+        userId,
+        duration,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      Sentry.captureException(error);
+
+      return jsonError(req, "Failed to fetch policies", 500);
+    }
+  }
+);
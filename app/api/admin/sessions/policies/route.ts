@@ -7,6 +7,9 @@
  * PUT /api/admin/sessions/policies
  * Update session policies
  * 
+ * Per-user and per-role policy overrides live under
+ * /api/admin/sessions/policies/[scope]/[target]
+ * 
  * Security: Requires appropriate permissions, rate limited
  * Performance: 60-second cache for GET
  */
@@ -0,0 +1,74 @@
+/**
+ * Validation Schemas for Session Policies API
+ *
+ * Zod schemas for per-user and per-role session policy overrides
+ */
+
+import { z } from 'zod';
+import IPCIDR from 'ip-cidr';
+import { isIP } from 'node:net';
+
+/**
+ * Policy scopes: role policies are defaults, user policies override them
+ */
+export const PolicyScopeSchema = z.enum(['user', 'role']);
+
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const IpOrCidrSchema = z
+  .string()
+  .trim()
+  .max(64)
+  .refine((value) => (value.includes('/') ? IPCIDR.isValidCIDR(value) : isIP(value) !== 0), {
+    message: 'Invalid IP address or CIDR range',
+  });
+
+const CountrySchema = z.string().trim().min(2).max(100);
+
+const DeviceTypeSchema = z.enum(['mobile', 'tablet', 'desktop']);
+
+const TimezoneSchema = z
+  .string()
+  .max(64)
+  .refine(
+    (tz) => {
+      try {
+        Intl.DateTimeFormat(undefined, { timeZone: tz });
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: 'Invalid timezone' }
+  );
+
+/**
+ * Policy override update
+ * Every field is optional; null clears the override so the field inherits again.
+ */
+export const sessionPolicyUpdateSchema = z
+  .object({
+    allowedIPs: z.array(IpOrCidrSchema).max(100).nullable(),
+    blockedIPs: z.array(IpOrCidrSchema).max(100).nullable(),
+    allowedCountries: z.array(CountrySchema).max(250).nullable(),
+    blockedCountries: z.array(CountrySchema).max(250).nullable(),
+    allowedDays: z.array(z.number().int().min(0).max(6)).max(7).nullable(),
+    allowedTimeStart: z.string().regex(TIME_REGEX, 'Time must be HH:MM').nullable(),
+    allowedTimeEnd: z.string().regex(TIME_REGEX, 'Time must be HH:MM').nullable(),
+    timezone: TimezoneSchema.nullable(),
+    allowedDeviceTypes: z.array(DeviceTypeSchema).max(3).nullable(),
+    blockedDeviceTypes: z.array(DeviceTypeSchema).max(3).nullable(),
+    // 0 = unlimited, so a user can be exempted from a role's limit
+    maxConcurrentSessions: z.number().int().min(0).max(50).nullable(),
+    requireFingerprintMatch: z.boolean().nullable(),
+    requireStepUpForSensitiveActions: z.boolean().nullable(),
+    autoLogoutOnLocationChange: z.boolean().nullable(),
+    autoLogoutOnIPChange: z.boolean().nullable(),
+    notifyOnNewDevice: z.boolean().nullable(),
+    notifyOnNewLocation: z.boolean().nullable(),
+    notifyOnSuspiciousActivity: z.boolean().nullable(),
+  })
+  .partial()
+  .strict();
+
+export type SessionPolicyUpdate = z.infer<typeof sessionPolicyUpdateSchema>;
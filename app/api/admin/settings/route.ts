@@ -15,7 +15,7 @@ import { createApiHandler } from '@/lib/api-middleware';
 import { sanitizeInput } from '@/lib/input-sanitization';
 import { ensureAppSettings } from '@/lib/migrations/app-settings';
 import crypto from 'node:crypto';
-import { cache } from '@/lib/cache';
+import { cache, cacheKeys, cacheTags, cacheTTL } from '@/lib/cache';
 import { jsonOk, jsonError } from '../sessions/response';
 import { settingsUpdateSchema, type SettingsUpdate } from './schemas';
 
@@ -90,6 +90,7 @@ function copyStructuredData(data: Partial<SettingsUpdate>): Partial<SettingsUpda
   if (data.notifications !== undefined) result.notifications = data.notifications;
   if (data.maintenance !== undefined) result.maintenance = data.maintenance;
   if (data.security !== undefined) result.security = data.security;
+  if (data.minecraft !== undefined) result.minecraft = data.minecraft;
 
   return result;
 }
@@ -138,6 +139,7 @@ const ALLOWED_SETTING_FIELDS = new Set([
   'notifications',
   'maintenance',
   'security',
+  'minecraft',
 ]);
 
 /**
@@ -174,7 +176,7 @@ function computeSettingsDiff(
  * - Rate limited to 120 requests per minute
  * 
  * Performance:
- * - Fast single-record query
+ * - Served from cache, invalidated by PATCH
  * - Auto-creates if not exists
  */
 export const GET = createApiHandler(
@@ -193,8 +195,11 @@ export const GET = createApiHandler(
     try {
       log.info('Settings retrieval requested', { userId });
 
-      // Ensure settings exist and fetch them
-      const settings = await ensureSettingsExist();
+      // Ensure settings exist and fetch them (cached until the next update)
+      const settings = await cache.getOrSet(cacheKeys.settings(), ensureSettingsExist, {
+        ttl: cacheTTL.settings,
+        tags: [cacheTags.settings],
+      });
 
       // ETag support for conditional GET
       const payload = { success: true, data: settings } as const;
@@ -324,6 +329,8 @@ export const PATCH = createApiHandler(
         data: sanitizedUpdates as any,
       });
 
+      await cache.invalidateTags(cacheTags.settings);
+
       const duration = Date.now() - startTime;
 
       // Performance: Log slow operations
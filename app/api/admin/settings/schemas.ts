@@ -7,6 +7,8 @@
 import { z } from 'zod';
 import IPCIDR from 'ip-cidr';
 import { SITE_TZ } from '@/app/utils/timezone-client';
+import { DEFAULT_EMAIL_TEMPLATES, EmailTemplatesSchema } from '@/lib/validation/application-email';
+import { DEFAULT_PROVISIONING_SETTINGS, ProvisioningSettingsSchema } from '@/lib/validation/application-provisioning';
 
 /**
  * Hex color validation
@@ -118,12 +120,26 @@ export const eventsSchema = z.object({
   times: z.array(z.string()).optional(),
 });
 
+const cooldownDaysSchema = z.number().int().min(0).max(365);
+
 /**
  * Applications settings schema
  */
 export const applicationsSchema = z.object({
   turnstileSiteKey: z.string().max(200).optional(),
   allowApplications: z.boolean().optional(),
+  // Approve votes an application needs before it can be approved (0: no vote needed)
+  approvalQuorum: z.number().int().min(0).max(10).optional(),
+  // Criteria reviewers score from 1 to 5
+  reviewRubric: z.array(z.string().trim().min(1).max(60)).max(10).optional(),
+  // Emails sent to applicants (lib/validation/application-email.ts)
+  emailTemplates: EmailTemplatesSchema.optional(),
+  // Staff account and LuckPerms group set up on approval (lib/validation/application-provisioning.ts)
+  provisioning: ProvisioningSettingsSchema.optional(),
+  // Days someone rejected for a role waits before applying for it again (0: no wait)
+  reapplyCooldownDays: z
+    .object({ Developer: cooldownDaysSchema, GuestServices: cooldownDaysSchema, Imaginear: cooldownDaysSchema })
+    .optional(),
 });
 
 /**
@@ -192,6 +208,49 @@ export const securitySchema = z.object({
   requireEmailVerification: z.boolean().optional(),
 });
 
+/**
+ * Minecraft server registry entry
+ */
+const minecraftServerSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-z0-9-]{1,32}$/, 'Use 1-32 lowercase letters, digits or dashes'),
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  address: z
+    .string()
+    .trim()
+    .regex(/^[a-zA-Z0-9.:-]{1,255}$/, 'Must be a host or host:port'),
+  role: z.enum(['proxy', 'backend']),
+  edition: z.enum(['java', 'bedrock']).optional(),
+  public: z.boolean(),
+  enabled: z.boolean(),
+});
+
+/**
+ * Minecraft server status settings schema
+ */
+export const minecraftSchema = z.object({
+  statusProvider: z.enum(['native', 'mcstatus']).optional(),
+  edition: z.enum(['java', 'bedrock']).optional(),
+  timeoutMs: z
+    .number()
+    .int()
+    .min(1000, 'Must be at least 1000ms')
+    .max(15000, 'Must not exceed 15000ms')
+    .optional(),
+  servers: z
+    .array(minecraftServerSchema)
+    .max(20, 'At most 20 servers')
+    .refine((servers) => new Set(servers.map((server) => server.id)).size === servers.length, {
+      message: 'Server IDs must be unique',
+    })
+    .refine((servers) => servers.filter((server) => server.role === 'proxy').length <= 1, {
+      message: 'Only one server can be the proxy',
+    })
+    .optional(),
+  publicStatusPage: z.boolean().optional(),
+});
+
 /**
  * Full settings update schema
  */
@@ -216,6 +275,7 @@ export const settingsUpdateSchema = z.object({
   notifications: notificationsSchema.optional(),
   maintenance: maintenanceSchema.optional(),
   security: securitySchema.optional(),
+  minecraft: minecraftSchema.optional(),
 });
 
 /**
@@ -231,6 +291,7 @@ export type FeaturesSettings = z.infer<typeof featuresSchema>;
 export type NotificationsSettings = z.infer<typeof notificationsSchema>;
 export type MaintenanceSettings = z.infer<typeof maintenanceSchema>;
 export type SecuritySettings = z.infer<typeof securitySchema>;
+export type MinecraftSettings = z.infer<typeof minecraftSchema>;
 
 /**
  * Default values for settings
@@ -250,7 +311,15 @@ export const SETTINGS_DEFAULTS = {
     byWeekday: [] as string[],
     times: [] as string[],
   },
-  applications: { turnstileSiteKey: '', allowApplications: true },
+  applications: {
+    turnstileSiteKey: '',
+    allowApplications: true,
+    approvalQuorum: 0,
+    reviewRubric: ['Experience', 'Communication', 'Team fit'],
+    emailTemplates: DEFAULT_EMAIL_TEMPLATES,
+    provisioning: DEFAULT_PROVISIONING_SETTINGS,
+    reapplyCooldownDays: { Developer: 30, GuestServices: 30, Imaginear: 30 },
+  },
   social: {
     twitter: '',
     instagram: '',
@@ -285,5 +354,12 @@ export const SETTINGS_DEFAULTS = {
     maxRequestsPerMinute: 60,
     requireEmailVerification: false,
   },
+  minecraft: {
+    statusProvider: 'native' as const,
+    edition: 'java' as const,
+    timeoutMs: 5000,
+    servers: [],
+    publicStatusPage: false,
+  },
 };
 
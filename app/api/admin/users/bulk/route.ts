@@ -18,9 +18,10 @@ import { prisma } from '@/lib/prisma';
 import { log } from '@/lib/logger';
 import { auditLog } from '@/lib/audit-logger';
 import { createApiHandler } from '@/lib/api-middleware';
-import { checkPermission } from '@/lib/role-security';
+import { checkPermission, canModifyUser } from '@/lib/role-security';
 import { jsonOk, jsonError } from '@/app/api/admin/sessions/response';
 import { cache } from '@/lib/cache';
+import { suspendUser, liftSuspension } from '@/lib/user-suspension';
 import {
   bulkUserOperationSchema,
   type BulkUserOperation,
@@ -37,7 +38,9 @@ export const dynamic = 'force-dynamic';
 function getActionDescription(operation: BulkUserOperation): string {
   switch (operation.operation) {
     case BulkOperation.SUSPEND:
-      return 'Will be suspended';
+      return operation.suspendedUntil
+        ? `Will be suspended until ${operation.suspendedUntil.toISOString()}`
+        : 'Will be suspended';
     case BulkOperation.ACTIVATE:
       return 'Will be activated';
     case BulkOperation.CHANGE_ROLE:
@@ -84,27 +87,27 @@ function aggregateBulkResults(
 
 /**
  * Helper: Process suspend operation
+ * Revokes sessions and deactivates API keys (see lib/user-suspension.ts)
  */
-async function processSuspend(userId: string, email: string): Promise<void> {
-  // In production, add a suspended field to user table
-  // await prisma.user.update({
-  //   where: { id: userId },
-  //   data: { suspended: true },
-  // });
+async function processSuspend(
+  userId: string,
+  email: string,
+  actorId: string,
+  reason: string,
+  until?: Date
+): Promise<void> {
+  const result = await suspendUser({ userId, reason, suspendedById: actorId, until: until ?? null });
   
-  log.info('User suspended (placeholder)', { userId, email });
+  log.info('User suspended', { userId, email, until, ...result });
 }
 
 /**
  * Helper: Process activate operation
  */
-async function processActivate(userId: string, email: string): Promise<void> {
-  // await prisma.user.update({
-  //   where: { id: userId },
-  //   data: { suspended: false },
-  // });
+async function processActivate(userId: string, email: string, actorId: string): Promise<void> {
+  const result = await liftSuspension(userId, actorId);
   
-  log.info('User activated (placeholder)', { userId, email });
+  log.info('User activated', { userId, email, ...result });
 }
 
 /**
@@ -162,13 +165,15 @@ async function processSendEmail(
  */
 async function processUserOperation(
   email: string,
-  operation: BulkUserOperation
+  operation: BulkUserOperation,
+  actorId: string,
+  actorRole: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
     // Find user by email
     const targetUser = await prisma.user.findUnique({
       where: { email },
-      select: { id: true, email: true, name: true, role: true },
+      select: { id: true, email: true, name: true, role: true, suspendedAt: true },
     });
 
     if (!targetUser) {
@@ -178,14 +183,36 @@ async function processUserOperation(
       };
     }
 
+    if (operation.operation === BulkOperation.SUSPEND && targetUser.id === actorId) {
+      return { success: false, error: `Cannot suspend your own account: ${email}` };
+    }
+
+    // Same role hierarchy as suspending a single user from the staff page
+    if (
+      (operation.operation === BulkOperation.SUSPEND || operation.operation === BulkOperation.ACTIVATE) &&
+      !canModifyUser(actorRole, targetUser.role, targetUser.id === actorId)
+    ) {
+      return { success: false, error: `You don't have permission to modify ${targetUser.role} user: ${email}` };
+    }
+
+    if (operation.operation === BulkOperation.ACTIVATE && !targetUser.suspendedAt) {
+      return { success: false, error: `User is not suspended: ${email}` };
+    }
+
     // Process based on operation type
     switch (operation.operation) {
       case BulkOperation.SUSPEND:
-        await processSuspend(targetUser.id, email);
+        await processSuspend(
+          targetUser.id,
+          email,
+          actorId,
+          operation.reason ?? 'Suspended via bulk operation',
+          operation.suspendedUntil
+        );
         break;
 
       case BulkOperation.ACTIVATE:
-        await processActivate(targetUser.id, email);
+        await processActivate(targetUser.id, email, actorId);
         break;
 
       case BulkOperation.CHANGE_ROLE:
@@ -293,6 +320,14 @@ export const POST = createApiHandler(
       if (prior?.response) return jsonOk(_req, prior.response, { headers: { 'X-Idempotent-Replay': '1' } });
     }
 
+    if (
+      operation.operation === BulkOperation.SUSPEND &&
+      operation.suspendedUntil &&
+      operation.suspendedUntil <= new Date()
+    ) {
+      return jsonError(_req, 'Suspension end date must be in the future', 400);
+    }
+
     // Dry run mode - preview without executing
     if (operation.dryRun) {
       const preview = operation.users.map((email) => ({ email, action: getActionDescription(operation) }));
@@ -303,7 +338,14 @@ export const POST = createApiHandler(
 
       // Process all users in parallel for performance
       // Using Promise.allSettled to handle all operations and collect results
-    const results = await Promise.allSettled(operation.users.map((email) => processUserOperation(email, operation)));
+    const actor = await prisma.user.findUnique({ where: { id: userId! }, select: { role: true } });
+    if (!actor) {
+      return jsonError(_req, 'User not found', 404);
+    }
+
+    const results = await Promise.allSettled(
+      operation.users.map((email) => processUserOperation(email, operation, userId!, actor.role))
+    );
     const aggregated = aggregateBulkResults(results, operation);
 
     const duration = Date.now() - startTime;
@@ -56,6 +56,13 @@ const baseBulkOperationSchema = z.object({
  */
 export const suspendOperationSchema = baseBulkOperationSchema.extend({
   operation: z.literal(BulkOperation.SUSPEND),
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'Suspension reason cannot be empty')
+    .max(500, 'Suspension reason cannot exceed 500 characters')
+    .optional(),
+  suspendedUntil: z.coerce.date().optional(), // Omit for an indefinite suspension
 });
 
 /**
@@ -106,6 +106,8 @@ export const GET = createApiHandler(
             uniqueVisitors: e.uniqueVisitors,
             totalClicks: e.totalClicks,
             favoriteCount: e.favoriteCount,
+            expectedAttendance: e.expectedAttendance,
+            actualAttendance: e.actualAttendance,
           })),
         },
         {
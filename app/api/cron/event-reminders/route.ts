@@ -0,0 +1,97 @@
+/**
+ * Cron Event Reminders API
+ * 
+ * GET /api/cron/event-reminders
+ * Notifies users about upcoming occurrences of events they favorited
+ * with a reminder
+ * 
+ * Security: Bearer token authentication, no rate limiting (cron only)
+ * 
+ * For Vercel Cron, add to vercel.json:
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/event-reminders",
+ *     "schedule": "*\/5 * * * *"
+ *   }]
+ * }
+ */
+
+import { NextResponse } from 'next/server';
+import { log } from '@/lib/logger';
+import { createApiHandler } from '@/lib/api-middleware';
+import { sendDueEventReminders } from '@/lib/event-favorites';
+
+export const runtime = 'nodejs';
+
+/**
+ * Helper: Verify cron secret from Authorization header
+ */
+function verifyCronSecret(authHeader: string | null): boolean {
+  const cronSecret = process.env['CRON_SECRET'];
+
+  // Security: Require CRON_SECRET to be set in production
+  if (!cronSecret || cronSecret === 'your-secret-key-here') {
+    log.error('CRON_SECRET not properly configured');
+    return false;
+  }
+
+  return authHeader === `Bearer ${cronSecret}`;
+}
+
+/**
+ * GET /api/cron/event-reminders
+ * 
+ * Reminders go out when an occurrence is within the favorite's lead time,
+ * so the schedule interval is how late a reminder can be.
+ * 
+ * Authorization:
+ * - Header: Authorization: Bearer <CRON_SECRET>
+ */
+export const GET = createApiHandler(
+  {
+    auth: 'none', // Custom auth via Bearer token
+    // Note: No rate limiting for cron endpoints (handled by cron service)
+  },
+  async (req) => {
+    const startTime = Date.now();
+
+    try {
+      const authHeader = req.headers.get('authorization');
+
+      if (!verifyCronSecret(authHeader)) {
+        log.warn('Unauthorized cron event reminders attempt', {
+          authHeader: authHeader ? 'present' : 'missing',
+          ip: req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip'),
+        });
+
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+
+      const result = await sendDueEventReminders();
+      const duration = Date.now() - startTime;
+
+      log.info('Event reminders sent', { duration, ...result });
+
+      return NextResponse.json(
+        { success: true, ...result },
+        { headers: { 'X-Response-Time': `${duration}ms` } }
+      );
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      log.error('Failed to send event reminders', {
+        duration,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      return NextResponse.json(
+        { success: false, error: 'Failed to send event reminders' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,96 @@
+/**
+ * Cron Suspensions API
+ * 
+ * GET /api/cron/suspensions
+ * Lifts timed user suspensions whose end date has passed
+ * 
+ * Security: Bearer token authentication, no rate limiting (cron only)
+ * 
+ * For Vercel Cron, add to vercel.json:
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/suspensions",
+ *     "schedule": "*\/15 * * * *"
+ *   }]
+ * }
+ */
+
+import { NextResponse } from 'next/server';
+import { log } from '@/lib/logger';
+import { createApiHandler } from '@/lib/api-middleware';
+import { liftExpiredSuspensions } from '@/lib/user-suspension';
+
+export const runtime = 'nodejs';
+
+/**
+ * Helper: Verify cron secret from Authorization header
+ */
+function verifyCronSecret(authHeader: string | null): boolean {
+  const cronSecret = process.env['CRON_SECRET'];
+
+  // Security: Require CRON_SECRET to be set in production
+  if (!cronSecret || cronSecret === 'your-secret-key-here') {
+    log.error('CRON_SECRET not properly configured');
+    return false;
+  }
+
+  return authHeader === `Bearer ${cronSecret}`;
+}
+
+/**
+ * GET /api/cron/suspensions
+ * 
+ * Expired suspensions are also lifted lazily at sign-in and API key use;
+ * this sweep keeps the staff table and API key state current.
+ * 
+ * Authorization:
+ * - Header: Authorization: Bearer <CRON_SECRET>
+ */
+export const GET = createApiHandler(
+  {
+    auth: 'none', // Custom auth via Bearer token
+    // Note: No rate limiting for cron endpoints (handled by cron service)
+  },
+  async (req) => {
+    const startTime = Date.now();
+
+    try {
+      const authHeader = req.headers.get('authorization');
+
+      if (!verifyCronSecret(authHeader)) {
+        log.warn('Unauthorized cron suspensions attempt', {
+          authHeader: authHeader ? 'present' : 'missing',
+          ip: req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip'),
+        });
+
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+
+      const result = await liftExpiredSuspensions();
+      const duration = Date.now() - startTime;
+
+      log.info('Expired suspensions lifted', { duration, ...result });
+
+      return NextResponse.json(
+        { success: true, ...result },
+        { headers: { 'X-Response-Time': `${duration}ms` } }
+      );
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      log.error('Failed to lift expired suspensions', {
+        duration,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      return NextResponse.json(
+        { success: false, error: 'Failed to lift expired suspensions' },
+        { status: 500 }
+      );
+    }
+  }
+);
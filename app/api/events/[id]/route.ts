@@ -12,6 +12,11 @@ import { triggerWebhook, WEBHOOK_EVENTS } from '@/lib/webhooks';
 import { log } from '@/lib/logger';
 import { sanitizeInput, sanitizeDescription } from '@/lib/input-sanitization';
 import { auditLog } from '@/lib/audit-logger';
+import { cache, cacheTags } from '@/lib/cache';
+import { CONFLICT_EVENT_SELECT, findEventConflicts, isEventHost, type ConflictCandidate } from '@/lib/event-conflicts';
+import { notifyStaffOfEventChange } from '@/lib/event-staffing';
+import { ensureBaselineRevision, recordEventRevision } from '@/lib/event-revisions';
+import { removeOrphanedOverrides } from '@/lib/event-occurrences';
 import { Prisma } from '@prisma/client';
 import {
   EventIdSchema,
@@ -30,7 +35,8 @@ async function logUpdateAudit(
   userId: string,
   updated: { title: string; status: string },
   existing: { status: string },
-  changedFields: string[]
+  changedFields: string[],
+  conflictsOverridden: number
 ): Promise<boolean> {
   // Log update
   await auditLog({
@@ -42,6 +48,7 @@ async function logUpdateAudit(
       title: updated.title,
       changedFields,
       newStatus: updated.status,
+      ...(conflictsOverridden > 0 && { conflictsOverridden }),
     },
   });
 
@@ -182,10 +189,131 @@ function processBasicFields(
     updateData.recurrenceUntil = data.recurrenceUntil;
     changedFields.push('recurrenceUntil');
   }
+
+  if (data.recurrenceInterval !== undefined) {
+    updateData.recurrenceInterval = data.recurrenceInterval;
+    changedFields.push('recurrenceInterval');
+  }
+
+  if (data.recurrenceCount !== undefined) {
+    updateData.recurrenceCount = data.recurrenceCount;
+    changedFields.push('recurrenceCount');
+  }
+
+  if (data.byWeekdayPos !== undefined) {
+    updateData.byWeekdayPos = data.byWeekdayPos;
+    changedFields.push('byWeekdayPos');
+  }
+}
+
+/**
+ * Helper: Process the assigned host
+ */
+function processHostField(
+  data: UpdateEventInput,
+  updateData: Prisma.EventUpdateInput,
+  changedFields: string[]
+): void {
+  if (data.hostId !== undefined) {
+    updateData.host = data.hostId ? { connect: { id: data.hostId } } : { disconnect: true };
+    changedFields.push('hostId');
+  }
+}
+
+/**
+ * Helper: Process the automatic publish/archive schedule
+ */
+function processPublishingFields(
+  data: UpdateEventInput,
+  updateData: Prisma.EventUpdateInput,
+  changedFields: string[]
+): void {
+  if (data.publishAt !== undefined) {
+    updateData.publishAt = data.publishAt;
+    changedFields.push('publishAt');
+  }
+
+  if (data.archiveAt !== undefined) {
+    updateData.archiveAt = data.archiveAt;
+    changedFields.push('archiveAt');
+  }
+
+  if (data.announceOnPublish !== undefined) {
+    updateData.announceOnPublish = data.announceOnPublish;
+    changedFields.push('announceOnPublish');
+  }
+}
+
+/**
+ * Helper: The event as it will be after the update, for the conflict check
+ */
+function toConflictCandidate(existing: ConflictCandidate, data: UpdateEventInput): ConflictCandidate {
+  return {
+    ...existing,
+    ...(data.world !== undefined && { world: sanitizeInput(data.world, 100) }),
+    ...(data.startAt !== undefined && { startAt: data.startAt }),
+    ...(data.endAt !== undefined && { endAt: data.endAt }),
+    ...(data.timezone !== undefined && { timezone: data.timezone }),
+    ...(data.recurrenceFreq !== undefined && { recurrenceFreq: data.recurrenceFreq }),
+    ...(data.recurrenceUntil !== undefined && { recurrenceUntil: data.recurrenceUntil }),
+    ...(data.recurrenceInterval !== undefined && { recurrenceInterval: data.recurrenceInterval }),
+    ...(data.recurrenceCount !== undefined && { recurrenceCount: data.recurrenceCount }),
+    ...(data.byWeekdayPos !== undefined && { byWeekdayPos: data.byWeekdayPos }),
+    ...(data.byWeekday !== undefined && { byWeekdayJson: data.byWeekday }),
+    ...(data.times !== undefined && { timesJson: data.times }),
+    ...(data.byMonthDay !== undefined && { byMonthDayJson: data.byMonthDay }),
+    ...(data.exDates !== undefined && { exDatesJson: data.exDates }),
+    ...(data.hostId !== undefined && { hostId: data.hostId }),
+  };
+}
+
+/**
+ * Helper: Everything that decides when, where and with whom the event takes
+ * place; the conflict check only runs when this changes
+ */
+function scheduleKey(event: ConflictCandidate): string {
+  const list = (value: unknown) => (Array.isArray(value) && value.length > 0 ? value : null);
+  return JSON.stringify([
+    event.world.toLowerCase(),
+    event.startAt,
+    event.endAt,
+    event.timezone,
+    event.recurrenceFreq,
+    event.recurrenceUntil,
+    event.recurrenceInterval ?? 1,
+    event.recurrenceCount ?? null,
+    event.byWeekdayPos ?? null,
+    list(event.byWeekdayJson),
+    list(event.timesJson),
+    list(event.byMonthDayJson),
+    list(event.exDatesJson),
+    event.hostId ?? null,
+  ]);
+}
+
+/**
+ * Helper: What changed for the event's staff, or null when their shifts are unaffected
+ */
+function describeStaffChange(
+  existing: ConflictCandidate & { status: string },
+  candidate: ConflictCandidate,
+  status: string
+): string | null {
+  if (status === 'Archived' && existing.status !== 'Archived') return 'it was archived';
+
+  const changes: string[] = [];
+  if (candidate.world.toLowerCase() !== existing.world.toLowerCase()) {
+    changes.push(`it moved to ${candidate.world}`);
+  }
+  const schedule = (event: ConflictCandidate) => scheduleKey({ ...event, world: '', hostId: null });
+  if (schedule(candidate) !== schedule(existing)) {
+    changes.push('its schedule was updated');
+  }
+  return changes.length > 0 ? changes.join(' and ') : null;
 }
 
 /**
- * Helper: Process JSON fields (byWeekday, times)
+ * Helper: Process JSON fields (byWeekday, times, byMonthDay, exDates)
  */
 function processJsonFields(
   data: UpdateEventInput,
@@ -209,6 +337,24 @@ function processJsonFields(
     }
     changedFields.push('times');
   }
+
+  if (data.byMonthDay !== undefined) {
+    if (data.byMonthDay === null) {
+      updateData.byMonthDayJson = Prisma.JsonNull;
+    } else {
+      updateData.byMonthDayJson = data.byMonthDay;
+    }
+    changedFields.push('byMonthDay');
+  }
+
+  if (data.exDates !== undefined) {
+    if (data.exDates === null) {
+      updateData.exDatesJson = Prisma.JsonNull;
+    } else {
+      updateData.exDatesJson = data.exDates;
+    }
+    changedFields.push('exDates');
+  }
 }
 
 /**
@@ -225,6 +371,13 @@ function buildUpdateData(data: UpdateEventInput): {
   processDescriptionFields(data, updateData, changedFields);
   processBasicFields(data, updateData, changedFields);
   processJsonFields(data, updateData, changedFields);
+  processHostField(data, updateData, changedFields);
+  processPublishingFields(data, updateData, changedFields);
+
+  // Subscribed calendars (/api/events/feed) only take an edit with a higher SEQUENCE
+  if (changedFields.length > 0) {
+    updateData.sequence = { increment: 1 };
+  }
 
   return { updateData, changedFields };
 }
@@ -247,6 +400,10 @@ function buildUpdateData(data: UpdateEventInput): {
  * - Optimized database writes
  * - Async webhook trigger (fire-and-forget)
  * 
+ * Conflicts: When the schedule, world or host changes, overlaps with other
+ * events return 409 with the conflicts; resend with overrideConflicts: true
+ * to save anyway
+ * 
  * Audit: Logs event updates with changed fields
  */
 export const PATCH = createApiHandler(
@@ -295,7 +452,7 @@ export const PATCH = createApiHandler(
     // Check if event exists
     const existing = await prisma.event.findUnique({
       where: { id },
-      select: { id: true, status: true },
+      select: { ...CONFLICT_EVENT_SELECT, status: true },
     });
 
     if (!existing) {
@@ -303,10 +460,43 @@ export const PATCH = createApiHandler(
       return NextResponse.json({ error: 'Event not found' }, { status: 404 });
     }
 
+    if (data.hostId && !(await isEventHost(data.hostId))) {
+      return NextResponse.json({ error: 'Host must be a staff member' }, { status: 400 });
+    }
+
     // Build update data (only include provided fields)
     const { updateData, changedFields } = buildUpdateData(data);
 
-    // Perform the update
+    // A draft with a publish time is scheduled; clearing the time makes it a draft again
+    if (data.publishAt && (data.status ?? existing.status) === 'Draft') {
+      updateData.status = 'Scheduled';
+      if (!changedFields.includes('status')) changedFields.push('status');
+    } else if (data.publishAt === null && !data.status && existing.status === 'Scheduled') {
+      updateData.status = 'Draft';
+      changedFields.push('status');
+    }
+
+    // Scheduling conflicts block the update unless explicitly overridden
+    const candidate = toConflictCandidate(existing, data);
+    const checkSchedule =
+      (data.status ?? existing.status) !== 'Archived' &&
+      (existing.status === 'Archived' || scheduleKey(candidate) !== scheduleKey(existing));
+    const conflicts = checkSchedule ? await findEventConflicts(candidate, { excludeEventId: id }) : [];
+
+    if (conflicts.length > 0 && !data.overrideConflicts) {
+      log.info('Event update blocked by scheduling conflicts', {
+        userId,
+        eventId: id,
+        conflicts: conflicts.length,
+      });
+      return NextResponse.json(
+        { error: 'This event overlaps other events', code: 'SCHEDULE_CONFLICT', conflicts },
+        { status: 409 }
+      );
+    }
+
+    // Perform the update (kept in the revision history, see lib/event-revisions.ts)
+    await ensureBaselineRevision(id);
     const updated = await prisma.event.update({
       where: { id },
       data: updateData,
@@ -322,8 +512,16 @@ export const PATCH = createApiHandler(
       },
     });
 
+    // Overrides are keyed by the generated start; drop those the new schedule no longer has
+    const scheduleChanged = scheduleKey(candidate) !== scheduleKey(existing);
+    const removedOverrides = scheduleChanged ? await removeOrphanedOverrides(id, userId) : [];
+
+    // Drop every cached event listing (events:*) so readers see the change immediately
+    await cache.invalidateTags(cacheTags.events);
+    await recordEventRevision(id, userId, 'updated');
+
     // Audit log and check if published
-    const wasPublished = await logUpdateAudit(id, userId, updated, existing, changedFields);
+    const wasPublished = await logUpdateAudit(id, userId, updated, existing, changedFields, conflicts.length);
 
     log.info('Event updated successfully', {
       eventId: id,
@@ -335,6 +533,12 @@ export const PATCH = createApiHandler(
     // Trigger webhook (async, fire-and-forget)
     triggerUpdateWebhook(wasPublished, updated, userId);
 
+    // Tell assigned staff when their shifts move
+    const staffChange = describeStaffChange(existing, candidate, updated.status);
+    if (staffChange) {
+      await notifyStaffOfEventChange(id, staffChange);
+    }
+
     return NextResponse.json(
       {
         id: updated.id,
@@ -345,6 +549,8 @@ export const PATCH = createApiHandler(
         startAt: updated.startAt.toISOString(),
         endAt: updated.endAt.toISOString(),
         updatedAt: updated.updatedAt.toISOString(),
+        conflicts,
+        removedOverrides: removedOverrides.length,
       },
       {
         headers: {
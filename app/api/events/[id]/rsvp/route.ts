@@ -0,0 +1,123 @@
+/**
+ * Event RSVP API
+ *
+ * GET /api/events/[id]/rsvp - Upcoming occurrences with RSVP counts
+ * POST /api/events/[id]/rsvp - RSVP to an occurrence
+ * DELETE /api/events/[id]/rsvp?occurrenceStart= - Cancel an RSVP
+ */
+
+import { NextResponse } from 'next/server';
+import { createApiHandler } from '@/lib/api-middleware';
+import { log } from '@/lib/logger';
+import { cancelRsvp, listOccurrenceRsvps, rsvpToOccurrence } from '@/lib/event-attendance';
+import { EventIdSchema, RsvpSchema, type RsvpInput } from '../../schemas';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const RSVP_ERRORS = {
+  not_found: { error: 'Event not found', status: 404 },
+  no_occurrence: { error: 'The event has no occurrence at that time', status: 400 },
+  ended: { error: 'This occurrence has already ended', status: 409 },
+} as const;
+
+/**
+ * GET /api/events/[id]/rsvp
+ *
+ * Returns the next occurrences with how many are going and whether the
+ * signed-in user is.
+ */
+export const GET = createApiHandler(
+  {
+    auth: 'user',
+    rateLimit: {
+      key: 'events:rsvp:list',
+      limit: 60,
+      window: 60,
+      strategy: 'sliding-window',
+    },
+  },
+  async (_req, { userId, params }) => {
+    const idResult = EventIdSchema.safeParse(params);
+    if (!idResult.success) {
+      return NextResponse.json({ error: 'Invalid event ID format' }, { status: 400 });
+    }
+
+    const occurrences = await listOccurrenceRsvps(idResult.data.id, userId!);
+    if (!occurrences) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ occurrences });
+  }
+);
+
+/**
+ * POST /api/events/[id]/rsvp
+ *
+ * Body: { occurrenceStart }
+ * RSVPing twice to the same occurrence is a no-op.
+ */
+export const POST = createApiHandler(
+  {
+    auth: 'user',
+    rateLimit: {
+      key: 'events:rsvp:write',
+      limit: 30,
+      window: 60,
+      strategy: 'sliding-window',
+    },
+    maxBodySize: 1024,
+    validateBody: RsvpSchema,
+  },
+  async (_req, { userId, params, validatedBody }) => {
+    const idResult = EventIdSchema.safeParse(params);
+    if (!idResult.success) {
+      return NextResponse.json({ error: 'Invalid event ID format' }, { status: 400 });
+    }
+    const eventId = idResult.data.id;
+    const { occurrenceStart } = validatedBody as RsvpInput;
+
+    const result = await rsvpToOccurrence(userId!, eventId, occurrenceStart);
+    if (!result.ok) {
+      const { error, status } = RSVP_ERRORS[result.reason];
+      return NextResponse.json({ error }, { status });
+    }
+
+    log.info('Event RSVP added', { userId, eventId, occurrenceStart: occurrenceStart.toISOString() });
+    return NextResponse.json({ ok: true }, { status: 201 });
+  }
+);
+
+/**
+ * DELETE /api/events/[id]/rsvp?occurrenceStart=
+ *
+ * Cancelling an RSVP that does not exist succeeds (idempotent).
+ */
+export const DELETE = createApiHandler(
+  {
+    auth: 'user',
+    rateLimit: {
+      key: 'events:rsvp:write',
+      limit: 30,
+      window: 60,
+      strategy: 'sliding-window',
+    },
+    validateQuery: RsvpSchema,
+  },
+  async (_req, { userId, params, validatedQuery }) => {
+    const idResult = EventIdSchema.safeParse(params);
+    if (!idResult.success) {
+      return NextResponse.json({ error: 'Invalid event ID format' }, { status: 400 });
+    }
+    const eventId = idResult.data.id;
+    const { occurrenceStart } = validatedQuery as RsvpInput;
+
+    const removed = await cancelRsvp(userId!, eventId, occurrenceStart);
+    if (removed) {
+      log.info('Event RSVP cancelled', { userId, eventId, occurrenceStart: occurrenceStart.toISOString() });
+    }
+
+    return NextResponse.json({ ok: true });
+  }
+);
@@ -0,0 +1,80 @@
+/**
+ * Single Event Favorite API
+ *
+ * PATCH /api/events/favorites/[eventId] - Turn the reminder on/off
+ * DELETE /api/events/favorites/[eventId] - Remove the favorite
+ */
+
+import { NextResponse } from 'next/server';
+import { createApiHandler } from '@/lib/api-middleware';
+import { log } from '@/lib/logger';
+import { removeEventFavorite, setFavoriteReminder } from '@/lib/event-favorites';
+import {
+  FavoriteEventIdParamSchema,
+  UpdateFavoriteSchema,
+  type UpdateFavoriteInput,
+} from '../../schemas';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * PATCH /api/events/favorites/[eventId]
+ *
+ * Body: { remindMinutesBefore: 15 | 30 | 60 | 180 | 1440 | null }
+ */
+export const PATCH = createApiHandler(
+  {
+    auth: 'user',
+    rateLimit: {
+      key: 'events:favorites:write',
+      limit: 60,
+      window: 60,
+      strategy: 'sliding-window',
+    },
+    maxBodySize: 1024,
+    validateBody: UpdateFavoriteSchema,
+  },
+  async (_req, { userId, params, validatedBody }) => {
+    const idResult = FavoriteEventIdParamSchema.safeParse(params);
+    if (!idResult.success) {
+      return NextResponse.json({ error: 'Invalid event ID format' }, { status: 400 });
+    }
+    const { eventId } = idResult.data;
+    const { remindMinutesBefore } = validatedBody as UpdateFavoriteInput;
+
+    const updated = await setFavoriteReminder(userId!, eventId, remindMinutesBefore);
+    if (!updated) {
+      return NextResponse.json({ error: 'Favorite not found' }, { status: 404 });
+    }
+
+    log.info('Event reminder updated', { userId, eventId, remindMinutesBefore });
+    return NextResponse.json({ ok: true, remindMinutesBefore });
+  }
+);
+
+/**
+ * DELETE /api/events/favorites/[eventId]
+ *
+ * Removing a favorite that does not exist succeeds (idempotent).
+ */
+export const DELETE = createApiHandler(
+  {
+    auth: 'user',
+    rateLimit: {
+      key: 'events:favorites:write',
+      limit: 60,
+      window: 60,
+      strategy: 'sliding-window',
+    },
+  },
+  async (_req, { userId, params }) => {
+    const idResult = FavoriteEventIdParamSchema.safeParse(params);
+    if (!idResult.success) {
+      return NextResponse.json({ error: 'Invalid event ID format' }, { status: 400 });
+    }
+
+    await removeEventFavorite(userId!, idResult.data.eventId);
+    return NextResponse.json({ ok: true });
+  }
+);
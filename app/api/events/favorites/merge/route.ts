@@ -0,0 +1,36 @@
+/**
+ * POST /api/events/favorites/merge
+ *
+ * Merges favorites saved on a device (localStorage) into the account.
+ * Called by the first sync after sign-in (lib/favorites.ts) with the guest
+ * list; returns the account's complete list so the device can replace its
+ * local copy. Later syncs read GET /api/events/favorites instead.
+ */
+
+import { NextResponse } from 'next/server';
+import { createApiHandler } from '@/lib/api-middleware';
+import { mergeEventFavorites } from '@/lib/event-favorites';
+import { MergeFavoritesSchema, type MergeFavoritesInput } from '../../schemas';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export const POST = createApiHandler(
+  {
+    auth: 'user',
+    rateLimit: {
+      key: 'events:favorites:merge',
+      limit: 10,
+      window: 60,
+      strategy: 'sliding-window',
+    },
+    maxBodySize: 4096,
+    validateBody: MergeFavoritesSchema,
+  },
+  async (_req, { userId, validatedBody }) => {
+    const { eventIds } = validatedBody as MergeFavoritesInput;
+
+    const merged = await mergeEventFavorites(userId!, eventIds);
+    return NextResponse.json({ eventIds: merged });
+  }
+);
@@ -0,0 +1,80 @@
+/**
+ * Event Favorites API
+ *
+ * GET /api/events/favorites - List the signed-in user's favorite events
+ * POST /api/events/favorites - Favorite an event
+ */
+
+import { NextResponse } from 'next/server';
+import { createApiHandler } from '@/lib/api-middleware';
+import { log } from '@/lib/logger';
+import { getNotificationPreferences } from '@/lib/notifications';
+import { addEventFavorite, listEventFavorites } from '@/lib/event-favorites';
+import { AddFavoriteSchema, type AddFavoriteInput } from '../schemas';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/events/favorites
+ *
+ * Returns favorites with their next occurrence and reminder setting.
+ * remindersEnabled reflects the "eventReminders" notification preference;
+ * when off, no reminders are sent regardless of the per-event setting.
+ */
+export const GET = createApiHandler(
+  {
+    auth: 'user',
+    rateLimit: {
+      key: 'events:favorites:list',
+      limit: 60,
+      window: 60,
+      strategy: 'sliding-window',
+    },
+  },
+  async (_req, { userId }) => {
+    const [favorites, preferences] = await Promise.all([
+      listEventFavorites(userId!),
+      getNotificationPreferences(userId!),
+    ]);
+
+    return NextResponse.json({
+      favorites,
+      remindersEnabled: preferences.inAppEnabled && preferences.eventReminders,
+    });
+  }
+);
+
+/**
+ * POST /api/events/favorites
+ *
+ * Body: { eventId, remindMinutesBefore? }
+ * Favoriting an event twice is a no-op (the reminder is updated when given).
+ */
+export const POST = createApiHandler(
+  {
+    auth: 'user',
+    rateLimit: {
+      key: 'events:favorites:write',
+      limit: 60,
+      window: 60,
+      strategy: 'sliding-window',
+    },
+    maxBodySize: 1024,
+    validateBody: AddFavoriteSchema,
+  },
+  async (_req, { userId, validatedBody }) => {
+    const { eventId, remindMinutesBefore } = validatedBody as AddFavoriteInput;
+
+    const result = await addEventFavorite(userId!, eventId, remindMinutesBefore);
+    if (!result.ok) {
+      if (result.reason === 'limit') {
+        return NextResponse.json({ error: 'Favorite limit reached' }, { status: 409 });
+      }
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+    }
+
+    log.info('Event favorited', { userId, eventId });
+    return NextResponse.json({ ok: true }, { status: 201 });
+  }
+);
@@ -0,0 +1,113 @@
+/**
+ * iCalendar Subscription Feed
+ *
+ * GET /api/events/feed - Published events as an RFC 5545 calendar (subscribe via webcal://)
+ */
+
+import { NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { createApiHandler } from '@/lib/api-middleware';
+import { cache, cacheKeys, cacheTags, cacheTTL } from '@/lib/cache';
+import { buildCalendarFeed } from '@/lib/calendar-feed';
+import { OCCURRENCE_OVERRIDE_SELECT } from '@/lib/recurrence';
+import { CalendarFeedQuerySchema, type CalendarFeedQuery } from '../schemas';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_FEED_EVENTS = 500;
+
+// Archived events stay in the feed as CANCELLED this long, so subscribers drop them
+const ARCHIVED_GRACE_DAYS = 30;
+
+async function loadFeed(query: CalendarFeedQuery): Promise<string> {
+  const now = new Date();
+  const archivedSince = new Date(now.getTime() - ARCHIVED_GRACE_DAYS * 24 * 60 * 60 * 1000);
+
+  const where: Prisma.EventWhereInput = {
+    OR: [{ status: 'Published' }, { status: 'Archived', updatedAt: { gte: archivedSince } }],
+    ...(query.category && { category: query.category }),
+    ...(query.world && { world: query.world }),
+  };
+
+  const events = await prisma.event.findMany({
+    where,
+    orderBy: { startAt: 'asc' },
+    take: MAX_FEED_EVENTS,
+    select: {
+      id: true,
+      title: true,
+      world: true,
+      category: true,
+      status: true,
+      shortDescription: true,
+      startAt: true,
+      endAt: true,
+      timezone: true,
+      recurrenceFreq: true,
+      byWeekdayJson: true,
+      timesJson: true,
+      recurrenceUntil: true,
+      recurrenceInterval: true,
+      recurrenceCount: true,
+      byWeekdayPos: true,
+      byMonthDayJson: true,
+      exDatesJson: true,
+      overrides: { select: OCCURRENCE_OVERRIDE_SELECT },
+      sequence: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+
+  const siteUrl = process.env['NEXT_PUBLIC_SITE_URL']?.trim().replace(/\/$/, '') || 'http://localhost:3000';
+  const scope = [query.category, query.world].filter(Boolean).join(' · ');
+
+  return buildCalendarFeed(events, {
+    name: scope ? `Imaginears Club Events (${scope})` : 'Imaginears Club Events',
+    description: 'Shows, parades and meet & greets at Imaginears Club',
+    baseUrl: siteUrl,
+    now,
+  });
+}
+
+/**
+ * GET /api/events/feed
+ *
+ * Security: Public endpoint (no auth required), published events only
+ * Performance: Cached per filter until an event changes
+ *
+ * Query params:
+ * - category: Only this event category
+ * - world: Only events in this world
+ */
+export const GET = createApiHandler(
+  {
+    auth: 'none',
+    rateLimit: {
+      key: 'events:feed',
+      limit: 60,
+      window: 60,
+      strategy: 'sliding-window',
+    },
+    validateQuery: CalendarFeedQuerySchema,
+  },
+  async (_req, { validatedQuery }) => {
+    const query = validatedQuery as CalendarFeedQuery;
+
+    const body = await cache.getOrSet(cacheKeys.calendarFeed(query), () => loadFeed(query), {
+      ttl: cacheTTL.events,
+      tags: [cacheTags.events],
+    });
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="imaginears-events.ics"',
+        'Cache-Control': 'public, max-age=300',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  }
+);
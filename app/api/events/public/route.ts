@@ -10,6 +10,7 @@ import { requireApiKey } from '@/lib/api-keys';
 import { createApiHandler } from '@/lib/api-middleware';
 import { log } from '@/lib/logger';
 import { sanitizeInput } from '@/lib/input-sanitization';
+import { cache, cacheKeys, cacheTags, cacheTTL } from '@/lib/cache';
 import type { Prisma } from '@prisma/client';
 import { PublicEventsQuerySchema, type PublicEventsQuery } from '../schemas';
 
@@ -28,7 +29,7 @@ export const runtime = 'nodejs';
  * 
  * Performance:
  * - Cursor-based pagination
- * - Cached (60s with stale-while-revalidate)
+ * - Cached (60s with stale-while-revalidate, plus the shared events cache)
  * - Selective field fetching
  * 
  * Query params:
@@ -84,32 +85,41 @@ export const GET = createApiHandler(
       where.category = query.category;
     }
 
-    // Fetch events
-    const events = await prisma.event.findMany({
-      where,
-      take: query.limit,
-      ...(cursor && { skip: 1, cursor: { id: cursor } }),
-      orderBy: { startAt: 'asc' },
-      select: {
-        id: true,
-        title: true,
-        world: true,
-        shortDescription: true,
-        details: true,
-        category: true,
-        visibility: true,
-        startAt: true,
-        endAt: true,
-        status: true,
-        timezone: true,
-        recurrenceFreq: true,
-        byWeekdayJson: true,
-        timesJson: true,
-        recurrenceUntil: true,
-        createdAt: true,
-        updatedAt: true,
-      },
-    });
+    // Fetch events (cached per query until an event changes)
+    const events = await cache.getOrSet(
+      cacheKeys.publicEvents({ ...query, cursor }),
+      () => prisma.event.findMany({
+        where,
+        take: query.limit,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+        orderBy: { startAt: 'asc' },
+        select: {
+          id: true,
+          title: true,
+          world: true,
+          shortDescription: true,
+          details: true,
+          category: true,
+          visibility: true,
+          startAt: true,
+          endAt: true,
+          status: true,
+          timezone: true,
+          recurrenceFreq: true,
+          byWeekdayJson: true,
+          timesJson: true,
+          recurrenceUntil: true,
+          recurrenceInterval: true,
+          recurrenceCount: true,
+          byWeekdayPos: true,
+          byMonthDayJson: true,
+          exDatesJson: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      }),
+      { ttl: cacheTTL.events, tags: [cacheTags.events] }
+    );
 
     const nextCursor = events.length === query.limit ? events[events.length - 1]?.id : null;
 
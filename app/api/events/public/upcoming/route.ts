@@ -7,7 +7,7 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { EventStatus } from '@prisma/client';
-import { expandEventOccurrences } from '@/lib/recurrence';
+import { expandEventOccurrences, OCCURRENCE_OVERRIDE_SELECT } from '@/lib/recurrence';
 import { addDays } from 'date-fns';
 import { createApiHandler } from '@/lib/api-middleware';
 import { UpcomingEventsQuerySchema, type UpcomingEventsQuery } from '../../schemas';
@@ -78,6 +78,12 @@ export const GET = createApiHandler(
         byWeekdayJson: true,
         timesJson: true,
         recurrenceUntil: true,
+        recurrenceInterval: true,
+        recurrenceCount: true,
+        byWeekdayPos: true,
+        byMonthDayJson: true,
+        exDatesJson: true,
+        overrides: { select: OCCURRENCE_OVERRIDE_SELECT },
         visibility: true,
         createdById: true,
         updatedById: true,
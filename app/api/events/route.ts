@@ -13,6 +13,9 @@ import { triggerWebhook, WEBHOOK_EVENTS } from '@/lib/webhooks';
 import { log } from '@/lib/logger';
 import { sanitizeInput, sanitizeDescription } from '@/lib/input-sanitization';
 import { auditLog } from '@/lib/audit-logger';
+import { cache, cacheKeys, cacheTags, cacheTTL } from '@/lib/cache';
+import { findEventConflicts, isEventHost } from '@/lib/event-conflicts';
+import { recordEventRevision } from '@/lib/event-revisions';
 import type { Prisma } from '@prisma/client';
 import {
   ListEventsQuerySchema,
@@ -36,7 +39,8 @@ function prepareEventData(data: CreateEventInput) {
       : null,
     details: data.details ? sanitizeDescription(data.details, 50000) || null : null,
     category: data.category,
-    status: data.status,
+    // A draft with a publish time is scheduled
+    status: data.publishAt && data.status === 'Draft' ? ('Scheduled' as const) : data.status,
     startAt: data.startAt,
     endAt: data.endAt,
     timezone: data.timezone,
@@ -44,16 +48,42 @@ function prepareEventData(data: CreateEventInput) {
     ...(data.byWeekday && { byWeekdayJson: data.byWeekday }),
     ...(data.times && { timesJson: data.times }),
     recurrenceUntil: data.recurrenceUntil || null,
+    recurrenceInterval: data.recurrenceInterval ?? 1,
+    recurrenceCount: data.recurrenceCount ?? null,
+    byWeekdayPos: data.byWeekdayPos ?? null,
+    ...(data.byMonthDay && { byMonthDayJson: data.byMonthDay }),
+    ...(data.exDates && { exDatesJson: data.exDates }),
+    hostId: data.hostId ?? null,
+    publishAt: data.publishAt ?? null,
+    archiveAt: data.archiveAt ?? null,
+    announceOnPublish: data.announceOnPublish ?? false,
   };
 }
 
+/**
+ * Helper: Conflicts of the new event with existing ones (archived events are not checked)
+ */
+async function checkConflicts(data: ReturnType<typeof prepareEventData>) {
+  if (data.status === 'Archived') return [];
+
+  return findEventConflicts({
+    ...data,
+    id: '',
+    byWeekdayJson: data.byWeekdayJson ?? null,
+    timesJson: data.timesJson ?? null,
+    byMonthDayJson: data.byMonthDayJson ?? null,
+    exDatesJson: data.exDatesJson ?? null,
+  });
+}
+
 /**
  * Helper: Log audit event for creation
  */
 async function logCreationAudit(
   userId: string,
   created: { id: string; title: string; world: string },
-  sanitizedData: { category: string; status: string }
+  sanitizedData: { category: string; status: string },
+  conflictsOverridden: number
 ): Promise<void> {
   await auditLog({
     action: 'event.created',
@@ -65,6 +95,7 @@ async function logCreationAudit(
       category: sanitizedData.category,
       status: sanitizedData.status,
       world: created.world,
+      ...(conflictsOverridden > 0 && { conflictsOverridden }),
     },
   });
 }
@@ -96,13 +127,52 @@ function triggerCreationWebhook(
   );
 }
 
+/**
+ * Helper: Fetch one page of events with the total count
+ */
+async function listEvents(where: Prisma.EventWhereInput, skip: number, take: number) {
+  const [totalCount, events] = await Promise.all([
+    prisma.event.count({ where }),
+    prisma.event.findMany({
+      where,
+      skip,
+      take,
+      orderBy: { updatedAt: 'desc' },
+      select: {
+        id: true,
+        title: true,
+        world: true,
+        category: true,
+        status: true,
+        startAt: true,
+        endAt: true,
+        timezone: true,
+        recurrenceFreq: true,
+        byWeekdayJson: true,
+        timesJson: true,
+        recurrenceUntil: true,
+        recurrenceInterval: true,
+        recurrenceCount: true,
+        byWeekdayPos: true,
+        byMonthDayJson: true,
+        exDatesJson: true,
+        shortDescription: true,
+        details: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    }),
+  ]);
+  return { totalCount, events };
+}
+
 /**
  * GET /api/events
  * 
  * List events with pagination and filtering
  * 
  * Security: Public endpoint (no auth required)
- * Performance: Paginated, cached (60s), parallel count+query
+ * Performance: Paginated, cached (5 min, invalidated on event writes), parallel count+query
  * 
  * Query params:
  * - page: Page number (default: 1)
@@ -131,37 +201,20 @@ export const GET = createApiHandler(
 
     const skip = (query.page - 1) * query.limit;
 
-    // Performance: Run count and query in parallel
-    const [total, items] = await Promise.allSettled([
-      prisma.event.count({ where }),
-      prisma.event.findMany({
-        where,
-        skip,
-        take: query.limit,
-        orderBy: { updatedAt: 'desc' },
-        select: {
-          id: true,
-          title: true,
-          world: true,
-          category: true,
-          status: true,
-          startAt: true,
-          endAt: true,
-          timezone: true,
-          recurrenceFreq: true,
-          byWeekdayJson: true,
-          timesJson: true,
-          recurrenceUntil: true,
-          shortDescription: true,
-          details: true,
-          createdAt: true,
-          updatedAt: true,
-        },
-      }),
-    ]);
-
-    const totalCount = total.status === 'fulfilled' ? total.value : 0;
-    const events = items.status === 'fulfilled' ? items.value : [];
+    // Performance: Run count and query in parallel; shared through the cache until an event changes
+    let totalCount = 0;
+    let events: Awaited<ReturnType<typeof listEvents>>['events'] = [];
+    try {
+      ({ totalCount, events } = await cache.getOrSet(
+        cacheKeys.events(query),
+        () => listEvents(where, skip, query.limit),
+        { ttl: cacheTTL.events, tags: [cacheTags.events] }
+      ));
+    } catch (error) {
+      log.error('Failed to list events', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
     const totalPages = Math.ceil(totalCount / query.limit);
 
     return NextResponse.json(
@@ -203,6 +256,10 @@ export const GET = createApiHandler(
  * - Optimized database writes
  * - Async webhook trigger (fire-and-forget)
  * 
+ * Conflicts: Occurrences overlapping other events in the same world or
+ * with the same host return 409 with the conflicts; resend with
+ * overrideConflicts: true to create anyway
+ * 
  * Audit: Logs event creation with user details
  */
 export const POST = createApiHandler(
@@ -242,6 +299,24 @@ export const POST = createApiHandler(
     // Additional sanitization for text fields (defense in depth)
     const sanitizedData = prepareEventData(data);
 
+    if (sanitizedData.hostId && !(await isEventHost(sanitizedData.hostId))) {
+      return NextResponse.json({ error: 'Host must be a staff member' }, { status: 400 });
+    }
+
+    // Scheduling conflicts block the create unless explicitly overridden
+    const conflicts = await checkConflicts(sanitizedData);
+    if (conflicts.length > 0 && !data.overrideConflicts) {
+      log.info('Event creation blocked by scheduling conflicts', {
+        userId,
+        world: sanitizedData.world,
+        conflicts: conflicts.length,
+      });
+      return NextResponse.json(
+        { error: 'This event overlaps other events', code: 'SCHEDULE_CONFLICT', conflicts },
+        { status: 409 }
+      );
+    }
+
     // Create event
     const created = await prisma.event.create({
       data: sanitizedData,
@@ -257,14 +332,18 @@ export const POST = createApiHandler(
       },
     });
 
+    await cache.invalidateTags(cacheTags.events);
+    await recordEventRevision(created.id, userId, 'created');
+
     // Audit log
-    await logCreationAudit(userId, created, sanitizedData);
+    await logCreationAudit(userId, created, sanitizedData, conflicts.length);
 
     log.info('Event created successfully', {
       eventId: created.id,
       userId,
       title: created.title,
       category: sanitizedData.category,
+      conflictsOverridden: conflicts.length,
     });
 
     // Trigger webhook (async, fire-and-forget)
@@ -277,6 +356,7 @@ export const POST = createApiHandler(
         world: created.world,
         startAt: created.startAt,
         endAt: created.endAt,
+        conflicts,
       },
       {
         status: 201,
@@ -68,6 +68,11 @@ export const GET = createApiHandler(
         byWeekdayJson: true,
         timesJson: true,
         recurrenceUntil: true,
+        recurrenceInterval: true,
+        recurrenceCount: true,
+        byWeekdayPos: true,
+        byMonthDayJson: true,
+        exDatesJson: true,
       },
     });
 
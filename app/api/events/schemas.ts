@@ -3,7 +3,9 @@
  */
 
 import { z } from 'zod';
-import { EventCategory, EventStatus, RecurrenceFreq } from '@prisma/client';
+import { EventCategory, EventStatus, RecurrenceFreq, Weekday } from '@prisma/client';
+import { MAX_EXDATES, MAX_RECURRENCE_COUNT, MAX_RECURRENCE_INTERVAL, isExDate } from '@/lib/recurrence';
+import { MAX_FAVORITES, REMINDER_LEAD_MINUTES } from '@/lib/favorites';
 
 /**
  * Enum schemas based on Prisma types
@@ -26,6 +28,7 @@ export const RecurrenceFreqSchema = z.enum([
   'NONE',
   'DAILY',
   'WEEKLY',
+  'MONTHLY',
 ] as const satisfies readonly RecurrenceFreq[]);
 
 /**
@@ -80,14 +83,87 @@ export const OptionalDateSchema = z
   .optional();
 
 /**
- * Time format validation (HH:MM)
+ * Showtime validation (HH:MM, or HH:MM-HH:MM with its own end as written by the ICS import)
  */
-export const TimeSchema = z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format');
+export const TimeSchema = z.string().regex(/^(\d{2}:\d{2}|\d{2}:\d{2}-\d{2}:\d{2})$/, 'Time must be in HH:MM or HH:MM-HH:MM format');
 
 /**
- * Weekday validation (0-6, Sunday-Saturday)
+ * Weekday validation (codes as stored in byWeekdayJson and read by lib/recurrence.ts)
  */
-export const WeekdaySchema = z.number().int().min(0).max(6);
+export const WeekdaySchema = z.enum([
+  'SU',
+  'MO',
+  'TU',
+  'WE',
+  'TH',
+  'FR',
+  'SA',
+] as const satisfies readonly Weekday[]);
+
+/**
+ * Day of month for MONTHLY recurrence (1-31, or -1..-31 counted from the end)
+ */
+export const MonthDaySchema = z
+  .number()
+  .int()
+  .min(-31)
+  .max(31)
+  .refine((day) => day !== 0, { message: 'Day of month cannot be 0' });
+
+/**
+ * Excluded occurrence (EXDATE): local date, or local date and showtime
+ */
+export const ExDateSchema = z
+  .string()
+  .refine(isExDate, { message: 'Must be YYYY-MM-DD or YYYY-MM-DDTHH:MM' });
+
+/**
+ * Recurrence rule fields shared by create and update
+ */
+const recurrenceRuleFields = {
+  recurrenceInterval: z.number().int().min(1).max(MAX_RECURRENCE_INTERVAL).optional(),
+  recurrenceCount: z.number().int().min(1).max(MAX_RECURRENCE_COUNT).nullable().optional(),
+  byMonthDay: z.array(MonthDaySchema).max(31).nullable().optional(),
+  // nth weekday of the month (1-4, or -1 for the last); requires byWeekday
+  byWeekdayPos: z
+    .number()
+    .int()
+    .refine((pos) => pos === -1 || (pos >= 1 && pos <= 4), {
+      message: 'Must be 1-4, or -1 for the last',
+    })
+    .nullable()
+    .optional(),
+  exDates: z.array(ExDateSchema).max(MAX_EXDATES).nullable().optional(),
+};
+
+/**
+ * Scheduling fields shared by create and update
+ */
+const schedulingFields = {
+  // Assigned host (user ID); overlapping events with the same host conflict
+  hostId: z.string().max(50).regex(/^[a-zA-Z0-9_-]+$/, 'Invalid host ID format').nullable().optional(),
+  // Save even though the schedule conflicts with other events (see lib/event-conflicts.ts)
+  overrideConflicts: z.boolean().optional(),
+  // Automatic publish (Scheduled events) and archive, run by the event scheduler (lib/event-schedule.ts)
+  publishAt: OptionalDateSchema,
+  archiveAt: OptionalDateSchema,
+  // Announce on the events Discord webhook when the scheduler publishes the event
+  announceOnPublish: z.boolean().optional(),
+};
+
+/**
+ * An event cannot archive before it publishes
+ */
+function hasPublishBeforeArchive(data: { publishAt?: Date | null | undefined; archiveAt?: Date | null | undefined }) {
+  return !data.publishAt || !data.archiveAt || data.archiveAt > data.publishAt;
+}
+
+/**
+ * "nth weekday" needs the weekday(s) it applies to
+ */
+function hasWeekdayForPos(data: { byWeekdayPos?: number | null | undefined; byWeekday?: string[] | null | undefined }) {
+  return data.byWeekdayPos == null || (data.byWeekday?.length ?? 0) > 0;
+}
 
 /**
  * POST /api/events - Create Event
@@ -107,10 +183,20 @@ export const CreateEventSchema = z
     byWeekday: z.array(WeekdaySchema).max(7).nullable().optional(),
     times: z.array(TimeSchema).max(10).nullable().optional(),
     recurrenceUntil: OptionalDateSchema,
+    ...recurrenceRuleFields,
+    ...schedulingFields,
   })
   .refine((data) => data.endAt > data.startAt, {
     message: 'End date must be after start date',
     path: ['endAt'],
+  })
+  .refine(hasWeekdayForPos, {
+    message: 'Choose a weekday for "nth weekday of the month"',
+    path: ['byWeekday'],
+  })
+  .refine(hasPublishBeforeArchive, {
+    message: 'Archive time must be after the publish time',
+    path: ['archiveAt'],
   });
 
 export type CreateEventInput = z.infer<typeof CreateEventSchema>;
@@ -133,6 +219,8 @@ export const UpdateEventSchema = z
     byWeekday: z.array(WeekdaySchema).max(7).nullable().optional(),
     times: z.array(TimeSchema).max(10).nullable().optional(),
     recurrenceUntil: OptionalDateSchema,
+    ...recurrenceRuleFields,
+    ...schedulingFields,
   })
   .refine(
     (data) => {
@@ -146,7 +234,15 @@ export const UpdateEventSchema = z
       message: 'End date must be after start date',
       path: ['endAt'],
     }
-  );
+  )
+  .refine(hasWeekdayForPos, {
+    message: 'Choose a weekday for "nth weekday of the month"',
+    path: ['byWeekday'],
+  })
+  .refine(hasPublishBeforeArchive, {
+    message: 'Archive time must be after the publish time',
+    path: ['archiveAt'],
+  });
 
 export type UpdateEventInput = z.infer<typeof UpdateEventSchema>;
 
@@ -217,6 +313,67 @@ export const UpcomingEventsQuerySchema = z.object({
 
 export type UpcomingEventsQuery = z.infer<typeof UpcomingEventsQuerySchema>;
 
+/**
+ * Calendar feed query parameters (GET /api/events/feed)
+ */
+export const CalendarFeedQuerySchema = z.object({
+  category: EventCategorySchema.optional(),
+  world: z.string().trim().min(1).max(100).optional(),
+});
+
+export type CalendarFeedQuery = z.infer<typeof CalendarFeedQuerySchema>;
+
+/**
+ * Reminder lead time in minutes before each occurrence, or null for none
+ */
+export const ReminderLeadSchema = z
+  .number()
+  .int()
+  .refine((m) => (REMINDER_LEAD_MINUTES as readonly number[]).includes(m), {
+    message: `Reminder must be one of ${REMINDER_LEAD_MINUTES.join(', ')} minutes`,
+  })
+  .nullable();
+
+const FavoriteEventIdSchema = z.string().max(50).regex(/^[a-zA-Z0-9_-]+$/, 'Invalid event ID format');
+
+/**
+ * POST /api/events/favorites - Favorite an event
+ */
+export const AddFavoriteSchema = z.object({
+  eventId: FavoriteEventIdSchema,
+  remindMinutesBefore: ReminderLeadSchema.optional(),
+});
+
+export type AddFavoriteInput = z.infer<typeof AddFavoriteSchema>;
+
+/**
+ * POST /api/events/favorites/merge - Merge device favorites into the account
+ */
+export const MergeFavoritesSchema = z.object({
+  eventIds: z.array(FavoriteEventIdSchema).max(MAX_FAVORITES),
+});
+
+export type MergeFavoritesInput = z.infer<typeof MergeFavoritesSchema>;
+
+/**
+ * PATCH /api/events/favorites/[eventId] - Update the reminder of a favorite
+ */
+export const UpdateFavoriteSchema = z.object({
+  remindMinutesBefore: ReminderLeadSchema,
+});
+
+export type UpdateFavoriteInput = z.infer<typeof UpdateFavoriteSchema>;
+
+/**
+ * POST /api/events/[id]/rsvp (body) and DELETE (query) - One occurrence,
+ * identified by the start its recurrence rule generates
+ */
+export const RsvpSchema = z.object({
+  occurrenceStart: z.coerce.date(),
+});
+
+export type RsvpInput = z.infer<typeof RsvpSchema>;
+
 /**
  * Route parameter validation
  */
@@ -226,3 +383,9 @@ export const EventIdSchema = z.object({
 
 export type EventIdParam = z.infer<typeof EventIdSchema>;
 
+
+export const FavoriteEventIdParamSchema = z.object({
+  eventId: FavoriteEventIdSchema,
+});
+
+export type FavoriteEventIdParam = z.infer<typeof FavoriteEventIdParamSchema>;
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { hasMinecraftSecret } from "@/lib/minecraft-analytics";
+import { MAX_ATTENDANCE_PLAYERS, recordAttendance } from "@/lib/event-attendance";
+
+const PlayerSchema = z.object({
+  uuid: z.string().uuid(),
+  name: z.string().trim().min(1).max(16),
+});
+
+const AttendanceSchema = z.object({
+  world: z.string().trim().min(1).max(100),
+  timestamp: z.coerce.date().optional(),
+  players: z.array(PlayerSchema).max(MAX_ATTENDANCE_PLAYERS),
+});
+
+// Reports older than this are rejected (clock skew and replayed payloads)
+const MAX_REPORT_AGE_MS = 15 * 60 * 1000;
+
+/**
+ * POST /api/minecraft/attendance
+ *
+ * Attendance ingest for the Minecraft plugin: the players currently in a
+ * world, posted every few minutes. Players are recorded against every
+ * published event occurrence running in that world at `timestamp`, which
+ * fills EventAnalytics.actualAttendance.
+ *
+ * Authentication: MINECRAFT_WEBHOOK_SECRET in the X-Minecraft-Secret header
+ *
+ * Example payload:
+ * {
+ *   "world": "MagicKingdom",
+ *   "timestamp": "2025-11-08T20:05:00Z",
+ *   "players": [{ "uuid": "069a79f4-44e9-4726-a5be-fca90e38aaf5", "name": "Notch" }]
+ * }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    if (!hasMinecraftSecret(req.headers)) {
+      console.warn("[Minecraft Attendance] Invalid secret");
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = AttendanceSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    const at = parsed.data.timestamp ?? now;
+    if (Math.abs(now.getTime() - at.getTime()) > MAX_REPORT_AGE_MS) {
+      return NextResponse.json({ error: "Timestamp too far from server time" }, { status: 400 });
+    }
+
+    const result = await recordAttendance({ world: parsed.data.world, at, players: parsed.data.players }, now);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("[Minecraft Attendance] Processing error:", error);
+    return NextResponse.json({ error: "Failed to record attendance" }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { hasMinecraftSecret } from "@/lib/minecraft-analytics";
+import {
+  cancelRsvp,
+  findLinkedUserId,
+  listOccurrenceRsvps,
+  rsvpToOccurrence,
+} from "@/lib/event-attendance";
+
+const MinecraftRsvpSchema = z.object({
+  uuid: z.string().uuid(),
+  name: z.string().trim().min(1).max(16),
+  eventId: z.string().max(50).regex(/^[a-zA-Z0-9_-]+$/, "Invalid event ID format"),
+  /** Defaults to the next occurrence */
+  occurrenceStart: z.coerce.date().optional(),
+  cancel: z.boolean().optional(),
+});
+
+const RSVP_ERRORS = {
+  not_found: { error: "Event not found", status: 404 },
+  no_occurrence: { error: "The event has no occurrence at that time", status: 400 },
+  ended: { error: "This occurrence has already ended", status: 409 },
+} as const;
+
+/**
+ * POST /api/minecraft/rsvp
+ *
+ * In-game RSVP from the Minecraft plugin for a player whose Minecraft
+ * account is linked to a website account. Without occurrenceStart the next
+ * occurrence is used; `cancel: true` removes the RSVP.
+ *
+ * Authentication: MINECRAFT_WEBHOOK_SECRET in the X-Minecraft-Secret header
+ */
+export async function POST(req: NextRequest) {
+  try {
+    if (!hasMinecraftSecret(req.headers)) {
+      console.warn("[Minecraft RSVP] Invalid secret");
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = MinecraftRsvpSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { uuid, eventId, cancel } = parsed.data;
+
+    const userId = await findLinkedUserId(uuid);
+    if (!userId) {
+      return NextResponse.json({ error: "Minecraft account is not linked to a website account" }, { status: 404 });
+    }
+
+    let occurrenceStart = parsed.data.occurrenceStart;
+    if (!occurrenceStart) {
+      const upcoming = await listOccurrenceRsvps(eventId, userId);
+      if (!upcoming) return NextResponse.json({ error: "Event not found" }, { status: 404 });
+      if (upcoming.length === 0) {
+        return NextResponse.json({ error: "The event has no upcoming occurrences" }, { status: 409 });
+      }
+      occurrenceStart = upcoming[0]!.occurrenceStart;
+    }
+
+    if (cancel) {
+      await cancelRsvp(userId, eventId, occurrenceStart);
+      return NextResponse.json({ success: true, going: false, occurrenceStart });
+    }
+
+    const result = await rsvpToOccurrence(userId, eventId, occurrenceStart, "minecraft");
+    if (!result.ok) {
+      const { error, status } = RSVP_ERRORS[result.reason];
+      return NextResponse.json({ error }, { status });
+    }
+
+    return NextResponse.json({ success: true, going: true, occurrenceStart });
+  } catch (error) {
+    console.error("[Minecraft RSVP] Processing error:", error);
+    return NextResponse.json({ error: "Failed to process RSVP" }, { status: 500 });
+  }
+}
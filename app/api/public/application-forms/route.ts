@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { createApiHandler } from "@/lib/api-middleware";
+import { listCurrentForms } from "@/lib/application-forms";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/public/application-forms
+ * The form each role's applicants fill in. The apply page submits the id of
+ * the version it showed along with the answers.
+ */
+export const GET = createApiHandler(
+  {
+    auth: "none",
+    rateLimit: {
+      key: "public:application-forms",
+      limit: 60,
+      window: 60,
+      strategy: "sliding-window",
+    },
+  },
+  async () => {
+    const forms = await listCurrentForms();
+    return NextResponse.json({
+      items: forms.map(({ id, role, version, definition }) => ({ id, role, version, definition })),
+    });
+  }
+);
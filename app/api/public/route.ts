@@ -1,11 +1,17 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextResponse } from "next/server";
+import { SubmissionSchema } from "@/lib/validation/application";
+import { validateAnswers } from "@/lib/validation/application-form";
+import { findSubmittableForm } from "@/lib/application-forms";
+import { newStatusToken, notifyApplicant } from "@/lib/application-emails";
 import {
-    StepSafeSchema,
-    schemaForRole,
-    type FinalApplicationInput,
-} from "@/lib/validation/application";
-import { PrismaClient } from "@prisma/client";
+    findRelatedApplications,
+    getReapplyCooldownDays,
+    matchCreateData,
+    reapplyAllowedFrom,
+    resolveMinecraftUuid,
+} from "@/lib/application-duplicates";
+import { PrismaClient, type Prisma } from "@prisma/client";
 
 export const runtime = "nodejs"; // ensure Prisma runs on Node runtime
 
@@ -112,20 +118,53 @@ export async function POST(req: Request) {
             );
         }
 
-        // Step-safe validation (shape + basic rules)
-        const stepSafe = StepSafeSchema.parse(json);
+        // Applicant fields + the answers to the role's form
+        const data = SubmissionSchema.parse(json);
 
-        if (!stepSafe.confirm16) {
+        if (!data.confirm16) {
             return NextResponse.json(
                 { error: "Applicants must be at least 16." },
                 { status: 400 }
             );
         }
 
-        // Strict role-specific validation
-        const strictSchema = schemaForRole(stepSafe.role);
-        const data = strictSchema.parse(stepSafe) as FinalApplicationInput;
+        // Answers are checked against the form version the applicant saw, if it is still current enough
+        const form = await findSubmittableForm(data.formId, data.role);
+        if (!form) {
+            return NextResponse.json(
+                { error: "This application form is no longer available. Please reload the page." },
+                { status: 400 }
+            );
+        }
+        const answers = validateAnswers(form.definition, data.answers);
+        if (!answers.ok) {
+            return NextResponse.json(
+                { error: "Invalid submission.", answerErrors: answers.errors },
+                { status: 400 }
+            );
+        }
 
+        // Earlier applications from the same person; a recent rejection for this role blocks reapplying
+        const identity = {
+            email: data.email,
+            mcUsername: data.mcUsername,
+            mcUuid: await resolveMinecraftUuid(data.mcUsername),
+            discordUser: data.canDiscord ? data.discordUser || null : null,
+            fingerprint: data.fingerprint ?? null,
+        };
+        const [related, cooldownDays] = await Promise.all([
+            findRelatedApplications(identity),
+            getReapplyCooldownDays(),
+        ]);
+        // Anyone can type in someone else's details, so the response says nothing about earlier decisions
+        if (reapplyAllowedFrom(data.role, related, cooldownDays)) {
+            return NextResponse.json(
+                { error: "We can't accept an application for this role right now. Please try again later." },
+                { status: 429 }
+            );
+        }
+
+        const statusToken = newStatusToken();
         const created = await prisma().application.create({
             data: {
                 name: data.name,
@@ -141,20 +180,18 @@ export async function POST(req: Request) {
                 visitedDisney: data.visitedDisney,
                 visitedDetails: data.visitedDisney ? data.visitedDetails || null : null,
 
-                // Developer
-                devPortfolioUrl: data.role === "Developer" ? data.devPortfolioUrl : null,
-                devSpecialty: data.role === "Developer" ? data.devSpecialty : null,
-                devLanguages: data.role === "Developer" ? (data.devLanguages?.join(",") || null) : null,
+                // Role-specific
+                formId: form.id,
+                answers: answers.answers as Prisma.InputJsonObject,
 
-                // Imaginear
-                imgPortfolioUrl: data.role === "Imaginear" ? data.imgPortfolioUrl : null,
-                imgWorldEditLevel: data.role === "Imaginear" ? data.imgWorldEditLevel : null,
-                imgPluginFamiliar: data.role === "Imaginear" ? data.imgPluginFamiliar : null,
+                // Status history starts at submission
+                statusChanges: { create: { toStatus: "New" } },
+                statusToken,
 
-                // Guest Relations
-                grStory: data.role === "GuestServices" ? data.grStory : null,
-                grValue: data.role === "GuestServices" ? data.grValue : null,
-                grSuggestions: data.role === "GuestServices" ? (data.grSuggestions || null) : null,
+                // Duplicate detection
+                mcUuid: identity.mcUuid,
+                fingerprint: identity.fingerprint,
+                ...(related.length > 0 && { matches: { create: matchCreateData(related) } }),
             },
             select: { id: true, role: true, name: true, email: true },
         });
@@ -169,7 +206,9 @@ export async function POST(req: Request) {
                     method: "POST",
                     headers: { "Content-Type": "application/json" },
                     body: JSON.stringify({
-                        content: `${roleEmoji} New application: **${created.name}** (${created.role}) — ${created.email}`,
+                        content: `${roleEmoji} New application: **${created.name}** (${created.role}) — ${created.email}${
+                            related.length > 0 ? ` — ⚠️ matches ${related.length} earlier application(s)` : ""
+                        }`,
                     }),
                 });
             }
@@ -177,7 +216,10 @@ export async function POST(req: Request) {
             // ignore webhook errors
         }
 
-        return NextResponse.json({ id: created.id });
+        // Received email with the status page link
+        notifyApplicant(created.id, "received");
+
+        return NextResponse.json({ id: created.id, statusToken });
     } catch (err: any) {
         // Zod errors
         if (err?.issues) {
@@ -0,0 +1,81 @@
+/**
+ * Server Status History API
+ *
+ * GET /api/server-status/history?range=24h|7d|30d&server=<id>
+ * Uptime and player-count history recorded by the status poller.
+ * `server` picks a public server of the registry; defaults to the network's
+ * primary server (the proxy).
+ *
+ * Security: Public endpoint, rate limited
+ * Performance: Cached for one poll interval
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { createApiHandler } from "@/lib/api-middleware";
+import { log } from "@/lib/logger";
+import { cache, cacheKeys, cacheTTL } from "@/lib/cache";
+import { getPrimaryServer, getServerRegistry } from "@/lib/server-network";
+import { getStatusHistory, type StatusHistoryRange } from "@/lib/server-status-history";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const HistoryQuerySchema = z.object({
+  range: z.enum(["24h", "7d", "30d"]).default("24h"),
+  server: z.string().regex(/^[a-z0-9-]{1,32}$/).optional(),
+});
+
+export const GET = createApiHandler(
+  {
+    auth: "none",
+    rateLimit: {
+      key: "server-status:history",
+      limit: 60,
+      window: 60,
+      strategy: "sliding-window",
+    },
+    validateQuery: HistoryQuerySchema,
+  },
+  async (_req, { validatedQuery }) => {
+    const { range, server: serverId } = validatedQuery as { range: StatusHistoryRange; server?: string };
+
+    try {
+      const registry = await getServerRegistry();
+      const server = serverId
+        ? registry.find((entry) => entry.id === serverId && entry.public)
+        : getPrimaryServer(registry);
+
+      if (!server) {
+        return NextResponse.json({ success: false, error: "Server not found" }, { status: 404 });
+      }
+
+      const serverAddress = server.address;
+      const history = await cache.getOrSet(
+        cacheKeys.serverStatusHistory(serverAddress, range),
+        () => getStatusHistory(serverAddress, range),
+        { ttl: cacheTTL.serverStatusHistory }
+      );
+
+      return NextResponse.json(
+        { success: true, data: history },
+        {
+          headers: {
+            "Cache-Control": `public, s-maxage=${cacheTTL.serverStatusHistory}, stale-while-revalidate=120`,
+          },
+        }
+      );
+    } catch (error) {
+      log.error("Server status history failed", {
+        range,
+        serverId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      return NextResponse.json(
+        { success: false, error: "Failed to load server status history" },
+        { status: 500 }
+      );
+    }
+  }
+);
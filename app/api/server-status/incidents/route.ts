@@ -0,0 +1,75 @@
+/**
+ * Server Incidents API
+ *
+ * GET /api/server-status/incidents?days=30
+ * Outages of public registry servers recorded by the status poller
+ *
+ * Security: Public endpoint, rate limited, only while the public status page is enabled
+ * Performance: Cached for one poll interval
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { createApiHandler } from "@/lib/api-middleware";
+import { log } from "@/lib/logger";
+import { cache, cacheKeys, cacheTTL } from "@/lib/cache";
+import { getMinecraftStatusSettings } from "@/lib/minecraft-status";
+import { getIncidentHistory, getServerRegistry } from "@/lib/server-network";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const IncidentsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(30),
+});
+
+export const GET = createApiHandler(
+  {
+    auth: "none",
+    rateLimit: {
+      key: "server-status:incidents",
+      limit: 60,
+      window: 60,
+      strategy: "sliding-window",
+    },
+    validateQuery: IncidentsQuerySchema,
+  },
+  async (_req, { validatedQuery }) => {
+    const { days } = validatedQuery as { days: number };
+
+    try {
+      const settings = await getMinecraftStatusSettings();
+      if (!settings.publicStatusPage) {
+        return NextResponse.json({ success: false, error: "Not found" }, { status: 404 });
+      }
+
+      const registry = await getServerRegistry(settings);
+      const serverIds = registry.filter((server) => server.public).map((server) => server.id);
+
+      const incidents = await cache.getOrSet(
+        cacheKeys.serverIncidents(`${serverIds.join(",")}:${days}`),
+        () => getIncidentHistory({ serverIds, days }),
+        { ttl: cacheTTL.serverStatusHistory }
+      );
+
+      return NextResponse.json(
+        { success: true, data: incidents },
+        {
+          headers: {
+            "Cache-Control": `public, s-maxage=${cacheTTL.serverStatusHistory}, stale-while-revalidate=120`,
+          },
+        }
+      );
+    } catch (error) {
+      log.error("Server incidents failed", {
+        days,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      return NextResponse.json(
+        { success: false, error: "Failed to load incidents" },
+        { status: 500 }
+      );
+    }
+  }
+);
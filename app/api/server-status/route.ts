@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
-import { getMinecraftServerStatus, getUptimePercentage } from "@/lib/minecraft-status";
+import { getNetworkStatus } from "@/lib/server-network";
+import { getDefaultServerAddress, getStatusHistory } from "@/lib/server-status-history";
+import { cache, cacheKeys, cacheTTL } from "@/lib/cache";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic"; // Always fetch fresh data
@@ -7,29 +9,52 @@ export const dynamic = "force-dynamic"; // Always fetch fresh data
 // Security: Rate limiting per IP would be ideal, but for now we'll cache aggressively
 export const revalidate = 60; // Cache for 1 minute
 
-const SERVER_ADDRESS = process.env['MINECRAFT_SERVER_ADDRESS'] || "iears.us";
-
 /**
  * Public API endpoint for server status
  * GET /api/server-status
+ *
+ * Top-level fields describe the whole network (proxy, or all servers when
+ * there is no proxy); `servers` lists the public servers of the registry.
  */
 export async function GET() {
     try {
-        const status = await getMinecraftServerStatus(SERVER_ADDRESS);
-        const uptime = getUptimePercentage(SERVER_ADDRESS);
+        const network = await getNetworkStatus();
+        const { primary } = network;
+
+        // 24h uptime from the persisted history (same cache entry as /api/server-status/history)
+        const history = await cache.getOrSet(
+            cacheKeys.serverStatusHistory(primary.address, "24h"),
+            () => getStatusHistory(primary.address, "24h"),
+            { ttl: cacheTTL.serverStatusHistory }
+        ).catch(() => null);
+        const uptime = history?.uptimePercentage ?? null;
 
         return NextResponse.json({
             success: true,
             data: {
-                online: status.online,
+                online: network.online,
                 players: {
-                    online: status.playersOnline || 0,
-                    max: status.playersMax || 100,
+                    online: network.playersOnline,
+                    max: network.playersMax || 100,
                 },
-                version: status.version,
-                latency: status.latency,
+                version: primary.version,
+                latency: primary.latency,
+                motd: primary.motd,
+                favicon: primary.favicon,
+                playerSample: primary.playerSample ?? [],
                 uptime: uptime,
-                serverAddress: SERVER_ADDRESS,
+                serverAddress: primary.address,
+                serversOnline: network.serversOnline,
+                serversTotal: network.serversTotal,
+                servers: network.servers.map((server) => ({
+                    id: server.id,
+                    name: server.name,
+                    role: server.role,
+                    online: server.online,
+                    players: { online: server.playersOnline, max: server.playersMax },
+                    latency: server.latency,
+                    uptime: server.uptime24h,
+                })),
             },
         });
     } catch (error) {
@@ -42,11 +67,11 @@ export async function GET() {
                 data: {
                     online: false,
                     players: { online: 0, max: 100 },
-                    serverAddress: SERVER_ADDRESS,
+                    serverAddress: getDefaultServerAddress(),
+                    servers: [],
                 },
             },
             { status: 200 } // Return 200 even on error to not break the UI
         );
     }
 }
-
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from '@/lib/session';
+import { log } from '@/lib/logger';
+import { issueWebSocketTicket } from '@/lib/websocket-ticket';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/user/realtime-token
+ * A single-use ticket for the `client:connect` handshake with the WebSocket
+ * server, valid for 30 seconds. The session token itself stays in the httpOnly
+ * cookie; see lib/websocket-ticket.ts.
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession();
+
+    if (!session?.user?.id || !session.session?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const issued = issueWebSocketTicket(session.user.id, session.session.id);
+    if (!issued) {
+      log.warn('Realtime Token API: WEBSOCKET_INTERNAL_SECRET is not set');
+      return NextResponse.json(
+        { error: 'Realtime updates are not configured' },
+        { status: 503 }
+      );
+    }
+
+    return NextResponse.json(
+      { userId: session.user.id, ticket: issued.ticket, expiresAt: issued.expiresAt },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    log.error('Realtime Token API: Failed to issue ticket', { error });
+    return NextResponse.json(
+      { error: 'Failed to retrieve realtime credentials' },
+      { status: 500 }
+    );
+  }
+}
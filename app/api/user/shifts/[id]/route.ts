@@ -0,0 +1,50 @@
+/**
+ * PATCH /api/user/shifts/[id]
+ *
+ * Accept or decline an event staffing assignment. Series assignments are
+ * answered for every occurrence at once.
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createApiHandler } from '@/lib/api-middleware';
+import { log } from '@/lib/logger';
+import { respondToAssignment } from '@/lib/event-staffing';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const respondSchema = z.object({
+  status: z.enum(['Accepted', 'Declined']),
+});
+
+type RespondInput = z.infer<typeof respondSchema>;
+
+export const PATCH = createApiHandler(
+  {
+    auth: 'user',
+    rateLimit: {
+      key: 'user:shifts:respond',
+      limit: 30,
+      window: 60,
+      strategy: 'sliding-window',
+    },
+    maxBodySize: 1024,
+    validateBody: respondSchema,
+  },
+  async (_req, { userId, params, validatedBody }) => {
+    const id = params?.['id'];
+    if (!id || id.length > 50) {
+      return NextResponse.json({ error: 'Invalid assignment ID' }, { status: 400 });
+    }
+
+    const { status } = validatedBody as RespondInput;
+    const updated = await respondToAssignment(userId!, id, status);
+    if (!updated) {
+      return NextResponse.json({ error: 'Assignment not found' }, { status: 404 });
+    }
+
+    log.info('Event shift answered', { userId, assignmentId: id, status });
+    return NextResponse.json({ ok: true, status });
+  }
+);
@@ -0,0 +1,29 @@
+/**
+ * GET /api/user/shifts
+ *
+ * Upcoming event shifts of the signed-in staff member, one entry per
+ * occurrence (see lib/event-staffing.ts)
+ */
+
+import { NextResponse } from 'next/server';
+import { createApiHandler } from '@/lib/api-middleware';
+import { listUpcomingShifts } from '@/lib/event-staffing';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export const GET = createApiHandler(
+  {
+    auth: 'user',
+    rateLimit: {
+      key: 'user:shifts:list',
+      limit: 60,
+      window: 60,
+      strategy: 'sliding-window',
+    },
+  },
+  async (_req, { userId }) => {
+    const shifts = await listUpcomingShifts(userId!);
+    return NextResponse.json({ shifts });
+  }
+);
@@ -17,6 +17,7 @@ import {
     Breadcrumb
 } from "@/components/common";
 import { cn } from "@/lib/utils";
+import { generateDeviceFingerprint } from "@/lib/session-fingerprint";
 import { 
     Sparkles, 
     User, 
@@ -30,14 +31,16 @@ import {
     StepSafeSchema,
     type StepSafeInput,
     Roles,
-    DevSpecialties,
-    Levels,
-    schemaForRole,
-    type FinalApplicationInput,
+    type Role,
 } from "@/lib/validation/application";
+import {
+    validateAnswers,
+    type FormAnswers,
+    type FormDefinition,
+} from "@/lib/validation/application-form";
+import DynamicApplicationForm from "@/components/admin/applications/DynamicApplicationForm";
 
-// Security: Freeze language list
-const LANGS = Object.freeze(["Java", "JavaScript", "TypeScript", "Python", "Go", "C#", "Rust"]);
+type RoleForm = { id: string; role: Role; version: number; definition: FormDefinition };
 
 // Security: Rate limiting for form submissions
 const RATE_LIMIT_MS = 5000; // 5 seconds between submissions
@@ -74,18 +77,6 @@ export default function ApplyPage() {
             visitedDisney: false,
             visitedDetails: "",
             role: "Developer" as const,
-            // developer
-            devPortfolioUrl: "",
-            devSpecialty: "Web" as const,
-            devLanguages: [],
-            // imaginear
-            imgPortfolioUrl: "",
-            imgWorldEditLevel: "Beginner" as const,
-            imgPluginFamiliar: "Beginner" as const,
-            // guest relations
-            grStory: "",
-            grValue: "",
-            grSuggestions: "",
         } as const as any,
         mode: "onBlur",
     });
@@ -114,6 +105,41 @@ export default function ApplyPage() {
         if (!canDiscord) setValue("discordUser", "");
     }, [canDiscord, setValue]);
 
+    // Role-specific questions, as configured in Settings → Applications
+    const [forms, setForms] = useState<RoleForm[] | null>(null);
+    const [answers, setAnswers] = useState<Partial<Record<Role, FormAnswers>>>({});
+    const [answerErrors, setAnswerErrors] = useState<Record<string, string>>({});
+    const roleForm = forms?.find((f) => f.role === role);
+
+    useEffect(() => {
+        setAnswerErrors({});
+    }, [role]);
+
+    useEffect(() => {
+        fetch("/api/public/application-forms")
+            .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`Failed to load forms (${res.status})`))))
+            .then((data) => setForms(data.items ?? []))
+            .catch((error) => {
+                console.error("[Apply] Form load error:", error);
+                setForms([]);
+            });
+    }, []);
+
+    // Check the role's answers; returns them without hidden questions
+    const checkAnswers = useCallback((): FormAnswers | null => {
+        if (!roleForm) {
+            toast.error("The application form could not be loaded. Please reload the page.");
+            return null;
+        }
+        const result = validateAnswers(roleForm.definition, answers[roleForm.role] ?? {});
+        if (!result.ok) {
+            setAnswerErrors(result.errors);
+            return null;
+        }
+        setAnswerErrors({});
+        return result.answers;
+    }, [roleForm, answers]);
+
     const [step, setStep] = useState(0);
     const maxStep = 3;
 
@@ -143,9 +169,12 @@ export default function ApplyPage() {
 
         if (!confirm16) return; // UX guard; schema also enforces
 
-        // Final strict validation by role (prevents TS2339 etc.)
-        const strictSchema = schemaForRole(data.role);
-        const finalData = strictSchema.parse(data) as FinalApplicationInput;
+        // Role-specific answers are checked again by the server against the same form version
+        const roleAnswers = checkAnswers();
+        if (!roleForm || !roleAnswers) {
+            setStep(2);
+            return;
+        }
 
         // Require Turnstile token
         if (!tsToken) {
@@ -154,10 +183,22 @@ export default function ApplyPage() {
         }
 
         const submitPromise = (async () => {
+            // Lets reviewers see earlier applications from the same device; optional
+            const fingerprint = await generateDeviceFingerprint()
+                .then((result) => result.fingerprint)
+                .catch(() => undefined);
+
             const res = await fetch("/api/public/applications", {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ ...finalData, __turnstileToken: tsToken, __hp: "" }),
+                body: JSON.stringify({
+                    ...data,
+                    formId: roleForm.id,
+                    answers: roleAnswers,
+                    fingerprint,
+                    __turnstileToken: tsToken,
+                    __hp: "",
+                }),
             });
 
             if (!res.ok) {
@@ -175,10 +216,12 @@ export default function ApplyPage() {
         });
 
         try {
-            await submitPromise;
-            // Redirect on success
+            const { statusToken } = await submitPromise;
+            // Redirect on success, with the applicant's status page link
             setTimeout(() => {
-                window.location.href = "/apply/success";
+                window.location.href = statusToken
+                    ? `/apply/success?status=${encodeURIComponent(statusToken)}`
+                    : "/apply/success";
             }, 1000); // Brief delay to show success toast
         } catch (e) {
             console.error(e);
@@ -362,81 +405,21 @@ export default function ApplyPage() {
                                         options={Roles.map((r) => ({ value: r, label: r === "GuestServices" ? "Guest Relations" : r }))}
                                     />
 
-                                    {role === "Developer" && (
-                                        <div className="space-y-4">
-                                            <FieldUrl name="devPortfolioUrl" label="Portfolio or GitHub *" placeholder="https://github.com/you" />
-                                            <FieldSelect
-                                                name="devSpecialty"
-                                                label="Primary specialty *"
-                                                options={DevSpecialties.map((s) => ({ value: s, label: s === "FullStack" ? "Full Stack" : s }))}
-                                            />
-                                            <Controller
-                                                name="devLanguages"
-                                                render={({ field }) => (
-                                                    <div>
-                                                        <label className="text-sm font-medium text-slate-900 dark:text-white block mb-2">
-                                                            Languages *
-                                                        </label>
-                                                        <div className="mt-2 flex flex-wrap gap-2">
-                                                            {LANGS.map((lang) => {
-                                                                const checked = field.value?.includes(lang);
-                                                                return (
-                                                                    <label key={lang} className="inline-flex items-center gap-2 text-sm">
-                                                                        <input
-                                                                            type="checkbox"
-                                                                            checked={!!checked}
-                                                                            onChange={() => {
-                                                                                const set = new Set<string>(field.value || []);
-                                                                                checked ? set.delete(lang) : set.add(lang);
-                                                                                field.onChange(Array.from(set));
-                                                                            }}
-                                                                        />
-                                                                        {lang}
-                                                                    </label>
-                                                                );
-                                                            })}
-                                                        </div>
-                                                        <FieldError name="devLanguages" />
-                                                    </div>
-                                                )}
-                                            />
-                                        </div>
-                                    )}
-
-                                    {role === "Imaginear" && (
-                                        <div className="space-y-4">
-                                            <FieldUrl name="imgPortfolioUrl" label="Portfolio or Showcase *" placeholder="https://yourportfolio.com" />
-                                            <FieldSelect
-                                                name="imgWorldEditLevel"
-                                                label="WorldEdit knowledge *"
-                                                options={Levels.map((l) => ({ value: l, label: l }))}
-                                            />
-                                            <FieldSelect
-                                                name="imgPluginFamiliar"
-                                                label="Familiarity with plugins *"
-                                                options={Levels.map((l) => ({ value: l, label: l }))}
-                                            />
-                                        </div>
-                                    )}
-
-                                    {role === "GuestServices" && (
-                                        <div className="space-y-4">
-                                            <FieldTextarea
-                                                name="grStory"
-                                                label="Tell us about a time you went above and beyond to help someone *"
-                                                rows={5}
-                                            />
-                                            <FieldTextarea
-                                                name="grValue"
-                                                label="What could you bring to Imaginears Club as a Guest Relations member? *"
-                                                rows={4}
-                                            />
-                                            <FieldTextarea
-                                                name="grSuggestions"
-                                                label="Any suggestions to make the server better for guests?"
-                                                rows={3}
-                                            />
+                                    {forms === null ? (
+                                        <div className="flex justify-center py-6">
+                                            <Spinner size="sm" />
                                         </div>
+                                    ) : roleForm ? (
+                                        <DynamicApplicationForm
+                                            definition={roleForm.definition}
+                                            value={answers[roleForm.role] ?? {}}
+                                            onChange={(value) => setAnswers((prev) => ({ ...prev, [roleForm.role]: value }))}
+                                            errors={answerErrors}
+                                        />
+                                    ) : (
+                                        <Alert variant="error">
+                                            The questions for this position could not be loaded. Please reload the page.
+                                        </Alert>
                                     )}
                                 </motion.div>
                             )}
@@ -494,7 +477,7 @@ export default function ApplyPage() {
                                     type="button"
                                     onClick={async () => {
                                         const ok = await validateStep(methods, step);
-                                        if (ok) next();
+                                        if (ok && (step !== 2 || checkAnswers())) next();
                                     }}
                                     className={cn(
                                         "inline-flex items-center gap-2 px-6 py-2.5 rounded-lg font-semibold transition-all duration-200 active:scale-95",
@@ -618,53 +601,6 @@ function FieldEmail(props: { name: keyof StepSafeInput; label: string; placehold
     );
 }
 
-function FieldUrl(props: { name: keyof StepSafeInput; label: string; placeholder?: string }) {
-    const { register, formState: { errors } } = useFormContext<StepSafeInput>();
-    const hasError = !!(errors as any)[props.name];
-    return (
-        <div>
-            <label className="text-sm font-medium text-slate-900 dark:text-white block mb-2">
-                {props.label}
-            </label>
-            <Input
-                type="url"
-                {...register(props.name)}
-                placeholder={props.placeholder}
-                state={hasError ? "error" : "default"}
-            />
-            <FieldError name={props.name} />
-        </div>
-    );
-}
-
-function FieldTextarea(props: { name: keyof StepSafeInput; label: string; rows?: number }) {
-    const { register, formState: { errors } } = useFormContext<StepSafeInput>();
-    const hasError = !!(errors as any)[props.name];
-    return (
-        <div>
-            <label className="text-sm font-medium text-slate-900 dark:text-white block mb-2">
-                {props.label}
-            </label>
-            <textarea
-                {...register(props.name)}
-                rows={props.rows ?? 4}
-                className={cn(
-                    "w-full rounded-xl border-2 transition-all duration-150 px-3 py-2 text-sm",
-                    "bg-white dark:bg-slate-900",
-                    "text-slate-900 dark:text-white",
-                    "placeholder:text-slate-400 dark:placeholder:text-slate-500",
-                    "focus:outline-none focus:ring-2 focus:ring-offset-2",
-                    "focus:ring-offset-white dark:focus:ring-offset-slate-900",
-                    hasError
-                        ? "border-red-300 dark:border-red-700 focus:border-red-500 focus:ring-red-500/50"
-                        : "border-slate-300 dark:border-slate-700 focus:border-blue-500 focus:ring-blue-500/50"
-                )}
-            />
-            <FieldError name={props.name} />
-        </div>
-    );
-}
-
 function FieldSelect(props: {
     name: keyof StepSafeInput;
     label: string;
@@ -773,7 +709,7 @@ function FieldTimezone() {
 
 /* Validate only fields for the current step */
 async function validateStep(methods: any, step: number) {
-    const { trigger, getValues } = methods as { trigger: (names?: string | string[]) => Promise<boolean>; getValues: () => StepSafeInput };
+    const { trigger } = methods as { trigger: (names?: string | string[]) => Promise<boolean> };
 
     if (step === 0) {
         return await trigger(["name", "email", "mcUsername", "confirm16", "ageRange"]);
@@ -782,18 +718,7 @@ async function validateStep(methods: any, step: number) {
         return await trigger(["timezone", "canDiscord", "discordUser", "priorStaff", "priorServers", "visitedDisney", "visitedDetails"]);
     }
     if (step === 2) {
-        const okRole = await trigger("role");
-        if (!okRole) return false;
-        const v = getValues();
-        if (v.role === "Developer") {
-            return await trigger(["devPortfolioUrl", "devSpecialty", "devLanguages"]);
-        }
-        if (v.role === "Imaginear") {
-            return await trigger(["imgPortfolioUrl", "imgWorldEditLevel", "imgPluginFamiliar"]);
-        }
-        if (v.role === "GuestServices") {
-            return await trigger(["grStory", "grValue", "grSuggestions"]);
-        }
+        return await trigger("role");
     }
     return true;
 }
@@ -0,0 +1,154 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { CheckCircle, Circle, Clock, XCircle } from "lucide-react";
+import type { AppStatus } from "@prisma/client";
+import { Badge, Card, Separator } from "@/components/common";
+import { cn } from "@/lib/utils";
+import { prisma } from "@/lib/prisma";
+import { ROLE_LABELS, STATUS_TOKEN_PATTERN } from "@/lib/application-emails";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export const metadata = {
+    title: "Application Status | Imaginears",
+    robots: {
+        index: false, // Private link
+        follow: false,
+    },
+};
+
+const STATUS_COPY: Record<AppStatus, { label: string; badge: "default" | "warning" | "success" | "danger"; message: string }> = {
+    New: {
+        label: "Received",
+        badge: "default",
+        message: "Your application is in the queue. Our team will start reviewing it soon.",
+    },
+    InReview: {
+        label: "In Review",
+        badge: "warning",
+        message: "Our team is reviewing your application. We'll email you once a decision has been made.",
+    },
+    Approved: {
+        label: "Approved",
+        badge: "success",
+        message: "Congratulations, you're in! Check your email for your onboarding next steps.",
+    },
+    Rejected: {
+        label: "Not Selected",
+        badge: "danger",
+        message: "We won't be moving forward with your application this time. Check your email for details - you're welcome to apply again in the future.",
+    },
+};
+
+/**
+ * Applicant-facing status page, reached through the private link from the
+ * received email and the success page. Shows progress only: no reviewer
+ * names, votes or internal comments.
+ */
+export default async function ApplicationStatusPage({ params }: { params: Promise<{ token: string }> }) {
+    const { token } = await params;
+    if (!STATUS_TOKEN_PATTERN.test(token)) return notFound();
+
+    const app = await prisma.application.findUnique({
+        where: { statusToken: token },
+        select: {
+            name: true,
+            role: true,
+            status: true,
+            createdAt: true,
+            statusChanges: {
+                orderBy: { createdAt: "asc" },
+                select: { id: true, toStatus: true, createdAt: true },
+            },
+        },
+    });
+    if (!app) return notFound();
+
+    const fmt = new Intl.DateTimeFormat(undefined, { year: "numeric", month: "short", day: "2-digit" });
+    const copy = STATUS_COPY[app.status];
+    const decided = app.status === "Approved" || app.status === "Rejected";
+
+    const steps = [
+        { label: "Submitted", done: true },
+        { label: "In Review", done: app.status !== "New" },
+        { label: decided ? copy.label : "Decision", done: decided },
+    ];
+
+    return (
+        <div className="max-w-2xl mx-auto px-4 py-12 md:py-16">
+            <div className="mb-8">
+                <h1 className="text-3xl font-bold mb-2 text-slate-900 dark:text-white">Application Status</h1>
+                <p className="text-slate-600 dark:text-slate-400">
+                    Hi {app.name} - here&apos;s where your {ROLE_LABELS[app.role]} application stands.
+                </p>
+            </div>
+
+            <Card className="p-6 mb-6">
+                <div className="flex items-center justify-between gap-3 mb-6">
+                    <span className="text-sm text-slate-500 dark:text-slate-400">
+                        Submitted {fmt.format(app.createdAt)}
+                    </span>
+                    <Badge variant={copy.badge}>{copy.label}</Badge>
+                </div>
+
+                {/* Progress */}
+                <ol className="flex items-center gap-2 mb-6" aria-label="Application progress">
+                    {steps.map((step, i) => (
+                        <li key={step.label} className="flex flex-1 items-center gap-2 min-w-0">
+                            {step.done ? (
+                                app.status === "Rejected" && i === steps.length - 1 ? (
+                                    <XCircle className="w-5 h-5 shrink-0 text-red-600 dark:text-red-400" aria-hidden="true" />
+                                ) : (
+                                    <CheckCircle className="w-5 h-5 shrink-0 text-green-600 dark:text-green-400" aria-hidden="true" />
+                                )
+                            ) : (
+                                <Circle className="w-5 h-5 shrink-0 text-slate-300 dark:text-slate-600" aria-hidden="true" />
+                            )}
+                            <span className={cn(
+                                "text-sm truncate",
+                                step.done ? "font-medium text-slate-900 dark:text-white" : "text-slate-500 dark:text-slate-400"
+                            )}>
+                                {step.label}
+                            </span>
+                            {i < steps.length - 1 && (
+                                <span className={cn(
+                                    "flex-1 h-0.5 min-w-4 rounded-full",
+                                    steps[i + 1]!.done ? "bg-green-500" : "bg-slate-200 dark:bg-slate-700"
+                                )} />
+                            )}
+                        </li>
+                    ))}
+                </ol>
+
+                <p className="text-slate-700 dark:text-slate-300 leading-relaxed">{copy.message}</p>
+            </Card>
+
+            {app.statusChanges.length > 0 && (
+                <Card className="p-6">
+                    <h2 className="text-lg font-semibold mb-4 flex items-center gap-2 text-slate-900 dark:text-white">
+                        <Clock className="w-5 h-5 text-blue-600 dark:text-blue-400" aria-hidden="true" />
+                        History
+                    </h2>
+                    <ul className="space-y-2">
+                        {app.statusChanges.map((change, i) => (
+                            <li key={change.id} className="flex items-center justify-between gap-3 text-sm">
+                                <span className="text-slate-700 dark:text-slate-300">
+                                    {i === 0 && change.toStatus === "New" ? "Application submitted" : STATUS_COPY[change.toStatus].label}
+                                </span>
+                                <span className="text-slate-500 dark:text-slate-400">{fmt.format(change.createdAt)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </Card>
+            )}
+
+            <Separator className="my-8" />
+
+            <p className="text-center text-sm text-slate-500 dark:text-slate-400">
+                Keep this link private - anyone with it can see your application&apos;s status.{" "}
+                <Link href="/" className="underline">Return to Home</Link>
+            </p>
+        </div>
+    );
+}
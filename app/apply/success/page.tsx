@@ -2,10 +2,10 @@ import { Badge, Alert, Separator, Card } from "@/components/common";
 import { cn } from "@/lib/utils";
 import { CheckCircle, Clock, Mail, MessageCircle, Sparkles } from "lucide-react";
 import Link from "next/link";
+import { STATUS_TOKEN_PATTERN } from "@/lib/application-emails";
 
 // Configuration
 export const runtime = "nodejs";
-export const dynamic = "force-static"; // Static page for performance
 
 /**
  * Metadata for SEO
@@ -19,7 +19,14 @@ export const metadata = {
     },
 };
 
-export default function ApplySuccess() {
+export default async function ApplySuccess({
+    searchParams,
+}: {
+    searchParams: Promise<{ status?: string }>;
+}) {
+    const { status } = await searchParams;
+    const statusHref = status && STATUS_TOKEN_PATTERN.test(status) ? `/apply/status/${status}` : null;
+
     return (
         <div className="max-w-2xl mx-auto px-4 py-12 md:py-16">
             {/* Success Header */}
@@ -93,7 +100,7 @@ export default function ApplySuccess() {
                                     We'll Contact You
                                 </h3>
                                 <p className="text-sm text-slate-600 dark:text-slate-400">
-                                    If you're selected for the next step, we'll reach out via Discord or email.
+                                    We&apos;ll email you when your application is reviewed and again once a decision is made.
                                 </p>
                             </div>
                         </div>
@@ -122,11 +129,19 @@ export default function ApplySuccess() {
 
             <Separator className="my-8" />
 
-            {/* Info Alert */}
-            <Alert variant="info" className="mb-6">
-                <strong>Important:</strong> Due to high application volume, we're unable to provide individual status updates. 
-                Please be patient as we review all submissions.
-            </Alert>
+            {/* Status page */}
+            {statusHref ? (
+                <Alert variant="info" className="mb-6">
+                    <strong>Track your application:</strong> check its progress any time on{" "}
+                    <Link href={statusHref} className="underline font-medium">your status page</Link>.
+                    We&apos;ve emailed you the link too - keep it to yourself, anyone with it can see your status.
+                </Alert>
+            ) : (
+                <Alert variant="info" className="mb-6">
+                    <strong>Track your application:</strong> we&apos;ve emailed you a link to your status page,
+                    where you can check its progress any time.
+                </Alert>
+            )}
 
             {/* Return Home */}
             <div className="text-center">
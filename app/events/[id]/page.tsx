@@ -1,7 +1,7 @@
 import { notFound } from "next/navigation";
 import { EventStatus, type Weekday } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
-import { expandEventOccurrences } from "@/lib/recurrence";
+import { asMonthDayArray, expandEventOccurrences, OCCURRENCE_OVERRIDE_SELECT } from "@/lib/recurrence";
 import { addDays, format as fmt } from "date-fns";
 import { toZonedTime } from "date-fns-tz";
 import ReactMarkdown from "react-markdown";
@@ -14,7 +14,10 @@ import ScheduleSummary from "@/components/events/ScheduleSummary";
 import AddToCalendarButton from "@/components/events/AddToCalendarButton";
 import ShareButton from "@/components/events/ShareButton";
 import CountdownBadge from "@/components/events/CountdownBadge";
+import RsvpButton from "@/components/events/RsvpButton";
 import { getUserTimezone } from "@/app/utils/timezone";
+import { getServerSession } from "@/lib/session";
+import { listOccurrenceRsvps } from "@/lib/event-attendance";
 
 // Configuration - Dynamic rendering to support user timezones
 export const runtime = "nodejs";
@@ -187,6 +190,12 @@ export default async function EventPublicPage({ params }: { params: Promise<{ id
                 byWeekdayJson: true,
                 timesJson: true,
                 recurrenceUntil: true,
+                recurrenceInterval: true,
+                recurrenceCount: true,
+                byWeekdayPos: true,
+                byMonthDayJson: true,
+                exDatesJson: true,
+                overrides: { select: OCCURRENCE_OVERRIDE_SELECT },
                 updatedAt: true,
             },
         }),
@@ -217,6 +226,12 @@ export default async function EventPublicPage({ params }: { params: Promise<{ id
         ).slice(0, MAX_UPCOMING_ITEMS)
         : [];
 
+    // RSVP state per occurrence (the header button covers the next one, also for DAILY)
+    const session = await getServerSession();
+    const rsvps = (await listOccurrenceRsvps(ev.id, session?.user.id ?? null, now)) ?? [];
+    const rsvpByStart = new Map(rsvps.map((r) => [r.occurrenceStart.getTime(), r]));
+    const nextRsvp = rsvps[0];
+
     // Get the next upcoming occurrence for the calendar button
     const nextOccurrence = upcoming.length > 0 ? upcoming[0] : null;
     const calendarStartTime = nextOccurrence ? nextOccurrence.start : ev.startAt;
@@ -243,6 +258,16 @@ export default async function EventPublicPage({ params }: { params: Promise<{ id
                     
                     {/* Action buttons */}
                     <div className="flex flex-wrap items-center gap-2">
+                        {nextRsvp && (
+                            <RsvpButton
+                                eventId={ev.id}
+                                occurrenceStart={nextRsvp.occurrenceStart.toISOString()}
+                                going={nextRsvp.going}
+                                count={nextRsvp.rsvpCount}
+                                signedIn={!!session}
+                                size="md"
+                            />
+                        )}
                         <AddToCalendarButton
                             event={{
                                 id: ev.id,
@@ -277,6 +302,11 @@ export default async function EventPublicPage({ params }: { params: Promise<{ id
                         times={times}
                         timezone={tz}
                         until={ev.recurrenceUntil ?? null}
+                        interval={ev.recurrenceInterval}
+                        count={ev.recurrenceCount}
+                        byMonthDay={asMonthDayArray(ev.byMonthDayJson)}
+                        byWeekdayPos={ev.byWeekdayPos}
+                        startAt={ev.startAt}
                     />
                     <Badge variant="primary" size="sm">
                         {ev.category}
@@ -405,6 +435,23 @@ export default async function EventPublicPage({ params }: { params: Promise<{ id
                                                 <div className="text-xs text-slate-600 dark:text-slate-400 mt-0.5">
                                                     {tz}
                                                 </div>
+                                                {occ.override === "modified" && (
+                                                    <div className="text-xs text-amber-700 dark:text-amber-300 mt-1">
+                                                        {occ.title !== ev.title && <span>{occ.title} · </span>}
+                                                        {occ.world !== ev.world ? `Moved to ${occ.world}` : "Schedule changed"}
+                                                        {occ.shortDescription && ` · ${occ.shortDescription}`}
+                                                    </div>
+                                                )}
+                                                {rsvpByStart.has(occ.occurrenceStart.getTime()) && (
+                                                    <RsvpButton
+                                                        eventId={ev.id}
+                                                        occurrenceStart={occ.occurrenceStart.toISOString()}
+                                                        going={rsvpByStart.get(occ.occurrenceStart.getTime())!.going}
+                                                        count={rsvpByStart.get(occ.occurrenceStart.getTime())!.rsvpCount}
+                                                        signedIn={!!session}
+                                                        className="mt-2"
+                                                    />
+                                                )}
                                             </div>
                                         </div>
                                     </li>
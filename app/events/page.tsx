@@ -1,5 +1,6 @@
 import { Suspense } from "react";
 import { prisma } from "@/lib/prisma";
+import { OCCURRENCE_OVERRIDE_SELECT } from "@/lib/recurrence";
 import EventsPublicFilter from "@/components/public/EventsPublicFilter";
 import { Skeleton, Breadcrumb } from "@/components/common";
 import { Calendar } from "lucide-react";
@@ -65,6 +66,12 @@ async function getPublicEvents(): Promise<PublicEventData[]> {
                 timesJson: true,
                 timezone: true,
                 recurrenceUntil: true,
+                recurrenceInterval: true,
+                recurrenceCount: true,
+                byWeekdayPos: true,
+                byMonthDayJson: true,
+                exDatesJson: true,
+                overrides: { select: OCCURRENCE_OVERRIDE_SELECT },
             },
         });
 
@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { EventStatus } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
-import { expandEventOccurrences } from "@/lib/recurrence";
+import { expandEventOccurrences, OCCURRENCE_OVERRIDE_SELECT } from "@/lib/recurrence";
 import { addDays } from "date-fns";
 
 // Configuration
@@ -88,6 +88,7 @@ export async function GET(req: Request) {
             },
             orderBy: { startAt: "asc" },
             take: MAX_DB_EVENTS, // Performance: Limit database query
+            include: { overrides: { select: OCCURRENCE_OVERRIDE_SELECT } },
         });
 
         // Performance: Early return if no events
@@ -7,6 +7,7 @@ import { Input, Alert, Spinner, Separator, Badge } from "@/components/common";
 import { cn } from "@/lib/utils";
 import { LogIn, Mail, Lock, Shield } from "lucide-react";
 import { TwoFactorVerification } from "@/app/login/components/TwoFactorVerification";
+import { syncFavoritesWithAccount } from "@/lib/favorites";
 
 const auth = createAuthClient(
     process.env['NEXT_PUBLIC_SITE_URL'] 
@@ -112,6 +113,8 @@ export default function LoginPage() {
                 return;
             }
 
+            // Keep the favorites saved on this device as a guest
+            await syncFavoritesWithAccount();
             router.push(callbackUrl);
         } catch (e2) {
             setErr(friendlyError(e2));
@@ -141,7 +144,8 @@ export default function LoginPage() {
                 return false;
             }
 
-            // Success - redirect to callback URL
+            // Success - keep guest favorites, then redirect to callback URL
+            await syncFavoritesWithAccount();
             router.push(callbackUrl);
             return true;
         } catch (error) {
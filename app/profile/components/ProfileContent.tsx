@@ -1,13 +1,16 @@
 "use client";
 
 import { useState } from "react";
-import { ProfileNav, type ProfileSection } from "./ProfileNav";
+import { useSearchParams } from "next/navigation";
+import { ProfileNav, isProfileSection, type ProfileSection } from "./ProfileNav";
 import { GeneralSection } from "./sections/GeneralSection";
 import { SecuritySection } from "./sections/SecuritySection";
 import { ConnectionsSection } from "./sections/ConnectionsSection";
 import { ApplicationsSection } from "./sections/ApplicationsSection";
 import { ApiKeysSection } from "./sections/ApiKeysSection";
 import { NotificationsSection } from "./sections/NotificationsSection";
+import { MyEventsSection } from "./sections/MyEventsSection";
+import { ShiftsSection } from "./sections/ShiftsSection";
 import { PrivacySection } from "./sections/PrivacySection";
 
 interface ProfileContentProps {
@@ -60,6 +63,8 @@ interface ProfileContentProps {
     devPortfolioUrl: string | null;
     imgPortfolioUrl: string | null;
     grStory: string | null;
+    answers: unknown;
+    form: { version: number; definition: unknown } | null;
   }>;
   apiKeys: Array<{
     id: string;
@@ -87,7 +92,11 @@ export function ProfileContent({
   minecraftPermissions,
   currentSessionToken,
 }: ProfileContentProps) {
-  const [activeSection, setActiveSection] = useState<ProfileSection>("general");
+  const searchParams = useSearchParams();
+  const [activeSection, setActiveSection] = useState<ProfileSection>(() => {
+    const requested = searchParams.get("section");
+    return isProfileSection(requested) ? requested : "general";
+  });
 
   const hasPasswordAuth = accounts.some(a => a.providerId === "credential");
 
@@ -123,6 +132,12 @@ export function ProfileContent({
               accounts={accounts}
             />
           )}
+          {activeSection === "events" && (
+            <MyEventsSection />
+          )}
+          {activeSection === "shifts" && (
+            <ShiftsSection />
+          )}
           {activeSection === "applications" && (
             <ApplicationsSection applications={applications} />
           )}
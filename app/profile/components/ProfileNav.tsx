@@ -1,11 +1,11 @@
 "use client";
 
-import { User, Shield, Link2, Lock, FileText, Key, Bell } from "lucide-react";
+import { User, Shield, Link2, Lock, FileText, Key, Bell, Heart, CalendarClock } from "lucide-react";
 import type { LucideIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
 import SignOutButton from "@/components/admin/SignOutButton";
 
-export type ProfileSection = "general" | "security" | "connections" | "applications" | "api-keys" | "privacy" | "notifications";
+export type ProfileSection = "general" | "security" | "connections" | "applications" | "api-keys" | "privacy" | "notifications" | "events" | "shifts";
 
 interface NavItem {
   id: ProfileSection;
@@ -34,6 +34,19 @@ const navItems: NavItem[] = [
     icon: Link2,
     description: "Minecraft & connected accounts",
   },
+  {
+    id: "events",
+    title: "My Events",
+    icon: Heart,
+    description: "Favorite events & reminders",
+  },
+  {
+    id: "shifts",
+    title: "My Shifts",
+    icon: CalendarClock,
+    description: "Event staffing assignments",
+    requiresStaff: true,
+  },
   {
     id: "applications",
     title: "Applications",
@@ -61,6 +74,13 @@ const navItems: NavItem[] = [
   },
 ];
 
+/**
+ * Whether a ?section= value names a section (notification links open one directly)
+ */
+export function isProfileSection(value: string | null): value is ProfileSection {
+  return navItems.some(item => item.id === value);
+}
+
 interface ProfileNavProps {
   activeSection: ProfileSection;
   onSectionChange: (section: ProfileSection) => void;
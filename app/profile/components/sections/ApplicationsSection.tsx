@@ -3,6 +3,13 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/common";
 import { FileText, Clock, CheckCircle, XCircle, AlertCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
+import {
+  formatAnswer,
+  isQuestionVisible,
+  type FormAnswers,
+  type FormDefinition,
+  type FormQuestion,
+} from "@/lib/validation/application-form";
 
 interface Application {
   id: string;
@@ -21,6 +28,9 @@ interface Application {
   devPortfolioUrl: string | null;
   imgPortfolioUrl: string | null;
   grStory: string | null;
+  // Set when the application answered a configurable form (role-specific answers by question id)
+  answers: unknown;
+  form: { version: number; definition: unknown } | null;
 }
 
 interface ApplicationsSectionProps {
@@ -195,7 +205,8 @@ export function ApplicationsSection({ applications }: ApplicationsSectionProps)
                           </div>
                         </div>
                       )}
-                      {app.devPortfolioUrl && (
+                      {app.form && <FormAnswersList definition={app.form.definition as FormDefinition} answers={(app.answers ?? {}) as FormAnswers} />}
+                      {!app.form && app.devPortfolioUrl && (
                         <div>
                           <div className="text-xs font-semibold text-slate-600 dark:text-slate-400 mb-1">
                             Developer Portfolio:
@@ -210,7 +221,7 @@ export function ApplicationsSection({ applications }: ApplicationsSectionProps)
                           </a>
                         </div>
                       )}
-                      {app.imgPortfolioUrl && (
+                      {!app.form && app.imgPortfolioUrl && (
                         <div>
                           <div className="text-xs font-semibold text-slate-600 dark:text-slate-400 mb-1">
                             Imaginear Portfolio:
@@ -225,7 +236,7 @@ export function ApplicationsSection({ applications }: ApplicationsSectionProps)
                           </a>
                         </div>
                       )}
-                      {app.grStory && (
+                      {!app.form && app.grStory && (
                         <div>
                           <div className="text-xs font-semibold text-slate-600 dark:text-slate-400 mb-1">
                             Guest Relations Story:
@@ -247,3 +258,41 @@ export function ApplicationsSection({ applications }: ApplicationsSectionProps)
   );
 }
 
+/** Answers to the form version the application was submitted with */
+function FormAnswersList({ definition, answers }: { definition: FormDefinition; answers: FormAnswers }) {
+  const questions = definition.sections.flatMap((section) => section.questions.filter((q) => isQuestionVisible(q, answers)));
+
+  return (
+    <>
+      {questions.map((question) => (
+        <div key={question.id}>
+          <div className="text-xs font-semibold text-slate-600 dark:text-slate-400 mb-1">
+            {question.label}:
+          </div>
+          <AnswerValue question={question} value={answers[question.id]} />
+        </div>
+      ))}
+    </>
+  );
+}
+
+function AnswerValue({ question, value }: { question: FormQuestion; value: unknown }) {
+  if (question.type === "url" && typeof value === "string" && value) {
+    return (
+      <a
+        href={value}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-sm text-blue-600 dark:text-blue-400 hover:underline break-all"
+      >
+        {value}
+      </a>
+    );
+  }
+
+  return (
+    <div className="text-sm text-slate-900 dark:text-white whitespace-pre-wrap">
+      {formatAnswer(question, value)}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  Alert,
+  Badge,
+  Button,
+  EmptyState,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Spinner,
+  toast,
+} from "@/components/common";
+import { Heart, MapPin, Trash2 } from "lucide-react";
+import { removeFavorite, syncFavoritesWithAccount, REMINDER_LEAD_MINUTES } from "@/lib/favorites";
+
+interface FavoriteEvent {
+  eventId: string;
+  remindMinutesBefore: number | null;
+  event: {
+    id: string;
+    title: string;
+    world: string;
+    status: string;
+    shortDescription: string | null;
+    timezone: string;
+    recurrenceFreq: string;
+  };
+  nextOccurrence: { start: string; end: string; title: string; world: string } | null;
+}
+
+const REMINDER_LABELS: Record<(typeof REMINDER_LEAD_MINUTES)[number], string> = {
+  15: "15 minutes before",
+  30: "30 minutes before",
+  60: "1 hour before",
+  180: "3 hours before",
+  1440: "1 day before",
+};
+
+function formatOccurrence(iso: string, timezone: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: timezone,
+    timeZoneName: "short",
+  });
+}
+
+export function MyEventsSection() {
+  const [favorites, setFavorites] = useState<FavoriteEvent[] | null>(null);
+  const [remindersEnabled, setRemindersEnabled] = useState(true);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchFavorites();
+  }, []);
+
+  const fetchFavorites = async () => {
+    try {
+      setLoading(true);
+      // Favorites saved on this device before signing in
+      await syncFavoritesWithAccount();
+
+      const response = await fetch("/api/events/favorites");
+      if (response.ok) {
+        const data = await response.json();
+        setFavorites(data.favorites);
+        setRemindersEnabled(data.remindersEnabled);
+      }
+    } catch (error) {
+      console.error("[MyEvents] Fetch error:", error);
+      toast.error("Failed to load your events", {
+        message: "Please try refreshing the page",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReminderChange = async (eventId: string, value: string) => {
+    const remindMinutesBefore = value === "off" ? null : Number(value);
+
+    try {
+      const response = await fetch(`/api/events/favorites/${eventId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ remindMinutesBefore }),
+      });
+      if (!response.ok) throw new Error("Failed to update reminder");
+
+      setFavorites((prev) =>
+        prev?.map((f) => (f.eventId === eventId ? { ...f, remindMinutesBefore } : f)) ?? null
+      );
+    } catch (error) {
+      console.error("[MyEvents] Reminder error:", error);
+      toast.error("Failed to update reminder", {
+        message: "Please try again",
+      });
+    }
+  };
+
+  const handleRemove = (eventId: string) => {
+    // Also mirrors the removal to the account
+    removeFavorite(eventId);
+    setFavorites((prev) => prev?.filter((f) => f.eventId !== eventId) ?? null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!favorites || favorites.length === 0) {
+    return (
+      <EmptyState
+        icon={<Heart className="w-12 h-12" />}
+        title="No favorite events yet"
+        description="Tap the heart on an event to keep it here and get reminders before it starts."
+        action={
+          <Link href="/events" className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline">
+            Browse events
+          </Link>
+        }
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-slate-900 dark:text-white">
+          My Events
+        </h3>
+        <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+          Events you favorited, on every device you sign in with
+        </p>
+      </div>
+
+      {!remindersEnabled && (
+        <Alert variant="warning">
+          Event reminders are turned off in your notification preferences, so no reminders will be sent.
+        </Alert>
+      )}
+
+      <div className="space-y-3">
+        {favorites.map((favorite) => (
+          <div
+            key={favorite.eventId}
+            className="flex flex-col sm:flex-row sm:items-center gap-4 p-4 rounded-lg border border-slate-200 dark:border-slate-800"
+          >
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <Link
+                  href={`/events/${favorite.event.id}`}
+                  className="font-medium text-slate-900 dark:text-white hover:underline truncate"
+                >
+                  {favorite.event.title}
+                </Link>
+                {favorite.event.recurrenceFreq !== "NONE" && (
+                  <Badge variant="info" size="sm">Recurring</Badge>
+                )}
+              </div>
+              <p className="text-sm text-slate-600 dark:text-slate-400 mt-1 flex items-center gap-1">
+                <MapPin className="w-3.5 h-3.5" />
+                {favorite.nextOccurrence?.world ?? favorite.event.world}
+              </p>
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                {favorite.nextOccurrence
+                  ? `Next: ${formatOccurrence(favorite.nextOccurrence.start, favorite.event.timezone)}`
+                  : "No upcoming occurrences"}
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Select
+                value={favorite.remindMinutesBefore?.toString() ?? "off"}
+                onValueChange={(value) => handleReminderChange(favorite.eventId, value)}
+                disabled={!favorite.nextOccurrence}
+              >
+                <SelectTrigger className="w-48" aria-label={`Reminder for ${favorite.event.title}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">No reminder</SelectItem>
+                  {REMINDER_LEAD_MINUTES.map((minutes) => (
+                    <SelectItem key={minutes} value={minutes.toString()}>
+                      {REMINDER_LABELS[minutes]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemove(favorite.eventId)}
+                ariaLabel={`Remove ${favorite.event.title} from favorites`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Badge, Button, EmptyState, Spinner, toast } from "@/components/common";
+import { CalendarClock, Check, MapPin, X } from "lucide-react";
+
+type ShiftStatus = "Pending" | "Accepted" | "Declined";
+
+interface Shift {
+  assignmentId: string;
+  role: string;
+  status: ShiftStatus;
+  note: string | null;
+  allOccurrences: boolean;
+  eventId: string;
+  title: string;
+  world: string;
+  timezone: string;
+  start: string;
+  end: string;
+  occurrenceStart: string;
+}
+
+const STATUS_BADGES: Record<ShiftStatus, { variant: "warning" | "success" | "danger"; label: string }> = {
+  Pending: { variant: "warning", label: "Awaiting reply" },
+  Accepted: { variant: "success", label: "Accepted" },
+  Declined: { variant: "danger", label: "Declined" },
+};
+
+function formatShift(start: string, end: string, timezone: string): string {
+  const from = new Date(start).toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: timezone,
+  });
+  const to = new Date(end).toLocaleTimeString(undefined, {
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: timezone,
+    timeZoneName: "short",
+  });
+  return `${from} – ${to}`;
+}
+
+export function ShiftsSection() {
+  const [shifts, setShifts] = useState<Shift[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [responding, setResponding] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchShifts();
+  }, []);
+
+  const fetchShifts = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/user/shifts");
+      if (response.ok) {
+        const data = await response.json();
+        setShifts(data.shifts);
+      }
+    } catch (error) {
+      console.error("[Shifts] Fetch error:", error);
+      toast.error("Failed to load your shifts", {
+        message: "Please try refreshing the page",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRespond = async (assignmentId: string, status: Exclude<ShiftStatus, "Pending">) => {
+    try {
+      setResponding(assignmentId);
+      const response = await fetch(`/api/user/shifts/${assignmentId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+      if (!response.ok) throw new Error("Failed to respond");
+
+      // A series assignment is listed once per occurrence
+      setShifts((prev) =>
+        prev?.map((s) => (s.assignmentId === assignmentId ? { ...s, status } : s)) ?? null
+      );
+      toast.success(status === "Accepted" ? "Shift accepted" : "Shift declined");
+    } catch (error) {
+      console.error("[Shifts] Respond error:", error);
+      toast.error("Failed to update shift", {
+        message: "Please try again",
+      });
+    } finally {
+      setResponding(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!shifts || shifts.length === 0) {
+    return (
+      <EmptyState
+        icon={<CalendarClock className="w-12 h-12" />}
+        title="No upcoming shifts"
+        description="Events you are assigned to staff in the next two months will show up here."
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-slate-900 dark:text-white">
+          My Shifts
+        </h3>
+        <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+          Upcoming events you are staffing. Accepting or declining a recurring assignment applies to every occurrence.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        {shifts.map((shift) => {
+          const badge = STATUS_BADGES[shift.status];
+          return (
+            <div
+              key={`${shift.assignmentId}-${shift.occurrenceStart}`}
+              className="flex flex-col sm:flex-row sm:items-center gap-4 p-4 rounded-lg border border-slate-200 dark:border-slate-800"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <Link
+                    href={`/events/${shift.eventId}`}
+                    className="font-medium text-slate-900 dark:text-white hover:underline truncate"
+                  >
+                    {shift.title}
+                  </Link>
+                  <Badge variant="info" size="sm">{shift.role}</Badge>
+                  <Badge variant={badge.variant} size="sm">{badge.label}</Badge>
+                  {shift.allOccurrences && (
+                    <Badge variant="default" size="sm">Every occurrence</Badge>
+                  )}
+                </div>
+                <p className="text-sm text-slate-600 dark:text-slate-400 mt-1 flex items-center gap-1">
+                  <MapPin className="w-3.5 h-3.5" />
+                  {shift.world}
+                </p>
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  {formatShift(shift.start, shift.end, shift.timezone)}
+                </p>
+                {shift.note && (
+                  <p className="text-sm text-slate-500 dark:text-slate-500 mt-1 italic">{shift.note}</p>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Button
+                  variant={shift.status === "Accepted" ? "primary" : "outline"}
+                  size="sm"
+                  onClick={() => handleRespond(shift.assignmentId, "Accepted")}
+                  disabled={responding === shift.assignmentId || shift.status === "Accepted"}
+                  ariaLabel={`Accept ${shift.role} shift for ${shift.title}`}
+                >
+                  <Check className="w-4 h-4" />
+                  Accept
+                </Button>
+                <Button
+                  variant={shift.status === "Declined" ? "danger" : "ghost"}
+                  size="sm"
+                  onClick={() => handleRespond(shift.assignmentId, "Declined")}
+                  disabled={responding === shift.assignmentId || shift.status === "Declined"}
+                  ariaLabel={`Decline ${shift.role} shift for ${shift.title}`}
+                >
+                  <X className="w-4 h-4" />
+                  Decline
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -97,6 +97,9 @@ export default async function ProfilePage() {
       devPortfolioUrl: true,
       imgPortfolioUrl: true,
       grStory: true,
+      // Applications from a configurable form keep the role-specific answers here
+      answers: true,
+      form: { select: { version: true, definition: true } },
     },
     orderBy: { createdAt: "desc" },
   });
@@ -0,0 +1,187 @@
+import { notFound } from "next/navigation";
+import { Activity, CheckCircle2, XCircle } from "lucide-react";
+import { Badge, Breadcrumb } from "@/components/common";
+import { cache, cacheKeys, cacheTTL } from "@/lib/cache";
+import { formatUptime, getMinecraftStatusSettings } from "@/lib/minecraft-status";
+import {
+    getIncidentHistory,
+    getNetworkStatus,
+    type NetworkServerStatus,
+    type ServerIncident,
+} from "@/lib/server-network";
+import { getStatusHistory, type StatusHistoryRange } from "@/lib/server-status-history";
+import { getUserTimezone } from "@/app/utils/timezone";
+
+// Live status, rendered per request
+export const dynamic = "force-dynamic";
+
+export const metadata = {
+    title: "Server Status | Imaginears Club",
+    description: "Live status, uptime and incident history of the Imaginears Club Minecraft servers.",
+};
+
+const INCIDENT_DAYS = 30;
+const UPTIME_RANGES: StatusHistoryRange[] = ["24h", "7d", "30d"];
+
+type ServerUptime = Record<StatusHistoryRange, number | null>;
+
+/**
+ * Uptime of one server for every range (shares cache entries with /api/server-status/history)
+ */
+async function getServerUptime(address: string): Promise<ServerUptime> {
+    const entries = await Promise.all(
+        UPTIME_RANGES.map(async (range) => {
+            try {
+                const history = await cache.getOrSet(
+                    cacheKeys.serverStatusHistory(address, range),
+                    () => getStatusHistory(address, range),
+                    { ttl: cacheTTL.serverStatusHistory }
+                );
+                return [range, history.uptimePercentage] as const;
+            } catch {
+                return [range, null] as const;
+            }
+        })
+    );
+    return Object.fromEntries(entries) as ServerUptime;
+}
+
+function formatUptimePercentage(value: number | null): string {
+    return value === null ? "—" : `${value.toFixed(value === 100 ? 0 : 1)}%`;
+}
+
+function ServerRow({ server, uptime }: { server: NetworkServerStatus; uptime: ServerUptime }) {
+    return (
+        <li className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4">
+            <div className="flex items-center gap-3">
+                {server.online ? (
+                    <CheckCircle2 className="w-5 h-5 text-green-600 dark:text-green-400" aria-hidden="true" />
+                ) : (
+                    <XCircle className="w-5 h-5 text-red-600 dark:text-red-400" aria-hidden="true" />
+                )}
+                <div>
+                    <p className="font-semibold text-slate-900 dark:text-white">{server.name}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                        {server.online
+                            ? `${server.playersOnline} player${server.playersOnline === 1 ? "" : "s"} online`
+                            : "Offline"}
+                        {server.role === "proxy" && " · Network proxy"}
+                    </p>
+                </div>
+            </div>
+            <dl className="flex gap-4 text-sm">
+                {UPTIME_RANGES.map((range) => (
+                    <div key={range} className="text-right">
+                        <dt className="text-xs text-slate-500 dark:text-slate-400">{range}</dt>
+                        <dd className="font-medium text-slate-800 dark:text-slate-200">
+                            {formatUptimePercentage(uptime[range])}
+                        </dd>
+                    </div>
+                ))}
+            </dl>
+        </li>
+    );
+}
+
+function IncidentRow({ incident, timezone }: { incident: ServerIncident; timezone: string }) {
+    const started = new Date(incident.startedAt).toLocaleString("en-US", {
+        timeZone: timezone,
+        dateStyle: "medium",
+        timeStyle: "short",
+    });
+    const ongoing = incident.resolvedAt === null;
+
+    return (
+        <li className="p-4">
+            <div className="flex items-center justify-between gap-2">
+                <p className="font-semibold text-slate-900 dark:text-white">{incident.serverName} outage</p>
+                <Badge variant={ongoing ? "danger" : "success"} size="sm">
+                    {ongoing ? "Ongoing" : "Resolved"}
+                </Badge>
+            </div>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+                {started} · {ongoing ? "for " : "lasted "}
+                {formatUptime(Math.max(60, Math.round(incident.durationMs / 1000)))}
+            </p>
+        </li>
+    );
+}
+
+/**
+ * Public status page, enabled in Settings → Minecraft Server
+ */
+export default async function StatusPage() {
+    const settings = await getMinecraftStatusSettings();
+    if (!settings.publicStatusPage) return notFound();
+
+    const [network, timezone] = await Promise.all([getNetworkStatus(), getUserTimezone()]);
+    const [uptimes, incidents] = await Promise.all([
+        Promise.all(network.servers.map((server) => getServerUptime(server.address))),
+        getIncidentHistory({
+            serverIds: network.servers.map((server) => server.id),
+            days: INCIDENT_DAYS,
+        }).catch((error) => {
+            console.error("[Status] Failed to load incidents:", error);
+            return [];
+        }),
+    ]);
+
+    const allOnline = network.servers.every((server) => server.online);
+
+    return (
+        <section className="band">
+            <div className="container py-10 max-w-3xl">
+                <Breadcrumb items={[{ label: "Server Status" }]} />
+
+                <div className="flex items-center gap-3 mb-6">
+                    <div className="flex items-center justify-center w-12 h-12 rounded-xl bg-blue-100 dark:bg-blue-900/30">
+                        <Activity className="w-6 h-6 text-blue-600 dark:text-blue-400" />
+                    </div>
+                    <div>
+                        <h1 className="text-3xl font-bold text-slate-900 dark:text-white">Server Status</h1>
+                        <p className="text-sm text-slate-600 dark:text-slate-400">
+                            {network.online
+                                ? allOnline
+                                    ? "All systems operational"
+                                    : "Some servers are experiencing issues"
+                                : "The network is currently offline"}
+                        </p>
+                    </div>
+                </div>
+
+                <div className="rounded-2xl border-2 border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm mb-8">
+                    <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-800">
+                        <h2 className="font-semibold text-slate-900 dark:text-white">Servers</h2>
+                        <p className="text-sm text-slate-600 dark:text-slate-400">
+                            {network.playersOnline} / {network.playersMax} players
+                        </p>
+                    </div>
+                    <ul className="divide-y divide-slate-200 dark:divide-slate-800">
+                        {network.servers.map((server, i) => (
+                            <ServerRow key={server.id} server={server} uptime={uptimes[i]!} />
+                        ))}
+                    </ul>
+                </div>
+
+                <div className="rounded-2xl border-2 border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-sm">
+                    <div className="p-4 border-b border-slate-200 dark:border-slate-800">
+                        <h2 className="font-semibold text-slate-900 dark:text-white">
+                            Incidents (last {INCIDENT_DAYS} days)
+                        </h2>
+                    </div>
+                    {incidents.length > 0 ? (
+                        <ul className="divide-y divide-slate-200 dark:divide-slate-800">
+                            {incidents.map((incident) => (
+                                <IncidentRow key={incident.id} incident={incident} timezone={timezone} />
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="p-4 text-sm text-slate-600 dark:text-slate-400">
+                            No incidents reported.
+                        </p>
+                    )}
+                </div>
+            </div>
+        </section>
+    );
+}
@@ -10,6 +10,10 @@ import {
 } from "./common/DropdownMenu";
 import { cn } from "@/lib/utils";
 import { formatDistanceToNow } from "date-fns";
+import { useWebSocket } from "@/hooks/useWebSocket";
+import { CHANNELS, type ServerEvents, type WebSocketMessage } from "@/lib/websocket-events";
+
+const REALTIME_ENABLED = Boolean(process.env['NEXT_PUBLIC_WEBSOCKET_URL']);
 
 export interface Notification {
   id: string;
@@ -48,14 +52,47 @@ export function NotificationCenter() {
     }
   }, []);
 
-  // Initial fetch
+  // Live updates pushed by the WebSocket server
+  const handleRealtimeMessage = useCallback((message: WebSocketMessage) => {
+    switch (message.type) {
+      case "notification:new": {
+        const data = message.data as ServerEvents["notification:new"];
+        setNotifications((prev) => [{ ...data, isRead: false }, ...prev.filter((n) => n.id !== data.id)].slice(0, 20));
+        setUnreadCount((prev) => prev + 1);
+        break;
+      }
+      case "notification:read": {
+        const { notificationId } = message.data as ServerEvents["notification:read"];
+        setNotifications((prev) => prev.map((n) => (n.id === notificationId ? { ...n, isRead: true } : n)));
+        setUnreadCount((prev) => Math.max(0, prev - 1));
+        break;
+      }
+      case "notification:archived": {
+        const { notificationId } = message.data as ServerEvents["notification:archived"];
+        setNotifications((prev) => prev.filter((n) => n.id !== notificationId));
+        break;
+      }
+      case "notification:count":
+        setUnreadCount((message.data as ServerEvents["notification:count"]).unreadCount);
+        break;
+    }
+  }, []);
+
+  const { isConnected } = useWebSocket({
+    enabled: REALTIME_ENABLED,
+    channels: [CHANNELS.NOTIFICATIONS],
+    onMessage: handleRealtimeMessage,
+  });
+
+  // Initial fetch (and a resync whenever the live connection is (re-)established)
   useEffect(() => {
     fetchNotifications();
     
-    // Poll for new notifications every 30 seconds
+    // Poll for new notifications every 30 seconds while there is no live connection
+    if (isConnected) return;
     const interval = setInterval(fetchNotifications, 30000);
     return () => clearInterval(interval);
-  }, [fetchNotifications]);
+  }, [fetchNotifications, isConnected]);
 
   // Mark single notification as read
   const markAsRead = async (id: string) => {
@@ -25,25 +25,47 @@ import {
     DropdownMenuPortal,
     Tooltip,
 } from "@/components/common";
-import { CalendarRange, Edit, Eye, EyeOff, MapPin, Tag, Clock, ArrowUpDown, MoreVertical } from "lucide-react";
+import { CalendarRange, Edit, Eye, EyeOff, MapPin, Tag, Clock, ArrowUpDown, MoreVertical, CalendarClock, Archive } from "lucide-react";
 import { useTableSort } from "@/hooks/useTableSort";
 import { useTableFilter } from "@/hooks/useTableFilter";
 import { cn } from "@/lib/utils";
 
+/** Change to one occurrence of a recurring event (dates as ISO strings) */
+export type AdminOccurrenceOverride = {
+    occurrenceStart: string;
+    cancelled: boolean;
+    startAt: string | null;
+    endAt: string | null;
+    world: string | null;
+    title: string | null;
+    shortDescription: string | null;
+    details: string | null;
+};
+
 export type AdminEventRow = {
     id: string;
     title: string;
     server: string;
     category: string;
     visibility?: "PUBLIC" | "MEMBERS_ONLY" | "STAFF_ONLY" | "HIDDEN";
-    status: "Draft" | "Published" | "Cancelled";
+    status: "Draft" | "Scheduled" | "Published" | "Archived" | "Cancelled";
     startAt: string;         // ISO
     endAt: string;           // ISO
     timezone?: string;
-    recurrenceFreq?: "NONE" | "DAILY" | "WEEKLY";
+    recurrenceFreq?: "NONE" | "DAILY" | "WEEKLY" | "MONTHLY";
     byWeekday?: string[];
     times?: string[];
     recurrenceUntil?: string | null;
+    recurrenceInterval?: number;
+    recurrenceCount?: number | null;
+    byMonthDay?: number[];
+    byWeekdayPos?: number | null;
+    exDates?: string[];
+    overrides?: AdminOccurrenceOverride[];
+    hostId?: string | null;
+    publishAt?: string | null;  // ISO
+    archiveAt?: string | null;  // ISO
+    announceOnPublish?: boolean;
     updatedAt?: string;
     shortDescription?: string | null;
     details?: string | null;
@@ -241,6 +263,7 @@ export default function EventsTable({
                                                                 <Badge
                                                                     variant={
                                                                         r.status === "Published" ? "success" :
+                                                                        r.status === "Scheduled" ? "info" :
                                                                         r.status === "Cancelled" ? "danger" :
                                                                         "default"
                                                                     }
@@ -262,6 +285,18 @@ export default function EventsTable({
                                                                 <Clock className="w-4 h-4" />
                                                                 <span>{fmt(r.startAt)} - {fmt(r.endAt)}</span>
                                                             </div>
+                                                            {r.status === "Scheduled" && r.publishAt && (
+                                                                <div className="flex items-center gap-2 text-slate-600 dark:text-slate-400">
+                                                                    <CalendarClock className="w-4 h-4" />
+                                                                    <span><strong>Publishes:</strong> {fmt(r.publishAt)}</span>
+                                                                </div>
+                                                            )}
+                                                            {r.archiveAt && r.status !== "Archived" && (
+                                                                <div className="flex items-center gap-2 text-slate-600 dark:text-slate-400">
+                                                                    <Archive className="w-4 h-4" />
+                                                                    <span><strong>Archives:</strong> {fmt(r.archiveAt)}</span>
+                                                                </div>
+                                                            )}
                                                         </div>
                                                         {r.shortDescription && (
                                                             <div className="pt-2 border-t border-slate-200 dark:border-slate-800">
@@ -295,6 +330,7 @@ export default function EventsTable({
                                             <Badge
                                                 variant={
                                                     r.status === "Published" ? "success" :
+                                                    r.status === "Scheduled" ? "info" :
                                                     r.status === "Cancelled" ? "danger" :
                                                     "default"
                                                 }
@@ -17,6 +17,7 @@ import {
     BookOpen,
     Activity,
     BarChart3,
+    ScrollText,
 } from "lucide-react";
 import { memo, useCallback, useMemo, useState, type ComponentType } from "react";
 import * as Dialog from "@radix-ui/react-dialog";
@@ -380,6 +381,12 @@ const SidebarInner = memo(function SidebarInner({
                             label="API Documentation" 
                             onClick={handleClose} 
                         />
+                        <NavItem 
+                            href="/admin/audit" 
+                            icon={ScrollText} 
+                            label="Audit Log" 
+                            onClick={handleClose} 
+                        />
                         <NavItem 
                             href="/admin/settings" 
                             icon={Settings} 
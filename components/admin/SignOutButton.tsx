@@ -6,6 +6,7 @@ import { LogOut } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { Spinner } from "@/components/common";
+import { clearAccountFavorites } from "@/lib/favorites";
 
 const LOGIN_PATH = "/login";
 const TIMEOUT_MS = 8000;
@@ -58,8 +59,11 @@ export default function SignOutButton() {
                     try {
                         // Clear sessionStorage (temporary session data)
                         sessionStorage.clear();
+
+                        // Favorites are a copy of the account's
+                        clearAccountFavorites();
                         
-                        // Note: We intentionally don't clear localStorage here
+                        // Note: We intentionally don't clear the rest of localStorage
                         // to preserve user preferences like theme that should persist
                     } catch (e) {
                         console.warn("Failed to clear session storage:", e);
@@ -87,6 +87,9 @@ interface EventAnalytics {
     uniqueVisitors: number;
     totalClicks: number;
     favoriteCount: number;
+    // RSVPs and players seen in-game, over all occurrences (null until any)
+    expectedAttendance: number | null;
+    actualAttendance: number | null;
   }>;
 }
 
@@ -550,6 +553,14 @@ export function AnalyticsDashboard() {
                       <p className="font-semibold text-lg">{event.totalClicks}</p>
                       <p className="text-xs text-muted-foreground">Clicks</p>
                     </div>
+                    <div>
+                      <p className="font-semibold text-lg">{event.expectedAttendance ?? "—"}</p>
+                      <p className="text-xs text-muted-foreground">RSVPs</p>
+                    </div>
+                    <div>
+                      <p className="font-semibold text-lg">{event.actualAttendance ?? "—"}</p>
+                      <p className="text-xs text-muted-foreground">Attended</p>
+                    </div>
                   </div>
                 </div>
               ))}
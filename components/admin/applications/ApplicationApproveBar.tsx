@@ -1,10 +1,90 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
-import { Badge, Separator } from "@/components/common";
-import { Eye, CheckCircle, XCircle, Loader2 } from "lucide-react";
+import {
+    Badge,
+    Button,
+    ConfirmDialog,
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    Input,
+    Separator,
+} from "@/components/common";
+import { Eye, CheckCircle, XCircle, Loader2, AlertTriangle, MinusCircle, RotateCcw, Copy } from "lucide-react";
+
+type QuorumStatus = { required: number; tally: { approve: number; reject: number; abstain: number } };
+
+type ProvisioningStep = { key: "account" | "role" | "minecraft" | "luckperms"; status: string; message: string };
+
+type ProvisioningPreview = { enabled: boolean; blocked: boolean; steps: ProvisioningStep[] };
+
+type ProvisioningOutcome = { error: string | null; temporaryPassword: string | null; steps: ProvisioningStep[] };
+
+class QuorumNotMetError extends Error {
+    readonly quorum: QuorumStatus;
+
+    constructor(quorum: QuorumStatus) {
+        super("The approval quorum has not been met");
+        this.quorum = quorum;
+    }
+}
+
+class ProvisioningError extends Error {
+    readonly steps: ProvisioningStep[];
+
+    constructor(message: string, steps: ProvisioningStep[]) {
+        super(message);
+        this.steps = steps;
+    }
+}
+
+const STEP_LABELS: Record<ProvisioningStep["key"], string> = {
+    account: "Account",
+    role: "Role",
+    minecraft: "Minecraft",
+    luckperms: "LuckPerms",
+};
+
+function StepIcon({ status }: { status: string }) {
+    switch (status) {
+        case "ready":
+        case "done":
+            return <CheckCircle className="w-4 h-4 shrink-0 text-emerald-600 dark:text-emerald-400" />;
+        case "warning":
+            return <AlertTriangle className="w-4 h-4 shrink-0 text-amber-600 dark:text-amber-400" />;
+        case "blocked":
+        case "failed":
+        case "rollback_failed":
+            return <XCircle className="w-4 h-4 shrink-0 text-red-600 dark:text-red-400" />;
+        case "rolled_back":
+            return <RotateCcw className="w-4 h-4 shrink-0 text-slate-500 dark:text-slate-400" />;
+        default:
+            return <MinusCircle className="w-4 h-4 shrink-0 text-slate-400 dark:text-slate-500" />;
+    }
+}
+
+function ProvisioningSteps({ steps }: { steps: ProvisioningStep[] }) {
+    return (
+        <ul className="space-y-2 text-sm">
+            {steps.map((step, i) => (
+                <li key={`${step.key}-${i}`} className="flex items-start gap-2">
+                    <StepIcon status={step.status} />
+                    <span className="text-slate-700 dark:text-slate-300">
+                        <span className="font-medium text-slate-900 dark:text-white">{STEP_LABELS[step.key]}:</span>{" "}
+                        {step.message}
+                        {step.status === "rolled_back" && " (undone)"}
+                    </span>
+                </li>
+            ))}
+        </ul>
+    );
+}
 
 export default function ActionBar({
                                       id,
@@ -15,7 +95,21 @@ export default function ActionBar({
 }) {
     const [pending, setPending] = useState<null | "InReview" | "Approved" | "Rejected">(null);
 
-    async function setStatus(status: "InReview" | "Approved" | "Rejected") {
+    const [quorumBlock, setQuorumBlock] = useState<QuorumStatus | null>(null);
+    const [rejecting, setRejecting] = useState(false);
+    const [rejectReason, setRejectReason] = useState("");
+    // The dialog's Enter shortcut keeps the onConfirm from when it opened
+    const rejectReasonRef = useRef("");
+
+    const [preview, setPreview] = useState<ProvisioningPreview | null>(null);
+    const [outcome, setOutcome] = useState<ProvisioningOutcome | null>(null);
+    // Kept for the quorum override, which resends the approval
+    const provisionRef = useRef(true);
+
+    async function setStatus(
+        status: "InReview" | "Approved" | "Rejected",
+        options: { overrideQuorum?: boolean; reason?: string; provision?: boolean } = {}
+    ) {
         setPending(status);
 
         const statusLabels = {
@@ -28,9 +122,24 @@ export default function ActionBar({
             const res = await fetch(`/api/admin/applications/${id}`, {
                 method: "PATCH",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ status }),
+                body: JSON.stringify({
+                    status,
+                    ...(options.overrideQuorum && { overrideQuorum: true }),
+                    ...(options.reason && { reason: options.reason }),
+                    ...(options.provision && { provision: true }),
+                }),
             });
+            const data = await res.json().catch(() => ({}));
+            if (data.code === "QUORUM_NOT_MET") throw new QuorumNotMetError(data.quorum);
+            if (data.code === "PROVISIONING_BLOCKED" || data.code === "PROVISIONING_FAILED") {
+                throw new ProvisioningError(data.error, data.steps ?? []);
+            }
             if (!res.ok) throw new Error("Failed to update status");
+            // A new account's temporary password is shown before reloading
+            if (data.provisioning?.temporaryPassword) {
+                setOutcome({ error: null, temporaryPassword: data.provisioning.temporaryPassword, steps: data.provisioning.steps });
+                return;
+            }
             // Reload to reflect new status
             window.location.reload();
         })();
@@ -38,14 +147,52 @@ export default function ActionBar({
         toast.promise(updatePromise, {
             loading: `Updating to ${statusLabels[status]}...`,
             success: `Status updated to ${statusLabels[status]}!`,
-            error: "Failed to update status",
+            error: (err) =>
+                err instanceof QuorumNotMetError || err instanceof ProvisioningError ? err.message : "Failed to update status",
         });
 
         try {
             await updatePromise;
+        } catch (err) {
+            if (err instanceof QuorumNotMetError) setQuorumBlock(err.quorum);
+            if (err instanceof ProvisioningError) setOutcome({ error: err.message, temporaryPassword: null, steps: err.steps });
+        } finally {
+            setPending(null);
+        }
+    }
+
+    // Approving shows what provisioning will do first
+    async function startApproval() {
+        setPending("Approved");
+        let plan: ProvisioningPreview | null = null;
+        try {
+            const res = await fetch(`/api/admin/applications/${id}/provision`, { cache: "no-store" });
+            if (!res.ok) throw new Error("Failed to load provisioning preview");
+            plan = await res.json();
+        } catch {
+            toast.error("Failed to load provisioning preview");
         } finally {
             setPending(null);
         }
+        if (!plan) return;
+        if (!plan.enabled) {
+            provisionRef.current = false;
+            setStatus("Approved");
+            return;
+        }
+        setPreview(plan);
+    }
+
+    function approve(provision: boolean) {
+        provisionRef.current = provision;
+        setPreview(null);
+        setStatus("Approved", { provision });
+    }
+
+    function closeOutcome() {
+        const approved = outcome?.error === null;
+        setOutcome(null);
+        if (approved) window.location.reload();
     }
 
     const getStatusBadge = () => {
@@ -118,7 +265,7 @@ export default function ActionBar({
                                     "focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
                                 )}
                                 disabled={!!pending}
-                                onClick={() => setStatus("Approved")}
+                                onClick={startApproval}
                             >
                                 {pending === "Approved" ? (
                                     <>
@@ -144,7 +291,7 @@ export default function ActionBar({
                                     "focus:outline-none focus:ring-2 focus:ring-red-500/50"
                                 )}
                                 disabled={!!pending}
-                                onClick={() => setStatus("Rejected")}
+                                onClick={() => setRejecting(true)}
                             >
                                 {pending === "Rejected" ? (
                                     <>
@@ -162,6 +309,116 @@ export default function ActionBar({
                     </div>
                 </div>
             </div>
+
+            <ConfirmDialog
+                open={quorumBlock !== null}
+                onOpenChange={(open) => !open && setQuorumBlock(null)}
+                onConfirm={() => {
+                    setQuorumBlock(null);
+                    setStatus("Approved", { overrideQuorum: true, provision: provisionRef.current });
+                }}
+                title="Approve without quorum?"
+                description={
+                    quorumBlock
+                        ? `Approving needs ${quorumBlock.required} approve vote${quorumBlock.required === 1 ? "" : "s"} and more approve than reject votes. So far: ${quorumBlock.tally.approve} approve, ${quorumBlock.tally.reject} reject, ${quorumBlock.tally.abstain} abstain. The override is recorded in the status history.`
+                        : ""
+                }
+                confirmText="Approve anyway"
+                cancelText="Cancel"
+                variant="warning"
+            />
+
+            <ConfirmDialog
+                open={preview !== null}
+                onOpenChange={(open) => !open && setPreview(null)}
+                onConfirm={() => approve(!preview?.blocked)}
+                title={preview?.blocked ? "Provisioning is blocked" : "Approve and provision staff account?"}
+                description={
+                    preview?.blocked
+                        ? "Fix the blocked step first, or approve without setting up the staff account."
+                        : "Approving sets the applicant up as staff:"
+                }
+                confirmText={preview?.blocked ? "Approve without provisioning" : "Approve & Provision"}
+                cancelText="Cancel"
+                variant={preview?.blocked ? "warning" : "info"}
+            >
+                {preview && <ProvisioningSteps steps={preview.steps} />}
+                {preview && !preview.blocked && (
+                    <button
+                        type="button"
+                        className="mt-3 text-sm text-slate-600 dark:text-slate-400 underline hover:text-slate-900 dark:hover:text-white"
+                        onClick={() => approve(false)}
+                    >
+                        Approve without provisioning
+                    </button>
+                )}
+            </ConfirmDialog>
+
+            <Dialog open={outcome !== null} onOpenChange={(open) => !open && closeOutcome()}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>{outcome?.error ? "Provisioning failed" : "Staff account created"}</DialogTitle>
+                        <DialogDescription>
+                            {outcome?.error
+                                ? "Anything already done was undone and the application was not approved."
+                                : "Give the new staff member this temporary password privately. It is not stored and won't be shown again."}
+                        </DialogDescription>
+                    </DialogHeader>
+                    {outcome?.temporaryPassword && (
+                        <div className="flex items-center gap-2">
+                            <code className="flex-1 px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 font-mono text-sm select-all">
+                                {outcome.temporaryPassword}
+                            </code>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => {
+                                    window.navigator.clipboard
+                                        .writeText(outcome.temporaryPassword!)
+                                        .then(() => toast.success("Password copied"))
+                                        .catch(() => toast.error("Failed to copy"));
+                                }}
+                                leftIcon={<Copy className="w-4 h-4" />}
+                            >
+                                Copy
+                            </Button>
+                        </div>
+                    )}
+                    {outcome?.error && <p className="text-sm text-red-600 dark:text-red-400">{outcome.error}</p>}
+                    {outcome && <ProvisioningSteps steps={outcome.steps} />}
+                    <DialogFooter>
+                        <Button onClick={closeOutcome}>Done</Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            <ConfirmDialog
+                open={rejecting}
+                onOpenChange={setRejecting}
+                onConfirm={() => {
+                    setRejecting(false);
+                    setStatus("Rejected", { reason: rejectReasonRef.current.trim() });
+                }}
+                title="Reject application?"
+                description="The applicant is emailed that they were not selected."
+                confirmText="Reject"
+                cancelText="Cancel"
+                variant="danger"
+            >
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                    Reason (optional)
+                    <Input
+                        value={rejectReason}
+                        onChange={(e) => {
+                            rejectReasonRef.current = e.target.value;
+                            setRejectReason(e.target.value);
+                        }}
+                        maxLength={500}
+                        placeholder="Included in the rejection email and kept in the status history"
+                        className="mt-1 font-normal"
+                    />
+                </label>
+            </ConfirmDialog>
         </div>
     );
 }
@@ -0,0 +1,460 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { CornerDownRight, MessageSquare, Trash2, UserPlus, X } from "lucide-react";
+import { Badge, Button } from "@/components/common";
+import { cn } from "@/lib/utils";
+
+type Person = { id: string; name: string };
+type Vote = "approve" | "reject" | "abstain";
+type Comment = { id: string; body: string; createdAt: string; author: Person | null };
+
+type ReviewData = {
+    quorum: { required: number; tally: Record<Vote, number>; met: boolean };
+    rubric: string[];
+    averages: Record<string, number | null>;
+    reviewers: { user: Person; assignedAt: string; assignedBy: Person | null }[];
+    votes: { reviewer: Person; vote: Vote; scores: Record<string, number>; note: string | null; updatedAt: string }[];
+    comments: (Comment & { replies: Comment[] })[];
+    history: {
+        id: string;
+        fromStatus: string | null;
+        toStatus: string;
+        reason: string | null;
+        quorumOverridden: boolean;
+        createdAt: string;
+        changedBy: Person | null;
+    }[];
+    candidates: { id: string; name: string; role: string }[];
+    currentUserId: string;
+};
+
+const VOTE_LABEL: Record<Vote, string> = { approve: "Approve", reject: "Reject", abstain: "Abstain" };
+const VOTE_BADGE: Record<Vote, "success" | "danger" | "default"> = { approve: "success", reject: "danger", abstain: "default" };
+const STATUS_LABEL: Record<string, string> = { New: "New", InReview: "In Review", Approved: "Approved", Rejected: "Rejected" };
+
+const SECTION = "mt-6 rounded-2xl border border-slate-200 dark:border-slate-800 bg-white/70 dark:bg-slate-900/70 p-4 sm:p-6 space-y-3";
+const FIELD = "w-full rounded-lg border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50";
+
+function formatDate(value: string) {
+    return new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+/**
+ * Review workflow of an application: the reviewer panel, votes with rubric
+ * scores against the approval quorum, internal comment threads and the
+ * status history. Comments are never shown to the applicant.
+ */
+export default function ApplicationReviewPanel({ applicationId, decided }: { applicationId: string; decided: boolean }) {
+    const [data, setData] = useState<ReviewData | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [busy, setBusy] = useState(false);
+
+    const [addReviewerId, setAddReviewerId] = useState("");
+    const [vote, setVote] = useState<Vote | null>(null);
+    const [scores, setScores] = useState<Record<string, number>>({});
+    const [note, setNote] = useState("");
+    const [comment, setComment] = useState("");
+    const [replyTo, setReplyTo] = useState<string | null>(null);
+    const [reply, setReply] = useState("");
+
+    const load = useCallback(async () => {
+        try {
+            const res = await fetch(`/api/admin/applications/${applicationId}/review`, { credentials: "include" });
+            if (!res.ok) throw new Error(`Failed to load review (${res.status})`);
+            const review: ReviewData = await res.json();
+            setData(review);
+
+            const mine = review.votes.find((v) => v.reviewer.id === review.currentUserId);
+            setVote(mine?.vote ?? null);
+            setScores(mine?.scores ?? {});
+            setNote(mine?.note ?? "");
+        } catch (error) {
+            console.error("[ApplicationReviewPanel] Load error:", error);
+        } finally {
+            setLoading(false);
+        }
+    }, [applicationId]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    /** Send a change and reload the panel; false when it failed */
+    const send = async (path: string, method: "POST" | "PUT" | "DELETE", body?: unknown) => {
+        setBusy(true);
+        try {
+            const res = await fetch(`/api/admin/applications/${applicationId}${path}`, {
+                method,
+                credentials: "include",
+                ...(body !== undefined && {
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify(body),
+                }),
+            });
+            if (!res.ok) {
+                const err = await res.json().catch(() => ({}));
+                throw new Error(err.error || `Request failed (${res.status})`);
+            }
+            await load();
+            return true;
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Request failed");
+            return false;
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <section className={SECTION}>
+                <p className="text-sm text-slate-500 dark:text-slate-400">Loading review…</p>
+            </section>
+        );
+    }
+    if (!data) {
+        return (
+            <section className={SECTION}>
+                <p className="text-sm text-red-600 dark:text-red-400">The review could not be loaded.</p>
+            </section>
+        );
+    }
+
+    const onPanel = new Set(data.reviewers.map((r) => r.user.id));
+    const available = data.candidates.filter((c) => !onPanel.has(c.id));
+    const { quorum } = data;
+
+    return (
+        <>
+            {/* Panel and votes */}
+            <section className={SECTION}>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                    <h2 className="text-lg font-semibold">Review</h2>
+                    {quorum.required === 0 ? (
+                        <Badge variant="default">No quorum required</Badge>
+                    ) : (
+                        <Badge variant={quorum.met ? "success" : "warning"}>
+                            {quorum.met ? "Quorum met" : "Quorum not met"} · {quorum.tally.approve}/{quorum.required} approve
+                        </Badge>
+                    )}
+                </div>
+
+                <div className="flex flex-wrap gap-2 text-sm">
+                    {(Object.keys(VOTE_LABEL) as Vote[]).map((v) => (
+                        <span key={v} className="rounded-lg bg-slate-100 dark:bg-slate-800 px-2 py-1">
+                            {VOTE_LABEL[v]}: <strong>{quorum.tally[v]}</strong>
+                        </span>
+                    ))}
+                </div>
+
+                {data.rubric.length > 0 && (
+                    <dl className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-sm">
+                        {data.rubric.map((criterion) => (
+                            <div key={criterion} className="rounded-lg border border-slate-200 dark:border-slate-800 px-3 py-2">
+                                <dt className="text-xs text-slate-500 dark:text-slate-400">{criterion}</dt>
+                                <dd className="font-semibold">{data.averages[criterion] ?? "—"}<span className="text-xs font-normal text-slate-500"> / 5</span></dd>
+                            </div>
+                        ))}
+                    </dl>
+                )}
+
+                <h3 className="pt-2 text-sm font-semibold text-slate-700 dark:text-slate-200">Reviewers</h3>
+                {data.reviewers.length === 0 ? (
+                    <p className="text-sm text-slate-500 dark:text-slate-400">No reviewers assigned yet.</p>
+                ) : (
+                    <ul className="divide-y divide-slate-200 dark:divide-slate-800 rounded-xl border border-slate-200 dark:border-slate-800">
+                        {data.reviewers.map((reviewer) => {
+                            const cast = data.votes.find((v) => v.reviewer.id === reviewer.user.id);
+                            return (
+                                <li key={reviewer.user.id} className="px-3 py-2 text-sm">
+                                    <div className="flex items-center gap-2">
+                                        <span className="font-medium flex-1 min-w-0 truncate">{reviewer.user.name}</span>
+                                        {cast ? (
+                                            <Badge variant={VOTE_BADGE[cast.vote]}>{VOTE_LABEL[cast.vote]}</Badge>
+                                        ) : (
+                                            <span className="text-xs text-slate-500 dark:text-slate-400">No vote yet</span>
+                                        )}
+                                        <button
+                                            type="button"
+                                            onClick={() => send(`/reviewers/${reviewer.user.id}`, "DELETE")}
+                                            disabled={busy}
+                                            aria-label={`Remove ${reviewer.user.name} from the panel`}
+                                            className="p-1 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50"
+                                        >
+                                            <X className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                    {cast && (Object.keys(cast.scores).length > 0 || cast.note) && (
+                                        <div className="mt-1 text-xs text-slate-600 dark:text-slate-300 space-y-1">
+                                            {Object.keys(cast.scores).length > 0 && (
+                                                <p>{Object.entries(cast.scores).map(([c, s]) => `${c} ${s}/5`).join(" · ")}</p>
+                                            )}
+                                            {cast.note && <p className="whitespace-pre-wrap">{cast.note}</p>}
+                                        </div>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+
+                <div className="flex flex-wrap items-center gap-2">
+                    <select
+                        aria-label="Staff member to add"
+                        value={addReviewerId}
+                        onChange={(e) => setAddReviewerId(e.target.value)}
+                        className={cn(FIELD, "w-auto min-w-48")}
+                    >
+                        <option value="">Add a reviewer…</option>
+                        {available.map((c) => (
+                            <option key={c.id} value={c.id}>{c.name} ({c.role})</option>
+                        ))}
+                    </select>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={!addReviewerId || busy}
+                        onClick={async () => {
+                            if (await send("/reviewers", "POST", { userId: addReviewerId })) setAddReviewerId("");
+                        }}
+                        leftIcon={<UserPlus className="w-4 h-4" />}
+                    >
+                        Assign
+                    </Button>
+                </div>
+
+                {!decided && (
+                    <div className="space-y-3 rounded-xl border border-slate-200 dark:border-slate-800 p-3">
+                        <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-200">Your Vote</h3>
+                        <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Your vote">
+                            {(Object.keys(VOTE_LABEL) as Vote[]).map((v) => (
+                                <button
+                                    key={v}
+                                    type="button"
+                                    role="radio"
+                                    aria-checked={vote === v}
+                                    onClick={() => setVote(v)}
+                                    className={cn(
+                                        "px-3 py-1.5 rounded-lg text-sm font-medium border-2 transition-colors",
+                                        vote === v
+                                            ? "border-blue-500 bg-blue-50 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200"
+                                            : "border-slate-200 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800"
+                                    )}
+                                >
+                                    {VOTE_LABEL[v]}
+                                </button>
+                            ))}
+                        </div>
+                        {data.rubric.length > 0 && (
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                                {data.rubric.map((criterion) => (
+                                    <label key={criterion} className="text-xs text-slate-600 dark:text-slate-300">
+                                        {criterion}
+                                        <select
+                                            value={scores[criterion] ?? ""}
+                                            onChange={(e) => {
+                                                const next = { ...scores };
+                                                if (e.target.value) next[criterion] = Number(e.target.value);
+                                                else delete next[criterion];
+                                                setScores(next);
+                                            }}
+                                            className={cn(FIELD, "mt-1")}
+                                        >
+                                            <option value="">Not scored</option>
+                                            {[1, 2, 3, 4, 5].map((n) => (
+                                                <option key={n} value={n}>{n}</option>
+                                            ))}
+                                        </select>
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+                        <textarea
+                            aria-label="Vote note"
+                            placeholder="Reasoning (optional)"
+                            maxLength={500}
+                            rows={2}
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                            className={FIELD}
+                        />
+                        <Button
+                            variant="primary"
+                            size="sm"
+                            disabled={!vote || busy}
+                            onClick={async () => {
+                                if (await send("/vote", "PUT", { vote, scores, note: note.trim() || null })) {
+                                    toast.success("Vote saved");
+                                }
+                            }}
+                        >
+                            Save Vote
+                        </Button>
+                    </div>
+                )}
+            </section>
+
+            {/* Internal comments */}
+            <section className={SECTION}>
+                <h2 className="text-lg font-semibold mb-2 flex items-center gap-2">
+                    <MessageSquare className="w-5 h-5" />
+                    Internal Comments
+                </h2>
+                {data.comments.length === 0 && (
+                    <p className="text-sm text-slate-500 dark:text-slate-400">No comments yet.</p>
+                )}
+                <ul className="space-y-3">
+                    {data.comments.map((thread) => (
+                        <li key={thread.id} className="space-y-2">
+                            <CommentItem
+                                comment={thread}
+                                canDelete={thread.author?.id === data.currentUserId}
+                                disabled={busy}
+                                onDelete={() => send(`/comments/${thread.id}`, "DELETE")}
+                                onReply={() => {
+                                    setReplyTo(replyTo === thread.id ? null : thread.id);
+                                    setReply("");
+                                }}
+                            />
+                            {thread.replies.map((r) => (
+                                <div key={r.id} className="ml-6 flex gap-2">
+                                    <CornerDownRight className="w-4 h-4 mt-3 shrink-0 text-slate-400" aria-hidden="true" />
+                                    <div className="flex-1 min-w-0">
+                                        <CommentItem
+                                            comment={r}
+                                            canDelete={r.author?.id === data.currentUserId}
+                                            disabled={busy}
+                                            onDelete={() => send(`/comments/${r.id}`, "DELETE")}
+                                        />
+                                    </div>
+                                </div>
+                            ))}
+                            {replyTo === thread.id && (
+                                <div className="ml-6 space-y-2">
+                                    <textarea
+                                        aria-label="Reply"
+                                        placeholder="Write a reply…"
+                                        maxLength={4000}
+                                        rows={2}
+                                        value={reply}
+                                        onChange={(e) => setReply(e.target.value)}
+                                        className={FIELD}
+                                    />
+                                    <div className="flex gap-2">
+                                        <Button
+                                            variant="primary"
+                                            size="sm"
+                                            disabled={!reply.trim() || busy}
+                                            onClick={async () => {
+                                                if (await send("/comments", "POST", { body: reply, parentId: thread.id })) {
+                                                    setReplyTo(null);
+                                                    setReply("");
+                                                }
+                                            }}
+                                        >
+                                            Reply
+                                        </Button>
+                                        <Button variant="ghost" size="sm" onClick={() => setReplyTo(null)}>
+                                            Cancel
+                                        </Button>
+                                    </div>
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+                <div className="space-y-2 pt-2">
+                    <textarea
+                        aria-label="New comment"
+                        placeholder="Add an internal comment…"
+                        maxLength={4000}
+                        rows={3}
+                        value={comment}
+                        onChange={(e) => setComment(e.target.value)}
+                        className={FIELD}
+                    />
+                    <Button
+                        variant="primary"
+                        size="sm"
+                        disabled={!comment.trim() || busy}
+                        onClick={async () => {
+                            if (await send("/comments", "POST", { body: comment })) setComment("");
+                        }}
+                    >
+                        Comment
+                    </Button>
+                </div>
+            </section>
+
+            {/* Status history */}
+            <section className={SECTION}>
+                <h2 className="text-lg font-semibold mb-2">Status History</h2>
+                {data.history.length === 0 ? (
+                    <p className="text-sm text-slate-500 dark:text-slate-400">No status changes recorded.</p>
+                ) : (
+                    <ol className="relative border-l-2 border-slate-200 dark:border-slate-800 ml-2 space-y-3">
+                        {data.history.map((h) => (
+                            <li key={h.id} className="ml-4 text-sm">
+                                <span className="absolute -left-[5px] mt-1.5 w-2 h-2 rounded-full bg-slate-400 dark:bg-slate-500" aria-hidden="true" />
+                                <p className="font-medium">
+                                    {h.fromStatus ? `${STATUS_LABEL[h.fromStatus] ?? h.fromStatus} → ` : "Submitted as "}
+                                    {STATUS_LABEL[h.toStatus] ?? h.toStatus}
+                                    {h.quorumOverridden && (
+                                        <Badge variant="warning" className="ml-2">Quorum overridden</Badge>
+                                    )}
+                                </p>
+                                <p className="text-xs text-slate-500 dark:text-slate-400">
+                                    {h.changedBy?.name ?? (h.fromStatus ? "System" : "Applicant")} · {formatDate(h.createdAt)}
+                                </p>
+                                {h.reason && <p className="text-xs text-slate-600 dark:text-slate-300 mt-0.5">{h.reason}</p>}
+                            </li>
+                        ))}
+                    </ol>
+                )}
+            </section>
+        </>
+    );
+}
+
+function CommentItem({
+    comment,
+    canDelete,
+    disabled,
+    onDelete,
+    onReply,
+}: {
+    comment: Comment;
+    canDelete: boolean;
+    disabled: boolean;
+    onDelete: () => void;
+    onReply?: () => void;
+}) {
+    return (
+        <div className="rounded-xl bg-slate-50 dark:bg-slate-800/60 px-3 py-2">
+            <div className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+                <span className="font-medium text-slate-700 dark:text-slate-200">{comment.author?.name ?? "Former staff"}</span>
+                <span>{formatDate(comment.createdAt)}</span>
+                <span className="flex-1" />
+                {onReply && (
+                    <button type="button" onClick={onReply} className="hover:underline">
+                        Reply
+                    </button>
+                )}
+                {canDelete && (
+                    <button
+                        type="button"
+                        onClick={onDelete}
+                        disabled={disabled}
+                        aria-label="Delete comment"
+                        className="p-0.5 rounded hover:text-red-600 disabled:opacity-50"
+                    >
+                        <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                )}
+            </div>
+            <p className="mt-1 text-sm whitespace-pre-wrap break-words">{comment.body}</p>
+        </div>
+    );
+}
@@ -1,254 +1,236 @@
 "use client";
 
-import { useMemo, useState } from "react";
-
-type Role = "Developer" | "GuestServices" | "Imaginear";
-
-export type ApplicationFormValue = {
-    name: string;
-    email: string;
-    role: Role;
-    // shared:
-    availability?: string;
-    portfolioUrl?: string;
-    // dev-specific:
-    github?: string;
-    languages?: string[];
-    // guest services-specific:
-    customerExperienceYears?: number | "";
-    hasWeekendAvailability?: "Yes" | "No" | "";
-    // imaginear-specific:
-    creativeDiscipline?: "Design" | "Music" | "Writing" | "Performance" | "";
-    sampleWorkUrl?: string;
-    // follow-ups:
-    priorExperience?: "Yes" | "No" | "";
-    priorExperienceDetails?: string;
-};
-
-export default function DynamicApplicationForm({
-                                                   initial,
-                                                   onSubmit,
-                                               }: {
-    initial?: Partial<ApplicationFormValue>;
-    onSubmit: (values: ApplicationFormValue) => Promise<void> | void;
-}) {
-    const [v, setV] = useState<ApplicationFormValue>({
-        name: initial?.name ?? "",
-        email: initial?.email ?? "",
-        role: (initial?.role ?? "Developer") as Role,
-        availability: initial?.availability ?? "",
-        portfolioUrl: initial?.portfolioUrl ?? "",
-        github: initial?.github ?? "",
-        languages: initial?.languages ?? [],
-        customerExperienceYears: initial?.customerExperienceYears ?? "",
-        hasWeekendAvailability: (initial?.hasWeekendAvailability ?? "") as any,
-        creativeDiscipline: (initial?.creativeDiscipline ?? "") as any,
-        sampleWorkUrl: initial?.sampleWorkUrl ?? "",
-        priorExperience: (initial?.priorExperience ?? "") as any,
-        priorExperienceDetails: initial?.priorExperienceDetails ?? "",
-    });
-
-    const LANGS = useMemo(
-        () => ["TypeScript", "JavaScript", "Python", "Go", "Rust", "C#", "Java"],
-        []
+import { Input } from "@/components/common";
+import { cn } from "@/lib/utils";
+import {
+    isQuestionVisible,
+    type FormAnswers,
+    type FormDefinition,
+    type FormQuestion,
+} from "@/lib/validation/application-form";
+
+const fieldClass = (hasError: boolean) =>
+    cn(
+        "w-full rounded-xl border-2 transition-all duration-150 px-3 py-2 text-sm",
+        "bg-white dark:bg-slate-900",
+        "text-slate-900 dark:text-white",
+        "placeholder:text-slate-400 dark:placeholder:text-slate-500",
+        "focus:outline-none focus:ring-2 focus:ring-offset-2",
+        "focus:ring-offset-white dark:focus:ring-offset-slate-900",
+        hasError
+            ? "border-red-300 dark:border-red-700 focus:border-red-500 focus:ring-red-500/50"
+            : "border-slate-300 dark:border-slate-700 focus:border-blue-500 focus:ring-blue-500/50"
     );
 
-    const DISCIPLINES: NonNullable<ApplicationFormValue["creativeDiscipline"]>[] =
-        ["Design", "Music", "Writing", "Performance"];
-
-    const roleBlock = {
-        Developer: (
-            <>
-                <div>
-                    <label className="text-sm font-medium">GitHub</label>
-                    <input
-                        value={v.github ?? ""}
-                        onChange={(e) => setV({ ...v, github: e.target.value })}
-                        placeholder="https://github.com/yourname"
-                        className="mt-1 w-full rounded-2xl border px-4 py-3"
-                    />
-                </div>
-                <div>
-                    <label className="text-sm font-medium">Languages</label>
-                    <div className="mt-2 flex flex-wrap gap-2">
-                        {LANGS.map((lang) => {
-                            const checked = v.languages?.includes(lang) ?? false;
-                            return (
-                                <label key={lang} className="inline-flex items-center gap-2 text-sm">
-                                    <input
-                                        type="checkbox"
-                                        checked={checked}
-                                        onChange={() => {
-                                            const next = new Set(v.languages);
-                                            checked ? next.delete(lang) : next.add(lang);
-                                            setV({ ...v, languages: Array.from(next) });
-                                        }}
-                                    />
-                                    {lang}
-                                </label>
-                            );
-                        })}
-                    </div>
-                </div>
-                <div>
-                    <label className="text-sm font-medium">Portfolio URL (optional)</label>
-                    <input
-                        value={v.portfolioUrl ?? ""}
-                        onChange={(e) => setV({ ...v, portfolioUrl: e.target.value })}
-                        placeholder="https://…"
-                        className="mt-1 w-full rounded-2xl border px-4 py-3"
-                    />
-                </div>
-            </>
-        ),
-        GuestServices: (
-            <>
-                <div>
-                    <label className="text-sm font-medium">Years in customer-facing roles</label>
-                    <input
-                        type="number"
-                        min={0}
-                        value={v.customerExperienceYears ?? ""}
-                        onChange={(e) =>
-                            setV({ ...v, customerExperienceYears: e.target.value === "" ? "" : Number(e.target.value) })
-                        }
-                        className="mt-1 w-full rounded-2xl border px-4 py-3"
-                    />
-                </div>
-                <div>
-                    <label className="text-sm font-medium">Weekend availability?</label>
-                    <select
-                        value={v.hasWeekendAvailability ?? ""}
-                        onChange={(e) => setV({ ...v, hasWeekendAvailability: e.target.value as any })}
-                        className="mt-1 w-full rounded-2xl border px-4 py-3"
-                    >
-                        <option value="">Choose…</option>
-                        <option>Yes</option>
-                        <option>No</option>
-                    </select>
-                </div>
-            </>
-        ),
-        Imaginear: (
-            <>
-                <div>
-                    <label className="text-sm font-medium">Primary discipline</label>
-                    <select
-                        value={v.creativeDiscipline ?? ""}
-                        onChange={(e) => setV({ ...v, creativeDiscipline: e.target.value as any })}
-                        className="mt-1 w-full rounded-2xl border px-4 py-3"
-                    >
-                        <option value="">Choose…</option>
-                        {DISCIPLINES.map((d) => (
-                            <option key={d}>{d}</option>
-                        ))}
-                    </select>
-                </div>
-                <div>
-                    <label className="text-sm font-medium">Sample work URL</label>
-                    <input
-                        value={v.sampleWorkUrl ?? ""}
-                        onChange={(e) => setV({ ...v, sampleWorkUrl: e.target.value })}
-                        placeholder="Portfolio, drive link, or samples"
-                        className="mt-1 w-full rounded-2xl border px-4 py-3"
-                    />
-                </div>
-            </>
-        ),
-    }[v.role];
+/**
+ * Questions asked given the current answers: hiding a question hides the
+ * questions depending on it too
+ */
+function visibleQuestions(definition: FormDefinition, answers: FormAnswers): FormQuestion[] {
+    const asked: FormAnswers = {};
+    const visible: FormQuestion[] = [];
+    for (const section of definition.sections) {
+        for (const question of section.questions) {
+            if (!isQuestionVisible(question, asked)) continue;
+            asked[question.id] = answers[question.id];
+            visible.push(question);
+        }
+    }
+    return visible;
+}
 
-    const followUps = (
-        <>
-            <div>
-                <label className="text-sm font-medium">Prior experience with Imaginears?</label>
+function QuestionField({
+    question,
+    value,
+    error,
+    disabled,
+    onChange,
+}: {
+    question: FormQuestion;
+    value: unknown;
+    error?: string | undefined;
+    disabled?: boolean | undefined;
+    onChange: (value: unknown) => void; // eslint-disable-line no-unused-vars
+}) {
+    const inputId = `q-${question.id}`;
+    const label = `${question.label}${question.required ? " *" : ""}`;
+    const rules = question.validation;
+
+    let control: React.ReactNode;
+    switch (question.type) {
+        case "short_text":
+        case "url":
+            control = (
+                <Input
+                    id={inputId}
+                    type={question.type === "url" ? "url" : "text"}
+                    value={typeof value === "string" ? value : ""}
+                    onChange={(e) => onChange(e.target.value)}
+                    placeholder={question.placeholder}
+                    maxLength={rules?.maxLength}
+                    disabled={disabled}
+                    state={error ? "error" : "default"}
+                />
+            );
+            break;
+        case "long_text":
+            control = (
+                <textarea
+                    id={inputId}
+                    value={typeof value === "string" ? value : ""}
+                    onChange={(e) => onChange(e.target.value)}
+                    placeholder={question.placeholder}
+                    maxLength={rules?.maxLength}
+                    rows={4}
+                    disabled={disabled}
+                    className={fieldClass(!!error)}
+                />
+            );
+            break;
+        case "number":
+            control = (
+                <Input
+                    id={inputId}
+                    type="number"
+                    value={typeof value === "number" ? value : ""}
+                    onChange={(e) => onChange(e.target.value === "" ? undefined : Number(e.target.value))}
+                    placeholder={question.placeholder}
+                    min={rules?.min}
+                    max={rules?.max}
+                    disabled={disabled}
+                    state={error ? "error" : "default"}
+                />
+            );
+            break;
+        case "select":
+            control = (
                 <select
-                    value={v.priorExperience ?? ""}
-                    onChange={(e) => setV({ ...v, priorExperience: e.target.value as any })}
-                    className="mt-1 w-full rounded-2xl border px-4 py-3"
+                    id={inputId}
+                    value={typeof value === "string" ? value : ""}
+                    onChange={(e) => onChange(e.target.value)}
+                    disabled={disabled}
+                    className={cn(fieldClass(!!error), "h-10")}
                 >
                     <option value="">Choose…</option>
-                    <option>Yes</option>
-                    <option>No</option>
+                    {question.options?.map((option) => (
+                        <option key={option} value={option}>
+                            {option}
+                        </option>
+                    ))}
                 </select>
-            </div>
-
-            {v.priorExperience === "Yes" && (
-                <div>
-                    <label className="text-sm font-medium">Tell us more</label>
-                    <textarea
-                        value={v.priorExperienceDetails ?? ""}
-                        onChange={(e) => setV({ ...v, priorExperienceDetails: e.target.value })}
-                        rows={4}
-                        className="mt-1 w-full rounded-2xl border px-4 py-3"
-                        placeholder="What did you do? When? Any links?"
-                    />
+            );
+            break;
+        case "multi_select": {
+            const selected = Array.isArray(value) ? (value as string[]) : [];
+            control = (
+                <div className="flex flex-wrap gap-x-4 gap-y-2" role="group" aria-labelledby={`${inputId}-label`}>
+                    {question.options?.map((option) => {
+                        const checked = selected.includes(option);
+                        return (
+                            <label key={option} className="inline-flex items-center gap-2 text-sm text-slate-900 dark:text-white">
+                                <input
+                                    type="checkbox"
+                                    checked={checked}
+                                    disabled={disabled}
+                                    onChange={() =>
+                                        onChange(checked ? selected.filter((o) => o !== option) : [...selected, option])
+                                    }
+                                />
+                                {option}
+                            </label>
+                        );
+                    })}
                 </div>
-            )}
-        </>
-    );
-
-    async function submit(e: React.FormEvent) {
-        e.preventDefault();
-        await onSubmit(v);
-    }
-
-    return (
-        <form className="space-y-4" onSubmit={submit}>
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                <div>
-                    <label className="text-sm font-medium">Full Name *</label>
-                    <input
-                        value={v.name}
-                        onChange={(e) => setV({ ...v, name: e.target.value })}
-                        className="mt-1 w-full rounded-2xl border px-4 py-3"
-                        required
-                    />
+            );
+            break;
+        }
+        case "yes_no":
+            control = (
+                <div className="flex gap-4" role="radiogroup" aria-labelledby={`${inputId}-label`}>
+                    {[true, false].map((option) => (
+                        <label key={String(option)} className="inline-flex items-center gap-2 text-sm text-slate-900 dark:text-white">
+                            <input
+                                type="radio"
+                                name={inputId}
+                                checked={value === option}
+                                disabled={disabled}
+                                onChange={() => onChange(option)}
+                            />
+                            {option ? "Yes" : "No"}
+                        </label>
+                    ))}
                 </div>
-                <div>
-                    <label className="text-sm font-medium">Email *</label>
-                    <input
-                        type="email"
-                        value={v.email}
-                        onChange={(e) => setV({ ...v, email: e.target.value })}
-                        className="mt-1 w-full rounded-2xl border px-4 py-3"
-                        required
-                    />
-                </div>
-            </div>
-
-            <div>
-                <label className="text-sm font-medium">Applying for *</label>
-                <select
-                    value={v.role}
-                    onChange={(e) => setV({ ...v, role: e.target.value as Role })}
-                    className="mt-1 w-full rounded-2xl border px-4 py-3"
-                    required
-                >
-                    <option>Developer</option>
-                    <option>GuestServices</option>
-                    <option>Imaginear</option>
-                </select>
-            </div>
+            );
+            break;
+    }
 
-            {/* role-specific questions */}
-            {roleBlock}
+    const grouped = question.type === "multi_select" || question.type === "yes_no";
 
-            <div>
-                <label className="text-sm font-medium">General availability</label>
-                <input
-                    value={v.availability ?? ""}
-                    onChange={(e) => setV({ ...v, availability: e.target.value })}
-                    placeholder="e.g., Weeknights, weekends, 10-20 hrs/wk"
-                    className="mt-1 w-full rounded-2xl border px-4 py-3"
-                />
-            </div>
+    return (
+        <div>
+            {grouped ? (
+                <p id={`${inputId}-label`} className="text-sm font-medium text-slate-900 dark:text-white mb-2">
+                    {label}
+                </p>
+            ) : (
+                <label htmlFor={inputId} className="text-sm font-medium text-slate-900 dark:text-white block mb-2">
+                    {label}
+                </label>
+            )}
+            {question.help && <p className="-mt-1 mb-2 text-xs text-slate-500 dark:text-slate-400">{question.help}</p>}
+            {control}
+            {error && <p className="mt-1 text-xs text-rose-600">{error}</p>}
+        </div>
+    );
+}
 
-            {/* Follow-up branching */}
-            {followUps}
+/**
+ * Renders a role's application form. Questions whose condition isn't met
+ * are left out; their answers stay in `value` and are dropped on submit.
+ */
+export default function DynamicApplicationForm({
+    definition,
+    value,
+    onChange,
+    errors = {},
+    disabled,
+}: {
+    definition: FormDefinition;
+    value: FormAnswers;
+    onChange: (value: FormAnswers) => void; // eslint-disable-line no-unused-vars
+    errors?: Record<string, string>;
+    disabled?: boolean;
+}) {
+    const visible = new Set(visibleQuestions(definition, value).map((q) => q.id));
 
-            <div className="pt-2 flex justify-end">
-                <button className="btn btn-primary">Submit</button>
-            </div>
-        </form>
+    return (
+        <div className="space-y-6">
+            {definition.sections.map((section) => {
+                const questions = section.questions.filter((q) => visible.has(q.id));
+                if (questions.length === 0) return null;
+                return (
+                    <section key={section.id} className="space-y-4">
+                        {(definition.sections.length > 1 || section.description) && (
+                            <div>
+                                <h3 className="text-base font-semibold text-slate-900 dark:text-white">{section.title}</h3>
+                                {section.description && (
+                                    <p className="text-sm text-slate-600 dark:text-slate-400">{section.description}</p>
+                                )}
+                            </div>
+                        )}
+                        {questions.map((question) => (
+                            <QuestionField
+                                key={question.id}
+                                question={question}
+                                value={value[question.id]}
+                                error={errors[question.id]}
+                                disabled={disabled}
+                                onChange={(answer) => onChange({ ...value, [question.id]: answer })}
+                            />
+                        ))}
+                    </section>
+                );
+            })}
+        </div>
     );
 }
@@ -6,7 +6,10 @@ import { X } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { MarkdownEditor, Input, Separator } from "@/components/common";
-import RecurrenceEditor, { type RecurrenceValue } from "./RecurrenceEditor";
+import RecurrenceEditor, { toRecurrencePayload, toRecurrenceValue, type RecurrenceValue } from "./RecurrenceEditor";
+import HostSelect from "./HostSelect";
+import PublishScheduleFields, { toScheduleIso, type PublishScheduleValue } from "./PublishScheduleFields";
+import ScheduleConflicts, { type ScheduleConflict } from "./ScheduleConflicts";
 import { ContextualHelp } from "@/components/onboarding/ContextualHelp";
 
 type Props = {
@@ -22,22 +25,21 @@ export default function CreateEventDrawer({ open, onOpenChange, onCreated }: Pro
     const [visibility, setVisibility] = useState<"PUBLIC" | "MEMBERS_ONLY" | "STAFF_ONLY" | "HIDDEN">("PUBLIC");
     const [details, setDetails] = useState("");
     const [shortDesc, setShortDesc] = useState("");
+    const [hostId, setHostId] = useState<string | null>(null);
+    const [schedule, setSchedule] = useState<PublishScheduleValue>({ publishAt: "", archiveAt: "", announceOnPublish: false });
 
     // Reference start/end for duration
     const [startAt, setStartAt] = useState<string>(""); // ISO-local from <input type="datetime-local">
     const [endAt, setEndAt] = useState<string>("");
 
-    const [recurrence, setRecurrence] = useState<RecurrenceValue>({
-        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "America/New_York",
-        recurrenceFreq: "NONE",
-        byWeekday: [],
-        times: [],
-        recurrenceUntil: null,
-    });
+    const [recurrence, setRecurrence] = useState<RecurrenceValue>(() =>
+        toRecurrenceValue({ timezone: Intl.DateTimeFormat().resolvedOptions().timeZone })
+    );
 
+    const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
     const [submitting, setSubmitting] = useState(false);
 
-    async function handleCreate(e?: React.FormEvent) {
+    async function handleCreate(e?: React.FormEvent, overrideConflicts = false) {
         e?.preventDefault();
 
         // Validation
@@ -55,6 +57,7 @@ export default function CreateEventDrawer({ open, onOpenChange, onCreated }: Pro
         }
 
         setSubmitting(true);
+        setConflicts([]);
 
         const createPromise = (async () => {
             const res = await fetch("/api/events", {
@@ -69,17 +72,23 @@ export default function CreateEventDrawer({ open, onOpenChange, onCreated }: Pro
                     shortDescription: shortDesc,
                     startAt,
                     endAt,
-                    status: "Published",
-                    timezone: recurrence.timezone,
-                    recurrenceFreq: recurrence.recurrenceFreq,
-                    byWeekday: recurrence.byWeekday,
-                    times: recurrence.times,
-                    recurrenceUntil: recurrence.recurrenceUntil || null,
+                    // A draft with a publish time is saved as Scheduled
+                    status: schedule.publishAt ? "Draft" : "Published",
+                    ...toRecurrencePayload(recurrence),
+                    hostId: hostId,
+                    publishAt: toScheduleIso(schedule.publishAt),
+                    archiveAt: toScheduleIso(schedule.archiveAt),
+                    announceOnPublish: !!schedule.publishAt && schedule.announceOnPublish,
+                    overrideConflicts,
                 }),
             });
             
             if (!res.ok) {
                 const error = await res.json().catch(() => ({ error: "Failed to create event" }));
+                // Overlaps other events: shown with the option to create anyway
+                if (res.status === 409 && error.code === "SCHEDULE_CONFLICT") {
+                    setConflicts(error.conflicts ?? []);
+                }
                 throw new Error(error.error || "Failed to create event");
             }
             
@@ -222,6 +231,25 @@ export default function CreateEventDrawer({ open, onOpenChange, onCreated }: Pro
                             </select>
                         </div>
 
+                        <div>
+                            <label className="text-sm font-medium text-slate-900 dark:text-white mb-2 block">
+                                Host
+                            </label>
+                            <HostSelect
+                                className={selectClass}
+                                value={hostId}
+                                onChange={setHostId}
+                                disabled={submitting}
+                            />
+                        </div>
+
+                        <div>
+                            <label className="text-sm font-medium text-slate-900 dark:text-white mb-2 block">
+                                Publishing
+                            </label>
+                            <PublishScheduleFields value={schedule} onChange={setSchedule} disabled={submitting} />
+                        </div>
+
                         <div data-tour="events-visibility">
                             <label className="text-sm font-medium text-slate-900 dark:text-white mb-2 flex items-center gap-2">
                                 Visibility
@@ -281,7 +309,15 @@ export default function CreateEventDrawer({ open, onOpenChange, onCreated }: Pro
                     </form>
 
                     {/* Footer */}
-                    <div className="p-4 border-t border-slate-200 dark:border-slate-800">
+                    <div className="p-4 border-t border-slate-200 dark:border-slate-800 space-y-3">
+                        {conflicts.length > 0 && (
+                            <ScheduleConflicts
+                                conflicts={conflicts}
+                                overrideLabel="Create anyway"
+                                onOverride={() => handleCreate(undefined, true)}
+                                disabled={submitting}
+                            />
+                        )}
                         <div className="flex justify-end gap-3">
                             <Dialog.Close asChild>
                                 <button
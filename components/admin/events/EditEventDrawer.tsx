@@ -5,7 +5,12 @@ import { X } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { MarkdownEditor, Input, Separator } from "@/components/common";
-import RecurrenceEditor, { type RecurrenceValue } from "./RecurrenceEditor";
+import RecurrenceEditor, { toRecurrencePayload, toRecurrenceValue, type RecurrenceValue } from "./RecurrenceEditor";
+import HostSelect from "./HostSelect";
+import StaffRoster from "./StaffRoster";
+import RevisionHistory from "./RevisionHistory";
+import PublishScheduleFields, { toScheduleIso } from "./PublishScheduleFields";
+import ScheduleConflicts, { type ScheduleConflict } from "./ScheduleConflicts";
 import { ContextualHelp } from "@/components/onboarding/ContextualHelp";
 
 export type EditableEvent = {
@@ -19,10 +24,20 @@ export type EditableEvent = {
     startAt: string; // ISO
     endAt: string;   // ISO
     timezone: string;
-    recurrenceFreq: "NONE" | "DAILY" | "WEEKLY";
+    recurrenceFreq: "NONE" | "DAILY" | "WEEKLY" | "MONTHLY";
     byWeekday: ("SU" | "MO" | "TU" | "WE" | "TH" | "FR" | "SA")[];
     times: string[];
     recurrenceUntil?: string | null;
+    recurrenceInterval?: number;
+    recurrenceCount?: number | null;
+    byMonthDay?: number[];
+    byWeekdayPos?: number | null;
+    exDates?: string[];
+    hostId?: string | null;
+    status?: "Draft" | "Scheduled" | "Published" | "Archived" | "Cancelled";
+    publishAt?: string | null; // datetime-local
+    archiveAt?: string | null; // datetime-local
+    announceOnPublish?: boolean;
 };
 
 export default function EditEventDrawer({
@@ -37,31 +52,21 @@ export default function EditEventDrawer({
     onSaved: () => void;
 }) {
     const [form, setForm] = useState<EditableEvent | null>(event);
-    const [recurrence, setRecurrence] = useState<RecurrenceValue>(() => ({
-        timezone: event?.timezone || "America/New_York",
-        recurrenceFreq: (event?.recurrenceFreq || "NONE") as any,
-        byWeekday: (event?.byWeekday || []) as any,
-        times: event?.times || [],
-        recurrenceUntil: event?.recurrenceUntil ?? null,
-    }));
+    const [recurrence, setRecurrence] = useState<RecurrenceValue>(() => toRecurrenceValue(event ?? {}));
 
+    const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
     const [submitting, setSubmitting] = useState(false);
 
     useEffect(() => {
         if (open && event) {
             setForm(event);
-            setRecurrence({
-                timezone: event.timezone,
-                recurrenceFreq: event.recurrenceFreq as any,
-                byWeekday: event.byWeekday as any,
-                times: event.times || [],
-                recurrenceUntil: event.recurrenceUntil ?? null,
-            });
+            setRecurrence(toRecurrenceValue(event));
+            setConflicts([]);
             setSubmitting(false);
         }
     }, [open, event]);
 
-    async function save(e?: React.FormEvent) {
+    async function save(e?: React.FormEvent, overrideConflicts = false) {
         e?.preventDefault();
         
         if (!form) return;
@@ -77,6 +82,7 @@ export default function EditEventDrawer({
         }
 
         setSubmitting(true);
+        setConflicts([]);
 
         const savePromise = (async () => {
             const res = await fetch(`/api/events/${form.id}`, {
@@ -91,16 +97,21 @@ export default function EditEventDrawer({
                     shortDescription: form.shortDescription || "",
                     startAt: form.startAt,
                     endAt: form.endAt,
-                    timezone: recurrence.timezone,
-                    recurrenceFreq: recurrence.recurrenceFreq,
-                    byWeekday: recurrence.byWeekday,
-                    times: recurrence.times,
-                    recurrenceUntil: recurrence.recurrenceUntil ? new Date(recurrence.recurrenceUntil).toISOString() : null,
+                    ...toRecurrencePayload(recurrence),
+                    hostId: form.hostId ?? null,
+                    publishAt: toScheduleIso(form.publishAt ?? ""),
+                    archiveAt: toScheduleIso(form.archiveAt ?? ""),
+                    announceOnPublish: !!form.publishAt && !!form.announceOnPublish,
+                    overrideConflicts,
                 }),
             });
             
             if (!res.ok) {
                 const error = await res.json().catch(() => ({ error: "Failed to save event" }));
+                // Overlaps other events: shown with the option to save anyway
+                if (res.status === 409 && error.code === "SCHEDULE_CONFLICT") {
+                    setConflicts(error.conflicts ?? []);
+                }
                 throw new Error(error.error || "Failed to save event");
             }
             
@@ -109,9 +120,14 @@ export default function EditEventDrawer({
 
         toast.promise(savePromise, {
             loading: "Saving event...",
-            success: () => {
+            success: (saved: { removedOverrides?: number }) => {
                 onOpenChange(false);
                 onSaved();
+                // Changed or cancelled occurrences the new schedule no longer has
+                const removed = saved.removedOverrides ?? 0;
+                if (removed > 0) {
+                    return `Event saved. ${removed} occurrence change${removed === 1 ? "" : "s"} no longer matched the schedule and ${removed === 1 ? "was" : "were"} removed.`;
+                }
                 return "Event saved successfully!";
             },
             error: (err) => err.message || "Failed to save event",
@@ -245,6 +261,45 @@ export default function EditEventDrawer({
                             </select>
                         </div>
 
+                        <div>
+                            <label className="text-sm font-medium text-slate-900 dark:text-white mb-2 block">
+                                Host
+                            </label>
+                            <HostSelect
+                                className={selectClass}
+                                value={form.hostId ?? null}
+                                onChange={(hostId) => setForm({ ...form, hostId })}
+                                disabled={submitting}
+                            />
+                        </div>
+
+                        <div>
+                            <label className="text-sm font-medium text-slate-900 dark:text-white mb-2 block">
+                                Staff Roster
+                            </label>
+                            <StaffRoster eventId={form.id} selectClass={selectClass} />
+                        </div>
+
+                        <div>
+                            <label className="text-sm font-medium text-slate-900 dark:text-white mb-2 block">
+                                Publishing
+                            </label>
+                            <PublishScheduleFields
+                                value={{
+                                    publishAt: form.publishAt ?? "",
+                                    archiveAt: form.archiveAt ?? "",
+                                    announceOnPublish: form.announceOnPublish ?? false,
+                                }}
+                                onChange={(schedule) => setForm({ ...form, ...schedule })}
+                                disabled={submitting}
+                            />
+                            {form.status === "Published" && form.publishAt && (
+                                <p className="mt-2 text-xs text-slate-600 dark:text-slate-400">
+                                    Already published; the publish time only applies to drafts.
+                                </p>
+                            )}
+                        </div>
+
                         <div data-tour="events-visibility">
                             <label className="text-sm font-medium text-slate-900 dark:text-white mb-2 flex items-center gap-2">
                                 Visibility
@@ -301,10 +356,31 @@ export default function EditEventDrawer({
                         <div className="pt-2">
                             <RecurrenceEditor value={recurrence} onChange={setRecurrence} />
                         </div>
+
+                        <div>
+                            <label className="text-sm font-medium text-slate-900 dark:text-white mb-2 block">
+                                History
+                            </label>
+                            <RevisionHistory
+                                eventId={form.id}
+                                onRestored={() => {
+                                    onOpenChange(false);
+                                    onSaved();
+                                }}
+                            />
+                        </div>
                     </form>
 
                     {/* Footer */}
-                    <div className="p-4 border-t border-slate-200 dark:border-slate-800">
+                    <div className="p-4 border-t border-slate-200 dark:border-slate-800 space-y-3">
+                        {conflicts.length > 0 && (
+                            <ScheduleConflicts
+                                conflicts={conflicts}
+                                overrideLabel="Save anyway"
+                                onOverride={() => save(undefined, true)}
+                                disabled={submitting}
+                            />
+                        )}
                         <div className="flex justify-end gap-3">
                             <Dialog.Close asChild>
                                 <button
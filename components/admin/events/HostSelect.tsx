@@ -0,0 +1,58 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Host = { id: string; name: string | null; minecraftName: string | null };
+
+/**
+ * Staff member hosting the event (optional); the same host cannot run two
+ * overlapping events without an override. Also used to pick staff for the
+ * roster, with a different empty label.
+ */
+export default function HostSelect({
+    value,
+    onChange,
+    disabled,
+    className,
+    emptyLabel = "No host assigned",
+}: {
+    value: string | null;
+    onChange: (hostId: string | null) => void; // eslint-disable-line no-unused-vars
+    disabled?: boolean;
+    className?: string;
+    emptyLabel?: string;
+}) {
+    const [hosts, setHosts] = useState<Host[]>([]);
+
+    useEffect(() => {
+        let cancelled = false;
+        fetch("/api/admin/events/hosts", { credentials: "include" })
+            .then((res) => (res.ok ? res.json() : { hosts: [] }))
+            .then((data) => {
+                if (!cancelled) setHosts(Array.isArray(data.hosts) ? data.hosts : []);
+            })
+            .catch(() => {
+                if (!cancelled) setHosts([]);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    return (
+        <select
+            className={className}
+            value={value ?? ""}
+            onChange={(e) => onChange(e.target.value || null)}
+            disabled={disabled}
+        >
+            <option value="">{emptyLabel}</option>
+            {hosts.map((host) => (
+                <option key={host.id} value={host.id}>
+                    {host.name || host.minecraftName || host.id}
+                    {host.name && host.minecraftName ? ` (${host.minecraftName})` : ""}
+                </option>
+            ))}
+        </select>
+    );
+}
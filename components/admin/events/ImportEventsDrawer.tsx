@@ -0,0 +1,422 @@
+"use client";
+import { useEffect, useState } from "react";
+import * as Dialog from "@radix-ui/react-dialog";
+import { AlertTriangle, X } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { Badge, Checkbox, Input, Separator } from "@/components/common";
+
+type ImportPreviewItem = {
+    uid: string;
+    title: string;
+    world: string;
+    category: string;
+    startAt: string;
+    endAt: string;
+    timezone: string;
+    recurrenceFreq: "NONE" | "DAILY" | "WEEKLY" | "MONTHLY";
+    recurrenceInterval: number;
+    overrideCount: number;
+    warnings: string[];
+    duplicateOf: { id: string; title: string } | null;
+    conflicts: { eventId: string; title: string; start: string; end: string }[];
+};
+
+type ImportPreview = {
+    calendarName: string | null;
+    warnings: string[];
+    items: ImportPreviewItem[];
+};
+
+const FREQ_LABEL: Record<ImportPreviewItem["recurrenceFreq"], string> = {
+    NONE: "One-time",
+    DAILY: "Daily",
+    WEEKLY: "Weekly",
+    MONTHLY: "Monthly",
+};
+
+function formatDateTime(value: string, timezone: string) {
+    return new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short", timeZone: timezone });
+}
+
+/**
+ * Import events from an .ics file, pasted iCalendar text or a calendar URL.
+ * Events are previewed first (duplicates by UID, conflicts in the same world)
+ * and created as drafts.
+ */
+export default function ImportEventsDrawer({
+                                               open,
+                                               onOpenChange,
+                                               onImported,
+                                           }: {
+    open: boolean;
+    onOpenChange: (v: boolean) => void; // eslint-disable-line no-unused-vars
+    onImported: () => void;
+}) {
+    const [source, setSource] = useState<"file" | "url">("file");
+    const [ics, setIcs] = useState("");
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [url, setUrl] = useState("");
+    const [defaultWorld, setDefaultWorld] = useState("");
+    const [preview, setPreview] = useState<ImportPreview | null>(null);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [submitting, setSubmitting] = useState(false);
+
+    useEffect(() => {
+        if (open) {
+            setPreview(null);
+            setSelected(new Set());
+            setSubmitting(false);
+        }
+    }, [open]);
+
+    async function readFile(file: File | undefined) {
+        if (!file) return;
+        setIcs(await file.text());
+        setFileName(file.name);
+        setPreview(null);
+    }
+
+    async function request(dryRun: boolean) {
+        const res = await fetch("/api/admin/events/import", {
+            method: "POST",
+            credentials: "include",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+                ...(source === "file" ? { ics } : { url: url.trim() }),
+                defaultWorld: defaultWorld.trim(),
+                timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+                dryRun,
+                ...(!dryRun && { uids: [...selected] }),
+            }),
+        });
+        if (!res.ok) {
+            const error = await res.json().catch(() => ({ error: "Failed to read the calendar" }));
+            throw new Error(error.error || "Failed to read the calendar");
+        }
+        return res.json();
+    }
+
+    async function loadPreview(e?: React.FormEvent) {
+        e?.preventDefault();
+        if (source === "file" ? !ics.trim() : !url.trim()) {
+            toast.error(source === "file" ? "Choose or paste an .ics file" : "Enter a calendar URL");
+            return;
+        }
+        if (defaultWorld.trim().length < 2) {
+            toast.error("Enter the world for events without a location");
+            return;
+        }
+
+        setSubmitting(true);
+        try {
+            const result: ImportPreview = await request(true);
+            setPreview(result);
+            // Everything new is selected; duplicates cannot be
+            setSelected(new Set(result.items.filter((item) => !item.duplicateOf).map((item) => item.uid)));
+            if (result.items.length === 0) toast.error("No events found in this calendar");
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Failed to read the calendar");
+        } finally {
+            setSubmitting(false);
+        }
+    }
+
+    async function importSelected() {
+        if (selected.size === 0) return;
+
+        setSubmitting(true);
+        const promise = request(false);
+
+        toast.promise(promise, {
+            loading: `Importing ${selected.size} event${selected.size === 1 ? "" : "s"}...`,
+            success: (result: { created: unknown[]; skipped: unknown[] }) => {
+                onOpenChange(false);
+                onImported();
+                return result.skipped.length
+                    ? `Imported ${result.created.length} drafts, skipped ${result.skipped.length}`
+                    : `Imported ${result.created.length} drafts`;
+            },
+            error: (err) => err.message || "Failed to import events",
+        });
+
+        try {
+            await promise;
+        } catch {
+            // Reported by the toast
+        } finally {
+            setSubmitting(false);
+        }
+    }
+
+    function toggle(uid: string, checked: boolean) {
+        const next = new Set(selected);
+        if (checked) next.add(uid);
+        else next.delete(uid);
+        setSelected(next);
+    }
+
+    const buttonClass = cn(
+        "px-4 py-2 rounded-lg text-sm font-medium transition-colors",
+        "border-2 border-transparent",
+        "disabled:opacity-50 disabled:cursor-not-allowed"
+    );
+
+    const tabClass = (active: boolean) =>
+        cn(
+            buttonClass,
+            active
+                ? "bg-blue-600 dark:bg-blue-500 text-white"
+                : "bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700"
+        );
+
+    return (
+        <Dialog.Root open={open} onOpenChange={onOpenChange}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 bg-black/40 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0 z-50" />
+                <Dialog.Content
+                    className={cn(
+                        "fixed right-0 top-0 bottom-0 z-50",
+                        "h-full w-full max-w-2xl",
+                        "bg-white dark:bg-slate-900 shadow-2xl",
+                        "flex flex-col",
+                        "data-[state=open]:animate-in data-[state=closed]:animate-out",
+                        "data-[state=closed]:slide-out-to-right data-[state=open]:slide-in-from-right",
+                        "duration-300"
+                    )}
+                >
+                    {/* Header */}
+                    <div className="flex items-center justify-between p-4">
+                        <div>
+                            <Dialog.Title className="text-lg font-semibold text-slate-900 dark:text-white">
+                                Import Events
+                            </Dialog.Title>
+                            <Dialog.Description className="text-sm text-slate-600 dark:text-slate-400">
+                                From an .ics file or a shared calendar; events are created as drafts
+                            </Dialog.Description>
+                        </div>
+                        <Dialog.Close asChild>
+                            <button
+                                type="button"
+                                className={cn(
+                                    "inline-flex items-center justify-center w-8 h-8 rounded-lg",
+                                    "text-slate-500 dark:text-slate-400",
+                                    "hover:bg-slate-100 dark:hover:bg-slate-800",
+                                    "transition-colors"
+                                )}
+                                aria-label="Close"
+                            >
+                                <X className="w-5 h-5" />
+                            </button>
+                        </Dialog.Close>
+                    </div>
+
+                    <Separator />
+
+                    <div className="flex-1 overflow-auto p-4 space-y-4">
+                        {/* Source */}
+                        <form onSubmit={loadPreview} className="space-y-4">
+                            <div className="flex gap-2">
+                                <button type="button" className={tabClass(source === "file")} onClick={() => setSource("file")}>
+                                    File or Text
+                                </button>
+                                <button type="button" className={tabClass(source === "url")} onClick={() => setSource("url")}>
+                                    Calendar URL
+                                </button>
+                            </div>
+
+                            {source === "file" ? (
+                                <div className="space-y-2">
+                                    <input
+                                        type="file"
+                                        accept=".ics,text/calendar"
+                                        onChange={(e) => void readFile(e.target.files?.[0])}
+                                        disabled={submitting}
+                                        className="block w-full text-sm text-slate-700 dark:text-slate-300 file:mr-3 file:rounded-lg file:border-0 file:bg-slate-100 dark:file:bg-slate-800 file:px-4 file:py-2 file:text-sm file:font-medium"
+                                    />
+                                    <textarea
+                                        value={ics}
+                                        onChange={(e) => {
+                                            setIcs(e.target.value);
+                                            setFileName(null);
+                                            setPreview(null);
+                                        }}
+                                        rows={6}
+                                        disabled={submitting}
+                                        placeholder={"BEGIN:VCALENDAR\n..."}
+                                        className={cn(
+                                            "w-full rounded-xl border-2 px-4 py-3 font-mono text-xs",
+                                            "border-slate-300 dark:border-slate-700",
+                                            "bg-white dark:bg-slate-900",
+                                            "text-slate-900 dark:text-white",
+                                            "focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                                        )}
+                                    />
+                                    {fileName && (
+                                        <p className="text-xs text-slate-500 dark:text-slate-400">Loaded {fileName}</p>
+                                    )}
+                                </div>
+                            ) : (
+                                <div>
+                                    <Input
+                                        type="url"
+                                        value={url}
+                                        onChange={(e) => {
+                                            setUrl(e.target.value);
+                                            setPreview(null);
+                                        }}
+                                        disabled={submitting}
+                                        placeholder="webcal://calendar.example.com/events.ics"
+                                    />
+                                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                                        The public iCal address of a shared calendar (Google, Outlook, Apple)
+                                    </p>
+                                </div>
+                            )}
+
+                            <div>
+                                <label className="text-sm font-medium text-slate-900 dark:text-white mb-2 block">
+                                    World for events without a location *
+                                </label>
+                                <Input
+                                    type="text"
+                                    value={defaultWorld}
+                                    onChange={(e) => setDefaultWorld(e.target.value)}
+                                    disabled={submitting}
+                                    placeholder="World name"
+                                />
+                            </div>
+
+                            <button
+                                type="submit"
+                                className={cn(
+                                    buttonClass,
+                                    "bg-slate-100 dark:bg-slate-800",
+                                    "text-slate-700 dark:text-slate-300",
+                                    "hover:bg-slate-200 dark:hover:bg-slate-700"
+                                )}
+                                disabled={submitting}
+                            >
+                                {submitting && !preview ? "Reading..." : "Preview"}
+                            </button>
+                        </form>
+
+                        {/* Preview */}
+                        {preview && (
+                            <>
+                                <Separator />
+
+                                <div className="flex items-center justify-between">
+                                    <h3 className="text-sm font-semibold text-slate-900 dark:text-white">
+                                        {preview.calendarName || "Calendar"} · {preview.items.length} events
+                                    </h3>
+                                    <span className="text-xs text-slate-500 dark:text-slate-400">
+                                        {selected.size} selected
+                                    </span>
+                                </div>
+
+                                {preview.warnings.length > 0 && (
+                                    <ul className="p-3 rounded-xl border-2 border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 text-xs text-amber-800 dark:text-amber-200 space-y-1">
+                                        {preview.warnings.map((warning) => (
+                                            <li key={warning}>{warning}</li>
+                                        ))}
+                                    </ul>
+                                )}
+
+                                <ul className="space-y-2">
+                                    {preview.items.map((item) => (
+                                        <li
+                                            key={item.uid}
+                                            className={cn(
+                                                "flex gap-3 p-3 rounded-xl border-2",
+                                                "border-slate-200 dark:border-slate-700",
+                                                item.duplicateOf && "opacity-60"
+                                            )}
+                                        >
+                                            <Checkbox
+                                                checked={selected.has(item.uid)}
+                                                onCheckedChange={(checked) => toggle(item.uid, checked === true)}
+                                                disabled={submitting || !!item.duplicateOf}
+                                                aria-label={`Import ${item.title}`}
+                                                className="mt-0.5"
+                                            />
+                                            <div className="min-w-0 flex-1 space-y-1">
+                                                <div className="flex flex-wrap items-center gap-2">
+                                                    <span className="font-medium text-sm text-slate-900 dark:text-white truncate">
+                                                        {item.title}
+                                                    </span>
+                                                    <Badge size="sm" variant="info">
+                                                        {FREQ_LABEL[item.recurrenceFreq]}
+                                                        {item.recurrenceInterval > 1 && ` ×${item.recurrenceInterval}`}
+                                                    </Badge>
+                                                    {item.duplicateOf && (
+                                                        <Badge size="sm" variant="default">Already imported</Badge>
+                                                    )}
+                                                    {item.conflicts.length > 0 && (
+                                                        <Badge size="sm" variant="warning">Conflicts</Badge>
+                                                    )}
+                                                </div>
+                                                <p className="text-xs text-slate-600 dark:text-slate-400">
+                                                    {formatDateTime(item.startAt, item.timezone)} · {item.world} · {item.timezone}
+                                                    {item.overrideCount > 0 && ` · ${item.overrideCount} changed occurrences`}
+                                                </p>
+                                                {item.conflicts.map((conflict) => (
+                                                    <p
+                                                        key={conflict.eventId}
+                                                        className="flex items-center gap-1 text-xs text-amber-700 dark:text-amber-300"
+                                                    >
+                                                        <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                                                        Overlaps &quot;{conflict.title}&quot; on {formatDateTime(conflict.start, item.timezone)}
+                                                    </p>
+                                                ))}
+                                                {item.warnings.map((warning) => (
+                                                    <p key={warning} className="text-xs text-slate-500 dark:text-slate-400">
+                                                        {warning}
+                                                    </p>
+                                                ))}
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </>
+                        )}
+                    </div>
+
+                    {/* Footer */}
+                    <div className="p-4 border-t border-slate-200 dark:border-slate-800">
+                        <div className="flex items-center justify-end gap-3">
+                            <Dialog.Close asChild>
+                                <button
+                                    type="button"
+                                    className={cn(
+                                        buttonClass,
+                                        "bg-slate-100 dark:bg-slate-800",
+                                        "text-slate-700 dark:text-slate-300",
+                                        "hover:bg-slate-200 dark:hover:bg-slate-700"
+                                    )}
+                                    disabled={submitting}
+                                >
+                                    Cancel
+                                </button>
+                            </Dialog.Close>
+                            <button
+                                type="button"
+                                onClick={() => void importSelected()}
+                                className={cn(
+                                    buttonClass,
+                                    "bg-blue-600 dark:bg-blue-500",
+                                    "text-white",
+                                    "hover:bg-blue-700 dark:hover:bg-blue-600",
+                                    "focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                                )}
+                                disabled={submitting || !preview || selected.size === 0}
+                            >
+                                Import {selected.size > 0 ? `${selected.size} ` : ""}as Drafts
+                            </button>
+                        </div>
+                    </div>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+}
@@ -0,0 +1,349 @@
+"use client";
+import { useEffect, useState } from "react";
+import * as Dialog from "@radix-ui/react-dialog";
+import { X } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { MarkdownEditor, Input, Separator, Switch } from "@/components/common";
+import type { Occurrence } from "@/lib/recurrence";
+import type { AdminEventRow, AdminOccurrenceOverride } from "@/components/admin/EventsTable";
+
+type OverrideForm = {
+    cancelled: boolean;
+    startAt: string; // datetime-local
+    endAt: string;   // datetime-local
+    title: string;
+    world: string;
+    shortDescription: string;
+    details: string;
+};
+
+function toLocalInputValue(date: Date | string) {
+    const d = new Date(date);
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+/** Start and end the rule gives the occurrence, before any override */
+function seriesTimes(event: AdminEventRow, occurrenceStart: Date) {
+    const durationMs = new Date(event.endAt).getTime() - new Date(event.startAt).getTime();
+    return {
+        startAt: toLocalInputValue(occurrenceStart),
+        endAt: toLocalInputValue(new Date(occurrenceStart.getTime() + durationMs)),
+    };
+}
+
+function toForm(event: AdminEventRow, occurrence: Occurrence, override: AdminOccurrenceOverride | undefined): OverrideForm {
+    const series = seriesTimes(event, new Date(occurrence.occurrenceStart));
+    return {
+        cancelled: override?.cancelled ?? false,
+        startAt: override?.startAt ? toLocalInputValue(override.startAt) : series.startAt,
+        endAt: override?.endAt ? toLocalInputValue(override.endAt) : series.endAt,
+        title: override?.title ?? "",
+        world: override?.world ?? "",
+        shortDescription: override?.shortDescription ?? "",
+        details: override?.details ?? "",
+    };
+}
+
+/**
+ * Cancel, reschedule or edit a single occurrence of a recurring event.
+ * Empty fields keep the series value; "Restore" drops the override.
+ */
+export default function OccurrenceOverrideDrawer({
+                                                     open,
+                                                     event,
+                                                     occurrence,
+                                                     onOpenChange,
+                                                     onSaved,
+                                                 }: {
+    open: boolean;
+    event: AdminEventRow | null;
+    occurrence: Occurrence | null;
+    onOpenChange: (v: boolean) => void; // eslint-disable-line no-unused-vars
+    onSaved: () => void;
+}) {
+    const occurrenceStart = occurrence ? new Date(occurrence.occurrenceStart) : null;
+    const existing = event?.overrides?.find(
+        (o) => occurrenceStart && new Date(o.occurrenceStart).getTime() === occurrenceStart.getTime()
+    );
+
+    const [form, setForm] = useState<OverrideForm | null>(null);
+    const [submitting, setSubmitting] = useState(false);
+
+    useEffect(() => {
+        if (open && event && occurrence) {
+            setForm(toForm(event, occurrence, existing));
+            setSubmitting(false);
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [open, event, occurrence]);
+
+    async function request(method: "PUT" | "DELETE", message: string) {
+        if (!event || !occurrenceStart || !form) return;
+
+        setSubmitting(true);
+        const promise = (async () => {
+            const url = `/api/admin/events/${event.id}/occurrences`;
+            let res: Response;
+
+            if (method === "DELETE") {
+                res = await fetch(`${url}?occurrenceStart=${encodeURIComponent(occurrenceStart.toISOString())}`, {
+                    method: "DELETE",
+                    credentials: "include",
+                });
+            } else {
+                // Only send times that differ from the series schedule
+                const series = seriesTimes(event, occurrenceStart);
+                res = await fetch(url, {
+                    method: "PUT",
+                    credentials: "include",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({
+                        occurrenceStart: occurrenceStart.toISOString(),
+                        cancelled: form.cancelled,
+                        startAt: form.startAt !== series.startAt ? new Date(form.startAt).toISOString() : null,
+                        endAt: form.endAt !== series.endAt ? new Date(form.endAt).toISOString() : null,
+                        title: form.title.trim() || null,
+                        world: form.world.trim() || null,
+                        shortDescription: form.shortDescription.trim() || null,
+                        details: form.details.trim() || null,
+                    }),
+                });
+            }
+
+            if (!res.ok) {
+                const error = await res.json().catch(() => ({ error: "Failed to save occurrence" }));
+                throw new Error(error.error || "Failed to save occurrence");
+            }
+        })();
+
+        toast.promise(promise, {
+            loading: "Saving occurrence...",
+            success: () => {
+                onOpenChange(false);
+                onSaved();
+                return message;
+            },
+            error: (err) => err.message || "Failed to save occurrence",
+        });
+
+        try {
+            await promise;
+        } finally {
+            setSubmitting(false);
+        }
+    }
+
+    function save(e?: React.FormEvent) {
+        e?.preventDefault();
+        if (!form) return;
+        if (!form.cancelled && new Date(form.endAt) <= new Date(form.startAt)) {
+            toast.error("End must be after start");
+            return;
+        }
+        void request("PUT", form.cancelled ? "Occurrence cancelled" : "Occurrence updated");
+    }
+
+    if (!event || !occurrence || !form) return null;
+
+    const buttonClass = cn(
+        "px-4 py-2 rounded-lg text-sm font-medium transition-colors",
+        "border-2 border-transparent",
+        "disabled:opacity-50 disabled:cursor-not-allowed"
+    );
+
+    return (
+        <Dialog.Root open={open} onOpenChange={onOpenChange}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 bg-black/40 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0 z-50" />
+                <Dialog.Content
+                    className={cn(
+                        "fixed right-0 top-0 bottom-0 z-50",
+                        "h-full w-full max-w-xl",
+                        "bg-white dark:bg-slate-900 shadow-2xl",
+                        "flex flex-col",
+                        "data-[state=open]:animate-in data-[state=closed]:animate-out",
+                        "data-[state=closed]:slide-out-to-right data-[state=open]:slide-in-from-right",
+                        "duration-300"
+                    )}
+                >
+                    {/* Header */}
+                    <div className="flex items-center justify-between p-4">
+                        <div>
+                            <Dialog.Title className="text-lg font-semibold text-slate-900 dark:text-white">
+                                Edit Occurrence
+                            </Dialog.Title>
+                            <Dialog.Description className="text-sm text-slate-600 dark:text-slate-400">
+                                {event.title} · {new Date(occurrence.occurrenceStart).toLocaleString(undefined, {
+                                    dateStyle: "medium",
+                                    timeStyle: "short",
+                                })}
+                            </Dialog.Description>
+                        </div>
+                        <Dialog.Close asChild>
+                            <button
+                                type="button"
+                                className={cn(
+                                    "inline-flex items-center justify-center w-8 h-8 rounded-lg",
+                                    "text-slate-500 dark:text-slate-400",
+                                    "hover:bg-slate-100 dark:hover:bg-slate-800",
+                                    "transition-colors"
+                                )}
+                                aria-label="Close"
+                            >
+                                <X className="w-5 h-5" />
+                            </button>
+                        </Dialog.Close>
+                    </div>
+
+                    <Separator />
+
+                    {/* Form */}
+                    <form onSubmit={save} className="flex-1 overflow-auto p-4 space-y-4">
+                        <label className="flex items-center justify-between gap-4 p-4 rounded-xl border-2 border-slate-200 dark:border-slate-700">
+                            <span>
+                                <span className="block text-sm font-medium text-slate-900 dark:text-white">
+                                    Cancel this occurrence
+                                </span>
+                                <span className="block text-xs text-slate-600 dark:text-slate-400">
+                                    Only this date is removed; the rest of the series is unchanged
+                                </span>
+                            </span>
+                            <Switch
+                                checked={form.cancelled}
+                                onCheckedChange={(checked) => setForm({ ...form, cancelled: checked })}
+                                disabled={submitting}
+                            />
+                        </label>
+
+                        <fieldset disabled={submitting || form.cancelled} className="space-y-4 disabled:opacity-50">
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <div>
+                                    <label className="text-sm font-medium text-slate-900 dark:text-white mb-2 block">
+                                        Start
+                                    </label>
+                                    <Input
+                                        type="datetime-local"
+                                        value={form.startAt}
+                                        onChange={(e) => setForm({ ...form, startAt: e.target.value })}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="text-sm font-medium text-slate-900 dark:text-white mb-2 block">
+                                        End
+                                    </label>
+                                    <Input
+                                        type="datetime-local"
+                                        value={form.endAt}
+                                        onChange={(e) => setForm({ ...form, endAt: e.target.value })}
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <div>
+                                    <label className="text-sm font-medium text-slate-900 dark:text-white mb-2 block">
+                                        Title
+                                    </label>
+                                    <Input
+                                        type="text"
+                                        value={form.title}
+                                        onChange={(e) => setForm({ ...form, title: e.target.value })}
+                                        placeholder={event.title}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="text-sm font-medium text-slate-900 dark:text-white mb-2 block">
+                                        World
+                                    </label>
+                                    <Input
+                                        type="text"
+                                        value={form.world}
+                                        onChange={(e) => setForm({ ...form, world: e.target.value })}
+                                        placeholder={event.server}
+                                    />
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="text-sm font-medium text-slate-900 dark:text-white mb-2 block">
+                                    Short Description
+                                </label>
+                                <Input
+                                    type="text"
+                                    value={form.shortDescription}
+                                    onChange={(e) => setForm({ ...form, shortDescription: e.target.value })}
+                                    placeholder={event.shortDescription || "Same as the series"}
+                                />
+                            </div>
+
+                            <div>
+                                <MarkdownEditor
+                                    value={form.details}
+                                    onChange={(val) => setForm({ ...form, details: val })}
+                                    label="Details (Markdown, replaces the series details)"
+                                    rows={8}
+                                />
+                            </div>
+                        </fieldset>
+
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                            Empty fields keep the series value.
+                        </p>
+                    </form>
+
+                    {/* Footer */}
+                    <div className="p-4 border-t border-slate-200 dark:border-slate-800">
+                        <div className="flex items-center gap-3">
+                            {existing && (
+                                <button
+                                    type="button"
+                                    onClick={() => void request("DELETE", "Occurrence restored")}
+                                    className={cn(
+                                        buttonClass,
+                                        "text-red-700 dark:text-red-300",
+                                        "hover:bg-red-50 dark:hover:bg-red-900/20"
+                                    )}
+                                    disabled={submitting}
+                                >
+                                    Restore Series Defaults
+                                </button>
+                            )}
+                            <div className="ml-auto flex gap-3">
+                                <Dialog.Close asChild>
+                                    <button
+                                        type="button"
+                                        className={cn(
+                                            buttonClass,
+                                            "bg-slate-100 dark:bg-slate-800",
+                                            "text-slate-700 dark:text-slate-300",
+                                            "hover:bg-slate-200 dark:hover:bg-slate-700"
+                                        )}
+                                        disabled={submitting}
+                                    >
+                                        Close
+                                    </button>
+                                </Dialog.Close>
+                                <button
+                                    type="submit"
+                                    onClick={save}
+                                    className={cn(
+                                        buttonClass,
+                                        "bg-blue-600 dark:bg-blue-500",
+                                        "text-white",
+                                        "hover:bg-blue-700 dark:hover:bg-blue-600",
+                                        "focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                                    )}
+                                    disabled={submitting}
+                                >
+                                    {submitting ? "Saving..." : "Save Occurrence"}
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+}
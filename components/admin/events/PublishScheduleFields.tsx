@@ -0,0 +1,76 @@
+"use client";
+
+import { Input, Switch } from "@/components/common";
+
+export type PublishScheduleValue = {
+    publishAt: string; // datetime-local, "" when unset
+    archiveAt: string; // datetime-local, "" when unset
+    announceOnPublish: boolean;
+};
+
+/** datetime-local value as the ISO timestamp the API takes (null when unset) */
+export function toScheduleIso(value: string): string | null {
+    return value ? new Date(value).toISOString() : null;
+}
+
+/**
+ * Automatic publish and archive times, run by the event scheduler
+ * (lib/event-schedule.ts). A draft with a publish time is saved as Scheduled.
+ */
+export default function PublishScheduleFields({
+    value,
+    onChange,
+    disabled,
+}: {
+    value: PublishScheduleValue;
+    onChange: (value: PublishScheduleValue) => void; // eslint-disable-line no-unused-vars
+    disabled?: boolean;
+}) {
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                    <label className="text-sm font-medium text-slate-900 dark:text-white mb-2 block">
+                        Publish at
+                    </label>
+                    <Input
+                        type="datetime-local"
+                        value={value.publishAt}
+                        onChange={(e) => onChange({ ...value, publishAt: e.target.value })}
+                        disabled={disabled}
+                    />
+                </div>
+                <div>
+                    <label className="text-sm font-medium text-slate-900 dark:text-white mb-2 block">
+                        Archive at
+                    </label>
+                    <Input
+                        type="datetime-local"
+                        value={value.archiveAt}
+                        onChange={(e) => onChange({ ...value, archiveAt: e.target.value })}
+                        disabled={disabled}
+                    />
+                </div>
+            </div>
+            <p className="text-xs text-slate-600 dark:text-slate-400">
+                Leave empty to publish and archive by hand. Published events are archived automatically once they are over.
+            </p>
+
+            <label className="flex items-center justify-between gap-4 p-4 rounded-xl border-2 border-slate-200 dark:border-slate-700">
+                <span>
+                    <span className="block text-sm font-medium text-slate-900 dark:text-white">
+                        Announce on Discord when published
+                    </span>
+                    <span className="block text-xs text-slate-600 dark:text-slate-400">
+                        Posted to the events webhook from Settings → Notifications at the publish time
+                    </span>
+                </span>
+                <Switch
+                    checked={value.announceOnPublish}
+                    onCheckedChange={(checked) => onChange({ ...value, announceOnPublish: checked })}
+                    disabled={disabled || !value.publishAt}
+                />
+            </label>
+        </div>
+    );
+}
@@ -16,29 +16,97 @@ const WEEKDAYS: { code: Weekday; label: string }[] = [
     { code: "SA", label: "Sat" },
 ];
 
+const WEEKDAY_POSITIONS: { pos: number; label: string }[] = [
+    { pos: 1, label: "First" },
+    { pos: 2, label: "Second" },
+    { pos: 3, label: "Third" },
+    { pos: 4, label: "Fourth" },
+    { pos: -1, label: "Last" },
+];
+
+const FREQ_UNIT: Record<RecurrenceFreq, string> = {
+    NONE: "",
+    DAILY: "day",
+    WEEKLY: "week",
+    MONTHLY: "month",
+};
+
 export type RecurrenceValue = {
     timezone: string;
-    recurrenceFreq: RecurrenceFreq; // NONE | DAILY | WEEKLY
-    byWeekday: Weekday[];           // weekly only
+    recurrenceFreq: RecurrenceFreq; // NONE | DAILY | WEEKLY | MONTHLY
+    byWeekday: Weekday[];           // weekly, or monthly "nth weekday"
     times: string[];                // ["15:00","18:00","21:00"] (24h)
     recurrenceUntil?: string | null; // yyyy-mm-dd or null
+    interval: number;               // every N days / weeks / months
+    count: number | null;           // stop after N occurrences
+    byMonthDay: number[];           // monthly by date: [1, 15, -1] (-1 = last day)
+    byWeekdayPos: number | null;    // monthly by weekday: 1-4 or -1 (last)
+    exDates: string[];              // excluded: "yyyy-mm-dd" or "yyyy-mm-ddTHH:mm" (local)
 };
 
+/**
+ * Recurrence fields of an event row (API shape) as an editor value
+ */
+export function toRecurrenceValue(event: {
+    timezone?: string | null;
+    recurrenceFreq?: RecurrenceFreq | null;
+    byWeekday?: Weekday[] | null;
+    times?: string[] | null;
+    recurrenceUntil?: string | null;
+    recurrenceInterval?: number | null;
+    recurrenceCount?: number | null;
+    byMonthDay?: number[] | null;
+    byWeekdayPos?: number | null;
+    exDates?: string[] | null;
+}): RecurrenceValue {
+    return {
+        timezone: event.timezone || "America/New_York",
+        recurrenceFreq: event.recurrenceFreq || "NONE",
+        byWeekday: event.byWeekday || [],
+        times: event.times || [],
+        recurrenceUntil: event.recurrenceUntil ?? null,
+        interval: event.recurrenceInterval || 1,
+        count: event.recurrenceCount ?? null,
+        byMonthDay: event.byMonthDay || [],
+        byWeekdayPos: event.byWeekdayPos ?? null,
+        exDates: event.exDates || [],
+    };
+}
+
+/**
+ * Editor value as the recurrence fields accepted by POST/PATCH /api/events
+ */
+export function toRecurrencePayload(v: RecurrenceValue) {
+    const monthlyByWeekday = v.recurrenceFreq === "MONTHLY" && v.byWeekdayPos !== null;
+    return {
+        timezone: v.timezone,
+        recurrenceFreq: v.recurrenceFreq,
+        byWeekday: v.recurrenceFreq === "WEEKLY" || monthlyByWeekday ? v.byWeekday : [],
+        times: v.times,
+        recurrenceUntil: v.recurrenceUntil ? new Date(v.recurrenceUntil).toISOString() : null,
+        recurrenceInterval: v.interval,
+        recurrenceCount: v.count,
+        byMonthDay: v.recurrenceFreq === "MONTHLY" && !monthlyByWeekday ? v.byMonthDay : [],
+        byWeekdayPos: monthlyByWeekday ? v.byWeekdayPos : null,
+        exDates: v.recurrenceFreq === "NONE" ? [] : v.exDates,
+    };
+}
+
 function deepEqual(a: any, b: any) {
     return JSON.stringify(a) === JSON.stringify(b);
 }
 
 function normalizeTimes(times: string[]): string[] {
-    // keep HH:mm only, dedupe, sort
+    // keep HH:mm (plus the "-HH:mm" end of imported showtimes), dedupe, sort
     const clean = times
-        .map((t) => (t || "").slice(0, 5))
+        .map((t) => (t || "").slice(0, 11))
         .map((t) => {
             // browser time inputs already HH:mm, but protect anyway
-            const m = /^(\d{2}):(\d{2})$/.exec(t);
-            if (!m) return null;
+            const m = /^(\d{2}):(\d{2})(.*)$/.exec(t);
+            if (!m || (m[3] && !/^-\d{2}:\d{2}$/.test(m[3]))) return null;
             const hh = Math.max(0, Math.min(23, Number(m[1])));
             const mm = Math.max(0, Math.min(59, Number(m[2])));
-            return `${String(hh).padStart(2, "0")}:${String(mm).padStart(2, "0")}`;
+            return `${String(hh).padStart(2, "0")}:${String(mm).padStart(2, "0")}${m[3] ?? ""}`;
         })
         .filter(Boolean) as string[];
 
@@ -60,7 +128,13 @@ export default function RecurrenceEditor({
         byWeekday: Array.isArray(value.byWeekday) ? value.byWeekday : [],
         times: Array.isArray(value.times) ? value.times : [],
         recurrenceUntil: value.recurrenceUntil ?? null,
+        interval: value.interval || 1,
+        count: value.count ?? null,
+        byMonthDay: Array.isArray(value.byMonthDay) ? value.byMonthDay : [],
+        byWeekdayPos: value.byWeekdayPos ?? null,
+        exDates: Array.isArray(value.exDates) ? value.exDates : [],
     }));
+    const [exDateDraft, setExDateDraft] = useState({ date: "", time: "" });
 
     // Only sync-in if the incoming value truly changed (prevents “clears”)
     useEffect(() => {
@@ -70,6 +144,11 @@ export default function RecurrenceEditor({
             byWeekday: Array.isArray(value.byWeekday) ? value.byWeekday : [],
             times: Array.isArray(value.times) ? value.times : [],
             recurrenceUntil: value.recurrenceUntil ?? null,
+            interval: value.interval || 1,
+            count: value.count ?? null,
+            byMonthDay: Array.isArray(value.byMonthDay) ? value.byMonthDay : [],
+            byWeekdayPos: value.byWeekdayPos ?? null,
+            exDates: Array.isArray(value.exDates) ? value.exDates : [],
         };
         if (!deepEqual(next, v)) setV(next);
         // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -87,8 +166,9 @@ export default function RecurrenceEditor({
         };
     }, [v, onChange]);
 
+    const monthlyByWeekday = v.recurrenceFreq === "MONTHLY" && v.byWeekdayPos !== null;
     const weeklyHint =
-        v.recurrenceFreq === "WEEKLY" && (!v.byWeekday || v.byWeekday.length === 0);
+        (v.recurrenceFreq === "WEEKLY" || monthlyByWeekday) && (!v.byWeekday || v.byWeekday.length === 0);
 
     function addTime(t: string = "00:00") {
         setV((cur) => ({ ...cur, times: normalizeTimes([...(cur.times || []), t]) }));
@@ -97,7 +177,8 @@ export default function RecurrenceEditor({
     function updateTime(i: number, t: string) {
         setV((cur) => {
             const next = [...(cur.times || [])];
-            next[i] = t;
+            // Moving the start keeps an imported showtime's end
+            next[i] = t + (next[i] ?? "").slice(5);
             return { ...cur, times: next };
         });
     }
@@ -114,6 +195,26 @@ export default function RecurrenceEditor({
         });
     }
 
+    function toggleMonthDay(day: number) {
+        setV((cur) => {
+            const set = new Set(cur.byMonthDay || []);
+            if (set.has(day)) set.delete(day);
+            else set.add(day);
+            return { ...cur, byMonthDay: Array.from(set).sort((a, b) => (a < 0 ? 99 : a) - (b < 0 ? 99 : b)) };
+        });
+    }
+
+    function addExDate() {
+        if (!exDateDraft.date) return;
+        const entry = exDateDraft.time ? `${exDateDraft.date}T${exDateDraft.time}` : exDateDraft.date;
+        setV((cur) => ({ ...cur, exDates: Array.from(new Set([...(cur.exDates || []), entry])).sort() }));
+        setExDateDraft({ date: "", time: "" });
+    }
+
+    function removeExDate(entry: string) {
+        setV((cur) => ({ ...cur, exDates: (cur.exDates || []).filter((d) => d !== entry) }));
+    }
+
     function applyPreset(times: string[]) {
         setV((cur) => ({ ...cur, times: normalizeTimes([...(cur.times || []), ...times]) }));
     }
@@ -141,6 +242,7 @@ export default function RecurrenceEditor({
                     <option value="NONE">One-time</option>
                     <option value="DAILY">Daily</option>
                     <option value="WEEKLY">Weekly</option>
+                    <option value="MONTHLY">Monthly</option>
                 </select>
                 {v.recurrenceFreq === "NONE" && (
                     <p className="mt-2 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1">
@@ -148,9 +250,108 @@ export default function RecurrenceEditor({
                         The Start/End times you set above will be used once.
                     </p>
                 )}
+                {v.recurrenceFreq !== "NONE" && (
+                    <div className="mt-3 flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                        <span>Repeat every</span>
+                        <input
+                            type="number"
+                            min={1}
+                            max={99}
+                            value={v.interval}
+                            onChange={(e) => setV({ ...v, interval: Math.min(99, Math.max(1, parseInt(e.target.value) || 1)) })}
+                            className={cn(
+                                "w-20 rounded-xl border-2 px-3 py-2",
+                                "bg-white dark:bg-slate-900",
+                                "border-slate-300 dark:border-slate-700",
+                                "text-slate-900 dark:text-white",
+                                "focus:outline-none focus:ring-2 focus:ring-blue-500/50",
+                                "transition-all"
+                            )}
+                        />
+                        <span>{FREQ_UNIT[v.recurrenceFreq]}{v.interval === 1 ? "" : "s"}</span>
+                    </div>
+                )}
             </div>
 
-            {v.recurrenceFreq === "WEEKLY" && (
+            {v.recurrenceFreq === "MONTHLY" && (
+                <>
+                    <Separator />
+                    <div>
+                        <label className="text-sm font-medium text-slate-900 dark:text-slate-100">Repeat on</label>
+                        <div className="mt-2 flex gap-2">
+                            {[
+                                { byWeekday: false, label: "Day of month" },
+                                { byWeekday: true, label: "Day of week" },
+                            ].map((mode) => (
+                                <button
+                                    key={mode.label}
+                                    type="button"
+                                    onClick={() => setV({ ...v, byWeekdayPos: mode.byWeekday ? v.byWeekdayPos ?? 1 : null })}
+                                    className={cn(
+                                        "rounded-xl border-2 px-3 py-2 text-sm font-medium transition-all",
+                                        "focus:outline-none focus:ring-2 focus:ring-blue-500/50",
+                                        monthlyByWeekday === mode.byWeekday
+                                            ? "border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/40 dark:text-blue-200"
+                                            : "border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800/40"
+                                    )}
+                                >
+                                    {mode.label}
+                                </button>
+                            ))}
+                        </div>
+
+                        {monthlyByWeekday ? (
+                            <select
+                                value={v.byWeekdayPos ?? 1}
+                                onChange={(e) => setV({ ...v, byWeekdayPos: Number(e.target.value) })}
+                                className={cn(
+                                    "mt-3 w-full rounded-xl border-2 px-4 py-3",
+                                    "bg-white dark:bg-slate-900",
+                                    "border-slate-300 dark:border-slate-700",
+                                    "text-slate-900 dark:text-white",
+                                    "focus:outline-none focus:ring-2 focus:ring-blue-500/50",
+                                    "transition-all"
+                                )}
+                            >
+                                {WEEKDAY_POSITIONS.map((p) => (
+                                    <option key={p.pos} value={p.pos}>{p.label}</option>
+                                ))}
+                            </select>
+                        ) : (
+                            <>
+                                <div className="mt-3 grid grid-cols-7 gap-1.5">
+                                    {[...Array.from({ length: 31 }, (_, i) => i + 1), -1].map((day) => {
+                                        const active = (v.byMonthDay || []).includes(day);
+                                        return (
+                                            <button
+                                                key={day}
+                                                type="button"
+                                                onClick={() => toggleMonthDay(day)}
+                                                className={cn(
+                                                    "rounded-lg border-2 py-1.5 text-xs font-medium transition-all",
+                                                    "focus:outline-none focus:ring-2 focus:ring-blue-500/50",
+                                                    day === -1 && "col-span-2",
+                                                    active
+                                                        ? "border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/40 dark:text-blue-200"
+                                                        : "border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800/40"
+                                                )}
+                                            >
+                                                {day === -1 ? "Last day" : day}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                                <p className="mt-2 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1">
+                                    <Info className="w-3.5 h-3.5" />
+                                    None selected repeats on the start date&apos;s day. Months without the day (e.g. the 31st) are skipped.
+                                </p>
+                            </>
+                        )}
+                    </div>
+                </>
+            )}
+
+            {(v.recurrenceFreq === "WEEKLY" || monthlyByWeekday) && (
                 <>
                     <Separator />
                     <div>
@@ -178,7 +379,7 @@ export default function RecurrenceEditor({
                         </div>
                         {weeklyHint && (
                             <Alert variant="warning" className="mt-3">
-                                Choose at least one weekday for weekly recurrence.
+                                Choose at least one weekday for {monthlyByWeekday ? "monthly" : "weekly"} recurrence.
                             </Alert>
                         )}
                     </div>
@@ -247,7 +448,7 @@ export default function RecurrenceEditor({
                                 <div key={i} className="flex items-center gap-2">
                                     <input
                                         type="time"
-                                        value={t}
+                                        value={t.slice(0, 5)}
                                         onChange={(e) => updateTime(i, e.target.value)}
                                         step={60}
                                         className={cn(
@@ -298,6 +499,89 @@ export default function RecurrenceEditor({
                 </>
             )}
 
+            {v.recurrenceFreq !== "NONE" && (
+                <>
+                    <Separator />
+                    <div>
+                        <label className="text-sm font-medium text-slate-900 dark:text-slate-100">Exceptions</label>
+                        <div className="mt-2 flex flex-wrap items-center gap-2">
+                            <input
+                                type="date"
+                                aria-label="Excluded date"
+                                value={exDateDraft.date}
+                                onChange={(e) => setExDateDraft({ ...exDateDraft, date: e.target.value })}
+                                className={cn(
+                                    "rounded-xl border-2 px-3 py-2",
+                                    "bg-white dark:bg-slate-900",
+                                    "border-slate-300 dark:border-slate-700",
+                                    "text-slate-900 dark:text-white",
+                                    "focus:outline-none focus:ring-2 focus:ring-blue-500/50",
+                                    "transition-all"
+                                )}
+                            />
+                            <select
+                                aria-label="Excluded showtime"
+                                value={exDateDraft.time}
+                                onChange={(e) => setExDateDraft({ ...exDateDraft, time: e.target.value })}
+                                className={cn(
+                                    "rounded-xl border-2 px-3 py-2",
+                                    "bg-white dark:bg-slate-900",
+                                    "border-slate-300 dark:border-slate-700",
+                                    "text-slate-900 dark:text-white",
+                                    "focus:outline-none focus:ring-2 focus:ring-blue-500/50",
+                                    "transition-all"
+                                )}
+                            >
+                                <option value="">All showtimes</option>
+                                {Array.from(new Set(normalizeTimes(v.times || []).map((t) => t.slice(0, 5)))).map((t) => (
+                                    <option key={t} value={t}>{t}</option>
+                                ))}
+                            </select>
+                            <button
+                                type="button"
+                                disabled={!exDateDraft.date}
+                                className={cn(
+                                    "inline-flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium",
+                                    "bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300",
+                                    "border border-blue-200 dark:border-blue-800",
+                                    "hover:bg-blue-100 dark:hover:bg-blue-900/30",
+                                    "disabled:opacity-50 disabled:cursor-not-allowed",
+                                    "transition-colors"
+                                )}
+                                onClick={addExDate}
+                            >
+                                <Plus className="w-4 h-4" />
+                                Exclude
+                            </button>
+                        </div>
+                        {v.exDates.length > 0 && (
+                            <div className="mt-3 flex flex-wrap gap-2">
+                                {v.exDates.map((entry) => (
+                                    <span
+                                        key={entry}
+                                        className="inline-flex items-center gap-1.5 rounded-lg border border-slate-300 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/40 px-2.5 py-1 text-xs text-slate-700 dark:text-slate-300"
+                                    >
+                                        {entry.replace("T", " ")}
+                                        <button
+                                            type="button"
+                                            aria-label={`Remove exception ${entry}`}
+                                            onClick={() => removeExDate(entry)}
+                                            className="text-slate-500 hover:text-red-600 dark:hover:text-red-400"
+                                        >
+                                            <X className="w-3 h-3" />
+                                        </button>
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1">
+                            <Info className="w-3.5 h-3.5" />
+                            Cancelled dates or single showtimes are skipped but still count toward &quot;End after&quot;.
+                        </p>
+                    </div>
+                </>
+            )}
+
             <Separator />
             
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -341,6 +625,35 @@ export default function RecurrenceEditor({
                         Leave blank to repeat indefinitely.
                     </p>
                 </div>
+
+                {v.recurrenceFreq !== "NONE" && (
+                    <div>
+                        <label className="text-sm font-medium text-slate-900 dark:text-slate-100">End after (optional)</label>
+                        <input
+                            type="number"
+                            min={1}
+                            max={1000}
+                            placeholder="Occurrences"
+                            value={v.count ?? ""}
+                            onChange={(e) => {
+                                const count = parseInt(e.target.value);
+                                setV({ ...v, count: Number.isFinite(count) ? Math.min(1000, Math.max(1, count)) : null });
+                            }}
+                            className={cn(
+                                "mt-2 w-full rounded-xl border-2 px-4 py-3",
+                                "bg-white dark:bg-slate-900",
+                                "border-slate-300 dark:border-slate-700",
+                                "text-slate-900 dark:text-white",
+                                "focus:outline-none focus:ring-2 focus:ring-blue-500/50",
+                                "transition-all"
+                            )}
+                        />
+                        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1">
+                            <Info className="w-3.5 h-3.5" />
+                            Whichever comes first: this many occurrences or the date.
+                        </p>
+                    </div>
+                )}
             </div>
         </div>
     );
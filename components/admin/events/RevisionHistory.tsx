@@ -0,0 +1,249 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, History } from "lucide-react";
+import { toast } from "sonner";
+import { ConfirmDialog } from "@/components/common";
+import ScheduleConflicts, { type ScheduleConflict } from "./ScheduleConflicts";
+
+type RevisionChange = { field: string; before: unknown; after: unknown };
+
+type Revision = {
+    revision: number;
+    source: "baseline" | "created" | "updated" | "restored" | "imported" | "scheduler";
+    createdAt: string;
+    restoredFrom: number | null;
+    author: { id: string; name: string } | null;
+    changes: RevisionChange[] | null; // null for the first revision
+};
+
+const SOURCE_LABEL: Record<Revision["source"], string> = {
+    baseline: "Before history",
+    created: "Created",
+    updated: "Edited",
+    restored: "Restored",
+    imported: "Imported",
+    scheduler: "Scheduler",
+};
+
+const FIELD_LABEL: Record<string, string> = {
+    title: "Title",
+    world: "World",
+    category: "Category",
+    status: "Status",
+    shortDescription: "Short description",
+    details: "Details",
+    startAt: "Start",
+    endAt: "End",
+    timezone: "Timezone",
+    recurrenceFreq: "Repeats",
+    byWeekdayJson: "Weekdays",
+    timesJson: "Times",
+    byMonthDayJson: "Days of month",
+    exDatesJson: "Excluded dates",
+    recurrenceInterval: "Interval",
+    recurrenceCount: "Occurrences",
+    byWeekdayPos: "Nth weekday",
+    recurrenceUntil: "Until",
+    hostId: "Host",
+    publishAt: "Publish at",
+    archiveAt: "Archive at",
+    announceOnPublish: "Announce on publish",
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined || value === "") return "—";
+    if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "—";
+    if (typeof value === "boolean") return value ? "Yes" : "No";
+    if (typeof value === "string" && ISO_DATE.test(value)) {
+        return new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+    }
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Revision history of a saved event: who changed what and when, with the
+ * changes of each revision. Restoring a revision saves it as a new one.
+ */
+export default function RevisionHistory({ eventId, onRestored }: { eventId: string; onRestored: () => void }) {
+    const [items, setItems] = useState<Revision[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [expanded, setExpanded] = useState<number | null>(null);
+    const [confirming, setConfirming] = useState<number | null>(null);
+    const [conflicts, setConflicts] = useState<{ revision: number; items: ScheduleConflict[] } | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const load = useCallback(async () => {
+        try {
+            const res = await fetch(`/api/admin/events/${eventId}/revisions`, { credentials: "include" });
+            if (!res.ok) throw new Error(`Failed to load history (${res.status})`);
+            const data = await res.json();
+            setItems(data.items ?? []);
+        } catch (error) {
+            console.error("[RevisionHistory] Load error:", error);
+        } finally {
+            setLoading(false);
+        }
+    }, [eventId]);
+
+    useEffect(() => {
+        setLoading(true);
+        setExpanded(null);
+        setConflicts(null);
+        load();
+    }, [load]);
+
+    const restore = async (revision: number, overrideConflicts = false) => {
+        setBusy(true);
+        setConflicts(null);
+        try {
+            const res = await fetch(`/api/admin/events/${eventId}/revisions/${revision}/restore`, {
+                method: "POST",
+                credentials: "include",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ overrideConflicts }),
+            });
+            const data = await res.json().catch(() => ({}));
+            if (res.status === 409 && data.code === "SCHEDULE_CONFLICT") {
+                setConflicts({ revision, items: data.conflicts ?? [] });
+                return;
+            }
+            if (!res.ok) throw new Error(data.error || `Failed to restore (${res.status})`);
+
+            toast.success(`Restored revision ${revision}`, {
+                ...(data.hostDropped && { description: "The host of that revision is no longer staff and was not restored." }),
+            });
+            onRestored();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to restore");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    if (loading) {
+        return <p className="text-sm text-slate-500 dark:text-slate-400">Loading history…</p>;
+    }
+    if (items.length === 0) {
+        return <p className="text-sm text-slate-500 dark:text-slate-400">No changes recorded yet.</p>;
+    }
+
+    const latest = items[0]!.revision;
+
+    return (
+        <div className="space-y-3">
+            <ul className="divide-y divide-slate-200 dark:divide-slate-800 rounded-xl border-2 border-slate-200 dark:border-slate-800">
+                {items.map((item) => {
+                    const open = expanded === item.revision;
+                    return (
+                        <li key={item.revision} className="text-sm">
+                            <div className="flex items-center gap-3 px-3 py-2">
+                                <button
+                                    type="button"
+                                    onClick={() => setExpanded(open ? null : item.revision)}
+                                    aria-expanded={open}
+                                    className="flex flex-1 min-w-0 items-center gap-2 text-left"
+                                >
+                                    {open ? (
+                                        <ChevronDown className="w-4 h-4 shrink-0 text-slate-500" aria-hidden="true" />
+                                    ) : (
+                                        <ChevronRight className="w-4 h-4 shrink-0 text-slate-500" aria-hidden="true" />
+                                    )}
+                                    <span className="min-w-0">
+                                        <span className="block font-medium text-slate-900 dark:text-white truncate">
+                                            #{item.revision} · {SOURCE_LABEL[item.source] ?? item.source}
+                                            {item.restoredFrom ? ` from #${item.restoredFrom}` : ""}
+                                        </span>
+                                        <span className="block text-xs text-slate-500 dark:text-slate-400 truncate">
+                                            {item.author?.name ?? "System"} · {formatValue(item.createdAt)}
+                                            {item.changes && item.changes.length > 0
+                                                ? ` · ${item.changes.map((c) => FIELD_LABEL[c.field] ?? c.field).join(", ")}`
+                                                : ""}
+                                        </span>
+                                    </span>
+                                </button>
+                                {item.revision === latest ? (
+                                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">
+                                        Current
+                                    </span>
+                                ) : (
+                                    <button
+                                        type="button"
+                                        onClick={() => setConfirming(item.revision)}
+                                        disabled={busy}
+                                        className="inline-flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50"
+                                    >
+                                        <History className="w-3.5 h-3.5" aria-hidden="true" />
+                                        Restore
+                                    </button>
+                                )}
+                            </div>
+
+                            {open && (
+                                <div className="px-3 pb-3">
+                                    {!item.changes ? (
+                                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                                            First recorded version of the event.
+                                        </p>
+                                    ) : item.changes.length === 0 ? (
+                                        <p className="text-xs text-slate-500 dark:text-slate-400">No field changes.</p>
+                                    ) : (
+                                        <table className="w-full text-xs">
+                                            <thead>
+                                                <tr className="text-left text-slate-500 dark:text-slate-400">
+                                                    <th scope="col" className="py-1 pr-2 font-medium">Field</th>
+                                                    <th scope="col" className="py-1 pr-2 font-medium">Before</th>
+                                                    <th scope="col" className="py-1 font-medium">After</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {item.changes.map((change) => (
+                                                    <tr key={change.field} className="align-top border-t border-slate-200 dark:border-slate-800">
+                                                        <td className="py-1 pr-2 font-medium text-slate-700 dark:text-slate-300">
+                                                            {FIELD_LABEL[change.field] ?? change.field}
+                                                        </td>
+                                                        <td className="py-1 pr-2 text-red-700 dark:text-red-300 break-words">
+                                                            <span className="line-clamp-4">{formatValue(change.before)}</span>
+                                                        </td>
+                                                        <td className="py-1 text-green-700 dark:text-green-300 break-words">
+                                                            <span className="line-clamp-4">{formatValue(change.after)}</span>
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )}
+                                </div>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+
+            {conflicts && (
+                <ScheduleConflicts
+                    conflicts={conflicts.items}
+                    overrideLabel="Restore anyway"
+                    onOverride={() => restore(conflicts.revision, true)}
+                    disabled={busy}
+                />
+            )}
+
+            <ConfirmDialog
+                open={confirming !== null}
+                onOpenChange={(open) => !open && setConfirming(null)}
+                onConfirm={() => {
+                    if (confirming !== null) restore(confirming);
+                    setConfirming(null);
+                }}
+                title={`Restore revision ${confirming ?? ""}?`}
+                description="The event's details and schedule go back to this revision. Status and the publish/archive times stay as they are, and unsaved edits in this drawer are lost."
+                confirmText="Restore"
+                cancelText="Cancel"
+                variant="warning"
+            />
+        </div>
+    );
+}
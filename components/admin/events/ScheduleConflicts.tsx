@@ -0,0 +1,69 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+/** A conflict as returned by POST/PATCH /api/events (409 SCHEDULE_CONFLICT) */
+export type ScheduleConflict = {
+    reason: "world" | "host";
+    eventId: string;
+    title: string;
+    world: string;
+    start: string; // ISO
+    end: string;   // ISO
+    occurrenceStart: string;
+    occurrenceEnd: string;
+};
+
+function formatDateTime(value: string) {
+    return new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+/**
+ * Conflicts reported by the server, with the explicit "save anyway" override
+ */
+export default function ScheduleConflicts({
+    conflicts,
+    overrideLabel,
+    onOverride,
+    disabled,
+}: {
+    conflicts: ScheduleConflict[];
+    overrideLabel: string;
+    onOverride: () => void;
+    disabled?: boolean;
+}) {
+    return (
+        <div
+            role="alert"
+            className="p-3 rounded-xl border-2 border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 space-y-2"
+        >
+            <p className="flex items-center gap-2 text-sm font-medium text-amber-800 dark:text-amber-200">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                This schedule overlaps {conflicts.length === 1 ? "another event" : `${conflicts.length} other events`}
+            </p>
+            <ul className="space-y-1 text-xs text-amber-800 dark:text-amber-200">
+                {conflicts.map((conflict) => (
+                    <li key={`${conflict.reason}:${conflict.eventId}`}>
+                        &quot;{conflict.title}&quot; on {formatDateTime(conflict.start)}
+                        {conflict.reason === "world" ? ` in ${conflict.world}` : " with the same host"}
+                    </li>
+                ))}
+            </ul>
+            <div className="flex justify-end">
+                <button
+                    type="button"
+                    onClick={onOverride}
+                    disabled={disabled}
+                    className={cn(
+                        "px-3 py-1.5 rounded-lg text-xs font-medium transition-colors",
+                        "bg-amber-600 text-white hover:bg-amber-700",
+                        "disabled:opacity-50 disabled:cursor-not-allowed"
+                    )}
+                >
+                    {overrideLabel}
+                </button>
+            </div>
+        </div>
+    );
+}
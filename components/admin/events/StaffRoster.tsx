@@ -0,0 +1,214 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Trash2, UserPlus } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import HostSelect from "./HostSelect";
+
+const ROLES = ["Host", "Character", "Security", "Tech"] as const;
+type StaffRole = (typeof ROLES)[number];
+
+type Assignment = {
+    id: string;
+    role: StaffRole;
+    occurrenceStart: string | null; // ISO, null for every occurrence
+    status: "Pending" | "Accepted" | "Declined";
+    note: string | null;
+    user: { id: string; name: string | null; minecraftName: string | null };
+};
+
+type AssignableOccurrence = { occurrenceStart: string; start: string; world: string };
+
+const STATUS_CLASS: Record<Assignment["status"], string> = {
+    Pending: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300",
+    Accepted: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+    Declined: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+};
+
+function formatOccurrence(value: string, timezone: string) {
+    return new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short", timeZone: timezone });
+}
+
+/**
+ * Staffing roster of a saved event: staff assigned per role, for every
+ * occurrence or a single one. Assignees are notified and answer from their
+ * profile.
+ */
+export default function StaffRoster({ eventId, selectClass }: { eventId: string; selectClass: string }) {
+    const [items, setItems] = useState<Assignment[]>([]);
+    const [occurrences, setOccurrences] = useState<AssignableOccurrence[]>([]);
+    const [timezone, setTimezone] = useState("UTC");
+    const [loading, setLoading] = useState(true);
+    const [busy, setBusy] = useState(false);
+
+    const [userId, setUserId] = useState<string | null>(null);
+    const [role, setRole] = useState<StaffRole>("Host");
+    const [occurrenceStart, setOccurrenceStart] = useState("");
+    const [note, setNote] = useState("");
+
+    const load = useCallback(async () => {
+        try {
+            const res = await fetch(`/api/admin/events/${eventId}/staff`, { credentials: "include" });
+            if (!res.ok) throw new Error(`Failed to load roster (${res.status})`);
+            const data = await res.json();
+            setItems(data.items ?? []);
+            setOccurrences(data.occurrences ?? []);
+            setTimezone(data.timezone ?? "UTC");
+        } catch (error) {
+            console.error("[StaffRoster] Load error:", error);
+        } finally {
+            setLoading(false);
+        }
+    }, [eventId]);
+
+    useEffect(() => {
+        setLoading(true);
+        load();
+    }, [load]);
+
+    const add = async () => {
+        if (!userId) {
+            toast.error("Pick a staff member");
+            return;
+        }
+
+        setBusy(true);
+        try {
+            const res = await fetch(`/api/admin/events/${eventId}/staff`, {
+                method: "POST",
+                credentials: "include",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    userId,
+                    role,
+                    occurrenceStart: occurrenceStart || null,
+                    ...(note.trim() && { note: note.trim() }),
+                }),
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.error || `Failed to assign (${res.status})`);
+
+            setItems((prev) => [...prev, data]);
+            setUserId(null);
+            setNote("");
+            toast.success("Staff assigned");
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to assign");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const remove = async (id: string) => {
+        setBusy(true);
+        try {
+            const res = await fetch(`/api/admin/events/${eventId}/staff/${id}`, {
+                method: "DELETE",
+                credentials: "include",
+            });
+            if (!res.ok) throw new Error(`Failed to remove (${res.status})`);
+            setItems((prev) => prev.filter((item) => item.id !== id));
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to remove");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            {loading ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400">Loading roster…</p>
+            ) : items.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400">No staff assigned yet.</p>
+            ) : (
+                <ul className="divide-y divide-slate-200 dark:divide-slate-800 rounded-xl border-2 border-slate-200 dark:border-slate-800">
+                    {items.map((item) => (
+                        <li key={item.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                            <div className="flex-1 min-w-0">
+                                <p className="font-medium text-slate-900 dark:text-white truncate">
+                                    {item.user.name || item.user.minecraftName || item.user.id}
+                                    <span className="ml-2 text-slate-500 dark:text-slate-400 font-normal">{item.role}</span>
+                                </p>
+                                <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                                    {item.occurrenceStart ? formatOccurrence(item.occurrenceStart, timezone) : "Every occurrence"}
+                                    {item.note ? ` · ${item.note}` : ""}
+                                </p>
+                            </div>
+                            <span className={cn("px-2 py-0.5 rounded-full text-xs font-medium", STATUS_CLASS[item.status])}>
+                                {item.status}
+                            </span>
+                            <button
+                                type="button"
+                                onClick={() => remove(item.id)}
+                                disabled={busy}
+                                aria-label={`Remove ${item.role} assignment`}
+                                className="p-1 rounded text-slate-500 hover:text-red-600 disabled:opacity-50"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <HostSelect
+                    className={selectClass}
+                    value={userId}
+                    onChange={setUserId}
+                    disabled={busy}
+                    emptyLabel="Select staff member"
+                />
+                <select
+                    className={selectClass}
+                    value={role}
+                    onChange={(e) => setRole(e.target.value as StaffRole)}
+                    disabled={busy}
+                >
+                    {ROLES.map((r) => (
+                        <option key={r} value={r}>{r}</option>
+                    ))}
+                </select>
+                <select
+                    className={selectClass}
+                    value={occurrenceStart}
+                    onChange={(e) => setOccurrenceStart(e.target.value)}
+                    disabled={busy}
+                >
+                    <option value="">Every occurrence</option>
+                    {occurrences.map((o) => (
+                        <option key={o.occurrenceStart} value={o.occurrenceStart}>
+                            {formatOccurrence(o.start, timezone)} · {o.world}
+                        </option>
+                    ))}
+                </select>
+                <input
+                    type="text"
+                    className={selectClass}
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    maxLength={300}
+                    placeholder="Note (optional)"
+                    disabled={busy}
+                />
+            </div>
+            <div className="flex justify-end">
+                <button
+                    type="button"
+                    onClick={add}
+                    disabled={busy || !userId}
+                    className={cn(
+                        "inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors",
+                        "bg-blue-600 text-white hover:bg-blue-700",
+                        "disabled:opacity-50 disabled:cursor-not-allowed"
+                    )}
+                >
+                    <UserPlus className="w-4 h-4" />
+                    Assign
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -45,6 +45,7 @@ const AddToCalendarButton = memo(function AddToCalendarButton({
     const handleDownloadICS = () => {
         try {
             downloadICS({
+                id: event.id,
                 title: event.title,
                 description: event.description,
                 location: event.location,
@@ -13,7 +13,7 @@ type EventItem = {
     startAt: string | Date;
     endAt: string | Date;
     category: string;
-    recurrenceFreq: "NONE" | "DAILY" | "WEEKLY";
+    recurrenceFreq: "NONE" | "DAILY" | "WEEKLY" | "MONTHLY";
     byWeekdayJson: unknown;
     timesJson: unknown;
     timezone: string | null;
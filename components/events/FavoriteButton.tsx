@@ -41,6 +41,8 @@ const FavoriteButton = memo(({
                 setFavorited(action === "add");
             } else if (action === "clear") {
                 setFavorited(false);
+            } else if (action === "sync") {
+                setFavorited(isFavorite(eventId));
             }
         };
 
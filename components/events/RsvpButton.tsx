@@ -0,0 +1,94 @@
+"use client";
+
+import { useCallback, useState, memo } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/common";
+import { CheckCircle2, UserPlus } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface RsvpButtonProps {
+    eventId: string;
+    /** ISO start the recurrence rule generates for the occurrence */
+    occurrenceStart: string;
+    going: boolean;
+    count: number;
+    /** Guests are sent to sign in first */
+    signedIn: boolean;
+    size?: "sm" | "md" | "lg";
+    className?: string;
+}
+
+/**
+ * RSVP toggle for one occurrence, with how many are going
+ */
+const RsvpButton = memo(({
+    eventId,
+    occurrenceStart,
+    going: initialGoing,
+    count: initialCount,
+    signedIn,
+    size = "sm",
+    className,
+}: RsvpButtonProps) => {
+    const router = useRouter();
+    const [going, setGoing] = useState(initialGoing);
+    const [count, setCount] = useState(initialCount);
+    const [pending, setPending] = useState(false);
+
+    const handleClick = useCallback(async (e: React.MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+
+        if (!signedIn) {
+            router.push(`/login?callbackUrl=${encodeURIComponent(`/events/${eventId}`)}`);
+            return;
+        }
+
+        setPending(true);
+        try {
+            const res = going
+                ? await fetch(`/api/events/${eventId}/rsvp?occurrenceStart=${encodeURIComponent(occurrenceStart)}`, {
+                    method: "DELETE",
+                })
+                : await fetch(`/api/events/${eventId}/rsvp`, {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ occurrenceStart }),
+                });
+            if (!res.ok) throw new Error(`RSVP failed (${res.status})`);
+
+            setCount((prev) => Math.max(0, prev + (going ? -1 : 1)));
+            setGoing(!going);
+        } catch (error) {
+            console.error("[RSVP] Error:", error);
+        } finally {
+            setPending(false);
+        }
+    }, [eventId, occurrenceStart, going, signedIn, router]);
+
+    return (
+        <Button
+            variant={going ? "success" : "outline"}
+            size={size}
+            onClick={handleClick}
+            disabled={pending}
+            className={cn("gap-2", className)}
+            aria-pressed={going}
+            aria-label={going ? "Cancel RSVP" : "RSVP to this time"}
+        >
+            {going ? (
+                <CheckCircle2 className="w-4 h-4" aria-hidden="true" />
+            ) : (
+                <UserPlus className="w-4 h-4" aria-hidden="true" />
+            )}
+            <span>{going ? "Going" : "RSVP"}</span>
+            {count > 0 && (
+                <span className="text-xs opacity-75">· {count}</span>
+            )}
+        </Button>
+    );
+});
+
+RsvpButton.displayName = "RsvpButton";
+
+export default RsvpButton;
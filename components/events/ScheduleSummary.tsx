@@ -4,7 +4,7 @@ import { toZonedTime } from "date-fns-tz";
 import { useMemo } from "react";
 
 export type Weekday = "SU" | "MO" | "TU" | "WE" | "TH" | "FR" | "SA";
-export type RecurrenceFreq = "NONE" | "DAILY" | "WEEKLY";
+export type RecurrenceFreq = "NONE" | "DAILY" | "WEEKLY" | "MONTHLY";
 
 const WEEKDAY_LABEL: Record<Weekday, string> = {
     SU: "Sun",
@@ -16,6 +16,8 @@ const WEEKDAY_LABEL: Record<Weekday, string> = {
     SA: "Sat",
 };
 
+const ORDINAL_LABEL: Record<number, string> = { 1: "1st", 2: "2nd", 3: "3rd", 4: "4th", [-1]: "last" };
+
 // Validate HH:mm format (00:00 to 23:59)
 const TIME_REGEX = /^([0-1]?[0-9]|2[0-3]):([0-5][0-9])$/;
 
@@ -61,36 +63,67 @@ function formatTimesHHmm(times: string[], tz: string): string {
         .join(", ");
 }
 
+function formatMonthDay(day: number): string {
+    if (day === -1) return "last day";
+    if (day < 0) return `${-day} days before month end`;
+    const suffix = day % 10 === 1 && day !== 11 ? "st" : day % 10 === 2 && day !== 12 ? "nd" : day % 10 === 3 && day !== 13 ? "rd" : "th";
+    return `${day}${suffix}`;
+}
+
+/** "Weekly" / "Every 2 weeks" */
+function frequencyLabel(unit: "day" | "week" | "month", interval: number): string {
+    if (interval > 1) return `Every ${interval} ${unit}s`;
+    return unit === "day" ? "Daily" : unit === "week" ? "Weekly" : "Monthly";
+}
+
 export default function ScheduleSummary(props: {
     recurrenceFreq: RecurrenceFreq;
     byWeekday?: Weekday[];
     times?: string[];
     timezone: string;
     until?: Date | null;
+    interval?: number;
+    count?: number | null;
+    byMonthDay?: number[];
+    byWeekdayPos?: number | null;
+    startAt?: Date;
     className?: string;
 }) {
-    const { recurrenceFreq, byWeekday, times, timezone, until, className = "" } = props;
+    const {
+        recurrenceFreq,
+        byWeekday,
+        times,
+        timezone,
+        until,
+        interval = 1,
+        count,
+        byMonthDay,
+        byWeekdayPos,
+        startAt,
+        className = "",
+    } = props;
 
     // Memoize formatted times to avoid recalculation on every render
     const timesText = useMemo(() => {
         if (!times?.length) return null;
-        const uniqueTimes = Array.from(new Set(times)).sort();
+        // Imported showtimes may carry an end ("HH:mm-HH:mm"); only starts are listed
+        const uniqueTimes = Array.from(new Set(times.map((t) => t.split("-")[0] ?? t))).sort();
         return formatTimesHHmm(uniqueTimes, timezone);
     }, [times, timezone]);
 
-    const untilText = until ? ` through ${format(until, "MMM d, yyyy")}` : "";
+    const untilText = `${until ? ` through ${format(until, "MMM d, yyyy")}` : ""}${count ? ` · ${count} times` : ""}`;
 
     if (recurrenceFreq === "DAILY") {
         return (
             <span
                 className={`inline-flex flex-wrap items-center gap-1.5 text-xs sm:text-sm rounded-xl border px-3 py-1.5 bg-white border-sky-300 text-sky-700 dark:bg-sky-950/50 dark:border-sky-700 dark:text-sky-100 shadow-sm transition-colors ${className}`}
                 role="status"
-                aria-label={`Daily event${timesText ? ` at ${timesText}` : ""} ${timezone}${untilText}`}
+                aria-label={`${frequencyLabel("day", interval)} event${timesText ? ` at ${timesText}` : ""} ${timezone}${untilText}`}
             >
                 <svg className="w-4 h-4 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
                 </svg>
-                <span className="font-semibold">Daily</span>
+                <span className="font-semibold">{frequencyLabel("day", interval)}</span>
                 {timesText && (
                     <>
                         <span className="opacity-50">•</span>
@@ -115,12 +148,12 @@ export default function ScheduleSummary(props: {
             <span
                 className={`inline-flex flex-wrap items-center gap-1.5 text-xs sm:text-sm rounded-xl border px-3 py-1.5 bg-white border-violet-300 text-violet-700 dark:bg-violet-950/50 dark:border-violet-700 dark:text-violet-100 shadow-sm transition-colors ${className}`}
                 role="status"
-                aria-label={`Weekly event${days ? ` on ${days}` : ""}${timesText ? ` at ${timesText}` : ""} ${timezone}${untilText}`}
+                aria-label={`${frequencyLabel("week", interval)} event${days ? ` on ${days}` : ""}${timesText ? ` at ${timesText}` : ""} ${timezone}${untilText}`}
             >
                 <svg className="w-4 h-4 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
                 </svg>
-                <span className="font-semibold">Weekly</span>
+                <span className="font-semibold">{frequencyLabel("week", interval)}</span>
                 {days && (
                     <>
                         <span className="opacity-50">•</span>
@@ -145,6 +178,46 @@ export default function ScheduleSummary(props: {
         );
     }
 
+    if (recurrenceFreq === "MONTHLY") {
+        const weekdayDays = (byWeekday || []).map((d) => WEEKDAY_LABEL[d]).join("/");
+        const monthDays = byMonthDay?.length ? byMonthDay : startAt ? [Number(new Intl.DateTimeFormat("en-US", { day: "numeric", timeZone: timezone }).format(startAt))] : [];
+        const days = byWeekdayPos != null && weekdayDays
+            ? `${ORDINAL_LABEL[byWeekdayPos] ?? ""} ${weekdayDays}`
+            : monthDays.map(formatMonthDay).join(", ");
+        return (
+            <span
+                className={`inline-flex flex-wrap items-center gap-1.5 text-xs sm:text-sm rounded-xl border px-3 py-1.5 bg-white border-amber-300 text-amber-700 dark:bg-amber-950/50 dark:border-amber-700 dark:text-amber-100 shadow-sm transition-colors ${className}`}
+                role="status"
+                aria-label={`${frequencyLabel("month", interval)} event${days ? ` on the ${days}` : ""}${timesText ? ` at ${timesText}` : ""} ${timezone}${untilText}`}
+            >
+                <svg className="w-4 h-4 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+                <span className="font-semibold">{frequencyLabel("month", interval)}</span>
+                {days && (
+                    <>
+                        <span className="opacity-50">•</span>
+                        <span>the {days}</span>
+                    </>
+                )}
+                {timesText && (
+                    <>
+                        <span className="opacity-50">•</span>
+                        <span className="flex items-center gap-1">
+                            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            </svg>
+                            {timesText}
+                        </span>
+                    </>
+                )}
+                <span className="opacity-60 text-[0.7rem] sm:text-xs">
+                    {timezone}{untilText}
+                </span>
+            </span>
+        );
+    }
+
     // One-time: no summary pill
     return null;
 }
@@ -4,6 +4,14 @@ import { useState, useEffect } from "react";
 import { cn } from "@/lib/utils";
 import { Server, Users, Wifi, WifiOff, Zap } from "lucide-react";
 import { Skeleton } from "@/components/common";
+import { useServerStatusHistory } from "@/hooks/useServerStatusHistory";
+import type { StatusHistoryPoint, StatusHistoryRange } from "@/lib/server-status-history";
+
+const HISTORY_RANGES: { value: StatusHistoryRange; label: string }[] = [
+    { value: "24h", label: "24 hours" },
+    { value: "7d", label: "7 days" },
+    { value: "30d", label: "30 days" },
+];
 
 type ServerStatusData = {
     online: boolean;
@@ -14,6 +22,7 @@ type ServerStatusData = {
     version?: string;
     latency?: number;
     uptime?: number | null;
+    playerSample?: { name: string; id: string }[];
     serverAddress: string;
 };
 
@@ -21,6 +30,8 @@ export default function ServerStatus() {
     const [status, setStatus] = useState<ServerStatusData | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState(false);
+    const [range, setRange] = useState<StatusHistoryRange>("24h");
+    const { history } = useServerStatusHistory(range);
 
     useEffect(() => {
         const fetchStatus = async () => {
@@ -59,6 +70,8 @@ export default function ServerStatus() {
         return null; // Don't show if error
     }
 
+    const uptime = history ? history.uptimePercentage : status.uptime;
+
     return (
         <div className={cn(
             "rounded-2xl border-2 p-6 shadow-lg transition-all duration-300",
@@ -177,7 +190,7 @@ export default function ServerStatus() {
                 )}
 
                 {/* Uptime */}
-                {status.uptime !== null && status.uptime !== undefined && (
+                {uptime !== null && uptime !== undefined && (
                     <div className={cn(
                         "rounded-xl p-4 transition-all duration-300",
                         "bg-green-50 dark:bg-green-900/20",
@@ -186,17 +199,58 @@ export default function ServerStatus() {
                         <div className="flex items-center gap-2 mb-2">
                             <Wifi className="w-4 h-4 text-green-600 dark:text-green-400" aria-hidden="true" />
                             <span className="text-xs font-medium text-green-600 dark:text-green-400">
-                                Uptime
+                                Uptime ({range})
                             </span>
                         </div>
                         <div className="text-2xl font-bold text-slate-900 dark:text-white">
-                            {status.uptime}
+                            {uptime}
                             <span className="text-sm text-slate-600 dark:text-slate-400 font-normal">%</span>
                         </div>
                     </div>
                 )}
             </div>
 
+            {/* Player sample (servers list up to 12 players) */}
+            {status.online && status.playerSample && status.playerSample.length > 0 && (
+                <p className="mt-4 text-xs text-slate-600 dark:text-slate-400 truncate">
+                    Playing now: {status.playerSample.map(player => player.name).join(", ")}
+                    {status.players.online > status.playerSample.length && (
+                        <> and {status.players.online - status.playerSample.length} more</>
+                    )}
+                </p>
+            )}
+
+            {/* Player history */}
+            {history && history.points.length > 0 && (
+                <div className="mt-4">
+                    <div className="flex items-center justify-between mb-2">
+                        <span className="text-xs font-medium text-slate-600 dark:text-slate-400">
+                            Peak players: {history.peakPlayers}
+                        </span>
+                        <div className="flex gap-1" role="group" aria-label="History range">
+                            {HISTORY_RANGES.map(({ value, label }) => (
+                                <button
+                                    key={value}
+                                    type="button"
+                                    onClick={() => setRange(value)}
+                                    aria-pressed={range === value}
+                                    aria-label={`Show last ${label}`}
+                                    className={cn(
+                                        "px-2 py-0.5 rounded-md text-xs font-medium transition-colors",
+                                        range === value
+                                            ? "bg-slate-900 text-white dark:bg-white dark:text-slate-900"
+                                            : "text-slate-600 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-800"
+                                    )}
+                                >
+                                    {value}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <PlayerSparkline points={history.points} />
+                </div>
+            )}
+
             {/* Footer note */}
             <div className="mt-4 text-xs text-slate-500 dark:text-slate-500 text-center">
                 Updates every minute
@@ -205,6 +259,40 @@ export default function ServerStatus() {
     );
 }
 
+/**
+ * Peak players per bucket as bars; buckets with downtime are drawn in red
+ */
+function PlayerSparkline({ points }: { points: StatusHistoryPoint[] }) {
+    const max = Math.max(1, ...points.map(point => point.peak));
+    const barWidth = 100 / points.length;
+
+    return (
+        <svg
+            viewBox="0 0 100 40"
+            preserveAspectRatio="none"
+            className="w-full h-12"
+            role="img"
+            aria-label={`Player history, peak ${max}`}
+        >
+            {points.map((point, index) => {
+                const height = Math.max(1, (point.peak / max) * 40);
+                return (
+                    <rect
+                        key={point.timestamp}
+                        x={index * barWidth}
+                        y={40 - height}
+                        width={Math.max(barWidth * 0.8, 0.2)}
+                        height={height}
+                        className={point.uptime < 100
+                            ? "fill-red-400 dark:fill-red-500"
+                            : "fill-green-400 dark:fill-green-500"}
+                    />
+                );
+            })}
+        </svg>
+    );
+}
+
 function ServerStatusSkeleton() {
     return (
         <div className={cn(
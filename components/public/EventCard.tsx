@@ -24,6 +24,10 @@ type EventCardProps = {
     times: string[];
     timezone: string;
     until: Date | null;
+    interval?: number;
+    count?: number | null;
+    byMonthDay?: number[];
+    byWeekdayPos?: number | null;
     shortDescription: string | null;
     startAt: Date;
     endAt: Date;
@@ -55,6 +59,10 @@ const EventCard = memo(function EventCard({
     times,
     timezone,
     until,
+    interval,
+    count,
+    byMonthDay,
+    byWeekdayPos,
     shortDescription,
     startAt,
     endAt,
@@ -123,6 +131,11 @@ const EventCard = memo(function EventCard({
                     times={times}
                     timezone={timezone}
                     until={until}
+                    {...(interval !== undefined && { interval })}
+                    {...(count !== undefined && { count })}
+                    {...(byMonthDay && { byMonthDay })}
+                    {...(byWeekdayPos !== undefined && { byWeekdayPos })}
+                    startAt={startAt}
                     className="text-sm font-medium"
                 />
             </div>
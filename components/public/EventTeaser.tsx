@@ -3,6 +3,7 @@ import Link from "next/link";
 import { type Weekday as SummaryWeekday, type RecurrenceFreq as SummaryRecurrenceFreq } from "@/components/events/ScheduleSummary";
 import { unstable_cache } from "next/cache";
 import { prisma } from "@/lib/prisma";
+import { asMonthDayArray } from "@/lib/recurrence";
 import EventCard from "@/components/public/EventCard";
 
 export const runtime = "nodejs";
@@ -96,6 +97,11 @@ const getUpcomingEvents = unstable_cache(
                     byWeekdayJson: true,
                     timesJson: true,
                     recurrenceUntil: true,
+                    recurrenceInterval: true,
+                    recurrenceCount: true,
+                    byWeekdayPos: true,
+                    byMonthDayJson: true,
+                    exDatesJson: true,
                     startAt: true,
                     endAt: true,
                 },
@@ -158,6 +164,10 @@ export default async function EventTeaser({ title = "Events", limit = 6 }: Props
                             times={times}
                             timezone={tz}
                             until={e.recurrenceUntil ?? null}
+                            interval={e.recurrenceInterval}
+                            count={e.recurrenceCount}
+                            byMonthDay={asMonthDayArray(e.byMonthDayJson)}
+                            byWeekdayPos={e.byWeekdayPos}
                             shortDescription={e.shortDescription}
                             startAt={e.startAt}
                             endAt={e.endAt}
@@ -5,8 +5,8 @@ import Link from "next/link";
 import { formatInZone, SITE_TZ, isSameInstant } from "@/app/utils/timezone-client";
 import { Input, Badge, EmptyState } from "@/components/common";
 import { cn } from "@/lib/utils";
-import { Search, ChevronDown, Command, Heart, Calendar, LayoutGrid } from "lucide-react";
-import { getFavorites } from "@/lib/favorites";
+import { Search, ChevronDown, Command, Heart, Calendar, LayoutGrid, Rss } from "lucide-react";
+import { getFavorites, syncFavoritesWithAccount } from "@/lib/favorites";
 import AddToCalendarButton from "@/components/events/AddToCalendarButton";
 import ShareButton from "@/components/events/ShareButton";
 import CountdownBadge from "@/components/events/CountdownBadge";
@@ -22,7 +22,7 @@ type EventItem = {
     status: "Draft" | "Scheduled" | "Published" | "Archived";
     category: "Fireworks" | "SeasonalOverlay" | "MeetAndGreet" | "Parade" | "Other";
     shortDescription?: string | null;
-    recurrenceFreq: "NONE" | "DAILY" | "WEEKLY";
+    recurrenceFreq: "NONE" | "DAILY" | "WEEKLY" | "MONTHLY";
     byWeekdayJson: unknown;
     timesJson: unknown;
     timezone: string | null;
@@ -291,6 +291,10 @@ export default function EventsPublicFilter({ events, userTimezone }: { events: E
         };
 
         window.addEventListener("favoritesChanged", handleFavoritesChanged);
+
+        // Signed-in users get the favorites of their account (no-op for guests)
+        void syncFavoritesWithAccount();
+
         return () => window.removeEventListener("favoritesChanged", handleFavoritesChanged);
     }, []);
 
@@ -412,6 +416,15 @@ export default function EventsPublicFilter({ events, userTimezone }: { events: E
         setWorld(value === "All" ? "All" : (worlds.includes(value) ? value : "All"));
     }, [worlds]);
 
+    // Subscribe to the iCalendar feed with the current category/world filters
+    const handleSubscribe = useCallback(() => {
+        const params = new URLSearchParams();
+        if (cat !== "All") params.set("category", cat);
+        if (world !== "All") params.set("world", world);
+        const query = params.toString();
+        window.location.href = `webcal://${window.location.host}/api/events/feed${query ? `?${query}` : ""}`;
+    }, [cat, world]);
+
     // Dropdown options
     const categoryOptions: DropdownOption[] = useMemo(() => [
         { value: "All", label: "All Categories" },
@@ -512,6 +525,18 @@ export default function EventsPublicFilter({ events, userTimezone }: { events: E
 
                 {/* View Mode Toggle */}
                 <div className="flex items-center gap-2">
+                    <button
+                        onClick={handleSubscribe}
+                        className={cn(
+                            "px-3 py-2 rounded-lg font-semibold text-sm transition-all duration-200 flex items-center gap-2 active:scale-95",
+                            "bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700"
+                        )}
+                        aria-label="Subscribe to these events in your calendar app"
+                        title="Subscribe in your calendar app (updates automatically)"
+                    >
+                        <Rss className="w-4 h-4" />
+                        <span className="hidden sm:inline">Subscribe</span>
+                    </button>
                     <button
                         onClick={() => setViewMode("list")}
                         className={cn(
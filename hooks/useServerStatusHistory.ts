@@ -0,0 +1,59 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { StatusHistory, StatusHistoryRange } from "@/lib/server-status-history";
+
+/**
+ * useServerStatusHistory Hook
+ * Loads uptime and player history for a range from /api/server-status/history.
+ * Refetches when the range or server changes and every `refreshInterval` ms (default 5 minutes).
+ * Without `serverId` the history of the network's primary server is loaded.
+ */
+export function useServerStatusHistory(
+  range: StatusHistoryRange,
+  refreshInterval = 5 * 60 * 1000,
+  serverId?: string
+) {
+  const [history, setHistory] = useState<StatusHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchHistory = async () => {
+      try {
+        const params = new URLSearchParams({ range });
+        if (serverId) params.set("server", serverId);
+        const response = await fetch(`/api/server-status/history?${params}`, {
+          signal: controller.signal,
+        });
+        const result = await response.json();
+
+        if (result.success) {
+          setHistory(result.data);
+          setError(false);
+        } else {
+          setError(true);
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error("[useServerStatusHistory] Failed to fetch:", err);
+        setError(true);
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    setLoading(true);
+    void fetchHistory();
+    const interval = setInterval(fetchHistory, refreshInterval);
+
+    return () => {
+      controller.abort();
+      clearInterval(interval);
+    };
+  }, [range, refreshInterval, serverId]);
+
+  return { history, loading, error };
+}
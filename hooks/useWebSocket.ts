@@ -1,11 +1,13 @@
 "use client";
 
 import { useEffect, useRef, useState, useCallback } from "react";
-import type {
-  WebSocketMessage,
-  ServerEvents,
-  Channel,
-  ConnectionInfo,
+import {
+  WS_CLOSE_CODES,
+  type WebSocketMessage,
+  type ServerEvents,
+  type ClientEvents,
+  type Channel,
+  type ConnectionInfo,
 } from "@/lib/websocket-events";
 
 /**
@@ -17,22 +19,30 @@ interface UseWebSocketOptions {
   channels?: Channel[]; // Initial channels to subscribe to
   reconnect?: boolean; // Auto-reconnect on disconnect
   maxReconnectAttempts?: number;
-  reconnectDelay?: number;
+  reconnectDelay?: number; // Base delay, doubled after each failed attempt
+  pingInterval?: number;
   onConnect?: () => void;
   onDisconnect?: () => void;
+  /* eslint-disable-next-line no-unused-vars */
   onError?: (error: Error) => void;
+  /* eslint-disable-next-line no-unused-vars */
   onMessage?: <T extends keyof ServerEvents>(message: WebSocketMessage<T>) => void;
 }
 
+const TOKEN_ENDPOINT = "/api/user/realtime-token";
+
+// Close codes after which reconnecting cannot succeed
+const FATAL_CLOSE_CODES = new Set<number>([WS_CLOSE_CODES.UNAUTHORIZED]);
+
 /**
  * React Hook for WebSocket Connection
- * 
- * **IMPORTANT**: This is a client-side boilerplate/foundation.
- * To enable:
- * 1. Set up a WebSocket server (or use a service like Pusher/Ably)
- * 2. Set NEXT_PUBLIC_WEBSOCKET_URL environment variable
- * 3. Enable the hook by passing `enabled: true`
- * 
+ *
+ * Connects to the standalone WebSocket server (`npm run ws:server`), authenticates
+ * with the current session via `client:connect`, keeps the connection alive with
+ * `client:ping`, and re-subscribes to channels after reconnecting.
+ *
+ * Requires NEXT_PUBLIC_WEBSOCKET_URL; pass `enabled: true` to connect.
+ *
  * @example
  * ```tsx
  * const { connectionState, subscribe, sendMessage } = useWebSocket({
@@ -54,10 +64,7 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     reconnect = true,
     maxReconnectAttempts = 5,
     reconnectDelay = 3000,
-    onConnect,
-    onDisconnect,
-    onError,
-    onMessage,
+    pingInterval = 30000,
   } = options;
 
   const [connectionInfo, setConnectionInfo] = useState<ConnectionInfo>({
@@ -67,156 +74,173 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
   });
 
   const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
-  const pingIntervalRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const pingIntervalRef = useRef<ReturnType<typeof setInterval> | undefined>(undefined);
+  const reconnectAttemptsRef = useRef(0);
+  const closedByClientRef = useRef(false);
+
+  // Channels to (re-)subscribe to whenever the connection is established
+  const channelsRef = useRef<Set<Channel>>(new Set(channels));
+
+  // Latest callbacks, so inline handlers do not force a reconnect on every render
+  const callbacksRef = useRef(options);
+  callbacksRef.current = options;
+
+  const send = useCallback(<T extends keyof ClientEvents>(type: T, data: ClientEvents[T]): boolean => {
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN) return false;
+    ws.send(JSON.stringify({ type, data, timestamp: Date.now() }));
+    return true;
+  }, []);
 
-  /**
-   * Connect to WebSocket server
-   */
-  const connect = useCallback(() => {
-    if (!enabled) {
-      console.log("[useWebSocket] WebSocket is disabled");
-      return;
+  const clearTimers = useCallback(() => {
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current);
+      reconnectTimeoutRef.current = undefined;
     }
-
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      console.log("[useWebSocket] Already connected");
-      return;
+    if (pingIntervalRef.current) {
+      clearInterval(pingIntervalRef.current);
+      pingIntervalRef.current = undefined;
     }
+  }, []);
 
-    try {
-      console.log(`[useWebSocket] Connecting to ${url}...`);
-      setConnectionInfo((prev) => ({ ...prev, state: "connecting" }));
-
-      // TODO: Replace with actual WebSocket connection
-      // For now, this is a placeholder
-      // wsRef.current = new WebSocket(url);
-
-      // Simulate connection for boilerplate
-      console.log("[useWebSocket] WebSocket connection is not implemented yet");
-      console.log("[useWebSocket] To enable:");
-      console.log("  1. Set NEXT_PUBLIC_WEBSOCKET_URL environment variable");
-      console.log("  2. Uncomment WebSocket initialization code");
-      console.log("  3. Set up a WebSocket server or service");
-
-      // Mock connected state for testing UI
-      setTimeout(() => {
-        setConnectionInfo({
-          state: "connected",
-          clientId: "mock-client-id",
-          connectedAt: Date.now(),
-          lastPingAt: Date.now(),
-          reconnectAttempts: 0,
-          subscribedChannels: channels,
-        });
-        onConnect?.();
-      }, 1000);
-
-      /* 
-      // Uncomment when WebSocket server is ready:
-
-      wsRef.current.onopen = () => {
-        console.log("[useWebSocket] Connected");
+  const handleServerMessage = useCallback((message: WebSocketMessage) => {
+    switch (message.type) {
+      case "server:connected": {
+        const { clientId } = message.data as ServerEvents["server:connected"];
+        reconnectAttemptsRef.current = 0;
         setConnectionInfo({
           state: "connected",
+          clientId,
           connectedAt: Date.now(),
           lastPingAt: Date.now(),
           reconnectAttempts: 0,
           subscribedChannels: [],
         });
 
-        // Subscribe to initial channels
-        if (channels.length > 0) {
-          subscribe(channels);
+        if (channelsRef.current.size > 0) {
+          send("client:subscribe", { channels: Array.from(channelsRef.current) });
         }
 
-        // Start ping interval
         pingIntervalRef.current = setInterval(() => {
-          sendMessage("client:ping", { timestamp: Date.now() });
-        }, 30000);
-
-        onConnect?.();
-      };
-
-      wsRef.current.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data) as WebSocketMessage;
-          console.log("[useWebSocket] Message received:", message);
-
-          // Handle internal messages
-          if (message.type === "server:connected") {
-            setConnectionInfo((prev) => ({
-              ...prev,
-              clientId: message.data.clientId,
-            }));
-          }
-
-          if (message.type === "server:pong") {
-            setConnectionInfo((prev) => ({
-              ...prev,
-              lastPingAt: Date.now(),
-            }));
-          }
-
-          // Pass message to callback
-          onMessage?.(message);
-        } catch (error) {
-          console.error("[useWebSocket] Failed to parse message:", error);
-        }
-      };
+          send("client:ping", { timestamp: Date.now() });
+        }, pingInterval);
+
+        callbacksRef.current.onConnect?.();
+        break;
+      }
+      case "server:pong":
+        setConnectionInfo((prev) => ({ ...prev, lastPingAt: Date.now() }));
+        break;
+      case "server:subscribed": {
+        const { channels: subscribed } = message.data as ServerEvents["server:subscribed"];
+        setConnectionInfo((prev) => ({ ...prev, subscribedChannels: subscribed }));
+        break;
+      }
+      case "server:error": {
+        const { code, message: errorMessage } = message.data as ServerEvents["server:error"];
+        callbacksRef.current.onError?.(new Error(`${code}: ${errorMessage}`));
+        break;
+      }
+    }
 
-      wsRef.current.onerror = (error) => {
-        console.error("[useWebSocket] Error:", error);
-        setConnectionInfo((prev) => ({ ...prev, state: "error" }));
-        onError?.(new Error("WebSocket error"));
-      };
+    callbacksRef.current.onMessage?.(message);
+  }, [send, pingInterval]);
 
-      wsRef.current.onclose = () => {
-        console.log("[useWebSocket] Disconnected");
-        setConnectionInfo((prev) => ({ ...prev, state: "disconnected" }));
+  /**
+   * Connect to WebSocket server
+   */
+  const connect = useCallback(async () => {
+    if (!enabled) return;
 
-        // Clear ping interval
-        if (pingIntervalRef.current) {
-          clearInterval(pingIntervalRef.current);
-        }
+    const current = wsRef.current;
+    if (current && (current.readyState === WebSocket.OPEN || current.readyState === WebSocket.CONNECTING)) {
+      return;
+    }
 
-        // Attempt reconnection
-        if (reconnect && connectionInfo.reconnectAttempts < maxReconnectAttempts) {
-          setConnectionInfo((prev) => ({
-            ...prev,
-            state: "reconnecting",
-            reconnectAttempts: prev.reconnectAttempts + 1,
-          }));
-
-          reconnectTimeoutRef.current = setTimeout(() => {
-            connect();
-          }, reconnectDelay);
-        }
+    closedByClientRef.current = false;
+    setConnectionInfo((prev) => ({ ...prev, state: reconnectAttemptsRef.current > 0 ? "reconnecting" : "connecting" }));
 
-        onDisconnect?.();
-      };
-      */
+    let credentials: ClientEvents["client:connect"];
+    try {
+      const response = await fetch(TOKEN_ENDPOINT, { credentials: "include", cache: "no-store" });
+      if (response.status === 401) {
+        // Not signed in - nothing to reconnect to
+        setConnectionInfo((prev) => ({ ...prev, state: "disconnected" }));
+        return;
+      }
+      if (!response.ok) throw new Error(`Token request failed with status ${response.status}`);
+      // Tickets are single-use, so every (re)connect fetches a fresh one
+      const { userId, ticket } = await response.json();
+      credentials = { userId, ticket };
     } catch (error) {
-      console.error("[useWebSocket] Connection failed:", error);
       setConnectionInfo((prev) => ({ ...prev, state: "error" }));
-      onError?.(error as Error);
+      callbacksRef.current.onError?.(error instanceof Error ? error : new Error("Failed to get realtime token"));
+      scheduleReconnect();
+      return;
+    }
+
+    if (closedByClientRef.current) return;
+
+    const ws = new WebSocket(url);
+    wsRef.current = ws;
+
+    ws.onopen = () => {
+      ws.send(JSON.stringify({ type: "client:connect", data: credentials, timestamp: Date.now() }));
+    };
+
+    ws.onmessage = (event) => {
+      try {
+        handleServerMessage(JSON.parse(event.data) as WebSocketMessage);
+      } catch (error) {
+        console.error("[useWebSocket] Failed to handle message:", error);
+      }
+    };
+
+    ws.onerror = () => {
+      setConnectionInfo((prev) => ({ ...prev, state: "error" }));
+      callbacksRef.current.onError?.(new Error("WebSocket error"));
+    };
+
+    ws.onclose = (event) => {
+      if (wsRef.current === ws) wsRef.current = null;
+      clearTimers();
+      setConnectionInfo((prev) => ({ ...prev, state: "disconnected", subscribedChannels: [] }));
+      callbacksRef.current.onDisconnect?.();
+
+      if (!closedByClientRef.current && !FATAL_CLOSE_CODES.has(event.code)) {
+        scheduleReconnect();
+      }
+    };
+
+    function scheduleReconnect() {
+      if (!reconnect || reconnectAttemptsRef.current >= maxReconnectAttempts) return;
+
+      const delay = reconnectDelay * 2 ** reconnectAttemptsRef.current;
+      reconnectAttemptsRef.current++;
+      setConnectionInfo((prev) => ({
+        ...prev,
+        state: "reconnecting",
+        reconnectAttempts: reconnectAttemptsRef.current,
+      }));
+
+      reconnectTimeoutRef.current = setTimeout(() => {
+        void connect();
+      }, delay);
     }
-  }, [enabled, url, channels, reconnect, maxReconnectAttempts, reconnectDelay, onConnect, onDisconnect, onError, onMessage, connectionInfo.reconnectAttempts]);
+  }, [enabled, url, reconnect, maxReconnectAttempts, reconnectDelay, handleServerMessage, clearTimers]);
 
   /**
    * Disconnect from WebSocket server
    */
   const disconnect = useCallback(() => {
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-    }
-
-    if (pingIntervalRef.current) {
-      clearInterval(pingIntervalRef.current);
-    }
+    closedByClientRef.current = true;
+    clearTimers();
+    reconnectAttemptsRef.current = 0;
 
     if (wsRef.current) {
-      wsRef.current.close();
+      send("client:disconnect", {});
+      wsRef.current.close(1000, "Client disconnect");
       wsRef.current = null;
     }
 
@@ -225,81 +249,43 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
       reconnectAttempts: 0,
       subscribedChannels: [],
     });
-  }, []);
+  }, [clearTimers, send]);
 
   /**
-   * Subscribe to channels
+   * Subscribe to channels (remembered across reconnects)
    */
   const subscribe = useCallback((channelsToSubscribe: Channel[]) => {
-    if (connectionInfo.state !== "connected") {
-      console.warn("[useWebSocket] Not connected, cannot subscribe");
-      return;
-    }
-
-    console.log("[useWebSocket] Subscribing to:", channelsToSubscribe);
-
-    // TODO: Send subscription message to server
-    // sendMessage("client:subscribe", { channels: channelsToSubscribe });
-
-    setConnectionInfo((prev) => ({
-      ...prev,
-      subscribedChannels: [...new Set([...prev.subscribedChannels, ...channelsToSubscribe])],
-    }));
-  }, [connectionInfo.state]);
+    channelsToSubscribe.forEach((channel) => channelsRef.current.add(channel));
+    send("client:subscribe", { channels: channelsToSubscribe });
+  }, [send]);
 
   /**
    * Unsubscribe from channels
    */
   const unsubscribe = useCallback((channelsToUnsubscribe: Channel[]) => {
-    if (connectionInfo.state !== "connected") {
-      console.warn("[useWebSocket] Not connected, cannot unsubscribe");
-      return;
-    }
-
-    console.log("[useWebSocket] Unsubscribing from:", channelsToUnsubscribe);
-
-    // TODO: Send unsubscription message to server
-    // sendMessage("client:unsubscribe", { channels: channelsToUnsubscribe });
-
-    setConnectionInfo((prev) => ({
-      ...prev,
-      subscribedChannels: prev.subscribedChannels.filter(
-        (ch) => !channelsToUnsubscribe.includes(ch)
-      ),
-    }));
-  }, [connectionInfo.state]);
+    channelsToUnsubscribe.forEach((channel) => channelsRef.current.delete(channel));
+    send("client:unsubscribe", { channels: channelsToUnsubscribe });
+  }, [send]);
 
   /**
    * Send message to server
    */
-  const sendMessage = useCallback(<T extends keyof any>(type: T, data: any) => {
-    if (connectionInfo.state !== "connected" || !wsRef.current) {
+  const sendMessage = useCallback(<T extends keyof ClientEvents>(type: T, data: ClientEvents[T]) => {
+    if (!send(type, data)) {
       console.warn("[useWebSocket] Not connected, cannot send message");
-      return;
     }
+  }, [send]);
 
-    const message = {
-      type,
-      data,
-      timestamp: Date.now(),
-    };
-
-    console.log("[useWebSocket] Sending message:", message);
-
-    // TODO: Send message via WebSocket
-    // wsRef.current.send(JSON.stringify(message));
-  }, [connectionInfo.state]);
-
-  // Auto-connect on mount
+  // Connect while enabled
   useEffect(() => {
     if (enabled) {
-      connect();
+      void connect();
     }
 
     return () => {
       disconnect();
     };
-  }, [enabled]); // Only run on enabled change
+  }, [enabled, connect, disconnect]);
 
   return {
     // Connection state
@@ -317,4 +303,3 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     sendMessage,
   };
 }
-
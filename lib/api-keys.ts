@@ -1,5 +1,6 @@
 import { prisma } from "@/lib/prisma";
 import { createHash, randomBytes } from "crypto";
+import { getActiveSuspension } from "@/lib/user-suspension";
 
 /**
  * API Key Format: sk_live_[32 random chars]
@@ -78,6 +79,7 @@ export async function validateApiKey(key: string): Promise<{
         name: true,
         scopes: true,
         isActive: true,
+        suspendedAt: true,
         expiresAt: true,
         rateLimit: true,
         createdById: true,
@@ -89,9 +91,14 @@ export async function validateApiKey(key: string): Promise<{
       return { valid: false, error: "API key not found" };
     }
 
+    // Keys disabled by an owner suspension come back once a timed suspension expires
+    if (!apiKey.isActive && apiKey.suspendedAt && !(await getActiveSuspension(apiKey.createdById))) {
+      apiKey.isActive = true;
+    }
+
     if (!apiKey.isActive) {
       console.log("[API Key Validation] Key is disabled");
-      return { valid: false, error: "API key is disabled" };
+      return { valid: false, error: apiKey.suspendedAt ? "API key owner is suspended" : "API key is disabled" };
     }
 
     if (apiKey.expiresAt && apiKey.expiresAt < new Date()) {
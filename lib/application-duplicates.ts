@@ -0,0 +1,212 @@
+import type { AppRole, AppStatus, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { validateMinecraftUsernameDb } from "./luckperms";
+
+/**
+ * Duplicate and repeat applicant detection
+ *
+ * On submission, earlier applications that share the email, the Minecraft
+ * account (by LuckPerms UUID when both players have joined, else by name), the
+ * Discord user or the device fingerprint are linked to the new one, and the
+ * review page lists them with their decisions. Someone rejected for a role
+ * can't apply for it again until that role's cooldown in Settings →
+ * Applications has passed; the applicant is only told to try again later.
+ * A shared device alone is only flagged - families and friends share
+ * computers - so it never triggers the cooldown.
+ */
+
+export const MATCH_SIGNALS = ["email", "minecraft", "discord", "device"] as const;
+
+export type MatchSignal = (typeof MATCH_SIGNALS)[number];
+
+export const MATCH_SIGNAL_LABELS: Record<MatchSignal, string> = {
+    email: "Email",
+    minecraft: "Minecraft account",
+    discord: "Discord user",
+    device: "Device",
+};
+
+export type ReapplyCooldownDays = Record<AppRole, number>;
+
+export const DEFAULT_REAPPLY_COOLDOWN_DAYS: ReapplyCooldownDays = {
+    Developer: 30,
+    GuestServices: 30,
+    Imaginear: 30,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ApplicantIdentity = {
+    email: string;
+    mcUsername: string;
+    mcUuid: string | null;
+    discordUser: string | null;
+    fingerprint: string | null;
+};
+
+export type RelatedApplication = {
+    id: string;
+    name: string;
+    email: string;
+    role: AppRole;
+    status: AppStatus;
+    createdAt: Date;
+    // When it was approved or rejected
+    decidedAt: Date | null;
+    signals: MatchSignal[];
+};
+
+const RELATED_SELECT = {
+    id: true,
+    name: true,
+    email: true,
+    mcUsername: true,
+    mcUuid: true,
+    discordUser: true,
+    fingerprint: true,
+    role: true,
+    status: true,
+    createdAt: true,
+    updatedAt: true,
+    statusChanges: {
+        where: { toStatus: { in: ["Approved", "Rejected"] } },
+        orderBy: { createdAt: "desc" },
+        take: 1,
+        select: { createdAt: true },
+    },
+} satisfies Prisma.ApplicationSelect;
+
+type RelatedRow = Prisma.ApplicationGetPayload<{ select: typeof RELATED_SELECT }>;
+
+const same = (a: string | null | undefined, b: string | null | undefined) =>
+    !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+function signalsBetween(identity: ApplicantIdentity, row: RelatedRow): MatchSignal[] {
+    const signals: MatchSignal[] = [];
+    if (same(identity.email, row.email)) signals.push("email");
+    // A name can be renamed away and taken by someone else; the UUID can't
+    const minecraft = identity.mcUuid && row.mcUuid
+        ? same(identity.mcUuid, row.mcUuid)
+        : same(identity.mcUsername, row.mcUsername);
+    if (minecraft) signals.push("minecraft");
+    if (same(identity.discordUser, row.discordUser)) signals.push("discord");
+    if (identity.fingerprint && identity.fingerprint === row.fingerprint) signals.push("device");
+    return signals;
+}
+
+function toRelated(row: RelatedRow, signals: MatchSignal[]): RelatedApplication {
+    return {
+        id: row.id,
+        name: row.name,
+        email: row.email,
+        role: row.role,
+        status: row.status,
+        createdAt: row.createdAt,
+        // Decisions from before the status history only have updatedAt
+        decidedAt:
+            row.status === "Approved" || row.status === "Rejected" ? row.statusChanges[0]?.createdAt ?? row.updatedAt : null,
+        signals,
+    };
+}
+
+/**
+ * The player's UUID from the LuckPerms database, or null when it is not
+ * configured or the player has never joined
+ */
+export async function resolveMinecraftUuid(mcUsername: string): Promise<string | null> {
+    try {
+        const result = await validateMinecraftUsernameDb(mcUsername);
+        return result.valid ? result.uuid ?? null : null;
+    } catch (error) {
+        console.error("[Applications] Minecraft UUID lookup failed", mcUsername, error);
+        return null;
+    }
+}
+
+/**
+ * Earlier applications sharing any identifier with the applicant, newest first
+ */
+export async function findRelatedApplications(identity: ApplicantIdentity, excludeId?: string): Promise<RelatedApplication[]> {
+    const or: Prisma.ApplicationWhereInput[] = [{ email: identity.email }, { mcUsername: identity.mcUsername }];
+    if (identity.mcUuid) or.push({ mcUuid: identity.mcUuid });
+    if (identity.discordUser) or.push({ discordUser: identity.discordUser });
+    if (identity.fingerprint) or.push({ fingerprint: identity.fingerprint });
+
+    const rows = await prisma.application.findMany({
+        where: { OR: or, ...(excludeId && { NOT: { id: excludeId } }) },
+        orderBy: { createdAt: "desc" },
+        take: 50,
+        select: RELATED_SELECT,
+    });
+
+    return rows.flatMap((row) => {
+        const signals = signalsBetween(identity, row);
+        return signals.length > 0 ? [toRelated(row, signals)] : [];
+    });
+}
+
+/**
+ * Nested create data linking a new application to the related ones
+ */
+export function matchCreateData(related: RelatedApplication[]): Prisma.ApplicationMatchCreateWithoutApplicationInput[] {
+    return related.map((r) => ({
+        matched: { connect: { id: r.id } },
+        signals: r.signals,
+    }));
+}
+
+export async function getReapplyCooldownDays(): Promise<ReapplyCooldownDays> {
+    const row = await prisma.appSettings.findUnique({
+        where: { id: "global" },
+        select: { applications: true },
+    });
+    const settings = (row?.applications ?? {}) as { reapplyCooldownDays?: Partial<ReapplyCooldownDays> };
+    return { ...DEFAULT_REAPPLY_COOLDOWN_DAYS, ...settings.reapplyCooldownDays };
+}
+
+/**
+ * When the applicant may apply for the role again, or null if they may now.
+ * Counts rejections for the same role matched by email, Minecraft account or
+ * Discord user.
+ */
+export function reapplyAllowedFrom(
+    role: AppRole,
+    related: RelatedApplication[],
+    cooldownDays: ReapplyCooldownDays,
+    now: Date = new Date()
+): Date | null {
+    const days = cooldownDays[role];
+    if (!days) return null;
+
+    let allowedFrom: Date | null = null;
+    for (const r of related) {
+        if (r.role !== role || r.status !== "Rejected") continue;
+        if (!r.signals.some((signal) => signal !== "device")) continue;
+        const until = new Date((r.decidedAt ?? r.createdAt).getTime() + days * DAY_MS);
+        if (until > now && (!allowedFrom || until > allowedFrom)) allowedFrom = until;
+    }
+    return allowedFrom;
+}
+
+/**
+ * Applications linked to this one in either direction, newest first, for the
+ * review page
+ */
+export async function getRelatedApplications(applicationId: string): Promise<RelatedApplication[]> {
+    const [matches, matchedBy] = await Promise.all([
+        prisma.applicationMatch.findMany({
+            where: { applicationId },
+            select: { signals: true, matched: { select: RELATED_SELECT } },
+        }),
+        prisma.applicationMatch.findMany({
+            where: { matchedId: applicationId },
+            select: { signals: true, application: { select: RELATED_SELECT } },
+        }),
+    ]);
+
+    const related = [
+        ...matches.map((m) => toRelated(m.matched, m.signals as MatchSignal[])),
+        ...matchedBy.map((m) => toRelated(m.application, m.signals as MatchSignal[])),
+    ];
+    return related.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
@@ -0,0 +1,189 @@
+import { randomBytes } from "node:crypto";
+import type { AppRole, AppStatus } from "@prisma/client";
+import { prisma } from "./prisma";
+import { sanitizeHTML } from "./input-sanitization";
+import { isEmailConfigured, sendEmail } from "./integrations/email";
+import {
+    EMAIL_PLACEHOLDERS,
+    renderTemplate,
+    resolveEmailTemplates,
+    type ApplicationEmailKind,
+    type EmailPlaceholder,
+    type EmailTemplate,
+    type EmailTemplates,
+    type EmailValues,
+} from "./validation/application-email";
+
+/**
+ * Applicant status page and emails
+ *
+ * Every application gets a random status token; /apply/status/[token]
+ * shows its progress without an account. The templates in Settings →
+ * Applications are emailed on submission and when the status moves to
+ * InReview, Approved or Rejected. Sending never blocks or fails the change
+ * that triggered it: without SMTP_HOST nothing is sent.
+ */
+
+export const STATUS_TOKEN_PATTERN = /^[a-f0-9]{64}$/;
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+    Developer: "Developer",
+    GuestServices: "Guest Services",
+    Imaginear: "Imaginear",
+};
+
+const STATUS_EMAILS: Partial<Record<AppStatus, ApplicationEmailKind>> = {
+    InReview: "inReview",
+    Approved: "approved",
+    Rejected: "rejected",
+};
+
+const URL_PATTERN = /(https?:\/\/[^\s<>"]+)/g;
+
+// Stand-ins for the filled-in values while the HTML body is built (private use characters)
+const VALUE_MARKER_PATTERN = /\uE000(\w+)\uE001/g;
+
+export type ApplicationEmailResult = "sent" | "disabled" | "not_configured" | "not_found";
+
+export function newStatusToken(): string {
+    return randomBytes(32).toString("hex");
+}
+
+function siteUrl(): string {
+    return process.env["NEXT_PUBLIC_SITE_URL"]?.trim().replace(/\/$/, "") || "http://localhost:3000";
+}
+
+export function statusPageUrl(token: string): string {
+    return `${siteUrl()}/apply/status/${token}`;
+}
+
+/**
+ * Saved templates (defaults for unsaved ones) and the site name
+ */
+export async function getEmailSettings(): Promise<{ templates: EmailTemplates; siteName: string }> {
+    const row = await prisma.appSettings.findUnique({
+        where: { id: "global" },
+        select: { siteName: true, applications: true },
+    });
+    const applications = (row?.applications ?? {}) as { emailTemplates?: Partial<EmailTemplates> };
+    return {
+        templates: resolveEmailTemplates(applications.emailTemplates),
+        siteName: row?.siteName ?? "Imaginears",
+    };
+}
+
+function link(url: string): string {
+    return `<a href="${sanitizeHTML(url)}">${sanitizeHTML(url)}</a>`;
+}
+
+/** Template text with its links as anchors */
+function templateHtml(text: string): string {
+    return text
+        .split(URL_PATTERN)
+        .map((part, i) => (i % 2 === 1 ? link(part) : sanitizeHTML(part)))
+        .join("");
+}
+
+/**
+ * Subject, text and HTML of a template. Links written in the template and
+ * {{statusUrl}} become anchors; the other values (the applicant's name, the
+ * rejection reason) stay plain text.
+ */
+export function renderEmail(template: EmailTemplate, values: EmailValues) {
+    const text = renderTemplate(template.body, values);
+
+    // Render with markers so template text and values can be told apart
+    const markers: EmailValues = {};
+    const keys = Object.keys(values).filter((key) => Object.hasOwn(EMAIL_PLACEHOLDERS, key)) as EmailPlaceholder[];
+    for (const key of keys) {
+        markers[key] = values[key]?.trim() ? `\uE000${key}\uE001` : "";
+    }
+    const marked = renderTemplate(template.body, markers);
+
+    const paragraphs = marked.split(/\n{2,}/).map((paragraph) => {
+        const html = paragraph
+            .split(VALUE_MARKER_PATTERN)
+            .map((part, i) => {
+                if (i % 2 === 0) return templateHtml(part);
+                const value = values[part as EmailPlaceholder]?.trim() ?? "";
+                return part === "statusUrl" ? link(value) : sanitizeHTML(value);
+            })
+            .join("")
+            .replace(/\n/g, "<br>");
+        return `<p style="margin: 0 0 16px; line-height: 1.6;">${html}</p>`;
+    });
+
+    return {
+        subject: renderTemplate(template.subject, values).replace(/\s+/g, " "),
+        text,
+        html: `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"></head>
+<body style="margin: 0; padding: 24px; background-color: #f3f4f6; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; color: #111827;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 32px; background-color: #ffffff; border-radius: 8px;">
+    ${paragraphs.join("\n    ")}
+  </div>
+</body>
+</html>`,
+    };
+}
+
+/**
+ * Email an applicant one of the templates
+ */
+export async function sendApplicationEmail(
+    applicationId: string,
+    kind: ApplicationEmailKind,
+    options: { reason?: string | null } = {}
+): Promise<ApplicationEmailResult> {
+    if (!isEmailConfigured()) return "not_configured";
+
+    const [application, settings] = await Promise.all([
+        prisma.application.findUnique({
+            where: { id: applicationId },
+            select: { name: true, email: true, role: true, statusToken: true },
+        }),
+        getEmailSettings(),
+    ]);
+    if (!application) return "not_found";
+
+    const template = settings.templates[kind];
+    if (!template.enabled) return "disabled";
+
+    // Applications from before status pages get their token on the first email
+    let token = application.statusToken;
+    if (!token) {
+        token = newStatusToken();
+        await prisma.application.update({ where: { id: applicationId }, data: { statusToken: token } });
+    }
+
+    await sendEmail({
+        to: application.email,
+        ...renderEmail(template, {
+            name: application.name,
+            role: ROLE_LABELS[application.role],
+            siteName: settings.siteName,
+            statusUrl: statusPageUrl(token),
+            reason: options.reason ?? "",
+        }),
+    });
+    return "sent";
+}
+
+/**
+ * Email the applicant about a status change in the background. New has no
+ * email of its own; the received email goes out on submission.
+ */
+export function notifyApplicantOfStatus(applicationId: string, status: AppStatus, options: { reason?: string | null } = {}): void {
+    const kind = STATUS_EMAILS[status];
+    if (kind) notifyApplicant(applicationId, kind, options);
+}
+
+/**
+ * Send an applicant email in the background, logging failures
+ */
+export function notifyApplicant(applicationId: string, kind: ApplicationEmailKind, options: { reason?: string | null } = {}): void {
+    sendApplicationEmail(applicationId, kind, options).catch((error) => {
+        console.error("[Application Emails] Failed to email applicant", applicationId, kind, error);
+    });
+}
@@ -0,0 +1,113 @@
+import type { AppRole } from "@prisma/client";
+import { prisma } from "./prisma";
+import { Roles } from "./validation/application";
+import { DEFAULT_FORMS, type FormDefinition } from "./validation/application-form";
+
+/**
+ * Application forms
+ *
+ * Each role's form is a list of versions; the newest one is the form the
+ * apply page shows. Saving never edits a version, so applications always
+ * render with the questions they answered. Version 1 of a role is created
+ * from DEFAULT_FORMS the first time the role's form is needed.
+ */
+
+export type ApplicationFormVersion = {
+    id: string;
+    role: AppRole;
+    version: number;
+    definition: FormDefinition;
+    createdAt: Date;
+};
+
+// How long a replaced version still accepts submissions
+export const FORM_GRACE_PERIOD_MS = 3 * 60 * 60 * 1000; // 3 hours
+
+const FORM_SELECT = { id: true, role: true, version: true, definition: true, createdAt: true } as const;
+
+function toVersion(row: { id: string; role: AppRole; version: number; definition: unknown; createdAt: Date }): ApplicationFormVersion {
+    return { ...row, definition: row.definition as FormDefinition };
+}
+
+/**
+ * The form applicants of a role see now
+ */
+export async function getCurrentForm(role: AppRole): Promise<ApplicationFormVersion> {
+    const latest = await prisma.applicationForm.findFirst({
+        where: { role },
+        orderBy: { version: "desc" },
+        select: FORM_SELECT,
+    });
+    if (latest) return toVersion(latest);
+
+    try {
+        return toVersion(await prisma.applicationForm.create({
+            data: { role, version: 1, definition: DEFAULT_FORMS[role] },
+            select: FORM_SELECT,
+        }));
+    } catch (error) {
+        // Seeded by a concurrent request
+        if ((error as { code?: string }).code !== "P2002") throw error;
+        return getCurrentForm(role);
+    }
+}
+
+export async function listCurrentForms(): Promise<ApplicationFormVersion[]> {
+    return Promise.all(Roles.map((role) => getCurrentForm(role)));
+}
+
+/**
+ * The version an applicant for `role` may submit: the current one, or one
+ * replaced less than FORM_GRACE_PERIOD_MS ago (for people who were mid-form).
+ * Older versions would let a submission skip questions added since.
+ */
+export async function findSubmittableForm(
+    id: string,
+    role: AppRole,
+    now = new Date()
+): Promise<ApplicationFormVersion | null> {
+    const form = await findFormVersion(id);
+    if (!form || form.role !== role) return null;
+
+    const successor = await prisma.applicationForm.findUnique({
+        where: { role_version: { role, version: form.version + 1 } },
+        select: { createdAt: true },
+    });
+    if (successor && now.getTime() - successor.createdAt.getTime() > FORM_GRACE_PERIOD_MS) return null;
+    return form;
+}
+
+export async function findFormVersion(id: string): Promise<ApplicationFormVersion | null> {
+    const row = await prisma.applicationForm.findUnique({ where: { id }, select: FORM_SELECT });
+    return row ? toVersion(row) : null;
+}
+
+/**
+ * Save a role's form as a new version. Saving the current definition again
+ * keeps the current version.
+ * @returns The current version, and whether it was created by this save
+ */
+export async function saveFormVersion(
+    role: AppRole,
+    definition: FormDefinition,
+    authorId: string
+): Promise<{ form: ApplicationFormVersion; created: boolean }> {
+    for (let attempt = 0; attempt < 3; attempt++) {
+        const current = await getCurrentForm(role);
+        if (JSON.stringify(current.definition) === JSON.stringify(definition)) {
+            return { form: current, created: false };
+        }
+
+        try {
+            const row = await prisma.applicationForm.create({
+                data: { role, version: current.version + 1, definition, createdById: authorId },
+                select: FORM_SELECT,
+            });
+            return { form: toVersion(row), created: true };
+        } catch (error) {
+            // Version number taken by a concurrent save: compare against that one
+            if ((error as { code?: string }).code !== "P2002") throw error;
+        }
+    }
+    throw new Error(`Could not save the ${role} application form`);
+}
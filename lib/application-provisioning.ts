@@ -0,0 +1,387 @@
+import { randomBytes } from "node:crypto";
+import type { AppRole } from "@prisma/client";
+import { prisma } from "./prisma";
+import { getRoleLevel, canAssignRole } from "./role-security";
+import { hashPasswordArgon2 } from "./password-migration";
+import { isSuspensionActive } from "./user-suspension";
+import {
+    getMinecraftGroupForRole,
+    getPlayerPermissions,
+    isLuckPermsEnabled,
+    removeGroupFromMinecraft,
+    syncRoleToMinecraft,
+} from "./luckperms";
+import { resolveProvisioningSettings, type ProvisioningSettings } from "./validation/application-provisioning";
+
+/**
+ * Staff provisioning on approval
+ *
+ * Approving an application sets the applicant up as staff: an account (the
+ * existing one with their email, or a new one with a temporary password),
+ * the web role mapped from the role they applied for, their Minecraft name,
+ * and the matching LuckPerms group. planProvisioning is the dry run shown
+ * before approving; provisionApplication carries it out and undoes the
+ * steps already done when one fails. Roles are never lowered.
+ */
+
+export type ProvisioningStepKey = "account" | "role" | "minecraft" | "luckperms";
+
+export type PlannedStep = {
+    key: ProvisioningStepKey;
+    status: "ready" | "skip" | "warning" | "blocked";
+    message: string;
+};
+
+export type CompletedStep = {
+    key: ProvisioningStepKey;
+    status: "done" | "skipped" | "failed" | "rolled_back" | "rollback_failed";
+    message: string;
+};
+
+export type ProvisioningPlan = {
+    applicationId: string;
+    name: string;
+    email: string;
+    mcUsername: string;
+    existingUser: { id: string; role: string; minecraftName: string | null } | null;
+    role: string;
+    changeRole: boolean;
+    changeMinecraftName: boolean;
+    // null when the LuckPerms step is skipped
+    group: string | null;
+    steps: PlannedStep[];
+    blocked: boolean;
+};
+
+export type ProvisioningResult =
+    | {
+          success: true;
+          userId: string;
+          created: boolean;
+          // Shown once to the approving admin; never stored or emailed
+          temporaryPassword: string | null;
+          steps: CompletedStep[];
+          rollback: () => Promise<CompletedStep[]>;
+      }
+    | { success: false; error: string; steps: CompletedStep[] };
+
+export class ProvisioningBlockedError extends Error {
+    readonly plan: ProvisioningPlan;
+
+    constructor(plan: ProvisioningPlan) {
+        super(plan.steps.find((step) => step.status === "blocked")?.message ?? "Provisioning is blocked");
+        this.name = "ProvisioningBlockedError";
+        this.plan = plan;
+    }
+}
+
+export async function getProvisioningSettings(): Promise<ProvisioningSettings> {
+    const row = await prisma.appSettings.findUnique({
+        where: { id: "global" },
+        select: { applications: true },
+    });
+    const applications = (row?.applications ?? {}) as { provisioning?: Partial<ProvisioningSettings> };
+    return resolveProvisioningSettings(applications.provisioning);
+}
+
+/**
+ * What approving would do to the applicant's account, without changing anything.
+ * Returns null when the application does not exist.
+ */
+export async function planProvisioning(
+    applicationId: string,
+    actorRole: string,
+    settings?: ProvisioningSettings
+): Promise<ProvisioningPlan | null> {
+    const application = await prisma.application.findUnique({
+        where: { id: applicationId },
+        select: { id: true, name: true, email: true, mcUsername: true, role: true },
+    });
+    if (!application) return null;
+
+    const mapping = (settings ?? (await getProvisioningSettings())).roles[application.role as AppRole];
+    const email = application.email.trim().toLowerCase();
+    const mcUsername = application.mcUsername.trim();
+
+    const [existingUser, nameOwner] = await Promise.all([
+        prisma.user.findUnique({
+            where: { email },
+            select: { id: true, role: true, minecraftName: true, suspendedAt: true, suspendedUntil: true },
+        }),
+        mcUsername
+            ? prisma.user.findFirst({
+                  where: { minecraftName: mcUsername },
+                  select: { id: true, email: true },
+              })
+            : null,
+    ]);
+
+    const steps: PlannedStep[] = [];
+
+    // 1. Account
+    if (!existingUser) {
+        steps.push({ key: "account", status: "ready", message: `Create an account for ${email} with a temporary password` });
+    } else if (isSuspensionActive(existingUser)) {
+        steps.push({ key: "account", status: "blocked", message: `The account for ${email} is suspended` });
+    } else {
+        steps.push({ key: "account", status: "skip", message: `Use the existing account for ${email}` });
+    }
+
+    // 2. Web role - only ever raised
+    let role: string = mapping.role;
+    let changeRole = true;
+    if (existingUser) {
+        const currentLevel = getRoleLevel(existingUser.role);
+        if (currentLevel === -1) {
+            role = existingUser.role;
+            changeRole = false;
+            steps.push({
+                key: "role",
+                status: "warning",
+                message: `Keeps the custom role "${existingUser.role}"; change it on the Staff page if needed`,
+            });
+        } else if (currentLevel >= getRoleLevel(mapping.role)) {
+            role = existingUser.role;
+            changeRole = false;
+            steps.push({ key: "role", status: "skip", message: `Already ${existingUser.role}; role unchanged` });
+        }
+    }
+    if (changeRole) {
+        steps.push(
+            canAssignRole(actorRole, mapping.role)
+                ? {
+                      key: "role",
+                      status: "ready",
+                      message: existingUser ? `Change role from ${existingUser.role} to ${mapping.role}` : `Give the ${mapping.role} role`,
+                  }
+                : { key: "role", status: "blocked", message: `You don't have permission to assign the ${mapping.role} role` }
+        );
+    }
+
+    // 3. Minecraft name
+    let changeMinecraftName = false;
+    if (!mcUsername) {
+        steps.push({ key: "minecraft", status: "skip", message: "The application has no Minecraft username" });
+    } else if (nameOwner && nameOwner.id !== existingUser?.id) {
+        steps.push({
+            key: "minecraft",
+            status: "blocked",
+            message: `${mcUsername} is already linked to ${nameOwner.email ?? "another account"}`,
+        });
+    } else if (existingUser?.minecraftName === mcUsername) {
+        steps.push({ key: "minecraft", status: "skip", message: `${mcUsername} is already linked` });
+    } else {
+        changeMinecraftName = true;
+        steps.push(
+            existingUser?.minecraftName
+                ? { key: "minecraft", status: "warning", message: `Replace linked name ${existingUser.minecraftName} with ${mcUsername}` }
+                : { key: "minecraft", status: "ready", message: `Link Minecraft name ${mcUsername}` }
+        );
+    }
+
+    // 4. LuckPerms group
+    // A custom web role has no group of its own; use the mapped role's
+    let group: string | null = mapping.group || getMinecraftGroupForRole(getRoleLevel(role) === -1 ? mapping.role : role);
+    if (!mcUsername) {
+        group = null;
+        steps.push({ key: "luckperms", status: "skip", message: "No Minecraft username to add to a group" });
+    } else if (!isLuckPermsEnabled()) {
+        steps.push({
+            key: "luckperms",
+            status: "warning",
+            message: `LuckPerms is not configured; add ${mcUsername} to the "${group}" group by hand`,
+        });
+        group = null;
+    } else if (
+        existingUser &&
+        existingUser.minecraftName === mcUsername &&
+        !changeRole &&
+        !mapping.group &&
+        getMinecraftGroupForRole(existingUser.role) === group
+    ) {
+        steps.push({ key: "luckperms", status: "skip", message: `${mcUsername} already has the "${group}" group` });
+        group = null;
+    } else {
+        steps.push({ key: "luckperms", status: "ready", message: `Add ${mcUsername} to the "${group}" group` });
+    }
+
+    // Changing someone else's account needs rank over them
+    if (existingUser && (changeRole || changeMinecraftName) && getRoleLevel(existingUser.role) > 0) {
+        if (!canAssignRole(actorRole, existingUser.role)) {
+            steps[0] = {
+                key: "account",
+                status: "blocked",
+                message: `The existing account is ${existingUser.role}; only a higher role can change it`,
+            };
+        }
+    }
+
+    return {
+        applicationId: application.id,
+        name: application.name,
+        email,
+        mcUsername,
+        existingUser: existingUser
+            ? { id: existingUser.id, role: existingUser.role, minecraftName: existingUser.minecraftName }
+            : null,
+        role,
+        changeRole,
+        changeMinecraftName,
+        group,
+        steps,
+        blocked: steps.some((step) => step.status === "blocked"),
+    };
+}
+
+function newTemporaryPassword(): string {
+    return randomBytes(12).toString("base64url");
+}
+
+/**
+ * Provision the applicant as planned. A blocked plan throws
+ * ProvisioningBlockedError; a step that fails undoes the earlier ones and
+ * returns success: false. On success, `rollback` undoes everything, for when
+ * the approval itself cannot be saved.
+ */
+export async function provisionApplication(
+    applicationId: string,
+    actorRole: string,
+    settings?: ProvisioningSettings
+): Promise<ProvisioningResult | null> {
+    const plan = await planProvisioning(applicationId, actorRole, settings);
+    if (!plan) return null;
+    if (plan.blocked) throw new ProvisioningBlockedError(plan);
+
+    const steps: CompletedStep[] = [];
+    const undo: { key: ProvisioningStepKey; run: () => Promise<void> }[] = [];
+    let userId = plan.existingUser?.id ?? null;
+    let temporaryPassword: string | null = null;
+
+    const rollback = async (): Promise<CompletedStep[]> => {
+        const results: CompletedStep[] = [];
+        for (const { key, run } of [...undo].reverse()) {
+            try {
+                await run();
+                results.push({ key, status: "rolled_back", message: "Undone" });
+            } catch (error) {
+                console.error("[Provisioning] Rollback step failed", applicationId, key, error);
+                results.push({
+                    key,
+                    status: "rollback_failed",
+                    message: error instanceof Error ? error.message : "Could not be undone",
+                });
+            }
+        }
+        undo.length = 0;
+        return results;
+    };
+
+    let current: ProvisioningStepKey = "account";
+    try {
+        // 1-3. Account, role and Minecraft name
+        if (!plan.existingUser) {
+            temporaryPassword = newTemporaryPassword();
+            const user = await prisma.user.create({
+                data: {
+                    name: plan.name,
+                    email: plan.email,
+                    role: plan.role,
+                    minecraftName: plan.changeMinecraftName ? plan.mcUsername : null,
+                    emailVerified: false,
+                    accounts: {
+                        create: {
+                            providerId: "credential",
+                            accountId: plan.email,
+                            password: await hashPasswordArgon2(temporaryPassword),
+                        },
+                    },
+                },
+                select: { id: true },
+            });
+            const createdId = user.id;
+            userId = createdId;
+            undo.push({
+                key: "account",
+                run: async () => {
+                    await prisma.user.delete({ where: { id: createdId } });
+                },
+            });
+            steps.push({ key: "account", status: "done", message: `Created an account for ${plan.email}` });
+            steps.push(
+                { key: "role", status: "done", message: `Gave the ${plan.role} role` },
+                plan.changeMinecraftName
+                    ? { key: "minecraft", status: "done", message: `Linked ${plan.mcUsername}` }
+                    : { key: "minecraft", status: "skipped", message: "No Minecraft name to link" }
+            );
+        } else {
+            const previous = plan.existingUser;
+            steps.push({ key: "account", status: "skipped", message: `Using the existing account for ${plan.email}` });
+
+            current = "role";
+            if (plan.changeRole || plan.changeMinecraftName) {
+                await prisma.user.update({
+                    where: { id: previous.id },
+                    data: {
+                        ...(plan.changeRole && { role: plan.role }),
+                        ...(plan.changeMinecraftName && { minecraftName: plan.mcUsername }),
+                    },
+                });
+                undo.push({
+                    key: plan.changeRole ? "role" : "minecraft",
+                    run: async () => {
+                        await prisma.user.update({
+                            where: { id: previous.id },
+                            data: {
+                                ...(plan.changeRole && { role: previous.role }),
+                                ...(plan.changeMinecraftName && { minecraftName: previous.minecraftName }),
+                            },
+                        });
+                    },
+                });
+            }
+            steps.push(
+                plan.changeRole
+                    ? { key: "role", status: "done", message: `Changed role from ${previous.role} to ${plan.role}` }
+                    : { key: "role", status: "skipped", message: `Kept the ${previous.role} role` },
+                plan.changeMinecraftName
+                    ? { key: "minecraft", status: "done", message: `Linked ${plan.mcUsername}` }
+                    : { key: "minecraft", status: "skipped", message: "Minecraft name unchanged" }
+            );
+        }
+
+        // 4. LuckPerms group
+        current = "luckperms";
+        if (plan.group) {
+            const group = plan.group;
+            // Only a group we added is ours to take away on rollback
+            const held = await getPlayerPermissions(plan.mcUsername);
+            if (!held.success) throw new Error(held.error || "Could not read LuckPerms groups");
+            if (held.groups?.includes(group)) {
+                steps.push({ key: "luckperms", status: "skipped", message: `${plan.mcUsername} already has the "${group}" group` });
+            } else {
+                const synced = await syncRoleToMinecraft(plan.mcUsername, plan.role, group);
+                if (!synced.success) throw new Error(synced.error || "LuckPerms sync failed");
+                undo.push({
+                    key: "luckperms",
+                    run: async () => {
+                        const removed = await removeGroupFromMinecraft(plan.mcUsername, group);
+                        if (!removed.success) throw new Error(removed.error || "LuckPerms removal failed");
+                    },
+                });
+                steps.push({ key: "luckperms", status: "done", message: `Added ${plan.mcUsername} to the "${group}" group` });
+            }
+        } else {
+            steps.push({ key: "luckperms", status: "skipped", message: "No LuckPerms group to add" });
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        console.error("[Provisioning] Step failed", applicationId, current, error);
+        return {
+            success: false,
+            error: message,
+            steps: [...steps, { key: current, status: "failed", message }, ...(await rollback())],
+        };
+    }
+
+    return { success: true, userId: userId!, created: !plan.existingUser, temporaryPassword, steps, rollback };
+}
@@ -0,0 +1,323 @@
+import type { AppStatus, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { STAFF_ROLES } from "./rbac";
+import { createNotification, NotificationTemplates, shouldNotifyUser } from "./notifications";
+import { notifyApplicantOfStatus } from "./application-emails";
+
+/**
+ * Application review panel
+ *
+ * Staff are assigned to an application's panel and each casts one vote
+ * (approve, reject or abstain) with 1-5 scores against the rubric in
+ * Settings → Applications. Approving needs the approval quorum: that many
+ * approve votes, and more approve than reject votes. Comments are internal,
+ * one level of replies deep. Every status change is kept with who made it.
+ */
+
+export const REVIEW_VOTES = ["approve", "reject", "abstain"] as const;
+
+export type ReviewVote = (typeof REVIEW_VOTES)[number];
+
+export type ReviewSettings = { approvalQuorum: number; reviewRubric: string[] };
+
+export type VoteTally = Record<ReviewVote, number>;
+
+export const DEFAULT_REVIEW_RUBRIC = ["Experience", "Communication", "Team fit"];
+
+const USER_SELECT = { id: true, name: true, email: true } as const;
+
+function displayName(user: { id: string; name: string | null; email: string | null } | null) {
+    return user ? { id: user.id, name: user.name ?? user.email ?? "Unknown user" } : null;
+}
+
+export async function getReviewSettings(): Promise<ReviewSettings> {
+    const row = await prisma.appSettings.findUnique({
+        where: { id: "global" },
+        select: { applications: true },
+    });
+    const settings = (row?.applications ?? {}) as Partial<ReviewSettings>;
+    return {
+        approvalQuorum: settings.approvalQuorum ?? 0,
+        reviewRubric: settings.reviewRubric ?? DEFAULT_REVIEW_RUBRIC,
+    };
+}
+
+export function tallyVotes(votes: { vote: string }[]): VoteTally {
+    const tally: VoteTally = { approve: 0, reject: 0, abstain: 0 };
+    for (const { vote } of votes) {
+        if (vote === "approve" || vote === "reject" || vote === "abstain") tally[vote]++;
+    }
+    return tally;
+}
+
+export function isQuorumMet(tally: VoteTally, quorum: number): boolean {
+    return quorum === 0 || (tally.approve >= quorum && tally.approve > tally.reject);
+}
+
+/**
+ * Whether an application has the votes to be approved
+ */
+export async function checkApprovalQuorum(applicationId: string) {
+    const [settings, votes] = await Promise.all([
+        getReviewSettings(),
+        prisma.applicationVote.findMany({ where: { applicationId }, select: { vote: true } }),
+    ]);
+    const tally = tallyVotes(votes);
+    return { required: settings.approvalQuorum, tally, met: isQuorumMet(tally, settings.approvalQuorum) };
+}
+
+/**
+ * Create data for a status change row; nest it in the application write
+ */
+export function statusChangeData(
+    fromStatus: AppStatus | null,
+    toStatus: AppStatus,
+    changedById: string | null,
+    options: { reason?: string | null; quorumOverridden?: boolean } = {}
+): Prisma.ApplicationStatusChangeCreateWithoutApplicationInput {
+    return {
+        fromStatus,
+        toStatus,
+        ...(changedById && { changedBy: { connect: { id: changedById } } }),
+        reason: options.reason ?? null,
+        quorumOverridden: options.quorumOverridden ?? false,
+    };
+}
+
+/**
+ * Move a New application to InReview once someone starts reviewing it, and
+ * let the applicant know
+ */
+async function startReview(applicationId: string, userId: string, reason: string) {
+    const moved = await prisma.application.updateMany({
+        where: { id: applicationId, status: "New" },
+        data: { status: "InReview", updatedById: userId },
+    });
+    if (moved.count === 0) return;
+    await prisma.applicationStatusChange.create({
+        data: { applicationId, fromStatus: "New", toStatus: "InReview", changedById: userId, reason },
+    });
+    notifyApplicantOfStatus(applicationId, "InReview");
+}
+
+/**
+ * Staff who can sit on a review panel
+ */
+export async function listReviewCandidates() {
+    return prisma.user.findMany({
+        where: { role: { in: [...STAFF_ROLES] }, suspendedAt: null },
+        orderBy: { name: "asc" },
+        select: { id: true, name: true, email: true, role: true },
+    });
+}
+
+export type AssignReviewerResult =
+    | { ok: true }
+    | { ok: false; reason: "application_not_found" | "not_staff" | "duplicate" };
+
+/**
+ * Add a staff member to an application's panel and notify them
+ */
+export async function assignReviewer(
+    applicationId: string,
+    userId: string,
+    assignedById: string
+): Promise<AssignReviewerResult> {
+    const [application, user] = await Promise.all([
+        prisma.application.findUnique({ where: { id: applicationId }, select: { name: true, role: true } }),
+        prisma.user.findUnique({ where: { id: userId }, select: { role: true, suspendedAt: true } }),
+    ]);
+    if (!application) return { ok: false, reason: "application_not_found" };
+    if (!user || user.suspendedAt || !STAFF_ROLES.has(user.role)) return { ok: false, reason: "not_staff" };
+
+    try {
+        await prisma.applicationReviewer.create({ data: { applicationId, userId, assignedById } });
+    } catch (error) {
+        if ((error as { code?: string }).code === "P2002") return { ok: false, reason: "duplicate" };
+        throw error;
+    }
+
+    await startReview(applicationId, assignedById, "Reviewer assigned");
+
+    if (userId !== assignedById) {
+        try {
+            if (await shouldNotifyUser(userId, "system")) {
+                await createNotification({
+                    userId,
+                    ...NotificationTemplates.applicationReviewAssigned(application.name, application.role),
+                    actionUrl: `/admin/applications/${applicationId}`,
+                    actionText: "Review Application",
+                    metadata: { applicationId },
+                });
+            }
+        } catch (error) {
+            console.error("[Application Review] Failed to notify reviewer", userId, error);
+        }
+    }
+
+    return { ok: true };
+}
+
+/**
+ * Take a reviewer off a panel. Their vote stays, as it was cast.
+ * @returns Whether they were on the panel
+ */
+export async function removeReviewer(applicationId: string, userId: string): Promise<boolean> {
+    const removed = await prisma.applicationReviewer.deleteMany({ where: { applicationId, userId } });
+    return removed.count > 0;
+}
+
+/**
+ * Cast or change a reviewer's vote. Voting puts the reviewer on the panel.
+ * Scores for criteria no longer in the rubric are dropped.
+ */
+export async function castVote(
+    applicationId: string,
+    reviewerId: string,
+    input: { vote: ReviewVote; scores?: Record<string, number>; note?: string | null }
+) {
+    const { reviewRubric } = await getReviewSettings();
+    const scores = Object.fromEntries(
+        Object.entries(input.scores ?? {}).filter(([criterion]) => reviewRubric.includes(criterion))
+    );
+    const data = { vote: input.vote, scores, note: input.note ?? null };
+
+    const vote = await prisma.applicationVote.upsert({
+        where: { applicationId_reviewerId: { applicationId, reviewerId } },
+        create: { applicationId, reviewerId, ...data },
+        update: data,
+        select: { vote: true, scores: true, note: true, updatedAt: true },
+    });
+
+    await prisma.applicationReviewer.upsert({
+        where: { applicationId_userId: { applicationId, userId: reviewerId } },
+        create: { applicationId, userId: reviewerId, assignedById: reviewerId },
+        update: {},
+    });
+    await startReview(applicationId, reviewerId, "First vote cast");
+
+    return vote;
+}
+
+/**
+ * Add an internal comment. A reply to a reply goes under the same top-level
+ * comment.
+ * @returns The comment, or null when the parent is not on this application
+ */
+export async function addComment(applicationId: string, authorId: string, body: string, parentId?: string | null) {
+    let threadId: string | null = null;
+    if (parentId) {
+        const parent = await prisma.applicationComment.findFirst({
+            where: { id: parentId, applicationId },
+            select: { id: true, parentId: true },
+        });
+        if (!parent) return null;
+        threadId = parent.parentId ?? parent.id;
+    }
+
+    return prisma.applicationComment.create({
+        data: { applicationId, authorId, body, parentId: threadId },
+        select: { id: true, parentId: true, body: true, createdAt: true, author: { select: USER_SELECT } },
+    });
+}
+
+/**
+ * Delete a comment (with its replies). Only its author can.
+ */
+export async function deleteComment(
+    applicationId: string,
+    commentId: string,
+    userId: string
+): Promise<"deleted" | "not_found" | "forbidden"> {
+    const comment = await prisma.applicationComment.findFirst({
+        where: { id: commentId, applicationId },
+        select: { authorId: true },
+    });
+    if (!comment) return "not_found";
+    if (comment.authorId !== userId) return "forbidden";
+    await prisma.applicationComment.delete({ where: { id: commentId } });
+    return "deleted";
+}
+
+/**
+ * Everything the review panel shows: panel, votes with rubric averages,
+ * comment threads (oldest first) and status history (newest first)
+ */
+export async function getApplicationReview(applicationId: string) {
+    const [settings, reviewers, votes, comments, history] = await Promise.all([
+        getReviewSettings(),
+        prisma.applicationReviewer.findMany({
+            where: { applicationId },
+            orderBy: { createdAt: "asc" },
+            select: { createdAt: true, user: { select: USER_SELECT }, assignedBy: { select: USER_SELECT } },
+        }),
+        prisma.applicationVote.findMany({
+            where: { applicationId },
+            orderBy: { createdAt: "asc" },
+            select: { vote: true, scores: true, note: true, updatedAt: true, reviewer: { select: USER_SELECT } },
+        }),
+        prisma.applicationComment.findMany({
+            where: { applicationId },
+            orderBy: { createdAt: "asc" },
+            take: 500,
+            select: { id: true, parentId: true, body: true, createdAt: true, author: { select: USER_SELECT } },
+        }),
+        prisma.applicationStatusChange.findMany({
+            where: { applicationId },
+            orderBy: { createdAt: "desc" },
+            select: {
+                id: true,
+                fromStatus: true,
+                toStatus: true,
+                reason: true,
+                quorumOverridden: true,
+                createdAt: true,
+                changedBy: { select: USER_SELECT },
+            },
+        }),
+    ]);
+
+    const tally = tallyVotes(votes);
+
+    const averages: Record<string, number | null> = {};
+    for (const criterion of settings.reviewRubric) {
+        const values = votes
+            .map((v) => (v.scores as Record<string, number> | null)?.[criterion])
+            .filter((value): value is number => typeof value === "number");
+        averages[criterion] = values.length > 0
+            ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10
+            : null;
+    }
+
+    const threads = comments
+        .filter((c) => !c.parentId)
+        .map((c) => ({
+            id: c.id,
+            body: c.body,
+            createdAt: c.createdAt,
+            author: displayName(c.author),
+            replies: comments
+                .filter((r) => r.parentId === c.id)
+                .map((r) => ({ id: r.id, body: r.body, createdAt: r.createdAt, author: displayName(r.author) })),
+        }));
+
+    return {
+        quorum: { required: settings.approvalQuorum, tally, met: isQuorumMet(tally, settings.approvalQuorum) },
+        rubric: settings.reviewRubric,
+        averages,
+        reviewers: reviewers.map((r) => ({
+            user: displayName(r.user)!,
+            assignedAt: r.createdAt,
+            assignedBy: displayName(r.assignedBy),
+        })),
+        votes: votes.map((v) => ({
+            reviewer: displayName(v.reviewer)!,
+            vote: v.vote as ReviewVote,
+            scores: (v.scores ?? {}) as Record<string, number>,
+            note: v.note,
+            updatedAt: v.updatedAt,
+        })),
+        comments: threads,
+        history: history.map((h) => ({ ...h, changedBy: displayName(h.changedBy) })),
+    };
+}
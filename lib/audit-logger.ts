@@ -1,13 +1,21 @@
 /**
  * Audit Logging Utilities
  * 
- * Comprehensive logging for security-sensitive operations
+ * Comprehensive logging for security-sensitive operations.
+ * Every entry is persisted to the audit_log table (see /admin/audit).
  */
 
+import "server-only";
+import { headers } from "next/headers";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
 export type AuditAction =
   | "user.created"
   | "user.updated"
   | "user.deleted"
+  | "user.suspended"
+  | "user.reactivated"
   | "role.assigned"
   | "role.created"
   | "role.updated"
@@ -23,7 +31,22 @@ export type AuditAction =
   | "password.changed"
   | "2fa.enabled"
   | "2fa.disabled"
-  | "bulk.operation";
+  | "bulk.operation"
+  | "event.created"
+  | "event.updated"
+  | "event.published"
+  | "event.archived"
+  | "event.revision_restored"
+  | "application_form.updated"
+  | "application.reviewer_assigned"
+  | "application.reviewer_removed"
+  | "application.vote_cast"
+  | "application.status_changed"
+  | "application.provisioned"
+  | "application.provisioning_failed"
+  | "data.exported"
+  | "session_policy.updated"
+  | "session_policy.deleted";
 
 export interface AuditLogEntry {
   timestamp: string;
@@ -38,16 +61,93 @@ export interface AuditLogEntry {
     type?: string;
     name?: string;
   };
-  details?: Record<string, unknown>;
-  ipAddress?: string;
-  userAgent?: string;
+  changes?: {
+    before?: Record<string, unknown>;
+    after?: Record<string, unknown>;
+  };
+  details?: Record<string, unknown> | undefined;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+  sessionId?: string | undefined;
   success: boolean;
   error?: string;
 }
 
+const SESSION_COOKIE_NAMES = ["__Secure-better-auth.session_token", "better-auth.session_token"];
+
+/**
+ * Resolve IP, user agent and session id from the current request.
+ * Returns an empty context outside a request scope (workers, scripts).
+ */
+async function resolveRequestContext(): Promise<{ ipAddress?: string; userAgent?: string; sessionId?: string }> {
+  try {
+    const headersList = await headers();
+    const forwardedFor = headersList.get("x-forwarded-for")?.split(",")[0]?.trim();
+    const ipAddress = headersList.get("cf-connecting-ip") || headersList.get("x-real-ip") || forwardedFor || undefined;
+    const userAgent = headersList.get("user-agent") || undefined;
+
+    // Better-Auth cookie value is "<token>.<signature>"
+    const cookies = headersList.get("cookie") ?? "";
+    const cookie = cookies
+      .split(";")
+      .map((part) => part.trim())
+      .find((part) => SESSION_COOKIE_NAMES.some((name) => part.startsWith(`${name}=`)));
+    const token = cookie ? decodeURIComponent(cookie.slice(cookie.indexOf("=") + 1)).split(".")[0] : undefined;
+
+    const session = token
+      ? await prisma.session.findUnique({ where: { token }, select: { id: true } })
+      : null;
+
+    return {
+      ...(ipAddress && { ipAddress }),
+      ...(userAgent && { userAgent }),
+      ...(session && { sessionId: session.id }),
+    };
+  } catch {
+    return {};
+  }
+}
+
+function toJson(value: Record<string, unknown> | undefined): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  return value ? (sanitizeForAudit(value) as Prisma.InputJsonValue) : Prisma.DbNull;
+}
+
+/**
+ * Persist an audit entry to the database.
+ * Never throws - audit failures are reported but must not break the request.
+ */
+async function persistAuditEntry(entry: Omit<AuditLogEntry, "action"> & { action: string }): Promise<void> {
+  try {
+    const context = await resolveRequestContext();
+
+    await prisma.auditLog.create({
+      data: {
+        action: entry.action,
+        actorId: entry.actor.id || null,
+        actorEmail: entry.actor.email || null,
+        actorRole: entry.actor.role || null,
+        targetId: entry.target?.id ?? null,
+        targetType: entry.target?.type ?? null,
+        targetName: entry.target?.name ?? null,
+        before: toJson(entry.changes?.before),
+        after: toJson(entry.changes?.after),
+        details: toJson(entry.details),
+        ipAddress: entry.ipAddress || context.ipAddress || null,
+        userAgent: entry.userAgent || context.userAgent || null,
+        sessionId: entry.sessionId || context.sessionId || null,
+        success: entry.success,
+        error: entry.error ?? null,
+        createdAt: new Date(entry.timestamp),
+      },
+    });
+  } catch (error) {
+    console.error("[AUDIT] Failed to persist audit entry:", entry.action, error);
+  }
+}
+
 /**
  * Log an audit event
- * In production, this should write to a dedicated audit log table or service
+ * Writes to the audit_log table in the background (fire-and-forget)
  * 
  * @param entry - Audit log entry
  */
@@ -57,17 +157,124 @@ export function logAudit(entry: AuditLogEntry): void {
     timestamp: new Date().toISOString(),
   };
 
-  // For now, log to console
-  // In production, write to dedicated audit log table or service
   console.log(
     `[AUDIT] ${logEntry.action} by ${logEntry.actor.email || logEntry.actor.id} - ${
       logEntry.success ? "SUCCESS" : "FAILED"
-    }`,
-    JSON.stringify(logEntry, null, 2)
+    }`
   );
 
-  // TODO: Write to database audit_logs table
-  // await prisma.auditLog.create({ data: logEntry });
+  void persistAuditEntry(logEntry);
+}
+
+/**
+ * Resource-oriented audit log used by API routes
+ * Awaits persistence so callers can sequence follow-up work after the entry is stored.
+ */
+export interface ResourceAuditParams {
+  userId: string;
+  action: string; // AuditAction or route-specific action (e.g. "bulk_suspend")
+  resourceType: string;
+  resourceId: string;
+  details?: Record<string, unknown>;
+  changes?: AuditLogEntry["changes"];
+  ipAddress?: string;
+  userAgent?: string;
+  success?: boolean;
+}
+
+export async function auditLog(params: ResourceAuditParams): Promise<void> {
+  const timestamp = new Date().toISOString();
+
+  console.log(`[AUDIT] ${params.action} on ${params.resourceType}:${params.resourceId} by ${params.userId}`);
+
+  await persistAuditEntry({
+    timestamp,
+    action: params.action,
+    actor: { id: params.userId },
+    target: { id: params.resourceId, type: params.resourceType },
+    ...(params.changes && { changes: params.changes }),
+    details: params.details,
+    ipAddress: params.ipAddress || undefined,
+    userAgent: params.userAgent || undefined,
+    success: params.success ?? true,
+  });
+}
+
+/**
+ * Audit log query filters (used by /api/admin/audit)
+ */
+export interface AuditLogQuery {
+  actorId?: string | undefined;
+  action?: string | undefined;
+  targetId?: string | undefined;
+  targetType?: string | undefined;
+  search?: string | undefined;
+  success?: boolean | undefined;
+  from?: Date | undefined;
+  to?: Date | undefined;
+  limit: number;
+  cursor?: string | undefined;
+}
+
+/**
+ * Query persisted audit entries, newest first, with cursor pagination
+ */
+export async function getAuditLogs(query: AuditLogQuery) {
+  const where: Prisma.AuditLogWhereInput = {
+    ...(query.actorId && { actorId: query.actorId }),
+    ...(query.action && { action: { startsWith: query.action } }),
+    ...(query.targetId && { targetId: query.targetId }),
+    ...(query.targetType && { targetType: query.targetType }),
+    ...(query.success !== undefined && { success: query.success }),
+    ...((query.from || query.to) && {
+      createdAt: {
+        ...(query.from && { gte: query.from }),
+        ...(query.to && { lte: query.to }),
+      },
+    }),
+    ...(query.search && {
+      OR: [
+        { actorEmail: { contains: query.search } },
+        { targetName: { contains: query.search } },
+        { targetId: { contains: query.search } },
+        { ipAddress: { contains: query.search } },
+      ],
+    }),
+  };
+
+  const rows = await prisma.auditLog.findMany({
+    where,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: query.limit + 1,
+    ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+  });
+
+  const hasMore = rows.length > query.limit;
+  const entries = hasMore ? rows.slice(0, query.limit) : rows;
+
+  return {
+    entries,
+    nextCursor: hasMore ? entries[entries.length - 1]?.id ?? null : null,
+  };
+}
+
+/**
+ * Build a before/after diff containing only the fields that changed
+ */
+export function diffForAudit(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): { before: Record<string, unknown>; after: Record<string, unknown> } {
+  const diff = { before: {} as Record<string, unknown>, after: {} as Record<string, unknown> };
+
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      diff.before[key] = before[key] ?? null;
+      diff.after[key] = after[key] ?? null;
+    }
+  }
+
+  return diff;
 }
 
 /**
@@ -126,8 +333,8 @@ export function logUserUpdated(
       type: "user",
       name: targetEmail,
     },
-    details: {
-      changes,
+    changes: {
+      after: changes,
     },
     ipAddress,
     success: true,
@@ -189,9 +396,9 @@ export function logRoleAssigned(
       type: "user",
       name: targetEmail,
     },
-    details: {
-      oldRole,
-      newRole,
+    changes: {
+      before: { role: oldRole },
+      after: { role: newRole },
     },
     ipAddress,
     success: true,
@@ -258,6 +465,69 @@ export function logBulkOperation(
   });
 }
 
+/**
+ * Log data export
+ */
+export function logDataExported(
+  exportType: string,
+  actorId: string,
+  actorEmail: string,
+  details: {
+    format: string;
+    days?: number;
+    recordCount: number;
+    filename: string;
+  },
+  ipAddress?: string
+): void {
+  logAudit({
+    timestamp: new Date().toISOString(),
+    action: "data.exported",
+    actor: {
+      id: actorId,
+      ...(actorEmail && { email: actorEmail }),
+    },
+    target: {
+      type: "export",
+      name: exportType,
+    },
+    details,
+    ipAddress,
+    success: true,
+  });
+}
+
+/**
+ * Log event update
+ */
+export function logEventUpdated(
+  eventId: string,
+  actorId: string,
+  actorEmail: string,
+  changedFields: string[],
+  changes?: AuditLogEntry["changes"],
+  ipAddress?: string
+): void {
+  logAudit({
+    timestamp: new Date().toISOString(),
+    action: "event.updated",
+    actor: {
+      id: actorId,
+      ...(actorEmail && { email: actorEmail }),
+    },
+    target: {
+      id: eventId,
+      type: "event",
+    },
+    ...(changes && { changes }),
+    details: {
+      changedFields,
+    },
+    ipAddress,
+    success: true,
+  });
+}
+
 /**
  * Create audit log for failed operations
  */
@@ -285,7 +555,7 @@ export function logOperationFailed(
 
 /**
  * Sanitize sensitive data before logging
- * Removes passwords, tokens, keys, etc.
+ * Removes passwords, tokens, keys, etc. (including nested objects)
  */
 export function sanitizeForAudit(data: Record<string, unknown>): Record<string, unknown> {
   const sanitized = { ...data };
@@ -298,14 +568,17 @@ export function sanitizeForAudit(data: Record<string, unknown>): Record<string,
     "accessToken",
     "refreshToken",
     "hash",
+    "twoFactorSecret",
+    "backupCodes",
   ];
 
-  for (const field of sensitiveFields) {
-    if (field in sanitized) {
+  for (const [field, value] of Object.entries(sanitized)) {
+    if (sensitiveFields.includes(field)) {
       sanitized[field] = "[REDACTED]";
+    } else if (value && typeof value === "object" && !Array.isArray(value) && !(value instanceof Date)) {
+      sanitized[field] = sanitizeForAudit(value as Record<string, unknown>);
     }
   }
 
   return sanitized;
 }
-
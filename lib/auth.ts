@@ -1,10 +1,13 @@
 import "server-only";
 import { betterAuth } from "better-auth";
+import { APIError } from "better-auth/api";
 import { prismaAdapter } from "better-auth/adapters/prisma";
 import { prisma } from "@/lib/prisma";
 import { organization } from "better-auth/plugins";
 import { env } from "@/lib/env";
 import { hashPasswordArgon2, verifyPassword } from "@/lib/password-migration";
+import { enforceLoginPolicy } from "@/lib/session-policies";
+import { getActiveSuspension, formatSuspensionMessage } from "@/lib/user-suspension";
 
 // Build a safe baseURL. In production, require a valid HTTPS origin.
 const baseURL: string | undefined = (() => {
@@ -82,6 +85,35 @@ export const auth = betterAuth({
       }
     : {},
 
+  // Enforce per-user/per-role session policies before a login session is issued
+  databaseHooks: {
+    session: {
+      create: {
+        before: async (session) => {
+          // Expired suspensions are lifted here, so timed suspensions end on their own
+          const suspension = await getActiveSuspension(session.userId);
+          if (suspension) {
+            throw new APIError("FORBIDDEN", {
+              message: formatSuspensionMessage(suspension),
+              code: "ACCOUNT_SUSPENDED",
+            });
+          }
+
+          const validation = await enforceLoginPolicy(session.userId, {
+            ip: session.ipAddress || "unknown",
+            userAgent: session.userAgent || null,
+          });
+          if (!validation.allowed) {
+            throw new APIError("FORBIDDEN", {
+              message: `Sign-in blocked by session policy: ${validation.reasons.join(", ")}`,
+              code: "SESSION_POLICY_VIOLATION",
+            });
+          }
+        },
+      },
+    },
+  },
+
   // Enhanced security features
   advanced: {
     generateId: () => crypto.randomUUID(),
@@ -1,65 +1,460 @@
 import "server-only";
 
+import { randomUUID } from "node:crypto";
+import type Redis from "ioredis";
+import { createRedisConnection, isRedisConfigured } from "./redis";
+
 /**
- * Simple in-memory cache with TTL support.
- * For production, replace with Redis or similar persistent cache.
+ * Application Cache
+ *
+ * Key/value cache with TTLs, tag-based invalidation and stampede protection.
+ *
+ * - RedisCacheBackend: shared by every instance, used when REDIS_URL is set
+ * - MemoryCacheBackend: single process only, for single-node deployments and development
+ *
+ * Set CACHE_BACKEND=memory to keep the cache in-process even when Redis is configured.
+ * Values are JSON-serialized on both backends, so cached Dates come back as ISO strings.
  */
-class MemoryCache {
-  private cache = new Map<string, { value: any; expires: number }>();
-  private cleanupInterval: NodeJS.Timeout;
+
+export type CacheBackendName = "redis" | "memory";
+
+export interface CacheSetOptions {
+  /** Tags this entry belongs to; `invalidateTags` removes every entry carrying one of them */
+  tags?: string[];
+}
+
+export interface CacheGetOrSetOptions extends CacheSetOptions {
+  /** Time to live in seconds (default 300) */
+  ttl?: number;
+}
+
+export interface CacheStats {
+  backend: CacheBackendName;
+  hits: number;
+  misses: number;
+  /** hits + misses */
+  total: number;
+  /** Percentage of reads served from cache (0-100) */
+  hitRate: number;
+  sets: number;
+  deletes: number;
+  invalidations: number;
+  /** Reads that waited for a load already in flight instead of hitting the database */
+  coalesced: number;
+  errors: number;
+  /** Live entries (memory backend only) */
+  keys: number | null;
+  since: string;
+}
+
+export interface CacheBackend {
+  readonly name: CacheBackendName;
+  /* eslint-disable-next-line no-unused-vars */
+  get(key: string): Promise<string | null>;
+  /* eslint-disable-next-line no-unused-vars */
+  set(key: string, value: string, ttlSeconds: number, tags: string[]): Promise<void>;
+  /* eslint-disable-next-line no-unused-vars */
+  delete(keys: string[]): Promise<void>;
+  /** Removes every entry carrying one of the tags; returns the number of entries removed */
+  /* eslint-disable-next-line no-unused-vars */
+  invalidateTags(tags: string[]): Promise<number>;
+  /** Returns a release function, or null when another process holds the lock */
+  /* eslint-disable-next-line no-unused-vars */
+  acquireLock(key: string, ttlMs: number): Promise<(() => Promise<void>) | null>;
+  clear(): Promise<void>;
+  size(): number | null;
+  close(): Promise<void>;
+}
+
+const DEFAULT_TTL = 300;
+
+// Stampede protection: how long a loader may hold the lock, and how long others wait for it
+const LOCK_TTL_MS = 10_000;
+const LOCK_WAIT_MS = 5_000;
+const LOCK_POLL_MS = 50;
+
+// ============================================================================
+// In-memory backend
+// ============================================================================
+
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = "memory" as const;
+  private entries = new Map<string, { value: string; expires: number; tags: string[] }>();
+  private tagIndex = new Map<string, Set<string>>();
+  private cleanupInterval: ReturnType<typeof setInterval>;
 
   constructor() {
     // Clean up expired entries every 5 minutes
     this.cleanupInterval = setInterval(() => {
       const now = Date.now();
-      for (const [key, entry] of this.cache.entries()) {
+      for (const [key, entry] of this.entries.entries()) {
         if (now > entry.expires) {
-          this.cache.delete(key);
+          this.remove(key);
         }
       }
     }, 5 * 60 * 1000);
+    this.cleanupInterval.unref?.();
   }
 
-  async get<T>(key: string): Promise<T | null> {
-    const entry = this.cache.get(key);
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
     if (!entry) return null;
-    
+
     if (Date.now() > entry.expires) {
-      this.cache.delete(key);
+      this.remove(key);
       return null;
     }
-    
-    return entry.value as T;
+
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number, tags: string[]): Promise<void> {
+    this.remove(key);
+    this.entries.set(key, { value, expires: Date.now() + ttlSeconds * 1000, tags });
+
+    for (const tag of tags) {
+      let keys = this.tagIndex.get(tag);
+      if (!keys) {
+        keys = new Set();
+        this.tagIndex.set(tag, keys);
+      }
+      keys.add(key);
+    }
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.remove(key));
   }
 
-  async set(key: string, value: any, ttlSeconds = 300): Promise<void> {
-    const expires = Date.now() + (ttlSeconds * 1000);
-    this.cache.set(key, { value, expires });
+  async invalidateTags(tags: string[]): Promise<number> {
+    let removed = 0;
+    for (const tag of tags) {
+      for (const key of Array.from(this.tagIndex.get(tag) ?? [])) {
+        if (this.remove(key)) removed++;
+      }
+      this.tagIndex.delete(tag);
+    }
+    return removed;
+  }
+
+  // In-flight loads are already coalesced per process, which is all one process needs
+  async acquireLock(): Promise<() => Promise<void>> {
+    return async () => {};
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.tagIndex.clear();
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.cleanupInterval);
+  }
+
+  private remove(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+
+    this.entries.delete(key);
+    for (const tag of entry.tags) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) this.tagIndex.delete(tag);
+    }
+    return true;
+  }
+}
+
+// ============================================================================
+// Redis backend
+// ============================================================================
+
+const KEY_PREFIX = "imaginears:cache:";
+const TAG_PREFIX = "imaginears:cache-tag:";
+const LOCK_PREFIX = "imaginears:cache-lock:";
+
+// Tag sets outlive their entries so a long-TTL entry never loses its index;
+// members whose entry has already expired are harmless on invalidation
+const TAG_INDEX_TTL = 24 * 60 * 60;
+
+// Delete the lock only if it still holds our token
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+export class RedisCacheBackend implements CacheBackend {
+  readonly name = "redis" as const;
+  private client: Redis;
+
+  constructor() {
+    this.client = createRedisConnection("cache");
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(KEY_PREFIX + key);
+  }
+
+  async set(key: string, value: string, ttlSeconds: number, tags: string[]): Promise<void> {
+    const pipeline = this.client.multi().set(KEY_PREFIX + key, value, "EX", ttlSeconds);
+    for (const tag of tags) {
+      pipeline
+        .sadd(TAG_PREFIX + tag, key)
+        .expire(TAG_PREFIX + tag, Math.max(ttlSeconds, TAG_INDEX_TTL));
+    }
+    await pipeline.exec();
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await this.client.del(...keys.map((key) => KEY_PREFIX + key));
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    let removed = 0;
+    for (const tag of tags) {
+      const keys = await this.client.smembers(TAG_PREFIX + tag);
+      if (keys.length > 0) {
+        removed += await this.client.del(...keys.map((key) => KEY_PREFIX + key));
+      }
+      await this.client.del(TAG_PREFIX + tag);
+    }
+    return removed;
+  }
+
+  async acquireLock(key: string, ttlMs: number): Promise<(() => Promise<void>) | null> {
+    const token = randomUUID();
+    const acquired = await this.client.set(LOCK_PREFIX + key, token, "PX", ttlMs, "NX");
+    if (acquired !== "OK") return null;
+
+    return async () => {
+      await this.client.eval(RELEASE_LOCK_SCRIPT, 1, LOCK_PREFIX + key, token);
+    };
+  }
+
+  async clear(): Promise<void> {
+    for (const pattern of [`${KEY_PREFIX}*`, `${TAG_PREFIX}*`]) {
+      let cursor = "0";
+      do {
+        const [next, keys] = await this.client.scan(cursor, "MATCH", pattern, "COUNT", 500);
+        cursor = next;
+        if (keys.length > 0) await this.client.del(...keys);
+      } while (cursor !== "0");
+    }
+  }
+
+  size(): null {
+    return null;
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+  }
+}
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class Cache {
+  private backend: CacheBackend;
+  private inflight = new Map<string, Promise<unknown>>();
+  private counters = {
+    hits: 0,
+    misses: 0,
+    sets: 0,
+    deletes: 0,
+    invalidations: 0,
+    coalesced: 0,
+    errors: 0,
+  };
+  private since = new Date();
+
+  constructor(backend: CacheBackend) {
+    this.backend = backend;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = await this.lookup<T>(key);
+    return entry ? entry.value : null;
+  }
+
+  async set(key: string, value: unknown, ttlSeconds = DEFAULT_TTL, options: CacheSetOptions = {}): Promise<void> {
+    if (value === undefined) return;
+    try {
+      await this.backend.set(key, JSON.stringify(value), ttlSeconds, options.tags ?? []);
+      this.counters.sets++;
+    } catch (error) {
+      this.fail("set", key, error);
+    }
   }
 
   async delete(key: string): Promise<void> {
-    this.cache.delete(key);
+    try {
+      await this.backend.delete([key]);
+      this.counters.deletes++;
+    } catch (error) {
+      this.fail("delete", key, error);
+    }
+  }
+
+  /**
+   * Return the cached value, or run `loader` once and cache its result
+   *
+   * Concurrent misses for the same key share one load: within a process through
+   * the in-flight map, across processes through a short-lived Redis lock. A loader
+   * that throws caches nothing and the error reaches every waiting caller; one that
+   * returns null caches the null like any other value.
+   */
+  async getOrSet<T>(key: string, loader: () => Promise<T>, options: CacheGetOrSetOptions = {}): Promise<T> {
+    const cached = await this.lookup<T>(key);
+    if (cached) return cached.value;
+
+    const pending = this.inflight.get(key);
+    if (pending) {
+      this.counters.coalesced++;
+      return pending as Promise<T>;
+    }
+
+    const load = this.loadWithLock(key, loader, options).finally(() => {
+      this.inflight.delete(key);
+    });
+    this.inflight.set(key, load);
+    return load;
+  }
+
+  /**
+   * Remove every entry carrying any of the tags
+   */
+  async invalidateTags(...tags: string[]): Promise<number> {
+    try {
+      const removed = await this.backend.invalidateTags(tags);
+      this.counters.invalidations++;
+      this.counters.deletes += removed;
+      return removed;
+    } catch (error) {
+      this.fail("invalidate", tags.join(","), error);
+      return 0;
+    }
   }
 
   async clear(): Promise<void> {
-    this.cache.clear();
+    await this.backend.clear();
+  }
+
+  getStats(): CacheStats {
+    const total = this.counters.hits + this.counters.misses;
+    return {
+      backend: this.backend.name,
+      ...this.counters,
+      total,
+      hitRate: total > 0 ? Math.round((this.counters.hits / total) * 1000) / 10 : 0,
+      keys: this.backend.size(),
+      since: this.since.toISOString(),
+    };
+  }
+
+  resetStats(): void {
+    for (const counter of Object.keys(this.counters) as (keyof typeof this.counters)[]) {
+      this.counters[counter] = 0;
+    }
+    this.since = new Date();
   }
 
   destroy(): void {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
+    this.backend.close().catch(() => {});
+  }
+
+  // Wrapped so a cached null is a hit, not a miss
+  private async lookup<T>(key: string): Promise<{ value: T } | null> {
+    const raw = await this.read(key);
+    if (raw === null) {
+      this.counters.misses++;
+      return null;
+    }
+    this.counters.hits++;
+    return { value: JSON.parse(raw) as T };
+  }
+
+  // A cache outage degrades to a miss rather than failing the request
+  private async read(key: string): Promise<string | null> {
+    try {
+      return await this.backend.get(key);
+    } catch (error) {
+      this.fail("get", key, error);
+      return null;
     }
   }
+
+  private async loadWithLock<T>(key: string, loader: () => Promise<T>, options: CacheGetOrSetOptions): Promise<T> {
+    let release: (() => Promise<void>) | null = null;
+    try {
+      release = await this.backend.acquireLock(key, LOCK_TTL_MS);
+    } catch (error) {
+      this.fail("lock", key, error);
+    }
+
+    if (!release) {
+      // Another process is loading this key; wait for its result before loading ourselves
+      const deadline = Date.now() + LOCK_WAIT_MS;
+      while (Date.now() < deadline) {
+        await sleep(LOCK_POLL_MS);
+        const raw = await this.read(key);
+        if (raw !== null) {
+          this.counters.coalesced++;
+          return JSON.parse(raw) as T;
+        }
+      }
+    }
+
+    try {
+      const value = await loader();
+      await this.set(key, value, options.ttl ?? DEFAULT_TTL, options.tags ? { tags: options.tags } : {});
+      return value;
+    } finally {
+      if (release) {
+        await release().catch((error) => this.fail("unlock", key, error));
+      }
+    }
+  }
+
+  private fail(operation: string, key: string, error: unknown): void {
+    this.counters.errors++;
+    console.error(`[Cache] ${operation} failed for ${key}:`, error instanceof Error ? error.message : error);
+  }
 }
 
-// Singleton cache instance
-const cache = new MemoryCache();
+// ============================================================================
+// Singleton
+// ============================================================================
+
+function createBackend(): CacheBackend {
+  const preferred = process.env['CACHE_BACKEND'];
+  if (preferred !== "memory" && isRedisConfigured()) {
+    return new RedisCacheBackend();
+  }
+  return new MemoryCacheBackend();
+}
+
+const globalForCache = globalThis as unknown as { appCache?: Cache };
+
+// Shared across hot reloads so dev does not leak connections and intervals
+const cache = globalForCache.appCache ?? new Cache(createBackend());
+globalForCache.appCache = cache;
 
 // Cleanup on process exit
 if (typeof process !== "undefined" && process.on) {
   process.on("beforeExit", () => cache.destroy());
-  process.on("SIGINT", () => cache.destroy());
-  process.on("SIGTERM", () => cache.destroy());
 }
 
 export { cache };
@@ -68,18 +463,38 @@ export { cache };
  * Cache key generators for consistent naming
  */
 export const cacheKeys = {
-  events: (limit: number) => `events:${limit}`,
+  events: (query: { page: number; limit: number; status?: string | undefined; category?: string | undefined }) =>
+    `events:list:${query.page}:${query.limit}:${query.status || "all"}:${query.category || "all"}`,
+  publicEvents: (query: { limit: number; status?: string | undefined; category?: string | undefined; cursor?: string | undefined }) =>
+    `events:public:${query.limit}:${query.status || "Published"}:${query.category || "all"}:${query.cursor || "start"}`,
+  calendarFeed: (query: { category?: string | undefined; world?: string | undefined }) =>
+    `events:feed:${query.category || "all"}:${query.world?.toLowerCase() || "all"}`,
   settings: () => "settings:global",
+  minecraftSettings: () => "settings:minecraft",
+  serverStatusHistory: (address: string, range: string) => `server-status:history:${address}:${range}`,
+  networkStatus: () => "server-status:network",
+  serverIncidents: (scope: string) => `server-status:incidents:${scope}`,
   applications: (status?: string) => `applications:${status || "all"}`,
   user: (id: string) => `user:${id}`,
 } as const;
 
+/**
+ * Cache tags for group invalidation
+ */
+export const cacheTags = {
+  events: "events",
+  settings: "settings",
+  applications: "applications",
+} as const;
+
 /**
  * Cache TTL constants (in seconds)
  */
 export const cacheTTL = {
   events: 300, // 5 minutes
   settings: 600, // 10 minutes
+  serverStatusHistory: 60, // 1 minute, one poll interval
+  networkStatus: 30, // 30 seconds, live pings of every registry server
   applications: 180, // 3 minutes
   user: 900, // 15 minutes
 } as const;
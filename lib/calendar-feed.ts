@@ -0,0 +1,341 @@
+/**
+ * Calendar Feed - RFC 5545 subscription feed of published events
+ *
+ * Served by /api/events/feed (webcal://). Calendar apps expand the series
+ * themselves, so the recurrence model is exported as rules, not instances:
+ * - One VEVENT per showtime of a series (RRULE cannot mix several times of
+ *   day), with UID `<eventId>-<HHmm>@imaginears.club`
+ * - COUNT and the series end become UNTIL, EXDATEs map to each showtime
+ * - Occurrence overrides become RECURRENCE-ID instances (STATUS:CANCELLED
+ *   when cancelled)
+ * - A VTIMEZONE per timezone, built from the transitions the runtime knows
+ * - SEQUENCE is Event.sequence, bumped on every edit
+ *
+ * lib/calendar.ts keeps the single-occurrence "Add to calendar" download.
+ */
+
+import { formatInTimeZone } from 'date-fns-tz';
+import type { Event } from '@prisma/client';
+import { escapeICSText, foldICSLine, formatICSDate } from './calendar';
+import {
+    applyOccurrenceOverride,
+    expandEventOccurrences,
+    getRecurrenceRule,
+    type Occurrence,
+    type OccurrenceOverride,
+    type RecurringEvent,
+} from './recurrence';
+
+export type FeedEvent = RecurringEvent &
+    Pick<Event, 'status' | 'shortDescription' | 'sequence' | 'createdAt' | 'updatedAt'> & {
+        overrides?: OccurrenceOverride[];
+    };
+
+export type CalendarFeedOptions = {
+    name: string;
+    description?: string;
+    /** Site origin for event URLs, without a trailing slash */
+    baseUrl: string;
+    now?: Date;
+};
+
+const UID_DOMAIN = 'imaginears.club';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Expansion bound when looking up the first showtimes and the COUNT end
+const MAX_EXPANDED = 1000;
+
+// Years of timezone transitions emitted around the events of a feed
+const MAX_TIMEZONE_YEARS_BACK = 5;
+const MAX_TIMEZONE_YEARS_AHEAD = 3;
+
+/** Local date-time in `tz`, as used with TZID (YYYYMMDDTHHMMSS) */
+function formatLocalICSDate(date: Date, tz: string): string {
+    return formatInTimeZone(date, tz, "yyyyMMdd'T'HHmmss");
+}
+
+function formatOffset(offsetMs: number): string {
+    const sign = offsetMs < 0 ? '-' : '+';
+    const minutes = Math.abs(Math.round(offsetMs / 60000));
+    return `${sign}${String(Math.floor(minutes / 60)).padStart(2, '0')}${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/** Wall-clock time of a UTC instant at a fixed offset (YYYYMMDDTHHMMSS) */
+function formatAtOffset(instant: number, offsetMs: number): string {
+    return formatICSDate(new Date(instant + offsetMs)).slice(0, -1);
+}
+
+/** UTC offset of `tz` at an instant, read from the wall-clock time Intl reports */
+// eslint-disable-next-line no-unused-vars
+function offsetReader(tz: string): (ms: number) => number {
+    const format = new Intl.DateTimeFormat('en-US', {
+        timeZone: tz,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+    });
+
+    return (ms) => {
+        const parts: Record<string, number> = {};
+        for (const part of format.formatToParts(new Date(ms))) {
+            if (part.type !== 'literal') parts[part.type] = Number(part.value);
+        }
+        const wallClock = Date.UTC(parts['year']!, parts['month']! - 1, parts['day']!, parts['hour']!, parts['minute']!, parts['second']!);
+        return wallClock - Math.floor(ms / 1000) * 1000;
+    };
+}
+
+/**
+ * VTIMEZONE with one STANDARD/DAYLIGHT component per offset change
+ * between the start of `fromYear` and the end of `toYear`
+ */
+function buildVTimezone(tz: string, fromYear: number, toYear: number): string[] {
+    const offsetAt = offsetReader(tz);
+    const rangeStart = Date.UTC(fromYear, 0, 1);
+    const rangeEnd = Date.UTC(toYear + 1, 0, 1);
+    const initialOffset = offsetAt(rangeStart);
+
+    const lines = [
+        'BEGIN:VTIMEZONE',
+        `TZID:${tz}`,
+        `X-LIC-LOCATION:${tz}`,
+        'BEGIN:STANDARD',
+        `DTSTART:${formatAtOffset(rangeStart, initialOffset)}`,
+        `TZOFFSETFROM:${formatOffset(initialOffset)}`,
+        `TZOFFSETTO:${formatOffset(initialOffset)}`,
+        'END:STANDARD',
+    ];
+
+    let previous = initialOffset;
+    for (let day = rangeStart; day < rangeEnd; day += DAY_MS) {
+        const next = offsetAt(day + DAY_MS);
+        if (next === previous) continue;
+
+        // Narrow the change down to the minute
+        let lo = day;
+        let hi = day + DAY_MS;
+        while (hi - lo > 60000) {
+            const mid = lo + Math.floor((hi - lo) / 120000) * 60000;
+            if (offsetAt(mid) === previous) lo = mid;
+            else hi = mid;
+        }
+
+        const type = next > previous ? 'DAYLIGHT' : 'STANDARD';
+        lines.push(
+            `BEGIN:${type}`,
+            `DTSTART:${formatAtOffset(hi, previous)}`,
+            `TZOFFSETFROM:${formatOffset(previous)}`,
+            `TZOFFSETTO:${formatOffset(next)}`,
+            `END:${type}`
+        );
+        previous = next;
+    }
+
+    lines.push('END:VTIMEZONE');
+    return lines;
+}
+
+/** Last instant the series can generate: the earlier of recurrenceUntil and endAt */
+function seriesEnd(ev: FeedEvent): Date {
+    return ev.recurrenceUntil && ev.recurrenceUntil < ev.endAt ? ev.recurrenceUntil : ev.endAt;
+}
+
+function buildRRule(ev: FeedEvent, until: Date): string {
+    const rule = getRecurrenceRule(ev);
+    const parts = [`FREQ=${rule.freq}`];
+
+    if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+    parts.push(`UNTIL=${formatICSDate(until)}`);
+
+    if (rule.freq === 'WEEKLY' && rule.weekdays.length) {
+        parts.push(`BYDAY=${rule.weekdays.join(',')}`);
+    }
+    if (rule.freq === 'MONTHLY') {
+        if (rule.weekdayPos !== null && rule.weekdays.length) {
+            parts.push(`BYDAY=${rule.weekdays.map((day) => `${rule.weekdayPos}${day}`).join(',')}`);
+        } else if (rule.monthDays.length) {
+            parts.push(`BYMONTHDAY=${rule.monthDays.join(',')}`);
+        }
+    }
+
+    // Interval weeks are counted from Monday, as in lib/recurrence
+    parts.push('WKST=MO');
+    return `RRULE:${parts.join(';')}`;
+}
+
+/** Properties shared by every VEVENT of an event */
+function commonProps(ev: FeedEvent, uid: string, now: Date): string[] {
+    return [
+        `UID:${uid}`,
+        `DTSTAMP:${formatICSDate(now)}`,
+        `CREATED:${formatICSDate(ev.createdAt)}`,
+        `LAST-MODIFIED:${formatICSDate(ev.updatedAt)}`,
+        `SEQUENCE:${ev.sequence}`,
+        `CATEGORIES:${escapeICSText(ev.category)}`,
+    ];
+}
+
+function contentProps(
+    fields: { title: string; world: string; shortDescription?: string | null | undefined },
+    url: string,
+    cancelled: boolean
+): string[] {
+    const lines = [
+        `SUMMARY:${escapeICSText(fields.title)}`,
+        `LOCATION:${escapeICSText(`${fields.world} @ Imaginears Club`)}`,
+    ];
+    if (fields.shortDescription) {
+        lines.push(`DESCRIPTION:${escapeICSText(fields.shortDescription)}`);
+    }
+    lines.push(`URL:${url}`, `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`);
+    return lines;
+}
+
+/**
+ * Occurrence the series generates at `occurrenceStart`, ignoring overrides
+ * (null when a later rule change removed it)
+ */
+function findGeneratedOccurrence(ev: FeedEvent, occurrenceStart: Date): Occurrence | null {
+    const candidates = expandEventOccurrences({ ...ev, overrides: [] }, occurrenceStart, occurrenceStart, MAX_EXPANDED);
+    return candidates.find((o) => o.occurrenceStart.getTime() === occurrenceStart.getTime()) ?? null;
+}
+
+function recurringEventComponents(ev: FeedEvent, url: string, now: Date): string[][] {
+    const tz = ev.timezone;
+    const rule = getRecurrenceRule(ev);
+    const cancelled = ev.status === 'Archived';
+    const end = seriesEnd(ev);
+
+    // First instance of every showtime, and the COUNT end as UNTIL
+    const occurrences = expandEventOccurrences({ ...ev, overrides: [] }, ev.startAt, end, MAX_EXPANDED);
+    const until = rule.count !== null && occurrences.length > 0 ? occurrences[occurrences.length - 1]!.start : end;
+
+    const components: string[][] = [];
+
+    for (const time of rule.times) {
+        const first = occurrences.find((o) => formatInTimeZone(o.start, tz, 'HH:mm') === time);
+        if (!first) continue;
+
+        const uid = `${ev.id}-${time.replace(':', '')}@${UID_DOMAIN}`;
+        const localTime = `${time.replace(':', '')}00`;
+
+        const master = [
+            'BEGIN:VEVENT',
+            ...commonProps(ev, uid, now),
+            `DTSTART;TZID=${tz}:${formatLocalICSDate(first.start, tz)}`,
+            `DTEND;TZID=${tz}:${formatLocalICSDate(first.end, tz)}`,
+            buildRRule(ev, until),
+        ];
+
+        // Whole-day EXDATEs apply to every showtime, timed ones to theirs
+        const exDates = rule.exDates
+            .filter((value) => value.length === 10 || value.slice(11) === time)
+            .map((value) => `${value.slice(0, 10).replace(/-/g, '')}T${localTime}`);
+        if (exDates.length) {
+            master.push(`EXDATE;TZID=${tz}:${exDates.join(',')}`);
+        }
+
+        master.push(...contentProps(ev, url, cancelled), 'END:VEVENT');
+        components.push(master);
+
+        for (const override of ev.overrides ?? []) {
+            const occurrenceStart = new Date(override.occurrenceStart);
+            if (formatInTimeZone(occurrenceStart, tz, 'HH:mm') !== time) continue;
+
+            const generated = findGeneratedOccurrence(ev, occurrenceStart);
+            if (!generated) continue;
+
+            const instance = applyOccurrenceOverride(generated, override);
+            components.push([
+                'BEGIN:VEVENT',
+                ...commonProps(ev, uid, now),
+                `RECURRENCE-ID;TZID=${tz}:${formatLocalICSDate(occurrenceStart, tz)}`,
+                `DTSTART;TZID=${tz}:${formatLocalICSDate(instance.start, tz)}`,
+                `DTEND;TZID=${tz}:${formatLocalICSDate(instance.end, tz)}`,
+                ...contentProps(
+                    {
+                        title: instance.title,
+                        world: instance.world,
+                        shortDescription: instance.shortDescription ?? ev.shortDescription,
+                    },
+                    url,
+                    cancelled || instance.override === 'cancelled'
+                ),
+                'END:VEVENT',
+            ]);
+        }
+    }
+
+    return components;
+}
+
+function singleEventComponent(ev: FeedEvent, url: string, now: Date): string[] {
+    return [
+        'BEGIN:VEVENT',
+        ...commonProps(ev, `${ev.id}@${UID_DOMAIN}`, now),
+        `DTSTART:${formatICSDate(ev.startAt)}`,
+        `DTEND:${formatICSDate(ev.endAt)}`,
+        ...contentProps(ev, url, ev.status === 'Archived'),
+        'END:VEVENT',
+    ];
+}
+
+/**
+ * Build the VCALENDAR of a list of events
+ *
+ * Archived events are published as CANCELLED so subscribers remove them.
+ */
+export function buildCalendarFeed(events: FeedEvent[], options: CalendarFeedOptions): string {
+    const now = options.now ?? new Date();
+    const currentYear = now.getUTCFullYear();
+    const timezoneYears = new Map<string, { from: number; to: number }>();
+    const components: string[][] = [];
+
+    for (const ev of events) {
+        const url = `${options.baseUrl}/events/${encodeURIComponent(ev.id)}`;
+
+        if (ev.recurrenceFreq === 'NONE') {
+            components.push(singleEventComponent(ev, url, now));
+            continue;
+        }
+
+        const eventComponents = recurringEventComponents(ev, url, now);
+        if (eventComponents.length === 0) continue;
+        components.push(...eventComponents);
+
+        const years = timezoneYears.get(ev.timezone);
+        const from = Math.max(ev.startAt.getUTCFullYear(), currentYear - MAX_TIMEZONE_YEARS_BACK);
+        const to = Math.min(seriesEnd(ev).getUTCFullYear(), currentYear + MAX_TIMEZONE_YEARS_AHEAD);
+        timezoneYears.set(ev.timezone, {
+            from: Math.min(years?.from ?? from, from),
+            to: Math.max(years?.to ?? to, to, from),
+        });
+    }
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Imaginears Club//Event Calendar//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeICSText(options.name)}`,
+        ...(options.description ? [`X-WR-CALDESC:${escapeICSText(options.description)}`] : []),
+        // Ask clients to poll hourly (RFC 7986 and the de-facto Outlook property)
+        'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+        'X-PUBLISHED-TTL:PT1H',
+    ];
+
+    for (const [tz, years] of timezoneYears) {
+        lines.push(...buildVTimezone(tz, years.from, years.to));
+    }
+    for (const component of components) {
+        lines.push(...component);
+    }
+    lines.push('END:VCALENDAR');
+
+    return `${lines.map(foldICSLine).join('\r\n')}\r\n`;
+}
@@ -2,9 +2,11 @@
  * Calendar Utility - Generate .ics files for events
  * 
  * Allows guests to add events to their calendar apps (Google Calendar, Outlook, Apple Calendar, etc.)
+ * The subscribable feed of every published event is built in lib/calendar-feed.ts.
  */
 
 type CalendarEvent = {
+    id?: string | undefined;
     title: string;
     description?: string | undefined;
     location?: string | undefined;
@@ -17,7 +19,7 @@ type CalendarEvent = {
  * Security: Escape special characters for iCalendar format
  * Prevents injection attacks and ensures valid .ics file
  */
-function escapeICSText(text: string): string {
+export function escapeICSText(text: string): string {
     return text
         .replace(/\\/g, '\\\\')
         .replace(/;/g, '\\;')
@@ -30,7 +32,7 @@ function escapeICSText(text: string): string {
  * Format date for iCalendar (UTC)
  * Format: YYYYMMDDTHHMMSSZ
  */
-function formatICSDate(date: Date): string {
+export function formatICSDate(date: Date): string {
     const year = date.getUTCFullYear();
     const month = String(date.getUTCMonth() + 1).padStart(2, '0');
     const day = String(date.getUTCDate()).padStart(2, '0');
@@ -42,7 +44,35 @@ function formatICSDate(date: Date): string {
 }
 
 /**
- * Generate a unique ID for the event
+ * Fold a content line to 75 octets (RFC 5545 §3.1), continuation lines start with a space
+ */
+export function foldICSLine(line: string): string {
+    const encoder = new TextEncoder();
+    if (encoder.encode(line).length <= 75) return line;
+
+    const parts: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+
+    // Iterate by code point so multi-byte characters are never split
+    for (const char of line) {
+        const bytes = encoder.encode(char).length;
+        const max = parts.length === 0 ? 75 : 74; // continuation lines lose one octet to the space
+        if (currentBytes + bytes > max) {
+            parts.push(current);
+            current = '';
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += bytes;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+}
+
+/**
+ * Generate a unique ID for one occurrence of an event
  */
 function generateEventUID(eventId: string, startTime: Date): string {
     const timestamp = startTime.getTime();
@@ -57,7 +87,8 @@ function generateEventUID(eventId: string, startTime: Date): string {
  */
 export function generateICS(event: CalendarEvent): string {
     const now = new Date();
-    const uid = generateEventUID(event.title, event.startTime);
+    // Title-based ids for callers without an event id (sanitized to UID-safe characters)
+    const uid = generateEventUID(event.id ?? event.title.replace(/[^a-z0-9-]/gi, '-').toLowerCase(), event.startTime);
     
     const lines = [
         'BEGIN:VCALENDAR',
@@ -92,7 +123,7 @@ export function generateICS(event: CalendarEvent): string {
         'END:VCALENDAR'
     );
     
-    return lines.join('\r\n');
+    return lines.map(foldICSLine).join('\r\n');
 }
 
 /**
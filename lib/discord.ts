@@ -0,0 +1,65 @@
+import { prisma } from "./prisma";
+
+/**
+ * Discord webhook announcements
+ *
+ * Webhook URLs are configured in Settings → Notifications and stored in
+ * AppSettings.notifications. Only discord.com webhook URLs are called.
+ */
+
+export type DiscordNotificationSettings = {
+  discordWebhookUrl?: string;
+  discordApplicationsWebhookUrl?: string;
+  discordEventsWebhookUrl?: string;
+  notifyOnNewApplication?: boolean;
+  notifyOnNewEvent?: boolean;
+};
+
+export type DiscordEmbed = {
+  title: string;
+  description?: string;
+  url?: string;
+  color?: number;
+  fields?: { name: string; value: string; inline?: boolean }[];
+  timestamp?: string;
+};
+
+const WEBHOOK_URL_PATTERN = /^https:\/\/(?:canary\.|ptb\.)?discord(?:app)?\.com\/api\/webhooks\/\d+\/[\w-]+$/;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export async function getDiscordNotificationSettings(): Promise<DiscordNotificationSettings> {
+  const row = await prisma.appSettings.findUnique({
+    where: { id: "global" },
+    select: { notifications: true },
+  });
+  return (row?.notifications ?? {}) as DiscordNotificationSettings;
+}
+
+/**
+ * Post embeds to a Discord webhook
+ * @returns Whether Discord accepted the message (invalid URLs are skipped)
+ */
+export async function postDiscordWebhook(url: string, embeds: DiscordEmbed[]): Promise<boolean> {
+  if (!WEBHOOK_URL_PATTERN.test(url)) {
+    console.warn("[Discord] Ignoring webhook URL that is not a Discord webhook");
+    return false;
+  }
+
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ embeds, allowed_mentions: { parse: [] } }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      console.error("[Discord] Webhook rejected the message:", res.status);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error("[Discord] Webhook request failed:", error instanceof Error ? error.message : error);
+    return false;
+  }
+}
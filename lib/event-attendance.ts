@@ -0,0 +1,218 @@
+import { prisma } from "./prisma";
+import { CONFLICT_EVENT_SELECT } from "./event-conflicts";
+import { expandEventOccurrences, findOccurrence } from "./recurrence";
+
+/**
+ * Event RSVPs and attendance
+ *
+ * Signed-in users RSVP to single occurrences on the event page; players with
+ * a linked Minecraft account can do the same in-game through the plugin.
+ * The plugin also reports who is present in a world, which is recorded
+ * against the published occurrences running there at that time. Both feed
+ * EventAnalytics: expectedAttendance counts RSVPs and actualAttendance counts
+ * players seen, summed over every occurrence of the event.
+ */
+
+// How far ahead occurrences can be RSVP'd to, and how many are listed
+const RSVP_WINDOW_MS = 60 * 24 * 60 * 60 * 1000;
+const MAX_RSVP_OCCURRENCES = 12;
+
+// How far back an occurrence running at report time may have started
+const MAX_OCCURRENCE_LENGTH_MS = 24 * 60 * 60 * 1000;
+
+export const MAX_ATTENDANCE_PLAYERS = 500;
+
+const RSVP_EVENT_SELECT = { ...CONFLICT_EVENT_SELECT, status: true } as const;
+
+export type AttendanceReport = {
+  world: string;
+  /** When the players were seen (defaults to now) */
+  at?: Date;
+  players: { uuid: string; name: string }[];
+};
+
+export type RsvpResult = { ok: true } | { ok: false; reason: "not_found" | "no_occurrence" | "ended" };
+
+/**
+ * Keep EventAnalytics.expectedAttendance/actualAttendance equal to the RSVP
+ * and attendance rows of each event
+ */
+async function syncAttendanceCounts(eventIds: string[]): Promise<void> {
+  for (const eventId of new Set(eventIds)) {
+    const [expectedAttendance, actualAttendance, event] = await Promise.all([
+      prisma.eventRsvp.count({ where: { eventId } }),
+      prisma.eventAttendance.count({ where: { eventId } }),
+      prisma.event.findUnique({ where: { id: eventId }, select: { title: true, category: true, startAt: true } }),
+    ]);
+    if (!event) continue;
+
+    await prisma.eventAnalytics.upsert({
+      where: { eventId },
+      create: {
+        eventId,
+        eventTitle: event.title,
+        category: event.category,
+        startAt: event.startAt,
+        expectedAttendance,
+        actualAttendance,
+      },
+      update: { expectedAttendance, actualAttendance },
+    });
+  }
+}
+
+/**
+ * Upcoming occurrences of a published event with their RSVP count and
+ * whether `userId` (when given) is going
+ * @returns null when the event is not published
+ */
+export async function listOccurrenceRsvps(eventId: string, userId: string | null, now = new Date()) {
+  const event = await prisma.event.findUnique({ where: { id: eventId }, select: RSVP_EVENT_SELECT });
+  if (!event || event.status !== "Published") return null;
+
+  const occurrences = expandEventOccurrences(event, now, new Date(now.getTime() + RSVP_WINDOW_MS), MAX_RSVP_OCCURRENCES);
+  const starts = occurrences.map((o) => o.occurrenceStart);
+
+  const [counts, mine] = await Promise.all([
+    prisma.eventRsvp.groupBy({
+      by: ["occurrenceStart"],
+      where: { eventId, occurrenceStart: { in: starts } },
+      _count: { _all: true },
+    }),
+    userId
+      ? prisma.eventRsvp.findMany({
+          where: { eventId, userId, occurrenceStart: { in: starts } },
+          select: { occurrenceStart: true },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  const countByStart = new Map(counts.map((c) => [c.occurrenceStart.getTime(), c._count._all]));
+  const going = new Set(mine.map((r) => r.occurrenceStart.getTime()));
+
+  return occurrences.map((o) => ({
+    occurrenceStart: o.occurrenceStart,
+    start: o.start,
+    end: o.end,
+    title: o.title,
+    world: o.world,
+    rsvpCount: countByStart.get(o.occurrenceStart.getTime()) ?? 0,
+    going: going.has(o.occurrenceStart.getTime()),
+  }));
+}
+
+/**
+ * RSVP to one occurrence of a published event. RSVPing twice is a no-op.
+ */
+export async function rsvpToOccurrence(
+  userId: string,
+  eventId: string,
+  occurrenceStart: Date,
+  source: "web" | "minecraft" = "web",
+  now = new Date()
+): Promise<RsvpResult> {
+  const event = await prisma.event.findUnique({ where: { id: eventId }, select: RSVP_EVENT_SELECT });
+  if (!event || event.status !== "Published") return { ok: false, reason: "not_found" };
+
+  const occurrence = findOccurrence(event, occurrenceStart);
+  if (!occurrence) return { ok: false, reason: "no_occurrence" };
+  if (occurrence.end <= now) return { ok: false, reason: "ended" };
+
+  await prisma.eventRsvp.upsert({
+    where: { eventId_occurrenceStart_userId: { eventId, occurrenceStart, userId } },
+    create: { eventId, occurrenceStart, userId, source },
+    update: {},
+  });
+
+  await syncAttendanceCounts([eventId]);
+  return { ok: true };
+}
+
+export async function cancelRsvp(userId: string, eventId: string, occurrenceStart: Date): Promise<boolean> {
+  const { count } = await prisma.eventRsvp.deleteMany({ where: { userId, eventId, occurrenceStart } });
+  if (count > 0) await syncAttendanceCounts([eventId]);
+  return count > 0;
+}
+
+/**
+ * Website account linked to a Minecraft player through PlayerAnalytics
+ * (linked on sync). Matched by UUID only: a minecraftName typed on the
+ * website proves nothing, and names can be renamed and reused.
+ */
+export async function findLinkedUserId(minecraftUuid: string): Promise<string | null> {
+  const player = await prisma.playerAnalytics.findUnique({
+    where: { minecraftUuid },
+    select: { userId: true },
+  });
+  return player?.userId ?? null;
+}
+
+/**
+ * Record the players present in a world against every published occurrence
+ * running there at `report.at`. Reported repeatedly during an occurrence,
+ * each player is stored once with when they were first and last seen.
+ */
+export async function recordAttendance(
+  report: AttendanceReport,
+  now = new Date()
+): Promise<{ occurrences: number; recorded: number }> {
+  const at = report.at ?? now;
+  const world = report.world.toLowerCase();
+  const players = report.players.slice(0, MAX_ATTENDANCE_PLAYERS);
+  if (players.length === 0) return { occurrences: 0, recorded: 0 };
+
+  // A series never has occurrences after its endAt (see expandEventOccurrences)
+  const events = await prisma.event.findMany({
+    where: {
+      status: "Published",
+      startAt: { lte: at },
+      endAt: { gte: at },
+      OR: [{ world: report.world }, { overrides: { some: { world: report.world } } }],
+    },
+    select: CONFLICT_EVENT_SELECT,
+    take: 100,
+  });
+
+  const from = new Date(at.getTime() - MAX_OCCURRENCE_LENGTH_MS);
+  const running = events.flatMap((event) =>
+    expandEventOccurrences(event, from, at, 50).filter(
+      (o) => o.start <= at && at < o.end && o.world.toLowerCase() === world
+    )
+  );
+  if (running.length === 0) return { occurrences: 0, recorded: 0 };
+
+  const linked = await prisma.playerAnalytics.findMany({
+    where: { minecraftUuid: { in: players.map((p) => p.uuid) }, userId: { not: null } },
+    select: { minecraftUuid: true, userId: true },
+  });
+  const userByUuid = new Map(linked.map((p) => [p.minecraftUuid, p.userId]));
+
+  let recorded = 0;
+  for (const occurrence of running) {
+    for (const player of players) {
+      await prisma.eventAttendance.upsert({
+        where: {
+          eventId_occurrenceStart_minecraftUuid: {
+            eventId: occurrence.eventId,
+            occurrenceStart: occurrence.occurrenceStart,
+            minecraftUuid: player.uuid,
+          },
+        },
+        create: {
+          eventId: occurrence.eventId,
+          occurrenceStart: occurrence.occurrenceStart,
+          minecraftUuid: player.uuid,
+          minecraftName: player.name,
+          userId: userByUuid.get(player.uuid) ?? null,
+          firstSeenAt: at,
+          lastSeenAt: at,
+        },
+        update: { minecraftName: player.name, lastSeenAt: at },
+      });
+      recorded++;
+    }
+  }
+
+  await syncAttendanceCounts(running.map((o) => o.eventId));
+  return { occurrences: running.length, recorded };
+}
@@ -0,0 +1,195 @@
+/**
+ * Event Bus
+ *
+ * Publish/subscribe fan-out for real-time events across processes
+ * (Next.js instances, the WebSocket server, the webhook worker).
+ *
+ * - RedisEventBus: Redis pub/sub, used when REDIS_URL is set
+ * - MemoryEventBus: single process only, for single-node deployments and development
+ *
+ * Payloads are JSON-serialized on the Redis bus, so subscribers receive Dates as
+ * ISO strings. The memory bus serializes too, so both behave the same.
+ */
+
+import { EventEmitter } from "node:events";
+import type Redis from "ioredis";
+import { createRedisConnection, isRedisConfigured } from "./redis";
+
+/**
+ * Topics published on the bus
+ */
+export const EVENT_TOPICS = {
+  SESSION_EVENTS: "session.events",
+  WEBSOCKET_BROADCAST: "websocket.broadcast",
+  WEBSOCKET_DISCONNECT: "websocket.disconnect",
+} as const;
+
+export type EventTopic = (typeof EVENT_TOPICS)[keyof typeof EVENT_TOPICS];
+
+/* eslint-disable-next-line no-unused-vars */
+export type EventHandler<T = unknown> = (payload: T) => void;
+
+export interface EventBus {
+  /** True when events reach other processes */
+  readonly distributed: boolean;
+  /* eslint-disable-next-line no-unused-vars */
+  publish<T>(topic: EventTopic, payload: T): Promise<void>;
+  /** Resolves once events on the topic are delivered; returns a function that removes the subscription */
+  /* eslint-disable-next-line no-unused-vars */
+  subscribe<T>(topic: EventTopic, handler: EventHandler<T>): Promise<() => Promise<void>>;
+  close(): Promise<void>;
+}
+
+const CHANNEL_PREFIX = "imaginears:events:";
+
+function dispatch(handlers: Set<EventHandler> | undefined, raw: string, topic: string): void {
+  if (!handlers || handlers.size === 0) return;
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    console.error(`[EventBus] Dropping malformed message on ${topic}`);
+    return;
+  }
+
+  for (const handler of handlers) {
+    try {
+      handler(payload);
+    } catch (error) {
+      console.error(`[EventBus] Handler for ${topic} failed:`, error);
+    }
+  }
+}
+
+// ============================================================================
+// In-memory implementation
+// ============================================================================
+
+export class MemoryEventBus implements EventBus {
+  readonly distributed = false;
+  private emitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  async publish<T>(topic: EventTopic, payload: T): Promise<void> {
+    this.emitter.emit(topic, JSON.stringify(payload));
+  }
+
+  async subscribe<T>(topic: EventTopic, handler: EventHandler<T>): Promise<() => Promise<void>> {
+    const listener = (raw: string) => dispatch(new Set([handler as EventHandler]), raw, topic);
+    this.emitter.on(topic, listener);
+    return async () => {
+      this.emitter.off(topic, listener);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.emitter.removeAllListeners();
+  }
+}
+
+// ============================================================================
+// Redis implementation
+// ============================================================================
+
+export class RedisEventBus implements EventBus {
+  readonly distributed = true;
+  private publisher: Redis;
+  private subscriber: Redis | null = null;
+  private handlers = new Map<string, Set<EventHandler>>();
+  private subscriptions = new Map<string, Promise<void>>();
+
+  constructor() {
+    this.publisher = createRedisConnection("event-bus:pub");
+  }
+
+  async publish<T>(topic: EventTopic, payload: T): Promise<void> {
+    await this.publisher.publish(CHANNEL_PREFIX + topic, JSON.stringify(payload));
+  }
+
+  async subscribe<T>(topic: EventTopic, handler: EventHandler<T>): Promise<() => Promise<void>> {
+    const subscriber = this.getSubscriber();
+    let handlers = this.handlers.get(topic);
+
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(topic, handlers);
+      this.subscriptions.set(topic, subscriber.subscribe(CHANNEL_PREFIX + topic).then(() => undefined));
+    }
+    handlers.add(handler as EventHandler);
+
+    // Messages are only delivered once Redis has confirmed the channel, also
+    // when another caller's subscribe to the same topic is still in flight
+    try {
+      await this.subscriptions.get(topic);
+    } catch (error) {
+      handlers.delete(handler as EventHandler);
+      if (handlers.size === 0 && this.handlers.get(topic) === handlers) {
+        this.handlers.delete(topic);
+        this.subscriptions.delete(topic);
+      }
+      throw error;
+    }
+
+    return async () => {
+      const current = this.handlers.get(topic);
+      if (!current) return;
+      current.delete(handler as EventHandler);
+      if (current.size === 0) {
+        this.handlers.delete(topic);
+        this.subscriptions.delete(topic);
+        await subscriber.unsubscribe(CHANNEL_PREFIX + topic);
+      }
+    };
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+    this.subscriptions.clear();
+    await Promise.all([
+      this.publisher.quit(),
+      this.subscriber?.quit(),
+    ]);
+    this.subscriber = null;
+  }
+
+  // A connection in subscriber mode cannot publish, so it is opened separately and on demand
+  private getSubscriber(): Redis {
+    if (!this.subscriber) {
+      this.subscriber = createRedisConnection("event-bus:sub");
+      this.subscriber.on("message", (channel: string, raw: string) => {
+        const topic = channel.slice(CHANNEL_PREFIX.length);
+        dispatch(this.handlers.get(topic), raw, topic);
+      });
+    }
+    return this.subscriber;
+  }
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+const globalForEventBus = globalThis as unknown as { eventBus?: EventBus };
+
+/**
+ * Shared bus for this process (Redis when REDIS_URL is set, otherwise in-memory)
+ */
+export function getEventBus(): EventBus {
+  if (!globalForEventBus.eventBus) {
+    globalForEventBus.eventBus = isRedisConfigured() ? new RedisEventBus() : new MemoryEventBus();
+  }
+  return globalForEventBus.eventBus;
+}
+
+/**
+ * Publish without awaiting; failures are logged, never thrown to the caller
+ */
+export function publishEvent<T>(topic: EventTopic, payload: T): void {
+  getEventBus()
+    .publish(topic, payload)
+    .catch((error) => console.error(`[EventBus] Failed to publish ${topic}:`, error));
+}
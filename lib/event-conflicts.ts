@@ -0,0 +1,187 @@
+import { prisma } from "./prisma";
+import { STAFF_ROLES } from "./rbac";
+import { expandEventOccurrences, OCCURRENCE_OVERRIDE_SELECT, type Occurrence, type RecurringEvent } from "./recurrence";
+
+/**
+ * Scheduling conflicts between events
+ *
+ * Two events conflict when one of their occurrences (recurrence expanded,
+ * per-occurrence overrides applied) overlap in time and either take place
+ * in the same world or have the same assigned host. Archived events never
+ * conflict.
+ */
+
+/** How far ahead a series is checked for conflicts */
+export const CONFLICT_HORIZON_DAYS = 366;
+export const MAX_CONFLICTS = 20;
+
+// Occurrences expanded per event over the horizon
+const MAX_OCCURRENCES = 1000;
+
+export const CONFLICT_EVENT_SELECT = {
+    id: true,
+    title: true,
+    world: true,
+    category: true,
+    hostId: true,
+    startAt: true,
+    endAt: true,
+    timezone: true,
+    recurrenceFreq: true,
+    byWeekdayJson: true,
+    timesJson: true,
+    recurrenceUntil: true,
+    recurrenceInterval: true,
+    recurrenceCount: true,
+    byWeekdayPos: true,
+    byMonthDayJson: true,
+    exDatesJson: true,
+    overrides: { select: OCCURRENCE_OVERRIDE_SELECT },
+} as const;
+
+/** An event as it would be saved, checked against the existing ones */
+export type ConflictCandidate = RecurringEvent & { hostId?: string | null };
+
+export type EventConflict = {
+    reason: "world" | "host";
+    eventId: string;
+    title: string;
+    world: string;
+    /** First overlapping occurrence of the existing event */
+    start: Date;
+    end: Date;
+    /** The candidate's occurrence it overlaps */
+    occurrenceStart: Date;
+    occurrenceEnd: Date;
+};
+
+/**
+ * Staff who can be assigned as event host
+ */
+export async function listEventHosts() {
+    return prisma.user.findMany({
+        where: { role: { in: [...STAFF_ROLES] }, suspendedAt: null },
+        orderBy: { name: "asc" },
+        select: { id: true, name: true, minecraftName: true, role: true },
+    });
+}
+
+export async function isEventHost(userId: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { role: true } });
+    return !!user && STAFF_ROLES.has(user.role);
+}
+
+const byStart = (a: Occurrence, b: Occurrence) => a.start.getTime() - b.start.getTime();
+
+/**
+ * First pair of overlapping occurrences (touching ends do not overlap).
+ * Sweeps both lists by start time, so it is linear after sorting.
+ */
+export function firstOverlap(a: Occurrence[], b: Occurrence[]): [Occurrence, Occurrence] | null {
+    const xs = [...a].sort(byStart);
+    const ys = [...b].sort(byStart);
+
+    let i = 0;
+    let j = 0;
+    while (i < xs.length && j < ys.length) {
+        const x = xs[i]!;
+        const y = ys[j]!;
+        if (x.start < y.end && y.start < x.end) return [x, y];
+        // The one ending first cannot overlap anything later in the other list
+        if (x.end <= y.end) i++;
+        else j++;
+    }
+    return null;
+}
+
+/**
+ * First overlap between occurrences in the same world (case-insensitive;
+ * overrides can move single occurrences to another world)
+ */
+export function firstWorldOverlap(a: Occurrence[], b: Occurrence[]): [Occurrence, Occurrence] | null {
+    const worlds = new Set(b.map((o) => o.world.toLowerCase()));
+    let first: [Occurrence, Occurrence] | null = null;
+
+    for (const world of new Set(a.map((o) => o.world.toLowerCase()))) {
+        if (!worlds.has(world)) continue;
+        const pair = firstOverlap(
+            a.filter((o) => o.world.toLowerCase() === world),
+            b.filter((o) => o.world.toLowerCase() === world)
+        );
+        if (pair && (!first || pair[0].start < first[0].start)) first = pair;
+    }
+    return first;
+}
+
+/**
+ * Existing events whose occurrences overlap the candidate's in the same
+ * world or with the same host, from `now` up to CONFLICT_HORIZON_DAYS ahead.
+ *
+ * @param options.excludeEventId - The event being edited (it never conflicts with itself)
+ * @returns Up to MAX_CONFLICTS conflicts, soonest first
+ */
+export async function findEventConflicts(
+    candidate: ConflictCandidate,
+    options: { excludeEventId?: string; now?: Date } = {}
+): Promise<EventConflict[]> {
+    const now = options.now ?? new Date();
+    const until = new Date(now.getTime() + CONFLICT_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+
+    const occurrences = expandEventOccurrences(candidate, now, until, MAX_OCCURRENCES);
+    if (occurrences.length === 0) return [];
+
+    const worlds = [...new Set(occurrences.map((o) => o.world))];
+    const hostId = candidate.hostId ?? null;
+
+    // A series never has occurrences after its endAt (see expandEventOccurrences)
+    const existing = await prisma.event.findMany({
+        where: {
+            status: { not: "Archived" },
+            ...(options.excludeEventId && { id: { not: options.excludeEventId } }),
+            startAt: { lte: until },
+            endAt: { gte: now },
+            OR: [
+                { world: { in: worlds } },
+                { overrides: { some: { world: { in: worlds } } } },
+                ...(hostId ? [{ hostId }] : []),
+            ],
+        },
+        select: CONFLICT_EVENT_SELECT,
+        take: 1000,
+    });
+
+    const conflicts: EventConflict[] = [];
+    for (const event of existing) {
+        const other = expandEventOccurrences(event, now, until, MAX_OCCURRENCES);
+
+        const worldPair = firstWorldOverlap(occurrences, other);
+        if (worldPair) conflicts.push(toConflict("world", event, worldPair));
+
+        // Reported once per event; a same-world overlap already covers it
+        if (!worldPair && hostId && event.hostId === hostId) {
+            const hostPair = firstOverlap(occurrences, other);
+            if (hostPair) conflicts.push(toConflict("host", event, hostPair));
+        }
+    }
+
+    return conflicts
+        .sort((a, b) => a.occurrenceStart.getTime() - b.occurrenceStart.getTime())
+        .slice(0, MAX_CONFLICTS);
+}
+
+function toConflict(
+    reason: EventConflict["reason"],
+    event: { id: string; title: string },
+    [occurrence, other]: [Occurrence, Occurrence]
+): EventConflict {
+    return {
+        reason,
+        eventId: event.id,
+        title: event.title,
+        world: other.world,
+        start: other.start,
+        end: other.end,
+        occurrenceStart: occurrence.start,
+        occurrenceEnd: occurrence.end,
+    };
+}
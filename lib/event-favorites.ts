@@ -0,0 +1,241 @@
+import { prisma } from "./prisma";
+import { createNotification, NotificationTemplates, shouldNotifyUser } from "./notifications";
+import { expandEventOccurrences, OCCURRENCE_OVERRIDE_SELECT, type Occurrence } from "./recurrence";
+import { MAX_FAVORITES, REMINDER_LEAD_MINUTES } from "./favorites";
+
+/**
+ * Account-backed event favorites and reminders
+ *
+ * Guests keep favorites in localStorage (lib/favorites.ts); signed-in users
+ * merge them into EventFavorite. Each favorite can opt into a reminder a fixed
+ * time before every occurrence, sent by sendDueEventReminders
+ * (/api/cron/event-reminders) as an "events" notification.
+ */
+
+const MAX_LEAD_MS = Math.max(...REMINDER_LEAD_MINUTES) * 60 * 1000;
+
+// How far ahead "My events" looks for the next occurrence
+const NEXT_OCCURRENCE_WINDOW_MS = 366 * 24 * 60 * 60 * 1000;
+
+const FAVORITE_EVENT_SELECT = {
+  id: true,
+  title: true,
+  world: true,
+  category: true,
+  status: true,
+  shortDescription: true,
+  startAt: true,
+  endAt: true,
+  timezone: true,
+  recurrenceFreq: true,
+  byWeekdayJson: true,
+  timesJson: true,
+  recurrenceUntil: true,
+  recurrenceInterval: true,
+  recurrenceCount: true,
+  byWeekdayPos: true,
+  byMonthDayJson: true,
+  exDatesJson: true,
+  overrides: { select: OCCURRENCE_OVERRIDE_SELECT },
+} as const;
+
+/**
+ * Keep EventAnalytics.favoriteCount equal to the number of account favorites
+ */
+async function syncFavoriteCounts(eventIds: string[]): Promise<void> {
+  for (const eventId of new Set(eventIds)) {
+    const [favoriteCount, event] = await Promise.all([
+      prisma.eventFavorite.count({ where: { eventId } }),
+      prisma.event.findUnique({ where: { id: eventId }, select: { title: true, category: true, startAt: true } }),
+    ]);
+    if (!event) continue;
+
+    await prisma.eventAnalytics.upsert({
+      where: { eventId },
+      create: { eventId, eventTitle: event.title, category: event.category, startAt: event.startAt, favoriteCount },
+      update: { favoriteCount },
+    });
+  }
+}
+
+/**
+ * Favorites of a user with their event and its next occurrence
+ */
+export async function listEventFavorites(userId: string, now = new Date()) {
+  const favorites = await prisma.eventFavorite.findMany({
+    where: { userId },
+    orderBy: { createdAt: "asc" },
+    select: {
+      eventId: true,
+      remindMinutesBefore: true,
+      createdAt: true,
+      event: { select: FAVORITE_EVENT_SELECT },
+    },
+  });
+
+  const until = new Date(now.getTime() + NEXT_OCCURRENCE_WINDOW_MS);
+  return favorites.map(({ event, ...favorite }) => {
+    const next = event.status === "Published" ? expandEventOccurrences(event, now, until, 1)[0] : undefined;
+    return {
+      ...favorite,
+      event: {
+        id: event.id,
+        title: event.title,
+        world: event.world,
+        category: event.category,
+        status: event.status,
+        shortDescription: event.shortDescription,
+        timezone: event.timezone,
+        recurrenceFreq: event.recurrenceFreq,
+      },
+      nextOccurrence: next ? { start: next.start, end: next.end, title: next.title, world: next.world } : null,
+    };
+  });
+}
+
+/**
+ * Favorite a published event. Fails when the event does not exist or the
+ * user reached MAX_FAVORITES; favoriting again only updates the reminder.
+ */
+export async function addEventFavorite(
+  userId: string,
+  eventId: string,
+  remindMinutesBefore?: number | null
+): Promise<{ ok: true } | { ok: false; reason: "not_found" | "limit" }> {
+  const event = await prisma.event.findFirst({ where: { id: eventId, status: "Published" }, select: { id: true } });
+  if (!event) return { ok: false, reason: "not_found" };
+
+  const existing = await prisma.eventFavorite.findUnique({ where: { userId_eventId: { userId, eventId } } });
+  if (!existing && (await prisma.eventFavorite.count({ where: { userId } })) >= MAX_FAVORITES) {
+    return { ok: false, reason: "limit" };
+  }
+
+  await prisma.eventFavorite.upsert({
+    where: { userId_eventId: { userId, eventId } },
+    create: { userId, eventId, remindMinutesBefore: remindMinutesBefore ?? null },
+    update: remindMinutesBefore !== undefined ? { remindMinutesBefore } : {},
+  });
+
+  if (!existing) await syncFavoriteCounts([eventId]);
+  return { ok: true };
+}
+
+export async function removeEventFavorite(userId: string, eventId: string): Promise<boolean> {
+  const { count } = await prisma.eventFavorite.deleteMany({ where: { userId, eventId } });
+  if (count > 0) await syncFavoriteCounts([eventId]);
+  return count > 0;
+}
+
+/**
+ * Turn reminders for one favorite on (minutes before each occurrence, one of
+ * REMINDER_LEAD_MINUTES) or off (null)
+ */
+export async function setFavoriteReminder(
+  userId: string,
+  eventId: string,
+  remindMinutesBefore: number | null
+): Promise<boolean> {
+  const { count } = await prisma.eventFavorite.updateMany({
+    where: { userId, eventId },
+    data: { remindMinutesBefore },
+  });
+  return count > 0;
+}
+
+/**
+ * Add favorites saved on a device (localStorage) to the account, up to
+ * MAX_FAVORITES; unknown and unpublished events are dropped.
+ * @returns Every favorite event id of the account
+ */
+export async function mergeEventFavorites(userId: string, eventIds: string[]): Promise<string[]> {
+  const existing = await prisma.eventFavorite.findMany({
+    where: { userId },
+    orderBy: { createdAt: "asc" },
+    select: { eventId: true },
+  });
+  const known = new Set(existing.map((f) => f.eventId));
+  const candidates = [...new Set(eventIds)].filter((id) => !known.has(id));
+  const room = MAX_FAVORITES - known.size;
+
+  if (candidates.length > 0 && room > 0) {
+    const events = await prisma.event.findMany({
+      where: { id: { in: candidates }, status: "Published" },
+      select: { id: true },
+    });
+    const added = candidates.filter((id) => events.some((e) => e.id === id)).slice(0, room);
+
+    if (added.length > 0) {
+      await prisma.eventFavorite.createMany({
+        data: added.map((eventId) => ({ userId, eventId })),
+        skipDuplicates: true,
+      });
+      await syncFavoriteCounts(added);
+      added.forEach((id) => known.add(id));
+    }
+  }
+
+  return [...known];
+}
+
+/**
+ * Send the reminders that are due: for every favorite with a reminder, the
+ * next occurrence starting within its lead time gets one notification.
+ * Run every few minutes; each occurrence is reminded about once.
+ */
+export async function sendDueEventReminders(now = new Date()): Promise<{ checked: number; sent: number }> {
+  const favorites = await prisma.eventFavorite.findMany({
+    where: { remindMinutesBefore: { not: null }, event: { status: "Published" } },
+    select: {
+      id: true,
+      userId: true,
+      remindMinutesBefore: true,
+      lastRemindedOccurrence: true,
+      event: { select: FAVORITE_EVENT_SELECT },
+    },
+    take: 5000,
+  });
+
+  // Expand each event once for all of its favorites
+  const upcoming = new Map<string, Occurrence[]>();
+  const until = new Date(now.getTime() + MAX_LEAD_MS);
+  for (const { event } of favorites) {
+    if (!upcoming.has(event.id)) {
+      upcoming.set(event.id, expandEventOccurrences(event, now, until, 50).filter((o) => o.start > now));
+    }
+  }
+
+  let sent = 0;
+  for (const favorite of favorites) {
+    const leadMs = favorite.remindMinutesBefore! * 60 * 1000;
+    const last = favorite.lastRemindedOccurrence?.getTime() ?? 0;
+    const due = upcoming
+      .get(favorite.event.id)!
+      .find((o) => o.start.getTime() - leadMs <= now.getTime() && o.occurrenceStart.getTime() > last);
+    if (!due) continue;
+
+    try {
+      // Marked first so a failing notification is not retried every run
+      await prisma.eventFavorite.update({
+        where: { id: favorite.id },
+        data: { lastRemindedOccurrence: due.occurrenceStart },
+      });
+
+      if (!(await shouldNotifyUser(favorite.userId, "events"))) continue;
+
+      const minutesUntil = Math.max(1, Math.round((due.start.getTime() - now.getTime()) / 60_000));
+      await createNotification({
+        userId: favorite.userId,
+        ...NotificationTemplates.eventStartingSoon(due.title, minutesUntil),
+        actionUrl: `/events/${favorite.event.id}`,
+        actionText: "View Event",
+        metadata: { eventId: favorite.event.id, occurrenceStart: due.occurrenceStart.toISOString(), world: due.world },
+        expiresAt: due.end,
+      });
+      sent++;
+    } catch (error) {
+      console.error("[Event Reminders] Failed to remind", favorite.userId, "about", favorite.event.id, error);
+    }
+  }
+
+  return { checked: favorites.length, sent };
+}
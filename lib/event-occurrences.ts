@@ -0,0 +1,43 @@
+import { prisma } from "./prisma";
+import { auditLog } from "./audit-logger";
+import { findOccurrence } from "./recurrence";
+
+/**
+ * Occurrence overrides are keyed by the start the recurrence rule generates,
+ * so moving the series start, its showtimes or its rule leaves some pointing
+ * at occurrences that no longer exist. They would never apply again and the
+ * admin calendar can't reach them, so they are deleted after a schedule change.
+ */
+
+/**
+ * Delete the event's overrides whose occurrence the series no longer generates
+ * @returns The occurrence starts of the removed overrides
+ */
+export async function removeOrphanedOverrides(eventId: string, userId: string): Promise<Date[]> {
+    const event = await prisma.event.findUnique({
+        where: { id: eventId },
+        include: { overrides: { select: { id: true, occurrenceStart: true } } },
+    });
+    if (!event || event.overrides.length === 0) return [];
+
+    // Overrides ignored, so a moved or cancelled occurrence still counts as generated
+    const orphaned = event.overrides.filter(
+        (override) => !findOccurrence({ ...event, overrides: [] }, override.occurrenceStart)
+    );
+    if (orphaned.length === 0) return [];
+
+    await prisma.eventOccurrenceOverride.deleteMany({
+        where: { id: { in: orphaned.map((override) => override.id) } },
+    });
+
+    const starts = orphaned.map((override) => override.occurrenceStart);
+    await auditLog({
+        action: "event.occurrence_overrides_removed",
+        resourceType: "event",
+        resourceId: eventId,
+        userId,
+        details: { occurrenceStarts: starts.map((start) => start.toISOString()) },
+    });
+
+    return starts;
+}
@@ -0,0 +1,285 @@
+import { Prisma, type Event } from "@prisma/client";
+import { prisma } from "./prisma";
+
+/**
+ * Revision history of events
+ *
+ * Every change to an event stores a full snapshot of its fields, numbered
+ * per event, with the author and what changed since the previous revision.
+ * Events created before the history existed get a "baseline" revision of
+ * their state right before their first recorded change.
+ *
+ * Occurrence overrides have their own history in the audit log and are not
+ * part of the snapshot.
+ */
+
+export type RevisionSource = "baseline" | "created" | "updated" | "restored" | "imported" | "scheduler";
+
+/** Event fields kept in every snapshot */
+export const EVENT_REVISION_FIELDS = [
+    "title",
+    "world",
+    "category",
+    "status",
+    "shortDescription",
+    "details",
+    "startAt",
+    "endAt",
+    "timezone",
+    "recurrenceFreq",
+    "byWeekdayJson",
+    "timesJson",
+    "byMonthDayJson",
+    "exDatesJson",
+    "recurrenceInterval",
+    "recurrenceCount",
+    "byWeekdayPos",
+    "recurrenceUntil",
+    "hostId",
+    "publishAt",
+    "archiveAt",
+    "announceOnPublish",
+] as const;
+
+export type RevisionField = (typeof EVENT_REVISION_FIELDS)[number];
+
+/** Snapshot as stored: dates are ISO strings */
+export type EventSnapshot = Record<RevisionField, unknown>;
+
+export type RevisionChange = { field: RevisionField; before: unknown; after: unknown };
+
+/**
+ * Fields a restore leaves as they are: publishing is done explicitly, and
+ * restoring an archive time that has passed would archive the event at once
+ */
+export const NOT_RESTORED_FIELDS: ReadonlySet<RevisionField> = new Set(["status", "publishAt", "archiveAt", "announceOnPublish"]);
+
+const SNAPSHOT_SELECT = Object.fromEntries(EVENT_REVISION_FIELDS.map((field) => [field, true])) as Record<RevisionField, true>;
+
+function toSnapshot(event: Record<RevisionField, unknown>): EventSnapshot {
+    const snapshot = {} as EventSnapshot;
+    for (const field of EVENT_REVISION_FIELDS) {
+        const value = event[field];
+        snapshot[field] = value instanceof Date ? value.toISOString() : (value ?? null);
+    }
+    return snapshot;
+}
+
+/** Empty lists and missing values are the same thing in the recurrence JSON fields */
+function normalize(value: unknown): string {
+    if (Array.isArray(value) && value.length === 0) return "null";
+    return JSON.stringify(value ?? null);
+}
+
+/**
+ * Fields that differ between two snapshots
+ */
+export function diffSnapshots(before: EventSnapshot, after: EventSnapshot): RevisionChange[] {
+    return EVENT_REVISION_FIELDS
+        .filter((field) => normalize(before[field]) !== normalize(after[field]))
+        .map((field) => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+}
+
+export async function getEventSnapshot(eventId: string): Promise<EventSnapshot | null> {
+    const event = await prisma.event.findUnique({ where: { id: eventId }, select: SNAPSHOT_SELECT });
+    return event ? toSnapshot(event) : null;
+}
+
+async function latestRevision(eventId: string) {
+    return prisma.eventRevision.findFirst({
+        where: { eventId },
+        orderBy: { revision: "desc" },
+        select: { revision: true, snapshot: true },
+    });
+}
+
+async function insertRevision(
+    eventId: string,
+    data: {
+        source: RevisionSource;
+        snapshot: EventSnapshot;
+        changedFields: RevisionField[] | null;
+        authorId: string | null;
+        restoredFrom?: number;
+    },
+    revision: number
+): Promise<number> {
+    await prisma.eventRevision.create({
+        data: {
+            eventId,
+            revision,
+            source: data.source,
+            snapshot: data.snapshot as Prisma.InputJsonObject,
+            changedFields: data.changedFields ?? Prisma.JsonNull,
+            authorId: data.authorId,
+            ...(data.restoredFrom !== undefined && { restoredFrom: data.restoredFrom }),
+        },
+    });
+    return revision;
+}
+
+/**
+ * Store the current state as the first revision of an event without history.
+ * Call right before changing an event.
+ */
+export async function ensureBaselineRevision(eventId: string): Promise<void> {
+    try {
+        if (await prisma.eventRevision.count({ where: { eventId } }) > 0) return;
+
+        const snapshot = await getEventSnapshot(eventId);
+        if (!snapshot) return;
+        await insertRevision(eventId, { source: "baseline", snapshot, changedFields: null, authorId: null }, 1);
+    } catch (error) {
+        // Taken by a concurrent change, which recorded the history already
+        if ((error as { code?: string }).code === "P2002") return;
+        console.error("[Event Revisions] Failed to store baseline", eventId, error);
+    }
+}
+
+/**
+ * Store the current state of an event as a new revision. Call right after
+ * changing it. Nothing is stored when no snapshot field changed.
+ *
+ * History is best effort: a failure is logged and never fails the change.
+ * @returns The revision number, or null when nothing was stored
+ */
+export async function recordEventRevision(
+    eventId: string,
+    authorId: string | null,
+    source: RevisionSource,
+    options: { restoredFrom?: number } = {}
+): Promise<number | null> {
+    for (let attempt = 0; attempt < 3; attempt++) {
+        try {
+            const [snapshot, latest] = await Promise.all([getEventSnapshot(eventId), latestRevision(eventId)]);
+            if (!snapshot) return null;
+
+            const changes = latest ? diffSnapshots(latest.snapshot as EventSnapshot, snapshot) : null;
+            if (changes && changes.length === 0 && options.restoredFrom === undefined) return null;
+
+            return await insertRevision(
+                eventId,
+                {
+                    source,
+                    snapshot,
+                    changedFields: changes ? changes.map((c) => c.field) : null,
+                    authorId,
+                    ...options,
+                },
+                (latest?.revision ?? 0) + 1
+            );
+        } catch (error) {
+            // Revision number taken by a concurrent change: number it again
+            if ((error as { code?: string }).code === "P2002") continue;
+            console.error("[Event Revisions] Failed to record revision", eventId, error);
+            return null;
+        }
+    }
+    return null;
+}
+
+/**
+ * Revisions of an event, newest first, each with its changes against the
+ * previous revision (null for the first one)
+ */
+export async function listEventRevisions(eventId: string, limit = 100) {
+    const rows = await prisma.eventRevision.findMany({
+        where: { eventId },
+        orderBy: { revision: "desc" },
+        // One more, to diff the oldest listed revision against
+        take: limit + 1,
+    });
+
+    const authorIds = [...new Set(rows.map((r) => r.authorId).filter((id): id is string => !!id))];
+    const authors = authorIds.length > 0
+        ? await prisma.user.findMany({
+            where: { id: { in: authorIds } },
+            select: { id: true, name: true, email: true },
+        })
+        : [];
+    const authorById = new Map(authors.map((a) => [a.id, a]));
+
+    return rows.slice(0, limit).map((row, i) => {
+        const previous = rows[i + 1];
+        const author = row.authorId ? authorById.get(row.authorId) : undefined;
+        return {
+            revision: row.revision,
+            source: row.source as RevisionSource,
+            createdAt: row.createdAt,
+            restoredFrom: row.restoredFrom,
+            author: row.authorId
+                ? { id: row.authorId, name: author?.name ?? author?.email ?? "Deleted user" }
+                : null,
+            snapshot: row.snapshot as EventSnapshot,
+            changes: previous
+                ? diffSnapshots(previous.snapshot as EventSnapshot, row.snapshot as EventSnapshot)
+                : null,
+        };
+    });
+}
+
+export async function findEventRevision(eventId: string, revision: number) {
+    const row = await prisma.eventRevision.findUnique({
+        where: { eventId_revision: { eventId, revision } },
+        select: { revision: true, snapshot: true },
+    });
+    return row ? { revision: row.revision, snapshot: row.snapshot as EventSnapshot } : null;
+}
+
+/** Event fields a restore writes back */
+export type RestoredFields = Pick<
+    Event,
+    "title" | "world" | "category" | "shortDescription" | "details" | "startAt" | "endAt" | "timezone"
+    | "recurrenceFreq" | "byWeekdayJson" | "timesJson" | "byMonthDayJson" | "exDatesJson"
+    | "recurrenceInterval" | "recurrenceCount" | "byWeekdayPos" | "recurrenceUntil" | "hostId"
+>;
+
+function dateValue(value: unknown): Date | null {
+    return typeof value === "string" ? new Date(value) : null;
+}
+
+/**
+ * The fields of a snapshot a restore writes back (everything but
+ * NOT_RESTORED_FIELDS), as the event row has them
+ */
+export function fromSnapshot(snapshot: EventSnapshot): RestoredFields {
+    return {
+        title: String(snapshot.title),
+        world: String(snapshot.world),
+        category: snapshot.category as Event["category"],
+        shortDescription: (snapshot.shortDescription as string | null) ?? null,
+        details: (snapshot.details as string | null) ?? null,
+        startAt: dateValue(snapshot.startAt)!,
+        endAt: dateValue(snapshot.endAt)!,
+        timezone: String(snapshot.timezone),
+        recurrenceFreq: snapshot.recurrenceFreq as Event["recurrenceFreq"],
+        byWeekdayJson: (snapshot.byWeekdayJson as Prisma.JsonValue) ?? null,
+        timesJson: (snapshot.timesJson as Prisma.JsonValue) ?? null,
+        byMonthDayJson: (snapshot.byMonthDayJson as Prisma.JsonValue) ?? null,
+        exDatesJson: (snapshot.exDatesJson as Prisma.JsonValue) ?? null,
+        recurrenceInterval: Number(snapshot.recurrenceInterval ?? 1),
+        recurrenceCount: (snapshot.recurrenceCount as number | null) ?? null,
+        byWeekdayPos: (snapshot.byWeekdayPos as number | null) ?? null,
+        recurrenceUntil: dateValue(snapshot.recurrenceUntil),
+        hostId: (snapshot.hostId as string | null) ?? null,
+    };
+}
+
+function jsonValue(value: Prisma.JsonValue): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+    return value === null ? Prisma.JsonNull : (value as Prisma.InputJsonValue);
+}
+
+/**
+ * Update data that puts an event back to restored fields
+ */
+export function toRestoreData(fields: RestoredFields): Prisma.EventUncheckedUpdateInput {
+    return {
+        ...fields,
+        byWeekdayJson: jsonValue(fields.byWeekdayJson),
+        timesJson: jsonValue(fields.timesJson),
+        byMonthDayJson: jsonValue(fields.byMonthDayJson),
+        exDatesJson: jsonValue(fields.exDatesJson),
+        // Subscribed calendars only take an edit with a higher SEQUENCE
+        sequence: { increment: 1 },
+    };
+}
@@ -0,0 +1,233 @@
+import { prisma } from "./prisma";
+import { auditLog } from "./audit-logger";
+import { cache, cacheTags } from "./cache";
+import { getDiscordNotificationSettings, postDiscordWebhook } from "./discord";
+import { notifyStaffOfEventChange } from "./event-staffing";
+import { ensureBaselineRevision, recordEventRevision } from "./event-revisions";
+import { expandEventOccurrences, OCCURRENCE_OVERRIDE_SELECT } from "./recurrence";
+
+/**
+ * Scheduled publishing and archiving of events
+ *
+ * Run every minute by the event scheduler (scripts/event-scheduler.ts):
+ * - Scheduled events publish once publishAt has passed, and are announced on
+ *   the events Discord webhook when announceOnPublish is set
+ * - Events archive at archiveAt, and published events archive by themselves
+ *   once they are over: one-off events after endAt, series after endAt or
+ *   recurrenceUntil (once the last occurrence has ended)
+ *
+ * Every change is audited with the "system" actor and kept in the revision
+ * history without an author.
+ */
+
+const SYSTEM_ACTOR = "system";
+
+// Events handled per run; the rest are picked up on the next one
+const BATCH_SIZE = 100;
+
+// How far back an occurrence still running may have started
+const MAX_OCCURRENCE_LENGTH_MS = 24 * 60 * 60 * 1000;
+
+// How far ahead the announcement looks for the next occurrence
+const ANNOUNCE_LOOKAHEAD_MS = 366 * 24 * 60 * 60 * 1000;
+
+const DISCORD_EVENT_COLOR = 0x3b82f6;
+
+const SCHEDULE_EVENT_SELECT = {
+    id: true,
+    title: true,
+    world: true,
+    category: true,
+    status: true,
+    shortDescription: true,
+    startAt: true,
+    endAt: true,
+    timezone: true,
+    recurrenceFreq: true,
+    byWeekdayJson: true,
+    timesJson: true,
+    recurrenceUntil: true,
+    recurrenceInterval: true,
+    recurrenceCount: true,
+    byWeekdayPos: true,
+    byMonthDayJson: true,
+    exDatesJson: true,
+    overrides: { select: OCCURRENCE_OVERRIDE_SELECT },
+    publishAt: true,
+    archiveAt: true,
+    announceOnPublish: true,
+} as const;
+
+type ScheduledEvent = NonNullable<Awaited<ReturnType<typeof findEvent>>>;
+
+function findEvent(id: string) {
+    return prisma.event.findUnique({ where: { id }, select: SCHEDULE_EVENT_SELECT });
+}
+
+function siteUrl(): string {
+    return process.env["NEXT_PUBLIC_SITE_URL"]?.trim().replace(/\/$/, "") || "http://localhost:3000";
+}
+
+/**
+ * Announce a published event on the events Discord webhook, when configured
+ */
+async function announceEvent(event: ScheduledEvent, now: Date): Promise<boolean> {
+    const settings = await getDiscordNotificationSettings();
+    if (!settings.discordEventsWebhookUrl) return false;
+
+    const next = expandEventOccurrences(event, now, new Date(now.getTime() + ANNOUNCE_LOOKAHEAD_MS), 1)[0];
+    const start = next?.start ?? event.startAt;
+
+    return postDiscordWebhook(settings.discordEventsWebhookUrl, [
+        {
+            title: `📅 ${event.title}`,
+            ...(event.shortDescription && { description: event.shortDescription }),
+            url: `${siteUrl()}/events/${event.id}`,
+            color: DISCORD_EVENT_COLOR,
+            fields: [
+                { name: "World", value: next?.world ?? event.world, inline: true },
+                { name: "Category", value: event.category, inline: true },
+                // Discord renders <t:unix:F> in each reader's timezone
+                { name: next ? "Next" : "Starts", value: `<t:${Math.floor(start.getTime() / 1000)}:F>` },
+            ],
+            timestamp: now.toISOString(),
+        },
+    ]);
+}
+
+/**
+ * Publish Scheduled events whose publishAt has passed
+ * @returns IDs of the published events
+ */
+export async function publishDueEvents(now = new Date()): Promise<string[]> {
+    const due = await prisma.event.findMany({
+        where: { status: "Scheduled", publishAt: { lte: now } },
+        orderBy: { publishAt: "asc" },
+        select: { id: true },
+        take: BATCH_SIZE,
+    });
+
+    const published: string[] = [];
+    for (const { id } of due) {
+        try {
+            // Guarded by status so an edit in between (or a second scheduler) wins
+            await ensureBaselineRevision(id);
+            const { count } = await prisma.event.updateMany({
+                where: { id, status: "Scheduled" },
+                data: { status: "Published", sequence: { increment: 1 } },
+            });
+            if (count === 0) continue;
+            await recordEventRevision(id, null, "scheduler");
+
+            const event = (await findEvent(id))!;
+            // Not announced when it is about to be archived in the same round
+            const archiving = !!event.archiveAt && event.archiveAt <= now;
+            const announced = event.announceOnPublish && !archiving ? await announceEvent(event, now) : false;
+
+            await auditLog({
+                action: "event.published",
+                resourceType: "event",
+                resourceId: id,
+                userId: SYSTEM_ACTOR,
+                details: {
+                    title: event.title,
+                    scheduled: true,
+                    publishAt: event.publishAt?.toISOString(),
+                    ...(event.announceOnPublish && { announced }),
+                },
+            });
+            published.push(id);
+        } catch (error) {
+            console.error("[Event Schedule] Failed to publish", id, error);
+        }
+    }
+    return published;
+}
+
+/**
+ * Why an event is due for archiving, or null when it is not
+ */
+function archiveReason(event: ScheduledEvent, now: Date): "archiveAt" | "ended" | null {
+    if (event.archiveAt && event.archiveAt <= now) return "archiveAt";
+    if (event.status !== "Published") return null;
+
+    const seriesEnd = event.recurrenceFreq !== "NONE" && event.recurrenceUntil && event.recurrenceUntil < event.endAt
+        ? event.recurrenceUntil
+        : event.endAt;
+    if (seriesEnd > now) return null;
+
+    // The last occurrence of a series can still be running after recurrenceUntil
+    const running = expandEventOccurrences(event, new Date(now.getTime() - MAX_OCCURRENCE_LENGTH_MS), now, 50)
+        .some((o) => o.end > now);
+    return running ? null : "ended";
+}
+
+/**
+ * Archive events whose archiveAt has passed and published events that are over
+ * @returns IDs of the archived events
+ */
+export async function archiveFinishedEvents(now = new Date()): Promise<string[]> {
+    const candidates = await prisma.event.findMany({
+        where: {
+            status: { not: "Archived" },
+            OR: [
+                { archiveAt: { lte: now } },
+                { status: "Published", endAt: { lte: now } },
+                { status: "Published", recurrenceFreq: { not: "NONE" }, recurrenceUntil: { lte: now } },
+            ],
+        },
+        select: SCHEDULE_EVENT_SELECT,
+        take: BATCH_SIZE,
+    });
+
+    const archived: string[] = [];
+    for (const event of candidates) {
+        const reason = archiveReason(event, now);
+        if (!reason) continue;
+
+        try {
+            await ensureBaselineRevision(event.id);
+            const { count } = await prisma.event.updateMany({
+                where: { id: event.id, status: event.status },
+                data: { status: "Archived", sequence: { increment: 1 } },
+            });
+            if (count === 0) continue;
+            await recordEventRevision(event.id, null, "scheduler");
+
+            await auditLog({
+                action: "event.archived",
+                resourceType: "event",
+                resourceId: event.id,
+                userId: SYSTEM_ACTOR,
+                details: {
+                    title: event.title,
+                    previousStatus: event.status,
+                    reason,
+                    ...(event.archiveAt && { archiveAt: event.archiveAt.toISOString() }),
+                },
+            });
+
+            // Ended events have no shifts left; an early archiveAt can cancel some
+            if (reason === "archiveAt") await notifyStaffOfEventChange(event.id, "it was archived");
+            archived.push(event.id);
+        } catch (error) {
+            console.error("[Event Schedule] Failed to archive", event.id, error);
+        }
+    }
+    return archived;
+}
+
+/**
+ * One scheduler round: publish first, so an event whose publishAt and
+ * archiveAt both passed while the scheduler was down ends up archived
+ */
+export async function runEventSchedule(now = new Date()): Promise<{ published: string[]; archived: string[] }> {
+    const published = await publishDueEvents(now);
+    const archived = await archiveFinishedEvents(now);
+
+    // Public listings are cached (events:*); the scheduler only runs on the shared Redis cache
+    if (published.length > 0 || archived.length > 0) {
+        await cache.invalidateTags(cacheTags.events);
+    }
+    return { published, archived };
+}
@@ -0,0 +1,279 @@
+import type { EventStaffRole, StaffAssignmentStatus } from "@prisma/client";
+import { prisma } from "./prisma";
+import { createNotification, NotificationTemplates, shouldNotifyUser } from "./notifications";
+import { CONFLICT_EVENT_SELECT, isEventHost } from "./event-conflicts";
+import { expandEventOccurrences, findOccurrence } from "./recurrence";
+
+/**
+ * Event staffing roster
+ *
+ * Staff are assigned to an event in a role, either for every occurrence
+ * (occurrenceStart null) or for a single occurrence, identified like
+ * overrides by the start the recurrence rule generates. Assignees accept or
+ * decline from their profile and get an "events" notification when assigned
+ * and when the event changes.
+ */
+
+export const STAFF_ROLE_LABELS: Record<EventStaffRole, string> = {
+    Host: "host",
+    Character: "character",
+    Security: "security",
+    Tech: "tech",
+};
+
+// How far ahead the profile lists shifts, and how many per series assignment
+const SHIFTS_WINDOW_DAYS = 60;
+const MAX_SHIFTS_PER_ASSIGNMENT = 10;
+const MAX_SHIFTS = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ASSIGNMENT_SELECT = {
+    id: true,
+    role: true,
+    occurrenceStart: true,
+    status: true,
+    note: true,
+    respondedAt: true,
+    createdAt: true,
+    user: { select: { id: true, name: true, minecraftName: true } },
+    assignedBy: { select: { id: true, name: true } },
+} as const;
+
+export type AssignStaffInput = {
+    eventId: string;
+    userId: string;
+    role: EventStaffRole;
+    occurrenceStart?: Date | null;
+    note?: string | null;
+    assignedById: string;
+};
+
+export type AssignStaffResult =
+    | { ok: true; assignment: Awaited<ReturnType<typeof listEventStaff>>[number] }
+    | { ok: false; reason: "event_not_found" | "not_staff" | "no_occurrence" | "duplicate" };
+
+function formatWhen(date: Date, timezone: string): string {
+    return date.toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short", timeZone: timezone });
+}
+
+async function notify(userId: string, input: Omit<Parameters<typeof createNotification>[0], "userId">) {
+    try {
+        if (!(await shouldNotifyUser(userId, "events"))) return;
+        await createNotification({ userId, ...input });
+    } catch (error) {
+        console.error("[Event Staffing] Failed to notify", userId, error);
+    }
+}
+
+/**
+ * Roster of an event, series-wide assignments first
+ */
+export async function listEventStaff(eventId: string) {
+    return prisma.eventStaffAssignment.findMany({
+        where: { eventId },
+        orderBy: [{ occurrenceStart: "asc" }, { role: "asc" }, { createdAt: "asc" }],
+        select: ASSIGNMENT_SELECT,
+    });
+}
+
+/**
+ * Upcoming occurrences staff can be assigned to individually
+ */
+export async function listAssignableOccurrences(eventId: string, now = new Date()) {
+    const event = await prisma.event.findUnique({ where: { id: eventId }, select: CONFLICT_EVENT_SELECT });
+    if (!event) return null;
+
+    const until = new Date(now.getTime() + SHIFTS_WINDOW_DAYS * DAY_MS);
+    return {
+        timezone: event.timezone,
+        occurrences: expandEventOccurrences(event, now, until, 50).map((o) => ({
+            occurrenceStart: o.occurrenceStart,
+            start: o.start,
+            end: o.end,
+            world: o.world,
+        })),
+    };
+}
+
+/**
+ * Assign a staff member and notify them. The same person can hold several
+ * roles, but each role only once per occurrence (or series).
+ */
+export async function assignStaff(input: AssignStaffInput): Promise<AssignStaffResult> {
+    const event = await prisma.event.findUnique({
+        where: { id: input.eventId },
+        select: { ...CONFLICT_EVENT_SELECT, status: true },
+    });
+    if (!event || event.status === "Archived") return { ok: false, reason: "event_not_found" };
+
+    if (!(await isEventHost(input.userId))) return { ok: false, reason: "not_staff" };
+
+    const occurrenceStart = input.occurrenceStart ?? null;
+    if (occurrenceStart && !findOccurrence(event, occurrenceStart)) {
+        return { ok: false, reason: "no_occurrence" };
+    }
+
+    const duplicate = await prisma.eventStaffAssignment.findFirst({
+        where: { eventId: input.eventId, userId: input.userId, role: input.role, occurrenceStart },
+        select: { id: true },
+    });
+    if (duplicate) return { ok: false, reason: "duplicate" };
+
+    const assignment = await prisma.eventStaffAssignment.create({
+        data: {
+            eventId: input.eventId,
+            userId: input.userId,
+            role: input.role,
+            occurrenceStart,
+            note: input.note ?? null,
+            assignedById: input.assignedById,
+        },
+        select: ASSIGNMENT_SELECT,
+    });
+
+    await notify(input.userId, {
+        ...NotificationTemplates.staffAssigned(
+            event.title,
+            STAFF_ROLE_LABELS[input.role],
+            occurrenceStart ? formatWhen(occurrenceStart, event.timezone) : "every occurrence"
+        ),
+        actionUrl: "/profile?section=shifts",
+        actionText: "View Shifts",
+        metadata: { eventId: event.id, assignmentId: assignment.id },
+    });
+
+    return { ok: true, assignment };
+}
+
+/**
+ * Remove an assignment from an event's roster
+ * @returns The removed assignment, or null when it does not exist
+ */
+export async function removeStaffAssignment(eventId: string, assignmentId: string) {
+    const assignment = await prisma.eventStaffAssignment.findFirst({
+        where: { id: assignmentId, eventId },
+        select: { id: true, userId: true, role: true, occurrenceStart: true },
+    });
+    if (!assignment) return null;
+
+    await prisma.eventStaffAssignment.delete({ where: { id: assignment.id } });
+    return assignment;
+}
+
+/**
+ * Accept or decline an assignment as the assignee. Declines are reported
+ * to whoever made the assignment.
+ */
+export async function respondToAssignment(
+    userId: string,
+    assignmentId: string,
+    status: Exclude<StaffAssignmentStatus, "Pending">
+): Promise<boolean> {
+    const assignment = await prisma.eventStaffAssignment.findFirst({
+        where: { id: assignmentId, userId },
+        select: {
+            id: true,
+            role: true,
+            assignedById: true,
+            user: { select: { name: true, minecraftName: true } },
+            event: { select: { title: true, id: true } },
+        },
+    });
+    if (!assignment) return false;
+
+    await prisma.eventStaffAssignment.update({
+        where: { id: assignment.id },
+        data: { status, respondedAt: new Date() },
+    });
+
+    if (status === "Declined" && assignment.assignedById && assignment.assignedById !== userId) {
+        await notify(assignment.assignedById, {
+            ...NotificationTemplates.staffDeclined(
+                assignment.user.name || assignment.user.minecraftName || "A staff member",
+                assignment.event.title,
+                STAFF_ROLE_LABELS[assignment.role]
+            ),
+            actionUrl: "/admin/events",
+            actionText: "Open Events",
+            metadata: { eventId: assignment.event.id, assignmentId: assignment.id },
+        });
+    }
+
+    return true;
+}
+
+/**
+ * Upcoming shifts of a staff member: one entry per occurrence they work,
+ * soonest first. Declined assignments are included so they can change
+ * their answer.
+ */
+export async function listUpcomingShifts(userId: string, now = new Date()) {
+    const assignments = await prisma.eventStaffAssignment.findMany({
+        where: { userId, event: { status: { not: "Archived" } } },
+        select: {
+            id: true,
+            role: true,
+            occurrenceStart: true,
+            status: true,
+            note: true,
+            event: { select: CONFLICT_EVENT_SELECT },
+        },
+    });
+
+    const until = new Date(now.getTime() + SHIFTS_WINDOW_DAYS * DAY_MS);
+    const shifts = assignments.flatMap((assignment) => {
+        const occurrences = expandEventOccurrences(assignment.event, now, until, 500)
+            .filter((o) => !assignment.occurrenceStart || o.occurrenceStart.getTime() === assignment.occurrenceStart.getTime())
+            .slice(0, MAX_SHIFTS_PER_ASSIGNMENT);
+
+        return occurrences.map((o) => ({
+            assignmentId: assignment.id,
+            role: assignment.role,
+            status: assignment.status,
+            note: assignment.note,
+            allOccurrences: !assignment.occurrenceStart,
+            eventId: assignment.event.id,
+            title: o.title,
+            world: o.world,
+            timezone: o.timezone,
+            start: o.start,
+            end: o.end,
+            occurrenceStart: o.occurrenceStart,
+        }));
+    });
+
+    return shifts.sort((a, b) => a.start.getTime() - b.start.getTime()).slice(0, MAX_SHIFTS);
+}
+
+/**
+ * Tell the staff of an event (everyone who has not declined) that it
+ * changed. With `occurrenceStart`, only staff of that occurrence and of
+ * the whole series are told.
+ */
+export async function notifyStaffOfEventChange(
+    eventId: string,
+    change: string,
+    occurrenceStart?: Date
+): Promise<number> {
+    const assignments = await prisma.eventStaffAssignment.findMany({
+        where: {
+            eventId,
+            status: { not: "Declined" },
+            ...(occurrenceStart && { OR: [{ occurrenceStart: null }, { occurrenceStart }] }),
+        },
+        select: { userId: true, event: { select: { title: true } } },
+    });
+
+    const userIds = [...new Set(assignments.map((a) => a.userId))];
+    const title = assignments[0]?.event.title ?? "";
+    for (const userId of userIds) {
+        await notify(userId, {
+            ...NotificationTemplates.staffEventChanged(title, change),
+            actionUrl: "/profile?section=shifts",
+            actionText: "View Shifts",
+            metadata: { eventId, ...(occurrenceStart && { occurrenceStart: occurrenceStart.toISOString() }) },
+        });
+    }
+    return userIds.length;
+}
@@ -1,10 +1,101 @@
 /**
  * Guest Favorites - localStorage utility
  * Allows guests to favorite events without authentication
+ *
+ * Signed-in users keep favorites on their account (/api/events/favorites).
+ * The first syncFavoritesWithAccount after signing in merges the guest list
+ * into it; later ones replace the local list with the account's. Changes are
+ * mirrored to the account, so localStorage stays the source for rendering.
+ * Signing out (or the session ending) clears the local copy.
  */
 
 const FAVORITES_KEY = "imaginears_favorite_events";
-const MAX_FAVORITES = 50; // Prevent abuse
+// Set while the local list is a copy of an account's rather than a guest list
+const ACCOUNT_LIST_KEY = "imaginears_favorites_account";
+export const MAX_FAVORITES = 50; // Prevent abuse
+
+/** Reminder lead times offered for favorited events (minutes before the start) */
+export const REMINDER_LEAD_MINUTES = [15, 30, 60, 180, 1440] as const;
+
+// Set once the account accepted a merge; changes are then mirrored to it
+let accountSync = false;
+let syncPromise: Promise<boolean> | null = null;
+
+function writeFavorites(favorites: string[]) {
+    window.localStorage.setItem(FAVORITES_KEY, JSON.stringify(favorites.slice(0, MAX_FAVORITES)));
+}
+
+/** Mirror a change to the account (fire-and-forget; local state already changed) */
+function pushToAccount(eventId: string, action: "add" | "remove") {
+    if (!accountSync) return;
+
+    const request = action === "add"
+        ? fetch("/api/events/favorites", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ eventId }),
+        })
+        : fetch(`/api/events/favorites/${encodeURIComponent(eventId)}`, { method: "DELETE" });
+
+    request.catch((error) => console.error("[Favorites] Error syncing favorite:", error));
+}
+
+/** The account list, merging the guest list into it first when it is one */
+async function fetchAccountFavorites(isAccountList: boolean): Promise<Response> {
+    if (isAccountList) {
+        return fetch("/api/events/favorites", { credentials: "include" });
+    }
+    return fetch("/api/events/favorites/merge", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ eventIds: getFavorites() }),
+    });
+}
+
+/**
+ * Adopt the signed-in account's favorites, merging the guest list into them
+ * on the first sync after signing in (once per page load after it succeeds).
+ * Resolves false for guests.
+ */
+export function syncFavoritesWithAccount(): Promise<boolean> {
+    if (typeof window === "undefined") return Promise.resolve(false);
+
+    syncPromise ??= (async () => {
+        try {
+            const isAccountList = window.localStorage.getItem(ACCOUNT_LIST_KEY) !== null;
+            const res = await fetchAccountFavorites(isAccountList);
+            if (!res.ok) {
+                // The session ended without signing out here
+                if (res.status === 401 && isAccountList) clearAccountFavorites();
+                return false;
+            }
+
+            const data = await res.json();
+            const eventIds: unknown = isAccountList
+                ? Array.isArray(data.favorites) && data.favorites.map((f: { eventId: string }) => f.eventId)
+                : data.eventIds;
+            if (!Array.isArray(eventIds)) return false;
+
+            writeFavorites(eventIds);
+            window.localStorage.setItem(ACCOUNT_LIST_KEY, "1");
+            accountSync = true;
+            window.dispatchEvent(new CustomEvent("favoritesChanged", {
+                detail: { action: "sync" }
+            }));
+            return true;
+        } catch (error) {
+            console.error("[Favorites] Error syncing favorites:", error);
+            return false;
+        }
+    })().then((synced) => {
+        // Guests may sign in later in this page load
+        if (!synced) syncPromise = null;
+        return synced;
+    });
+
+    return syncPromise;
+}
 
 /**
  * Get all favorite event IDs
@@ -57,7 +148,8 @@ export function addFavorite(eventId: string): boolean {
         
         // Add to favorites
         const updated = [...favorites, eventId];
-        localStorage.setItem(FAVORITES_KEY, JSON.stringify(updated));
+        writeFavorites(updated);
+        pushToAccount(eventId, "add");
         
         // Dispatch custom event for other components to listen
         window.dispatchEvent(new CustomEvent("favoritesChanged", { 
@@ -81,7 +173,8 @@ export function removeFavorite(eventId: string): boolean {
         const favorites = getFavorites();
         const updated = favorites.filter(id => id !== eventId);
         
-        localStorage.setItem(FAVORITES_KEY, JSON.stringify(updated));
+        writeFavorites(updated);
+        pushToAccount(eventId, "remove");
         
         // Dispatch custom event
         window.dispatchEvent(new CustomEvent("favoritesChanged", { 
@@ -115,6 +208,23 @@ export function getFavoriteCount(): number {
     return getFavorites().length;
 }
 
+/**
+ * Forget the account's favorites on this device when signing out, so the
+ * next visitor starts with an empty guest list
+ */
+export function clearAccountFavorites(): void {
+    if (typeof window === "undefined") return;
+
+    accountSync = false;
+    syncPromise = null;
+    try {
+        window.localStorage.removeItem(ACCOUNT_LIST_KEY);
+    } catch (error) {
+        console.error("[Favorites] Error clearing favorites:", error);
+    }
+    clearFavorites();
+}
+
 /**
  * Clear all favorites
  */
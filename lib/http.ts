@@ -1,6 +1,9 @@
 // Reusable, hardened HTTP helpers for JSON endpoints.
 // Safe defaults: timeouts, limited retries for GET, strict JSON parsing, and detailed errors.
 
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+
 const DEFAULT_TIMEOUT_MS = 10000; // 10s
 const MAX_ERROR_BODY_PREVIEW = 2000; // chars
 const GET_RETRY_ATTEMPTS = 2; // total attempts = 1 + retries
@@ -75,6 +78,54 @@ function isValidHttpUrl(urlString: string): boolean {
   }
 }
 
+// Addresses a user-supplied URL may never reach: loopback, private, link-local,
+// unique-local and other non-public ranges (IPv4-mapped IPv6 is matched as IPv4)
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8], // Private class A
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local
+  ["172.16.0.0", 12], // Private class B
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.168.0.0", 16], // Private class C
+  ["198.18.0.0", 15], // Benchmarking
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved and broadcast
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], // Unspecified
+  ["::1", 128], // Loopback
+  ["64:ff9b::", 96], // NAT64
+  ["fc00::", 7], // Unique-local
+  ["fe80::", 10], // Link-local
+  ["ff00::", 8], // Multicast
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+// Security: resolve the host and refuse it if any address is not public, in every environment
+async function assertPublicHost(urlString: string): Promise<void> {
+  const hostname = new URL(urlString).hostname.replace(/^\[|\]$/g, "");
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = isIP(hostname)
+      ? [{ address: hostname, family: isIP(hostname) }]
+      : await lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    throw new Error(`Could not resolve host: ${hostname}`);
+  }
+  if (
+    addresses.length === 0 ||
+    addresses.some(({ address, family }) => NON_PUBLIC_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4"))
+  ) {
+    throw new Error(`Invalid or unsafe URL: ${urlString}`);
+  }
+}
+
 function isJsonContentType(res: Response): boolean {
   const ct = res.headers.get("content-type")?.toLowerCase() ?? "";
   return ct.includes("application/json") || ct.includes("+json");
@@ -90,6 +141,28 @@ async function readErrorPreview(res: Response): Promise<string | undefined> {
   }
 }
 
+// Body as UTF-8 text, or null once it passes maxBytes (the rest is never downloaded)
+async function readTextWithLimit(res: Response, maxBytes: number): Promise<string | null> {
+  if (!res.body) return "";
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      return null;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+
+  return text + decoder.decode();
+}
+
 function sleep(ms: number) {
   return new Promise((r) => setTimeout(r, ms));
 }
@@ -256,3 +329,47 @@ export async function del(url: string, options?: { timeoutMs?: number }) {
   }
   return true;
 }
+
+// Plain-text GET (e.g. .ics files). Every hop, redirects included, must resolve to public addresses only.
+export async function getText(url: string, options?: { timeoutMs?: number; maxBytes?: number }): Promise<string> {
+  const maxBytes = options?.maxBytes ?? MAX_RESPONSE_SIZE;
+  let current = url;
+
+  for (let hop = 0; hop <= 3; hop++) {
+    // Security: validate URL to prevent SSRF attacks
+    if (!isValidHttpUrl(current)) {
+      throw new Error(`Invalid or unsafe URL: ${current}`);
+    }
+    await assertPublicHost(current);
+
+    const res = await fetchWithTimeout(current, {
+      method: "GET",
+      redirect: "manual",
+      cache: "no-store",
+      ...(options?.timeoutMs !== undefined ? { timeoutMs: options.timeoutMs } : {}),
+    });
+
+    const location = res.headers.get("location");
+    if (res.status >= 300 && res.status < 400 && location) {
+      current = new URL(location, current).toString();
+      continue;
+    }
+    if (!res.ok) {
+      const preview = await readErrorPreview(res);
+      throw new HttpError({ method: "GET", url: current, status: res.status, statusText: res.statusText, ...(preview !== undefined ? { bodyText: preview } : {}) });
+    }
+
+    // Security: reject very large payloads, with or without content-length
+    const lenHeader = res.headers.get("content-length");
+    if (lenHeader && Number(lenHeader) > maxBytes) {
+      throw new HttpError({ method: "GET", url: current, status: 413, statusText: "Payload Too Large" });
+    }
+    const text = await readTextWithLimit(res, maxBytes);
+    if (text === null) {
+      throw new HttpError({ method: "GET", url: current, status: 413, statusText: "Payload Too Large" });
+    }
+    return text;
+  }
+
+  throw new Error(`Too many redirects: ${url}`);
+}
@@ -0,0 +1,640 @@
+/**
+ * ICS Import - parse iCalendar files into draft events
+ *
+ * Used by /api/admin/events/import. Whatever the recurrence model cannot hold
+ * is reported as a warning on the event instead of failing the whole file:
+ * - RRULE FREQ=DAILY/WEEKLY/MONTHLY with INTERVAL, COUNT, UNTIL, BYDAY (also
+ *   "2TU" / BYSETPOS for the nth weekday), BYMONTHDAY and BYHOUR/BYMINUTE
+ *   showtimes; YEARLY on a fixed date becomes MONTHLY every 12 months
+ * - DTEND sets the length of each occurrence (kept in the showtimes as
+ *   "HH:mm-HH:mm"); the series runs until UNTIL, the last COUNT occurrence or,
+ *   without either, OPEN_SERIES_DAYS ahead
+ * - EXDATEs become whole-day or showtime exclusions in the event timezone
+ * - RECURRENCE-ID instances become occurrence overrides, cancelled ones EXDATEs
+ * - TZID must be an IANA name (or a common Windows one); floating and UTC
+ *   times use the calendar timezone (X-WR-TIMEZONE) or the default
+ *
+ * lib/calendar-feed.ts is the matching exporter.
+ */
+
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import type { EventCategory, RecurrenceFreq, Weekday } from '@prisma/client';
+import {
+    expandEventOccurrences,
+    isValidTimezone,
+    MAX_EXDATES,
+    MAX_OVERRIDE_SHIFT_DAYS,
+    MAX_RECURRENCE_COUNT,
+    MAX_RECURRENCE_INTERVAL,
+    parseShowtime,
+    type OccurrenceOverride,
+    type RecurringEvent,
+} from './recurrence';
+
+export type IcsEventDraft = {
+    uid: string;
+    title: string;
+    world: string;
+    category: EventCategory;
+    shortDescription: string | null;
+    details: string | null;
+    startAt: Date;
+    endAt: Date;
+    timezone: string;
+    recurrenceFreq: RecurrenceFreq;
+    byWeekday: Weekday[] | null;
+    times: string[] | null;
+    recurrenceUntil: Date | null;
+    recurrenceInterval: number;
+    recurrenceCount: number | null;
+    byWeekdayPos: number | null;
+    byMonthDay: number[] | null;
+    exDates: string[] | null;
+    overrides: OccurrenceOverride[];
+    /** What could not be imported as-is */
+    warnings: string[];
+};
+
+export type ParsedCalendar = {
+    name: string | null;
+    events: IcsEventDraft[];
+    /** File-level problems (skipped events, limits) */
+    warnings: string[];
+};
+
+export type IcsImportOptions = {
+    /** Timezone of floating and UTC times when the calendar names none */
+    defaultTimezone: string;
+    /** World of events without a LOCATION */
+    defaultWorld: string;
+};
+
+export const MAX_IMPORT_EVENTS = 200;
+
+const MAX_UID_LENGTH = 255;
+const MAX_SHORT_DESCRIPTION_LENGTH = 300;
+const MAX_SHOWTIMES = 10;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// A series without UNTIL or COUNT is imported this far ahead
+const OPEN_SERIES_DAYS = 10 * 366;
+
+const WEEKDAYS: readonly Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})$/;
+const DATE_TIME_PATTERN = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/;
+const BYDAY_PATTERN = /^([+-]?\d{0,2})(SU|MO|TU|WE|TH|FR|SA)$/;
+
+// Outlook and Exchange export Windows zone names as TZID
+const WINDOWS_TIMEZONES: Record<string, string> = {
+    'Eastern Standard Time': 'America/New_York',
+    'Central Standard Time': 'America/Chicago',
+    'Mountain Standard Time': 'America/Denver',
+    'Pacific Standard Time': 'America/Los_Angeles',
+    'GMT Standard Time': 'Europe/London',
+    'W. Europe Standard Time': 'Europe/Berlin',
+    'Romance Standard Time': 'Europe/Paris',
+    'AUS Eastern Standard Time': 'Australia/Sydney',
+    UTC: 'UTC',
+};
+
+const CATEGORY_KEYWORDS: ReadonlyArray<[RegExp, EventCategory]> = [
+    [/firework/i, 'Fireworks'],
+    [/parade/i, 'Parade'],
+    [/meet/i, 'MeetAndGreet'],
+    [/season/i, 'SeasonalOverlay'],
+];
+
+// RRULE parts the recurrence model reads (others are reported as ignored)
+const SUPPORTED_RRULE_PARTS = new Set([
+    'FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYSETPOS', 'BYHOUR', 'BYMINUTE', 'WKST',
+]);
+
+type ContentLine = { name: string; params: Record<string, string>; value: string };
+
+type Component = { name: string; lines: ContentLine[]; children: Component[] };
+
+type IcsDate = { date: Date; allDay: boolean };
+
+/** Split on `separator` outside double-quoted parameter values */
+function splitUnquoted(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (const ch of text) {
+        if (ch === '"') quoted = !quoted;
+        if (ch === separator && !quoted) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    parts.push(current);
+    return parts;
+}
+
+/** NAME;PARAM=VALUE:value */
+function parseContentLine(line: string): ContentLine | null {
+    let quoted = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') quoted = !quoted;
+        else if (line[i] === ':' && !quoted) {
+            colon = i;
+            break;
+        }
+    }
+    if (colon <= 0) return null;
+
+    const [name = '', ...rawParams] = splitUnquoted(line.slice(0, colon), ';');
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+        const eq = param.indexOf('=');
+        if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/"/g, '');
+    }
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/** Unfold continuation lines and nest BEGIN/END blocks */
+function parseComponents(text: string): Component[] {
+    const root: Component = { name: 'ROOT', lines: [], children: [] };
+    const stack: Component[] = [root];
+
+    for (const raw of text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)) {
+        const line = parseContentLine(raw);
+        if (!line) continue;
+        const current = stack[stack.length - 1]!;
+
+        if (line.name === 'BEGIN') {
+            const child: Component = { name: line.value.trim().toUpperCase(), lines: [], children: [] };
+            current.children.push(child);
+            stack.push(child);
+        } else if (line.name === 'END') {
+            if (stack.length > 1) stack.pop();
+        } else {
+            current.lines.push(line);
+        }
+    }
+    return root.children;
+}
+
+function unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+function prop(component: Component, name: string): ContentLine | undefined {
+    return component.lines.find((line) => line.name === name);
+}
+
+function textProp(component: Component, name: string): string | null {
+    const line = prop(component, name);
+    return line ? unescapeText(line.value).trim() || null : null;
+}
+
+function resolveTimezone(tzid: string | undefined): string | null {
+    if (!tzid) return null;
+    const name = WINDOWS_TIMEZONES[tzid] ?? tzid;
+    return isValidTimezone(name) ? name : null;
+}
+
+/** DATE or DATE-TIME value; local and floating times are read in TZID or `tz` */
+function parseIcsDate(value: string, params: Record<string, string>, tz: string): IcsDate | null {
+    const v = value.trim();
+
+    const day = DATE_PATTERN.exec(v);
+    if (day) {
+        return { date: fromZonedTime(`${day[1]}-${day[2]}-${day[3]}T00:00:00`, tz), allDay: true };
+    }
+
+    const m = DATE_TIME_PATTERN.exec(v);
+    if (!m) return null;
+    const local = `${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}`;
+    const date = m[7] ? new Date(`${local}Z`) : fromZonedTime(local, resolveTimezone(params['TZID']) ?? tz);
+    return isNaN(date.getTime()) ? null : { date, allDay: false };
+}
+
+/** RFC 5545 DURATION (e.g. PT1H30M, P1D, P2W) in milliseconds */
+function parseDuration(value: string): number | null {
+    const v = value.trim().toUpperCase();
+    if (!/^[+-]?P[0-9WDTHMS]+$/.test(v) || v.startsWith('-')) return null;
+
+    const units: Record<string, number> = { W: 7 * DAY_MS, D: DAY_MS, H: HOUR_MS, M: 60 * 1000, S: 1000 };
+    let ms = 0;
+    for (const [, amount, unit] of v.matchAll(/(\d+)([WDHMS])/g)) {
+        ms += Number(amount) * units[unit!]!;
+    }
+    return ms > 0 ? ms : null;
+}
+
+function parseCategory(component: Component): EventCategory {
+    const categories = component.lines
+        .filter((line) => line.name === 'CATEGORIES')
+        .map((line) => unescapeText(line.value))
+        .join(',');
+    return CATEGORY_KEYWORDS.find(([pattern]) => pattern.test(categories))?.[1] ?? 'Other';
+}
+
+/** First line of DESCRIPTION as the short description; the rest only when there is more */
+function splitDescription(description: string | null) {
+    if (!description) return { shortDescription: null, details: null };
+    const firstLine = description.split('\n').find((line) => line.trim())?.trim() ?? '';
+    const shortDescription =
+        firstLine.length > MAX_SHORT_DESCRIPTION_LENGTH
+            ? `${firstLine.slice(0, MAX_SHORT_DESCRIPTION_LENGTH - 1)}…`
+            : firstLine;
+    return {
+        shortDescription: shortDescription || null,
+        details: description.trim() !== firstLine ? description : null,
+    };
+}
+
+function localDateKey(date: Date, tz: string, allDay: boolean): string {
+    return formatInTimeZone(date, tz, allDay ? 'yyyy-MM-dd' : "yyyy-MM-dd'T'HH:mm");
+}
+
+function localWeekday(date: Date, tz: string): Weekday {
+    return WEEKDAYS[Number(formatInTimeZone(date, tz, 'i')) % 7]!;
+}
+
+function parseIntList(value: string | undefined): number[] {
+    if (!value) return [];
+    return value.split(',').map((n) => Number(n.trim())).filter((n) => Number.isInteger(n));
+}
+
+type RuleFields = Pick<
+    IcsEventDraft,
+    | 'recurrenceFreq' | 'byWeekday' | 'times' | 'recurrenceUntil' | 'recurrenceInterval'
+    | 'recurrenceCount' | 'byWeekdayPos' | 'byMonthDay'
+>;
+
+const SINGLE_EVENT: RuleFields = {
+    recurrenceFreq: 'NONE',
+    byWeekday: null,
+    times: null,
+    recurrenceUntil: null,
+    recurrenceInterval: 1,
+    recurrenceCount: null,
+    byWeekdayPos: null,
+    byMonthDay: null,
+};
+
+/**
+ * Map an RRULE onto the recurrence fields, or a single event when the rule
+ * has no equivalent (the first occurrence is still imported)
+ */
+// eslint-disable-next-line complexity
+function parseRecurrenceRule(value: string, start: IcsDate, tz: string, warnings: string[]): RuleFields {
+    const parts: Record<string, string> = {};
+    for (const part of value.split(';')) {
+        const eq = part.indexOf('=');
+        if (eq > 0) parts[part.slice(0, eq).trim().toUpperCase()] = part.slice(eq + 1).trim().toUpperCase();
+    }
+
+    const unsupported = (reason: string): RuleFields => {
+        warnings.push(`${reason}; only the first occurrence was imported`);
+        return SINGLE_EVENT;
+    };
+
+    const yearly = parts['FREQ'] === 'YEARLY';
+    let freq = parts['FREQ'];
+    let interval = Math.max(1, Number(parts['INTERVAL'] ?? 1) || 1);
+    const byDay = (parts['BYDAY'] ?? '').split(',').filter(Boolean).map((d) => BYDAY_PATTERN.exec(d));
+    if (byDay.some((d) => !d)) return unsupported(`Unreadable BYDAY "${parts['BYDAY']}"`);
+    const weekdays = [...new Set(byDay.map((d) => d![2] as Weekday))];
+    const ordinals = [...new Set(byDay.map((d) => Number(d![1] || NaN)).filter(Number.isInteger))];
+    const monthDays = parseIntList(parts['BYMONTHDAY']).filter((d) => d !== 0 && d >= -31 && d <= 31);
+
+    // BYMONTH is the month of DTSTART for the yearly rules that are imported
+    const ignored = Object.keys(parts).filter((key) => !SUPPORTED_RRULE_PARTS.has(key) && !(yearly && key === 'BYMONTH'));
+
+    // A yearly date is every 12 months on the same day
+    if (yearly) {
+        const sameMonth = !parts['BYMONTH'] || Number(parts['BYMONTH']) === Number(formatInTimeZone(start.date, tz, 'M'));
+        if (!sameMonth || weekdays.length || monthDays.length || parts['BYYEARDAY'] || parts['BYWEEKNO']) {
+            return unsupported('Yearly rules are only imported on a fixed date');
+        }
+        freq = 'MONTHLY';
+        interval *= 12;
+    }
+
+    if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+        return unsupported(`FREQ=${freq ?? '?'} is not supported`);
+    }
+    if (interval > MAX_RECURRENCE_INTERVAL) {
+        return unsupported(`An interval of ${interval} is above the maximum of ${MAX_RECURRENCE_INTERVAL}`);
+    }
+    if (ignored.length) warnings.push(`Ignored RRULE part(s): ${ignored.join(', ')}`);
+
+    const rule: RuleFields = { ...SINGLE_EVENT, recurrenceFreq: freq, recurrenceInterval: interval };
+
+    if (freq === 'DAILY' && weekdays.length) {
+        // Every day on some weekdays is a weekly rule
+        if (interval !== 1) return unsupported('Daily rules with an interval cannot be limited to weekdays');
+        rule.recurrenceFreq = 'WEEKLY';
+        rule.byWeekday = weekdays;
+    } else if (freq === 'WEEKLY') {
+        rule.byWeekday = weekdays.length ? weekdays : [localWeekday(start.date, tz)];
+        if (interval > 1 && parts['WKST'] && parts['WKST'] !== 'MO') {
+            warnings.push('Weeks are counted from Monday, not from WKST');
+        }
+    } else if (freq === 'MONTHLY' && weekdays.length) {
+        const setPos = parseIntList(parts['BYSETPOS']);
+        const pos = ordinals[0] ?? (setPos.length === 1 ? setPos[0] : undefined);
+        if (pos === undefined) {
+            // Every given weekday of every month is a weekly rule
+            if (interval !== 1) return unsupported('Monthly rules on every weekday need an nth weekday');
+            rule.recurrenceFreq = 'WEEKLY';
+            rule.byWeekday = weekdays;
+        } else {
+            if (pos !== -1 && (pos < 1 || pos > 4)) return unsupported(`The ${pos}th weekday of the month is not supported`);
+            if (ordinals.length > 1) warnings.push(`Several nth weekdays; only the ${pos}th was imported`);
+            rule.byWeekday = weekdays;
+            rule.byWeekdayPos = pos;
+        }
+    } else if (freq === 'MONTHLY' && monthDays.length) {
+        rule.byMonthDay = [...new Set(monthDays)];
+    }
+
+    // BYHOUR/BYMINUTE are several showtimes a day
+    const hours = parseIntList(parts['BYHOUR']).filter((h) => h >= 0 && h <= 23);
+    const minutes = parseIntList(parts['BYMINUTE']).filter((m) => m >= 0 && m <= 59);
+    if (hours.length || minutes.length) {
+        const baseHour = Number(formatInTimeZone(start.date, tz, 'H'));
+        const baseMinute = Number(formatInTimeZone(start.date, tz, 'm'));
+        const pad = (n: number) => String(n).padStart(2, '0');
+        const times = (hours.length ? hours : [baseHour])
+            .flatMap((h) => (minutes.length ? minutes : [baseMinute]).map((m) => `${pad(h)}:${pad(m)}`))
+            .sort();
+        if (times.length > MAX_SHOWTIMES) warnings.push(`Only the first ${MAX_SHOWTIMES} showtimes were imported`);
+        rule.times = [...new Set(times)].slice(0, MAX_SHOWTIMES);
+    }
+
+    if (parts['COUNT']) {
+        const count = Math.max(1, Number(parts['COUNT']) || 1);
+        if (count > MAX_RECURRENCE_COUNT) warnings.push(`COUNT was lowered to ${MAX_RECURRENCE_COUNT}`);
+        rule.recurrenceCount = Math.min(count, MAX_RECURRENCE_COUNT);
+    }
+
+    if (parts['UNTIL']) {
+        const until = parseIcsDate(parts['UNTIL'], {}, tz);
+        if (until) {
+            // A date UNTIL includes the whole day
+            rule.recurrenceUntil = until.allDay ? new Date(until.date.getTime() + DAY_MS - 1000) : until.date;
+        } else {
+            warnings.push(`Unreadable UNTIL "${parts['UNTIL']}" was ignored`);
+        }
+    }
+
+    return rule;
+}
+
+/** EXDATE lines (comma lists, any form) as exDatesJson entries */
+function parseExDates(component: Component, tz: string): string[] {
+    const keys: string[] = [];
+    for (const line of component.lines.filter((l) => l.name === 'EXDATE')) {
+        for (const value of line.value.split(',')) {
+            const parsed = parseIcsDate(value, line.params, tz);
+            if (parsed) keys.push(localDateKey(parsed.date, tz, parsed.allDay));
+        }
+    }
+    return keys;
+}
+
+type EventTimes = { start: IcsDate; end: Date };
+
+function parseTimes(component: Component, tz: string): EventTimes | null {
+    const dtstart = prop(component, 'DTSTART');
+    const start = dtstart && parseIcsDate(dtstart.value, dtstart.params, tz);
+    if (!start) return null;
+
+    const dtend = prop(component, 'DTEND');
+    const end = dtend && parseIcsDate(dtend.value, dtend.params, tz);
+    const duration = textProp(component, 'DURATION');
+    const durationMs = duration ? parseDuration(duration) : null;
+
+    let endDate: Date;
+    if (end && end.date > start.date) endDate = end.date;
+    else if (durationMs) endDate = new Date(start.date.getTime() + durationMs);
+    // An event without an end lasts a day when all-day, an hour otherwise
+    else endDate = new Date(start.date.getTime() + (start.allDay ? DAY_MS : HOUR_MS));
+
+    return { start, end: endDate };
+}
+
+/** A RECURRENCE-ID instance as an EXDATE (cancelled) or an occurrence override */
+function applyInstance(draft: IcsEventDraft, instance: Component, tz: string): void {
+    const recurrenceId = prop(instance, 'RECURRENCE-ID');
+    const rid = recurrenceId && parseIcsDate(recurrenceId.value, recurrenceId.params, tz);
+    if (!rid) {
+        draft.warnings.push('Skipped a changed occurrence with an unreadable RECURRENCE-ID');
+        return;
+    }
+    if (recurrenceId.params['RANGE']) {
+        draft.warnings.push(`Changes to "this and future" occurrences (${localDateKey(rid.date, tz, rid.allDay)}) apply to one occurrence only`);
+    }
+
+    const dateKey = localDateKey(rid.date, tz, rid.allDay);
+    if (textProp(instance, 'STATUS')?.toUpperCase() === 'CANCELLED') {
+        draft.exDates = [...(draft.exDates ?? []), dateKey];
+        return;
+    }
+
+    const times = parseTimes(instance, tz);
+    const durationMs = parseShowtime(draft.times?.[0] ?? '')?.durationMs ?? draft.endAt.getTime() - draft.startAt.getTime();
+    const startAt = times && times.start.date.getTime() !== rid.date.getTime() ? times.start.date : null;
+    const endAt =
+        times && times.end.getTime() !== (startAt ?? rid.date).getTime() + durationMs ? times.end : null;
+
+    const maxShiftMs = MAX_OVERRIDE_SHIFT_DAYS * DAY_MS;
+    if ([startAt, endAt].some((moved) => moved && Math.abs(moved.getTime() - rid.date.getTime()) > maxShiftMs)) {
+        draft.warnings.push(`Skipped the change to ${dateKey}: moved by more than ${MAX_OVERRIDE_SHIFT_DAYS} days`);
+        return;
+    }
+
+    const title = textProp(instance, 'SUMMARY');
+    const world = textProp(instance, 'LOCATION');
+    const { shortDescription } = splitDescription(textProp(instance, 'DESCRIPTION'));
+
+    draft.overrides.push({
+        occurrenceStart: rid.date,
+        cancelled: false,
+        startAt,
+        endAt,
+        title: title && title !== draft.title ? title : null,
+        world: world && world !== draft.world ? world : null,
+        shortDescription: shortDescription && shortDescription !== draft.shortDescription ? shortDescription : null,
+        details: null,
+    });
+}
+
+/** "HH:mm" plus a number of minutes, wrapping past midnight */
+function addMinutes(time: string, minutes: number): string {
+    const [hh = 0, mm = 0] = time.split(':').map(Number);
+    const total = (hh * 60 + mm + minutes) % 1440;
+    return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Turn a draft into a series: DTEND only gives the length of each occurrence,
+ * which goes into the showtimes ("HH:mm-HH:mm"), while endAt and
+ * recurrenceUntil end the series at UNTIL, the last COUNT occurrence or
+ * OPEN_SERIES_DAYS ahead (expandEventOccurrences stops at endAt)
+ */
+function toSeries(draft: IcsEventDraft, firstEnd: Date): void {
+    const lengthMs = firstEnd.getTime() - draft.startAt.getTime();
+    if (lengthMs > DAY_MS) draft.warnings.push('Occurrences longer than a day were shortened to 24 hours');
+    const minutes = Math.max(1, Math.round(Math.min(lengthMs, DAY_MS) / 60_000));
+
+    const starts = draft.times ?? [formatInTimeZone(draft.startAt, draft.timezone, 'HH:mm')];
+    draft.times = starts.map((time) => `${time}-${addMinutes(time, minutes)}`);
+
+    if (draft.recurrenceUntil) {
+        draft.endAt = draft.recurrenceUntil > draft.startAt ? draft.recurrenceUntil : firstEnd;
+        return;
+    }
+
+    draft.endAt = new Date(draft.startAt.getTime() + OPEN_SERIES_DAYS * DAY_MS);
+    if (draft.recurrenceCount) {
+        const occurrences = expandEventOccurrences(toRecurringEvent(draft), draft.startAt, draft.endAt, MAX_RECURRENCE_COUNT);
+        const last = occurrences[occurrences.length - 1];
+        if (last) {
+            draft.endAt = last.end;
+            draft.recurrenceUntil = last.start;
+        }
+    }
+}
+
+function toDraft(component: Component, tz: string, options: IcsImportOptions): IcsEventDraft | null {
+    const dtstart = prop(component, 'DTSTART');
+    const timezone = resolveTimezone(dtstart?.params['TZID']) ?? tz;
+    const times = parseTimes(component, timezone);
+    if (!times) return null;
+
+    const warnings: string[] = [];
+    if (dtstart?.params['TZID'] && !resolveTimezone(dtstart.params['TZID'])) {
+        warnings.push(`Unknown timezone "${dtstart.params['TZID']}"; times were read in ${timezone}`);
+    }
+    if (times.start.allDay) warnings.push('All-day event imported as midnight to midnight');
+
+    const summary = textProp(component, 'SUMMARY');
+    const title = summary ?? 'Untitled event';
+    if (!summary) warnings.push('No SUMMARY; the title needs editing');
+
+    let uid = textProp(component, 'UID');
+    if (!uid) {
+        warnings.push('No UID; duplicates are matched on the start and title instead');
+        uid = `${times.start.date.toISOString()}-${title}`;
+    }
+
+    const rrules = component.lines.filter((line) => line.name === 'RRULE');
+    if (rrules.length > 1) warnings.push('Only the first RRULE was imported');
+    if (prop(component, 'RDATE')) warnings.push('RDATE was ignored');
+    const rule = rrules[0] ? parseRecurrenceRule(rrules[0].value, times.start, timezone, warnings) : SINGLE_EVENT;
+
+    const exDates = rule.recurrenceFreq !== 'NONE' ? parseExDates(component, timezone) : [];
+
+    const draft: IcsEventDraft = {
+        uid: uid.slice(0, MAX_UID_LENGTH),
+        title,
+        world: textProp(component, 'LOCATION') ?? options.defaultWorld,
+        category: parseCategory(component),
+        ...splitDescription(textProp(component, 'DESCRIPTION')),
+        startAt: times.start.date,
+        endAt: times.end,
+        timezone,
+        ...rule,
+        exDates: exDates.length ? exDates : null,
+        overrides: [],
+        warnings,
+    };
+
+    if (rule.recurrenceFreq !== 'NONE') toSeries(draft, times.end);
+    return draft;
+}
+
+/**
+ * Parse an iCalendar file into draft events, one per series or single event
+ * (RECURRENCE-ID instances are merged into their series)
+ */
+export function parseICS(text: string, options: IcsImportOptions): ParsedCalendar {
+    const warnings: string[] = [];
+    const calendar = parseComponents(text).find((c) => c.name === 'VCALENDAR');
+    if (!calendar) {
+        return { name: null, events: [], warnings: ['No VCALENDAR found; is this an .ics file?'] };
+    }
+
+    const tz = resolveTimezone(textProp(calendar, 'X-WR-TIMEZONE') ?? undefined) ?? options.defaultTimezone;
+    const vevents = calendar.children.filter((c) => c.name === 'VEVENT');
+    const masters = vevents.filter((c) => !prop(c, 'RECURRENCE-ID'));
+    const instances = vevents.filter((c) => prop(c, 'RECURRENCE-ID'));
+
+    const events: IcsEventDraft[] = [];
+    const byUid = new Map<string, IcsEventDraft>();
+
+    for (const component of masters) {
+        const label = textProp(component, 'SUMMARY') ?? textProp(component, 'UID') ?? 'An event';
+        if (textProp(component, 'STATUS')?.toUpperCase() === 'CANCELLED') {
+            warnings.push(`Skipped "${label}": cancelled`);
+            continue;
+        }
+        if (events.length >= MAX_IMPORT_EVENTS) {
+            warnings.push(`Only the first ${MAX_IMPORT_EVENTS} events were read`);
+            break;
+        }
+
+        const draft = toDraft(component, tz, options);
+        if (!draft) {
+            warnings.push(`Skipped "${label}": missing or unreadable DTSTART`);
+            continue;
+        }
+        if (byUid.has(draft.uid)) {
+            warnings.push(`Skipped "${label}": the file has another event with the same UID`);
+            continue;
+        }
+        byUid.set(draft.uid, draft);
+        events.push(draft);
+    }
+
+    for (const instance of instances) {
+        const draft = byUid.get(textProp(instance, 'UID') ?? '');
+        if (!draft || draft.recurrenceFreq === 'NONE') {
+            const label = textProp(instance, 'SUMMARY') ?? textProp(instance, 'UID') ?? 'an event';
+            warnings.push(`Skipped a changed occurrence of "${label}": its series is not in the file`);
+            continue;
+        }
+        applyInstance(draft, instance, draft.timezone);
+    }
+
+    // EXDATEs of the series and of its cancelled instances share the limit
+    for (const draft of events) {
+        const exDates = [...new Set(draft.exDates ?? [])];
+        if (exDates.length > MAX_EXDATES) draft.warnings.push(`Only the first ${MAX_EXDATES} EXDATEs were imported`);
+        draft.exDates = exDates.length ? exDates.slice(0, MAX_EXDATES) : null;
+    }
+
+    return { name: textProp(calendar, 'X-WR-CALNAME'), events, warnings };
+}
+
+/** A draft in the shape expandEventOccurrences reads (for conflict checks) */
+export function toRecurringEvent(draft: IcsEventDraft, id = draft.uid): RecurringEvent {
+    return {
+        id,
+        title: draft.title,
+        world: draft.world,
+        category: draft.category,
+        startAt: draft.startAt,
+        endAt: draft.endAt,
+        timezone: draft.timezone,
+        recurrenceFreq: draft.recurrenceFreq,
+        byWeekdayJson: draft.byWeekday,
+        timesJson: draft.times,
+        recurrenceUntil: draft.recurrenceUntil,
+        recurrenceInterval: draft.recurrenceInterval,
+        recurrenceCount: draft.recurrenceCount,
+        byWeekdayPos: draft.byWeekdayPos,
+        byMonthDayJson: draft.byMonthDay,
+        exDatesJson: draft.exDates,
+        overrides: draft.overrides,
+    };
+}
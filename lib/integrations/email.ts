@@ -0,0 +1,439 @@
+/**
+ * SMTP Email
+ *
+ * Small SMTP client (RFC 5321) for transactional mail: applicant status
+ * emails and security alerts. One connection per message.
+ * - EHLO, then STARTTLS when the server offers it (or implicit TLS with SMTP_SECURE)
+ * - AUTH PLAIN or LOGIN when SMTP_USER is set, only over TLS unless SMTP_IGNORE_TLS
+ * - multipart/alternative text + HTML bodies, base64 encoded; RFC 2047 subjects
+ *
+ * SETUP:
+ * 1. Add SMTP_HOST, SMTP_PORT and SMTP_FROM to your .env
+ * 2. Optional: SMTP_USER, SMTP_PASS, SMTP_SECURE, SMTP_IGNORE_TLS, SMTP_TIMEOUT_MS
+ *
+ * A local test mailbox such as Mailpit (SMTP on localhost:1025) catches
+ * everything without delivering it - see docs/integrations/SMTP_SETUP.md
+ */
+
+import { connect as netConnect, isIP, type Socket } from "node:net";
+import { connect as tlsConnect } from "node:tls";
+import { randomBytes } from "node:crypto";
+import { hostname } from "node:os";
+
+const DEFAULT_SMTP_PORT = 587;
+const DEFAULT_SECURE_SMTP_PORT = 465;
+const DEFAULT_TIMEOUT_MS = 10_000; // 10 seconds per reply
+const DEFAULT_FROM = "Imaginears Club <no-reply@localhost>";
+const BASE64_LINE_LENGTH = 76;
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  replyTo?: string;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the first byte (port 465)
+  ignoreTls: boolean; // Never upgrade with STARTTLS, and allow AUTH without TLS
+  user?: string;
+  pass?: string;
+  from: string;
+  timeoutMs: number;
+}
+
+export type EmailErrorCode =
+  | "NOT_CONFIGURED"
+  | "INVALID_ADDRESS"
+  | "CONNECTION_FAILED"
+  | "TIMEOUT"
+  | "AUTH_FAILED"
+  | "TLS_REQUIRED"
+  | "REJECTED";
+
+// Error carrying a stable code (and the SMTP reply code when the server refused)
+export class EmailError extends Error {
+  readonly code: EmailErrorCode;
+  readonly smtpCode: number | null;
+
+  constructor(code: EmailErrorCode, message: string, smtpCode: number | null = null) {
+    super(message);
+    this.name = "EmailError";
+    this.code = code;
+    this.smtpCode = smtpCode;
+  }
+}
+
+/* ---------- Configuration ---------- */
+
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env["SMTP_HOST"]?.trim();
+  if (!host) return null;
+
+  const secure = process.env["SMTP_SECURE"] === "true";
+  const user = process.env["SMTP_USER"];
+
+  return {
+    host,
+    port: Number(process.env["SMTP_PORT"]) || (secure ? DEFAULT_SECURE_SMTP_PORT : DEFAULT_SMTP_PORT),
+    secure,
+    ignoreTls: process.env["SMTP_IGNORE_TLS"] === "true",
+    ...(user && { user, pass: process.env["SMTP_PASS"] ?? "" }),
+    from: process.env["SMTP_FROM"]?.trim() || DEFAULT_FROM,
+    timeoutMs: Number(process.env["SMTP_TIMEOUT_MS"]) || DEFAULT_TIMEOUT_MS,
+  };
+}
+
+export function isEmailConfigured(): boolean {
+  return getSmtpConfig() !== null;
+}
+
+/* ---------- Message encoding ---------- */
+
+/**
+ * The bare address of "Name <user@host>" or "user@host"
+ * @returns null when it is not a usable address
+ */
+export function extractAddress(value: string): string | null {
+  const match = /<([^<>]+)>\s*$/.exec(value);
+  const address = (match ? match[1]! : value).trim();
+  return /^[^\s@<>]+@[^\s@<>]+$/.test(address) ? address : null;
+}
+
+/**
+ * Header value without line breaks, as an RFC 2047 encoded word when it is
+ * not plain ASCII
+ */
+export function encodeHeader(value: string): string {
+  const clean = value.replace(/[\r\n]+/g, " ").trim();
+  // eslint-disable-next-line no-control-regex
+  if (/^[\x20-\x7e]*$/.test(clean)) return clean;
+
+  // Encoded words are limited to 75 characters: split on code points
+  const words: string[] = [];
+  let chunk = "";
+  for (const char of clean) {
+    if (Buffer.byteLength(chunk + char, "utf8") > 45) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+
+  return words.map((word) => `=?UTF-8?B?${Buffer.from(word, "utf8").toString("base64")}?=`).join("\r\n ");
+}
+
+/**
+ * Address header value; a non-ASCII display name is encoded
+ */
+function encodeAddress(value: string): string {
+  const match = /^(.*?)\s*<([^<>]+)>\s*$/.exec(value.replace(/[\r\n]+/g, " ").trim());
+  if (!match || !match[1]) return value.replace(/[\r\n]+/g, " ").trim();
+  return `${encodeHeader(match[1].replace(/^"|"$/g, ""))} <${match[2]}>`;
+}
+
+function base64Body(content: string): string {
+  const encoded = Buffer.from(content.replace(/\r?\n/g, "\r\n"), "utf8").toString("base64");
+  return encoded.match(new RegExp(`.{1,${BASE64_LINE_LENGTH}}`, "g"))?.join("\r\n") ?? "";
+}
+
+/**
+ * Full RFC 5322 message (headers and MIME body) with CRLF line endings
+ */
+export function buildMessage(
+  message: EmailMessage,
+  from: string,
+  options: { messageId: string; date?: Date }
+): string {
+  const headers = [
+    `From: ${encodeAddress(from)}`,
+    `To: ${encodeAddress(message.to)}`,
+    ...(message.replyTo ? [`Reply-To: ${encodeAddress(message.replyTo)}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${(options.date ?? new Date()).toUTCString()}`,
+    `Message-ID: ${options.messageId}`,
+    "MIME-Version: 1.0",
+  ];
+
+  const part = (type: string, content: string) => [
+    `Content-Type: ${type}; charset=utf-8`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Body(content),
+  ];
+
+  if (!message.html) {
+    return [...headers, ...part("text/plain", message.text)].join("\r\n");
+  }
+
+  const boundary = `=_${randomBytes(12).toString("hex")}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    ...part("text/plain", message.text),
+    `--${boundary}`,
+    ...part("text/html", message.html),
+    `--${boundary}--`,
+  ].join("\r\n");
+}
+
+/* ---------- Session ---------- */
+
+interface SmtpReply {
+  code: number;
+  lines: string[]; // Text after the code, one entry per reply line
+}
+
+/**
+ * Reads replies from one SMTP connection; a reply ends on its first line
+ * without a dash after the code ("250 OK" rather than "250-SIZE")
+ */
+class SmtpSession {
+  private socket: Socket;
+  private readonly timeoutMs: number;
+  private buffer = "";
+  private partial: string[] = [];
+  private readonly replies: SmtpReply[] = [];
+  // eslint-disable-next-line no-unused-vars
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: EmailError) => void } | null = null;
+  private failure: EmailError | null = null;
+
+  constructor(socket: Socket, timeoutMs: number) {
+    this.socket = socket;
+    this.timeoutMs = timeoutMs;
+    this.attach(socket);
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  /**
+   * Send a command and require one of the expected reply codes
+   * @param label - Used in errors instead of the command (keeps credentials out of logs)
+   */
+  async command(line: string, expected: number[], label = line.split(" ")[0]!): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new EmailError(
+        label === "AUTH" ? "AUTH_FAILED" : "REJECTED",
+        `SMTP ${label} refused: ${reply.code} ${reply.lines.join(" ")}`.trim(),
+        reply.code
+      );
+    }
+    return reply;
+  }
+
+  /**
+   * Upgrade the connection after "STARTTLS" was accepted
+   */
+  async startTls(host: string): Promise<void> {
+    const plain = this.socket;
+    this.detach(plain);
+
+    const secure = await new Promise<Socket>((resolve, reject) => {
+      // The reply timeout is off while detached, so the handshake gets its own
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new EmailError("TIMEOUT", `TLS negotiation with ${host} timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+      const socket = tlsConnect({ socket: plain, ...(isIP(host) === 0 && { servername: host }) }, () => {
+        clearTimeout(timer);
+        resolve(socket);
+      });
+      socket.once("error", (error) => {
+        clearTimeout(timer);
+        reject(new EmailError("CONNECTION_FAILED", `TLS negotiation with ${host} failed: ${error.message}`));
+      });
+    });
+
+    this.socket = secure;
+    this.attach(secure);
+  }
+
+  close(): void {
+    this.detach(this.socket);
+    this.socket.destroy();
+  }
+
+  private attach(socket: Socket): void {
+    socket.setTimeout(this.timeoutMs);
+    socket.on("data", this.onData);
+    socket.on("error", this.onError);
+    socket.on("close", this.onClose);
+    socket.on("timeout", this.onTimeout);
+  }
+
+  private detach(socket: Socket): void {
+    socket.setTimeout(0);
+    socket.off("data", this.onData);
+    socket.off("error", this.onError);
+    socket.off("close", this.onClose);
+    socket.off("timeout", this.onTimeout);
+  }
+
+  private readonly onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString("utf8");
+
+    let index: number;
+    while ((index = this.buffer.indexOf("\n")) !== -1) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(index + 1);
+      this.partial.push(line.slice(4));
+
+      if (line.charAt(3) !== "-") {
+        this.replies.push({ code: Number(line.slice(0, 3)) || 0, lines: this.partial });
+        this.partial = [];
+      }
+    }
+
+    while (this.waiting && this.replies.length > 0) {
+      const waiting = this.waiting;
+      this.waiting = null;
+      waiting.resolve(this.replies.shift()!);
+    }
+  };
+
+  private readonly onError = (error: Error) => this.fail(new EmailError("CONNECTION_FAILED", `SMTP connection failed: ${error.message}`));
+
+  private readonly onClose = () => this.fail(new EmailError("CONNECTION_FAILED", "SMTP server closed the connection"));
+
+  private readonly onTimeout = () =>
+    this.fail(new EmailError("TIMEOUT", `No reply from the SMTP server within ${this.timeoutMs}ms`));
+
+  private fail(error: EmailError): void {
+    if (this.failure) return;
+    this.failure = error;
+    this.waiting?.reject(error);
+    this.waiting = null;
+    this.socket.destroy();
+  }
+}
+
+function openSocket(config: SmtpConfig): Promise<Socket> {
+  const { host, port, secure, timeoutMs } = config;
+
+  return new Promise<Socket>((resolve, reject) => {
+    const socket: Socket = secure
+      ? tlsConnect({ host, port, ...(isIP(host) === 0 && { servername: host }) })
+      : netConnect({ host, port });
+
+    const fail = (error: EmailError) => {
+      socket.destroy();
+      reject(error);
+    };
+
+    socket.setTimeout(timeoutMs, () => fail(new EmailError("TIMEOUT", `SMTP connection to ${host}:${port} timed out`)));
+    socket.once("error", (error) =>
+      fail(new EmailError("CONNECTION_FAILED", `SMTP connection to ${host}:${port} failed: ${error.message}`))
+    );
+    socket.once(secure ? "secureConnect" : "connect", () => {
+      socket.removeAllListeners("error");
+      socket.removeAllListeners("timeout");
+      socket.setTimeout(0);
+      resolve(socket);
+    });
+  });
+}
+
+function hasExtension(ehlo: SmtpReply, name: string): string[] | null {
+  for (const line of ehlo.lines) {
+    const [keyword, ...params] = line.trim().split(/\s+/);
+    if (keyword?.toUpperCase() === name) return params.map((p) => p.toUpperCase());
+  }
+  return null;
+}
+
+async function authenticate(session: SmtpSession, ehlo: SmtpReply, user: string, pass: string): Promise<void> {
+  const mechanisms = hasExtension(ehlo, "AUTH") ?? [];
+  const b64 = (value: string) => Buffer.from(value, "utf8").toString("base64");
+
+  if (mechanisms.includes("PLAIN")) {
+    await session.command(`AUTH PLAIN ${b64(`\0${user}\0${pass}`)}`, [235], "AUTH");
+    return;
+  }
+  if (mechanisms.includes("LOGIN")) {
+    await session.command("AUTH LOGIN", [334], "AUTH");
+    await session.command(b64(user), [334], "AUTH");
+    await session.command(b64(pass), [235], "AUTH");
+    return;
+  }
+  throw new EmailError("AUTH_FAILED", "SMTP server offers neither AUTH PLAIN nor AUTH LOGIN");
+}
+
+/* ---------- Sending ---------- */
+
+/**
+ * Send one email
+ * @returns The Message-ID it was sent with
+ * @throws EmailError - NOT_CONFIGURED when SMTP_HOST is not set
+ */
+export async function sendEmail(message: EmailMessage, config: SmtpConfig | null = getSmtpConfig()): Promise<{ messageId: string }> {
+  if (!config) {
+    throw new EmailError("NOT_CONFIGURED", "SMTP is not configured (set SMTP_HOST)");
+  }
+
+  const from = extractAddress(config.from);
+  const to = extractAddress(message.to);
+  if (!from) throw new EmailError("INVALID_ADDRESS", `Invalid SMTP_FROM address: ${config.from}`);
+  if (!to) throw new EmailError("INVALID_ADDRESS", `Invalid recipient address: ${message.to}`);
+
+  const messageId = `<${randomBytes(16).toString("hex")}@${from.split("@")[1]}>`;
+  const data = buildMessage(message, config.from, { messageId })
+    .replace(/^\./gm, ".."); // Dot-stuffing: a lone "." ends DATA
+
+  const clientName = hostname().replace(/[^a-zA-Z0-9.-]/g, "") || "localhost";
+  const session = new SmtpSession(await openSocket(config), config.timeoutMs);
+
+  try {
+    const greeting = await session.read();
+    if (greeting.code !== 220) {
+      throw new EmailError("REJECTED", `SMTP server refused the connection: ${greeting.code} ${greeting.lines.join(" ")}`, greeting.code);
+    }
+
+    let ehlo = await session.command(`EHLO ${clientName}`, [250]);
+    let encrypted = config.secure;
+    if (!config.secure && !config.ignoreTls && hasExtension(ehlo, "STARTTLS")) {
+      await session.command("STARTTLS", [220]);
+      await session.startTls(config.host);
+      encrypted = true;
+      ehlo = await session.command(`EHLO ${clientName}`, [250]);
+    }
+
+    if (config.user) {
+      // A missing STARTTLS offer may have been stripped in transit; never send the password in the clear
+      if (!encrypted && !config.ignoreTls) {
+        throw new EmailError(
+          "TLS_REQUIRED",
+          `SMTP server ${config.host} does not offer STARTTLS; refusing to send credentials unencrypted (set SMTP_SECURE, or SMTP_IGNORE_TLS for a local server)`
+        );
+      }
+      await authenticate(session, ehlo, config.user, config.pass ?? "");
+      await authenticate(session, ehlo, config.user, config.pass ?? "");
+    }
+
+    await session.command(`MAIL FROM:<${from}>`, [250]);
+    await session.command(`RCPT TO:<${to}>`, [250, 251]);
+    await session.command("DATA", [354]);
+    await session.command(`${data}\r\n.`, [250], "DATA");
+
+    // The message is accepted; a failed QUIT changes nothing
+    await session.command("QUIT", [221]).catch(() => undefined);
+
+    return { messageId };
+  } finally {
+    session.close();
+  }
+}
@@ -161,13 +161,31 @@ export async function getPlayerPermissions(username: string): Promise<{
   }
 }
 
+// Web roles → LuckPerms groups
+const ROLE_GROUPS: Record<string, string> = {
+  "OWNER": "owner",
+  "ADMIN": "admin",
+  "MODERATOR": "moderator",
+  "STAFF": "staff",
+  "USER": "default",
+};
+
+/**
+ * The LuckPerms group a web role maps to
+ */
+export function getMinecraftGroupForRole(webRole: string): string {
+  return ROLE_GROUPS[webRole] || "default";
+}
+
 /**
  * Sync a staff member's role to their Minecraft permissions
  * This could add them to groups like "staff", "moderator", "admin" on the server
+ * @param group - LuckPerms group to use instead of the role's own group
  */
 export async function syncRoleToMinecraft(
   minecraftName: string,
-  webRole: string
+  webRole: string,
+  group?: string
 ): Promise<{
   success: boolean;
   message?: string;
@@ -181,16 +199,7 @@ export async function syncRoleToMinecraft(
   }
 
   try {
-    // Map web roles to Minecraft groups
-    const roleMapping: Record<string, string> = {
-      "OWNER": "owner",
-      "ADMIN": "admin",
-      "MODERATOR": "moderator",
-      "STAFF": "staff",
-      "USER": "default",
-    };
-
-    const minecraftGroup = roleMapping[webRole] || "default";
+    const minecraftGroup = group || getMinecraftGroupForRole(webRole);
 
     // Option: Use LuckPerms REST API to add user to group
     const response = await fetch(`${LUCKPERMS_API_URL}/user/${minecraftName}/group`, {
@@ -224,6 +233,52 @@ export async function syncRoleToMinecraft(
   }
 }
 
+/**
+ * Take a player out of a LuckPerms group (undoes syncRoleToMinecraft)
+ */
+export async function removeGroupFromMinecraft(
+  minecraftName: string,
+  group: string
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  if (!isLuckPermsEnabled()) {
+    return {
+      success: false,
+      error: "LuckPerms integration not configured",
+    };
+  }
+
+  try {
+    const response = await fetch(`${LUCKPERMS_API_URL}/user/${minecraftName}/group`, {
+      method: "DELETE",
+      headers: {
+        "Authorization": `Bearer ${LUCKPERMS_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        group,
+      }),
+    });
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: `Failed to remove group: ${response.status}`,
+      };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("[LuckPerms] Error removing group:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
 /**
  * Get all players with a specific permission/group
  * Useful for finding all staff members on the server
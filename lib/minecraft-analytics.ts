@@ -5,6 +5,7 @@
  * Syncs player data from Minecraft server to web analytics
  */
 
+import { timingSafeEqual } from "node:crypto";
 import { syncMinecraftPlayerData } from "./analytics";
 import { prisma } from "./prisma";
 
@@ -225,6 +226,20 @@ export async function getUnlinkedPlayers(limit: number = 50) {
   });
 }
 
+/**
+ * Whether a plugin request carries MINECRAFT_WEBHOOK_SECRET in the
+ * X-Minecraft-Secret header. Fails closed when no secret is configured, for
+ * endpoints that write on behalf of players (RSVPs, attendance).
+ */
+export function hasMinecraftSecret(headers: Headers): boolean {
+  const secret = process.env["MINECRAFT_WEBHOOK_SECRET"];
+  if (!secret) return false;
+
+  const provided = Buffer.from(headers.get("x-minecraft-secret") ?? "");
+  const expected = Buffer.from(secret);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
 /**
  * Webhook payload structure (adjust based on your plugin's format)
  */
@@ -0,0 +1,453 @@
+/**
+ * Minecraft Server List Ping
+ *
+ * Queries servers directly instead of through a third-party status API.
+ *
+ * - Java Edition: Server List Ping (handshake, status request, ping/pong) over TCP
+ *   with VarInt-framed packets, `_minecraft._tcp` SRV resolution, and the
+ *   1.6 / pre-1.4 legacy ping as a fallback for servers that do not speak the
+ *   modern protocol
+ * - Bedrock Edition: RakNet unconnected ping over UDP
+ *
+ * Protocol reference: https://minecraft.wiki/w/Java_Edition_protocol/Server_List_Ping
+ */
+
+import net from "node:net";
+import dgram from "node:dgram";
+import { promises as dns } from "node:dns";
+import { randomBytes } from "node:crypto";
+
+export const DEFAULT_JAVA_PORT = 25565;
+export const DEFAULT_BEDROCK_PORT = 19132;
+
+// Servers answer status requests for any protocol version; -1 is the convention for "just pinging"
+const STATUS_PROTOCOL_VERSION = -1;
+const MAX_PACKET_LENGTH = 2 * 1024 * 1024; // Favicons make status responses large, but never this large
+const MAX_PLAYER_SAMPLE = 12;
+const MAX_FAVICON_LENGTH = 256 * 1024;
+
+// RakNet "offline message" magic that every unconnected packet carries
+const RAKNET_MAGIC = Buffer.from("00ffff00fefefefefdfdfdfd12345678", "hex");
+
+export type PingErrorCode = "TIMEOUT" | "CONNECTION" | "PROTOCOL";
+
+export class PingError extends Error {
+  readonly code: PingErrorCode;
+
+  constructor(message: string, code: PingErrorCode) {
+    super(message);
+    this.name = "PingError";
+    this.code = code;
+  }
+}
+
+export type PingResult = {
+  edition: "java" | "bedrock";
+  version?: string;
+  protocol?: number;
+  playersOnline: number;
+  playersMax: number;
+  playerSample: { name: string; id: string }[];
+  motd: string;
+  favicon?: string;
+  latency: number;
+};
+
+export type PingOptions = {
+  timeoutMs?: number;
+};
+
+// ============================================================================
+// Address handling
+// ============================================================================
+
+/**
+ * Split "host", "host:port" or "[ipv6]:port"
+ */
+export function parseServerAddress(
+  address: string,
+  defaultPort: number
+): { host: string; port: number; explicitPort: boolean } {
+  if (address.startsWith("[")) {
+    const close = address.indexOf("]");
+    const host = address.slice(1, close);
+    const port = address.slice(close + 2);
+    return /^\d+$/.test(port)
+      ? { host, port: Number(port), explicitPort: true }
+      : { host, port: defaultPort, explicitPort: false };
+  }
+
+  const parts = address.split(":");
+  if (parts.length === 2 && /^\d+$/.test(parts[1] ?? "")) {
+    return { host: parts[0] ?? "", port: Number(parts[1]), explicitPort: true };
+  }
+
+  return { host: address, port: defaultPort, explicitPort: false };
+}
+
+/**
+ * Resolve `_minecraft._tcp.<host>`; returns null when there is no SRV record
+ */
+export async function resolveJavaSrv(host: string): Promise<{ host: string; port: number } | null> {
+  if (net.isIP(host)) return null;
+
+  try {
+    const records = await dns.resolveSrv(`_minecraft._tcp.${host}`);
+    const record = records.sort((a, b) => a.priority - b.priority || b.weight - a.weight)[0];
+    return record ? { host: record.name, port: record.port } : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Encoding helpers
+// ============================================================================
+
+export function encodeVarInt(value: number): Buffer {
+  const bytes: number[] = [];
+  let remaining = value >>> 0; // Negative numbers are sent as their two's complement
+
+  do {
+    let byte = remaining & 0x7f;
+    remaining >>>= 7;
+    if (remaining !== 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (remaining !== 0);
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Read a VarInt at `offset`; returns null when the buffer ends mid-value
+ */
+export function readVarInt(buffer: Buffer, offset = 0): { value: number; size: number } | null {
+  let value = 0;
+  let size = 0;
+
+  while (true) {
+    if (offset + size >= buffer.length) return null;
+    const byte = buffer[offset + size]!;
+    value |= (byte & 0x7f) << (7 * size);
+    size++;
+    if ((byte & 0x80) === 0) return { value: value | 0, size };
+    if (size >= 5) throw new PingError("VarInt is too long", "PROTOCOL");
+  }
+}
+
+function encodeString(value: string): Buffer {
+  const bytes = Buffer.from(value, "utf8");
+  return Buffer.concat([encodeVarInt(bytes.length), bytes]);
+}
+
+function framePacket(packetId: number, ...fields: Buffer[]): Buffer {
+  const body = Buffer.concat([encodeVarInt(packetId), ...fields]);
+  return Buffer.concat([encodeVarInt(body.length), body]);
+}
+
+/**
+ * Remove § formatting codes
+ */
+export function stripFormatting(text: string): string {
+  return text.replace(/§[0-9a-fk-orx]/gi, "");
+}
+
+/**
+ * Flatten a chat component (string, { text, extra }, or array) to plain text
+ */
+export function flattenChatComponent(component: unknown): string {
+  if (typeof component === "string") return component;
+  if (Array.isArray(component)) return component.map(flattenChatComponent).join("");
+  if (component && typeof component === "object") {
+    const { text, translate, extra } = component as { text?: unknown; translate?: unknown; extra?: unknown };
+    const own = typeof text === "string" ? text : typeof translate === "string" ? translate : "";
+    return own + (Array.isArray(extra) ? extra.map(flattenChatComponent).join("") : "");
+  }
+  return "";
+}
+
+// ============================================================================
+// Java Edition
+// ============================================================================
+
+type JavaStatusResponse = {
+  version?: { name?: string; protocol?: number };
+  players?: { online?: number; max?: number; sample?: { name?: string; id?: string }[] };
+  description?: unknown;
+  favicon?: string;
+};
+
+function parseJavaStatus(json: JavaStatusResponse, latency: number): PingResult {
+  const favicon =
+    typeof json.favicon === "string" &&
+    json.favicon.startsWith("data:image/png;base64,") &&
+    json.favicon.length <= MAX_FAVICON_LENGTH
+      ? json.favicon
+      : undefined;
+
+  return {
+    edition: "java",
+    ...(json.version?.name && { version: stripFormatting(json.version.name) }),
+    ...(typeof json.version?.protocol === "number" && { protocol: json.version.protocol }),
+    playersOnline: json.players?.online ?? 0,
+    playersMax: json.players?.max ?? 0,
+    playerSample: (json.players?.sample ?? [])
+      .filter((player) => typeof player.name === "string")
+      .slice(0, MAX_PLAYER_SAMPLE)
+      .map((player) => ({ name: stripFormatting(player.name!), id: player.id ?? "" })),
+    motd: stripFormatting(flattenChatComponent(json.description)).trim(),
+    ...(favicon && { favicon }),
+    latency,
+  };
+}
+
+/**
+ * Open a TCP connection and run `exchange`, which resolves once it has what it needs
+ */
+function withSocket<T>(
+  host: string,
+  port: number,
+  timeoutMs: number,
+  /* eslint-disable-next-line no-unused-vars */
+  exchange: (socket: net.Socket, resolve: (value: T) => void, reject: (error: Error) => void) => void
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const socket = net.createConnection({ host, port });
+    let settled = false;
+
+    const finish = (error: Error | null, value?: T) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket.destroy();
+      if (error) reject(error);
+      else resolve(value as T);
+    };
+
+    const timer = setTimeout(() => finish(new PingError("Request timeout", "TIMEOUT")), timeoutMs);
+
+    socket.once("error", (error) => finish(new PingError(error.message, "CONNECTION")));
+    socket.once("close", () => finish(new PingError("Connection closed before a response", "PROTOCOL")));
+    socket.once("connect", () => {
+      exchange(socket, (value) => finish(null, value), (error) => finish(error));
+    });
+  });
+}
+
+/**
+ * Modern (1.7+) Server List Ping
+ */
+export function pingJavaModern(host: string, port: number, options: PingOptions = {}): Promise<PingResult> {
+  const timeoutMs = options.timeoutMs ?? 5000;
+
+  return withSocket<PingResult>(host, port, timeoutMs, (socket, resolve, reject) => {
+    let buffer = Buffer.alloc(0);
+    let status: JavaStatusResponse | null = null;
+    let statusLatency = 0;
+    const requestedAt = Date.now();
+    let pingSentAt = 0;
+
+    const portBuffer = Buffer.alloc(2);
+    portBuffer.writeUInt16BE(port);
+
+    socket.write(
+      framePacket(0x00, encodeVarInt(STATUS_PROTOCOL_VERSION), encodeString(host), portBuffer, encodeVarInt(1))
+    );
+    socket.write(framePacket(0x00));
+
+    socket.on("data", (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+
+      try {
+        while (true) {
+          const length = readVarInt(buffer);
+          if (!length) return;
+          if (length.value <= 0 || length.value > MAX_PACKET_LENGTH) {
+            throw new PingError(`Invalid packet length ${length.value}`, "PROTOCOL");
+          }
+          if (buffer.length < length.size + length.value) return;
+
+          const packet = buffer.subarray(length.size, length.size + length.value);
+          buffer = buffer.subarray(length.size + length.value);
+
+          const packetId = readVarInt(packet);
+          if (!packetId) throw new PingError("Truncated packet", "PROTOCOL");
+
+          if (packetId.value === 0x00 && !status) {
+            const jsonLength = readVarInt(packet, packetId.size);
+            if (!jsonLength) throw new PingError("Truncated status response", "PROTOCOL");
+            const start = packetId.size + jsonLength.size;
+            status = JSON.parse(packet.subarray(start, start + jsonLength.value).toString("utf8"));
+            statusLatency = Date.now() - requestedAt;
+
+            const payload = Buffer.alloc(8);
+            payload.writeBigInt64BE(BigInt(Date.now()));
+            pingSentAt = Date.now();
+            socket.write(framePacket(0x01, payload));
+          } else if (packetId.value === 0x01 && status) {
+            resolve(parseJavaStatus(status, Date.now() - pingSentAt));
+            return;
+          } else {
+            throw new PingError(`Unexpected packet 0x${packetId.value.toString(16)}`, "PROTOCOL");
+          }
+        }
+      } catch (error) {
+        reject(error instanceof PingError ? error : new PingError("Malformed status response", "PROTOCOL"));
+      }
+    });
+
+    // Some servers close the connection instead of answering the ping; the status is still valid
+    socket.once("end", () => {
+      if (status) resolve(parseJavaStatus(status, statusLatency));
+    });
+  });
+}
+
+/**
+ * Legacy ping for 1.6 and older servers (also answered by most modern servers)
+ */
+export function pingJavaLegacy(host: string, port: number, options: PingOptions = {}): Promise<PingResult> {
+  const timeoutMs = options.timeoutMs ?? 5000;
+
+  return withSocket<PingResult>(host, port, timeoutMs, (socket, resolve, reject) => {
+    let buffer = Buffer.alloc(0);
+    const requestedAt = Date.now();
+
+    const channel = Buffer.from("MC|PingHost", "utf16le").swap16();
+    const hostBytes = Buffer.from(host, "utf16le").swap16();
+    const header = Buffer.alloc(3 + 2);
+    header.writeUInt8(0xfe, 0);
+    header.writeUInt8(0x01, 1);
+    header.writeUInt8(0xfa, 2);
+    header.writeUInt16BE(channel.length / 2, 3);
+    const body = Buffer.alloc(2 + 1 + 2);
+    body.writeUInt16BE(7 + hostBytes.length, 0);
+    body.writeUInt8(74, 2); // Protocol version of 1.6.2
+    body.writeUInt16BE(hostBytes.length / 2, 3);
+    const portBuffer = Buffer.alloc(4);
+    portBuffer.writeInt32BE(port);
+
+    socket.write(Buffer.concat([header, channel, body, hostBytes, portBuffer]));
+
+    socket.on("data", (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      if (buffer.length < 3) return;
+      if (buffer[0] !== 0xff) {
+        reject(new PingError("Unexpected legacy response", "PROTOCOL"));
+        return;
+      }
+
+      const length = buffer.readUInt16BE(1);
+      if (buffer.length < 3 + length * 2) return;
+
+      const text = Buffer.from(buffer.subarray(3, 3 + length * 2)).swap16().toString("utf16le");
+      const latency = Date.now() - requestedAt;
+
+      if (text.startsWith("§1\0")) {
+        // 1.4 - 1.6: §1 \0 protocol \0 version \0 motd \0 online \0 max
+        const [, protocol, version, motd, online, max] = text.split("\0");
+        resolve({
+          edition: "java",
+          ...(version && { version }),
+          ...(protocol && { protocol: Number(protocol) }),
+          playersOnline: Number(online) || 0,
+          playersMax: Number(max) || 0,
+          playerSample: [],
+          motd: stripFormatting(motd ?? "").trim(),
+          latency,
+        });
+        return;
+      }
+
+      // Beta 1.8 - 1.3: motd § online § max
+      const fields = text.split("§");
+      const max = fields.pop();
+      const online = fields.pop();
+      resolve({
+        edition: "java",
+        playersOnline: Number(online) || 0,
+        playersMax: Number(max) || 0,
+        playerSample: [],
+        motd: fields.join("§").trim(),
+        latency,
+      });
+    });
+  });
+}
+
+/**
+ * Ping a Java Edition server: SRV lookup, modern ping, then legacy ping if the
+ * server answered but not in the modern protocol
+ */
+export async function pingJava(address: string, options: PingOptions = {}): Promise<PingResult> {
+  const parsed = parseServerAddress(address, DEFAULT_JAVA_PORT);
+  const target = (!parsed.explicitPort && (await resolveJavaSrv(parsed.host))) || parsed;
+
+  try {
+    return await pingJavaModern(target.host, target.port, options);
+  } catch (error) {
+    if (error instanceof PingError && error.code === "PROTOCOL") {
+      return pingJavaLegacy(target.host, target.port, options);
+    }
+    throw error;
+  }
+}
+
+// ============================================================================
+// Bedrock Edition
+// ============================================================================
+
+/**
+ * RakNet unconnected ping; the pong carries a `;`-separated server ID string:
+ * edition;motd;protocol;version;online;max;serverId;motd2;gamemode;...
+ */
+export function pingBedrock(address: string, options: PingOptions = {}): Promise<PingResult> {
+  const timeoutMs = options.timeoutMs ?? 5000;
+  const { host, port } = parseServerAddress(address, DEFAULT_BEDROCK_PORT);
+
+  return new Promise<PingResult>((resolve, reject) => {
+    const socket = dgram.createSocket(net.isIPv6(host) ? "udp6" : "udp4");
+    let settled = false;
+    const sentAt = Date.now();
+
+    const finish = (error: Error | null, value?: PingResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket.close();
+      if (error) reject(error);
+      else resolve(value!);
+    };
+
+    const timer = setTimeout(() => finish(new PingError("Request timeout", "TIMEOUT")), timeoutMs);
+
+    socket.on("error", (error) => finish(new PingError(error.message, "CONNECTION")));
+    socket.on("message", (message) => {
+      // 0x1c unconnected pong: id, time (8), server GUID (8), magic (16), string length (2), string
+      if (message.length < 35 || message[0] !== 0x1c) return;
+
+      const length = message.readUInt16BE(33);
+      const fields = message.subarray(35, 35 + length).toString("utf8").split(";");
+      const [, motd = "", protocol, version, online, max, , subMotd] = fields;
+
+      finish(null, {
+        edition: "bedrock",
+        ...(version && { version }),
+        ...(protocol && { protocol: Number(protocol) }),
+        playersOnline: Number(online) || 0,
+        playersMax: Number(max) || 0,
+        playerSample: [],
+        motd: stripFormatting([motd, subMotd].filter(Boolean).join(" ")).trim(),
+        latency: Date.now() - sentAt,
+      });
+    });
+
+    const time = Buffer.alloc(8);
+    time.writeBigInt64BE(BigInt(sentAt));
+    const packet = Buffer.concat([Buffer.from([0x01]), time, RAKNET_MAGIC, randomBytes(8)]);
+
+    socket.send(packet, port, host, (error) => {
+      if (error) finish(new PingError(error.message, "CONNECTION"));
+    });
+  });
+}
@@ -1,85 +1,63 @@
 /**
  * Minecraft Server Status Utility
  * 
- * Queries Minecraft server status using mcstatus.io API
- * More reliable than direct server queries and doesn't require deprecated packages
+ * Queries Minecraft server status either natively (Server List Ping, see
+ * lib/minecraft-ping.ts) or through the mcstatus.io API. The provider and
+ * edition come from the `minecraft` app setting and can be overridden per call.
+ *
+ * Uptime and player-count history are persisted by the status poller,
+ * see lib/server-status-history.ts
  */
 
-const MCSTATUS_API = "https://api.mcstatus.io/v2/status/java";
+import { prisma } from "./prisma";
+import { cache, cacheKeys, cacheTags, cacheTTL } from "./cache";
+import { PingError, pingBedrock, pingJava, type PingResult } from "./minecraft-ping";
+
+const MCSTATUS_API = "https://api.mcstatus.io/v2/status";
 const REQUEST_TIMEOUT_MS = 5000; // 5 second timeout
 
-// Uptime tracking: Store last N checks per server
-const MAX_UPTIME_HISTORY = 100; // Track last 100 checks
-const MAX_PLAYER_HISTORY = 50; // Track last 50 player counts for graph
-const uptimeHistory = new Map<string, boolean[]>();
-const playerCountHistory = new Map<string, { timestamp: number; count: number }[]>();
+export type MinecraftStatusProvider = "native" | "mcstatus";
+export type MinecraftEdition = "java" | "bedrock";
 
-/**
- * Track server check result for uptime calculation
- */
-function trackUptimeCheck(serverAddress: string, wasOnline: boolean): void {
-    let history = uptimeHistory.get(serverAddress);
-    
-    if (!history) {
-        history = [];
-        uptimeHistory.set(serverAddress, history);
-    }
-    
-    history.push(wasOnline);
-    
-    // Keep only the last MAX_UPTIME_HISTORY checks
-    if (history.length > MAX_UPTIME_HISTORY) {
-        history.shift();
-    }
-}
+export type MinecraftStatusOptions = {
+    statusProvider: MinecraftStatusProvider;
+    edition: MinecraftEdition;
+    timeoutMs: number;
+};
 
 /**
- * Track player count for graphing
+ * One server of the network registry (proxy or backend)
  */
-function trackPlayerCount(serverAddress: string, count: number): void {
-    let history = playerCountHistory.get(serverAddress);
-    
-    if (!history) {
-        history = [];
-        playerCountHistory.set(serverAddress, history);
-    }
-    
-    history.push({
-        timestamp: Date.now(),
-        count: count,
-    });
-    
-    // Keep only the last MAX_PLAYER_HISTORY data points
-    if (history.length > MAX_PLAYER_HISTORY) {
-        history.shift();
-    }
-}
+export type MinecraftServerEntry = {
+    id: string; // Stable slug, e.g. "hub"
+    name: string;
+    address: string;
+    role: "proxy" | "backend";
+    edition?: MinecraftEdition; // Defaults to the network-wide edition
+    public: boolean; // Listed on the public status API and page
+    enabled: boolean; // Polled and aggregated
+};
 
-/**
- * Calculate uptime percentage based on recent checks
- * 
- * @param serverAddress - Server address
- * @returns Uptime percentage (0-100) or null if no history
- */
-export function getUptimePercentage(serverAddress: string): number | null {
-    const history = uptimeHistory.get(serverAddress);
-    
-    if (!history || history.length === 0) {
-        return null;
-    }
-    
-    const onlineCount = history.filter(status => status).length;
-    return Math.round((onlineCount / history.length) * 100);
-}
+export type MinecraftStatusSettings = MinecraftStatusOptions & {
+    servers: MinecraftServerEntry[];
+    publicStatusPage: boolean;
+};
+
+export const MINECRAFT_STATUS_DEFAULTS: MinecraftStatusSettings = {
+    statusProvider: "native",
+    edition: "java",
+    timeoutMs: REQUEST_TIMEOUT_MS,
+    servers: [],
+    publicStatusPage: false,
+};
 
 /**
- * Get player count history for graphing
- * 
- * @param serverAddress - Server address
- * @returns Array of player count data points
+ * Strip anything that cannot appear in a host[:port] address
+ *
+ * Also used as the key for stored status history, so both must agree.
  */
-export function getPlayerCountHistory(serverAddress: string): { timestamp: number; count: number }[] {
-    return playerCountHistory.get(serverAddress) || [];
+export function sanitizeServerAddress(serverAddress: string): string {
+    return serverAddress.replace(/[^a-zA-Z0-9.-:]/g, '');
 }
 
 export type MinecraftServerStatus = {
@@ -90,20 +68,159 @@ export type MinecraftServerStatus = {
     motd?: string;
     latency?: number;
     error?: string;
+    edition?: MinecraftEdition;
+    /** Up to 12 players the server chooses to list (Java only; often empty) */
+    playerSample?: { name: string; id: string }[];
+    /** PNG data URI (Java only) */
+    favicon?: string;
 };
 
+/**
+ * Status settings from AppSettings, cached until settings change
+ */
+export async function getMinecraftStatusSettings(): Promise<MinecraftStatusSettings> {
+    try {
+        return await cache.getOrSet(
+            cacheKeys.minecraftSettings(),
+            async () => {
+                const row = await prisma.appSettings.findUnique({
+                    where: { id: "global" },
+                    select: { minecraft: true },
+                });
+                const stored = (row?.minecraft ?? {}) as Partial<MinecraftStatusSettings>;
+                return { ...MINECRAFT_STATUS_DEFAULTS, ...stored };
+            },
+            { ttl: cacheTTL.settings, tags: [cacheTags.settings] }
+        );
+    } catch {
+        return MINECRAFT_STATUS_DEFAULTS;
+    }
+}
+
+function fromPingResult(result: PingResult): MinecraftServerStatus {
+    return {
+        online: true,
+        ...(result.version && { version: result.version }),
+        playersOnline: result.playersOnline,
+        playersMax: result.playersMax,
+        motd: result.motd,
+        latency: result.latency,
+        edition: result.edition,
+        playerSample: result.playerSample,
+        ...(result.favicon && { favicon: result.favicon }),
+    };
+}
+
+/**
+ * Query the server directly
+ */
+async function queryNative(
+    address: string,
+    edition: MinecraftEdition,
+    timeoutMs: number
+): Promise<MinecraftServerStatus> {
+    try {
+        const result = edition === "bedrock"
+            ? await pingBedrock(address, { timeoutMs })
+            : await pingJava(address, { timeoutMs });
+        return fromPingResult(result);
+    } catch (error) {
+        if (error instanceof PingError) {
+            return { online: false, edition, error: error.message };
+        }
+        throw error;
+    }
+}
+
+/**
+ * Query through mcstatus.io
+ */
+async function queryMcStatus(
+    address: string,
+    edition: MinecraftEdition,
+    timeoutMs: number
+): Promise<MinecraftServerStatus> {
+    // Create abort controller for timeout
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    // Measure our own request latency
+    const requestStart = Date.now();
+
+    try {
+        const response = await fetch(`${MCSTATUS_API}/${edition}/${address}`, {
+            signal: controller.signal,
+            headers: {
+                'Accept': 'application/json',
+            },
+            // Don't cache during development, short cache in production
+            next: {
+                revalidate: process.env.NODE_ENV === 'production' ? 60 : 0,
+            },
+        });
+
+        const requestLatency = Date.now() - requestStart;
+        clearTimeout(timeoutId);
+
+        if (!response.ok) {
+            return {
+                online: false,
+                edition,
+                error: `API returned ${response.status}`,
+            };
+        }
+
+        const data = await response.json();
+
+        // Parse mcstatus.io response
+        const isOnline = data.online === true;
+        const playersOnline = data.players?.online ?? 0;
+
+        // Extract latency - prefer mcstatus.io's measurement, fallback to our request latency
+        const apiLatency = data.latency ?? data.srv_record?.latency;
+        const latency = typeof apiLatency === 'number' && apiLatency > 0 
+            ? Math.round(apiLatency) 
+            : requestLatency;
+
+        // Debug logging in development
+        if (process.env.NODE_ENV === 'development') {
+            console.log(`[MC Status] ${address}: online=${isOnline}, latency=${latency}ms (API: ${apiLatency}, Request: ${requestLatency}ms)`);
+        }
+
+        const playerList: { uuid?: string; name_clean?: string }[] = Array.isArray(data.players?.list) ? data.players.list : [];
+
+        return {
+            online: isOnline,
+            version: data.version?.name_clean || data.version?.name_raw || data.version?.name,
+            playersOnline: playersOnline,
+            playersMax: data.players?.max,
+            motd: data.motd?.clean?.[0] || data.motd?.raw?.[0] || data.motd?.clean,
+            latency: latency,
+            edition,
+            playerSample: playerList
+                .filter((player) => typeof player.name_clean === "string")
+                .map((player) => ({ name: player.name_clean!, id: player.uuid ?? "" })),
+            ...(typeof data.icon === "string" && { favicon: data.icon }),
+        };
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
 /**
  * Query Minecraft server status
  * 
  * @param serverAddress - Server address (e.g., "iears.us" or "iears.us:25565")
+ * @param options - Overrides for the provider, edition and timeout from settings
  * @returns Server status information
  */
 export async function getMinecraftServerStatus(
-    serverAddress: string
+    serverAddress: string,
+    options: Partial<MinecraftStatusOptions> = {}
 ): Promise<MinecraftServerStatus> {
     try {
         // Security: Validate server address format
-        const sanitizedAddress = serverAddress.replace(/[^a-zA-Z0-9.-:]/g, '');
+        const sanitizedAddress = sanitizeServerAddress(serverAddress);
         
         if (!sanitizedAddress || sanitizedAddress.length > 255) {
             return {
@@ -112,78 +229,12 @@ export async function getMinecraftServerStatus(
             };
         }
 
-        // Create abort controller for timeout
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
-
-        // Measure our own request latency
-        const requestStart = Date.now();
-
-        try {
-            const response = await fetch(`${MCSTATUS_API}/${sanitizedAddress}`, {
-                signal: controller.signal,
-                headers: {
-                    'Accept': 'application/json',
-                },
-                // Don't cache during development, short cache in production
-                next: {
-                    revalidate: process.env.NODE_ENV === 'production' ? 60 : 0,
-                },
-            });
-
-            const requestLatency = Date.now() - requestStart;
-            clearTimeout(timeoutId);
-
-            if (!response.ok) {
-                return {
-                    online: false,
-                    error: `API returned ${response.status}`,
-                };
-            }
+        const settings = { ...(await getMinecraftStatusSettings()), ...options };
 
-            const data = await response.json();
-
-            // Parse mcstatus.io response
-            const isOnline = data.online === true;
-            const playersOnline = data.players?.online ?? 0;
-            
-            // Track uptime check
-            trackUptimeCheck(sanitizedAddress, isOnline);
-            
-            // Track player count for graphing (only when online)
-            if (isOnline) {
-                trackPlayerCount(sanitizedAddress, playersOnline);
-            }
-            
-            // Extract latency - prefer mcstatus.io's measurement, fallback to our request latency
-            const apiLatency = data.latency ?? data.srv_record?.latency;
-            const latency = typeof apiLatency === 'number' && apiLatency > 0 
-                ? Math.round(apiLatency) 
-                : requestLatency;
-            
-            // Debug logging in development
-            if (process.env.NODE_ENV === 'development') {
-                console.log(`[MC Status] ${sanitizedAddress}: online=${isOnline}, latency=${latency}ms (API: ${apiLatency}, Request: ${requestLatency}ms)`);
-            }
-            
-            return {
-                online: isOnline,
-                version: data.version?.name_clean || data.version?.name_raw,
-                playersOnline: playersOnline,
-                playersMax: data.players?.max,
-                motd: data.motd?.clean?.[0] || data.motd?.raw?.[0],
-                latency: latency,
-            };
-        } finally {
-            clearTimeout(timeoutId);
-        }
+        return settings.statusProvider === "mcstatus"
+            ? await queryMcStatus(sanitizedAddress, settings.edition, settings.timeoutMs)
+            : await queryNative(sanitizedAddress, settings.edition, settings.timeoutMs);
     } catch (error) {
-        // Track failed check as offline
-        const sanitizedAddress = serverAddress.replace(/[^a-zA-Z0-9.-:]/g, '');
-        if (sanitizedAddress && sanitizedAddress.length <= 255) {
-            trackUptimeCheck(sanitizedAddress, false);
-        }
-        
         // Handle timeout or network errors
         if (error instanceof Error) {
             if (error.name === 'AbortError') {
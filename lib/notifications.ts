@@ -25,6 +25,34 @@ export interface CreateNotificationInput {
   expiresAt?: Date;
 }
 
+/**
+ * Push a new notification to the user's WebSocket clients.
+ * `broadcast` publishes through the event bus, so this reaches the user on any instance.
+ */
+async function publishNotification(notification: Notification): Promise<void> {
+  if (process.env['ENABLE_REALTIME_NOTIFICATIONS'] !== "true") return;
+
+  try {
+    const { broadcast, CHANNELS } = await import("./websocket-server");
+    broadcast("notification:new", {
+      id: notification.id,
+      title: notification.title,
+      message: notification.message,
+      type: notification.type,
+      priority: notification.priority,
+      category: notification.category,
+      ...(notification.actionUrl && { actionUrl: notification.actionUrl }),
+      ...(notification.actionText && { actionText: notification.actionText }),
+      createdAt: notification.createdAt.toISOString(),
+    }, {
+      userId: notification.userId,
+      channel: CHANNELS.NOTIFICATIONS,
+    });
+  } catch (error) {
+    console.error("[Notifications] Failed to broadcast:", error);
+  }
+}
+
 /**
  * Create a notification for a user
  * @param input - Notification data
@@ -48,27 +76,7 @@ export async function createNotification(input: CreateNotificationInput): Promis
   });
 
   // Real-time notification broadcast (if WebSocket is enabled)
-  if (process.env['ENABLE_REALTIME_NOTIFICATIONS'] === "true") {
-    try {
-      const { broadcast, CHANNELS } = await import("./websocket-server");
-      broadcast("notification:new", {
-        id: notification.id,
-        title: notification.title,
-        message: notification.message,
-        type: notification.type,
-        priority: notification.priority,
-        category: notification.category,
-        ...(notification.actionUrl && { actionUrl: notification.actionUrl }),
-        ...(notification.actionText && { actionText: notification.actionText }),
-        createdAt: notification.createdAt.toISOString(),
-      }, {
-        userId: input.userId,
-        channel: CHANNELS.NOTIFICATIONS,
-      });
-    } catch (error) {
-      console.error("[Notifications] Failed to broadcast:", error);
-    }
-  }
+  await publishNotification(notification);
 
   // TODO: Send email notification if user preferences allow
 
@@ -116,6 +124,8 @@ export async function createBulkNotifications(
     )
   );
 
+  await Promise.all(notifications.map(publishNotification));
+
   return notifications;
 }
 
@@ -374,6 +384,16 @@ export async function cleanupExpiredNotifications(): Promise<number> {
   return result.count;
 }
 
+/**
+ * "45 minutes", "3 hours", "2 days" (rounded to the nearest unit)
+ */
+function formatLeadTime(minutes: number): string {
+  const plural = (n: number, unit: string) => `${n} ${unit}${n === 1 ? "" : "s"}`;
+  if (minutes < 90) return plural(minutes, "minute");
+  if (minutes < 36 * 60) return plural(Math.round(minutes / 60), "hour");
+  return plural(Math.round(minutes / 1440), "day");
+}
+
 /**
  * Predefined notification templates for common scenarios
  */
@@ -405,9 +425,51 @@ export const NotificationTemplates = {
    */
   eventStartingSoon: (eventTitle: string, minutesUntil: number): Pick<CreateNotificationInput, "title" | "message" | "type" | "category"> => ({
     title: "Event Starting Soon",
-    message: `"${eventTitle}" is starting in ${minutesUntil} minutes!`,
+    message: `"${eventTitle}" is starting in ${formatLeadTime(minutesUntil)}!`,
+    type: "event",
+    category: "events",
+  }),
+
+  /**
+   * Events: Staff assigned to an event
+   */
+  staffAssigned: (eventTitle: string, role: string, when: string): Pick<CreateNotificationInput, "title" | "message" | "type" | "category" | "priority"> => ({
+    title: "New Event Shift",
+    message: `You were assigned as ${role} for "${eventTitle}" (${when}). Please accept or decline.`,
+    type: "event",
+    category: "events",
+    priority: "high",
+  }),
+
+  /**
+   * Events: An event staff are assigned to changed
+   */
+  staffEventChanged: (eventTitle: string, change: string): Pick<CreateNotificationInput, "title" | "message" | "type" | "category" | "priority"> => ({
+    title: "Event Shift Changed",
+    message: `"${eventTitle}", which you are staffing, changed: ${change}.`,
     type: "event",
     category: "events",
+    priority: "high",
+  }),
+
+  /**
+   * Events: Staff declined a shift (for whoever assigned it)
+   */
+  staffDeclined: (staffName: string, eventTitle: string, role: string): Pick<CreateNotificationInput, "title" | "message" | "type" | "category"> => ({
+    title: "Shift Declined",
+    message: `${staffName} declined the ${role} shift for "${eventTitle}".`,
+    type: "warning",
+    category: "events",
+  }),
+
+  /**
+   * System: Assigned to review an application
+   */
+  applicationReviewAssigned: (applicantName: string, role: string): Pick<CreateNotificationInput, "title" | "message" | "type" | "category"> => ({
+    title: "Application to Review",
+    message: `You were added to the review panel for ${applicantName}'s ${role} application.`,
+    type: "info",
+    category: "system",
   }),
 
   /**
@@ -0,0 +1,495 @@
+/**
+ * Minecraft RCON Client
+ *
+ * Source RCON protocol client used to run moderation commands (kick, mute,
+ * teleport) on the Minecraft server.
+ * - Pooled, authenticated TCP connections with idle cleanup
+ * - Per-command timeouts
+ * - Multi-packet responses (reassembled with a sentinel packet)
+ *
+ * SETUP:
+ * 1. Enable RCON in server.properties (enable-rcon=true, rcon.port, rcon.password)
+ * 2. Add MINECRAFT_RCON_HOST, MINECRAFT_RCON_PORT and MINECRAFT_RCON_PASSWORD to your .env
+ * 3. Optional: MINECRAFT_RCON_TIMEOUT_MS, MINECRAFT_RCON_POOL_SIZE
+ *
+ * Test locally against the bundled fake server: npm run test:rcon
+ */
+
+import { Socket } from "node:net";
+
+const DEFAULT_RCON_PORT = 25575;
+const DEFAULT_TIMEOUT_MS = 5000; // 5 seconds
+const DEFAULT_POOL_SIZE = 2;
+const DEFAULT_IDLE_TIMEOUT_MS = 60_000; // Close connections unused for 1 minute
+
+const MAX_COMMAND_LENGTH = 1446; // Minecraft rejects larger inbound payloads
+const MAX_PACKET_LENGTH = 4096 + 10; // Largest response fragment Minecraft sends (+ header)
+const MIN_PACKET_LENGTH = 10; // id + type + two null terminators
+
+export const PACKET_TYPE = {
+  RESPONSE_VALUE: 0,
+  EXEC_COMMAND: 2,
+  AUTH_RESPONSE: 2,
+  AUTH: 3,
+} as const;
+
+export interface RconPacket {
+  id: number;
+  type: number;
+  body: string;
+}
+
+export interface RconOptions {
+  host: string;
+  port: number;
+  password: string;
+  timeoutMs?: number;
+  idleTimeoutMs?: number;
+}
+
+export interface RconPoolOptions extends RconOptions {
+  maxConnections?: number;
+}
+
+export interface RconCommandResult {
+  command: string;
+  output: string; // Formatting codes stripped
+  raw: string;
+  success: boolean; // false when the server reported an error
+  durationMs: number;
+}
+
+export type RconErrorCode =
+  | "NOT_CONFIGURED"
+  | "CONNECTION_FAILED"
+  | "AUTH_FAILED"
+  | "TIMEOUT"
+  | "PROTOCOL_ERROR"
+  | "COMMAND_TOO_LONG";
+
+// Error carrying a stable code so callers can map failures to HTTP statuses
+export class RconError extends Error {
+  readonly code: RconErrorCode;
+
+  constructor(code: RconErrorCode, message: string) {
+    super(message);
+    this.name = "RconError";
+    this.code = code;
+  }
+}
+
+/* ---------- Packet encoding ---------- */
+
+/**
+ * Encode a packet: int32 length | int32 id | int32 type | body | 0x00 0x00 (little endian)
+ */
+export function encodePacket(id: number, type: number, body: string): Buffer {
+  const payload = Buffer.from(body, "utf8");
+  const packet = Buffer.alloc(14 + payload.length);
+
+  packet.writeInt32LE(MIN_PACKET_LENGTH + payload.length, 0);
+  packet.writeInt32LE(id, 4);
+  packet.writeInt32LE(type, 8);
+  payload.copy(packet, 12);
+
+  return packet;
+}
+
+/**
+ * Decode all complete packets in the buffer
+ * Returns the unconsumed bytes so partial packets can be completed by the next chunk
+ */
+export function decodePackets(buffer: Buffer): { packets: RconPacket[]; remaining: Buffer } {
+  const packets: RconPacket[] = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 4) {
+    const length = buffer.readInt32LE(offset);
+
+    if (length < MIN_PACKET_LENGTH || length > MAX_PACKET_LENGTH) {
+      throw new RconError("PROTOCOL_ERROR", `Invalid RCON packet length: ${length}`);
+    }
+
+    if (buffer.length - offset < 4 + length) {
+      break;
+    }
+
+    packets.push({
+      id: buffer.readInt32LE(offset + 4),
+      type: buffer.readInt32LE(offset + 8),
+      body: buffer.toString("utf8", offset + 12, offset + 4 + length - 2),
+    });
+
+    offset += 4 + length;
+  }
+
+  return { packets, remaining: buffer.subarray(offset) };
+}
+
+/**
+ * Strip Minecraft formatting codes (§a, §l, ...) from server output
+ */
+export function stripFormattingCodes(text: string): string {
+  return text.replace(/§[0-9a-fk-orx]/gi, "").trim();
+}
+
+// Server responses that indicate the command did not take effect
+const ERROR_RESPONSE_PATTERNS = [
+  /^unknown or incomplete command/i,
+  /^unknown command/i,
+  /^incorrect argument/i,
+  /no player was found/i,
+  /player not found/i,
+  /is not online/i,
+  /^you don't have permission/i,
+  /^error:/i,
+];
+
+export function isErrorResponse(output: string): boolean {
+  return ERROR_RESPONSE_PATTERNS.some((pattern) => pattern.test(output));
+}
+
+/* ---------- Connection ---------- */
+
+interface PendingCommand {
+  id: number;
+  sentinelId: number;
+  chunks: string[];
+  // eslint-disable-next-line no-unused-vars
+  resolve: (output: string) => void;
+  // eslint-disable-next-line no-unused-vars
+  reject: (error: RconError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * A single authenticated RCON connection
+ * Commands are serialized - Minecraft processes them in order on one socket
+ */
+export class RconConnection {
+  private readonly options: Required<RconOptions>;
+  private socket: Socket | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private nextId = 1;
+  private ready: Promise<void> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private pending: PendingCommand | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private queued = 0;
+  private closed = false;
+  // eslint-disable-next-line no-unused-vars
+  private onPacket: (packet: RconPacket) => void = () => undefined;
+
+  constructor(options: RconOptions) {
+    this.options = {
+      timeoutMs: DEFAULT_TIMEOUT_MS,
+      idleTimeoutMs: DEFAULT_IDLE_TIMEOUT_MS,
+      ...options,
+    };
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  get queuedCommands(): number {
+    return this.queued;
+  }
+
+  /**
+   * Open the socket and authenticate (memoized)
+   */
+  connect(): Promise<void> {
+    this.ready ??= this.openAndAuthenticate();
+    return this.ready;
+  }
+
+  /**
+   * Run a command and return the full (reassembled) response body
+   */
+  execute(command: string): Promise<string> {
+    if (Buffer.byteLength(command, "utf8") > MAX_COMMAND_LENGTH) {
+      return Promise.reject(new RconError("COMMAND_TOO_LONG", `Command exceeds ${MAX_COMMAND_LENGTH} bytes`));
+    }
+
+    // A pending idle close must not fire under a queued or running command
+    this.queued++;
+    this.clearIdleTimer();
+    const run = this.queue.then(async () => {
+      await this.connect();
+      return this.send(command);
+    });
+
+    // Keep the chain alive after failures; the caller still receives the rejection
+    this.queue = run.catch(() => undefined).finally(() => {
+      this.queued--;
+      this.scheduleIdleClose();
+    });
+
+    return run;
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+
+    this.clearIdleTimer();
+    this.failPending(new RconError("CONNECTION_FAILED", "RCON connection closed"));
+    this.socket?.destroy();
+    this.socket = null;
+  }
+
+  private openAndAuthenticate(): Promise<void> {
+    const { host, port, password, timeoutMs } = this.options;
+
+    return new Promise<void>((resolve, reject) => {
+      const socket = new Socket();
+      const authId = this.allocateId();
+      let authenticating = true;
+      this.socket = socket;
+
+      const finishAuth = (error?: RconError) => {
+        if (!authenticating) return;
+        authenticating = false;
+        clearTimeout(timer);
+
+        if (error) {
+          this.close();
+          reject(error);
+          return;
+        }
+        resolve();
+      };
+
+      const timer = setTimeout(
+        () => finishAuth(new RconError("TIMEOUT", `RCON connection to ${host}:${port} timed out`)),
+        timeoutMs
+      );
+
+      // Auth phase: wait for AUTH_RESPONSE (some servers send an empty RESPONSE_VALUE first)
+      this.onPacket = (packet) => {
+        if (packet.type !== PACKET_TYPE.AUTH_RESPONSE) return;
+
+        this.onPacket = (next) => this.handleCommandPacket(next);
+        finishAuth(packet.id === authId ? undefined : new RconError("AUTH_FAILED", "RCON authentication failed"));
+      };
+
+      socket.setNoDelay(true);
+      socket.once("connect", () => socket.write(encodePacket(authId, PACKET_TYPE.AUTH, password)));
+      socket.on("data", (chunk) => this.handleData(chunk));
+
+      socket.on("error", (error) => {
+        if (authenticating) {
+          finishAuth(new RconError("CONNECTION_FAILED", `RCON connection to ${host}:${port} failed: ${error.message}`));
+          return;
+        }
+        this.close();
+      });
+
+      socket.on("close", () => {
+        if (authenticating) {
+          finishAuth(new RconError("CONNECTION_FAILED", `RCON connection to ${host}:${port} closed during authentication`));
+          return;
+        }
+        this.close();
+      });
+
+      socket.connect(port, host);
+    });
+  }
+
+  private handleData(chunk: Buffer): void {
+    try {
+      const { packets, remaining } = decodePackets(Buffer.concat([this.buffer, chunk]));
+      this.buffer = remaining;
+      packets.forEach((packet) => this.onPacket(packet));
+    } catch (error) {
+      this.failPending(error instanceof RconError ? error : new RconError("PROTOCOL_ERROR", String(error)));
+      this.close();
+    }
+  }
+
+  private handleCommandPacket(packet: RconPacket): void {
+    const pending = this.pending;
+    if (!pending) return;
+
+    if (packet.id === pending.id) {
+      pending.chunks.push(packet.body);
+      return;
+    }
+
+    // Sentinel echoed back: every fragment of the real response has arrived
+    if (packet.id === pending.sentinelId) {
+      clearTimeout(pending.timer);
+      this.pending = null;
+      pending.resolve(pending.chunks.join(""));
+    }
+  }
+
+  private send(command: string): Promise<string> {
+    const socket = this.socket;
+    if (!socket || this.closed) {
+      return Promise.reject(new RconError("CONNECTION_FAILED", "RCON connection is not open"));
+    }
+
+    return new Promise<string>((resolve, reject) => {
+      const id = this.allocateId();
+      const sentinelId = this.allocateId();
+
+      const timer = setTimeout(() => {
+        // Response state is unknown - drop the connection rather than risk mismatched replies
+        this.failPending(new RconError("TIMEOUT", `RCON command timed out after ${this.options.timeoutMs}ms`));
+        this.close();
+      }, this.options.timeoutMs);
+
+      this.pending = { id, sentinelId, chunks: [], resolve, reject, timer };
+
+      socket.write(encodePacket(id, PACKET_TYPE.EXEC_COMMAND, command));
+      socket.write(encodePacket(sentinelId, PACKET_TYPE.RESPONSE_VALUE, ""));
+    });
+  }
+
+  private failPending(error: RconError): void {
+    const pending = this.pending;
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pending = null;
+    pending.reject(error);
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+  }
+
+  private scheduleIdleClose(): void {
+    this.clearIdleTimer();
+    if (this.closed || this.queued > 0) return;
+
+    this.idleTimer = setTimeout(() => this.close(), this.options.idleTimeoutMs);
+    this.idleTimer.unref();
+  }
+
+  private allocateId(): number {
+    const id = this.nextId;
+    this.nextId = this.nextId >= 0x7fffffff ? 1 : this.nextId + 1;
+    return id;
+  }
+}
+
+/* ---------- Pool ---------- */
+
+/**
+ * Small connection pool: reuses idle connections, opens new ones up to
+ * maxConnections, then queues on the least busy connection
+ */
+export class RconPool {
+  private readonly options: RconPoolOptions;
+  private readonly connections = new Set<RconConnection>();
+
+  constructor(options: RconPoolOptions) {
+    this.options = options;
+  }
+
+  get size(): number {
+    return this.connections.size;
+  }
+
+  async execute(command: string): Promise<string> {
+    const connection = this.acquire();
+
+    try {
+      return await connection.execute(command);
+    } finally {
+      if (connection.isClosed) {
+        this.connections.delete(connection);
+      }
+    }
+  }
+
+  close(): void {
+    this.connections.forEach((connection) => connection.close());
+    this.connections.clear();
+  }
+
+  private acquire(): RconConnection {
+    for (const connection of this.connections) {
+      if (connection.isClosed) this.connections.delete(connection);
+    }
+
+    const connections = Array.from(this.connections);
+    const idle = connections.find((connection) => connection.queuedCommands === 0);
+    if (idle) return idle;
+
+    if (connections.length < (this.options.maxConnections ?? DEFAULT_POOL_SIZE)) {
+      const connection = new RconConnection(this.options);
+      this.connections.add(connection);
+      return connection;
+    }
+
+    return connections.reduce((least, connection) =>
+      connection.queuedCommands < least.queuedCommands ? connection : least
+    );
+  }
+}
+
+/* ---------- Configured server ---------- */
+
+/**
+ * Read RCON settings from the environment
+ * @returns Options, or null when RCON is not configured
+ */
+export function getRconConfig(): RconPoolOptions | null {
+  const host = process.env['MINECRAFT_RCON_HOST'];
+  const password = process.env['MINECRAFT_RCON_PASSWORD'];
+  if (!host || !password) return null;
+
+  return {
+    host,
+    password,
+    port: Number(process.env['MINECRAFT_RCON_PORT']) || DEFAULT_RCON_PORT,
+    timeoutMs: Number(process.env['MINECRAFT_RCON_TIMEOUT_MS']) || DEFAULT_TIMEOUT_MS,
+    maxConnections: Number(process.env['MINECRAFT_RCON_POOL_SIZE']) || DEFAULT_POOL_SIZE,
+  };
+}
+
+/**
+ * Check if RCON integration is configured
+ */
+export function isRconEnabled(): boolean {
+  return getRconConfig() !== null;
+}
+
+// Survive Next.js HMR in dev without leaking sockets
+const globalForRcon = globalThis as unknown as { rconPool?: RconPool };
+
+function getPool(): RconPool {
+  const config = getRconConfig();
+  if (!config) {
+    throw new RconError("NOT_CONFIGURED", "Minecraft RCON is not configured");
+  }
+
+  globalForRcon.rconPool ??= new RconPool(config);
+  return globalForRcon.rconPool;
+}
+
+/**
+ * Run a command on the configured Minecraft server
+ *
+ * @param command - Command without the leading slash (e.g. "kick Steve Griefing")
+ * @throws RconError for transport failures (not configured, auth, timeout, protocol)
+ */
+export async function sendRconCommand(command: string, pool: RconPool = getPool()): Promise<RconCommandResult> {
+  const startTime = Date.now();
+  const raw = await pool.execute(command);
+  const output = stripFormattingCodes(raw);
+
+  return {
+    command,
+    output,
+    raw,
+    success: !isErrorResponse(output),
+    durationMs: Date.now() - startTime,
+  };
+}
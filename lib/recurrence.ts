@@ -1,6 +1,36 @@
 import { toZonedTime, fromZonedTime } from "date-fns-tz";
 import { addDays, isAfter, isBefore, set, isValid } from "date-fns";
-import type { Event, Weekday } from "@prisma/client";
+import type { Event, EventOccurrenceOverride, Prisma, Weekday } from "@prisma/client";
+
+/**
+ * Fields read by expandEventOccurrences. The MONTHLY/interval/COUNT/EXDATE
+ * fields are optional so selects written before they existed keep working
+ * (interval 1, no count, no exclusions).
+ */
+export type RecurringEvent = Pick<
+    Event,
+    "id" | "title" | "world" | "category" | "startAt" | "endAt" | "timezone"
+    | "recurrenceFreq" | "byWeekdayJson" | "timesJson" | "recurrenceUntil"
+> & Partial<Pick<Event, "recurrenceInterval" | "recurrenceCount" | "byWeekdayPos" | "byMonthDayJson" | "exDatesJson">>
+  & { overrides?: OccurrenceOverride[] };
+
+/** Per-occurrence changes applied during expansion; null fields keep the series value */
+export type OccurrenceOverride = Pick<
+    EventOccurrenceOverride,
+    "occurrenceStart" | "cancelled" | "startAt" | "endAt" | "world" | "title" | "shortDescription" | "details"
+>;
+
+/** Prisma select for `overrides`, to pass events straight to expandEventOccurrences */
+export const OCCURRENCE_OVERRIDE_SELECT = {
+    occurrenceStart: true,
+    cancelled: true,
+    startAt: true,
+    endAt: true,
+    world: true,
+    title: true,
+    shortDescription: true,
+    details: true,
+} satisfies Prisma.EventOccurrenceOverrideSelect;
 
 export type Occurrence = {
     eventId: string;
@@ -10,6 +40,12 @@ export type Occurrence = {
     timezone: string;
     world: string;
     category: string;
+    /** Start generated by the rule, before any override; identifies the occurrence */
+    occurrenceStart: Date;
+    /** Only set when an override replaces the series text */
+    shortDescription?: string | null;
+    details?: string | null;
+    override?: "modified" | "cancelled";
 };
 
 const WD_MAP: Record<Weekday, number> = Object.freeze({ SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 });
@@ -17,11 +53,30 @@ const WD_MAP: Record<Weekday, number> = Object.freeze({ SU: 0, MO: 1, TU: 2, WE:
 // Pre-compiled regex for performance (compiled once, not per call)
 const TIME_PATTERN = /^([0-1][0-9]|2[0-3]):([0-5][0-9])$/;
 
+// timesJson entries are "HH:mm", or "HH:mm-HH:mm" when the occurrences have
+// their own length (imported series, whose endAt is the end of the series);
+// an end at or before the start is on the next day
+const SHOWTIME_RANGE_PATTERN = /^(\d{2}:\d{2})-(\d{2}:\d{2})$/;
+
 // Maximum allowed time slots to prevent DoS
 const MAX_TIME_SLOTS = 50;
 
+// Bounds for interval, COUNT and EXDATE lists (mirrored in app/api/events/schemas.ts)
+export const MAX_RECURRENCE_INTERVAL = 99;
+export const MAX_RECURRENCE_COUNT = 1000;
+export const MAX_EXDATES = 200;
+
+// How far an override may move an occurrence (bounds the extra days expansion walks)
+export const MAX_OVERRIDE_SHIFT_DAYS = 31;
+
+// EXDATE entries: local "yyyy-MM-dd" (whole day) or "yyyy-MM-ddTHH:mm" (one showtime)
+const EXDATE_DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EXDATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 // Validate timezone string to prevent injection attacks
-function isValidTimezone(tz: string): boolean {
+export function isValidTimezone(tz: string): boolean {
     // Basic validation: alphanumeric, underscores, slashes, hyphens only
     if (!/^[A-Za-z0-9_/-]+$/.test(tz)) return false;
     // Additional length check to prevent abuse
@@ -52,6 +107,24 @@ function parseHHmm(s: string): { hh: number; mm: number } | null {
     return { hh, mm };
 }
 
+/**
+ * A timesJson entry: its start ("HH:mm") and, for "HH:mm-HH:mm" entries, the
+ * length of each occurrence (otherwise the occurrence lasts endAt - startAt)
+ */
+export function parseShowtime(entry: string): { time: string; hh: number; mm: number; durationMs: number | null } | null {
+    const trimmed = entry.trim();
+    const range = SHOWTIME_RANGE_PATTERN.exec(trimmed);
+    const time = range ? range[1]! : trimmed;
+    const start = parseHHmm(time);
+    if (!start) return null;
+    if (!range) return { time, ...start, durationMs: null };
+
+    const end = parseHHmm(range[2]!);
+    if (!end) return null;
+    const minutes = (end.hh * 60 + end.mm - (start.hh * 60 + start.mm) + 1440) % 1440 || 1440;
+    return { time, ...start, durationMs: minutes * 60 * 1000 };
+}
+
 function toHHmmFromDate(d: Date, tz: string) {
     const local = toZonedTime(d, tz);
     const hh = local.getHours().toString().padStart(2, "0");
@@ -74,12 +147,173 @@ function asWeekdayArray(v: unknown): Weekday[] {
     return s.filter((x): x is Weekday => ALLOWED_WEEKDAYS.has(x as Weekday));
 }
 
-/** Expand one event into UTC occurrences between `from`..`until` */
+export function asMonthDayArray(v: unknown): number[] {
+    if (!Array.isArray(v)) return [];
+    return v.filter((x): x is number => Number.isInteger(x) && x !== 0 && x >= -31 && x <= 31).slice(0, 31);
+}
+
+/** 1-4 (first..fourth) or -1 (last); anything else disables "nth weekday" */
+function asWeekdayPos(v: number | null | undefined): number | null {
+    return v === -1 || (Number.isInteger(v) && v! >= 1 && v! <= 4) ? v! : null;
+}
+
+/** Whether a string is a valid EXDATE entry (local date, or local date and showtime) */
+export function isExDate(value: string): boolean {
+    return value.length === 10 ? EXDATE_DAY_PATTERN.test(value) : EXDATE_TIME_PATTERN.test(value);
+}
+
+function asExDateSet(v: unknown): Set<string> {
+    return new Set(asStringArray(v).filter(isExDate).slice(0, MAX_EXDATES));
+}
+
+/** Overrides keyed by the epoch ms of their occurrence start (JSON dates are accepted) */
+function asOverrideMap(v: OccurrenceOverride[] | undefined): Map<number, OccurrenceOverride> {
+    const map = new Map<number, OccurrenceOverride>();
+    for (const o of v ?? []) {
+        const key = new Date(o.occurrenceStart).getTime();
+        if (Number.isFinite(key)) map.set(key, o);
+    }
+    return map;
+}
+
+/** Largest reschedule among the overrides, capped at MAX_OVERRIDE_SHIFT_DAYS */
+function maxOverrideShiftMs(overrides: Map<number, OccurrenceOverride>): number {
+    let max = 0;
+    for (const [key, o] of overrides) {
+        for (const moved of [o.startAt, o.endAt]) {
+            if (moved) max = Math.max(max, Math.abs(new Date(moved).getTime() - key));
+        }
+    }
+    return Math.min(Number.isFinite(max) ? max : 0, MAX_OVERRIDE_SHIFT_DAYS * DAY_MS);
+}
+
+function pad2(n: number): string {
+    return n.toString().padStart(2, "0");
+}
+
+/** "yyyy-MM-dd" of a zoned (local) date */
+function localDateKey(local: Date): string {
+    return `${local.getFullYear()}-${pad2(local.getMonth() + 1)}-${pad2(local.getDate())}`;
+}
+
+/** Calendar day number of a zoned date, immune to DST-length days */
+function dayNumber(local: Date): number {
+    return Math.floor(Date.UTC(local.getFullYear(), local.getMonth(), local.getDate()) / DAY_MS);
+}
+
+/** Day number of the Monday starting the week (RFC 5545 default WKST=MO) */
+function weekStartNumber(local: Date): number {
+    return dayNumber(local) - ((local.getDay() + 6) % 7);
+}
+
+function daysInMonth(local: Date): number {
+    return new Date(local.getFullYear(), local.getMonth() + 1, 0).getDate();
+}
+
+/** Valid "HH:mm" showtimes in order, defaulting to the local time of startAt */
+function sortedShowtimes(ev: Pick<Event, "timesJson" | "startAt">, tz: string): string[] {
+    const times = asStringArray(ev.timesJson);
+    const timesBase = times.length ? times : [toHHmmFromDate(ev.startAt, tz)];
+    
+    // Limit number of time slots to prevent DoS attacks
+    const limitedTimes = timesBase.slice(0, MAX_TIME_SLOTS);
+    
+    return limitedTimes
+        .map((s) => s.trim())
+        .filter((s) => !!parseShowtime(s))
+        .sort((a, b) => {
+            const pa = parseShowtime(a)!;
+            const pb = parseShowtime(b)!;
+            return pa.hh * 60 + pa.mm - (pb.hh * 60 + pb.mm);
+        });
+}
+
+/**
+ * The rule of a recurring event with every field validated and defaulted the
+ * way expandEventOccurrences reads it (used to export RRULEs)
+ */
+export function getRecurrenceRule(ev: RecurringEvent) {
+    const tz = ev.timezone || "America/New_York";
+    return {
+        freq: ev.recurrenceFreq,
+        interval: Math.min(Math.max(1, Math.trunc(ev.recurrenceInterval ?? 1)), MAX_RECURRENCE_INTERVAL),
+        count: ev.recurrenceCount
+            ? Math.min(Math.max(1, Math.trunc(ev.recurrenceCount)), MAX_RECURRENCE_COUNT)
+            : null,
+        weekdays: asWeekdayArray(ev.byWeekdayJson),
+        weekdayPos: asWeekdayPos(ev.byWeekdayPos),
+        monthDays: asMonthDayArray(ev.byMonthDayJson),
+        exDates: [...asExDateSet(ev.exDatesJson)],
+        // Start times only; each occurrence's end comes from the expansion
+        times: isValidTimezone(tz) ? sortedShowtimes(ev, tz).map((t) => parseShowtime(t)!.time) : [],
+    };
+}
+
+/**
+ * Whether a local day is part of the rule (ignoring times, COUNT and EXDATE)
+ *
+ * MONTHLY matches either the nth weekday (byWeekdayPos + byWeekday, e.g. 2nd
+ * Tuesday, -1 = last) or days of the month (byMonthDay, -1 = last day). Days
+ * that do not exist in a month (e.g. the 31st) are skipped, as in RFC 5545.
+ */
+function matchesRule(
+    day: Date,
+    start: Date,
+    rule: {
+        freq: Event["recurrenceFreq"];
+        interval: number;
+        weekdays: Set<number>;
+        weekdayPos: number | null;
+        monthDays: number[];
+    }
+): boolean {
+    const { freq, interval, weekdays, weekdayPos, monthDays } = rule;
+
+    if (freq === "DAILY") {
+        return (dayNumber(day) - dayNumber(start)) % interval === 0;
+    }
+
+    if (freq === "WEEKLY") {
+        const weeks = (weekStartNumber(day) - weekStartNumber(start)) / 7;
+        return weeks % interval === 0 && weekdays.has(day.getDay());
+    }
+
+    if (freq === "MONTHLY") {
+        const months = (day.getFullYear() - start.getFullYear()) * 12 + day.getMonth() - start.getMonth();
+        if (months % interval !== 0) return false;
+
+        const date = day.getDate();
+        const lastDay = daysInMonth(day);
+
+        if (weekdayPos !== null && weekdays.size > 0) {
+            if (!weekdays.has(day.getDay())) return false;
+            return weekdayPos === -1 ? date + 7 > lastDay : Math.ceil(date / 7) === weekdayPos;
+        }
+
+        const days = monthDays.length ? monthDays : [start.getDate()];
+        return days.some((d) => (d > 0 ? d === date : lastDay + d + 1 === date));
+    }
+
+    return false;
+}
+
+/**
+ * Expand one event into UTC occurrences between `from`..`until`
+ *
+ * Supports DAILY/WEEKLY/MONTHLY with an interval, COUNT (counted from the
+ * first occurrence, EXDATEs included, as in RFC 5545) and EXDATE exclusions.
+ * Showtimes are local to the event timezone, so they stay put across DST.
+ *
+ * `ev.overrides` cancel or change single occurrences. A rescheduled occurrence
+ * is matched against the window by its new time; cancelled ones are dropped
+ * unless `options.includeCancelled` (admin calendar) is set.
+ */
 export function expandEventOccurrences(
-    ev: Event,
+    ev: RecurringEvent,
     from: Date,
     until: Date,
-    limit = 200
+    limit = 200,
+    options: { includeCancelled?: boolean } = {}
 ): Occurrence[] {
     const out: Occurrence[] = [];
     
@@ -128,45 +362,55 @@ export function expandEventOccurrences(
                 timezone: tz,
                 world: ev.world,
                 category: ev.category,
+                occurrenceStart: new Date(ev.startAt),
             });
         }
         return out;
     }
 
-    let cursorLocal = toZonedTime(ev.startAt, tz);
-    const fromLocal = toZonedTime(from, tz);
-    if (isAfter(fromLocal, cursorLocal)) {
-        cursorLocal = set(fromLocal, { hours: 0, minutes: 0, seconds: 0, milliseconds: 0 });
-    } else {
-        cursorLocal = set(cursorLocal, { hours: 0, minutes: 0, seconds: 0, milliseconds: 0 });
-    }
-    const endLocal = toZonedTime(windowEnd, tz);
+    const interval = Math.min(Math.max(1, Math.trunc(ev.recurrenceInterval ?? 1)), MAX_RECURRENCE_INTERVAL);
+    const count = ev.recurrenceCount
+        ? Math.min(Math.max(1, Math.trunc(ev.recurrenceCount)), MAX_RECURRENCE_COUNT)
+        : null;
+    const exDates = asExDateSet(ev.exDatesJson);
+    const overrides = asOverrideMap(ev.overrides);
+
+    // Rescheduled occurrences may land in the window from just outside it, so
+    // walk the rule that much further; the series itself still ends at seriesEnd
+    const shiftMs = maxOverrideShiftMs(overrides);
+    const seriesEnd = ev.recurrenceUntil && isBefore(ev.recurrenceUntil, ev.endAt) ? ev.recurrenceUntil : ev.endAt;
+    const walkEnd = new Date(Math.min(until.getTime() + shiftMs, seriesEnd.getTime()));
+
+    const startLocal = toZonedTime(ev.startAt, tz);
+    const fromLocal = toZonedTime(new Date(from.getTime() - shiftMs), tz);
+    // COUNT is counted from the first occurrence, so walk from the series start
+    let cursorLocal = count === null && isAfter(fromLocal, startLocal) ? fromLocal : startLocal;
+    cursorLocal = set(cursorLocal, { hours: 0, minutes: 0, seconds: 0, milliseconds: 0 });
+    const endLocal = toZonedTime(walkEnd, tz);
 
-    const times = asStringArray(ev.timesJson);
     const weekdays = asWeekdayArray(ev.byWeekdayJson);
-    const timesBase = times.length ? times : [toHHmmFromDate(ev.startAt, tz)];
-    
-    // Limit number of time slots to prevent DoS attacks
-    const limitedTimes = timesBase.slice(0, MAX_TIME_SLOTS);
-    
-    const sortedTimes = limitedTimes
-        .map((s) => s.trim())
-        .filter((s) => !!parseHHmm(s))
-        .sort((a, b) => {
-            const pa = parseHHmm(a)!;
-            const pb = parseHHmm(b)!;
-            return pa.hh * 60 + pa.mm - (pb.hh * 60 + pb.mm);
-        });
+    const sortedTimes = sortedShowtimes(ev, tz);
     
     // If no valid times, return early (data corruption or attack)
     if (sortedTimes.length === 0) return out;
 
-    // Pre-compute allowed weekdays Set for WEEKLY frequency (optimization)
-    const weeklyAllowed = new Set(weekdays.map((w) => WD_MAP[w]));
+    // Pre-compute the rule once (allowed weekdays as 0..6 for WEEKLY and MONTHLY)
+    const rule = {
+        freq: ev.recurrenceFreq,
+        interval,
+        weekdays: new Set(weekdays.map((w) => WD_MAP[w])),
+        weekdayPos: asWeekdayPos(ev.byWeekdayPos),
+        monthDays: asMonthDayArray(ev.byMonthDayJson),
+    };
+
+    // Occurrences generated so far, including excluded and out-of-window ones (for COUNT)
+    let generated = 0;
 
     const pushForDay = (localDay: Date): boolean => {
+        const dateKey = localDateKey(localDay);
+
         for (const t of sortedTimes) {
-            const parsed = parseHHmm(t);
+            const parsed = parseShowtime(t);
             if (!parsed) continue;
             const { hh, mm } = parsed;
             
@@ -176,23 +420,41 @@ export function expandEventOccurrences(
             if (!isValid(localStart)) continue;
             
             const utcStart = fromZonedTime(localStart, tz);
-            const utcEnd = new Date(utcStart.getTime() + durationMs);
+            const utcEnd = new Date(utcStart.getTime() + (parsed.durationMs ?? durationMs));
             
             // Validate end date is valid
             if (!isValid(utcEnd)) continue;
+
+            // The series starts at startAt; earlier showtimes on the first day are not part of it
+            if (isBefore(utcStart, ev.startAt)) continue;
+
+            if (count !== null && generated >= count) return true;
+            generated++;
+
+            if (exDates.has(dateKey) || exDates.has(`${dateKey}T${parsed.time}`)) continue;
+
+            // Occurrences after the series end are not generated (COUNT included)
+            if (isAfter(utcStart, seriesEnd)) continue;
+
+            const occurrence = applyOccurrenceOverride(
+                {
+                    eventId: ev.id,
+                    title: ev.title,
+                    start: utcStart,
+                    end: utcEnd,
+                    timezone: tz,
+                    world: ev.world,
+                    category: ev.category,
+                    occurrenceStart: utcStart,
+                },
+                overrides.get(utcStart.getTime())
+            );
+            if (occurrence.override === "cancelled" && !options.includeCancelled) continue;
             
             // Skip occurrences outside the requested window (include ongoing: end > from)
-            if (isBefore(utcEnd, from) || isAfter(utcStart, windowEnd)) continue;
+            if (isBefore(occurrence.end, from) || isAfter(occurrence.start, until)) continue;
             
-            out.push({
-                eventId: ev.id,
-                title: ev.title,
-                start: utcStart,
-                end: utcEnd,
-                timezone: tz,
-                world: ev.world,
-                category: ev.category,
-            });
+            out.push(occurrence);
             
             // Stop if we've reached the limit
             if (out.length >= safeLimit) return true;
@@ -201,18 +463,51 @@ export function expandEventOccurrences(
     };
 
     while (!isAfter(cursorLocal, endLocal) && out.length < safeLimit) {
-        const weekday = cursorLocal.getDay(); // 0..6
-
-        if (ev.recurrenceFreq === "DAILY") {
+        if (matchesRule(cursorLocal, startLocal, rule)) {
             if (pushForDay(cursorLocal)) break;
-        } else if (ev.recurrenceFreq === "WEEKLY") {
-            if (weeklyAllowed.has(weekday)) {
-                if (pushForDay(cursorLocal)) break;
-            }
         }
 
         cursorLocal = addDays(cursorLocal, 1);
     }
 
+    // Rescheduled occurrences can be out of order
+    if (shiftMs > 0) out.sort((a, b) => a.start.getTime() - b.start.getTime());
+
     return out;
 }
+
+/**
+ * The occurrence the rule generates at exactly `occurrenceStart` (overrides
+ * applied), or null when there is none or it is cancelled
+ */
+export function findOccurrence(ev: RecurringEvent, occurrenceStart: Date): Occurrence | null {
+    const shiftMs = MAX_OVERRIDE_SHIFT_DAYS * 24 * 60 * 60 * 1000;
+    const from = new Date(occurrenceStart.getTime() - shiftMs);
+    const until = new Date(occurrenceStart.getTime() + shiftMs);
+    return expandEventOccurrences(ev, from, until, 1000).find(
+        (o) => o.occurrenceStart.getTime() === occurrenceStart.getTime()
+    ) ?? null;
+}
+
+/** Occurrence as changed by its override (cancelled ones are flagged, not dropped) */
+export function applyOccurrenceOverride(occurrence: Occurrence, override: OccurrenceOverride | undefined): Occurrence {
+    if (!override) return occurrence;
+    if (override.cancelled) return { ...occurrence, override: "cancelled" };
+
+    const start = override.startAt ? new Date(override.startAt) : occurrence.start;
+    const end = override.endAt
+        ? new Date(override.endAt)
+        : new Date(start.getTime() + occurrence.end.getTime() - occurrence.start.getTime());
+    if (!isValid(start) || !isBefore(start, end)) return occurrence;
+
+    return {
+        ...occurrence,
+        start,
+        end,
+        title: override.title || occurrence.title,
+        world: override.world || occurrence.world,
+        ...(override.shortDescription && { shortDescription: override.shortDescription }),
+        ...(override.details && { details: override.details }),
+        override: "modified",
+    };
+}
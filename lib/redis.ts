@@ -0,0 +1,44 @@
+/**
+ * Redis Connections
+ *
+ * Shared ioredis connection factory. Redis is optional: features that use it
+ * (event bus, cache) fall back to in-memory implementations when REDIS_URL is unset.
+ */
+
+import Redis, { type RedisOptions } from "ioredis";
+
+/**
+ * Configured Redis URL, or null when Redis is not in use
+ */
+export function getRedisUrl(): string | null {
+  return process.env['REDIS_URL'] || null;
+}
+
+export function isRedisConfigured(): boolean {
+  return getRedisUrl() !== null;
+}
+
+/**
+ * Open a new named connection
+ *
+ * Subscriber connections cannot run regular commands, so callers that need
+ * pub/sub must open a dedicated connection for it.
+ */
+export function createRedisConnection(name: string, options: RedisOptions = {}): Redis {
+  const url = getRedisUrl();
+  if (!url) {
+    throw new Error("REDIS_URL is not configured");
+  }
+
+  const client = new Redis(url, {
+    connectionName: `imaginears:${name}`,
+    maxRetriesPerRequest: 3,
+    ...options,
+  });
+
+  client.on("error", (error) => {
+    console.error(`[Redis:${name}] Connection error:`, error.message);
+  });
+
+  return client;
+}
@@ -0,0 +1,306 @@
+/**
+ * Minecraft Server Network
+ *
+ * The network is the list of servers in `AppSettings.minecraft.servers`
+ * (a proxy plus its backends). This module resolves that registry, pings
+ * every enabled server, aggregates the result into one network status and
+ * tracks outages as incidents.
+ *
+ * Aggregation:
+ * - Online: the proxy's state, or any server online when there is no proxy
+ * - Players: the proxy's count (it already includes every backend), or the
+ *   sum of backends when there is no proxy
+ *
+ * Incidents are opened by the status poller after INCIDENT_FAILURE_THRESHOLD
+ * consecutive offline samples and resolved by the first online sample.
+ */
+
+import { prisma } from "./prisma";
+import { cache, cacheKeys, cacheTags, cacheTTL } from "./cache";
+import {
+  getMinecraftServerStatus,
+  getMinecraftStatusSettings,
+  sanitizeServerAddress,
+  type MinecraftEdition,
+  type MinecraftServerEntry,
+  type MinecraftServerStatus,
+  type MinecraftStatusSettings,
+} from "./minecraft-status";
+import { getDefaultServerAddress, getStatusHistory } from "./server-status-history";
+
+export const INCIDENT_FAILURE_THRESHOLD = 2;
+
+export type NetworkServerStatus = {
+  id: string;
+  name: string;
+  role: MinecraftServerEntry["role"];
+  address: string;
+  edition: MinecraftEdition;
+  public: boolean;
+  online: boolean;
+  playersOnline: number;
+  playersMax: number;
+  latency: number | null;
+  version: string | null;
+  error: string | null;
+  /** null until the poller has sampled the server */
+  uptime24h: number | null;
+};
+
+export type NetworkStatus = {
+  online: boolean;
+  playersOnline: number;
+  playersMax: number;
+  serversOnline: number;
+  serversTotal: number;
+  /** Status of the proxy (or first server), for version, MOTD and favicon */
+  primary: MinecraftServerStatus & { address: string };
+  servers: NetworkServerStatus[];
+  checkedAt: string;
+};
+
+export type ServerIncident = {
+  id: string;
+  serverId: string;
+  serverName: string;
+  startedAt: string;
+  resolvedAt: string | null;
+  durationMs: number;
+  error: string | null;
+  failedChecks: number;
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * Registry used until servers are configured: the single default server
+ */
+function defaultRegistry(): MinecraftServerEntry[] {
+  return [
+    {
+      id: "main",
+      name: "Main Server",
+      address: getDefaultServerAddress(),
+      role: "proxy",
+      public: true,
+      enabled: true,
+    },
+  ];
+}
+
+/**
+ * Enabled servers of the registry, falling back to MINECRAFT_SERVER_ADDRESS
+ */
+export async function getServerRegistry(
+  settings?: MinecraftStatusSettings
+): Promise<MinecraftServerEntry[]> {
+  const resolved = settings ?? (await getMinecraftStatusSettings());
+  const servers = (resolved.servers ?? []).filter((server) => server.enabled);
+  return servers.length > 0 ? servers : defaultRegistry();
+}
+
+/**
+ * Server whose status represents the whole network
+ */
+export function getPrimaryServer(servers: MinecraftServerEntry[]): MinecraftServerEntry | undefined {
+  return servers.find((server) => server.role === "proxy") ?? servers[0];
+}
+
+// ============================================================================
+// Live status
+// ============================================================================
+
+async function getUptime24h(address: string): Promise<number | null> {
+  try {
+    const history = await cache.getOrSet(
+      cacheKeys.serverStatusHistory(address, "24h"),
+      () => getStatusHistory(address, "24h"),
+      { ttl: cacheTTL.serverStatusHistory }
+    );
+    return history.uptimePercentage;
+  } catch {
+    return null;
+  }
+}
+
+async function checkServer(
+  server: MinecraftServerEntry,
+  settings: MinecraftStatusSettings
+): Promise<{ server: NetworkServerStatus; status: MinecraftServerStatus }> {
+  const edition = server.edition ?? settings.edition;
+  const [status, uptime24h] = await Promise.all([
+    getMinecraftServerStatus(server.address, {
+      statusProvider: settings.statusProvider,
+      timeoutMs: settings.timeoutMs,
+      edition,
+    }),
+    getUptime24h(server.address),
+  ]);
+
+  return {
+    status,
+    server: {
+      id: server.id,
+      name: server.name,
+      role: server.role,
+      address: server.address,
+      edition,
+      public: server.public,
+      online: status.online,
+      playersOnline: status.online ? status.playersOnline ?? 0 : 0,
+      playersMax: status.playersMax ?? 0,
+      latency: status.latency ?? null,
+      version: status.version ?? null,
+      error: status.error ?? null,
+      uptime24h,
+    },
+  };
+}
+
+async function loadNetworkStatus(): Promise<NetworkStatus> {
+  const settings = await getMinecraftStatusSettings();
+  const registry = await getServerRegistry(settings);
+  const results = await Promise.all(registry.map((server) => checkServer(server, settings)));
+
+  const primaryEntry = getPrimaryServer(registry);
+  const primary = results.find((result) => result.server.id === primaryEntry?.id) ?? results[0];
+  const servers = results.map((result) => result.server);
+  const hasProxy = registry.some((server) => server.role === "proxy");
+  const backends = servers.filter((server) => server.role === "backend");
+
+  const online = hasProxy ? primary!.server.online : servers.some((server) => server.online);
+  const playersOnline = hasProxy
+    ? primary!.server.playersOnline
+    : backends.reduce((sum, server) => sum + server.playersOnline, 0);
+  const playersMax = hasProxy
+    ? primary!.server.playersMax
+    : backends.reduce((sum, server) => sum + server.playersMax, 0);
+
+  return {
+    online,
+    playersOnline,
+    playersMax,
+    serversOnline: servers.filter((server) => server.online).length,
+    serversTotal: servers.length,
+    primary: { ...primary!.status, address: primary!.server.address },
+    servers,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Live status of every enabled server plus the network aggregate
+ *
+ * Cached for cacheTTL.networkStatus and dropped when settings change.
+ *
+ * @param options.includePrivate - Keep servers not marked public in `servers`
+ *   (the aggregate always covers the whole network)
+ */
+export async function getNetworkStatus(
+  options: { includePrivate?: boolean } = {}
+): Promise<NetworkStatus> {
+  const status = await cache.getOrSet(cacheKeys.networkStatus(), loadNetworkStatus, {
+    ttl: cacheTTL.networkStatus,
+    tags: [cacheTags.settings],
+  });
+
+  if (options.includePrivate) return status;
+  return { ...status, servers: status.servers.filter((server) => server.public) };
+}
+
+// ============================================================================
+// Incidents
+// ============================================================================
+
+/**
+ * Open, extend or resolve the incident of a server after a poll
+ *
+ * Call after the sample has been recorded so the consecutive-failure check
+ * sees it.
+ */
+export async function trackServerIncident(
+  server: MinecraftServerEntry,
+  status: MinecraftServerStatus,
+  now = new Date()
+): Promise<"opened" | "resolved" | null> {
+  const open = await prisma.serverStatusIncident.findFirst({
+    where: { serverId: server.id, resolvedAt: null },
+    orderBy: { startedAt: "desc" },
+  });
+
+  if (status.online) {
+    if (!open) return null;
+    await prisma.serverStatusIncident.update({
+      where: { id: open.id },
+      data: { resolvedAt: now },
+    });
+    return "resolved";
+  }
+
+  if (open) {
+    await prisma.serverStatusIncident.update({
+      where: { id: open.id },
+      data: { failedChecks: { increment: 1 }, ...(status.error && { error: status.error }) },
+    });
+    return null;
+  }
+
+  const recent = await prisma.serverStatusSample.findMany({
+    where: { serverAddress: sanitizeServerAddress(server.address), checkedAt: { lte: now } },
+    orderBy: { checkedAt: "desc" },
+    take: INCIDENT_FAILURE_THRESHOLD,
+    select: { online: true, checkedAt: true },
+  });
+
+  if (recent.length < INCIDENT_FAILURE_THRESHOLD || recent.some((sample) => sample.online)) {
+    return null;
+  }
+
+  await prisma.serverStatusIncident.create({
+    data: {
+      serverId: server.id,
+      serverName: server.name,
+      serverAddress: server.address,
+      startedAt: recent[recent.length - 1]!.checkedAt,
+      failedChecks: recent.length,
+      error: status.error ?? null,
+    },
+  });
+  return "opened";
+}
+
+/**
+ * Incidents started within the last `days`, newest first
+ *
+ * @param options.serverIds - Limit to these registry ids (e.g. public servers)
+ */
+export async function getIncidentHistory(
+  options: { serverIds?: string[]; days?: number; limit?: number } = {},
+  now = new Date()
+): Promise<ServerIncident[]> {
+  const { serverIds, days = 30, limit = 50 } = options;
+  const since = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  const incidents = await prisma.serverStatusIncident.findMany({
+    where: {
+      // Ongoing incidents are listed however long ago they started
+      OR: [{ startedAt: { gte: since } }, { resolvedAt: null }],
+      ...(serverIds && { serverId: { in: serverIds } }),
+    },
+    orderBy: { startedAt: "desc" },
+    take: limit,
+  });
+
+  return incidents.map((incident) => ({
+    id: incident.id,
+    serverId: incident.serverId,
+    serverName: incident.serverName,
+    startedAt: incident.startedAt.toISOString(),
+    resolvedAt: incident.resolvedAt?.toISOString() ?? null,
+    durationMs: (incident.resolvedAt ?? now).getTime() - incident.startedAt.getTime(),
+    error: incident.error,
+    failedChecks: incident.failedChecks,
+  }));
+}
@@ -0,0 +1,292 @@
+/**
+ * Minecraft Server Status History
+ *
+ * Persists status samples taken by the status poller (`npm run status:poller`)
+ * so uptime and player charts survive deploys and agree across instances.
+ *
+ * Downsampling:
+ * - Raw samples (one per poll) are kept for 48 hours
+ * - Each completed hour is rolled up into a ServerStatusRollup row, kept for a year
+ *
+ * The 24h range reads raw samples; 7d and 30d read rollups plus the raw samples
+ * of the current, not yet rolled up, hour.
+ */
+
+import { prisma } from "./prisma";
+import {
+  getMinecraftServerStatus,
+  sanitizeServerAddress,
+  type MinecraftServerStatus,
+  type MinecraftStatusOptions,
+} from "./minecraft-status";
+
+export const RAW_RETENTION_MS = 48 * 60 * 60 * 1000;
+export const ROLLUP_RETENTION_MS = 365 * 24 * 60 * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type StatusHistoryRange = "24h" | "7d" | "30d";
+
+export const STATUS_HISTORY_RANGES: Record<StatusHistoryRange, { durationMs: number; bucketMs: number }> = {
+  "24h": { durationMs: 24 * HOUR_MS, bucketMs: 10 * 60 * 1000 }, // 144 points
+  "7d": { durationMs: 7 * 24 * HOUR_MS, bucketMs: HOUR_MS }, // 168 points
+  "30d": { durationMs: 30 * 24 * HOUR_MS, bucketMs: 6 * HOUR_MS }, // 120 points
+};
+
+export type StatusHistoryPoint = {
+  timestamp: number;
+  /** Average players over online samples in the bucket */
+  count: number;
+  peak: number;
+  /** Percentage of samples in the bucket where the server was online */
+  uptime: number;
+};
+
+export type StatusHistory = {
+  serverAddress: string;
+  range: StatusHistoryRange;
+  /** null until at least one sample exists in the range */
+  uptimePercentage: number | null;
+  peakPlayers: number;
+  avgLatencyMs: number | null;
+  samples: number;
+  points: StatusHistoryPoint[];
+};
+
+/**
+ * Default server polled and shown on the dashboard and home page
+ */
+export function getDefaultServerAddress(): string {
+  return process.env['MINECRAFT_SERVER_ADDRESS'] || "iears.us";
+}
+
+function startOfHour(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / HOUR_MS) * HOUR_MS);
+}
+
+function roundPercentage(part: number, total: number): number {
+  return Math.round((part / total) * 1000) / 10;
+}
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+type Bucket = {
+  samples: number;
+  onlineSamples: number;
+  peak: number;
+  playerSum: number;
+  latencySum: number;
+  latencyCount: number;
+};
+
+function emptyBucket(): Bucket {
+  return { samples: 0, onlineSamples: 0, peak: 0, playerSum: 0, latencySum: 0, latencyCount: 0 };
+}
+
+function addSample(
+  bucket: Bucket,
+  sample: { online: boolean; playersOnline: number; latencyMs: number | null }
+): void {
+  bucket.samples++;
+  if (!sample.online) return;
+
+  bucket.onlineSamples++;
+  bucket.playerSum += sample.playersOnline;
+  bucket.peak = Math.max(bucket.peak, sample.playersOnline);
+  if (sample.latencyMs !== null) {
+    bucket.latencySum += sample.latencyMs;
+    bucket.latencyCount++;
+  }
+}
+
+function addRollup(
+  bucket: Bucket,
+  rollup: { samples: number; onlineSamples: number; peakPlayers: number; avgPlayers: number; avgLatencyMs: number | null }
+): void {
+  bucket.samples += rollup.samples;
+  bucket.onlineSamples += rollup.onlineSamples;
+  bucket.playerSum += rollup.avgPlayers * rollup.onlineSamples;
+  bucket.peak = Math.max(bucket.peak, rollup.peakPlayers);
+  if (rollup.avgLatencyMs !== null) {
+    bucket.latencySum += rollup.avgLatencyMs * rollup.onlineSamples;
+    bucket.latencyCount += rollup.onlineSamples;
+  }
+}
+
+function toPoint(timestamp: number, bucket: Bucket): StatusHistoryPoint {
+  return {
+    timestamp,
+    count: bucket.onlineSamples > 0 ? Math.round((bucket.playerSum / bucket.onlineSamples) * 10) / 10 : 0,
+    peak: bucket.peak,
+    uptime: bucket.samples > 0 ? roundPercentage(bucket.onlineSamples, bucket.samples) : 0,
+  };
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Store one status sample
+ */
+export async function recordStatusSample(
+  serverAddress: string,
+  status: MinecraftServerStatus,
+  checkedAt = new Date()
+): Promise<void> {
+  await prisma.serverStatusSample.create({
+    data: {
+      serverAddress: sanitizeServerAddress(serverAddress),
+      online: status.online,
+      playersOnline: status.online ? status.playersOnline ?? 0 : 0,
+      playersMax: status.playersMax ?? 0,
+      latencyMs: status.online ? status.latency ?? null : null,
+      checkedAt,
+    },
+  });
+}
+
+/**
+ * Query the server and store the result
+ */
+export async function pollServerStatus(
+  serverAddress: string,
+  options: Partial<MinecraftStatusOptions> = {}
+): Promise<MinecraftServerStatus> {
+  const status = await getMinecraftServerStatus(serverAddress, options);
+  await recordStatusSample(serverAddress, status);
+  return status;
+}
+
+/**
+ * Roll raw samples up into hourly rows
+ *
+ * Re-rolls every completed hour still covered by raw samples, so it is
+ * idempotent and catches samples that arrived after an earlier run.
+ *
+ * @returns Number of hourly rows written
+ */
+export async function rollupStatusHistory(now = new Date()): Promise<number> {
+  const currentHour = startOfHour(now);
+  const from = startOfHour(new Date(now.getTime() - RAW_RETENTION_MS));
+
+  const samples = await prisma.serverStatusSample.findMany({
+    where: { checkedAt: { gte: from, lt: currentHour } },
+    select: { serverAddress: true, online: true, playersOnline: true, latencyMs: true, checkedAt: true },
+  });
+
+  const buckets = new Map<string, { serverAddress: string; bucketStart: Date; bucket: Bucket }>();
+  for (const sample of samples) {
+    const bucketStart = startOfHour(sample.checkedAt);
+    const key = `${sample.serverAddress}|${bucketStart.getTime()}`;
+    let entry = buckets.get(key);
+    if (!entry) {
+      entry = { serverAddress: sample.serverAddress, bucketStart, bucket: emptyBucket() };
+      buckets.set(key, entry);
+    }
+    addSample(entry.bucket, sample);
+  }
+
+  for (const { serverAddress, bucketStart, bucket } of buckets.values()) {
+    const data = {
+      samples: bucket.samples,
+      onlineSamples: bucket.onlineSamples,
+      peakPlayers: bucket.peak,
+      avgPlayers: bucket.onlineSamples > 0 ? bucket.playerSum / bucket.onlineSamples : 0,
+      avgLatencyMs: bucket.latencyCount > 0 ? Math.round(bucket.latencySum / bucket.latencyCount) : null,
+    };
+
+    await prisma.serverStatusRollup.upsert({
+      where: { serverAddress_bucketStart: { serverAddress, bucketStart } },
+      create: { serverAddress, bucketStart, ...data },
+      update: data,
+    });
+  }
+
+  return buckets.size;
+}
+
+/**
+ * Delete raw samples older than 48 hours and rollups older than a year
+ */
+export async function pruneStatusHistory(now = new Date()): Promise<{ samples: number; rollups: number }> {
+  const [samples, rollups] = await Promise.all([
+    prisma.serverStatusSample.deleteMany({
+      where: { checkedAt: { lt: new Date(now.getTime() - RAW_RETENTION_MS) } },
+    }),
+    prisma.serverStatusRollup.deleteMany({
+      where: { bucketStart: { lt: new Date(now.getTime() - ROLLUP_RETENTION_MS) } },
+    }),
+  ]);
+
+  return { samples: samples.count, rollups: rollups.count };
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Uptime and player history for a range, bucketed for charting
+ */
+export async function getStatusHistory(
+  serverAddress: string,
+  range: StatusHistoryRange,
+  now = new Date()
+): Promise<StatusHistory> {
+  const address = sanitizeServerAddress(serverAddress);
+  const { durationMs, bucketMs } = STATUS_HISTORY_RANGES[range];
+  const since = new Date(now.getTime() - durationMs);
+
+  const buckets = new Map<number, Bucket>();
+  const total = emptyBucket();
+  const bucketFor = (time: Date): Bucket => {
+    const start = Math.floor(time.getTime() / bucketMs) * bucketMs;
+    let bucket = buckets.get(start);
+    if (!bucket) {
+      bucket = emptyBucket();
+      buckets.set(start, bucket);
+    }
+    return bucket;
+  };
+
+  // Raw samples cover the whole 24h range, or only the current hour on longer ranges
+  const rawSince = range === "24h" ? since : startOfHour(now);
+
+  if (range !== "24h") {
+    const rollups = await prisma.serverStatusRollup.findMany({
+      where: { serverAddress: address, bucketStart: { gte: startOfHour(since), lt: rawSince } },
+      orderBy: { bucketStart: "asc" },
+    });
+    for (const rollup of rollups) {
+      addRollup(bucketFor(rollup.bucketStart), rollup);
+      addRollup(total, rollup);
+    }
+  }
+
+  const samples = await prisma.serverStatusSample.findMany({
+    where: { serverAddress: address, checkedAt: { gte: rawSince, lte: now } },
+    select: { online: true, playersOnline: true, latencyMs: true, checkedAt: true },
+    orderBy: { checkedAt: "asc" },
+  });
+  for (const sample of samples) {
+    addSample(bucketFor(sample.checkedAt), sample);
+    addSample(total, sample);
+  }
+
+  const points = Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([timestamp, bucket]) => toPoint(timestamp, bucket));
+
+  return {
+    serverAddress: address,
+    range,
+    uptimePercentage: total.samples > 0 ? roundPercentage(total.onlineSamples, total.samples) : null,
+    peakPlayers: total.peak,
+    avgLatencyMs: total.latencyCount > 0 ? Math.round(total.latencySum / total.latencyCount) : null,
+    samples: total.samples,
+    points,
+  };
+}
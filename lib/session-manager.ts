@@ -14,6 +14,7 @@ import {
   type SessionContext,
   type ActivityLog,
 } from "./session-utils";
+import type { DisconnectTarget } from "./websocket-server";
 
 // ========== SESSION CREATION & ENHANCEMENT ==========
 
@@ -237,6 +238,16 @@ export async function validateSession(sessionId: string) {
   };
 }
 
+/**
+ * Close WebSocket connections of revoked sessions (loaded lazily; the
+ * WebSocket server imports this module through user-suspension)
+ */
+function closeRealtimeSockets(target: DisconnectTarget) {
+  import("./websocket-server")
+    .then(({ disconnectClients }) => disconnectClients(target))
+    .catch((error) => console.error("[Session] Failed to close realtime connections:", error));
+}
+
 /**
  * Revoke a session
  */
@@ -257,6 +268,8 @@ export async function revokeSession(sessionId: string) {
       where: { id: sessionId },
     });
 
+    closeRealtimeSockets({ sessionIds: [sessionId], reason: "Session revoked" });
+
     return { success: true };
   } catch (error) {
     console.error("[Session] Failed to revoke session:", error);
@@ -276,6 +289,12 @@ export async function revokeAllSessions(userId: string, exceptSessionId?: string
 
     const count = await prisma.session.deleteMany({ where });
 
+    closeRealtimeSockets({
+      userId,
+      ...(exceptSessionId && { exceptSessionId }),
+      reason: "Session revoked",
+    });
+
     return { success: true, count: count.count };
   } catch (error) {
     console.error("[Session] Failed to revoke all sessions:", error);
@@ -7,10 +7,12 @@
  * - Suspicious activity
  * - Session terminations
  * 
- * Can be integrated with WebSocket or Server-Sent Events (SSE)
+ * Events are published on the event bus (lib/event-bus.ts) so every app instance
+ * sees events emitted by the others, and pushed to the user's WebSocket clients.
  */
 
 import { prisma } from './prisma';
+import { EVENT_TOPICS, getEventBus, publishEvent } from './event-bus';
 
 export interface SessionEvent {
   type: 'session_created' | 'session_updated' | 'session_terminated' | 'activity_detected' | 'security_alert';
@@ -21,13 +23,30 @@ export interface SessionEvent {
   severity: 'info' | 'warning' | 'critical';
 }
 
-// In-memory event queue (in production, use Redis or similar)
+// Recent events per user, filled from the event bus (includes events from other instances)
 const eventQueue = new Map<string, SessionEvent[]>();
 
+let subscribed = false;
+
 /**
- * Emit a session event
+ * Start collecting bus events into the local queue (once per process)
  */
-export function emitSessionEvent(event: SessionEvent) {
+function ensureSubscribed() {
+  if (subscribed) return;
+  subscribed = true;
+
+  getEventBus()
+    .subscribe<SessionEvent>(EVENT_TOPICS.SESSION_EVENTS, (event) => {
+      // Dates arrive as ISO strings after serialization
+      queueEvent({ ...event, timestamp: new Date(event.timestamp) });
+    })
+    .catch((error) => {
+      subscribed = false;
+      console.error('[Session Event] Failed to subscribe to event bus:', error);
+    });
+}
+
+function queueEvent(event: SessionEvent) {
   const userEvents = eventQueue.get(event.userId) || [];
   userEvents.push(event);
   
@@ -37,17 +56,33 @@ export function emitSessionEvent(event: SessionEvent) {
   }
   
   eventQueue.set(event.userId, userEvents);
+}
+
+/**
+ * Emit a session event
+ */
+export function emitSessionEvent(event: SessionEvent) {
+  ensureSubscribed();
+  publishEvent(EVENT_TOPICS.SESSION_EVENTS, event);
   
   console.log(`[Session Event] ${event.type} for user ${event.userId}`);
   
-  // In production, broadcast via WebSocket or SSE
-  // broadcastToUser(event.userId, event);
+  // Push to the user's open tabs
+  import('./websocket-server')
+    .then(({ sendToUser }) => {
+      sendToUser(event.userId, 'data:session:update', {
+        sessionId: event.sessionId,
+        changes: { type: event.type, severity: event.severity, ...event.data },
+      });
+    })
+    .catch((error) => console.error('[Session Event] Failed to broadcast:', error));
 }
 
 /**
  * Get events for a user
  */
 export function getUserEvents(userId: string, limit: number = 50): SessionEvent[] {
+  ensureSubscribed();
   const events = eventQueue.get(userId) || [];
   return events.slice(-limit);
 }
@@ -365,27 +400,49 @@ export async function generateSessionTimeline(userId: string, days: number = 30)
 
 /**
  * Stream session events (for SSE/WebSocket)
+ *
+ * Resolves once the bus subscription is in place, so every event published
+ * after that is delivered. Stop with return() (or by leaving a for await loop).
  */
-export async function* streamSessionEvents(userId: string) {
-  // This is a generator function for streaming events
-  // In production, integrate with Redis pub/sub or similar
-  
-  let lastCheck = Date.now();
-  
-  while (true) {
-    // Check for new events
-    const events = getUserEvents(userId);
-    const newEvents = events.filter(e => e.timestamp.getTime() > lastCheck);
-    
-    for (const event of newEvents) {
-      yield event;
-    }
-    
-    lastCheck = Date.now();
-    
-    // Wait 1 second before next check
-    await new Promise(resolve => setTimeout(resolve, 1000));
-  }
+export async function streamSessionEvents(userId: string): Promise<AsyncIterableIterator<SessionEvent>> {
+  // Subscribe directly so events from every instance are yielded as they arrive
+  const pending: SessionEvent[] = [];
+  let wake: (() => void) | null = null;
+  let closed = false;
+
+  const unsubscribe = await getEventBus().subscribe<SessionEvent>(EVENT_TOPICS.SESSION_EVENTS, (event) => {
+    if (closed || event.userId !== userId) return;
+    pending.push({ ...event, timestamp: new Date(event.timestamp) });
+    wake?.();
+  });
+
+  const iterator: AsyncIterableIterator<SessionEvent> = {
+    async next(): Promise<IteratorResult<SessionEvent>> {
+      while (!closed) {
+        const event = pending.shift();
+        if (event) return { done: false, value: event };
+
+        await new Promise<void>(resolve => {
+          wake = resolve;
+        });
+        wake = null;
+      }
+      return { done: true, value: undefined };
+    },
+    async return(): Promise<IteratorResult<SessionEvent>> {
+      if (!closed) {
+        closed = true;
+        pending.length = 0;
+        wake?.();
+        await unsubscribe();
+      }
+      return { done: true, value: undefined };
+    },
+    [Symbol.asyncIterator]() {
+      return iterator;
+    },
+  };
+  return iterator;
 }
 
 /**
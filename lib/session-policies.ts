@@ -10,8 +10,11 @@
  */
 
 import { prisma } from './prisma';
+import { Prisma, type SessionPolicy as SessionPolicyRecord } from '@prisma/client';
 import IPCIDR from 'ip-cidr';
 import { log } from './logger';
+import { auditLog } from './audit-logger';
+import { parseUserAgent, getLocationFromIP } from './session-utils';
 
 export interface SessionPolicy {
   id: string;
@@ -36,7 +39,7 @@ export interface SessionPolicy {
   blockedDeviceTypes: string[];
   
   // Session Limits
-  maxConcurrentSessions: number;
+  maxConcurrentSessions: number; // 0 = unlimited
   requireFingerprintMatch: boolean;
   
   // Security
@@ -53,20 +56,199 @@ export interface SessionPolicy {
   updatedAt: Date;
 }
 
+export type SessionPolicyRules = Omit<SessionPolicy, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Stored policy overrides - null clears a field so it inherits again
+ */
+export type SessionPolicyOverrides = {
+  [K in keyof SessionPolicyRules]?: SessionPolicyRules[K] | null | undefined;
+};
+
+export type SessionPolicyScope = 'user' | 'role';
+
+const JSON_POLICY_FIELDS = [
+  'allowedIPs',
+  'blockedIPs',
+  'allowedCountries',
+  'blockedCountries',
+  'allowedDays',
+  'allowedDeviceTypes',
+  'blockedDeviceTypes',
+] as const satisfies readonly (keyof SessionPolicyRules)[];
+
+const SCALAR_POLICY_FIELDS = [
+  'allowedTimeStart',
+  'allowedTimeEnd',
+  'timezone',
+  'maxConcurrentSessions',
+  'requireFingerprintMatch',
+  'requireStepUpForSensitiveActions',
+  'autoLogoutOnLocationChange',
+  'autoLogoutOnIPChange',
+  'notifyOnNewDevice',
+  'notifyOnNewLocation',
+  'notifyOnSuspiciousActivity',
+] as const satisfies readonly (keyof SessionPolicyRules)[];
+
+/**
+ * Extract the fields a stored policy actually sets (non-null columns)
+ */
+function getStoredOverrides(record: SessionPolicyRecord): Partial<SessionPolicyRules> {
+  const overrides: Record<string, unknown> = {};
+
+  for (const field of JSON_POLICY_FIELDS) {
+    const value = record[field];
+    if (Array.isArray(value)) {
+      overrides[field] = value;
+    }
+  }
+
+  for (const field of SCALAR_POLICY_FIELDS) {
+    const value = record[field];
+    if (value !== null) {
+      overrides[field] = value;
+    }
+  }
+
+  return overrides as Partial<SessionPolicyRules>;
+}
+
+/**
+ * Convert policy overrides into Prisma column data
+ */
+function toRecordData(updates: SessionPolicyOverrides): Prisma.SessionPolicyUncheckedUpdateInput {
+  const data: Record<string, unknown> = {};
+
+  for (const field of JSON_POLICY_FIELDS) {
+    if (field in updates) {
+      const value = updates[field];
+      data[field] = value === null || value === undefined ? Prisma.DbNull : value;
+    }
+  }
+
+  for (const field of SCALAR_POLICY_FIELDS) {
+    if (field in updates) {
+      data[field] = updates[field] ?? null;
+    }
+  }
+
+  return data as Prisma.SessionPolicyUncheckedUpdateInput;
+}
+
+/**
+ * Resolve the effective policy: built-in default < role policy < user policy
+ */
+function resolvePolicy(
+  userId: string,
+  rolePolicy: SessionPolicyRecord | null,
+  userPolicy: SessionPolicyRecord | null
+): SessionPolicy {
+  const base = getDefaultPolicy(userId);
+  const mostSpecific = userPolicy ?? rolePolicy;
+
+  return {
+    ...base,
+    ...(rolePolicy ? getStoredOverrides(rolePolicy) : {}),
+    ...(userPolicy ? getStoredOverrides(userPolicy) : {}),
+    id: mostSpecific?.id ?? base.id,
+    createdAt: mostSpecific?.createdAt ?? base.createdAt,
+    updatedAt: mostSpecific?.updatedAt ?? base.updatedAt,
+  };
+}
+
 /**
  * Get session policy for a user
+ * Merges the user's role policy (default) with the user's own policy (override)
  */
 export async function getUserSessionPolicy(userId: string): Promise<SessionPolicy | null> {
   try {
-    // For now, we'll use a default policy
-    // In the future, store in database
-    return getDefaultPolicy(userId);
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, sessionPolicy: true },
+    });
+
+    if (!user) {
+      return getDefaultPolicy(userId);
+    }
+
+    const rolePolicy = await prisma.sessionPolicy.findUnique({
+      where: { role: user.role },
+    });
+
+    return resolvePolicy(userId, rolePolicy, user.sessionPolicy);
   } catch (error) {
     log.error('Session Policy: Error fetching policy', { userId, error });
     return null;
   }
 }
 
+/**
+ * Get the stored policy for a user or role (overrides only, no inheritance)
+ */
+export async function getSessionPolicyRecord(
+  scope: SessionPolicyScope,
+  target: string
+): Promise<SessionPolicyRecord | null> {
+  return prisma.sessionPolicy.findUnique({
+    where: scope === 'user' ? { userId: target } : { role: target },
+  });
+}
+
+/**
+ * List stored policies, optionally filtered by scope
+ */
+export async function listSessionPolicies(scope?: SessionPolicyScope) {
+  return prisma.sessionPolicy.findMany({
+    where: scope ? { scope } : {},
+    include: {
+      user: {
+        select: { id: true, name: true, email: true, role: true },
+      },
+    },
+    orderBy: [{ scope: 'asc' }, { updatedAt: 'desc' }],
+  });
+}
+
+/**
+ * Create or update the stored policy for a user or role
+ */
+export async function upsertSessionPolicy(
+  scope: SessionPolicyScope,
+  target: string,
+  updates: SessionPolicyOverrides,
+  updatedById?: string
+): Promise<SessionPolicyRecord> {
+  const data = toRecordData(updates);
+  const where = scope === 'user' ? { userId: target } : { role: target };
+
+  const record = await prisma.sessionPolicy.upsert({
+    where,
+    update: { ...data, updatedById: updatedById ?? null },
+    create: {
+      ...(data as Prisma.SessionPolicyUncheckedCreateInput),
+      ...where,
+      scope,
+      updatedById: updatedById ?? null,
+    },
+  });
+
+  log.info('Session Policy: Policy saved', { scope, target, updatedById });
+
+  return record;
+}
+
+/**
+ * Delete the stored policy for a user or role (falls back to inherited policy)
+ */
+export async function deleteSessionPolicy(scope: SessionPolicyScope, target: string): Promise<boolean> {
+  const result = await prisma.sessionPolicy.deleteMany({
+    where: scope === 'user' ? { userId: target } : { role: target },
+  });
+
+  return result.count > 0;
+}
+
 /**
  * Get default session policy
  */
@@ -84,7 +266,7 @@ export function getDefaultPolicy(userId: string): SessionPolicy {
     timezone: 'America/New_York',
     allowedDeviceTypes: ['mobile', 'tablet', 'desktop'],
     blockedDeviceTypes: [],
-    maxConcurrentSessions: 5,
+    maxConcurrentSessions: 0, // Opt-in per role or user
     requireFingerprintMatch: false,
     requireStepUpForSensitiveActions: false,
     autoLogoutOnLocationChange: false,
@@ -107,7 +289,7 @@ export function isIPAllowed(ip: string, policy: SessionPolicy): boolean {
   }
   
   // Check blocklist first
-  if (policy.blockedIPs.includes(ip)) {
+  if (policy.blockedIPs.includes(ip) || matchCIDR(ip, policy.blockedIPs)) {
     return false;
   }
   
@@ -143,22 +325,41 @@ export function isCountryAllowed(country: string | null, policy: SessionPolicy):
   return true;
 }
 
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
 /**
- * Check if current time is within allowed time window
+ * Current weekday (0-6) and HH:MM on the policy's wall clock, UTC when the
+ * policy has no valid timezone
  */
-export function isTimeAllowed(policy: SessionPolicy): boolean {
-  const now = new Date();
-  const formatter = new Intl.DateTimeFormat('en-US', {
-    timeZone: policy.timezone,
+function getPolicyClock(policy: SessionPolicy, now: Date): { weekday: number; timeStr: string } {
+  const options: Intl.DateTimeFormatOptions = {
     hour: '2-digit',
     minute: '2-digit',
-    hour12: false,
+    hourCycle: 'h23',
     weekday: 'short',
-  });
-  
+  };
+
+  let formatter: Intl.DateTimeFormat;
+  try {
+    formatter = new Intl.DateTimeFormat('en-US', { ...options, timeZone: policy.timezone || 'UTC' });
+  } catch {
+    formatter = new Intl.DateTimeFormat('en-US', { ...options, timeZone: 'UTC' });
+  }
+
   const parts = formatter.formatToParts(now);
-  const timeStr = `${parts.find(p => p.type === 'hour')?.value}:${parts.find(p => p.type === 'minute')?.value}`;
-  const weekday = now.getDay();
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+
+  return {
+    weekday: WEEKDAYS.indexOf(part('weekday')),
+    timeStr: `${part('hour')}:${part('minute')}`,
+  };
+}
+
+/**
+ * Check if current time is within allowed time window
+ */
+export function isTimeAllowed(policy: SessionPolicy): boolean {
+  const { weekday, timeStr } = getPolicyClock(policy, new Date());
   
   // Check day of week
   if (!policy.allowedDays.includes(weekday)) {
@@ -246,9 +447,10 @@ export async function validateSessionPolicy(
     ipChanged: boolean;
     locationChanged: boolean;
     isSensitiveAction: boolean;
-  }
+  },
+  preloadedPolicy?: SessionPolicy | null
 ): Promise<PolicyValidation> {
-  const policy = await getUserSessionPolicy(userId);
+  const policy = preloadedPolicy ?? await getUserSessionPolicy(userId);
   
   if (!policy) {
     return {
@@ -339,25 +541,122 @@ function matchCIDR(ip: string, cidrs: string[]): boolean {
 }
 
 /**
- * Update user session policy
+ * Update user session policy (stored as a user-level override)
  */
 export async function updateSessionPolicy(
   userId: string,
-  updates: Partial<Omit<SessionPolicy, 'id' | 'userId' | 'createdAt' | 'updatedAt'>>
+  updates: SessionPolicyOverrides,
+  updatedById?: string
 ): Promise<SessionPolicy> {
-  // In production, store in database
-  // For now, return updated default policy
+  await upsertSessionPolicy('user', userId, updates, updatedById);
+
   const policy = await getUserSessionPolicy(userId);
-  
+
   if (!policy) {
     throw new Error('Policy not found');
   }
-  
-  return {
-    ...policy,
-    ...updates,
-    updatedAt: new Date(),
-  };
+
+  return policy;
+}
+
+/**
+ * Remove the oldest sessions so a new login stays within the concurrent limit
+ */
+async function enforceConcurrentSessionLimit(userId: string, maxConcurrentSessions: number): Promise<number> {
+  if (maxConcurrentSessions <= 0) {
+    return 0;
+  }
+
+  const sessions = await prisma.session.findMany({
+    where: { userId, expiresAt: { gt: new Date() } },
+    select: { id: true },
+    orderBy: { lastActivityAt: 'desc' },
+  });
+
+  // Leave room for the session about to be created
+  const excess = sessions.slice(maxConcurrentSessions - 1);
+  if (excess.length === 0) {
+    return 0;
+  }
+
+  const result = await prisma.session.deleteMany({
+    where: { id: { in: excess.map((s) => s.id) } },
+  });
+
+  log.info('Session Policy: Revoked oldest sessions to honor concurrent limit', {
+    userId,
+    maxConcurrentSessions,
+    revoked: result.count,
+  });
+
+  await auditLog({
+    userId,
+    action: 'session.revoked',
+    resourceType: 'user',
+    resourceId: userId,
+    details: {
+      reason: 'concurrent_session_limit',
+      maxConcurrentSessions,
+      sessionIds: excess.map((s) => s.id),
+      revoked: result.count,
+    },
+  });
+
+  return result.count;
+}
+
+/**
+ * Enforce session policy when a new login session is about to be created
+ *
+ * Called from the Better-Auth session create hook. Location lookups are only
+ * performed when the policy actually has country rules.
+ */
+export async function enforceLoginPolicy(
+  userId: string,
+  login: { ip: string; userAgent: string | null }
+): Promise<PolicyValidation> {
+  const policy = await getUserSessionPolicy(userId);
+
+  const hasCountryRules = !!policy && (policy.allowedCountries.length > 0 || policy.blockedCountries.length > 0);
+
+  const [deviceInfo, location, previousSessions] = await Promise.all([
+    parseUserAgent(login.userAgent),
+    hasCountryRules ? getLocationFromIP(login.ip) : Promise.resolve(null),
+    prisma.session.findMany({
+      where: { userId },
+      select: { userAgent: true, country: true },
+      orderBy: { lastActivityAt: 'desc' },
+      take: 20,
+    }),
+  ]);
+
+  const country = location?.country ?? null;
+
+  const validation = await validateSessionPolicy(
+    userId,
+    {
+      ip: login.ip,
+      country,
+      deviceType: deviceInfo.deviceType === 'unknown' ? null : deviceInfo.deviceType,
+      isNewDevice: !previousSessions.some((s) => s.userAgent === login.userAgent),
+      isNewLocation: !!country && !previousSessions.some((s) => s.country === country),
+      ipChanged: false,
+      locationChanged: false,
+      isSensitiveAction: false,
+    },
+    policy
+  );
+
+  if (!validation.allowed) {
+    log.warn('Session Policy: Login blocked', { userId, ip: login.ip, reasons: validation.reasons });
+    return validation;
+  }
+
+  if (policy) {
+    await enforceConcurrentSessionLimit(userId, policy.maxConcurrentSessions);
+  }
+
+  return validation;
 }
 
 /**
@@ -0,0 +1,174 @@
+/**
+ * User Suspension
+ *
+ * Suspends and reactivates user accounts:
+ * - Suspended users cannot sign in (enforced in lib/auth.ts)
+ * - All of their sessions are revoked
+ * - Their active API keys are deactivated and restored on reactivation
+ * - Timed suspensions lift automatically (on sign-in, API key use, and via /api/cron/suspensions)
+ */
+
+import { prisma } from "./prisma";
+import { revokeAllSessions } from "./session-manager";
+import { logAudit } from "./audit-logger";
+
+export interface SuspensionState {
+  suspendedAt: Date | null;
+  suspendedUntil: Date | null;
+  suspensionReason: string | null;
+  suspendedById: string | null;
+}
+
+export interface SuspendUserParams {
+  userId: string;
+  reason: string;
+  suspendedById: string;
+  until?: Date | null; // null/undefined = indefinite
+}
+
+const SUSPENSION_SELECT = {
+  suspendedAt: true,
+  suspendedUntil: true,
+  suspensionReason: true,
+  suspendedById: true,
+} as const;
+
+/**
+ * Check whether a suspension is currently in effect
+ */
+export function isSuspensionActive(
+  state: Pick<SuspensionState, "suspendedAt" | "suspendedUntil">,
+  now: Date = new Date()
+): boolean {
+  if (!state.suspendedAt) return false;
+  return !state.suspendedUntil || state.suspendedUntil > now;
+}
+
+/**
+ * Suspend a user: mark the account, deactivate API keys, revoke sessions
+ */
+export async function suspendUser(params: SuspendUserParams): Promise<{ revokedSessions: number; deactivatedKeys: number }> {
+  const { userId, reason, suspendedById, until } = params;
+  const now = new Date();
+
+  const [user, keys] = await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        suspendedAt: now,
+        suspendedUntil: until ?? null,
+        suspensionReason: reason,
+        suspendedById,
+      },
+      select: { email: true },
+    }),
+    prisma.apiKey.updateMany({
+      where: { createdById: userId, isActive: true },
+      data: { isActive: false, suspendedAt: now },
+    }),
+  ]);
+
+  const sessions = await revokeAllSessions(userId);
+  const revokedSessions = sessions.success ? sessions.count ?? 0 : 0;
+
+  logAudit({
+    timestamp: now.toISOString(),
+    action: "user.suspended",
+    actor: { id: suspendedById },
+    target: { id: userId, type: "user", ...(user.email && { name: user.email }) },
+    changes: {
+      after: { suspended: true, suspendedUntil: until?.toISOString() ?? null, reason },
+    },
+    details: { revokedSessions, deactivatedKeys: keys.count },
+    success: sessions.success,
+    ...(!sessions.success && { error: sessions.error ?? "Failed to revoke sessions" }),
+  });
+
+  return { revokedSessions, deactivatedKeys: keys.count };
+}
+
+/**
+ * Lift a suspension and restore the API keys it deactivated
+ *
+ * @param liftedById - Admin lifting the suspension, or null when it expired
+ */
+export async function liftSuspension(userId: string, liftedById: string | null): Promise<{ restoredKeys: number }> {
+  const [user, keys] = await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        suspendedAt: null,
+        suspendedUntil: null,
+        suspensionReason: null,
+        suspendedById: null,
+      },
+      select: { email: true },
+    }),
+    prisma.apiKey.updateMany({
+      where: { createdById: userId, suspendedAt: { not: null } },
+      data: { isActive: true, suspendedAt: null },
+    }),
+  ]);
+
+  logAudit({
+    timestamp: new Date().toISOString(),
+    action: "user.reactivated",
+    actor: { id: liftedById ?? "system" },
+    target: { id: userId, type: "user", ...(user.email && { name: user.email }) },
+    changes: { before: { suspended: true }, after: { suspended: false } },
+    details: { restoredKeys: keys.count, expired: liftedById === null },
+    success: true,
+  });
+
+  return { restoredKeys: keys.count };
+}
+
+/**
+ * Get a user's suspension, lifting it first if it has expired
+ *
+ * @returns Active suspension, or null if the user is not suspended
+ */
+export async function getActiveSuspension(userId: string): Promise<SuspensionState | null> {
+  const state = await prisma.user.findUnique({
+    where: { id: userId },
+    select: SUSPENSION_SELECT,
+  });
+
+  if (!state?.suspendedAt) return null;
+
+  if (!isSuspensionActive(state)) {
+    await liftSuspension(userId, null);
+    return null;
+  }
+
+  return state;
+}
+
+/**
+ * Lift all suspensions whose expiry has passed
+ */
+export async function liftExpiredSuspensions(): Promise<{ lifted: number }> {
+  const expired = await prisma.user.findMany({
+    where: {
+      suspendedAt: { not: null },
+      suspendedUntil: { lte: new Date() },
+    },
+    select: { id: true },
+    take: 500,
+  });
+
+  for (const user of expired) {
+    await liftSuspension(user.id, null);
+  }
+
+  return { lifted: expired.length };
+}
+
+/**
+ * Human-readable message shown to suspended users at sign-in
+ */
+export function formatSuspensionMessage(state: SuspensionState): string {
+  const until = state.suspendedUntil ? ` until ${state.suspendedUntil.toISOString()}` : "";
+  const reason = state.suspensionReason ? `: ${state.suspensionReason}` : "";
+  return `Account suspended${until}${reason}`;
+}
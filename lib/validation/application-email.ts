@@ -0,0 +1,141 @@
+import { z } from "zod";
+
+/**
+ * Applicant status emails
+ *
+ * One template per email, edited in Settings → Applications and sent by
+ * lib/application-emails.ts when an application is submitted or its status
+ * changes. Subject and body are plain text with {{placeholders}}; a
+ * {{#reason}}…{{/reason}} block is left out when the placeholder is empty.
+ *
+ * Shared by the settings editor and the sender.
+ */
+
+export const APPLICATION_EMAIL_KINDS = Object.freeze(["received", "inReview", "approved", "rejected"] as const);
+
+export type ApplicationEmailKind = (typeof APPLICATION_EMAIL_KINDS)[number];
+
+export const APPLICATION_EMAIL_LABELS: Record<ApplicationEmailKind, string> = {
+  received: "Application received",
+  inReview: "In review",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+export const EMAIL_PLACEHOLDERS = {
+  name: "Applicant's name",
+  role: "Role applied for",
+  siteName: "Site name",
+  statusUrl: "Link to the applicant's status page",
+  reason: "Reason given when rejecting",
+} as const;
+
+export type EmailPlaceholder = keyof typeof EMAIL_PLACEHOLDERS;
+
+export type EmailValues = Partial<Record<EmailPlaceholder, string>>;
+
+export const EmailTemplateSchema = z.object({
+  enabled: z.boolean(),
+  subject: z.string().trim().min(1, "Subject is required").max(200),
+  body: z.string().trim().min(1, "Body is required").max(5000),
+});
+
+export type EmailTemplate = z.infer<typeof EmailTemplateSchema>;
+
+export const EmailTemplatesSchema = z.object({
+  received: EmailTemplateSchema.optional(),
+  inReview: EmailTemplateSchema.optional(),
+  approved: EmailTemplateSchema.optional(),
+  rejected: EmailTemplateSchema.optional(),
+});
+
+export type EmailTemplates = Record<ApplicationEmailKind, EmailTemplate>;
+
+export const DEFAULT_EMAIL_TEMPLATES: EmailTemplates = {
+  received: {
+    enabled: true,
+    subject: "We received your {{role}} application",
+    body: `Hi {{name}},
+
+Thanks for applying to the {{role}} team at {{siteName}}! Your application is in and our team will review it over the next 1-2 weeks.
+
+You can check its progress at any time:
+{{statusUrl}}
+
+Keep this link to yourself - anyone with it can see your application's status.
+
+The {{siteName}} Team`,
+  },
+  inReview: {
+    enabled: true,
+    subject: "Your {{role}} application is being reviewed",
+    body: `Hi {{name}},
+
+Good news - our team has started reviewing your {{role}} application. We'll email you again once a decision has been made.
+
+Status page: {{statusUrl}}
+
+The {{siteName}} Team`,
+  },
+  approved: {
+    enabled: true,
+    subject: "Welcome to the team, {{name}}!",
+    body: `Hi {{name}},
+
+Congratulations - your {{role}} application has been approved!
+
+Next steps:
+1. Join our Discord server and let a staff member know you were accepted.
+2. Log in to the server with the Minecraft account from your application so we can set up your rank.
+3. Read the staff handbook pinned in your team's Discord channel.
+
+A team lead will reach out within a few days to schedule your onboarding.
+
+The {{siteName}} Team`,
+  },
+  rejected: {
+    enabled: true,
+    subject: "Update on your {{role}} application",
+    body: `Hi {{name}},
+
+Thank you for your interest in the {{role}} team at {{siteName}}. After careful review, we won't be moving forward with your application at this time.
+{{#reason}}
+Feedback from the team:
+{{reason}}
+{{/reason}}
+You're welcome to apply again in the future.
+
+The {{siteName}} Team`,
+  },
+};
+
+/**
+ * Templates from settings, with the defaults for any not saved yet
+ */
+export function resolveEmailTemplates(saved: Partial<EmailTemplates> | null | undefined): EmailTemplates {
+  return {
+    received: saved?.received ?? DEFAULT_EMAIL_TEMPLATES.received,
+    inReview: saved?.inReview ?? DEFAULT_EMAIL_TEMPLATES.inReview,
+    approved: saved?.approved ?? DEFAULT_EMAIL_TEMPLATES.approved,
+    rejected: saved?.rejected ?? DEFAULT_EMAIL_TEMPLATES.rejected,
+  };
+}
+
+/**
+ * Fill in placeholders. Unknown placeholders are left as written.
+ */
+export function renderTemplate(template: string, values: EmailValues): string {
+  // Own keys only: `in` would also match inherited names like {{constructor}}
+  const valueOf = (key: string) =>
+    Object.hasOwn(EMAIL_PLACEHOLDERS, key) ? values[key as EmailPlaceholder]?.trim() ?? "" : null;
+
+  return template
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (match, key: string, inner: string) => {
+      const value = valueOf(key);
+      if (value === null) return match;
+      return value ? inner : "";
+    })
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => valueOf(key) ?? match)
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,335 @@
+import { z } from "zod";
+import { httpUrl, safeText, type Role } from "./application";
+
+/**
+ * Application form definitions
+ *
+ * Role-specific questions are defined per role in Settings → Applications
+ * and stored as versions (lib/application-forms.ts). An application keeps
+ * the version it answered, so old applications render with their own
+ * questions. Answers are stored by question id:
+ * - short_text, long_text, url, select: string
+ * - number: number
+ * - multi_select: string[]
+ * - yes_no: boolean
+ *
+ * Shared by the apply page, the form builder and the submission route.
+ */
+
+export const QuestionTypes = Object.freeze([
+  "short_text",
+  "long_text",
+  "url",
+  "number",
+  "select",
+  "multi_select",
+  "yes_no",
+] as const);
+
+export type QuestionType = (typeof QuestionTypes)[number];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  short_text: "Short text",
+  long_text: "Long text",
+  url: "Link",
+  number: "Number",
+  select: "Single choice",
+  multi_select: "Multiple choice",
+  yes_no: "Yes / No",
+};
+
+export const MAX_SECTIONS = 10;
+export const MAX_QUESTIONS = 50;
+export const MAX_OPTIONS = 30;
+
+// Longest answer a text question can allow
+const TEXT_LIMITS: Record<"short_text" | "long_text", number> = {
+  short_text: 300,
+  long_text: 4000,
+};
+
+const QUESTION_ID = /^[a-z][a-z0-9_]{0,39}$/;
+
+const ValidationRulesSchema = z
+  .object({
+    minLength: z.number().int().min(0).max(4000).optional(),
+    maxLength: z.number().int().min(1).max(4000).optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    minSelected: z.number().int().min(0).max(MAX_OPTIONS).optional(),
+    maxSelected: z.number().int().min(1).max(MAX_OPTIONS).optional(),
+  })
+  .strict();
+
+const QuestionSchema = z
+  .object({
+    id: z.string().regex(QUESTION_ID, "Question ids use lowercase letters, digits and underscores."),
+    type: z.enum(QuestionTypes),
+    label: z.string().trim().min(1, "Every question needs a label.").max(300),
+    help: z.string().trim().max(500).optional(),
+    placeholder: z.string().trim().max(200).optional(),
+    required: z.boolean(),
+    options: z.array(z.string().trim().min(1).max(100)).max(MAX_OPTIONS).optional(),
+    validation: ValidationRulesSchema.optional(),
+    /** Only asked when an earlier question has this answer (multiple choice: includes it) */
+    showIf: z
+      .object({
+        questionId: z.string().regex(QUESTION_ID),
+        equals: z.union([z.string().max(100), z.boolean()]),
+      })
+      .optional(),
+  })
+  .superRefine((q, ctx) => {
+    const choice = q.type === "select" || q.type === "multi_select";
+    if (choice && (!q.options || q.options.length === 0)) {
+      ctx.addIssue({ code: "custom", path: ["options"], message: `"${q.label}" needs at least one option.` });
+    }
+    if (choice && q.options && new Set(q.options).size !== q.options.length) {
+      ctx.addIssue({ code: "custom", path: ["options"], message: `"${q.label}" has duplicate options.` });
+    }
+    const rules = q.validation;
+    if (rules?.minLength !== undefined && rules.maxLength !== undefined && rules.minLength > rules.maxLength) {
+      ctx.addIssue({ code: "custom", path: ["validation"], message: `"${q.label}": minimum length is above the maximum.` });
+    }
+    if (rules?.min !== undefined && rules.max !== undefined && rules.min > rules.max) {
+      ctx.addIssue({ code: "custom", path: ["validation"], message: `"${q.label}": minimum is above the maximum.` });
+    }
+  });
+
+export type FormQuestion = z.infer<typeof QuestionSchema>;
+
+const SectionSchema = z.object({
+  id: z.string().regex(QUESTION_ID, "Section ids use lowercase letters, digits and underscores."),
+  title: z.string().trim().min(1, "Every section needs a title.").max(120),
+  description: z.string().trim().max(500).optional(),
+  questions: z.array(QuestionSchema).min(1, "Every section needs a question."),
+});
+
+export type FormSection = z.infer<typeof SectionSchema>;
+
+/**
+ * A role's form: sections of questions. Question ids are unique across the
+ * form, and a condition can only refer to a question asked before it.
+ */
+export const FormDefinitionSchema = z
+  .object({
+    sections: z.array(SectionSchema).min(1, "Add at least one section.").max(MAX_SECTIONS),
+  })
+  .superRefine((form, ctx) => {
+    const seen = new Map<string, FormQuestion>();
+    const sectionIds = new Set<string>();
+    let count = 0;
+
+    form.sections.forEach((section, s) => {
+      if (sectionIds.has(section.id)) {
+        ctx.addIssue({ code: "custom", path: ["sections", s, "id"], message: `Duplicate section id "${section.id}".` });
+      }
+      sectionIds.add(section.id);
+
+      section.questions.forEach((q, i) => {
+        const path = ["sections", s, "questions", i];
+        if (seen.has(q.id)) {
+          ctx.addIssue({ code: "custom", path: [...path, "id"], message: `Duplicate question id "${q.id}".` });
+        }
+        if (q.showIf) {
+          const source = seen.get(q.showIf.questionId);
+          if (!source) {
+            ctx.addIssue({
+              code: "custom",
+              path: [...path, "showIf"],
+              message: `"${q.label}" can only depend on a question asked before it.`,
+            });
+          } else if (source.type === "yes_no" ? typeof q.showIf.equals !== "boolean" : typeof q.showIf.equals !== "string") {
+            ctx.addIssue({
+              code: "custom",
+              path: [...path, "showIf"],
+              message: `"${q.label}" depends on an answer "${source.label}" cannot have.`,
+            });
+          }
+        }
+        seen.set(q.id, q);
+        count++;
+      });
+    });
+
+    if (count > MAX_QUESTIONS) {
+      ctx.addIssue({ code: "custom", path: ["sections"], message: `A form can have at most ${MAX_QUESTIONS} questions.` });
+    }
+  });
+
+export type FormDefinition = z.infer<typeof FormDefinitionSchema>;
+
+export type FormAnswers = Record<string, unknown>;
+
+export function formQuestions(definition: FormDefinition): FormQuestion[] {
+  return definition.sections.flatMap((section) => section.questions);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Whether a question is asked given the answers so far
+ */
+export function isQuestionVisible(question: FormQuestion, answers: FormAnswers): boolean {
+  if (!question.showIf) return true;
+  const answer = answers[question.showIf.questionId];
+  if (Array.isArray(answer)) return answer.includes(question.showIf.equals);
+  return answer === question.showIf.equals;
+}
+
+/**
+ * Schema for the answer to one (visible, answered) question
+ */
+function answerSchema(question: FormQuestion): z.ZodType<unknown> {
+  const rules = question.validation ?? {};
+  const label = question.label;
+
+  switch (question.type) {
+    case "short_text":
+    case "long_text": {
+      const limit = Math.min(rules.maxLength ?? TEXT_LIMITS[question.type], TEXT_LIMITS[question.type]);
+      let schema = safeText(limit, label);
+      if (rules.minLength) schema = schema.min(rules.minLength, `Please provide more detail (${rules.minLength}+ characters).`);
+      return schema;
+    }
+    case "url":
+      return httpUrl;
+    case "number": {
+      let schema = z.number({ message: "Enter a number." }).finite();
+      if (rules.min !== undefined) schema = schema.min(rules.min, `Must be at least ${rules.min}.`);
+      if (rules.max !== undefined) schema = schema.max(rules.max, `Must be at most ${rules.max}.`);
+      return schema;
+    }
+    case "select":
+      return z.string().refine((v) => question.options?.includes(v) ?? false, { message: "Choose one of the options." });
+    case "multi_select": {
+      const minSelected = rules.minSelected ?? 0;
+      const maxSelected = rules.maxSelected ?? MAX_OPTIONS;
+      return z
+        .array(z.string())
+        .refine((values) => values.every((v) => question.options?.includes(v)), { message: "Choose from the options." })
+        .transform((values) => [...new Set(values)])
+        .refine((values) => values.length >= minSelected, { message: `Choose at least ${minSelected}.` })
+        .refine((values) => values.length <= maxSelected, { message: `Choose at most ${maxSelected}.` });
+    }
+    case "yes_no":
+      return z.boolean();
+  }
+}
+
+export type AnswersResult =
+  | { ok: true; answers: FormAnswers }
+  | { ok: false; errors: Record<string, string> };
+
+/**
+ * Validate answers against a form definition. Questions hidden by their
+ * condition and unknown ids are dropped from the result.
+ */
+export function validateAnswers(definition: FormDefinition, raw: FormAnswers): AnswersResult {
+  const answers: FormAnswers = {};
+  const errors: Record<string, string> = {};
+
+  for (const question of formQuestions(definition)) {
+    if (!isQuestionVisible(question, answers)) continue;
+
+    const value = typeof raw[question.id] === "string" ? (raw[question.id] as string).trim() : raw[question.id];
+    if (isEmpty(value)) {
+      if (question.required) errors[question.id] = "This question is required.";
+      continue;
+    }
+
+    const parsed = answerSchema(question).safeParse(value);
+    if (parsed.success) {
+      answers[question.id] = parsed.data;
+    } else {
+      errors[question.id] = parsed.error.issues[0]?.message ?? "Invalid answer.";
+    }
+  }
+
+  return Object.keys(errors).length > 0 ? { ok: false, errors } : { ok: true, answers };
+}
+
+/**
+ * An answer as text, for the admin views and the applicant's profile
+ */
+export function formatAnswer(question: FormQuestion, value: unknown): string {
+  if (isEmpty(value)) return "—";
+  if (question.type === "yes_no") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+}
+
+const LEVELS = ["Beginner", "Intermediate", "Advanced"];
+
+/**
+ * Forms used until a role's form is first edited: the questions the
+ * application had before forms were configurable
+ */
+export const DEFAULT_FORMS: Record<Role, FormDefinition> = {
+  Developer: {
+    sections: [
+      {
+        id: "developer",
+        title: "Developer",
+        questions: [
+          { id: "portfolio_url", type: "url", label: "Portfolio or GitHub", placeholder: "https://github.com/you", required: true },
+          { id: "specialty", type: "select", label: "Primary specialty", required: true, options: ["Full Stack", "Plugin", "Web"] },
+          {
+            id: "languages",
+            type: "multi_select",
+            label: "Languages",
+            required: true,
+            options: ["Java", "JavaScript", "TypeScript", "Python", "Go", "C#", "Rust"],
+            validation: { minSelected: 1, maxSelected: 10 },
+          },
+        ],
+      },
+    ],
+  },
+  Imaginear: {
+    sections: [
+      {
+        id: "imaginear",
+        title: "Imaginear",
+        questions: [
+          { id: "portfolio_url", type: "url", label: "Portfolio or Showcase", placeholder: "https://yourportfolio.com", required: true },
+          { id: "worldedit_level", type: "select", label: "WorldEdit knowledge", required: true, options: LEVELS },
+          { id: "plugin_familiarity", type: "select", label: "Familiarity with plugins", required: true, options: LEVELS },
+        ],
+      },
+    ],
+  },
+  GuestServices: {
+    sections: [
+      {
+        id: "guest_relations",
+        title: "Guest Relations",
+        questions: [
+          {
+            id: "above_and_beyond",
+            type: "long_text",
+            label: "Tell us about a time you went above and beyond to help someone",
+            required: true,
+            validation: { minLength: 50 },
+          },
+          {
+            id: "team_value",
+            type: "long_text",
+            label: "What could you bring to Imaginears Club as a Guest Relations member?",
+            required: true,
+            validation: { minLength: 40 },
+          },
+          {
+            id: "suggestions",
+            type: "long_text",
+            label: "Any suggestions to make the server better for guests?",
+            required: false,
+            validation: { maxLength: 2000 },
+          },
+        ],
+      },
+    ],
+  },
+};
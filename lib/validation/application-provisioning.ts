@@ -0,0 +1,58 @@
+import { z } from "zod";
+
+/**
+ * Staff provisioning on approval
+ *
+ * Which web role, and optionally which LuckPerms group, an approved applicant
+ * gets for each role they can apply for. Edited in Settings → Applications
+ * and applied by lib/application-provisioning.ts.
+ *
+ * Shared by the settings editor and the provisioner.
+ */
+
+export const PROVISIONING_WEB_ROLES = Object.freeze(["STAFF", "MODERATOR", "ADMIN"] as const);
+
+export type ProvisioningWebRole = (typeof PROVISIONING_WEB_ROLES)[number];
+
+export const ProvisioningRoleSchema = z.object({
+  role: z.enum(PROVISIONING_WEB_ROLES),
+  // LuckPerms group; blank uses the web role's own group
+  group: z
+    .string()
+    .trim()
+    .max(36)
+    .regex(/^[a-z0-9_-]*$/i, "Group names are letters, numbers, - and _"),
+});
+
+export type ProvisioningRole = z.infer<typeof ProvisioningRoleSchema>;
+
+export const ProvisioningSettingsSchema = z.object({
+  enabled: z.boolean(),
+  roles: z.object({
+    Developer: ProvisioningRoleSchema,
+    GuestServices: ProvisioningRoleSchema,
+    Imaginear: ProvisioningRoleSchema,
+  }),
+});
+
+export type ProvisioningSettings = z.infer<typeof ProvisioningSettingsSchema>;
+
+export const DEFAULT_PROVISIONING_SETTINGS: ProvisioningSettings = {
+  // Creates accounts and grants roles, so it waits until an admin turns it on
+  enabled: false,
+  roles: {
+    Developer: { role: "STAFF", group: "" },
+    GuestServices: { role: "STAFF", group: "" },
+    Imaginear: { role: "STAFF", group: "" },
+  },
+};
+
+/**
+ * Provisioning settings from settings, with the defaults for anything not saved yet
+ */
+export function resolveProvisioningSettings(saved: Partial<ProvisioningSettings> | null | undefined): ProvisioningSettings {
+  return {
+    enabled: saved?.enabled ?? DEFAULT_PROVISIONING_SETTINGS.enabled,
+    roles: { ...DEFAULT_PROVISIONING_SETTINGS.roles, ...saved?.roles },
+  };
+}
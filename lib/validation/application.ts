@@ -3,8 +3,6 @@ import { z } from "zod";
 /* Shared enums - frozen to prevent tampering */
 export const AgeRanges = Object.freeze(["Under18", "18-24", "25+"] as const);
 export const Roles = Object.freeze(["Developer", "Imaginear", "GuestServices"] as const);
-export const DevSpecialties = Object.freeze(["FullStack", "Plugin", "Web"] as const);
-export const Levels = Object.freeze(["Beginner", "Intermediate", "Advanced"] as const);
 
 export type Role = (typeof Roles)[number];
 
@@ -15,7 +13,7 @@ const CONTROL_CHARS = /[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/;
 const BLOCKED_HOSTS = /^(localhost|127\.|192\.168\.|10\.|172\.(1[6-9]|2[0-9]|3[01])\.|0\.0\.0\.0|::1|169\.254\.)/i;
 
 // Reusable url validator that only allows http/https and blocks dangerous URLs
-const httpUrl = z
+export const httpUrl = z
   .string()
   .trim()
   .max(2048, "URL is too long.") // Prevent extremely long URLs
@@ -37,28 +35,8 @@ const httpUrl = z
     }
   }, { message: "Invalid or unsafe URL." });
 
-// Helper to uniq + sanitize string arrays
-function uniqTrimmed(arr: string[]): string[] {
-  if (!Array.isArray(arr) || arr.length === 0) return [];
-  
-  const seen = new Set<string>();
-  const out: string[] = [];
-  
-  for (const raw of arr) {
-    if (typeof raw !== "string") continue; // Type guard
-    const s = raw.trim();
-    if (!s || s.length > 64) continue; // Skip empty or too long
-    if (CONTROL_CHARS.test(s)) continue; // Skip strings with control chars
-    if (!seen.has(s)) {
-      seen.add(s);
-      out.push(s);
-    }
-  }
-  return out;
-}
-
 // Validate text fields don't contain control characters
-function safeText(max: number, fieldName: string = "This field") {
+export function safeText(max: number, fieldName: string = "This field") {
   return z
     .string()
     .trim()
@@ -70,7 +48,8 @@ function safeText(max: number, fieldName: string = "This field") {
 
 /**
  * BASE SCHEMA WITHOUT REFINEMENTS
- * - This allows extending for role-specific schemas
+ * - Applicant fields shared by every role. Role-specific questions come from
+ *   the role's form (see application-form.ts)
  */
 const BaseSchema = z.object({
   name: safeText(100, "Name")
@@ -122,33 +101,10 @@ const BaseSchema = z.object({
   visitedDisney: z.boolean(),
   visitedDetails: safeText(500, "Disney visit details").optional(),
   role: z.enum(Roles),
-
-  // Make all role-specific fields OPTIONAL here (step-friendly)
-  // Developer
-  devPortfolioUrl: httpUrl.optional(),
-  devSpecialty: z.enum(DevSpecialties).optional(),
-  devLanguages: z
-    .array(z.string().trim().min(1).max(32))
-    .max(10, "Too many languages selected.")
-    .transform((a) => uniqTrimmed(a))
-    .optional(),
-
-  // Imaginear
-  imgPortfolioUrl: httpUrl.optional(),
-  imgWorldEditLevel: z.enum(Levels).optional(),
-  imgPluginFamiliar: z.enum(Levels).optional(),
-
-  // Guest Relations
-  grStory: safeText(4000, "Story").optional(),
-  grValue: safeText(4000, "Value").optional(),
-  grSuggestions: safeText(2000, "Suggestions").optional(),
 });
 
-/**
- * STEP-SAFE SCHEMA WITH REFINEMENTS
- * - Used for react-hook-form validation during multi-step flow
- */
-export const StepSafeSchema = BaseSchema.superRefine((data, ctx) => {
+// Rules between applicant fields, for the steps and the submission alike
+function refineApplicant(data: z.infer<typeof BaseSchema>, ctx: z.RefinementCtx) {
   // If canDiscord, require a discordUser
   if (data.canDiscord && (!data.discordUser || data.discordUser.length < 2)) {
     ctx.addIssue({
@@ -181,97 +137,26 @@ export const StepSafeSchema = BaseSchema.superRefine((data, ctx) => {
       message: "Applicants must be at least 16.",
     });
   }
-});
-
-/** STRICT ROLE-SPECIFIC SCHEMAS (used only on submit) */
-export const DevFinal = BaseSchema.extend({
-  role: z.literal("Developer"),
-  devPortfolioUrl: httpUrl,
-  devSpecialty: z.enum(DevSpecialties),
-  devLanguages: z
-    .array(z.string().trim().min(1).max(32))
-    .min(1, "Choose at least one language.")
-    .max(10, "Too many languages selected.")
-    .transform((a) => uniqTrimmed(a)),
-}).superRefine((data, ctx) => {
-  // Apply base refinements
-  if (data.canDiscord && (!data.discordUser || data.discordUser.length < 2)) {
-    ctx.addIssue({ code: "custom", path: ["discordUser"], message: "Please provide your Discord username." });
-  }
-  if (data.priorStaff && !data.priorServers) {
-    ctx.addIssue({ code: "custom", path: ["priorServers"], message: "Please list your prior server(s)." });
-  }
-  if (data.visitedDisney && !data.visitedDetails) {
-    ctx.addIssue({ code: "custom", path: ["visitedDetails"], message: "Please share details about your visit(s)." });
-  }
-  if (data.ageRange === "Under18") {
-    ctx.addIssue({ code: "custom", path: ["ageRange"], message: "Applicants must be at least 16." });
-  }
-});
-
-export const ImgFinal = BaseSchema.extend({
-  role: z.literal("Imaginear"),
-  imgPortfolioUrl: httpUrl,
-  imgWorldEditLevel: z.enum(Levels),
-  imgPluginFamiliar: z.enum(Levels),
-}).superRefine((data, ctx) => {
-  // Apply base refinements
-  if (data.canDiscord && (!data.discordUser || data.discordUser.length < 2)) {
-    ctx.addIssue({ code: "custom", path: ["discordUser"], message: "Please provide your Discord username." });
-  }
-  if (data.priorStaff && !data.priorServers) {
-    ctx.addIssue({ code: "custom", path: ["priorServers"], message: "Please list your prior server(s)." });
-  }
-  if (data.visitedDisney && !data.visitedDetails) {
-    ctx.addIssue({ code: "custom", path: ["visitedDetails"], message: "Please share details about your visit(s)." });
-  }
-  if (data.ageRange === "Under18") {
-    ctx.addIssue({ code: "custom", path: ["ageRange"], message: "Applicants must be at least 16." });
-  }
-});
+}
 
-export const GrFinal = BaseSchema.extend({
-  role: z.literal("GuestServices"),
-  grStory: safeText(4000, "Story")
-    .min(50, "Please provide more detail (50+ chars)."),
-  grValue: safeText(4000, "Value")
-    .min(40, "Please provide more detail (40+ chars)."),
-  grSuggestions: safeText(2000, "Suggestions").optional(),
-}).superRefine((data, ctx) => {
-  // Apply base refinements
-  if (data.canDiscord && (!data.discordUser || data.discordUser.length < 2)) {
-    ctx.addIssue({ code: "custom", path: ["discordUser"], message: "Please provide your Discord username." });
-  }
-  if (data.priorStaff && !data.priorServers) {
-    ctx.addIssue({ code: "custom", path: ["priorServers"], message: "Please list your prior server(s)." });
-  }
-  if (data.visitedDisney && !data.visitedDetails) {
-    ctx.addIssue({ code: "custom", path: ["visitedDetails"], message: "Please share details about your visit(s)." });
-  }
-  if (data.ageRange === "Under18") {
-    ctx.addIssue({ code: "custom", path: ["ageRange"], message: "Applicants must be at least 16." });
-  }
-});
+/**
+ * STEP-SAFE SCHEMA WITH REFINEMENTS
+ * - Used for react-hook-form validation during multi-step flow
+ */
+export const StepSafeSchema = BaseSchema.superRefine(refineApplicant);
 
-/** Helper to get the strict schema by role */
-export function schemaForRole(
-  role: Role,
-): typeof DevFinal | typeof ImgFinal | typeof GrFinal | typeof StepSafeSchema {
-  switch (role) {
-    case "Developer":
-      return DevFinal;
-    case "Imaginear":
-      return ImgFinal;
-    case "GuestServices":
-      return GrFinal;
-    default:
-      return StepSafeSchema;
-  }
-}
+/**
+ * SUBMISSION SCHEMA (used only on submit)
+ * - Applicant fields plus the answers to a version of the role's form. The
+ *   answers are checked against that version's questions by the route
+ */
+export const SubmissionSchema = BaseSchema.extend({
+  formId: z.string().trim().min(1, "Missing application form.").max(50),
+  answers: z.record(z.string().max(40), z.unknown()),
+  // Device fingerprint hash for duplicate detection; left out when malformed
+  fingerprint: z.string().regex(/^[a-f0-9]{64}$/).optional().catch(undefined),
+}).superRefine(refineApplicant);
 
 /** Types */
 export type StepSafeInput = z.infer<typeof StepSafeSchema>;
-export type DevInput = z.infer<typeof DevFinal>;
-export type ImgInput = z.infer<typeof ImgFinal>;
-export type GrInput = z.infer<typeof GrFinal>;
-export type FinalApplicationInput = DevInput | ImgInput | GrInput;
+export type SubmissionInput = z.infer<typeof SubmissionSchema>;
@@ -11,7 +11,7 @@
 
 export interface ClientEvents {
   // Connection
-  "client:connect": { userId: string; token: string };
+  "client:connect": { userId: string; ticket: string }; // ticket from /api/user/realtime-token
   "client:disconnect": {};
   "client:ping": { timestamp: number };
 
@@ -33,6 +33,7 @@ export interface ServerEvents {
   "server:connected": { clientId: string; timestamp: number };
   "server:pong": { timestamp: number };
   "server:error": { code: string; message: string };
+  "server:subscribed": { channels: Channel[] };
 
   // Notifications (Feature Flag: ENABLE_REALTIME_NOTIFICATIONS)
   "notification:new": {
@@ -132,6 +133,18 @@ export interface WebSocketMessage<T extends keyof ServerEvents = keyof ServerEve
   channel?: Channel;
 }
 
+// ============================================================================
+// Close Codes (4000-4999 is reserved for applications)
+// ============================================================================
+
+export const WS_CLOSE_CODES = {
+  AUTH_TIMEOUT: 4001,
+  UNAUTHORIZED: 4401,
+  HEARTBEAT_TIMEOUT: 4408,
+  RATE_LIMITED: 4429,
+  SHUTDOWN: 1001,
+} as const;
+
 // ============================================================================
 // Connection State
 // ============================================================================
@@ -1,22 +1,45 @@
 /**
- * WebSocket Server Utilities
- * 
- * Server-side WebSocket management and broadcasting.
- * 
- * Note: This is a foundation/boilerplate. The actual WebSocket server
- * will need to be implemented using a custom server or external service.
- * 
- * For Next.js, consider:
- * - Using an external WebSocket server (separate Node.js process)
- * - Using a service like Pusher, Ably, or Socket.IO
- * - Using Server-Sent Events (SSE) as an alternative
+ * WebSocket Server
+ *
+ * Standalone WebSocket server plus server-side broadcasting helpers.
+ *
+ * Next.js route handlers cannot hold WebSocket connections, so the server runs as
+ * a separate Node.js process (`npm run ws:server`, see scripts/websocket-server.ts):
+ * - Clients authenticate via `client:connect` with a single-use ticket from
+ *   /api/user/realtime-token (lib/websocket-ticket.ts)
+ * - Sockets close when their session is revoked or the user is suspended
+ * - Heartbeat via `client:ping` / `server:pong`; silent clients are dropped
+ * - `admin:*` channels require the matching RBAC permission
+ *
+ * `broadcast()` publishes through the event bus (lib/event-bus.ts); every WebSocket
+ * server process subscribes and delivers to its own clients. Without Redis the bus
+ * is process-local, so other processes (API routes, server actions) relay the message
+ * over the WebSocket server's internal HTTP endpoint instead (`POST /publish`,
+ * authenticated with WEBSOCKET_INTERNAL_SECRET).
  */
 
-import type { WebSocketMessage, ServerEvents, Channel, WebSocketFeatureFlags } from "./websocket-events";
-import { DEFAULT_FEATURE_FLAGS, CHANNELS } from "./websocket-events";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import { prisma } from "./prisma";
+import { EVENT_TOPICS, getEventBus, publishEvent } from "./event-bus";
+import { userHasPermissionAsync } from "./rbac-server";
+import type { Permission } from "./rbac";
+import { isSuspensionActive } from "./user-suspension";
+import { verifyWebSocketTicket } from "./websocket-ticket";
+import {
+  DEFAULT_FEATURE_FLAGS,
+  CHANNELS,
+  WS_CLOSE_CODES,
+  type WebSocketMessage,
+  type ServerEvents,
+  type ClientEvents,
+  type Channel,
+  type WebSocketFeatureFlags,
+} from "./websocket-events";
 
 // Re-export CHANNELS for convenience
-export { CHANNELS };
+export { CHANNELS, WS_CLOSE_CODES };
 
 // ============================================================================
 // Configuration
@@ -36,39 +59,73 @@ export const WEBSOCKET_CONFIG = {
   pingInterval: 30000, // 30 seconds
   reconnectDelay: 3000, // 3 seconds
   maxReconnectAttempts: 5,
+  authTimeout: 10000, // Time allowed between opening the socket and client:connect
+  maxPayloadBytes: 64 * 1024,
 
   // Rate limiting
   maxMessagesPerSecond: 10,
   maxChannelsPerClient: 50,
 };
 
+/**
+ * Permission required to subscribe to each admin channel
+ */
+const ADMIN_CHANNEL_PERMISSIONS: Record<string, Permission> = {
+  [CHANNELS.ADMIN_EVENTS]: "events:write",
+  [CHANNELS.ADMIN_ANALYTICS]: "analytics:read",
+  [CHANNELS.ADMIN_LOGS]: "system:logs",
+};
+
+const KNOWN_CHANNELS = new Set<string>(Object.values(CHANNELS));
+
 // ============================================================================
-// Client Connection Management (To be implemented)
+// Client Connection Management
 // ============================================================================
 
 interface ConnectedClient {
   id: string;
   userId: string;
+  role: string;
+  sessionId: string | null;
+  sessionExpiresAt: number;
   subscribedChannels: Set<Channel>;
   connectedAt: number;
   lastPingAt: number;
-  // WebSocket connection object would go here
-  // ws?: WebSocket;
+  ws?: WebSocket;
 }
 
-// In-memory client registry (use Redis in production)
+// In-memory client registry (lives in the WebSocket server process)
 const connectedClients = new Map<string, ConnectedClient>();
 
+// Accepted ticket ids until they expire, so each ticket connects once
+const usedTickets = new Map<string, number>();
+
+// Set while this process is running the WebSocket server
+let activeServer: {
+  http: Server;
+  wss: WebSocketServer;
+  cleanupTimer: ReturnType<typeof setInterval>;
+  unsubscribe: () => Promise<void>;
+} | null = null;
+
 /**
  * Register a new client connection
  */
-export function registerClient(clientId: string, userId: string): ConnectedClient {
+export function registerClient(
+  clientId: string,
+  userId: string,
+  options: { ws?: WebSocket; role?: string; sessionId?: string; sessionExpiresAt?: number } = {}
+): ConnectedClient {
   const client: ConnectedClient = {
     id: clientId,
     userId,
+    role: options.role ?? "USER",
+    sessionId: options.sessionId ?? null,
+    sessionExpiresAt: options.sessionExpiresAt ?? Number.POSITIVE_INFINITY,
     subscribedChannels: new Set(),
     connectedAt: Date.now(),
     lastPingAt: Date.now(),
+    ...(options.ws && { ws: options.ws }),
   };
 
   connectedClients.set(clientId, client);
@@ -121,20 +178,27 @@ export function unsubscribeFromChannels(clientId: string, channels: Channel[]):
 }
 
 // ============================================================================
-// Broadcasting (To be implemented with actual WebSocket library)
+// Broadcasting
 // ============================================================================
 
+export interface BroadcastOptions {
+  channel?: Channel;
+  userId?: string;
+  excludeClient?: string;
+}
+
+interface BroadcastEnvelope {
+  message: WebSocketMessage;
+  options?: BroadcastOptions;
+}
+
 /**
  * Broadcast message to all connected clients
  */
 export function broadcast<T extends keyof ServerEvents>(
   type: T,
   data: ServerEvents[T],
-  options?: {
-    channel?: Channel;
-    userId?: string;
-    excludeClient?: string;
-  }
+  options?: BroadcastOptions
 ): void {
   // Feature flag check
   if (!isFeatureEnabled(type)) {
@@ -149,34 +213,12 @@ export function broadcast<T extends keyof ServerEvents>(
     ...(options?.channel && { channel: options.channel }),
   };
 
-  // Filter clients based on options
-  const targetClients = Array.from(connectedClients.values()).filter((client) => {
-    // Exclude specific client
-    if (options?.excludeClient && client.id === options.excludeClient) {
-      return false;
-    }
-
-    // Filter by user ID
-    if (options?.userId && client.userId !== options.userId) {
-      return false;
-    }
-
-    // Filter by channel subscription
-    if (options?.channel && !client.subscribedChannels.has(options.channel)) {
-      return false;
-    }
-
-    return true;
-  });
-
-  console.log(`[WebSocket] Broadcasting ${type} to ${targetClients.length} clients`);
+  if (!activeServer && !getEventBus().distributed) {
+    void relayToServer(message, options);
+    return;
+  }
 
-  // TODO: Implement actual WebSocket send
-  // For now, just log
-  targetClients.forEach((client) => {
-    // client.ws?.send(JSON.stringify(message));
-    console.log(`[WebSocket] Would send to client ${client.id}:`, message);
-  });
+  publishEvent<BroadcastEnvelope>(EVENT_TOPICS.WEBSOCKET_BROADCAST, { message, ...(options && { options }) });
 }
 
 /**
@@ -214,8 +256,148 @@ export function sendToClient<T extends keyof ServerEvents>(
     timestamp: Date.now(),
   };
 
-  // TODO: Implement actual WebSocket send
-  console.log(`[WebSocket] Would send to client ${clientId}:`, message);
+  send(client.ws, message);
+}
+
+/**
+ * Deliver a message to matching clients in this process
+ */
+function deliver(message: WebSocketMessage, options?: BroadcastOptions): void {
+  // Filter clients based on options
+  const targetClients = Array.from(connectedClients.values()).filter((client) => {
+    // Exclude specific client
+    if (options?.excludeClient && client.id === options.excludeClient) {
+      return false;
+    }
+
+    // Filter by user ID
+    if (options?.userId && client.userId !== options.userId) {
+      return false;
+    }
+
+    // Filter by channel subscription
+    if (options?.channel && !client.subscribedChannels.has(options.channel)) {
+      return false;
+    }
+
+    return true;
+  });
+
+  const payload = JSON.stringify(message);
+  for (const client of targetClients) {
+    if (client.ws?.readyState === WebSocket.OPEN) {
+      client.ws.send(payload);
+    }
+  }
+}
+
+function send(ws: WebSocket | undefined, message: WebSocketMessage): void {
+  if (ws?.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+function sendError(ws: WebSocket, code: string, errorMessage: string): void {
+  send(ws, { type: "server:error", data: { code, message: errorMessage }, timestamp: Date.now() });
+}
+
+/**
+ * Forward a message to the WebSocket server process
+ */
+function relayToServer(message: WebSocketMessage, options?: BroadcastOptions): Promise<void> {
+  return postToServer("/publish", { message, options: options ?? {} }, message.type);
+}
+
+/**
+ * POST to the WebSocket server's internal HTTP endpoint
+ */
+async function postToServer(path: string, body: unknown, label: string): Promise<void> {
+  const secret = process.env['WEBSOCKET_INTERNAL_SECRET'];
+  if (!secret) {
+    console.warn(`[WebSocket] WEBSOCKET_INTERNAL_SECRET not set, dropping ${label}`);
+    return;
+  }
+
+  const baseUrl = process.env['WEBSOCKET_INTERNAL_URL'] || "http://127.0.0.1:3002";
+
+  try {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: { "content-type": "application/json", authorization: `Bearer ${secret}` },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(2000),
+    });
+    if (!response.ok) {
+      console.error(`[WebSocket] Relay of ${label} failed with status ${response.status}`);
+    }
+  } catch (error) {
+    console.error(`[WebSocket] Relay of ${label} failed:`, error);
+  }
+}
+
+// ============================================================================
+// Disconnecting
+// ============================================================================
+
+export interface DisconnectTarget {
+  userId?: string;
+  sessionIds?: string[];
+  exceptSessionId?: string;
+  reason: string;
+}
+
+/**
+ * Close the sockets of revoked sessions or a suspended user, on every
+ * WebSocket server instance. Called by the session manager after it deletes
+ * sessions; anything it misses is caught by the periodic session check.
+ */
+export function disconnectClients(target: DisconnectTarget): void {
+  if (!target.userId && !target.sessionIds?.length) return;
+
+  if (!activeServer && !getEventBus().distributed) {
+    void postToServer("/disconnect", target, "disconnect");
+    return;
+  }
+
+  publishEvent<DisconnectTarget>(EVENT_TOPICS.WEBSOCKET_DISCONNECT, target);
+}
+
+/**
+ * Close matching clients in this process
+ */
+function closeClients(target: DisconnectTarget): number {
+  let closed = 0;
+
+  for (const [clientId, client] of connectedClients.entries()) {
+    if (target.userId && client.userId !== target.userId) continue;
+    if (target.sessionIds && !(client.sessionId && target.sessionIds.includes(client.sessionId))) continue;
+    if (target.exceptSessionId && client.sessionId === target.exceptSessionId) continue;
+
+    client.ws?.close(WS_CLOSE_CODES.UNAUTHORIZED, target.reason);
+    unregisterClient(clientId);
+    closed++;
+  }
+
+  return closed;
+}
+
+/**
+ * Close clients whose session has been deleted or whose user is now suspended
+ */
+async function closeRevokedSessions(): Promise<void> {
+  const sessionIds = Array.from(connectedClients.values()).flatMap((client) => client.sessionId ?? []);
+  if (sessionIds.length === 0) return;
+
+  const sessions = await prisma.session.findMany({
+    where: { id: { in: sessionIds } },
+    select: { id: true, user: { select: { suspendedAt: true, suspendedUntil: true } } },
+  });
+
+  const live = new Set(sessions.filter((session) => !isSuspensionActive(session.user)).map((session) => session.id));
+  const revoked = sessionIds.filter((id) => !live.has(id));
+  if (revoked.length > 0) {
+    closeClients({ sessionIds: revoked, reason: "Session revoked" });
+  }
 }
 
 // ============================================================================
@@ -241,6 +423,383 @@ function isFeatureEnabled(eventType: string): boolean {
   return true; // Allow unlisted events
 }
 
+// ============================================================================
+// Authentication & Authorization
+// ============================================================================
+
+/**
+ * Validate a ticket sent with client:connect and the session it was issued for
+ *
+ * @returns Session owner details, or null if the ticket is invalid, reused or not for this user
+ */
+async function authenticateClient(
+  userId: string,
+  ticket: string
+): Promise<{ role: string; sessionId: string; sessionExpiresAt: number } | null> {
+  const claims = verifyWebSocketTicket(ticket);
+  if (!claims || claims.userId !== userId) return null;
+  if (usedTickets.has(claims.id)) return null;
+  usedTickets.set(claims.id, claims.expiresAt);
+
+  const session = await prisma.session.findUnique({
+    where: { id: claims.sessionId },
+    select: {
+      userId: true,
+      expiresAt: true,
+      user: { select: { role: true, suspendedAt: true, suspendedUntil: true } },
+    },
+  });
+
+  if (!session || session.userId !== userId) return null;
+  if (session.expiresAt.getTime() <= Date.now()) return null;
+  if (isSuspensionActive(session.user)) return null;
+
+  return { role: session.user.role, sessionId: claims.sessionId, sessionExpiresAt: session.expiresAt.getTime() };
+}
+
+/**
+ * Check whether a client may subscribe to a channel
+ */
+async function canSubscribe(client: ConnectedClient, channel: string): Promise<boolean> {
+  if (!KNOWN_CHANNELS.has(channel)) return false;
+  if (!channel.startsWith("admin:")) return true;
+  if (!WEBSOCKET_CONFIG.features.ENABLE_ADMIN_CHANNELS) return false;
+
+  const permission = ADMIN_CHANNEL_PERMISSIONS[channel];
+  return permission ? userHasPermissionAsync(client.role, permission) : false;
+}
+
+// ============================================================================
+// Client Message Handling
+// ============================================================================
+
+interface SocketState {
+  clientId: string;
+  client: ConnectedClient | null;
+  windowStart: number;
+  messagesInWindow: number;
+}
+
+type ClientMessage = {
+  [K in keyof ClientEvents]: { type: K; data: ClientEvents[K] };
+}[keyof ClientEvents];
+
+function parseClientMessage(raw: RawData): ClientMessage | null {
+  try {
+    const parsed = JSON.parse(raw.toString());
+    if (typeof parsed?.type !== "string" || typeof parsed.data !== "object" || parsed.data === null) {
+      return null;
+    }
+    return parsed as ClientMessage;
+  } catch {
+    return null;
+  }
+}
+
+function isRateLimited(state: SocketState): boolean {
+  const now = Date.now();
+  if (now - state.windowStart >= 1000) {
+    state.windowStart = now;
+    state.messagesInWindow = 0;
+  }
+  state.messagesInWindow++;
+  return state.messagesInWindow > WEBSOCKET_CONFIG.maxMessagesPerSecond;
+}
+
+function toChannelList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+async function handleConnect(ws: WebSocket, state: SocketState, data: ClientEvents["client:connect"]): Promise<void> {
+  if (state.client) return;
+
+  const auth = typeof data.userId === "string" && typeof data.ticket === "string"
+    ? await authenticateClient(data.userId, data.ticket)
+    : null;
+
+  if (!auth) {
+    sendError(ws, "AUTH_FAILED", "Invalid or expired session");
+    ws.close(WS_CLOSE_CODES.UNAUTHORIZED, "Unauthorized");
+    return;
+  }
+
+  state.client = registerClient(state.clientId, data.userId, { ws, ...auth });
+  send(ws, { type: "server:connected", data: { clientId: state.clientId, timestamp: Date.now() }, timestamp: Date.now() });
+}
+
+async function handleSubscribe(ws: WebSocket, client: ConnectedClient, channels: string[]): Promise<void> {
+  const allowed: Channel[] = [];
+  const denied: string[] = [];
+
+  for (const channel of channels) {
+    if (await canSubscribe(client, channel)) {
+      allowed.push(channel as Channel);
+    } else {
+      denied.push(channel);
+    }
+  }
+
+  subscribeToChannels(client.id, allowed);
+  send(ws, {
+    type: "server:subscribed",
+    data: { channels: Array.from(client.subscribedChannels) },
+    timestamp: Date.now(),
+  });
+
+  if (denied.length > 0) {
+    sendError(ws, "CHANNEL_FORBIDDEN", `Not allowed to subscribe to: ${denied.join(", ")}`);
+  }
+}
+
+async function handleNotificationAction(
+  client: ConnectedClient,
+  action: "read" | "archive",
+  notificationId: string
+): Promise<void> {
+  const { markAsRead, archiveNotification } = await import("./notifications");
+  const updated = action === "read"
+    ? await markAsRead(notificationId, client.userId)
+    : await archiveNotification(notificationId, client.userId);
+
+  if (!updated) return;
+
+  // Keep the user's other tabs and devices in sync
+  broadcast(action === "read" ? "notification:read" : "notification:archived", { notificationId }, {
+    userId: client.userId,
+    excludeClient: client.id,
+  });
+}
+
+async function handleClientMessage(ws: WebSocket, state: SocketState, message: ClientMessage): Promise<void> {
+  if (message.type === "client:connect") {
+    await handleConnect(ws, state, message.data);
+    return;
+  }
+
+  const client = state.client;
+  if (!client) {
+    sendError(ws, "UNAUTHENTICATED", "Send client:connect first");
+    ws.close(WS_CLOSE_CODES.UNAUTHORIZED, "Unauthorized");
+    return;
+  }
+
+  switch (message.type) {
+    case "client:ping":
+      client.lastPingAt = Date.now();
+      send(ws, { type: "server:pong", data: { timestamp: message.data.timestamp }, timestamp: Date.now() });
+      break;
+    case "client:subscribe":
+      await handleSubscribe(ws, client, toChannelList(message.data.channels));
+      break;
+    case "client:unsubscribe":
+      unsubscribeFromChannels(client.id, toChannelList(message.data.channels) as Channel[]);
+      send(ws, {
+        type: "server:subscribed",
+        data: { channels: Array.from(client.subscribedChannels) },
+        timestamp: Date.now(),
+      });
+      break;
+    case "client:notification:read":
+      await handleNotificationAction(client, "read", message.data.notificationId);
+      break;
+    case "client:notification:archive":
+      await handleNotificationAction(client, "archive", message.data.notificationId);
+      break;
+    case "client:disconnect":
+      ws.close(1000, "Client disconnect");
+      break;
+    default:
+      sendError(ws, "UNKNOWN_EVENT", "Unsupported event type");
+  }
+}
+
+function handleConnection(ws: WebSocket): void {
+  const state: SocketState = { clientId: randomUUID(), client: null, windowStart: Date.now(), messagesInWindow: 0 };
+
+  const authTimer = setTimeout(() => {
+    if (!state.client) ws.close(WS_CLOSE_CODES.AUTH_TIMEOUT, "Authentication timeout");
+  }, WEBSOCKET_CONFIG.authTimeout);
+
+  ws.on("message", (raw) => {
+    if (isRateLimited(state)) {
+      sendError(ws, "RATE_LIMITED", "Too many messages");
+      if (state.messagesInWindow > WEBSOCKET_CONFIG.maxMessagesPerSecond * 2) {
+        ws.close(WS_CLOSE_CODES.RATE_LIMITED, "Rate limited");
+      }
+      return;
+    }
+
+    const message = parseClientMessage(raw);
+    if (!message) {
+      sendError(ws, "INVALID_MESSAGE", "Messages must be JSON objects with type and data");
+      return;
+    }
+
+    handleClientMessage(ws, state, message).catch((error) => {
+      console.error(`[WebSocket] Failed to handle ${message.type}:`, error);
+      sendError(ws, "INTERNAL_ERROR", "Failed to process message");
+    });
+  });
+
+  ws.on("close", () => {
+    clearTimeout(authTimer);
+    unregisterClient(state.clientId);
+  });
+
+  ws.on("error", (error) => {
+    console.error(`[WebSocket] Socket error for ${state.clientId}:`, error);
+  });
+}
+
+// ============================================================================
+// Internal HTTP Endpoint
+// ============================================================================
+
+function isAuthorizedPublisher(req: IncomingMessage): boolean {
+  const secret = process.env['WEBSOCKET_INTERNAL_SECRET'];
+  if (!secret) return false;
+
+  const provided = Buffer.from(req.headers.authorization ?? "");
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+async function readBody(req: IncomingMessage, limit: number): Promise<string> {
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > limit) throw new Error("Payload too large");
+  }
+  return body;
+}
+
+async function handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const reply = (status: number, payload: unknown) => {
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(JSON.stringify(payload));
+  };
+
+  if (req.method === "GET" && req.url === "/health") {
+    reply(200, { status: "ok", clients: connectedClients.size });
+    return;
+  }
+
+  if (req.method !== "POST" || (req.url !== "/publish" && req.url !== "/disconnect")) {
+    reply(404, { error: "Not found" });
+    return;
+  }
+
+  if (!isAuthorizedPublisher(req)) {
+    reply(401, { error: "Unauthorized" });
+    return;
+  }
+
+  if (req.url === "/disconnect") {
+    try {
+      const target = JSON.parse(await readBody(req, WEBSOCKET_CONFIG.maxPayloadBytes)) as DisconnectTarget;
+      if (typeof target?.reason !== "string") {
+        reply(400, { error: "Invalid target" });
+        return;
+      }
+      publishEvent<DisconnectTarget>(EVENT_TOPICS.WEBSOCKET_DISCONNECT, target);
+      reply(202, { accepted: true });
+    } catch (error) {
+      reply(400, { error: error instanceof Error ? error.message : "Invalid body" });
+    }
+    return;
+  }
+
+  try {
+    const { message, options } = JSON.parse(await readBody(req, WEBSOCKET_CONFIG.maxPayloadBytes));
+    if (typeof message?.type !== "string") {
+      reply(400, { error: "Invalid message" });
+      return;
+    }
+    // Through the bus, so clients connected to other WebSocket server instances receive it too
+    publishEvent<BroadcastEnvelope>(EVENT_TOPICS.WEBSOCKET_BROADCAST, { message, ...(options && { options }) });
+    reply(202, { accepted: true });
+  } catch (error) {
+    reply(400, { error: error instanceof Error ? error.message : "Invalid body" });
+  }
+}
+
+// ============================================================================
+// Server Lifecycle
+// ============================================================================
+
+/**
+ * Start the standalone WebSocket server in this process
+ */
+export async function startWebSocketServer(options: { port: number; host?: string }): Promise<Server> {
+  if (activeServer) return activeServer.http;
+
+  // Messages broadcast by any process (this one included) arrive through the bus
+  const unsubscribeBroadcast = await getEventBus().subscribe<BroadcastEnvelope>(
+    EVENT_TOPICS.WEBSOCKET_BROADCAST,
+    ({ message, options: broadcastOptions }) => {
+      deliver(message, broadcastOptions);
+    }
+  );
+  const unsubscribeDisconnect = await getEventBus().subscribe<DisconnectTarget>(
+    EVENT_TOPICS.WEBSOCKET_DISCONNECT,
+    (target) => {
+      closeClients(target);
+    }
+  );
+  const unsubscribe = async () => {
+    await Promise.all([unsubscribeBroadcast(), unsubscribeDisconnect()]);
+  };
+
+  const http = createServer((req, res) => {
+    handleHttpRequest(req, res).catch((error) => {
+      console.error("[WebSocket] HTTP request failed:", error);
+      if (!res.headersSent) res.writeHead(500);
+      res.end();
+    });
+  });
+  const wss = new WebSocketServer({ server: http, maxPayload: WEBSOCKET_CONFIG.maxPayloadBytes });
+  wss.on("connection", handleConnection);
+
+  const cleanupTimer = setInterval(() => {
+    cleanupInactiveConnections(WEBSOCKET_CONFIG.pingInterval * 2);
+    closeRevokedSessions().catch((error) => {
+      console.error("[WebSocket] Session check failed:", error);
+    });
+  }, WEBSOCKET_CONFIG.pingInterval);
+
+  activeServer = { http, wss, cleanupTimer, unsubscribe };
+
+  return new Promise((resolve, reject) => {
+    http.once("error", reject);
+    http.listen(options.port, options.host ?? "0.0.0.0", () => {
+      http.off("error", reject);
+      console.log(`[WebSocket] Server listening on ${options.host ?? "0.0.0.0"}:${options.port}`);
+      resolve(http);
+    });
+  });
+}
+
+/**
+ * Close all connections and stop the WebSocket server
+ */
+export async function stopWebSocketServer(): Promise<void> {
+  if (!activeServer) return;
+
+  const { http, wss, cleanupTimer, unsubscribe } = activeServer;
+  activeServer = null;
+  clearInterval(cleanupTimer);
+  await unsubscribe();
+
+  for (const ws of wss.clients) {
+    ws.close(WS_CLOSE_CODES.SHUTDOWN, "Server shutting down");
+  }
+  connectedClients.clear();
+  usedTickets.clear();
+
+  await new Promise<void>((resolve) => wss.close(() => resolve()));
+  await new Promise<void>((resolve) => http.close(() => resolve()));
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -271,23 +830,31 @@ export function isUserConnected(userId: string): boolean {
 // ============================================================================
 
 /**
- * Clean up inactive connections (run periodically)
+ * Clean up inactive connections and connections whose session expired (run periodically)
  */
 export function cleanupInactiveConnections(timeoutMs: number = 60000): number {
   const now = Date.now();
   let cleaned = 0;
 
   for (const [clientId, client] of connectedClients.entries()) {
-    if (now - client.lastPingAt > timeoutMs) {
+    const expired = client.sessionExpiresAt <= now;
+    if (expired || now - client.lastPingAt > timeoutMs) {
+      client.ws?.close(
+        expired ? WS_CLOSE_CODES.UNAUTHORIZED : WS_CLOSE_CODES.HEARTBEAT_TIMEOUT,
+        expired ? "Session expired" : "Heartbeat timeout"
+      );
       unregisterClient(clientId);
       cleaned++;
     }
   }
 
+  for (const [ticketId, expiresAt] of usedTickets.entries()) {
+    if (expiresAt <= now) usedTickets.delete(ticketId);
+  }
+
   if (cleaned > 0) {
     console.log(`[WebSocket] Cleaned up ${cleaned} inactive connections`);
   }
 
   return cleaned;
 }
-
@@ -0,0 +1,80 @@
+/**
+ * WebSocket Tickets
+ *
+ * Short-lived credentials for the `client:connect` handshake, so the session
+ * token never leaves the httpOnly cookie. A ticket names the user and session
+ * it was issued for, expires after TICKET_TTL_MS and is signed with a key
+ * derived from WEBSOCKET_INTERNAL_SECRET, which the web app and the WebSocket
+ * server share. The WebSocket server rejects a ticket it has already accepted.
+ *
+ * Format: base64url(JSON payload) "." base64url(HMAC-SHA256 of the payload)
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+
+export const TICKET_TTL_MS = 30_000;
+
+export interface WebSocketTicket {
+  id: string;
+  userId: string;
+  sessionId: string;
+  expiresAt: number;
+}
+
+function getSigningKey(): Buffer | null {
+  const secret = process.env["WEBSOCKET_INTERNAL_SECRET"];
+  if (!secret) return null;
+  // Separate key so a ticket signature is never usable as the publish bearer token
+  return createHmac("sha256", secret).update("websocket-ticket").digest();
+}
+
+function sign(key: Buffer, payload: string): string {
+  return createHmac("sha256", key).update(payload).digest("base64url");
+}
+
+/**
+ * Issue a ticket for the given session
+ * @returns The ticket and its expiry, or null when WEBSOCKET_INTERNAL_SECRET is not set
+ */
+export function issueWebSocketTicket(userId: string, sessionId: string): { ticket: string; expiresAt: number } | null {
+  const key = getSigningKey();
+  if (!key) return null;
+
+  const claims: WebSocketTicket = { id: randomUUID(), userId, sessionId, expiresAt: Date.now() + TICKET_TTL_MS };
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+
+  return { ticket: `${payload}.${sign(key, payload)}`, expiresAt: claims.expiresAt };
+}
+
+/**
+ * Check a ticket's signature and expiry. Does not track reuse - the caller does.
+ * @returns The ticket claims, or null if it is malformed, forged or expired
+ */
+export function verifyWebSocketTicket(ticket: string, now: number = Date.now()): WebSocketTicket | null {
+  const key = getSigningKey();
+  if (!key) return null;
+
+  const [payload, signature, ...rest] = ticket.split(".");
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(key, payload));
+  const provided = Buffer.from(signature);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as Partial<WebSocketTicket>;
+    if (
+      typeof claims.id !== "string" ||
+      typeof claims.userId !== "string" ||
+      typeof claims.sessionId !== "string" ||
+      typeof claims.expiresAt !== "number"
+    ) {
+      return null;
+    }
+    if (claims.expiresAt <= now) return null;
+
+    return { id: claims.id, userId: claims.userId, sessionId: claims.sessionId, expiresAt: claims.expiresAt };
+  } catch {
+    return null;
+  }
+}
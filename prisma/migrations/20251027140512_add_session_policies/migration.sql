@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE `session_policy` (
+    `id` VARCHAR(191) NOT NULL,
+    `scope` VARCHAR(10) NOT NULL,
+    `role` VARCHAR(100) NULL,
+    `userId` VARCHAR(191) NULL,
+    `allowedIPs` JSON NULL,
+    `blockedIPs` JSON NULL,
+    `allowedCountries` JSON NULL,
+    `blockedCountries` JSON NULL,
+    `allowedDays` JSON NULL,
+    `allowedTimeStart` VARCHAR(5) NULL,
+    `allowedTimeEnd` VARCHAR(5) NULL,
+    `timezone` VARCHAR(64) NULL,
+    `allowedDeviceTypes` JSON NULL,
+    `blockedDeviceTypes` JSON NULL,
+    `maxConcurrentSessions` INTEGER NULL,
+    `requireFingerprintMatch` BOOLEAN NULL,
+    `requireStepUpForSensitiveActions` BOOLEAN NULL,
+    `autoLogoutOnLocationChange` BOOLEAN NULL,
+    `autoLogoutOnIPChange` BOOLEAN NULL,
+    `notifyOnNewDevice` BOOLEAN NULL,
+    `notifyOnNewLocation` BOOLEAN NULL,
+    `notifyOnSuspiciousActivity` BOOLEAN NULL,
+    `updatedById` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `session_policy_role_key`(`role`),
+    UNIQUE INDEX `session_policy_userId_key`(`userId`),
+    INDEX `session_policy_scope_idx`(`scope`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `session_policy` ADD CONSTRAINT `session_policy_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE `audit_log` (
+    `id` VARCHAR(191) NOT NULL,
+    `action` VARCHAR(100) NOT NULL,
+    `actorId` VARCHAR(191) NULL,
+    `actorEmail` VARCHAR(255) NULL,
+    `actorRole` VARCHAR(100) NULL,
+    `targetId` VARCHAR(191) NULL,
+    `targetType` VARCHAR(50) NULL,
+    `targetName` VARCHAR(255) NULL,
+    `before` JSON NULL,
+    `after` JSON NULL,
+    `details` JSON NULL,
+    `ipAddress` VARCHAR(100) NULL,
+    `userAgent` TEXT NULL,
+    `sessionId` VARCHAR(191) NULL,
+    `success` BOOLEAN NOT NULL DEFAULT true,
+    `error` TEXT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `audit_log_actorId_createdAt_idx`(`actorId`, `createdAt`),
+    INDEX `audit_log_targetId_createdAt_idx`(`targetId`, `createdAt`),
+    INDEX `audit_log_action_createdAt_idx`(`action`, `createdAt`),
+    INDEX `audit_log_targetType_idx`(`targetType`),
+    INDEX `audit_log_createdAt_idx`(`createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE `user` ADD COLUMN `suspendedAt` DATETIME(3) NULL,
+    ADD COLUMN `suspendedUntil` DATETIME(3) NULL,
+    ADD COLUMN `suspensionReason` TEXT NULL,
+    ADD COLUMN `suspendedById` VARCHAR(191) NULL;
+
+-- AlterTable
+ALTER TABLE `ApiKey` ADD COLUMN `suspendedAt` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `user_suspendedUntil_idx` ON `user`(`suspendedUntil`);
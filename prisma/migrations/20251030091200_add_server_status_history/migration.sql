@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE `server_status_sample` (
+    `id` VARCHAR(191) NOT NULL,
+    `serverAddress` VARCHAR(255) NOT NULL,
+    `online` BOOLEAN NOT NULL,
+    `playersOnline` INTEGER NOT NULL DEFAULT 0,
+    `playersMax` INTEGER NOT NULL DEFAULT 0,
+    `latencyMs` INTEGER NULL,
+    `checkedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `server_status_sample_serverAddress_checkedAt_idx`(`serverAddress`, `checkedAt`),
+    INDEX `server_status_sample_checkedAt_idx`(`checkedAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `server_status_rollup` (
+    `id` VARCHAR(191) NOT NULL,
+    `serverAddress` VARCHAR(255) NOT NULL,
+    `bucketStart` DATETIME(3) NOT NULL,
+    `samples` INTEGER NOT NULL DEFAULT 0,
+    `onlineSamples` INTEGER NOT NULL DEFAULT 0,
+    `peakPlayers` INTEGER NOT NULL DEFAULT 0,
+    `avgPlayers` DOUBLE NOT NULL DEFAULT 0,
+    `avgLatencyMs` INTEGER NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `server_status_rollup_serverAddress_bucketStart_key`(`serverAddress`, `bucketStart`),
+    INDEX `server_status_rollup_bucketStart_idx`(`bucketStart`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
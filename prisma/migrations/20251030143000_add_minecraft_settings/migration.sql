@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `AppSettings` ADD COLUMN `minecraft` JSON NULL;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE `server_status_incident` (
+    `id` VARCHAR(191) NOT NULL,
+    `serverId` VARCHAR(32) NOT NULL,
+    `serverName` VARCHAR(100) NOT NULL,
+    `serverAddress` VARCHAR(255) NOT NULL,
+    `startedAt` DATETIME(3) NOT NULL,
+    `resolvedAt` DATETIME(3) NULL,
+    `error` TEXT NULL,
+    `failedChecks` INTEGER NOT NULL DEFAULT 0,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `server_status_incident_serverId_resolvedAt_idx`(`serverId`, `resolvedAt`),
+    INDEX `server_status_incident_startedAt_idx`(`startedAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE `Event` MODIFY `recurrenceFreq` ENUM('NONE', 'DAILY', 'WEEKLY', 'MONTHLY') NOT NULL DEFAULT 'NONE',
+    ADD COLUMN `byMonthDayJson` JSON NULL,
+    ADD COLUMN `exDatesJson` JSON NULL,
+    ADD COLUMN `recurrenceInterval` INTEGER NOT NULL DEFAULT 1,
+    ADD COLUMN `byWeekdayPos` INTEGER NULL,
+    ADD COLUMN `recurrenceCount` INTEGER NULL;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE `event_occurrence_override` (
+    `id` VARCHAR(191) NOT NULL,
+    `eventId` VARCHAR(191) NOT NULL,
+    `occurrenceStart` DATETIME(3) NOT NULL,
+    `cancelled` BOOLEAN NOT NULL DEFAULT false,
+    `startAt` DATETIME(3) NULL,
+    `endAt` DATETIME(3) NULL,
+    `world` VARCHAR(191) NULL,
+    `title` VARCHAR(191) NULL,
+    `shortDescription` VARCHAR(300) NULL,
+    `details` TEXT NULL,
+    `updatedById` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `event_occurrence_override_eventId_occurrenceStart_key`(`eventId`, `occurrenceStart`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `event_occurrence_override` ADD CONSTRAINT `event_occurrence_override_eventId_fkey` FOREIGN KEY (`eventId`) REFERENCES `Event`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
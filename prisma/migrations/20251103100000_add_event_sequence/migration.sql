@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `Event` ADD COLUMN `sequence` INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `Event` ADD COLUMN `icalUid` VARCHAR(255) NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `Event_icalUid_key` ON `Event`(`icalUid`);
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE `event_favorite` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `eventId` VARCHAR(191) NOT NULL,
+    `remindMinutesBefore` INTEGER NULL,
+    `lastRemindedOccurrence` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `event_favorite_eventId_idx`(`eventId`),
+    INDEX `event_favorite_remindMinutesBefore_idx`(`remindMinutesBefore`),
+    UNIQUE INDEX `event_favorite_userId_eventId_key`(`userId`, `eventId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `event_favorite` ADD CONSTRAINT `event_favorite_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `event_favorite` ADD CONSTRAINT `event_favorite_eventId_fkey` FOREIGN KEY (`eventId`) REFERENCES `Event`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
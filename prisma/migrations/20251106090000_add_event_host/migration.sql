@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE `Event` ADD COLUMN `hostId` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE INDEX `Event_hostId_idx` ON `Event`(`hostId`);
+
+-- AddForeignKey
+ALTER TABLE `Event` ADD CONSTRAINT `Event_hostId_fkey` FOREIGN KEY (`hostId`) REFERENCES `user`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
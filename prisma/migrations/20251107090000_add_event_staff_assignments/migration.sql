@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE `event_staff_assignment` (
+    `id` VARCHAR(191) NOT NULL,
+    `eventId` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `role` ENUM('Host', 'Character', 'Security', 'Tech') NOT NULL,
+    `occurrenceStart` DATETIME(3) NULL,
+    `status` ENUM('Pending', 'Accepted', 'Declined') NOT NULL DEFAULT 'Pending',
+    `note` VARCHAR(300) NULL,
+    `respondedAt` DATETIME(3) NULL,
+    `assignedById` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `event_staff_assignment_eventId_idx`(`eventId`),
+    INDEX `event_staff_assignment_userId_status_idx`(`userId`, `status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `event_staff_assignment` ADD CONSTRAINT `event_staff_assignment_eventId_fkey` FOREIGN KEY (`eventId`) REFERENCES `Event`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `event_staff_assignment` ADD CONSTRAINT `event_staff_assignment_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `event_staff_assignment` ADD CONSTRAINT `event_staff_assignment_assignedById_fkey` FOREIGN KEY (`assignedById`) REFERENCES `user`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE `event_rsvp` (
+    `id` VARCHAR(191) NOT NULL,
+    `eventId` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `occurrenceStart` DATETIME(3) NOT NULL,
+    `source` VARCHAR(16) NOT NULL DEFAULT 'web',
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `event_rsvp_userId_idx`(`userId`),
+    UNIQUE INDEX `event_rsvp_eventId_occurrenceStart_userId_key`(`eventId`, `occurrenceStart`, `userId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `event_attendance` (
+    `id` VARCHAR(191) NOT NULL,
+    `eventId` VARCHAR(191) NOT NULL,
+    `occurrenceStart` DATETIME(3) NOT NULL,
+    `minecraftUuid` VARCHAR(36) NOT NULL,
+    `minecraftName` VARCHAR(16) NOT NULL,
+    `userId` VARCHAR(191) NULL,
+    `firstSeenAt` DATETIME(3) NOT NULL,
+    `lastSeenAt` DATETIME(3) NOT NULL,
+
+    INDEX `event_attendance_userId_idx`(`userId`),
+    UNIQUE INDEX `event_attendance_eventId_occurrenceStart_minecraftUuid_key`(`eventId`, `occurrenceStart`, `minecraftUuid`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `event_rsvp` ADD CONSTRAINT `event_rsvp_eventId_fkey` FOREIGN KEY (`eventId`) REFERENCES `Event`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `event_rsvp` ADD CONSTRAINT `event_rsvp_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `event_attendance` ADD CONSTRAINT `event_attendance_eventId_fkey` FOREIGN KEY (`eventId`) REFERENCES `Event`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `event_attendance` ADD CONSTRAINT `event_attendance_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
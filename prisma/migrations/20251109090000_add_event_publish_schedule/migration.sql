@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE `Event` ADD COLUMN `publishAt` DATETIME(3) NULL,
+    ADD COLUMN `archiveAt` DATETIME(3) NULL,
+    ADD COLUMN `announceOnPublish` BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX `Event_status_publishAt_idx` ON `Event`(`status`, `publishAt`);
+
+-- CreateIndex
+CREATE INDEX `Event_archiveAt_idx` ON `Event`(`archiveAt`);
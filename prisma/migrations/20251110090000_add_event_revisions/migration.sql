@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE `event_revision` (
+    `id` VARCHAR(191) NOT NULL,
+    `eventId` VARCHAR(191) NOT NULL,
+    `revision` INTEGER NOT NULL,
+    `source` VARCHAR(16) NOT NULL,
+    `snapshot` JSON NOT NULL,
+    `changedFields` JSON NULL,
+    `restoredFrom` INTEGER NULL,
+    `authorId` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `event_revision_eventId_revision_key`(`eventId`, `revision`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `event_revision` ADD CONSTRAINT `event_revision_eventId_fkey` FOREIGN KEY (`eventId`) REFERENCES `Event`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE `Application` ADD COLUMN `formId` VARCHAR(191) NULL,
+    ADD COLUMN `answers` JSON NULL;
+
+-- CreateTable
+CREATE TABLE `application_form` (
+    `id` VARCHAR(191) NOT NULL,
+    `role` ENUM('Developer', 'Imaginear', 'GuestServices') NOT NULL,
+    `version` INTEGER NOT NULL,
+    `definition` JSON NOT NULL,
+    `createdById` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `application_form_role_version_key`(`role`, `version`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `Application_formId_idx` ON `Application`(`formId`);
+
+-- AddForeignKey
+ALTER TABLE `Application` ADD CONSTRAINT `Application_formId_fkey` FOREIGN KEY (`formId`) REFERENCES `application_form`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,86 @@
+-- CreateTable
+CREATE TABLE `application_reviewer` (
+    `id` VARCHAR(191) NOT NULL,
+    `applicationId` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `assignedById` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `application_reviewer_userId_idx`(`userId`),
+    UNIQUE INDEX `application_reviewer_applicationId_userId_key`(`applicationId`, `userId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `application_vote` (
+    `id` VARCHAR(191) NOT NULL,
+    `applicationId` VARCHAR(191) NOT NULL,
+    `reviewerId` VARCHAR(191) NOT NULL,
+    `vote` VARCHAR(16) NOT NULL,
+    `scores` JSON NULL,
+    `note` VARCHAR(500) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `application_vote_applicationId_reviewerId_key`(`applicationId`, `reviewerId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `application_comment` (
+    `id` VARCHAR(191) NOT NULL,
+    `applicationId` VARCHAR(191) NOT NULL,
+    `authorId` VARCHAR(191) NULL,
+    `parentId` VARCHAR(191) NULL,
+    `body` TEXT NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `application_comment_applicationId_createdAt_idx`(`applicationId`, `createdAt`),
+    INDEX `application_comment_parentId_idx`(`parentId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `application_status_change` (
+    `id` VARCHAR(191) NOT NULL,
+    `applicationId` VARCHAR(191) NOT NULL,
+    `fromStatus` ENUM('New', 'InReview', 'Approved', 'Rejected') NULL,
+    `toStatus` ENUM('New', 'InReview', 'Approved', 'Rejected') NOT NULL,
+    `changedById` VARCHAR(191) NULL,
+    `reason` VARCHAR(500) NULL,
+    `quorumOverridden` BOOLEAN NOT NULL DEFAULT false,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `application_status_change_applicationId_createdAt_idx`(`applicationId`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `application_reviewer` ADD CONSTRAINT `application_reviewer_applicationId_fkey` FOREIGN KEY (`applicationId`) REFERENCES `Application`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `application_reviewer` ADD CONSTRAINT `application_reviewer_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `application_reviewer` ADD CONSTRAINT `application_reviewer_assignedById_fkey` FOREIGN KEY (`assignedById`) REFERENCES `user`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `application_vote` ADD CONSTRAINT `application_vote_applicationId_fkey` FOREIGN KEY (`applicationId`) REFERENCES `Application`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `application_vote` ADD CONSTRAINT `application_vote_reviewerId_fkey` FOREIGN KEY (`reviewerId`) REFERENCES `user`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `application_comment` ADD CONSTRAINT `application_comment_applicationId_fkey` FOREIGN KEY (`applicationId`) REFERENCES `Application`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `application_comment` ADD CONSTRAINT `application_comment_authorId_fkey` FOREIGN KEY (`authorId`) REFERENCES `user`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `application_comment` ADD CONSTRAINT `application_comment_parentId_fkey` FOREIGN KEY (`parentId`) REFERENCES `application_comment`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `application_status_change` ADD CONSTRAINT `application_status_change_applicationId_fkey` FOREIGN KEY (`applicationId`) REFERENCES `Application`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `application_status_change` ADD CONSTRAINT `application_status_change_changedById_fkey` FOREIGN KEY (`changedById`) REFERENCES `user`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `Application` ADD COLUMN `statusToken` VARCHAR(64) NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `Application_statusToken_key` ON `Application`(`statusToken`);
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE `Application` ADD COLUMN `provisionedUserId` VARCHAR(191) NULL,
+    ADD COLUMN `provisionedAt` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `Application_provisionedUserId_idx` ON `Application`(`provisionedUserId`);
+
+-- AddForeignKey
+ALTER TABLE `Application` ADD CONSTRAINT `Application_provisionedUserId_fkey` FOREIGN KEY (`provisionedUserId`) REFERENCES `user`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
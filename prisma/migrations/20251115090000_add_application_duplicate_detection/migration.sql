@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE `Application` ADD COLUMN `mcUuid` VARCHAR(36) NULL,
+    ADD COLUMN `fingerprint` VARCHAR(64) NULL;
+
+-- CreateTable
+CREATE TABLE `application_match` (
+    `id` VARCHAR(191) NOT NULL,
+    `applicationId` VARCHAR(191) NOT NULL,
+    `matchedId` VARCHAR(191) NOT NULL,
+    `signals` JSON NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `application_match_matchedId_idx`(`matchedId`),
+    UNIQUE INDEX `application_match_applicationId_matchedId_key`(`applicationId`, `matchedId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `Application_mcUsername_idx` ON `Application`(`mcUsername`);
+
+-- CreateIndex
+CREATE INDEX `Application_mcUuid_idx` ON `Application`(`mcUuid`);
+
+-- CreateIndex
+CREATE INDEX `Application_discordUser_idx` ON `Application`(`discordUser`);
+
+-- CreateIndex
+CREATE INDEX `Application_fingerprint_idx` ON `Application`(`fingerprint`);
+
+-- AddForeignKey
+ALTER TABLE `application_match` ADD CONSTRAINT `application_match_applicationId_fkey` FOREIGN KEY (`applicationId`) REFERENCES `Application`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `application_match` ADD CONSTRAINT `application_match_matchedId_fkey` FOREIGN KEY (`matchedId`) REFERENCES `Application`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+/**
+ * Event scheduler
+ *
+ * Run: npm run events:scheduler (one instance per deployment)
+ *
+ * Every EVENT_SCHEDULER_INTERVAL seconds (default 60), publishes Scheduled
+ * events whose publishAt has passed (with the optional Discord announcement)
+ * and archives events that reached archiveAt or are over. See
+ * lib/event-schedule.ts.
+ *
+ * The public listings are cached, and the scheduler clears them after each
+ * change, so it needs the shared Redis cache: it refuses to start without
+ * REDIS_URL (or with CACHE_BACKEND=memory), as the site would otherwise keep
+ * showing the old listings until their cache entries expire.
+ *
+ * Env:
+ * - REDIS_URL (required)
+ * - EVENT_SCHEDULER_INTERVAL (seconds, default 60, minimum 15)
+ * - NEXT_PUBLIC_SITE_URL (event links in Discord announcements)
+ */
+
+import "dotenv/config";
+import { prisma } from "../lib/prisma";
+import { cache } from "../lib/cache";
+import { runEventSchedule } from "../lib/event-schedule";
+
+if (cache.getStats().backend !== "redis") {
+  console.error("❌ The event scheduler needs the shared Redis cache: set REDIS_URL and leave CACHE_BACKEND unset, or the site keeps showing stale event listings");
+  process.exit(1);
+}
+
+const intervalMs = Math.max(15, Number(process.env['EVENT_SCHEDULER_INTERVAL']) || 60) * 1000;
+
+let timer: ReturnType<typeof setTimeout> | undefined;
+
+async function tick() {
+  try {
+    const { published, archived } = await runEventSchedule(new Date());
+    if (published.length > 0) console.log(`📣 Published ${published.length} scheduled event(s): ${published.join(", ")}`);
+    if (archived.length > 0) console.log(`🗄️  Archived ${archived.length} event(s): ${archived.join(", ")}`);
+  } catch (error) {
+    console.error("❌ Event schedule run failed:", error instanceof Error ? error.message : error);
+  } finally {
+    timer = setTimeout(() => void tick(), intervalMs);
+  }
+}
+
+async function shutdown(signal: string) {
+  console.log(`\n🛑 ${signal} received, stopping event scheduler...`);
+  if (timer) clearTimeout(timer);
+  await prisma.$disconnect();
+  process.exit(0);
+}
+
+process.on("SIGINT", () => void shutdown("SIGINT"));
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+
+console.log(`🗓️  Running the event schedule every ${intervalMs / 1000}s`);
+void tick();
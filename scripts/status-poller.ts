@@ -0,0 +1,88 @@
+/**
+ * Minecraft server status poller
+ *
+ * Run: npm run status:poller (one instance per deployment)
+ *
+ * Samples every enabled server of the registry (Settings → Minecraft Server)
+ * every SERVER_STATUS_POLL_INTERVAL seconds (default 60), opens and resolves
+ * outage incidents, and once an hour rolls raw samples up and prunes expired
+ * history. The registry is re-read each round (through the settings cache), so
+ * changes apply without a restart.
+ *
+ * Env:
+ * - MINECRAFT_SERVER_ADDRESS (default iears.us, used while the registry is empty)
+ * - SERVER_STATUS_POLL_INTERVAL (seconds, default 60, minimum 15)
+ */
+
+import "dotenv/config";
+import { prisma } from "../lib/prisma";
+import { getMinecraftStatusSettings, type MinecraftServerEntry, type MinecraftStatusSettings } from "../lib/minecraft-status";
+import { getServerRegistry, trackServerIncident } from "../lib/server-network";
+import {
+  pollServerStatus,
+  pruneStatusHistory,
+  rollupStatusHistory,
+} from "../lib/server-status-history";
+
+const intervalMs = Math.max(15, Number(process.env['SERVER_STATUS_POLL_INTERVAL']) || 60) * 1000;
+
+let timer: ReturnType<typeof setTimeout> | undefined;
+let lastMaintenanceHour = -1;
+
+async function maintain(now: Date) {
+  const hour = Math.floor(now.getTime() / 3_600_000);
+  if (hour === lastMaintenanceHour) return;
+
+  const rolledUp = await rollupStatusHistory(now);
+  const pruned = await pruneStatusHistory(now);
+  lastMaintenanceHour = hour;
+  console.log(`🗜️  Rolled up ${rolledUp} hour(s), pruned ${pruned.samples} sample(s) and ${pruned.rollups} rollup(s)`);
+}
+
+async function pollServer(server: MinecraftServerEntry, settings: MinecraftStatusSettings) {
+  try {
+    const status = await pollServerStatus(server.address, {
+      statusProvider: settings.statusProvider,
+      timeoutMs: settings.timeoutMs,
+      edition: server.edition ?? settings.edition,
+    });
+    if (process.env.NODE_ENV === "development") {
+      console.log(`[Status Poller] ${server.id} (${server.address}): online=${status.online}, players=${status.playersOnline ?? 0}`);
+    }
+
+    const incident = await trackServerIncident(server, status);
+    if (incident === "opened") {
+      console.warn(`🔴 Incident opened for ${server.name} (${server.address}): ${status.error ?? "offline"}`);
+    } else if (incident === "resolved") {
+      console.log(`🟢 Incident resolved for ${server.name} (${server.address})`);
+    }
+  } catch (error) {
+    console.error(`❌ Status poll failed for ${server.id}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+async function tick() {
+  try {
+    const settings = await getMinecraftStatusSettings();
+    const servers = await getServerRegistry(settings);
+    await Promise.all(servers.map((server) => pollServer(server, settings)));
+    await maintain(new Date());
+  } catch (error) {
+    console.error("❌ Status poll failed:", error instanceof Error ? error.message : error);
+  } finally {
+    timer = setTimeout(() => void tick(), intervalMs);
+  }
+}
+
+async function shutdown(signal: string) {
+  console.log(`\n🛑 ${signal} received, stopping status poller...`);
+  if (timer) clearTimeout(timer);
+  await prisma.$disconnect();
+  process.exit(0);
+}
+
+process.on("SIGINT", () => void shutdown("SIGINT"));
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+
+console.log(`📡 Polling the server registry every ${intervalMs / 1000}s`);
+void tick();
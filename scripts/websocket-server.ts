@@ -0,0 +1,36 @@
+/**
+ * Standalone WebSocket server
+ *
+ * Run: npm run ws:server
+ *
+ * Env:
+ * - WEBSOCKET_PORT (default 3002), WEBSOCKET_HOST (default 0.0.0.0)
+ * - WEBSOCKET_INTERNAL_SECRET: shared with the web app; signs connect tickets and
+ *   authenticates POST /publish and /disconnect
+ */
+
+import "dotenv/config";
+import { startWebSocketServer, stopWebSocketServer } from "../lib/websocket-server";
+
+const port = Number(process.env['WEBSOCKET_PORT'] || 3002);
+const host = process.env['WEBSOCKET_HOST'] || "0.0.0.0";
+
+async function shutdown(signal: string) {
+  console.log(`\n🛑 ${signal} received, closing WebSocket server...`);
+  await stopWebSocketServer();
+  process.exit(0);
+}
+
+process.on("SIGINT", () => void shutdown("SIGINT"));
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+
+startWebSocketServer({ port, host })
+  .then(() => {
+    if (!process.env['WEBSOCKET_INTERNAL_SECRET']) {
+      console.warn("⚠️  WEBSOCKET_INTERNAL_SECRET is not set - clients cannot authenticate and the web app cannot publish messages");
+    }
+  })
+  .catch((error) => {
+    console.error("❌ Failed to start WebSocket server:", error);
+    process.exit(1);
+  });
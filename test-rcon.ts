@@ -0,0 +1,157 @@
+/**
+ * RCON Client Integration Test
+ *
+ * Runs the RCON client against a local fake RCON server - no Minecraft server needed.
+ *
+ * Run: npm run test:rcon
+ */
+
+import { createServer, type AddressInfo, type Server, type Socket } from "node:net";
+import {
+  RconPool,
+  RconError,
+  PACKET_TYPE,
+  encodePacket,
+  decodePackets,
+  sendRconCommand,
+} from "./lib/rcon";
+
+const PASSWORD = "test-password";
+const FRAGMENT_SIZE = 4096;
+
+/**
+ * Minimal Minecraft-like RCON server
+ * - Rejects bad passwords with id -1
+ * - Splits long responses into 4096 byte fragments
+ * - Answers unknown packet types (used as sentinels) like Minecraft does
+ * - "sleep" hangs the connection (timeout test)
+ */
+function startFakeRconServer(): Promise<Server> {
+  const handleCommand = (command: string): string => {
+    const [name, player, ...rest] = command.split(" ");
+    if (name === "kick") {
+      return player === "Steve"
+        ? `§eKicked ${player}: ${rest.join(" ") || "Kicked by an operator"}`
+        : "No player was found";
+    }
+    if (name === "long") return "x".repeat(FRAGMENT_SIZE * 2 + 100);
+    return `Unknown or incomplete command, see below for error`;
+  };
+
+  const onConnection = (socket: Socket) => {
+    let buffer: Buffer = Buffer.alloc(0);
+    let authenticated = false;
+    let hung = false;
+
+    socket.on("data", (chunk) => {
+      const { packets, remaining } = decodePackets(Buffer.concat([buffer, chunk]));
+      buffer = remaining;
+
+      for (const packet of packets) {
+        if (hung) return;
+
+        if (packet.type === PACKET_TYPE.AUTH) {
+          authenticated = packet.body === PASSWORD;
+          socket.write(encodePacket(authenticated ? packet.id : -1, PACKET_TYPE.AUTH_RESPONSE, ""));
+          continue;
+        }
+
+        if (!authenticated) {
+          socket.destroy();
+          return;
+        }
+
+        if (packet.type !== PACKET_TYPE.EXEC_COMMAND) {
+          socket.write(encodePacket(packet.id, PACKET_TYPE.RESPONSE_VALUE, `Unknown request ${packet.type}`));
+          continue;
+        }
+
+        if (packet.body === "sleep") {
+          hung = true;
+          return;
+        }
+
+        const response = handleCommand(packet.body);
+        for (let offset = 0; offset < response.length; offset += FRAGMENT_SIZE) {
+          socket.write(encodePacket(packet.id, PACKET_TYPE.RESPONSE_VALUE, response.slice(offset, offset + FRAGMENT_SIZE)));
+        }
+      }
+    });
+  };
+
+  return new Promise((resolve) => {
+    const server = createServer(onConnection);
+    server.listen(0, "127.0.0.1", () => resolve(server));
+  });
+}
+
+async function expectRconError(promise: Promise<unknown>, code: RconError["code"]): Promise<boolean> {
+  try {
+    await promise;
+    return false;
+  } catch (error) {
+    return error instanceof RconError && error.code === code;
+  }
+}
+
+async function runTests() {
+  console.log("🔧 Testing RCON client against a local fake server...\n");
+
+  const server = await startFakeRconServer();
+  const { port } = server.address() as AddressInfo;
+  const options = { host: "127.0.0.1", port, password: PASSWORD, timeoutMs: 1000 };
+  const results: Array<[string, boolean]> = [];
+
+  const pool = new RconPool({ ...options, maxConnections: 2 });
+
+  // Test 1: Successful command
+  const kick = await sendRconCommand("kick Steve Griefing", pool);
+  results.push(["Kick online player", kick.success && kick.output === "Kicked Steve: Griefing"]);
+
+  // Test 2: Server-reported failure
+  const missing = await sendRconCommand("kick Alex", pool);
+  results.push(["Kick offline player reports failure", !missing.success && missing.output === "No player was found"]);
+
+  // Test 3: Multi-packet response reassembly
+  const long = await sendRconCommand("long", pool);
+  results.push(["Reassemble fragmented response", long.raw.length === FRAGMENT_SIZE * 2 + 100]);
+
+  // Test 4: Concurrent commands share a bounded pool
+  const concurrent = await Promise.all(
+    Array.from({ length: 5 }, () => sendRconCommand("kick Steve", pool))
+  );
+  results.push(["Concurrent commands", concurrent.every((result) => result.success) && pool.size <= 2]);
+
+  // Test 5: Timeout drops the connection
+  results.push(["Command timeout", await expectRconError(pool.execute("sleep"), "TIMEOUT")]);
+
+  // Test 6: Pool recovers after a dropped connection
+  const recovered = await sendRconCommand("kick Steve", pool);
+  results.push(["Pool recovers after timeout", recovered.success]);
+
+  // Test 7: Wrong password
+  const badPool = new RconPool({ ...options, password: "wrong" });
+  results.push(["Authentication failure", await expectRconError(badPool.execute("kick Steve"), "AUTH_FAILED")]);
+
+  // Test 8: Connection refused
+  const closedPool = new RconPool({ ...options, port: 1 });
+  results.push(["Connection failure", await expectRconError(closedPool.execute("kick Steve"), "CONNECTION_FAILED")]);
+
+  pool.close();
+  badPool.close();
+  closedPool.close();
+  server.close();
+
+  for (const [name, passed] of results) {
+    console.log(`${passed ? "✅" : "❌"} ${name}`);
+  }
+
+  const failed = results.filter(([, passed]) => !passed).length;
+  console.log(failed === 0 ? "\n🎉 All RCON tests passed!" : `\n💥 ${failed} RCON test(s) failed`);
+  process.exitCode = failed === 0 ? 0 : 1;
+}
+
+runTests().catch((error) => {
+  console.error("❌ RCON test run failed:", error);
+  process.exitCode = 1;
+});